@@ -54,10 +54,29 @@ CREATE TABLE IF NOT EXISTS public.users (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
 );
 
+-- Team workspaces sharing a document library (SECTION 2.15)
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 120),
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'editor', 'viewer')),
+  added_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (workspace_id, user_id)
+);
+
 -- Create documents table with enterprise features
 CREATE TABLE IF NOT EXISTS public.documents (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL,  -- NULL: uploader's personal library
   title TEXT NOT NULL,
   filename TEXT NOT NULL,
   file_path TEXT NOT NULL,
@@ -75,6 +94,13 @@ CREATE TABLE IF NOT EXISTS public.documents (
   effective_chunk_count INTEGER,   -- De-overlapped chunk count for accurate size ratio calculation
   total_characters INTEGER,        -- Total character count for accurate character-based similarity metrics
   embedding_model TEXT DEFAULT 'text-embedding-004',  -- Track which embedding model was used
+  content_hash TEXT,               -- SHA-256 of the uploaded bytes for duplicate warnings
+  previous_version_id UUID REFERENCES documents(id) ON DELETE SET NULL,  -- Document this upload replaces
+  near_duplicate_of UUID REFERENCES documents(id) ON DELETE SET NULL,    -- Earlier document with identical text length and centroid
+  version_chain_id UUID,           -- First version's id, shared by every version of a document
+  version_number INTEGER NOT NULL DEFAULT 1,
+  is_latest_version BOOLEAN NOT NULL DEFAULT true,
+  extraction_provider TEXT CHECK (extraction_provider IN ('document-ai', 'local')),  -- NULL: EXTRACTION_PROVIDER default
   created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
 );
@@ -187,6 +213,31 @@ BEGIN
   END IF;
 END $$;
 
+-- Workspace ownership for documents created before team workspaces
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL;
+
+-- Duplicate detection columns for documents created before content hashing
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS previous_version_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS near_duplicate_of UUID REFERENCES documents(id) ON DELETE SET NULL;
+
+-- Version chain columns for documents created before versioning
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS version_chain_id UUID,
+  ADD COLUMN IF NOT EXISTS version_number INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS is_latest_version BOOLEAN NOT NULL DEFAULT true;
+
+-- Batch extraction columns for jobs created before Document AI batch processing
+-- (metadata.batch_extraction holds the staged input/output locations)
+ALTER TABLE document_jobs
+  ADD COLUMN IF NOT EXISTS batch_operation_id TEXT,
+  ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_document_jobs_batch_operation_id
+  ON document_jobs(batch_operation_id) WHERE batch_operation_id IS NOT NULL;
+
 -- =====================================================
 -- SECTION 2.6: CHARACTER-BASED SIMILARITY SEARCH COLUMNS
 -- =====================================================
@@ -219,6 +270,978 @@ CREATE INDEX IF NOT EXISTS idx_documents_total_characters
 ON documents(total_characters)
 WHERE total_characters IS NOT NULL;
 
+-- =====================================================
+-- SECTION 2.7: BM25 LEXICAL INDEX (SPARSE / HYBRID STAGE 0)
+-- =====================================================
+-- Stored tsvector over chunk_text plus a per-user BM25 scoring function used by
+-- Stage 0 sparse and hybrid retrieval modes
+
+ALTER TABLE document_embeddings
+  ADD COLUMN IF NOT EXISTS chunk_text_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', COALESCE(chunk_text, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_chunk_text_tsv
+  ON public.document_embeddings USING gin(chunk_text_tsv);
+
+-- Pre-workspace signature (per-user corpus only)
+DROP FUNCTION IF EXISTS public.bm25_candidate_documents(
+  UUID, UUID, INTEGER, INTEGER, UUID[], INTEGER, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION
+);
+
+-- Score the caller's chunks (own documents plus p_workspace_ids) matched
+-- through the GIN index against the most frequent lexemes of the source
+-- document (optionally limited to a page range). Each document scores as its
+-- best chunk so long documents do not win on chunk count alone.
+CREATE OR REPLACE FUNCTION public.bm25_candidate_documents(
+  p_user_id UUID,
+  p_source_document_id UUID,
+  p_start_page INTEGER DEFAULT NULL,
+  p_end_page INTEGER DEFAULT NULL,
+  p_document_ids UUID[] DEFAULT NULL,
+  p_max_terms INTEGER DEFAULT 64,
+  p_match_count INTEGER DEFAULT 600,
+  p_k1 DOUBLE PRECISION DEFAULT 1.2,
+  p_b DOUBLE PRECISION DEFAULT 0.75,
+  p_workspace_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (document_id UUID, score DOUBLE PRECISION, matched_chunks INTEGER)
+LANGUAGE sql STABLE
+AS $$
+  WITH corpus_stats AS (
+    SELECT
+      GREATEST(SUM(d.effective_chunk_count), 1)::DOUBLE PRECISION AS chunk_total,
+      GREATEST(
+        SUM(d.total_characters)::DOUBLE PRECISION / NULLIF(SUM(d.effective_chunk_count), 0),
+        1
+      )::DOUBLE PRECISION AS avg_length
+    FROM public.documents d
+    WHERE ((d.workspace_id IS NULL AND d.user_id = p_user_id) OR d.workspace_id = ANY(p_workspace_ids))
+      AND d.status = 'completed'
+  ),
+  source_terms AS (
+    SELECT t.lexeme, SUM(COALESCE(array_length(t.positions, 1), 1)) AS source_tf
+    FROM public.document_embeddings e
+    CROSS JOIN LATERAL unnest(e.chunk_text_tsv) AS t
+    WHERE e.document_id = p_source_document_id
+      AND (p_start_page IS NULL OR COALESCE(e.end_page_number, e.page_number) >= p_start_page)
+      AND (p_end_page IS NULL OR COALESCE(e.start_page_number, e.page_number) <= p_end_page)
+      AND length(t.lexeme) >= 3
+      AND t.lexeme !~ '^[0-9.,]+$'
+    GROUP BY t.lexeme
+    ORDER BY source_tf DESC, t.lexeme
+    LIMIT p_max_terms
+  ),
+  source_query AS (
+    SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery AS q
+    FROM source_terms
+  ),
+  matched AS (
+    SELECT
+      e.id,
+      e.document_id,
+      e.chunk_text_tsv,
+      GREATEST(COALESCE(e.character_count, length(e.chunk_text)), 1)::DOUBLE PRECISION AS chunk_length
+    FROM source_query sq
+    JOIN public.document_embeddings e ON e.chunk_text_tsv @@ sq.q
+    JOIN public.documents d ON d.id = e.document_id
+    WHERE ((d.workspace_id IS NULL AND d.user_id = p_user_id) OR d.workspace_id = ANY(p_workspace_ids))
+      AND d.status = 'completed'
+  ),
+  postings AS (
+    SELECT
+      m.id AS chunk_id,
+      m.document_id,
+      m.chunk_length,
+      t.lexeme,
+      COALESCE(array_length(t.positions, 1), 1)::DOUBLE PRECISION AS tf
+    FROM matched m
+    CROSS JOIN LATERAL unnest(m.chunk_text_tsv) AS t
+    WHERE t.lexeme IN (SELECT lexeme FROM source_terms)
+  ),
+  term_df AS (
+    SELECT lexeme, COUNT(DISTINCT chunk_id)::DOUBLE PRECISION AS df
+    FROM postings
+    GROUP BY lexeme
+  ),
+  chunk_scores AS (
+    SELECT
+      p.chunk_id,
+      p.document_id,
+      SUM(
+        ln(1 + GREATEST(s.chunk_total - df.df + 0.5, 0) / (df.df + 0.5))
+        * (p.tf * (p_k1 + 1))
+        / (p.tf + p_k1 * (1 - p_b + p_b * p.chunk_length / s.avg_length))
+      ) AS chunk_score
+    FROM postings p
+    JOIN term_df df ON df.lexeme = p.lexeme
+    CROSS JOIN corpus_stats s
+    WHERE p.document_id <> p_source_document_id
+      AND (p_document_ids IS NULL OR p.document_id = ANY(p_document_ids))
+    GROUP BY p.chunk_id, p.document_id
+  )
+  SELECT
+    cs.document_id,
+    MAX(cs.chunk_score)::DOUBLE PRECISION AS score,
+    COUNT(*)::INTEGER AS matched_chunks
+  FROM chunk_scores cs
+  GROUP BY cs.document_id
+  ORDER BY 2 DESC
+  LIMIT p_match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bm25_candidate_documents(
+  UUID, UUID, INTEGER, INTEGER, UUID[], INTEGER, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, UUID[]
+) TO service_role;
+
+-- =====================================================
+-- SECTION 2.8: PERSISTED SIMILARITY SEARCH RUNS
+-- =====================================================
+-- Stored similar-v2 / selected-search runs (options, timings, full results) that
+-- users can reopen; marked stale when a referenced document is reprocessed
+
+CREATE TABLE IF NOT EXISTS similarity_searches (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  search_type TEXT NOT NULL DEFAULT 'general' CHECK (search_type IN ('general', 'selected')),
+  target_document_ids UUID[] NOT NULL DEFAULT '{}',  -- Result + selected target ids (drives staleness)
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,         -- Filters, page range, thresholds, stage config
+  timing JSONB,
+  stages JSONB,
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,          -- Full SimilarityResult[] including sections
+  result_count INTEGER NOT NULL DEFAULT 0,
+  is_stale BOOLEAN NOT NULL DEFAULT false,
+  stale_reason TEXT,
+  stale_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_similarity_searches_source_created
+  ON similarity_searches (user_id, source_document_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_similarity_searches_targets
+  ON similarity_searches USING gin(target_document_ids);
+
+ALTER TABLE similarity_searches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own similarity searches" ON similarity_searches;
+CREATE POLICY "Users can view own similarity searches" ON similarity_searches
+  FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can insert own similarity searches" ON similarity_searches;
+CREATE POLICY "Users can insert own similarity searches" ON similarity_searches
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can delete own similarity searches" ON similarity_searches;
+CREATE POLICY "Users can delete own similarity searches" ON similarity_searches
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Mark stored runs stale when a document they reference goes back into the
+-- processing queue (retry / reprocess replaces its chunks and embeddings)
+CREATE OR REPLACE FUNCTION mark_similarity_searches_stale()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE similarity_searches
+  SET
+    is_stale = true,
+    stale_reason = CASE
+      WHEN source_document_id = NEW.id THEN 'source_reprocessed'
+      ELSE 'target_reprocessed'
+    END,
+    stale_at = NOW()
+  WHERE is_stale = false
+    AND (source_document_id = NEW.id OR NEW.id = ANY(target_document_ids));
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS mark_similarity_searches_stale_on_reprocess ON documents;
+CREATE TRIGGER mark_similarity_searches_stale_on_reprocess
+  AFTER UPDATE OF status ON documents
+  FOR EACH ROW
+  WHEN (
+    OLD.status IS DISTINCT FROM NEW.status
+    AND NEW.status IN ('queued', 'processing')
+    AND OLD.status IN ('completed', 'error', 'cancelled')
+  )
+  EXECUTE FUNCTION mark_similarity_searches_stale();
+
+-- =====================================================
+-- SECTION 2.9: ASYNC SIMILARITY JOBS
+-- =====================================================
+-- Queue for similarity searches executed outside the request; workers record
+-- stage progress and partial results that clients follow over SSE
+
+CREATE TABLE IF NOT EXISTS similarity_jobs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  search_type TEXT NOT NULL DEFAULT 'general' CHECK (search_type IN ('general', 'selected')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'cancelled')),
+  request JSONB NOT NULL,                  -- Normalized pipeline options + shaping parameters
+  progress JSONB,                          -- Stage 0 / Stage 1 counts, Stage 2 scored/total
+  partial_results JSONB,                   -- Current top results while Stage 2 runs
+  result JSONB,                            -- Final response payload
+  search_id UUID REFERENCES similarity_searches(id) ON DELETE SET NULL,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 2,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_similarity_jobs_status_created
+  ON similarity_jobs (status, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_similarity_jobs_user_created
+  ON similarity_jobs (user_id, created_at DESC);
+
+ALTER TABLE similarity_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own similarity jobs" ON similarity_jobs;
+CREATE POLICY "Users can view own similarity jobs" ON similarity_jobs
+  FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can cancel own similarity jobs" ON similarity_jobs;
+CREATE POLICY "Users can cancel own similarity jobs" ON similarity_jobs
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id AND status = 'cancelled');
+DROP POLICY IF EXISTS "System can manage similarity jobs" ON similarity_jobs;
+CREATE POLICY "System can manage similarity jobs" ON similarity_jobs
+  FOR ALL TO service_role USING (true);
+
+-- =====================================================
+-- SECTION 2.10: NEAR-DUPLICATE SCANS
+-- =====================================================
+-- Library-wide Stage 0 + Stage 2 scan; pairwise edges above the threshold are
+-- grouped into duplicate families (connected components)
+
+CREATE TABLE IF NOT EXISTS duplicate_scans (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'cancelled')),
+  threshold NUMERIC NOT NULL DEFAULT 0.8,           -- Edge kept when sourceScore OR targetScore >= threshold
+  candidates_per_document INTEGER NOT NULL DEFAULT 50,
+  document_ids UUID[] NOT NULL DEFAULT '{}',        -- Completed documents snapshotted at creation
+  next_index INTEGER NOT NULL DEFAULT 0,            -- Position in document_ids the next batch starts from
+  pair_count INTEGER NOT NULL DEFAULT 0,
+  cluster_count INTEGER NOT NULL DEFAULT 0,
+  failed_document_ids UUID[] NOT NULL DEFAULT '{}',
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_scans_user_created
+  ON duplicate_scans (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_scans_status_updated
+  ON duplicate_scans (status, updated_at);
+
+CREATE TABLE IF NOT EXISTS duplicate_clusters (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  scan_id UUID NOT NULL REFERENCES duplicate_scans(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_ids UUID[] NOT NULL,
+  size INTEGER NOT NULL,
+  edge_count INTEGER NOT NULL,
+  max_score NUMERIC NOT NULL,
+  avg_score NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_clusters_scan
+  ON duplicate_clusters (scan_id, size DESC);
+
+-- Pairwise edges (document_a_id < document_b_id so each pair is stored once)
+CREATE TABLE IF NOT EXISTS duplicate_pairs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  scan_id UUID NOT NULL REFERENCES duplicate_scans(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  cluster_id UUID REFERENCES duplicate_clusters(id) ON DELETE SET NULL,
+  document_a_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  document_b_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  document_a_score NUMERIC NOT NULL,                -- Portion of document A matched
+  document_b_score NUMERIC NOT NULL,                -- Portion of document B matched
+  max_score NUMERIC NOT NULL,
+  matched_a_characters INTEGER NOT NULL DEFAULT 0,
+  matched_b_characters INTEGER NOT NULL DEFAULT 0,
+  sections JSONB NOT NULL DEFAULT '[]'::jsonb,      -- Strongest shared sections (page ranges, avg score)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  CONSTRAINT duplicate_pairs_ordered CHECK (document_a_id < document_b_id),
+  CONSTRAINT duplicate_pairs_unique UNIQUE (scan_id, document_a_id, document_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_pairs_cluster
+  ON duplicate_pairs (cluster_id, max_score DESC);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_pairs_scan_score
+  ON duplicate_pairs (scan_id, max_score DESC);
+
+ALTER TABLE duplicate_scans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE duplicate_clusters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE duplicate_pairs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own duplicate scans" ON duplicate_scans;
+CREATE POLICY "Users can view own duplicate scans" ON duplicate_scans
+  FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can delete own duplicate scans" ON duplicate_scans;
+CREATE POLICY "Users can delete own duplicate scans" ON duplicate_scans
+  FOR DELETE USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "System can manage duplicate scans" ON duplicate_scans;
+CREATE POLICY "System can manage duplicate scans" ON duplicate_scans
+  FOR ALL TO service_role USING (true);
+
+DROP POLICY IF EXISTS "Users can view own duplicate clusters" ON duplicate_clusters;
+CREATE POLICY "Users can view own duplicate clusters" ON duplicate_clusters
+  FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "System can manage duplicate clusters" ON duplicate_clusters;
+CREATE POLICY "System can manage duplicate clusters" ON duplicate_clusters
+  FOR ALL TO service_role USING (true);
+
+DROP POLICY IF EXISTS "Users can view own duplicate pairs" ON duplicate_pairs;
+CREATE POLICY "Users can view own duplicate pairs" ON duplicate_pairs
+  FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "System can manage duplicate pairs" ON duplicate_pairs;
+CREATE POLICY "System can manage duplicate pairs" ON duplicate_pairs
+  FOR ALL TO service_role USING (true);
+
+-- =====================================================
+-- SECTION 2.11: EXCLUSION RANGE RE-EMBEDDING
+-- =====================================================
+-- Page text and paragraphs kept so edited exclusion ranges re-embed only the
+-- affected pages (no second Document AI pass)
+
+ALTER TABLE document_content
+  ADD COLUMN IF NOT EXISTS page_texts JSONB,   -- [{ text, pageNumber }]
+  ADD COLUMN IF NOT EXISTS paragraphs JSONB;   -- [{ text, pageNumber, index, startPageNumber?, endPageNumber? }]
+
+CREATE INDEX IF NOT EXISTS idx_document_jobs_operation_type
+  ON document_jobs (operation_type, status);
+
+-- =====================================================
+-- SECTION 2.12: CHUNK REGIONS
+-- =====================================================
+-- Document AI paragraph boxes per chunk for the highlighted PDF viewer
+-- (normalized 0-1, top-left origin)
+
+ALTER TABLE document_embeddings
+  ADD COLUMN IF NOT EXISTS regions JSONB;   -- [{ pageNumber, x0, y0, x1, y1 }]
+
+-- =====================================================
+-- SECTION 2.13: CONTENT SEARCH
+-- =====================================================
+-- Keyword search over chunk_text_tsv (SECTION 2.7 BM25 index) with ranked
+-- documents, best chunks per document and <mark>-highlighted snippets
+
+-- Pre-workspace signature (per-user corpus only)
+DROP FUNCTION IF EXISTS search_document_content(
+  UUID, TEXT, INTEGER, INTEGER, INTEGER, TEXT[], TEXT[], TEXT[], TEXT[]
+);
+
+CREATE OR REPLACE FUNCTION search_document_content(
+  p_user_id UUID,
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_snippets_per_document INTEGER DEFAULT 3,
+  p_law_firms TEXT[] DEFAULT NULL,
+  p_fund_managers TEXT[] DEFAULT NULL,
+  p_fund_admins TEXT[] DEFAULT NULL,
+  p_jurisdictions TEXT[] DEFAULT NULL,
+  p_workspace_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  document_id UUID,
+  document_rank REAL,
+  match_count INTEGER,
+  total_documents INTEGER,
+  chunk_index INTEGER,
+  page_number INTEGER,
+  start_page_number INTEGER,
+  end_page_number INTEGER,
+  chunk_rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH search_query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q
+  ),
+  hits AS (
+    SELECT
+      e.document_id,
+      e.chunk_index,
+      e.page_number,
+      e.start_page_number,
+      e.end_page_number,
+      e.chunk_text,
+      ts_rank_cd(e.chunk_text_tsv, sq.q) AS chunk_rank
+    FROM document_embeddings e
+    JOIN documents d ON d.id = e.document_id
+    CROSS JOIN search_query sq
+    WHERE ((d.workspace_id IS NULL AND d.user_id = p_user_id) OR d.workspace_id = ANY(p_workspace_ids))
+      AND d.status = 'completed'
+      AND e.chunk_text_tsv @@ sq.q
+      AND (p_law_firms IS NULL OR d.metadata->>'law_firm' = ANY(p_law_firms))
+      AND (p_fund_managers IS NULL OR d.metadata->>'fund_manager' = ANY(p_fund_managers))
+      AND (p_fund_admins IS NULL OR d.metadata->>'fund_admin' = ANY(p_fund_admins))
+      AND (p_jurisdictions IS NULL OR d.metadata->>'jurisdiction' = ANY(p_jurisdictions))
+  ),
+  ranked_documents AS (
+    SELECT
+      h.document_id,
+      SUM(h.chunk_rank)::REAL AS document_rank,
+      COUNT(*)::INTEGER AS match_count
+    FROM hits h
+    GROUP BY h.document_id
+  ),
+  page_of_documents AS (
+    SELECT
+      rd.document_id,
+      rd.document_rank,
+      rd.match_count,
+      (COUNT(*) OVER ())::INTEGER AS total_documents
+    FROM ranked_documents rd
+    ORDER BY rd.document_rank DESC, rd.document_id
+    LIMIT p_limit
+    OFFSET p_offset
+  ),
+  best_chunks AS (
+    SELECT
+      h.*,
+      row_number() OVER (PARTITION BY h.document_id ORDER BY h.chunk_rank DESC, h.chunk_index) AS chunk_position
+    FROM hits h
+    WHERE h.document_id IN (SELECT document_id FROM page_of_documents)
+  )
+  SELECT
+    p.document_id,
+    p.document_rank,
+    p.match_count,
+    p.total_documents,
+    b.chunk_index,
+    b.page_number,
+    b.start_page_number,
+    b.end_page_number,
+    b.chunk_rank::REAL,
+    ts_headline(
+      'english',
+      b.chunk_text,
+      sq.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=40, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM page_of_documents p
+  JOIN best_chunks b
+    ON b.document_id = p.document_id
+   AND b.chunk_position <= p_snippets_per_document
+  CROSS JOIN search_query sq
+  ORDER BY p.document_rank DESC, p.document_id, b.chunk_rank DESC, b.chunk_index;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_document_content(
+  UUID, TEXT, INTEGER, INTEGER, INTEGER, TEXT[], TEXT[], TEXT[], TEXT[], UUID[]
+) TO service_role;
+
+-- =====================================================
+-- SECTION 2.14: ADMIN CONSOLE
+-- =====================================================
+-- Per-user document counts, failed jobs and storage usage for /admin
+
+-- The job worker records the final failure reason here
+ALTER TABLE document_jobs ADD COLUMN IF NOT EXISTS error_message TEXT;
+
+-- One row per user with their library and queue footprint
+CREATE OR REPLACE FUNCTION admin_user_summaries()
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  full_name TEXT,
+  role TEXT,
+  document_count INTEGER,
+  completed_count INTEGER,
+  in_progress_count INTEGER,
+  error_count INTEGER,
+  failed_job_count INTEGER,
+  storage_bytes BIGINT,
+  last_upload_at TIMESTAMPTZ
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH document_totals AS (
+    SELECT
+      d.user_id,
+      COUNT(*)::INTEGER AS document_count,
+      COUNT(*) FILTER (WHERE d.status = 'completed')::INTEGER AS completed_count,
+      COUNT(*) FILTER (WHERE d.status IN ('uploading', 'queued', 'processing'))::INTEGER AS in_progress_count,
+      COUNT(*) FILTER (WHERE d.status = 'error')::INTEGER AS error_count,
+      COALESCE(SUM(d.file_size), 0)::BIGINT AS storage_bytes,
+      MAX(d.created_at) AS last_upload_at
+    FROM documents d
+    GROUP BY d.user_id
+  ),
+  failed_jobs AS (
+    SELECT j.user_id, COUNT(*)::INTEGER AS failed_job_count
+    FROM document_jobs j
+    WHERE j.status = 'failed'
+    GROUP BY j.user_id
+  )
+  SELECT
+    u.id AS user_id,
+    u.email,
+    u.full_name,
+    u.role,
+    COALESCE(dt.document_count, 0) AS document_count,
+    COALESCE(dt.completed_count, 0) AS completed_count,
+    COALESCE(dt.in_progress_count, 0) AS in_progress_count,
+    COALESCE(dt.error_count, 0) AS error_count,
+    COALESCE(fj.failed_job_count, 0) AS failed_job_count,
+    COALESCE(dt.storage_bytes, 0) AS storage_bytes,
+    dt.last_upload_at
+  FROM users u
+  LEFT JOIN document_totals dt ON dt.user_id = u.id
+  LEFT JOIN failed_jobs fj ON fj.user_id = u.id
+  ORDER BY COALESCE(dt.storage_bytes, 0) DESC, u.email;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_user_summaries() TO service_role;
+
+-- =====================================================
+-- SECTION 2.15: TEAM WORKSPACES
+-- =====================================================
+-- Shared document libraries (tables in SECTION 2, policies in SECTION 6).
+-- documents.workspace_id NULL keeps a document in the uploader's personal
+-- library; otherwise every workspace member can see it.
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user
+  ON workspace_members(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_documents_workspace_created
+  ON documents(workspace_id, created_at DESC)
+  WHERE workspace_id IS NOT NULL;
+
+-- Storage policies resolve shared objects by path
+CREATE INDEX IF NOT EXISTS idx_documents_workspace_file_path
+  ON documents(file_path)
+  WHERE workspace_id IS NOT NULL;
+
+-- Membership check used by the RLS policies. SECURITY DEFINER so the
+-- workspace_members policies do not recurse into themselves.
+CREATE OR REPLACE FUNCTION is_workspace_member(
+  p_workspace_id UUID,
+  p_roles TEXT[] DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_workspace_id IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM workspace_members m
+    WHERE m.workspace_id = p_workspace_id
+      AND m.user_id = auth.uid()
+      AND (p_roles IS NULL OR m.role = ANY(p_roles))
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_workspace_member(UUID, TEXT[]) TO authenticated, service_role;
+
+-- Document access for RLS: the uploader for personal documents, current
+-- membership (and role) for workspace documents
+CREATE OR REPLACE FUNCTION can_access_document(
+  p_user_id UUID,
+  p_workspace_id UUID,
+  p_roles TEXT[] DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_workspace_id IS NULL THEN p_user_id = auth.uid()
+    ELSE is_workspace_member(p_workspace_id, p_roles)
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION can_access_document(UUID, UUID, TEXT[]) TO authenticated, service_role;
+
+-- =====================================================
+-- SECTION 2.16: ZIP ARCHIVE UPLOAD BATCHES
+-- =====================================================
+-- One batch per uploaded archive with its per-entry report; documents link
+-- back through upload_batch_id for aggregate progress
+
+CREATE TABLE IF NOT EXISTS upload_batches (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL,
+  archive_name TEXT NOT NULL,
+  archive_size BIGINT NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'expanding' CHECK (status IN ('expanding', 'processing', 'completed', 'failed')),
+  total_entries INTEGER NOT NULL DEFAULT 0,          -- Files in the archive (directories excluded)
+  queued_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  entries JSONB NOT NULL DEFAULT '[]'::jsonb,        -- Per-entry report: path, outcome, reason, document_id
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_batches_user_created
+  ON upload_batches (user_id, created_at DESC);
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS upload_batch_id UUID REFERENCES upload_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_upload_batch
+  ON documents (upload_batch_id, status)
+  WHERE upload_batch_id IS NOT NULL;
+
+ALTER TABLE upload_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own upload batches" ON upload_batches;
+CREATE POLICY "Users can view own upload batches" ON upload_batches
+  FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "System can manage upload batches" ON upload_batches;
+CREATE POLICY "System can manage upload batches" ON upload_batches
+  FOR ALL TO service_role USING (true);
+
+-- =====================================================
+-- SECTION 2.17: DOCUMENT CONTENT HASHES
+-- =====================================================
+-- Byte-identical uploads are found by content_hash within a library;
+-- near-duplicates share total_characters (then the centroid is compared)
+
+CREATE INDEX IF NOT EXISTS idx_documents_user_content_hash
+  ON documents (user_id, content_hash)
+  WHERE content_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_workspace_content_hash
+  ON documents (workspace_id, content_hash)
+  WHERE workspace_id IS NOT NULL AND content_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_previous_version
+  ON documents (previous_version_id)
+  WHERE previous_version_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_total_characters
+  ON documents (total_characters)
+  WHERE total_characters IS NOT NULL;
+
+-- =====================================================
+-- SECTION 2.18: DOCUMENT VERSION CHAINS
+-- =====================================================
+-- Versions of one document share version_chain_id (the first version's id);
+-- only the newest has is_latest_version
+
+CREATE INDEX IF NOT EXISTS idx_documents_version_chain
+  ON documents (version_chain_id, version_number)
+  WHERE version_chain_id IS NOT NULL;
+
+-- Deleting the latest version promotes the highest remaining version_number
+CREATE OR REPLACE FUNCTION promote_latest_document_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE documents
+  SET is_latest_version = true
+  WHERE id = (
+      SELECT id
+      FROM documents
+      WHERE version_chain_id = OLD.version_chain_id
+      ORDER BY version_number DESC, created_at DESC
+      LIMIT 1
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM documents
+      WHERE version_chain_id = OLD.version_chain_id
+        AND is_latest_version = true
+    );
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS promote_latest_document_version_on_delete ON documents;
+CREATE TRIGGER promote_latest_document_version_on_delete
+  AFTER DELETE ON documents
+  FOR EACH ROW
+  WHEN (OLD.is_latest_version AND OLD.version_chain_id IS NOT NULL)
+  EXECUTE FUNCTION promote_latest_document_version();
+
+-- =====================================================
+-- SECTION 2.19: RE-EMBEDDING MIGRATIONS
+-- =====================================================
+-- Library-wide moves to a new embedding model: vectors are staged in pending_*
+-- columns and a separate Pinecone namespace, then switched in one transaction
+
+-- Active embedding configuration; a single row written by the last switch
+CREATE TABLE IF NOT EXISTS embedding_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  provider TEXT NOT NULL CHECK (provider IN ('vertex', 'local')),
+  model TEXT NOT NULL,
+  dimension INTEGER NOT NULL,
+  pinecone_namespace TEXT NOT NULL DEFAULT '',      -- '' is the index's default namespace
+  migration_id UUID,                                -- Migration that switched to this model
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS embedding_migrations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'cancelled')),
+  source_model TEXT NOT NULL,                       -- Model id active when the migration started
+  source_namespace TEXT NOT NULL DEFAULT '',
+  target_provider TEXT NOT NULL CHECK (target_provider IN ('vertex', 'local')),
+  target_model TEXT NOT NULL,
+  target_model_id TEXT NOT NULL,                    -- Recorded in documents.embedding_model after the switch
+  target_dimension INTEGER NOT NULL,
+  target_namespace TEXT NOT NULL,
+  document_ids UUID[] NOT NULL DEFAULT '{}',        -- Documents to re-embed; documents completed later are appended
+  next_index INTEGER NOT NULL DEFAULT 0,            -- Position in document_ids the next batch starts from
+  embedded_chunks INTEGER NOT NULL DEFAULT 0,
+  embedded_characters BIGINT NOT NULL DEFAULT 0,
+  failed_document_ids UUID[] NOT NULL DEFAULT '{}',
+  estimate JSONB,                                   -- Dry-run estimate taken when the migration was queued
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  switched_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_migrations_status_updated
+  ON embedding_migrations (status, updated_at);
+
+-- Only one migration may stage vectors at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embedding_migrations_single_active
+  ON embedding_migrations ((true))
+  WHERE status IN ('queued', 'processing');
+
+-- Staged vectors, swapped into the live columns by the switch
+ALTER TABLE document_embeddings
+  ADD COLUMN IF NOT EXISTS pending_embedding vector(768);
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS pending_centroid_embedding vector(768),
+  ADD COLUMN IF NOT EXISTS pending_embedding_model TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_pending_embedding_model
+  ON documents (pending_embedding_model)
+  WHERE pending_embedding_model IS NOT NULL;
+
+ALTER TABLE embedding_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE embedding_migrations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "System can manage embedding settings" ON embedding_settings;
+CREATE POLICY "System can manage embedding settings" ON embedding_settings
+  FOR ALL TO service_role USING (true);
+DROP POLICY IF EXISTS "System can manage embedding migrations" ON embedding_migrations;
+CREATE POLICY "System can manage embedding migrations" ON embedding_migrations
+  FOR ALL TO service_role USING (true);
+
+-- Swap staged vectors into place and make the target model active.
+-- Runs in one transaction: searches see either the old model everywhere or
+-- the new one everywhere. Documents not staged for the target keep their
+-- vectors and old embedding_model (they are excluded from comparisons).
+CREATE OR REPLACE FUNCTION switch_embedding_migration(p_migration_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+SET statement_timeout = 0
+AS $$
+DECLARE
+  migration embedding_migrations%ROWTYPE;
+  switched_documents INTEGER;
+BEGIN
+  SELECT * INTO migration
+  FROM embedding_migrations
+  WHERE id = p_migration_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Embedding migration % not found', p_migration_id;
+  END IF;
+  IF migration.status <> 'processing' THEN
+    RAISE EXCEPTION 'Embedding migration % is %, not processing', p_migration_id, migration.status;
+  END IF;
+
+  UPDATE document_embeddings e
+  SET embedding = e.pending_embedding,
+      pending_embedding = NULL
+  FROM documents d
+  WHERE d.id = e.document_id
+    AND d.pending_embedding_model = migration.target_model_id
+    AND e.pending_embedding IS NOT NULL;
+
+  UPDATE document_tables t
+  SET embedding = t.pending_embedding,
+      pending_embedding = NULL
+  FROM documents d
+  WHERE d.id = t.document_id
+    AND d.pending_embedding_model = migration.target_model_id
+    AND t.pending_embedding IS NOT NULL;
+
+  UPDATE documents
+  SET centroid_embedding = pending_centroid_embedding,
+      embedding_model = pending_embedding_model,
+      pending_centroid_embedding = NULL,
+      pending_embedding_model = NULL
+  WHERE pending_embedding_model = migration.target_model_id;
+
+  GET DIAGNOSTICS switched_documents = ROW_COUNT;
+
+  INSERT INTO embedding_settings (id, provider, model, dimension, pinecone_namespace, migration_id, updated_at)
+  VALUES (
+    true,
+    migration.target_provider,
+    migration.target_model,
+    migration.target_dimension,
+    migration.target_namespace,
+    migration.id,
+    timezone('utc'::text, now())
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET provider = EXCLUDED.provider,
+      model = EXCLUDED.model,
+      dimension = EXCLUDED.dimension,
+      pinecone_namespace = EXCLUDED.pinecone_namespace,
+      migration_id = EXCLUDED.migration_id,
+      updated_at = EXCLUDED.updated_at;
+
+  UPDATE embedding_migrations
+  SET status = 'completed',
+      completed_at = timezone('utc'::text, now()),
+      switched_at = timezone('utc'::text, now()),
+      updated_at = timezone('utc'::text, now())
+  WHERE id = p_migration_id;
+
+  RETURN switched_documents;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION switch_embedding_migration(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION switch_embedding_migration(UUID) TO service_role;
+
+-- =====================================================
+-- SECTION 2.20: DOCUMENT TABLES
+-- =====================================================
+-- Extracted tables as rows of cells, kept out of the paragraph chunks and
+-- embedded one vector per table for table-level matching
+
+CREATE TABLE IF NOT EXISTS document_tables (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  table_index INTEGER NOT NULL,                     -- Order of the table in the document
+  page_number INTEGER NOT NULL,
+  header_rows JSONB NOT NULL DEFAULT '[]',          -- string[][]; empty cells kept as '' so columns line up
+  body_rows JSONB NOT NULL DEFAULT '[]',            -- string[][]
+  row_count INTEGER NOT NULL DEFAULT 0,             -- Header and body rows
+  column_count INTEGER NOT NULL DEFAULT 0,
+  region JSONB,                                     -- { pageNumber, x0, y0, x1, y1 } normalized to the page
+  table_text TEXT NOT NULL,                         -- Linearized text that was embedded
+  embedding vector(768),                            -- NULL when embedding failed; the table is still shown
+  pending_embedding vector(768),                    -- Staged by re-embedding migrations
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_tables_document_index
+  ON document_tables (document_id, table_index);
+
+ALTER TABLE document_tables ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own document tables" ON document_tables;
+CREATE POLICY "Users can view own document tables" ON document_tables FOR SELECT
+USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = document_id AND can_access_document(d.user_id, d.workspace_id)));
+DROP POLICY IF EXISTS "System can manage document tables" ON document_tables;
+CREATE POLICY "System can manage document tables" ON document_tables
+  FOR ALL TO service_role USING (true);
+
+-- =====================================================
+-- SECTION 2.21: PINECONE CLEANUP TASKS
+-- =====================================================
+-- Durable queue of vector deletions, retried by the process-jobs cron;
+-- tasks out of retries stay as 'dead' until an admin retries them
+
+CREATE TABLE IF NOT EXISTS pinecone_cleanup_tasks (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  document_id UUID NOT NULL,                        -- No foreign key: the document is usually gone
+  vector_ids TEXT[],                                -- Prefetched before the chunks were deleted; NULL looks them up
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_run_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pinecone_cleanup_tasks_document
+  ON pinecone_cleanup_tasks (document_id);
+
+CREATE INDEX IF NOT EXISTS idx_pinecone_cleanup_tasks_due
+  ON pinecone_cleanup_tasks (status, next_run_at);
+
+ALTER TABLE pinecone_cleanup_tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "System can manage pinecone cleanup tasks" ON pinecone_cleanup_tasks;
+CREATE POLICY "System can manage pinecone cleanup tasks" ON pinecone_cleanup_tasks
+  FOR ALL TO service_role USING (true);
+
+-- =====================================================
+-- SECTION 2.22: PINECONE RECONCILIATION RUNS
+-- =====================================================
+-- Supabase/Pinecone consistency checks (dry run or repair), advanced in
+-- batches by /api/cron/reconcile-pinecone
+
+CREATE TABLE IF NOT EXISTS pinecone_reconciliation_runs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,  -- NULL for scheduled runs
+  mode TEXT NOT NULL DEFAULT 'dry_run' CHECK (mode IN ('dry_run', 'repair')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed')),
+  namespace TEXT NOT NULL DEFAULT '',               -- Namespace active when the run started
+  phase TEXT NOT NULL DEFAULT 'documents' CHECK (phase IN ('documents', 'vectors')),
+  document_cursor UUID,                             -- Last document checked (documents are walked in id order)
+  vector_cursor TEXT,                               -- Pinecone list pagination token of the vector sweep
+  documents_checked INTEGER NOT NULL DEFAULT 0,
+  vectors_scanned INTEGER NOT NULL DEFAULT 0,
+  missing_vectors INTEGER NOT NULL DEFAULT 0,
+  orphan_vectors INTEGER NOT NULL DEFAULT 0,
+  drifted_documents INTEGER NOT NULL DEFAULT 0,
+  missing_centroids INTEGER NOT NULL DEFAULT 0,
+  repaired_issues INTEGER NOT NULL DEFAULT 0,
+  failed_repairs INTEGER NOT NULL DEFAULT 0,
+  issues JSONB NOT NULL DEFAULT '[]'::jsonb,        -- First findings, capped; the counters cover all of them
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_pinecone_reconciliation_runs_status_updated
+  ON pinecone_reconciliation_runs (status, updated_at);
+
+-- One run at a time: repairs of two runs would race on the same vectors
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pinecone_reconciliation_runs_single_active
+  ON pinecone_reconciliation_runs ((true))
+  WHERE status IN ('queued', 'processing');
+
+ALTER TABLE pinecone_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "System can manage pinecone reconciliation runs" ON pinecone_reconciliation_runs;
+CREATE POLICY "System can manage pinecone reconciliation runs" ON pinecone_reconciliation_runs
+  FOR ALL TO service_role USING (true);
+
 -- =====================================================
 -- SECTION 3: ACTIVITY LOGGING SYSTEM
 -- =====================================================
@@ -373,6 +1396,8 @@ CREATE INDEX IF NOT EXISTS idx_user_activity_logs_logged_at ON user_activity_log
 CREATE INDEX IF NOT EXISTS idx_user_activity_logs_user_uuid ON user_activity_logs(user_uuid);
 CREATE INDEX IF NOT EXISTS idx_user_activity_logs_action_type ON user_activity_logs(action_type);
 CREATE INDEX IF NOT EXISTS idx_user_activity_logs_resource_type ON user_activity_logs(resource_type);
+CREATE INDEX IF NOT EXISTS idx_user_activity_logs_resource_uuid ON user_activity_logs(resource_uuid, logged_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_activity_logs_user_logged_at ON user_activity_logs(user_uuid, logged_at DESC);
 
 -- =====================================================
 -- SECTION 5: ENTERPRISE VIEWS AND ANALYTICS
@@ -401,6 +1426,13 @@ SELECT
     WHEN action_type = 'delete' THEN 'Deleted document'
     WHEN action_type = 'search' THEN 'Searched documents'
     WHEN action_type = 'similarity' THEN 'Found similar documents'
+    WHEN action_type = 'download' THEN 'Downloaded document'
+    WHEN action_type = 'view' THEN 'Viewed document'
+    WHEN action_type = 'update' THEN 'Updated document'
+    WHEN action_type = 'compare' THEN 'Compared documents'
+    WHEN action_type = 'export' THEN 'Exported search results'
+    WHEN action_type = 'retry' THEN 'Retried processing'
+    WHEN action_type = 'cancel' THEN 'Cancelled processing'
     ELSE action_type
   END as description
 FROM user_activity_logs 
@@ -482,29 +1514,57 @@ ALTER TABLE processing_status ENABLE ROW LEVEL SECURITY;
 ALTER TABLE document_jobs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE document_content ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_activity_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
 
 -- Users policies (drop and recreate for idempotent operation)
 DROP POLICY IF EXISTS "Users can view own profile" ON users;
 CREATE POLICY "Users can view own profile" ON users FOR SELECT USING (auth.uid() = id);
 DROP POLICY IF EXISTS "Users can update own profile" ON users;
 CREATE POLICY "Users can update own profile" ON users FOR UPDATE USING (auth.uid() = id);
-
--- Documents policies - users can only access their own documents
+-- users.role gates admin routes; users may only edit their profile fields
+REVOKE UPDATE ON TABLE users FROM anon, authenticated;
+GRANT UPDATE (full_name, updated_at) ON TABLE users TO authenticated;
+
+-- Workspace policies - members read, owners manage
+DROP POLICY IF EXISTS "Members can view workspaces" ON workspaces;
+CREATE POLICY "Members can view workspaces" ON workspaces FOR SELECT USING (is_workspace_member(id));
+DROP POLICY IF EXISTS "Owners can update workspaces" ON workspaces;
+CREATE POLICY "Owners can update workspaces" ON workspaces FOR UPDATE USING (is_workspace_member(id, ARRAY['owner']));
+DROP POLICY IF EXISTS "Owners can delete workspaces" ON workspaces;
+CREATE POLICY "Owners can delete workspaces" ON workspaces FOR DELETE USING (is_workspace_member(id, ARRAY['owner']));
+
+DROP POLICY IF EXISTS "Members can view workspace members" ON workspace_members;
+CREATE POLICY "Members can view workspace members" ON workspace_members FOR SELECT
+USING (is_workspace_member(workspace_id));
+DROP POLICY IF EXISTS "Owners can manage workspace members" ON workspace_members;
+CREATE POLICY "Owners can manage workspace members" ON workspace_members FOR ALL
+USING (is_workspace_member(workspace_id, ARRAY['owner']))
+WITH CHECK (is_workspace_member(workspace_id, ARRAY['owner']));
+
+-- Documents policies - personal documents belong to the uploader; workspace
+-- documents follow current membership (owner / editor writes). Only editors
+-- can file into a workspace.
 DROP POLICY IF EXISTS "Users can view own documents" ON documents;
-CREATE POLICY "Users can view own documents" ON documents FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can view own documents" ON documents FOR SELECT
+USING (can_access_document(user_id, workspace_id));
 DROP POLICY IF EXISTS "Users can insert own documents" ON documents;
-CREATE POLICY "Users can insert own documents" ON documents FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can insert own documents" ON documents FOR INSERT
+WITH CHECK (auth.uid() = user_id AND (workspace_id IS NULL OR is_workspace_member(workspace_id, ARRAY['owner', 'editor'])));
 DROP POLICY IF EXISTS "Users can update own documents" ON documents;
-CREATE POLICY "Users can update own documents" ON documents FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can update own documents" ON documents FOR UPDATE
+USING (can_access_document(user_id, workspace_id, ARRAY['owner', 'editor']))
+WITH CHECK (can_access_document(user_id, workspace_id, ARRAY['owner', 'editor']));
 DROP POLICY IF EXISTS "Users can delete own documents" ON documents;
-CREATE POLICY "Users can delete own documents" ON documents FOR DELETE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own documents" ON documents FOR DELETE
+USING (can_access_document(user_id, workspace_id, ARRAY['owner', 'editor']));
 
 -- Policies for extracted_fields removed (table no longer exists)
 
 -- Document content policies (store extracted text per document)
 DROP POLICY IF EXISTS "Users can view own document content" ON document_content;
 CREATE POLICY "Users can view own document content" ON document_content FOR SELECT
-USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = document_id AND d.user_id = auth.uid()));
+USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = document_id AND can_access_document(d.user_id, d.workspace_id)));
 
 DROP POLICY IF EXISTS "Users can upsert own document content" ON document_content;
 CREATE POLICY "Users can upsert own document content" ON document_content FOR INSERT
@@ -517,7 +1577,7 @@ USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = document_id AND d.user_id
 -- Document embeddings policies
 DROP POLICY IF EXISTS "Users can view own embeddings" ON document_embeddings;
 CREATE POLICY "Users can view own embeddings" ON document_embeddings FOR SELECT 
-USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = document_id AND d.user_id = auth.uid()));
+USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = document_id AND can_access_document(d.user_id, d.workspace_id)));
 
 DROP POLICY IF EXISTS "Users can insert own embeddings" ON document_embeddings;
 CREATE POLICY "Users can insert own embeddings" ON document_embeddings FOR INSERT 
@@ -526,7 +1586,7 @@ WITH CHECK (EXISTS (SELECT 1 FROM documents d WHERE d.id = document_id AND d.use
 -- Processing status policies
 DROP POLICY IF EXISTS "Users can view own processing status" ON processing_status;
 CREATE POLICY "Users can view own processing status" ON processing_status FOR SELECT 
-USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = document_id AND d.user_id = auth.uid()));
+USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = document_id AND can_access_document(d.user_id, d.workspace_id)));
 
 DROP POLICY IF EXISTS "System can manage processing status" ON processing_status;
 CREATE POLICY "System can manage processing status" ON processing_status FOR ALL 
@@ -538,9 +1598,10 @@ CREATE POLICY "Users can view own jobs" ON document_jobs FOR SELECT USING (auth.
 DROP POLICY IF EXISTS "System can manage jobs" ON document_jobs;
 CREATE POLICY "System can manage jobs" ON document_jobs FOR ALL USING (true);
 
--- Activity logs policies (admin access only for now)
+-- Activity logs policies: none. Audit rows are written and read through the
+-- service role only (admin audit page), so signed-in users cannot read them
 DROP POLICY IF EXISTS "System can manage activity logs" ON user_activity_logs;
-CREATE POLICY "System can manage activity logs" ON user_activity_logs FOR ALL USING (true);
+REVOKE ALL ON TABLE user_activity_recent FROM anon, authenticated;
 
 -- =====================================================
 -- SECTION 7: UTILITY FUNCTIONS
@@ -574,6 +1635,43 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Actions per UTC day and action type, with the same filters as the audit list
+CREATE OR REPLACE FUNCTION activity_daily_counts(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_user_id UUID DEFAULT NULL,
+  p_email TEXT DEFAULT NULL,
+  p_action TEXT DEFAULT NULL,
+  p_resource_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  action_type TEXT,
+  action_count INTEGER,
+  unique_users INTEGER
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    (l.logged_at AT TIME ZONE 'UTC')::DATE AS day,
+    l.action_type,
+    COUNT(*)::INTEGER AS action_count,
+    COUNT(DISTINCT l.user_uuid)::INTEGER AS unique_users
+  FROM user_activity_logs l
+  WHERE l.logged_at >= p_start
+    AND l.logged_at < p_end
+    AND (p_user_id IS NULL OR l.user_uuid = p_user_id)
+    AND (p_email IS NULL OR l.email ILIKE '%' || p_email || '%')
+    AND (p_action IS NULL OR l.action_type = p_action)
+    AND (p_resource_id IS NULL OR l.resource_uuid = p_resource_id)
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+GRANT EXECUTE ON FUNCTION activity_daily_counts(
+  TIMESTAMPTZ, TIMESTAMPTZ, UUID, TEXT, TEXT, UUID
+) TO service_role;
+
 -- Function to get system health metrics
 CREATE OR REPLACE FUNCTION get_system_health()
 RETURNS JSONB AS $$
@@ -50,7 +50,10 @@ export async function middleware(request: NextRequest) {
   if (!user && (
     request.nextUrl.pathname.startsWith('/dashboard') ||
     request.nextUrl.pathname.startsWith('/documents') ||
+    request.nextUrl.pathname.startsWith('/admin') ||
+    request.nextUrl.pathname.startsWith('/workspaces') ||
     request.nextUrl.pathname.startsWith('/api/documents') ||
+    request.nextUrl.pathname.startsWith('/api/workspaces') ||
     request.nextUrl.pathname.startsWith('/api/upload')
   )) {
     return NextResponse.redirect(new URL('/login', request.url))
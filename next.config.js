@@ -6,7 +6,7 @@ const __dirname = dirname(__filename)
 
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  serverExternalPackages: ['@google-cloud/documentai'],
+  serverExternalPackages: ['@google-cloud/documentai', '@google-cloud/storage', '@huggingface/transformers', 'onnxruntime-node', 'pdfjs-dist', 'tesseract.js', '@napi-rs/canvas'],
 
   // Docker configuration
   output: 'standalone',
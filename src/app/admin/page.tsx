@@ -0,0 +1,56 @@
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/auth/roles'
+import { DashboardLayout } from '@/components/dashboard/layout'
+import { AdminConsole } from '@/components/admin/admin-console'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, LayoutDashboard, ShieldCheck } from 'lucide-react'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminPage() {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/login')
+  }
+
+  if (!(await isAdmin(user.id))) {
+    redirect('/dashboard')
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link href="/dashboard">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <div className="h-6 border-l border-gray-300 dark:border-gray-600" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                <LayoutDashboard className="h-6 w-6 text-emerald-500" />
+                Admin Console
+              </h1>
+            </div>
+          </div>
+          <Link href="/admin/audit">
+            <Button variant="outline" size="sm">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Activity Audit
+            </Button>
+          </Link>
+        </div>
+
+        <AdminConsole />
+      </div>
+    </DashboardLayout>
+  )
+}
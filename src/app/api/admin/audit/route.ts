@@ -0,0 +1,179 @@
+/**
+ * Admin Audit API
+ * Activity log across all users for compliance reviews (admin only)
+ *
+ * GET ?user=&action=&resource=&from=YYYY-MM-DD&to=YYYY-MM-DD&page=&limit=
+ * - user: user id, or part of an email address
+ * - resource: document / search id the action touched
+ * - from/to are inclusive UTC days (default: last 30 days)
+ * - format=csv downloads every matching row (up to AUDIT_EXPORT_MAX_ROWS)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth/route-auth'
+import { activityLogger, isActivityAction, type ActivityFilter, type AuditLogRecord } from '@/lib/activity-logger'
+import { PaginationUtils } from '@/lib/utils/pagination'
+import { renderCsv } from '@/lib/utils/csv'
+import { logger } from '@/lib/logger'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_RANGE_DAYS = 30
+const MAX_RANGE_DAYS = 366
+const MAX_PAGE_SIZE = 200
+// PostgREST caps a single response at 1000 rows; exports page through in batches
+const EXPORT_BATCH_SIZE = 1000
+const AUDIT_EXPORT_MAX_ROWS = 50000
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const CSV_COLUMNS = [
+  'Logged At (UTC)',
+  'User ID',
+  'Email',
+  'Action',
+  'Resource Type',
+  'Resource ID',
+  'Resource Name',
+  'Endpoint',
+  'Method',
+  'Status',
+  'IP Address',
+  'User Agent',
+  'Details'
+]
+
+function parseDay(value: string | null): Date | null | undefined {
+  if (!value) return undefined
+  if (!DAY_PATTERN.test(value)) return null
+  const date = new Date(`${value}T00:00:00.000Z`)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10)
+
+const startOfUtcDay = (date: Date) => new Date(`${toDay(date)}T00:00:00.000Z`)
+
+function auditCsvRow(entry: AuditLogRecord) {
+  return [
+    entry.logged_at,
+    entry.user_uuid,
+    entry.email,
+    entry.action_type,
+    entry.resource_type,
+    entry.resource_uuid,
+    entry.resource_name,
+    entry.api_endpoint,
+    entry.http_method,
+    entry.response_status,
+    entry.ip_address,
+    entry.user_agent,
+    entry.metadata ? JSON.stringify(entry.metadata) : null
+  ]
+}
+
+export const GET = withAdmin(async (request: NextRequest, _context, { user }) => {
+  try {
+    const { searchParams } = request.nextUrl
+
+    // Date range: inclusive days in, half-open [start, end) timestamps out
+    const from = parseDay(searchParams.get('from'))
+    const to = parseDay(searchParams.get('to'))
+    if (from === null || to === null) {
+      return NextResponse.json({ error: 'from and to must be dates in YYYY-MM-DD format' }, { status: 400 })
+    }
+
+    const endDate = new Date((to ?? startOfUtcDay(new Date())).getTime() + DAY_MS)
+    const lastDay = toDay(new Date(endDate.getTime() - DAY_MS))
+    const startDate = from ?? new Date(endDate.getTime() - DEFAULT_RANGE_DAYS * DAY_MS)
+    if (startDate >= endDate) {
+      return NextResponse.json({ error: 'from must be on or before to' }, { status: 400 })
+    }
+    if (endDate.getTime() - startDate.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return NextResponse.json({ error: `The date range can span at most ${MAX_RANGE_DAYS} days` }, { status: 400 })
+    }
+
+    const action = searchParams.get('action')
+    if (action && !isActivityAction(action)) {
+      return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 })
+    }
+
+    const resource = searchParams.get('resource')?.trim()
+    if (resource && !UUID_PATTERN.test(resource)) {
+      return NextResponse.json({ error: 'resource must be a document or search id' }, { status: 400 })
+    }
+
+    const userParam = searchParams.get('user')?.trim()
+    const filter: ActivityFilter & { startDate: Date; endDate: Date } = {
+      startDate,
+      endDate,
+      ...(action && isActivityAction(action) ? { action } : {}),
+      ...(resource ? { resourceId: resource } : {})
+    }
+    if (userParam) {
+      if (UUID_PATTERN.test(userParam)) {
+        filter.userId = userParam
+      } else {
+        filter.userEmail = userParam
+      }
+    }
+
+    if (searchParams.get('format') === 'csv') {
+      const rows: AuditLogRecord[] = []
+      let total = 0
+      do {
+        const batch = await activityLogger.getAuditLog({ ...filter, limit: EXPORT_BATCH_SIZE, offset: rows.length })
+        total = batch.total
+        rows.push(...batch.entries)
+        if (batch.entries.length === 0) break
+      } while (rows.length < total && rows.length < AUDIT_EXPORT_MAX_ROWS)
+
+      // Exports are themselves audit events
+      await activityLogger.logUserAction(user, {
+        action: 'export',
+        resourceType: 'admin',
+        resourceName: 'audit_log',
+        details: {
+          from: toDay(startDate),
+          to: lastDay,
+          filters: { user: userParam, action, resource },
+          rowCount: rows.length,
+          truncated: rows.length < total
+        }
+      }, request)
+
+      return new NextResponse(renderCsv(CSV_COLUMNS, rows.map(auditCsvRow)), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit-log-${toDay(startDate)}-to-${lastDay}.csv"`,
+          'Cache-Control': 'no-store'
+        }
+      })
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || '50') || 50))
+
+    const [{ entries, total }, daily] = await Promise.all([
+      activityLogger.getAuditLog({ ...filter, limit, offset: (page - 1) * limit }),
+      activityLogger.getDailyActivityCounts(filter)
+    ])
+
+    return NextResponse.json({
+      entries,
+      daily,
+      range: {
+        from: toDay(startDate),
+        to: lastDay
+      },
+      pagination: PaginationUtils.createMetadata(page, limit, total)
+    })
+
+  } catch (error) {
+    logger.error('Admin audit API error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to load audit log',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
@@ -0,0 +1,72 @@
+/**
+ * Admin Requeue API
+ * Reprocess a document on its owner's behalf (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth/route-auth'
+import { requeueDocument } from '@/lib/admin-console'
+import { activityLogger } from '@/lib/activity-logger'
+import { logger } from '@/lib/logger'
+
+function triggerCronProcessing(request: NextRequest) {
+  const cronSecret = process.env['CRON_SECRET']
+  if (!cronSecret) {
+    logger.warn('CRON_SECRET not set; skipping auto-trigger of cron job')
+    return
+  }
+
+  try {
+    const cronUrl = new URL('/api/cron/process-jobs', request.url)
+    fetch(cronUrl.toString(), {
+      method: 'GET',
+      headers: {
+        authorization: `Bearer ${cronSecret}`,
+        'user-agent': 'AdminRequeueAutoTrigger'
+      }
+    }).catch(error => {
+      logger.warn('Auto-triggered cron job failed', { error: error instanceof Error ? error.message : String(error) })
+    })
+  } catch (error) {
+    logger.warn('Failed to construct cron trigger URL', { error: error instanceof Error ? error.message : String(error) })
+  }
+}
+
+export const POST = withAdmin<{ id: string }>(async (request, { params }, { user }) => {
+  try {
+    const { id } = await params
+    const result = await requeueDocument(id)
+
+    if (result.outcome === 'not_found') {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    if (result.outcome === 'already_queued') {
+      return NextResponse.json({ error: 'Document is already queued for processing' }, { status: 409 })
+    }
+
+    if (result.jobId) {
+      triggerCronProcessing(request)
+    }
+
+    await activityLogger.logUserAction(user, {
+      action: 'retry',
+      resourceType: 'document',
+      resourceId: id,
+      resourceName: result.document.filename,
+      details: { onBehalfOf: result.document.user_id, previousStatus: result.document.status, jobId: result.jobId }
+    }, request)
+
+    return NextResponse.json({
+      message: 'Document requeued',
+      documentId: id,
+      jobId: result.jobId ?? null
+    })
+
+  } catch (error) {
+    logger.error('Admin requeue error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to requeue document',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
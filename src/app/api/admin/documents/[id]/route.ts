@@ -0,0 +1,38 @@
+/**
+ * Admin Document API
+ * Purge a document, its file and its vectors on its owner's behalf (admin only)
+ */
+
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth/route-auth'
+import { purgeDocument } from '@/lib/admin-console'
+import { activityLogger } from '@/lib/activity-logger'
+import { logger } from '@/lib/logger'
+
+export const DELETE = withAdmin<{ id: string }>(async (request, { params }, { user }) => {
+  try {
+    const { id } = await params
+    const document = await purgeDocument(id)
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    await activityLogger.logUserAction(user, {
+      action: 'delete',
+      resourceType: 'document',
+      resourceId: id,
+      resourceName: document.filename,
+      details: { onBehalfOf: document.user_id, previousStatus: document.status }
+    }, request)
+
+    return NextResponse.json({ message: 'Document purged successfully' })
+
+  } catch (error) {
+    logger.error('Admin purge error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to purge document',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
@@ -0,0 +1,67 @@
+/**
+ * Admin Embedding Migration Detail API
+ * Progress of one migration (GET) and cancel/resume (POST { action }) (admin only)
+ */
+
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth/route-auth'
+import {
+  cancelEmbeddingMigration,
+  dispatchEmbeddingMigrationWorker,
+  getEmbeddingMigration,
+  resumeEmbeddingMigration
+} from '@/lib/embedding-migrations'
+import { logger } from '@/lib/logger'
+
+export const GET = withAdmin<{ migrationId: string }>(async (_request, { params }) => {
+  try {
+    const { migrationId } = await params
+    const migration = await getEmbeddingMigration(migrationId)
+
+    if (!migration) {
+      return NextResponse.json({ error: 'Embedding migration not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ migration })
+
+  } catch (error) {
+    logger.error('Admin embedding migration detail error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to load embedding migration',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
+
+export const POST = withAdmin<{ migrationId: string }>(async (request, { params }) => {
+  try {
+    const { migrationId } = await params
+    const body = await request.json().catch(() => ({})) as { action?: unknown }
+
+    if (body.action !== 'cancel' && body.action !== 'resume') {
+      return NextResponse.json({ error: 'action must be "cancel" or "resume"' }, { status: 400 })
+    }
+
+    if (body.action === 'cancel') {
+      if (!await cancelEmbeddingMigration(migrationId)) {
+        return NextResponse.json({ error: 'Only a running or failed migration can be cancelled' }, { status: 409 })
+      }
+    } else {
+      if (!await resumeEmbeddingMigration(migrationId)) {
+        return NextResponse.json({
+          error: 'Only a failed migration can be resumed, and only while no other migration is running'
+        }, { status: 409 })
+      }
+      dispatchEmbeddingMigrationWorker(request.url)
+    }
+
+    return NextResponse.json({ migration: await getEmbeddingMigration(migrationId) })
+
+  } catch (error) {
+    logger.error('Admin embedding migration action failed', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to update embedding migration',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
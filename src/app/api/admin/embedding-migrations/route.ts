@@ -0,0 +1,94 @@
+/**
+ * Admin Embedding Migrations API
+ * Re-embed the whole library with a new embedding model (admin only)
+ *
+ * GET - active embedding model and recent migrations
+ * POST { provider, model?, dryRun? } - estimate (dryRun) or start a migration
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth/route-auth'
+import { createEmbeddingProvider, getActiveEmbeddingConfig, isEmbeddingProviderName } from '@/lib/embeddings'
+import {
+  createEmbeddingMigration,
+  dispatchEmbeddingMigrationWorker,
+  estimateEmbeddingMigration,
+  listEmbeddingMigrations,
+  resolveMigrationTarget
+} from '@/lib/embedding-migrations'
+import { logger } from '@/lib/logger'
+
+export const GET = withAdmin(async () => {
+  try {
+    const [active, migrations] = await Promise.all([
+      getActiveEmbeddingConfig(),
+      listEmbeddingMigrations()
+    ])
+
+    return NextResponse.json({
+      active: { ...active, model_id: createEmbeddingProvider(active).modelId },
+      migrations
+    })
+
+  } catch (error) {
+    logger.error('Admin embedding migrations API error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to load embedding migrations',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
+
+export const POST = withAdmin(async (request: NextRequest, _context, { user }) => {
+  try {
+    const body = await request.json().catch(() => ({})) as {
+      provider?: unknown
+      model?: unknown
+      dryRun?: unknown
+    }
+
+    if (!isEmbeddingProviderName(body.provider)) {
+      return NextResponse.json({ error: 'provider must be "vertex" or "local"' }, { status: 400 })
+    }
+    if (body.model !== undefined && typeof body.model !== 'string') {
+      return NextResponse.json({ error: 'model must be a string' }, { status: 400 })
+    }
+
+    const resolved = await resolveMigrationTarget({
+      provider: body.provider,
+      ...(body.model ? { model: body.model } : {})
+    })
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: 400 })
+    }
+
+    if (body.dryRun === true) {
+      const estimate = await estimateEmbeddingMigration(resolved.target)
+      return NextResponse.json({ estimate })
+    }
+
+    // One migration at a time: both would stage into the same pending columns
+    const running = (await listEmbeddingMigrations()).find(migration =>
+      migration.status === 'queued' || migration.status === 'processing'
+    )
+    if (running) {
+      return NextResponse.json({
+        error: 'An embedding migration is already running',
+        migration_id: running.id
+      }, { status: 409 })
+    }
+
+    const migration = await createEmbeddingMigration({ userId: user.id, target: resolved.target })
+
+    dispatchEmbeddingMigrationWorker(request.url)
+
+    return NextResponse.json({ migration }, { status: 202 })
+
+  } catch (error) {
+    logger.error('Admin embedding migration request failed', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to start embedding migration',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
@@ -0,0 +1,41 @@
+/**
+ * Admin Failed Jobs API
+ * Permanently failed processing jobs across all users (admin only)
+ *
+ * GET ?user=<user id>&page=&limit=
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth/route-auth'
+import { listFailedJobs } from '@/lib/admin-console'
+import { PaginationUtils } from '@/lib/utils/pagination'
+import { logger } from '@/lib/logger'
+
+const MAX_PAGE_SIZE = 100
+
+export const GET = withAdmin(async (request: NextRequest) => {
+  try {
+    const { searchParams } = request.nextUrl
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || '25') || 25))
+    const userId = searchParams.get('user')?.trim()
+
+    const { jobs, total } = await listFailedJobs({
+      limit,
+      offset: (page - 1) * limit,
+      ...(userId ? { userId } : {})
+    })
+
+    return NextResponse.json({
+      jobs,
+      pagination: PaginationUtils.createMetadata(page, limit, total)
+    })
+
+  } catch (error) {
+    logger.error('Admin failed jobs API error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to load failed jobs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
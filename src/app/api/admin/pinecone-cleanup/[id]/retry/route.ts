@@ -0,0 +1,42 @@
+/**
+ * Admin Pinecone Cleanup Retry API
+ * Run a dead-lettered vector deletion again with a fresh set of attempts (admin only)
+ */
+
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth/route-auth'
+import { retryPineconeCleanupTask } from '@/lib/pinecone-cleanup-worker'
+import { activityLogger } from '@/lib/activity-logger'
+import { logger } from '@/lib/logger'
+
+export const POST = withAdmin<{ id: string }>(async (request, { params }, { user }) => {
+  try {
+    const { id } = await params
+    const outcome = await retryPineconeCleanupTask(id)
+
+    if (!outcome) {
+      return NextResponse.json({ error: 'Cleanup task not found' }, { status: 404 })
+    }
+
+    await activityLogger.logUserAction(user, {
+      action: 'retry',
+      resourceType: 'system',
+      resourceId: id,
+      resourceName: 'Pinecone cleanup task',
+      details: { outcome }
+    }, request)
+
+    return NextResponse.json({
+      message: outcome === 'succeeded' ? 'Vectors deleted' : 'Cleanup failed again and was rescheduled',
+      taskId: id,
+      outcome
+    })
+
+  } catch (error) {
+    logger.error('Admin Pinecone cleanup retry error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to retry Pinecone cleanup task',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
@@ -0,0 +1,39 @@
+/**
+ * Admin Pinecone Cleanup API
+ * Vector deletions that ran out of retries (admin only)
+ *
+ * GET ?page=&limit=
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth/route-auth'
+import { listDeadLetteredPineconeCleanupTasks } from '@/lib/pinecone-cleanup-worker'
+import { PaginationUtils } from '@/lib/utils/pagination'
+import { logger } from '@/lib/logger'
+
+const MAX_PAGE_SIZE = 100
+
+export const GET = withAdmin(async (request: NextRequest) => {
+  try {
+    const { searchParams } = request.nextUrl
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || '25') || 25))
+
+    const { tasks, total } = await listDeadLetteredPineconeCleanupTasks({
+      limit,
+      offset: (page - 1) * limit
+    })
+
+    return NextResponse.json({
+      tasks,
+      pagination: PaginationUtils.createMetadata(page, limit, total)
+    })
+
+  } catch (error) {
+    logger.error('Admin Pinecone cleanup API error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to load Pinecone cleanup tasks',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
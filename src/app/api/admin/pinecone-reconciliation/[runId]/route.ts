@@ -0,0 +1,29 @@
+/**
+ * Admin Pinecone Reconciliation Detail API
+ * Progress and report of one run: counters plus the issues found (admin only)
+ */
+
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth/route-auth'
+import { getReconciliationRun } from '@/lib/pinecone-reconciliation'
+import { logger } from '@/lib/logger'
+
+export const GET = withAdmin<{ runId: string }>(async (_request, { params }) => {
+  try {
+    const { runId } = await params
+    const run = await getReconciliationRun(runId)
+
+    if (!run) {
+      return NextResponse.json({ error: 'Pinecone reconciliation run not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ run })
+
+  } catch (error) {
+    logger.error('Admin Pinecone reconciliation detail error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to load Pinecone reconciliation run',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
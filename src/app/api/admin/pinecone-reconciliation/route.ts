@@ -0,0 +1,65 @@
+/**
+ * Admin Pinecone Reconciliation API
+ * Compare Pinecone with Supabase and optionally repair the differences (admin only)
+ *
+ * GET - recent runs
+ * POST { mode?: 'dry_run' | 'repair' } - start a run (dry_run only reports)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth/route-auth'
+import {
+  createReconciliationRun,
+  dispatchReconciliationWorker,
+  listReconciliationRuns
+} from '@/lib/pinecone-reconciliation'
+import { logger } from '@/lib/logger'
+
+export const GET = withAdmin(async () => {
+  try {
+    const runs = await listReconciliationRuns()
+    return NextResponse.json({ runs })
+
+  } catch (error) {
+    logger.error('Admin Pinecone reconciliation API error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to load Pinecone reconciliation runs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
+
+export const POST = withAdmin(async (request: NextRequest, _context, { user }) => {
+  try {
+    const body = await request.json().catch(() => ({})) as { mode?: unknown }
+    const mode = body.mode ?? 'dry_run'
+
+    if (mode !== 'dry_run' && mode !== 'repair') {
+      return NextResponse.json({ error: 'mode must be "dry_run" or "repair"' }, { status: 400 })
+    }
+
+    // One run at a time: two repair runs would race on the same vectors
+    const running = (await listReconciliationRuns()).find(run =>
+      run.status === 'queued' || run.status === 'processing'
+    )
+    if (running) {
+      return NextResponse.json({
+        error: 'A Pinecone reconciliation is already running',
+        run_id: running.id
+      }, { status: 409 })
+    }
+
+    const run = await createReconciliationRun({ userId: user.id, mode })
+
+    dispatchReconciliationWorker(request.url)
+
+    return NextResponse.json({ run }, { status: 202 })
+
+  } catch (error) {
+    logger.error('Admin Pinecone reconciliation request failed', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to start Pinecone reconciliation',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
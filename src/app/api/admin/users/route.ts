@@ -0,0 +1,32 @@
+/**
+ * Admin Users API
+ * Per-user document counts, failed jobs and storage usage (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth/route-auth'
+import { getUserSummaries } from '@/lib/admin-console'
+import { logger } from '@/lib/logger'
+
+export const GET = withAdmin(async (_request: NextRequest) => {
+  try {
+    const users = await getUserSummaries()
+
+    return NextResponse.json({
+      users,
+      totals: {
+        users: users.length,
+        documents: users.reduce((sum, user) => sum + user.document_count, 0),
+        failed_jobs: users.reduce((sum, user) => sum + user.failed_job_count, 0),
+        storage_bytes: users.reduce((sum, user) => sum + user.storage_bytes, 0)
+      }
+    })
+
+  } catch (error) {
+    logger.error('Admin users API error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to load users',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findNextDuplicateScanId, processDuplicateScanBatch } from '@/lib/similarity/duplicate-scans'
+import { logger, withRequestContext, generateCorrelationId } from '@/lib/logger'
+
+const parsePositiveInteger = (value: string | undefined): number | undefined => {
+  if (!value) return undefined
+  const parsed = Number.parseInt(value, 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+// Each document runs a full Stage 0 → Stage 2 search; keep batches within maxDuration
+const DOCUMENTS_PER_INVOCATION = parsePositiveInteger(process.env['DUPLICATE_SCAN_DOCS_PER_INVOCATION']) ?? 3
+
+function scheduleWorkerRetry(requestUrl: string) {
+  const secret = process.env['CRON_SECRET']
+  if (!secret) {
+    return
+  }
+
+  fetch(requestUrl, {
+    method: 'GET',
+    headers: {
+      authorization: `Bearer ${secret}`,
+      'x-cron-auto-retry': 'duplicate-scan-remaining'
+    }
+  }).catch(error => {
+    logger.warn('Auto-triggered duplicate scan worker retry failed', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+  })
+}
+
+export async function GET(request: NextRequest) {
+  return withRequestContext({
+    correlationId: generateCorrelationId(),
+    path: '/api/cron/process-duplicate-scans',
+    method: 'GET'
+  }, async () => {
+    try {
+      // Verify this is called by Vercel Cron (or an internal auto-trigger)
+      const authHeader = request.headers.get('authorization')
+      if (authHeader !== `Bearer ${process.env['CRON_SECRET']}`) {
+        logger.warn('Unauthorized duplicate scan worker access attempt', {
+          hasAuthHeader: !!authHeader,
+          component: 'duplicate-scan-worker'
+        })
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const scanId = await findNextDuplicateScanId()
+
+      if (!scanId) {
+        return NextResponse.json({ message: 'No duplicate scans to process' })
+      }
+
+      const status = await processDuplicateScanBatch(scanId, DOCUMENTS_PER_INVOCATION)
+
+      // Keep going while this scan (or another one) still has documents left
+      const nextScanId = await findNextDuplicateScanId()
+      if (nextScanId) {
+        scheduleWorkerRetry(request.url)
+      }
+
+      logger.info('Duplicate scan batch complete', {
+        scanId,
+        status: status ?? 'skipped',
+        remainingQueued: !!nextScanId,
+        component: 'duplicate-scan-worker'
+      })
+
+      return NextResponse.json({
+        message: `Duplicate scan ${scanId} ${status ?? 'skipped'}`,
+        scanId,
+        status: status ?? 'skipped'
+      })
+
+    } catch (error) {
+      logger.error('Duplicate scan worker failed', error as Error, { component: 'duplicate-scan-worker' })
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  })
+}
+
+// Also support POST for manual triggering
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
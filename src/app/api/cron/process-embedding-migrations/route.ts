@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findNextEmbeddingMigrationId, processEmbeddingMigrationBatch } from '@/lib/embedding-migrations'
+import { logger, withRequestContext, generateCorrelationId } from '@/lib/logger'
+
+const parsePositiveInteger = (value: string | undefined): number | undefined => {
+  if (!value) return undefined
+  const parsed = Number.parseInt(value, 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+// Each document embeds every chunk with the target model; keep batches within maxDuration
+const DOCUMENTS_PER_INVOCATION = parsePositiveInteger(process.env['EMBEDDING_MIGRATION_DOCS_PER_INVOCATION']) ?? 5
+
+function scheduleWorkerRetry(requestUrl: string) {
+  const secret = process.env['CRON_SECRET']
+  if (!secret) {
+    return
+  }
+
+  fetch(requestUrl, {
+    method: 'GET',
+    headers: {
+      authorization: `Bearer ${secret}`,
+      'x-cron-auto-retry': 'embedding-migration-remaining'
+    }
+  }).catch(error => {
+    logger.warn('Auto-triggered embedding migration worker retry failed', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+  })
+}
+
+export async function GET(request: NextRequest) {
+  return withRequestContext({
+    correlationId: generateCorrelationId(),
+    path: '/api/cron/process-embedding-migrations',
+    method: 'GET'
+  }, async () => {
+    try {
+      // Verify this is called by Vercel Cron (or an internal auto-trigger)
+      const authHeader = request.headers.get('authorization')
+      if (authHeader !== `Bearer ${process.env['CRON_SECRET']}`) {
+        logger.warn('Unauthorized embedding migration worker access attempt', {
+          hasAuthHeader: !!authHeader,
+          component: 'embedding-migration-worker'
+        })
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const migrationId = await findNextEmbeddingMigrationId()
+
+      if (!migrationId) {
+        return NextResponse.json({ message: 'No embedding migrations to process' })
+      }
+
+      const status = await processEmbeddingMigrationBatch(migrationId, DOCUMENTS_PER_INVOCATION)
+
+      // Keep going while the migration still has documents left
+      const nextMigrationId = await findNextEmbeddingMigrationId()
+      if (nextMigrationId) {
+        scheduleWorkerRetry(request.url)
+      }
+
+      logger.info('Embedding migration batch complete', {
+        migrationId,
+        status: status ?? 'skipped',
+        remainingQueued: !!nextMigrationId,
+        component: 'embedding-migration-worker'
+      })
+
+      return NextResponse.json({
+        message: `Embedding migration ${migrationId} ${status ?? 'skipped'}`,
+        migrationId,
+        status: status ?? 'skipped'
+      })
+
+    } catch (error) {
+      logger.error('Embedding migration worker failed', error as Error, { component: 'embedding-migration-worker' })
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  })
+}
+
+// Also support POST for manual triggering
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
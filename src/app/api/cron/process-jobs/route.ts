@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import type { SupabaseClient } from '@supabase/supabase-js'
 import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
-import { processDocument } from '@/lib/document-processing'
+import { processDocument, reembedExclusionChanges, type ProcessDocumentResult } from '@/lib/document-processing'
+import { EXCLUSION_REEMBED_OPERATION } from '@/lib/upload-optimization'
+import { analyzeDocumentSize, BATCH_PROCESSING_TIERS } from '@/lib/document-size-strategies'
+import {
+  discardBatchExtraction,
+  getExtractionProvider,
+  parseBatchExtractionOperation,
+  type BatchExtractionOperation
+} from '@/lib/extraction'
+import { processPineconeCleanupTasks } from '@/lib/pinecone-cleanup-worker'
 import { logger, withRequestContext, generateCorrelationId } from '@/lib/logger'
 import type { GenericSupabaseSchema } from '@/types/supabase'
 
@@ -15,6 +24,7 @@ interface DocumentJobJoin {
   filename: string | null
   file_path: string
   file_size: number
+  content_type?: string | null
   user_id: string
 }
 
@@ -25,12 +35,14 @@ interface DocumentJobRecord {
   status: JobStatus
   attempts: number
   max_attempts: number
+  operation_type?: string | null
   processing_method?: ProcessingMethod | null
   batch_operation_id?: string | null
   documents?: DocumentJobJoin[] | DocumentJobJoin | null
   started_at?: string | null
   completed_at?: string | null
   result_summary?: Record<string, unknown> | null
+  metadata?: Record<string, unknown> | null
 }
 
 type ServiceSupabase = SupabaseClient<GenericSupabaseSchema>
@@ -73,19 +85,92 @@ function scheduleCronRetry(requestUrl: string, reason: string, delayMs: number =
   }
 }
 
-// Always try sync processing first - no estimation needed
-function needsBatchProcessing(fileSize: number, filename: string): boolean {
-  // Always try sync first - let Document AI tell us if it's too large
+// ENTERPRISE and MASSIVE documents go to a batch operation polled on later ticks;
+// smaller ones are processed sync-first (page ranges when Document AI says too large)
+function needsBatchProcessing(fileSize: number, filename: string, contentType?: string | null): boolean {
+  const sizeAnalysis = analyzeDocumentSize(fileSize, filename, contentType ?? undefined)
+  const useBatch = BATCH_PROCESSING_TIERS.includes(sizeAnalysis.tier)
   const fileSizeMB = parseFloat((fileSize / (1024 * 1024)).toFixed(1))
   logger.info('Evaluating processing strategy', { 
     filename,
     fileSize,
     fileSizeMB,
-    strategy: 'sync-first',
+    tier: sizeAnalysis.tier,
+    strategy: useBatch ? 'batch' : 'sync-first',
     component: 'batch-processing'
   })
   
-  return false // Always start with sync
+  return useBatch
+}
+
+// Operation details are kept in the job metadata next to batch_operation_id
+function readBatchOperation(job: DocumentJobRecord): BatchExtractionOperation {
+  const operation = parseBatchExtractionOperation(job.metadata?.['batch_extraction'])
+  if (!operation || operation.operationName !== job.batch_operation_id) {
+    throw new Error(`Batch operation details missing for job ${job.id}`)
+  }
+  return operation
+}
+
+// Inner join: jobs whose document no longer exists are left out
+const JOB_COLUMNS = `
+  id,
+  document_id,
+  user_id,
+  status,
+  attempts,
+  max_attempts,
+  operation_type,
+  batch_operation_id,
+  processing_method,
+  started_at,
+  result_summary,
+  metadata,
+  documents!inner (
+    id,
+    title,
+    filename,
+    file_path,
+    file_size,
+    content_type,
+    user_id
+  )
+`
+
+// Batch operations checked per tick; each finished one is collected and processed
+const MAX_BATCH_POLLS_PER_TICK = 25
+
+/**
+ * Poll jobs waiting on a Document AI batch operation
+ * They run for many ticks without doing work here, so they hold no processing
+ * slot and are checked every tick whatever the free capacity.
+ */
+async function pollBatchJobs(supabase: ServiceSupabase): Promise<{ polled: number; failed: number }> {
+  const { data: batchJobs, error } = await supabase
+    .from('document_jobs')
+    .select(JOB_COLUMNS)
+    .eq('status', 'processing')
+    .not('batch_operation_id', 'is', null)
+    .order('started_at', { ascending: true })
+    .limit(MAX_BATCH_POLLS_PER_TICK)
+    .returns<DocumentJobRecord[]>()
+
+  if (error) {
+    logger.error('Error fetching batch jobs to poll', error, { component: 'cron-job' })
+    return { polled: 0, failed: 0 }
+  }
+
+  let failed = 0
+  for (const job of batchJobs ?? []) {
+    try {
+      await processJob(supabase, job)
+    } catch {
+      // processJob has already logged and rescheduled or failed the job
+      failed += 1
+    }
+  }
+
+  return { polled: batchJobs?.length ?? 0, failed }
 }
 
 // Extract job processing logic into a separate function
@@ -199,7 +284,7 @@ async function processJob(
         // Debug: Check if document exists independently
         const { data: directDocument, error: directError } = await supabase
           .from('documents')
-          .select('id, title, filename, file_path, file_size, user_id')
+          .select('id, title, filename, file_path, file_size, content_type, user_id')
           .eq('id', job.document_id)
           .single()
         
@@ -256,6 +341,7 @@ async function processJob(
               : (typeof directDocument.title === 'string' ? directDocument.title : job.document_id),
             file_path: typeof directDocument.file_path === 'string' ? directDocument.file_path : job.document_id,
             file_size: typeof directDocument.file_size === 'number' ? directDocument.file_size : 0,
+            content_type: typeof directDocument.content_type === 'string' ? directDocument.content_type : null,
             user_id: typeof directDocument.user_id === 'string' ? directDocument.user_id : job.user_id
           }
           
@@ -285,9 +371,11 @@ async function processJob(
         if (job.status === 'processing' && job.batch_operation_id) {
           processingMethod = 'batch'
         } else {
-          const shouldUseBatch = needsBatchProcessing(
+          // Exclusion re-embeds reuse the stored text; there is nothing to extract
+          const shouldUseBatch = job.operation_type !== EXCLUSION_REEMBED_OPERATION && needsBatchProcessing(
             document.file_size,
-            document.filename ?? document.title ?? 'document.pdf'
+            document.filename ?? document.title ?? 'document.pdf',
+            document.content_type
           )
           processingMethod = shouldUseBatch ? 'batch' : 'sync'
         }
@@ -305,11 +393,7 @@ async function processJob(
         batchOperationId: job.batch_operation_id
       })
 
-      // Handle synchronous processing (batch processing not implemented)
-      logger.info('Starting synchronous processing', {
-        jobId: job.id,
-        documentId: job.document_id
-      })
+      const batchOperation = job.batch_operation_id ? readBatchOperation(job) : null
 
       // Check if document was cancelled before processing
       const { data: docCheck, error: docCheckError } = await supabase
@@ -331,6 +415,10 @@ async function processJob(
           documentId: job.document_id
         })
 
+        if (batchOperation) {
+          await discardBatchExtraction(batchOperation, { cancel: true })
+        }
+
         // Mark job as cancelled
         await supabase
           .from('document_jobs')
@@ -348,7 +436,73 @@ async function processJob(
       }
 
       const processingStartedAt = Date.now()
-      const result = await processDocument(job.document_id)
+      let result: ProcessDocumentResult
+      if (job.operation_type === EXCLUSION_REEMBED_OPERATION) {
+        // Exclusion range edits only re-embed the affected pages
+        logger.info('Starting synchronous processing', { jobId: job.id, documentId: job.document_id })
+        result = await reembedExclusionChanges(job.document_id)
+      } else if (batchOperation) {
+        const batch = getExtractionProvider(batchOperation.provider).batch
+        if (!batch) {
+          throw new Error(`Extraction provider ${batchOperation.provider} does not support batch processing`)
+        }
+
+        const batchStatus = await batch.check(batchOperation)
+        if (batchStatus.state === 'running') {
+          logger.info('Batch operation still running', {
+            jobId: job.id,
+            documentId: job.document_id,
+            batchOperationId: batchOperation.operationName
+          })
+          return {
+            message: 'Batch operation still running',
+            jobId: job.id,
+            documentId: job.document_id
+          }
+        }
+        if (batchStatus.state === 'failed') {
+          throw new Error(`Batch extraction failed: ${batchStatus.message}`)
+        }
+
+        logger.info('Batch operation finished, processing output', {
+          jobId: job.id,
+          documentId: job.document_id,
+          batchOperationId: batchOperation.operationName
+        })
+        result = await processDocument(job.document_id, { batchOperation })
+      } else {
+        logger.info('Starting synchronous processing', { jobId: job.id, documentId: job.document_id })
+        result = await processDocument(job.document_id, { preferBatch: processingMethod === 'batch' })
+
+        if (result.batchOperation) {
+          // Later ticks poll the operation (the job stays in processing)
+          const { error: recordError } = await supabase
+            .from('document_jobs')
+            .update({
+              batch_operation_id: result.batchOperation.operationName,
+              processing_method: 'batch',
+              metadata: { ...(job.metadata ?? {}), batch_extraction: result.batchOperation }
+            })
+            .eq('id', job.id)
+
+          if (recordError) {
+            await discardBatchExtraction(result.batchOperation, { cancel: true })
+            throw new Error(`Failed to record batch operation: ${recordError.message}`)
+          }
+
+          logger.info('Batch operation started', {
+            jobId: job.id,
+            documentId: job.document_id,
+            batchOperationId: result.batchOperation.operationName
+          })
+          return {
+            message: 'Batch operation started',
+            jobId: job.id,
+            documentId: job.document_id,
+            batchOperationId: result.batchOperation.operationName
+          }
+        }
+      }
 
       // CRITICAL: Double-check document wasn't cancelled during processing
       const { data: finalCheck } = await supabase
@@ -379,9 +533,13 @@ async function processJob(
         }
       }
 
-      const processingTimeMs = Date.now() - processingStartedAt
+      // Batch jobs count from the start of the operation, several ticks ago
+      const processingTimeMs = batchOperation && job.started_at
+        ? Date.now() - Date.parse(job.started_at)
+        : Date.now() - processingStartedAt
       const summaryPayload = {
         ...(result.metrics || {}),
+        ...(result.exclusionReembed ? { exclusion_reembed: result.exclusionReembed } : {}),
         processing_time_ms: processingTimeMs,
         completed_at: new Date().toISOString()
       }
@@ -392,7 +550,7 @@ async function processJob(
           status: 'completed',
           completed_at: new Date().toISOString(),
           processing_time_ms: processingTimeMs,
-          processing_method: 'sync',
+          processing_method: batchOperation ? 'batch' : 'sync',
           result_summary: summaryPayload
         })
         .eq('id', job.id)
@@ -406,13 +564,13 @@ async function processJob(
         })
         .eq('id', job.document_id)
 
-      logger.info('Synchronous processing completed', {
+      logger.info(batchOperation ? 'Batch processing completed' : 'Synchronous processing completed', {
         jobId: job.id,
         documentId: job.document_id
       })
 
       return {
-        message: 'Synchronous processing completed',
+        message: batchOperation ? 'Batch processing completed' : 'Synchronous processing completed',
         jobId: job.id,
         documentId: job.document_id
       }
@@ -427,11 +585,17 @@ async function processJob(
       const errorMessage = processingError instanceof Error ? processingError.message : 'Unknown error'
       const shouldRetry = job.attempts < job.max_attempts
       
+      // The operation may still be running when polling itself failed
+      const failedBatchOperation = parseBatchExtractionOperation(job.metadata?.['batch_extraction'])
+      if (job.batch_operation_id && failedBatchOperation) {
+        await discardBatchExtraction(failedBatchOperation, { cancel: true })
+      }
+
       if (shouldRetry) {
-        // Mark for retry
+        // Mark for retry (a batch job starts a new operation)
         await supabase
           .from('document_jobs')
-          .update({ status: 'queued' })
+          .update({ status: 'queued', batch_operation_id: null })
           .eq('id', job.id)
         
         logger.warn('Job marked for retry', { 
@@ -503,6 +667,16 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
       }
 
+      // Retry due Pinecone deletions first; a failure here must not hold up document jobs
+      try {
+        await processPineconeCleanupTasks()
+      } catch (cleanupError) {
+        logger.warn('Pinecone cleanup tasks could not be processed', {
+          component: 'cron-job',
+          error: cleanupError instanceof Error ? cleanupError.message : String(cleanupError)
+        })
+      }
+
       // Create pooled service role client to bypass RLS
       supabase = await createServiceClient()
 
@@ -520,11 +694,18 @@ export async function GET(request: NextRequest) {
         component: 'cron-job'
       })
       
+      const batchPolls = await pollBatchJobs(supabase)
+      if (batchPolls.polled > 0) {
+        logger.info('Polled batch operations', { ...batchPolls, component: 'cron-job' })
+      }
+
       // Get currently processing jobs for monitoring (no limits in unlimited mode)
+      // Jobs waiting on a batch operation are polled above and hold no slot
       const { data: processingJobs, error: processingError } = await supabase
         .from('document_jobs')
         .select('id, documents(file_size)')
         .eq('status', 'processing')
+        .is('batch_operation_id', null)
       
       if (processingError) {
         logger.error('Error checking processing jobs', processingError, { component: 'cron-job' })
@@ -574,38 +755,18 @@ export async function GET(request: NextRequest) {
         message: 'All processing slots occupied',
         currentProcessing,
         maxConcurrent: maxConcurrentDocs,
+        batchOperationsPolled: batchPolls.polled,
         systemStatus: 'at-capacity'
       }, { status: 200 })
     }
     
-    // Get jobs that need processing (queued) OR jobs that are processing with batch operations (to check completion)
-    // CRITICAL FIX: Use inner join to ensure document exists
+    // Get jobs that need processing (queued or processing); batch operations were polled above
     // Paid tiers: raise MAX_CONCURRENT_DOCUMENTS (and matching pool limits) so availableSlots grows.
     const fetchLimit = unlimitedMode ? 1000 : Math.max(availableSlots, 1)
     const { data: jobs, error: jobsError } = await supabase
       .from('document_jobs')
-      .select(`
-        id,
-        document_id,
-        user_id,
-        status,
-        attempts,
-        max_attempts,
-        batch_operation_id,
-        processing_method,
-        started_at,
-        result_summary,
-        metadata,
-        documents!inner (
-          id,
-          title,
-          filename,
-          file_path,
-          file_size,
-          user_id
-        )
-      `)
-      .in('status', ['queued', 'processing'])
+      .select(JOB_COLUMNS)
+      .or('status.eq.queued,and(status.eq.processing,batch_operation_id.is.null)')
       .order('priority', { ascending: false })
       .order('created_at', { ascending: true })
       .limit(fetchLimit) // Limit fetches to the number of available slots (or 1000 in unlimited mode)
@@ -659,6 +820,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ 
         message: 'No jobs to process',
         queueStats: stats,
+        batchOperationsPolled: batchPolls.polled,
         maxConcurrency: unlimitedMode ? 'unlimited' : maxConcurrentDocs,
         systemStatus: unlimitedMode ? 'unlimited-ready' : 'ready'
       }, { status: 200 })
@@ -766,6 +928,7 @@ export async function GET(request: NextRequest) {
         processingTimeMs: processingTime,
         throughputJobsPerSec: parseFloat(throughput.toFixed(2)),
         capacityUtilization: unlimitedMode ? 'unlimited' : `${results.length}/${maxConcurrentDocs} (${Math.round(results.length/maxConcurrentDocs*100)}%)`,
+        batchOperationsPolled: batchPolls.polled,
         systemStatus: unlimitedMode ? 'unlimited-processing' : 'enterprise-ready',
         details: results.map((result) => {
           return {
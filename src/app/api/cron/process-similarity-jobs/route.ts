@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listClaimableSimilarityJobIds, processSimilarityJob } from '@/lib/similarity/similarity-jobs'
+import { logger, withRequestContext, generateCorrelationId } from '@/lib/logger'
+
+const parsePositiveInteger = (value: string | undefined): number | undefined => {
+  if (!value) return undefined
+  const parsed = Number.parseInt(value, 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+// Each job can take minutes; keep batches small so the invocation finishes within maxDuration
+const JOBS_PER_INVOCATION = parsePositiveInteger(process.env['SIMILARITY_JOBS_PER_INVOCATION']) ?? 1
+
+function scheduleWorkerRetry(requestUrl: string) {
+  const secret = process.env['CRON_SECRET']
+  if (!secret) {
+    return
+  }
+
+  fetch(requestUrl, {
+    method: 'GET',
+    headers: {
+      authorization: `Bearer ${secret}`,
+      'x-cron-auto-retry': 'similarity-jobs-remaining'
+    }
+  }).catch(error => {
+    logger.warn('Auto-triggered similarity worker retry failed', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+  })
+}
+
+export async function GET(request: NextRequest) {
+  return withRequestContext({
+    correlationId: generateCorrelationId(),
+    path: '/api/cron/process-similarity-jobs',
+    method: 'GET'
+  }, async () => {
+    try {
+      // Verify this is called by Vercel Cron (or an internal auto-trigger)
+      const authHeader = request.headers.get('authorization')
+      if (authHeader !== `Bearer ${process.env['CRON_SECRET']}`) {
+        logger.warn('Unauthorized similarity worker access attempt', {
+          hasAuthHeader: !!authHeader,
+          component: 'similarity-worker'
+        })
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const jobIds = await listClaimableSimilarityJobIds(JOBS_PER_INVOCATION)
+
+      if (jobIds.length === 0) {
+        return NextResponse.json({ message: 'No similarity jobs to process' })
+      }
+
+      const details: Array<{ jobId: string; status: string }> = []
+
+      for (const jobId of jobIds) {
+        try {
+          const status = await processSimilarityJob(jobId)
+          details.push({ jobId, status: status ?? 'skipped' })
+        } catch (error) {
+          logger.error(
+            'Similarity job worker error',
+            error instanceof Error ? error : new Error(String(error)),
+            { jobId, component: 'similarity-worker' }
+          )
+          details.push({ jobId, status: 'error' })
+        }
+      }
+
+      const remaining = await listClaimableSimilarityJobIds(1)
+      if (remaining.length > 0) {
+        scheduleWorkerRetry(request.url)
+      }
+
+      logger.info('Similarity worker batch complete', {
+        processed: details.length,
+        remainingQueued: remaining.length > 0,
+        component: 'similarity-worker'
+      })
+
+      return NextResponse.json({
+        message: `Processed ${details.length} similarity jobs`,
+        details
+      })
+
+    } catch (error) {
+      logger.error('Similarity worker failed', error as Error, { component: 'similarity-worker' })
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  })
+}
+
+// Also support POST for manual triggering
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  findNextReconciliationRunId,
+  processReconciliationBatch,
+  scheduleReconciliationRun
+} from '@/lib/pinecone-reconciliation'
+import { logger, withRequestContext, generateCorrelationId } from '@/lib/logger'
+
+const parsePositiveInteger = (value: string | undefined): number | undefined => {
+  if (!value) return undefined
+  const parsed = Number.parseInt(value, 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+// Each document costs a few Supabase and Pinecone round trips (more when repairing)
+const DOCUMENTS_PER_INVOCATION = parsePositiveInteger(process.env['PINECONE_RECONCILE_DOCS_PER_INVOCATION']) ?? 25
+
+function scheduleWorkerRetry(requestUrl: string) {
+  const secret = process.env['CRON_SECRET']
+  if (!secret) {
+    return
+  }
+
+  fetch(requestUrl, {
+    method: 'GET',
+    headers: {
+      authorization: `Bearer ${secret}`,
+      'x-cron-auto-retry': 'pinecone-reconciliation-remaining'
+    }
+  }).catch(error => {
+    logger.warn('Auto-triggered Pinecone reconciliation worker retry failed', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+  })
+}
+
+export async function GET(request: NextRequest) {
+  return withRequestContext({
+    correlationId: generateCorrelationId(),
+    path: '/api/cron/reconcile-pinecone',
+    method: 'GET'
+  }, async () => {
+    try {
+      // Verify this is called by Vercel Cron (or an internal auto-trigger)
+      const authHeader = request.headers.get('authorization')
+      if (authHeader !== `Bearer ${process.env['CRON_SECRET']}`) {
+        logger.warn('Unauthorized Pinecone reconciliation worker access attempt', {
+          hasAuthHeader: !!authHeader,
+          component: 'pinecone-reconciliation-worker'
+        })
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      // Continue a running run; otherwise start a scheduled one when it is due
+      const runId = await findNextReconciliationRunId() ?? await scheduleReconciliationRun()
+
+      if (!runId) {
+        return NextResponse.json({ message: 'No Pinecone reconciliation to process' })
+      }
+
+      const status = await processReconciliationBatch(runId, DOCUMENTS_PER_INVOCATION)
+
+      // Keep going while the run still has documents or vectors left
+      const nextRunId = await findNextReconciliationRunId()
+      if (nextRunId) {
+        scheduleWorkerRetry(request.url)
+      }
+
+      logger.info('Pinecone reconciliation batch complete', {
+        runId,
+        status: status ?? 'skipped',
+        remainingQueued: !!nextRunId,
+        component: 'pinecone-reconciliation-worker'
+      })
+
+      return NextResponse.json({
+        message: `Pinecone reconciliation ${runId} ${status ?? 'skipped'}`,
+        runId,
+        status: status ?? 'skipped'
+      })
+
+    } catch (error) {
+      logger.error('Pinecone reconciliation worker failed', error as Error, { component: 'pinecone-reconciliation-worker' })
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  })
+}
+
+// Also support POST for manual triggering
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
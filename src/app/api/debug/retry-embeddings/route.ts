@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServiceClient } from '@/lib/supabase/server'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
 import { generateAndIndexEmbeddings } from '@/lib/document-processing'
 import { computeAndStoreCentroid } from '@/lib/document-processing'
 import { DEFAULT_CHUNK_STRIDE } from '@/lib/constants/chunking'
 import { logger } from '@/lib/logger'
+import { withAdmin } from '@/lib/auth/route-auth'
+import { activityLogger } from '@/lib/activity-logger'
 
-export async function POST(_request: NextRequest) {
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>
+
+// Operates on every user's documents, so admins only
+export const POST = withAdmin(async (request: NextRequest, _context, { user }) => {
+  let supabase: ServiceClient | null = null
   try {
-    const supabase = await createServiceClient()
-    
+    supabase = await createServiceClient()
+
     // Find completed documents that have no embeddings (skipped due to timeout)
     const { data: documentsWithoutEmbeddings, error } = await supabase
       .from('documents')
@@ -90,6 +96,13 @@ export async function POST(_request: NextRequest) {
     const successful = results.filter(r => r.status === 'success').length
     const failed = results.filter(r => r.status === 'failed').length
 
+    await activityLogger.logUserAction(user, {
+      action: 'retry',
+      resourceType: 'admin',
+      resourceName: 'retry_embeddings',
+      details: { totalProcessed: documentsToFix.length, successful, failed }
+    }, request)
+
     return NextResponse.json({
       message: `Embedding retry completed: ${successful} successful, ${failed} failed`,
       totalProcessed: documentsToFix.length,
@@ -104,5 +117,7 @@ export async function POST(_request: NextRequest) {
       error: 'Failed to retry embeddings',
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
+  } finally {
+    if (supabase) releaseServiceClient(supabase)
   }
-}
+})
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServiceClient } from '@/lib/supabase/server'
+import { createClient, createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
 import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
 import { cleanupCancelledDocument } from '@/lib/document-processing'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
 
 /**
  * Cancel document processing
@@ -12,17 +14,29 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: documentId } = await params
+  let supabase: Awaited<ReturnType<typeof createServiceClient>> | null = null
 
   try {
-    logger.info('Cancel processing requested', { documentId })
+    const authClient = await createClient()
 
-    const supabase = await createServiceClient()
+    // Check authentication
+    const { data: { user }, error: authError } = await authClient.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    logger.info('Cancel processing requested', { documentId, userId: user.id })
+
+    supabase = await createServiceClient()
 
-    // 1. Get the document to verify it exists and check current status
+    const scope = await getDocumentScope(user.id, 'edit')
+
+    // 1. Get the document to verify it exists, the user can edit it and check current status
     const { data: document, error: docError } = await supabase
       .from('documents')
       .select('id, title, status, user_id')
       .eq('id', documentId)
+      .or(documentScopeFilter(scope))
       .single()
 
     if (docError || !document) {
@@ -69,6 +83,14 @@ export async function POST(
 
     logger.info('Document status updated to cancelled', { documentId })
 
+    await activityLogger.logUserAction(user, {
+      action: 'cancel',
+      resourceType: 'document',
+      resourceId: documentId,
+      resourceName: typeof document.title === 'string' ? document.title : 'Unknown',
+      details: { previousStatus: documentStatus }
+    }, request)
+
     // 4. Cancel ALL associated processing jobs (not just queued/processing)
     // This ensures we catch any jobs in any state
     const { error: cancelJobsError } = await supabase
@@ -142,5 +164,7 @@ export async function POST(
       },
       { status: 500 }
     )
+  } finally {
+    if (supabase) releaseServiceClient(supabase)
   }
 }
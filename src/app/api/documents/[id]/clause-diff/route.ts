@@ -0,0 +1,222 @@
+/**
+ * Clause-Level Diff API
+ * Word-level comparison of the matched chunk pairs behind a SectionMatch
+ * Native alternative to Draftable: nothing leaves our infrastructure
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { diffWords, summarizeDiff } from '@/lib/similarity/core/clause-diff'
+import type { ClauseDiff } from '@/lib/similarity/types'
+import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
+
+const MAX_CHUNK_PAIRS = 100
+
+interface ChunkPairInput {
+  sourceChunkIndex: number
+  targetChunkIndex: number
+  score?: number
+}
+
+interface ChunkTextRecord {
+  chunk_index: number
+  chunk_text: string | null
+  page_number: number | null
+  start_page_number: number | null
+  end_page_number: number | null
+}
+
+function isChunkIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+function sanitizeChunkPairs(input: unknown): ChunkPairInput[] | null {
+  if (!Array.isArray(input)) {
+    return null
+  }
+
+  const pairs: ChunkPairInput[] = []
+  for (const entry of input) {
+    if (!entry || typeof entry !== 'object') {
+      return null
+    }
+    const raw = entry as Record<string, unknown>
+    if (!isChunkIndex(raw.sourceChunkIndex) || !isChunkIndex(raw.targetChunkIndex)) {
+      return null
+    }
+    pairs.push({
+      sourceChunkIndex: raw.sourceChunkIndex,
+      targetChunkIndex: raw.targetChunkIndex,
+      score: typeof raw.score === 'number' && Number.isFinite(raw.score) ? raw.score : undefined
+    })
+  }
+
+  return pairs
+}
+
+function formatChunkPages(record: ChunkTextRecord | undefined): string {
+  if (!record) return '?'
+  const start = record.start_page_number ?? record.page_number
+  const end = record.end_page_number ?? start
+  if (start === null || start === undefined) return '?'
+  return end !== null && end !== undefined && end !== start ? `${start}-${end}` : `${start}`
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({})) as {
+      targetDocumentId?: unknown
+      chunkPairs?: unknown
+    }
+
+    const targetDocumentId = typeof body.targetDocumentId === 'string' ? body.targetDocumentId : null
+    if (!targetDocumentId) {
+      return NextResponse.json({ error: 'targetDocumentId is required' }, { status: 400 })
+    }
+
+    const chunkPairs = sanitizeChunkPairs(body.chunkPairs)
+    if (!chunkPairs || chunkPairs.length === 0) {
+      return NextResponse.json({
+        error: 'chunkPairs must be a non-empty array of { sourceChunkIndex, targetChunkIndex }'
+      }, { status: 400 })
+    }
+
+    if (chunkPairs.length > MAX_CHUNK_PAIRS) {
+      return NextResponse.json({
+        error: `Too many chunk pairs (max ${MAX_CHUNK_PAIRS} per request)`
+      }, { status: 400 })
+    }
+
+    const scope = await getDocumentScope(user.id)
+
+    // Verify both documents exist and are in the user's libraries
+    const { data: documents, error: docError } = await supabase
+      .from('documents')
+      .select('id, title')
+      .in('id', [id, targetDocumentId])
+      .or(documentScopeFilter(scope))
+      .returns<Array<{ id: string; title: string }>>()
+
+    if (docError) {
+      logger.error('Clause diff: failed to verify documents', docError, { documentId: id, targetDocumentId })
+      return NextResponse.json({ error: 'Failed to fetch documents' }, { status: 500 })
+    }
+
+    const sourceDocument = documents?.find(doc => doc.id === id)
+    const targetDocument = documents?.find(doc => doc.id === targetDocumentId)
+    if (!sourceDocument || !targetDocument) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const fetchChunks = async (documentId: string, indices: number[]) => {
+      const { data, error } = await supabase
+        .from('document_embeddings')
+        .select('chunk_index, chunk_text, page_number, start_page_number, end_page_number')
+        .eq('document_id', documentId)
+        .in('chunk_index', Array.from(new Set(indices)))
+        .returns<ChunkTextRecord[]>()
+
+      if (error) {
+        throw new Error(`Failed to fetch chunks for document ${documentId}: ${error.message}`)
+      }
+
+      return new Map((data ?? []).map(record => [record.chunk_index, record]))
+    }
+
+    const [sourceChunks, targetChunks] = await Promise.all([
+      fetchChunks(id, chunkPairs.map(pair => pair.sourceChunkIndex)),
+      fetchChunks(targetDocumentId, chunkPairs.map(pair => pair.targetChunkIndex))
+    ])
+
+    const clauses: ClauseDiff[] = chunkPairs.map(pair => {
+      const sourceChunk = sourceChunks.get(pair.sourceChunkIndex)
+      const targetChunk = targetChunks.get(pair.targetChunkIndex)
+      const segments = diffWords(sourceChunk?.chunk_text ?? '', targetChunk?.chunk_text ?? '')
+
+      return {
+        sourceChunkIndex: pair.sourceChunkIndex,
+        targetChunkIndex: pair.targetChunkIndex,
+        sourcePages: formatChunkPages(sourceChunk),
+        targetPages: formatChunkPages(targetChunk),
+        score: pair.score ?? 0,
+        segments,
+        stats: summarizeDiff(segments)
+      }
+    })
+
+    const missingChunks = chunkPairs.filter(pair =>
+      !sourceChunks.has(pair.sourceChunkIndex) || !targetChunks.has(pair.targetChunkIndex)
+    ).length
+
+    if (missingChunks > 0) {
+      logger.warn('Clause diff: some chunk pairs reference missing chunks (document reprocessed?)', {
+        documentId: id,
+        targetDocumentId,
+        missingChunks
+      })
+    }
+
+    const changedClauses = clauses.filter(clause =>
+      clause.stats.insertedWords > 0 || clause.stats.deletedWords > 0
+    ).length
+
+    logger.info('Clause diff computed', {
+      documentId: id,
+      targetDocumentId,
+      pairCount: clauses.length,
+      changedClauses
+    })
+
+    await activityLogger.logUserAction(user, {
+      action: 'compare',
+      resourceType: 'document',
+      resourceId: id,
+      resourceName: sourceDocument.title,
+      details: {
+        comparison: 'clause_diff',
+        targetDocumentId,
+        targetTitle: targetDocument.title,
+        clauseCount: clauses.length
+      }
+    }, request)
+
+    return NextResponse.json({
+      source_document: sourceDocument,
+      target_document: targetDocument,
+      clauses,
+      summary: {
+        total_clauses: clauses.length,
+        changed_clauses: changedClauses,
+        identical_clauses: clauses.length - changedClauses,
+        missing_chunks: missingChunks
+      }
+    })
+
+  } catch (error) {
+    logger.error(
+      'Clause diff request failed',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json(
+      {
+        error: 'Clause diff failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
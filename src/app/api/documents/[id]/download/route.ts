@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
 
 export async function GET(
   request: NextRequest,
@@ -16,12 +18,14 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Get document to check ownership and get file path
+    const scope = await getDocumentScope(user.id)
+
+    // Get document to check access and get file path
     const { data: document, error: fetchError } = await supabase
       .from('documents')
       .select('file_path, filename, content_type')
       .eq('id', id)
-      .eq('user_id', user.id)
+      .or(documentScopeFilter(scope))
       .single<{ file_path: string | null; filename: string | null; content_type: string | null }>()
 
     if (fetchError) {
@@ -50,6 +54,13 @@ export async function GET(
     const contentType = typeof document.content_type === 'string' ? document.content_type : 'application/pdf'
     const filename = typeof document.filename === 'string' ? document.filename : `${id}.pdf`
 
+    await activityLogger.logUserAction(user, {
+      action: 'download',
+      resourceType: 'document',
+      resourceId: id,
+      resourceName: filename
+    }, request)
+
     return new NextResponse(fileData, {
       headers: {
         'Content-Type': contentType,
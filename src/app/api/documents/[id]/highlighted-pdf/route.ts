@@ -0,0 +1,130 @@
+/**
+ * Highlighted PDF API
+ * Serves the original PDF with the regions of the requested chunks highlighted
+ *
+ * GET ?chunks=12,13,14
+ * - Regions come from document_embeddings.regions (Document AI paragraph boxes)
+ * - X-Highlight-Region-Count reports how many boxes were drawn; 0 means the
+ *   chunks predate region tracking and the document needs reprocessing
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { highlightPdfRegions } from '@/lib/pdf-highlighting'
+import type { ChunkRegion } from '@/lib/chunking/chunk-regions'
+import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
+
+const MAX_HIGHLIGHT_CHUNKS = 200
+
+interface ChunkRegionRecord {
+  chunk_index: number
+  regions: ChunkRegion[] | null
+}
+
+function parseChunkIndexes(value: string | null): number[] | null {
+  if (!value) return []
+
+  const indexes = value.split(',').map(part => Number(part.trim()))
+  if (indexes.some(index => !Number.isInteger(index) || index < 0)) {
+    return null
+  }
+
+  return Array.from(new Set(indexes))
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const chunkIndexes = parseChunkIndexes(request.nextUrl.searchParams.get('chunks'))
+    if (chunkIndexes === null) {
+      return NextResponse.json({ error: 'chunks must be a comma-separated list of chunk indexes' }, { status: 400 })
+    }
+    if (chunkIndexes.length > MAX_HIGHLIGHT_CHUNKS) {
+      return NextResponse.json({ error: `At most ${MAX_HIGHLIGHT_CHUNKS} chunks can be highlighted` }, { status: 400 })
+    }
+
+    const scope = await getDocumentScope(user.id)
+    const { data: document, error: fetchError } = await supabase
+      .from('documents')
+      .select('file_path, filename')
+      .eq('id', id)
+      .or(documentScopeFilter(scope))
+      .single<{ file_path: string | null; filename: string | null }>()
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+      }
+      return NextResponse.json({ error: 'Failed to fetch document' }, { status: 500 })
+    }
+
+    const filePath = typeof document.file_path === 'string' ? document.file_path : null
+    if (!filePath) {
+      return NextResponse.json({ error: 'Document file path is missing' }, { status: 500 })
+    }
+
+    let regions: ChunkRegion[] = []
+    if (chunkIndexes.length > 0) {
+      const { data: chunks, error: chunksError } = await supabase
+        .from('document_embeddings')
+        .select('chunk_index, regions')
+        .eq('document_id', id)
+        .in('chunk_index', chunkIndexes)
+        .returns<ChunkRegionRecord[]>()
+
+      if (chunksError) {
+        logger.error('Failed to fetch chunk regions', new Error(chunksError.message), { documentId: id })
+        return NextResponse.json({ error: 'Failed to fetch chunk regions' }, { status: 500 })
+      }
+
+      regions = (chunks ?? []).flatMap(chunk => Array.isArray(chunk.regions) ? chunk.regions : [])
+    }
+
+    const { data: fileData, error: downloadError } = await supabase.storage
+      .from('documents')
+      .download(filePath)
+
+    if (downloadError || !fileData) {
+      logger.error('Storage download error', downloadError as Error, { documentId: id, filePath })
+      return NextResponse.json({ error: 'Failed to download file' }, { status: 500 })
+    }
+
+    const highlighted = await highlightPdfRegions(await fileData.arrayBuffer(), regions)
+    const filename = typeof document.filename === 'string' ? document.filename : `${id}.pdf`
+
+    await activityLogger.logUserAction(user, {
+      action: 'view',
+      resourceType: 'document',
+      resourceId: id,
+      resourceName: filename,
+      details: { highlightedChunks: chunkIndexes.length }
+    }, request)
+
+    return new NextResponse(Buffer.from(highlighted), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${filename}"`,
+        'Content-Length': highlighted.byteLength.toString(),
+        'Cache-Control': 'private, no-store',
+        'X-Highlight-Region-Count': regions.length.toString()
+      }
+    })
+
+  } catch (error) {
+    logger.error('Highlighted PDF error', error as Error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
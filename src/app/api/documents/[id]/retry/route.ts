@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient, createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
 import { queueDocumentProcessingJob, processUploadedDocument } from '@/lib/upload-optimization'
 import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
 
 function triggerCronProcessing(request: NextRequest) {
   const cronSecret = process.env['CRON_SECRET']
@@ -46,11 +48,12 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    const scope = await getDocumentScope(user.id, 'edit')
     const { data: document, error: documentError } = await supabase
       .from('documents')
       .select('id, user_id, title, filename, file_path, file_size, content_type, status, processing_error, metadata, page_count, created_at, updated_at')
       .eq('id', id)
-      .eq('user_id', user.id)
+      .or(documentScopeFilter(scope))
       .single()
 
     if (documentError) {
@@ -154,7 +157,7 @@ export async function POST(
 
     const { jobId, sizeAnalysis } = await queueDocumentProcessingJob({
       documentId: id,
-      userId: user.id,
+      userId: document.user_id,
       filename,
       fileSize,
       filePath,
@@ -167,7 +170,7 @@ export async function POST(
     } else {
       processUploadedDocument({
         documentId: id,
-        userId: user.id,
+        userId: document.user_id,
         filename,
         fileSize,
         filePath,
@@ -179,6 +182,14 @@ export async function POST(
       })
     }
 
+    await activityLogger.logUserAction(user, {
+      action: 'retry',
+      resourceType: 'document',
+      resourceId: id,
+      resourceName: filename,
+      details: { previousStatus: document.status, jobId }
+    }, request)
+
     const responseDocument = {
       ...document,
       status: jobId ? 'queued' : 'processing',
@@ -1,11 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { createClient, createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
 import { updateDocumentMetadataInPinecone, getVectorIdsForDocument } from '@/lib/pinecone'
 import { activityLogger } from '@/lib/activity-logger'
-import { DatabaseDocumentWithContent } from '@/types/external-apis'
+import { BusinessMetadata, DatabaseDocumentWithContent } from '@/types/external-apis'
+import { getManualExclusionRanges } from '@/lib/exclusion-ranges'
+import { queueExclusionReembedJob } from '@/lib/upload-optimization'
 import { logger } from '@/lib/logger'
 import { throttling } from '@/lib/concurrency-limiter'
 import { queuePineconeDeletion } from '@/lib/pinecone-cleanup-worker'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
+
+function triggerCronProcessing(request: NextRequest) {
+  const cronSecret = process.env['CRON_SECRET']
+  if (!cronSecret) {
+    logger.warn('CRON_SECRET not set; skipping auto-trigger of cron job')
+    return
+  }
+
+  try {
+    const cronUrl = new URL('/api/cron/process-jobs', request.url)
+    fetch(cronUrl.toString(), {
+      method: 'GET',
+      headers: {
+        authorization: `Bearer ${cronSecret}`,
+        'user-agent': 'ExclusionRangeAutoTrigger'
+      }
+    }).catch(error => {
+      logger.warn('Auto-triggered cron job failed', { error: error instanceof Error ? error.message : String(error) })
+    })
+  } catch (error) {
+    logger.warn('Failed to construct cron trigger URL', { error: error instanceof Error ? error.message : String(error) })
+  }
+}
 
 export async function GET(
   request: NextRequest,
@@ -21,13 +47,14 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    const scope = await getDocumentScope(user.id)
     const { data: document, error: dbError } = await supabase
       .from('documents')
       .select(
-        'id, user_id, title, filename, file_path, file_size, content_type, status, processing_error, extracted_fields, metadata, page_count, created_at, updated_at, document_content(extracted_text)'
+        'id, user_id, workspace_id, title, filename, file_path, file_size, content_type, status, processing_error, extracted_fields, metadata, page_count, created_at, updated_at, document_content(extracted_text)'
       )
       .eq('id', id)
-      .eq('user_id', user.id)
+      .or(documentScopeFilter(scope))
       .maybeSingle<DatabaseDocumentWithContent>()
 
     if (dbError) {
@@ -70,12 +97,15 @@ export async function DELETE(
     }
 
     return throttling.delete.run(user.id, async () => {
-      // Get document to check ownership and get file path FIRST
+      // Uploaders and workspace owners / editors can delete
+      const scope = await getDocumentScope(user.id, 'edit')
+
+      // Get document to check access and get file path FIRST
       const { data: document, error: fetchError } = await supabase
         .from('documents')
         .select('file_path, filename')
         .eq('id', id)
-        .eq('user_id', user.id)
+        .or(documentScopeFilter(scope))
         .single<{ file_path: string | null; filename: string | null }>()
 
       if (fetchError) {
@@ -112,8 +142,8 @@ export async function DELETE(
         logger.warn('Documents API: document missing file_path during deletion', { documentId: id })
       }
 
-      // Queue Pinecone cleanup with retry/backoff
-      queuePineconeDeletion(id, vectorIds)
+      // Record the Pinecone cleanup before the row (and its chunk IDs) goes away
+      await queuePineconeDeletion(id, vectorIds)
       logger.info('Documents API: queued Pinecone vector cleanup', { documentId: id })
 
       // Delete from database (CASCADE will handle related records)
@@ -121,7 +151,7 @@ export async function DELETE(
         .from('documents')
         .delete()
         .eq('id', id)
-        .eq('user_id', user.id)
+        .or(documentScopeFilter(scope))
 
       if (deleteError) {
         logger.error('Documents API: database deletion error', deleteError)
@@ -129,16 +159,11 @@ export async function DELETE(
       }
 
       // Log activity
-      await activityLogger.logActivity({
-        userId: user.id,
-        userEmail: user.email || '',
+      await activityLogger.logUserAction(user, {
         action: 'delete',
         resourceType: 'document',
         resourceId: id,
-        resourceName: typeof document?.filename === 'string' ? document.filename : 'Unknown',
-        endpoint: `/api/documents/${id}`,
-        method: 'DELETE',
-        statusCode: 200
+        resourceName: typeof document?.filename === 'string' ? document.filename : 'Unknown'
       }, request)
 
       logger.info('Documents API: document deleted successfully', { documentId: id })
@@ -175,12 +200,13 @@ export async function PATCH(
       return NextResponse.json({ error: 'Metadata or title is required' }, { status: 400 })
     }
 
-    // Verify the document exists and belongs to the user
+    // Verify the document exists and the user can edit it
+    const scope = await getDocumentScope(user.id, 'edit')
     const { data: existingDocument, error: fetchError } = await supabase
       .from('documents')
-      .select('id, user_id, title, filename, file_path, file_size, content_type, status, processing_error, extracted_fields, metadata, page_count, created_at, updated_at, document_content(extracted_text)')
+      .select('id, user_id, workspace_id, title, filename, file_path, file_size, content_type, status, processing_error, extracted_fields, metadata, page_count, created_at, updated_at, document_content(extracted_text)')
       .eq('id', id)
-      .eq('user_id', user.id)
+      .or(documentScopeFilter(scope))
       .maybeSingle<DatabaseDocumentWithContent>()
 
     if (fetchError) {
@@ -202,6 +228,36 @@ export async function PATCH(
       existingDocument.extracted_text = ''; // Ensure it's always a string
     }
 
+    // Edited exclusion ranges re-embed the affected pages once the update is saved
+    const exclusionRangesChanged = Boolean(metadata) &&
+      JSON.stringify(getManualExclusionRanges(existingDocument.metadata as BusinessMetadata | null)) !==
+      JSON.stringify(getManualExclusionRanges(metadata as BusinessMetadata))
+    const requiresReembed = exclusionRangesChanged && existingDocument.status === 'completed'
+
+    if (exclusionRangesChanged) {
+      const serviceClient = await createServiceClient()
+      try {
+        const { data: activeJobs, error: activeJobsError } = await serviceClient
+          .from('document_jobs')
+          .select('id')
+          .eq('document_id', id)
+          .in('status', ['queued', 'processing'])
+
+        if (activeJobsError) {
+          logger.error('Failed to inspect existing jobs before exclusion edit', activeJobsError as Error, { documentId: id })
+          return NextResponse.json({ error: 'Failed to update document' }, { status: 500 })
+        }
+
+        if (activeJobs && activeJobs.length > 0) {
+          return NextResponse.json({
+            error: 'Document is being processed; edit exclusion ranges once processing finishes'
+          }, { status: 409 })
+        }
+      } finally {
+        releaseServiceClient(serviceClient)
+      }
+    }
+
     // Prepare for a full rename operation: storage, database, and metadata
     const updateData: Record<string, unknown> = {
       updated_at: new Date().toISOString()
@@ -238,8 +294,8 @@ export async function PATCH(
       .from('documents')
       .update(updateData)
       .eq('id', id)
-      .eq('user_id', user.id)
-      .select('id, user_id, title, filename, file_path, file_size, content_type, status, processing_error, extracted_fields, metadata, page_count, created_at, updated_at, document_content(extracted_text)')
+      .or(documentScopeFilter(scope))
+      .select('id, user_id, workspace_id, title, filename, file_path, file_size, content_type, status, processing_error, extracted_fields, metadata, page_count, created_at, updated_at, document_content(extracted_text)')
       .maybeSingle<DatabaseDocumentWithContent>()
 
     if (updateError) {
@@ -251,6 +307,69 @@ export async function PATCH(
       return NextResponse.json({ error: 'Failed to update document' }, { status: 500 })
     }
 
+    let reembedJobId: string | undefined
+    if (requiresReembed) {
+      try {
+        reembedJobId = await queueExclusionReembedJob({
+          documentId: id,
+          userId: existingDocument.user_id,
+          fileSize: existingDocument.file_size
+        })
+      } catch (queueError) {
+        logger.error(
+          'Documents API: failed to queue exclusion re-embed, reverting the update',
+          queueError instanceof Error ? queueError : new Error(String(queueError)),
+          { documentId: id }
+        )
+
+        // Without the job the stored chunks would never match the new ranges,
+        // so the whole update (including a rename) is undone
+        let reverted = true
+        if (title) {
+          const { error: moveBackError } = await supabase.storage
+            .from('documents')
+            .move(updatedDocument.file_path, existingDocument.file_path)
+
+          if (moveBackError) {
+            reverted = false
+            logger.error('Documents API: failed to move renamed file back after re-embed queue error', moveBackError, { documentId: id })
+          }
+        }
+
+        const { error: rollbackError } = await supabase
+          .from('documents')
+          .update({
+            metadata: existingDocument.metadata,
+            ...(title && reverted
+              ? {
+                  title: existingDocument.title,
+                  filename: existingDocument.filename,
+                  file_path: existingDocument.file_path
+                }
+              : {})
+          })
+          .eq('id', id)
+          .or(documentScopeFilter(scope))
+
+        if (rollbackError) {
+          reverted = false
+          logger.error('Documents API: failed to revert document after re-embed queue error', rollbackError as Error, { documentId: id })
+        }
+
+        return NextResponse.json({
+          error: reverted
+            ? 'Failed to queue re-embedding; the document was not changed'
+            : 'Failed to queue re-embedding for the new exclusion ranges'
+        }, { status: 500 })
+      }
+      triggerCronProcessing(request)
+
+      logger.info('Documents API: exclusion ranges changed, affected pages queued for re-embedding', {
+        documentId: id,
+        jobId: reembedJobId
+      })
+    }
+
     // Update Pinecone vector metadata if title or metadata changed
     if (title || metadata) {
       try {
@@ -290,21 +409,18 @@ export async function PATCH(
     }
 
     // Log the successful update activity
-    await activityLogger.logActivity({
-      userId: user.id,
-      userEmail: user.email || '',
-      action: 'upload',
+    await activityLogger.logUserAction(user, {
+      action: 'update',
       resourceType: 'document',
       resourceId: id,
       resourceName: title || existingDocument.title || 'Unknown',
-      details: title ? { action: 'rename', newTitle: title } : { action: 'update_metadata' },
-      endpoint: `/api/documents/${id}`,
-      method: 'PATCH',
-      statusCode: 200
+      details: title
+        ? { action: 'rename', newTitle: title }
+        : { action: 'update_metadata', ...(requiresReembed ? { reembedJobId } : {}) }
     }, request)
 
     logger.info('Documents API: document updated successfully', { documentId: id })
-    return NextResponse.json(updatedDocument)
+    return NextResponse.json(requiresReembed ? { ...updatedDocument, status: 'queued' } : updatedDocument)
 
   } catch (error) {
     logger.error('Documents API: document update error', error instanceof Error ? error : new Error(String(error)))
@@ -1,17 +1,23 @@
 /**
  * Production-Ready Similarity Search API v2
  * Uses 3-stage adaptive similarity search with section detection
+ * Pass `async: true` to enqueue a similarity job and stream progress from /api/similarity-jobs/[jobId]/events
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { executeSimilaritySearch, validateDocumentForSimilarity } from '@/lib/similarity/orchestrator'
+import { saveSimilaritySearchRun } from '@/lib/similarity/search-history'
+import { buildGeneralSearchResponse, shapeGeneralResults } from '@/lib/similarity/result-shaping'
+import { dispatchSimilarityJob, queueSimilarityJob } from '@/lib/similarity/similarity-jobs'
 import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
+import { documentScopeFilter, getDocumentScope, pineconeScopeFilter, type DocumentScope } from '@/lib/workspaces'
+import type { Stage0RetrievalMode } from '@/lib/similarity/types'
 
 type RawFilters = Record<string, unknown>
 
 const PINECONE_OPERATOR_IN = '$in'
-const PINECONE_OPERATOR_EQ = '$eq'
 const MAX_RESULT_LIMIT = 100
 
 const parsePositiveInteger = (value: string | undefined): number | undefined => {
@@ -22,6 +28,15 @@ const parsePositiveInteger = (value: string | undefined): number | undefined =>
 
 const STAGE2_WORKERS_FALLBACK = parsePositiveInteger(process.env['SIMILARITY_STAGE2_WORKERS'])
 
+const STAGE0_MODES: readonly Stage0RetrievalMode[] = ['dense', 'sparse', 'hybrid']
+
+const isStage0Mode = (value: unknown): value is Stage0RetrievalMode =>
+  typeof value === 'string' && STAGE0_MODES.includes(value as Stage0RetrievalMode)
+
+const STAGE0_MODE_FALLBACK: Stage0RetrievalMode = isStage0Mode(process.env['SIMILARITY_STAGE0_MODE'])
+  ? process.env['SIMILARITY_STAGE0_MODE'] as Stage0RetrievalMode
+  : 'dense'
+
 function normalizeTopK(value: unknown): number | undefined {
   if (typeof value === 'number' && Number.isFinite(value)) {
     if (value <= 0) {
@@ -93,17 +108,18 @@ function normalizeFilterEntry(value: unknown): { pinecone: unknown; client: unkn
   }
 }
 
-function buildStage0Filters(rawFilters: RawFilters, userId: string): {
+// Library scope is always set server-side from the caller's memberships
+const SCOPE_FILTER_KEYS = new Set(['user_id', 'workspace_id', '$or'])
+
+function buildStage0Filters(rawFilters: RawFilters, scope: DocumentScope): {
   pineconeFilters: Record<string, unknown>
   appliedFilters: Record<string, unknown>
 } {
-  const pineconeFilters: Record<string, unknown> = {
-    user_id: { [PINECONE_OPERATOR_EQ]: userId }
-  }
+  const pineconeFilters: Record<string, unknown> = pineconeScopeFilter(scope)
   const appliedFilters: Record<string, unknown> = {}
 
   for (const [key, value] of Object.entries(rawFilters)) {
-    if (key === 'user_id') continue
+    if (SCOPE_FILTER_KEYS.has(key)) continue
 
     const normalized = normalizeFilterEntry(value)
     if (!normalized) continue
@@ -218,6 +234,8 @@ export async function POST(
     const body = await request.json().catch(() => ({}))
     const {
       stage0_topK = 600,
+      stage0_mode = STAGE0_MODE_FALLBACK,
+      stage0_hybridAlpha,
       stage1_topK = 250,
       stage1_enabled = true,
       stage1_neighborsPerChunk,
@@ -225,9 +243,13 @@ export async function POST(
       stage2_fallbackThreshold = 0.8,
       filters: rawFilters = {},
       source_min_score = 0.7,
-      target_min_score = 0.7
+      target_min_score = 0.7,
+      latest_versions_only = false,
+      async: runAsync = false
     }: {
       stage0_topK?: number
+      stage0_mode?: Stage0RetrievalMode
+      stage0_hybridAlpha?: number
       stage1_topK?: number
       stage1_enabled?: boolean
       stage1_neighborsPerChunk?: number
@@ -236,8 +258,21 @@ export async function POST(
       filters?: Record<string, unknown>
       source_min_score?: number
       target_min_score?: number
+      latest_versions_only?: boolean
+      async?: boolean
     } = body
 
+    if (!isStage0Mode(stage0_mode)) {
+      return NextResponse.json({
+        error: `Invalid stage0_mode. Expected one of: ${STAGE0_MODES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const normalizedHybridAlpha =
+      typeof stage0_hybridAlpha === 'number' && Number.isFinite(stage0_hybridAlpha)
+        ? Math.min(1, Math.max(0, stage0_hybridAlpha))
+        : undefined
+
     // Extract non-Pinecone filter directives (handled in later stages)
     const {
       page_range: requestedPageRange,
@@ -247,19 +282,20 @@ export async function POST(
       ...metadataFilters
     } = rawFilters as RawFilters
 
-    const { pineconeFilters, appliedFilters } = buildStage0Filters(metadataFilters, user.id)
+    const scope = await getDocumentScope(user.id)
+    const { pineconeFilters, appliedFilters } = buildStage0Filters(metadataFilters, scope)
 
     const normalizedStage2Workers =
       stage2_parallelWorkers !== undefined
         ? Math.max(1, Math.floor(stage2_parallelWorkers))
         : undefined
 
-    // Verify document exists and belongs to user
+    // Verify document exists and is in one of the user's libraries
     const { data: document, error: docError } = await supabase
       .from('documents')
       .select('id, title, status, centroid_embedding, effective_chunk_count, page_count, total_characters')
       .eq('id', id)
-      .eq('user_id', user.id)
+      .or(documentScopeFilter(scope))
       .single()
 
     if (docError || !document) {
@@ -308,63 +344,111 @@ export async function POST(
       })
     }
 
-    logger.info('Similarity search execution starting', {
-      documentId: id,
-      documentTitle: document.title,
+    const sourceTotalCharacters = typeof document.total_characters === 'number' && Number.isFinite(document.total_characters)
+      ? document.total_characters
+      : null
+
+    const normalizedTopK = normalizeTopK(requestedTopK)
+
+    const pageRangeConfig = requestedPageRange !== undefined
+      ? sanitizedPageRange
+        ? { ...sanitizedPageRange, use_entire_document: false }
+        : { use_entire_document: true }
+      : undefined
+
+    const config = {
       stage0_topK,
-      stage1_topK
-    })
+      stage0_mode,
+      ...(stage0_mode === 'hybrid' && normalizedHybridAlpha !== undefined
+        ? { stage0_hybridAlpha: normalizedHybridAlpha }
+        : {}),
+      stage1_topK,
+      stage1_enabled,
+      stage1_neighborsPerChunk,
+      stage2_parallelWorkers: normalizedStage2Workers,
+      stage2_fallbackThreshold,
+      filters: {
+        ...appliedFilters,
+        ...(pageRangeConfig ? { page_range: pageRangeConfig } : {}),
+        ...(requestedMinScore !== undefined ? { min_score: requestedMinScore } : {}),
+        ...(requestedThreshold !== undefined ? { threshold: requestedThreshold } : {}),
+        ...(normalizedTopK !== undefined ? { topK: normalizedTopK } : {})
+      },
+      source_min_score,
+      target_min_score,
+      latest_versions_only: latest_versions_only === true
+    }
 
-    // Execute 3-stage similarity search
-    const searchResult = await executeSimilaritySearch(id, {
+    const searchOptions = {
       stage0_topK,
       stage0_filters: pineconeFilters,
+      stage0_mode,
+      stage0_hybridAlpha: normalizedHybridAlpha,
       stage1_topK,
       stage1_enabled,
       stage1_neighborsPerChunk,
       stage2_parallelWorkers: normalizedStage2Workers,
       stage2_fallbackThreshold,
-      sourcePageRange: sanitizedPageRange
-    })
+      sourcePageRange: sanitizedPageRange,
+      latestVersionsOnly: latest_versions_only === true
+    }
 
-    const sourceTotalCharacters = typeof document.total_characters === 'number' && Number.isFinite(document.total_characters)
-      ? document.total_characters
-      : null
+    const shaping = {
+      sourceTotalCharacters,
+      sourceMinScore: source_min_score,
+      targetMinScore: target_min_score,
+      topK: normalizedTopK
+    }
 
-    const filteredResults = searchResult.results.filter(result =>
-      result.scores.sourceScore >= source_min_score &&
-      result.scores.targetScore >= target_min_score
-    )
+    // Async mode: enqueue and let the client follow progress over SSE
+    if (runAsync) {
+      const jobId = await queueSimilarityJob({
+        userId: user.id,
+        sourceDocumentId: id,
+        request: {
+          searchType: 'general',
+          documentTitle: document.title,
+          searchOptions,
+          shaping,
+          config
+        }
+      })
 
-    const enrichedResults = filteredResults.map(result => {
-      const targetTotalCharactersFromResult = typeof result.document.total_characters === 'number' && Number.isFinite(result.document.total_characters as number)
-        ? (result.document.total_characters as number)
-        : null
-      const targetTotalCharactersFromEffective = typeof result.document.effective_chunk_count === 'number' && Number.isFinite(result.document.effective_chunk_count as number)
-        ? (result.document.effective_chunk_count as number)
-        : null
-      const targetTotalCharacters = targetTotalCharactersFromResult ?? targetTotalCharactersFromEffective
+      dispatchSimilarityJob(jobId, request.url)
 
-      const lengthRatio = sourceTotalCharacters && targetTotalCharacters
-        ? (sourceTotalCharacters / targetTotalCharacters) * 100
-        : null
+      await activityLogger.logUserAction(user, {
+        action: 'similarity',
+        resourceType: 'document',
+        resourceId: id,
+        resourceName: document.title,
+        details: { searchType: 'general', async: true, jobId, filters: appliedFilters },
+        statusCode: 202
+      }, request)
 
-      return {
-        ...result,
-        scores: {
-          ...result.scores,
-          lengthRatio
-        }
-      }
+      return NextResponse.json({
+        job_id: jobId,
+        status: 'queued',
+        status_url: `/api/similarity-jobs/${jobId}`,
+        events_url: `/api/similarity-jobs/${jobId}/events`
+      }, { status: 202 })
+    }
+
+    logger.info('Similarity search execution starting', {
+      documentId: id,
+      documentTitle: document.title,
+      stage0_topK,
+      stage0_mode,
+      stage1_topK
     })
 
-    const normalizedTopK = normalizeTopK(requestedTopK)
-    const limitedResults = normalizedTopK !== undefined
-      ? enrichedResults.slice(0, normalizedTopK)
-      : enrichedResults
+    // Execute 3-stage similarity search
+    const searchResult = await executeSimilaritySearch(id, searchOptions)
+
+    const limitedResults = shapeGeneralResults(searchResult.results, shaping)
 
     logger.info('Similarity search completed', {
       documentId: id,
+      stage0Mode: searchResult.stage0_mode,
       stage0Candidates: searchResult.stages.stage0_candidates,
       stage1Candidates: searchResult.stages.stage1_candidates,
       finalResults: searchResult.stages.final_results,
@@ -373,55 +457,35 @@ export async function POST(
       timing: searchResult.timing
     })
 
-    // Format response
-    const pageRangeConfig = requestedPageRange !== undefined
-      ? sanitizedPageRange
-        ? { ...sanitizedPageRange, use_entire_document: false }
-        : { use_entire_document: true }
-      : undefined
+    // Persist the run so it can be reopened from "Recent searches"
+    const searchId = await saveSimilaritySearchRun({
+      userId: user.id,
+      sourceDocumentId: id,
+      searchType: 'general',
+      targetDocumentIds: [],
+      options: config,
+      timing: searchResult.timing,
+      stages: searchResult.stages,
+      results: limitedResults
+    })
 
-    const response = {
-      document_id: id,
-      document_title: document.title,
+    await activityLogger.logUserAction(user, {
+      action: 'similarity',
+      resourceType: 'document',
+      resourceId: id,
+      resourceName: document.title,
+      details: { searchType: 'general', searchId, resultsCount: limitedResults.length, filters: appliedFilters }
+    }, request)
+
+    // Format response
+    const response = buildGeneralSearchResponse({
+      searchId,
+      documentId: id,
+      documentTitle: document.title,
       results: limitedResults,
-      total_results: limitedResults.length,
-      timing: {
-        stage0_ms: searchResult.timing.stage0_ms,
-        stage1_ms: searchResult.timing.stage1_ms,
-        stage2_ms: searchResult.timing.stage2_ms,
-        total_ms: searchResult.timing.total_ms
-      },
-      stages: {
-        stage0_candidates: searchResult.stages.stage0_candidates,
-        stage1_candidates: searchResult.stages.stage1_candidates,
-        final_results: searchResult.stages.final_results
-      },
-      config: {
-        stage0_topK,
-        stage1_topK,
-        stage1_enabled,
-        stage1_neighborsPerChunk,
-        stage2_parallelWorkers: normalizedStage2Workers,
-        stage2_fallbackThreshold,
-        filters: {
-          ...appliedFilters,
-          ...(pageRangeConfig ? { page_range: pageRangeConfig } : {}),
-          ...(requestedMinScore !== undefined ? { min_score: requestedMinScore } : {}),
-          ...(requestedThreshold !== undefined ? { threshold: requestedThreshold } : {}),
-          ...(normalizedTopK !== undefined ? { topK: normalizedTopK } : {})
-        },
-        source_min_score,
-        target_min_score
-      },
-      version: '2.0.0',
-      features: {
-        adaptive_scoring: true,
-        bidirectional_matching: true,
-        section_detection: true,
-        effective_chunk_count: true
-      },
-      timestamp: new Date().toISOString()
-    }
+      searchResult,
+      config
+    })
 
     return NextResponse.json(response)
 
@@ -459,12 +523,13 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Verify document belongs to user
+    // Verify document is in one of the user's libraries
+    const scope = await getDocumentScope(user.id)
     const { data: document, error: docError } = await supabase
       .from('documents')
       .select('id, title, status, total_characters')
       .eq('id', id)
-      .eq('user_id', user.id)
+      .or(documentScopeFilter(scope))
       .single()
 
     if (docError || !document) {
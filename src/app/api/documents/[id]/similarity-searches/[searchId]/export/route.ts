@@ -0,0 +1,137 @@
+/**
+ * Similarity Search Export API
+ * Downloads a persisted similarity search run as CSV, XLSX or a PDF report
+ *
+ * GET ?format=csv|xlsx|pdf (default csv)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import type { StoredSimilaritySearch } from '@/lib/similarity/search-history'
+import {
+  SIMILARITY_EXPORT_CONTENT_TYPES,
+  SIMILARITY_EXPORT_FORMATS,
+  buildExportFilename,
+  buildExportRows,
+  renderSimilarityCsv,
+  renderSimilarityPdfReport,
+  renderSimilarityXlsx,
+  toExportDocumentInfo,
+  type SimilarityExportFormat,
+  type SimilarityExportInput
+} from '@/lib/similarity/result-export'
+import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; searchId: string }> }
+) {
+  try {
+    const { id, searchId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const requestedFormat = request.nextUrl.searchParams.get('format') ?? 'csv'
+    if (!SIMILARITY_EXPORT_FORMATS.includes(requestedFormat as SimilarityExportFormat)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${SIMILARITY_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    const format = requestedFormat as SimilarityExportFormat
+
+    const { data: search, error } = await supabase
+      .from('similarity_searches')
+      .select('*')
+      .eq('id', searchId)
+      .eq('source_document_id', id)
+      .eq('user_id', user.id)
+      .maybeSingle<StoredSimilaritySearch>()
+
+    if (error) {
+      logger.error('Failed to load similarity search for export', new Error(error.message), { documentId: id, searchId })
+      return NextResponse.json({ error: 'Failed to load similarity search' }, { status: 500 })
+    }
+
+    if (!search) {
+      return NextResponse.json({ error: 'Similarity search not found' }, { status: 404 })
+    }
+
+    const { data: sourceDocument, error: sourceError } = await supabase
+      .from('documents')
+      .select('id, title, filename, page_count, metadata')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle<Record<string, unknown>>()
+
+    if (sourceError) {
+      logger.error('Failed to load source document for export', new Error(sourceError.message), { documentId: id, searchId })
+      return NextResponse.json({ error: 'Failed to load source document' }, { status: 500 })
+    }
+
+    if (!sourceDocument) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const input: SimilarityExportInput = {
+      searchType: search.search_type,
+      createdAt: search.created_at,
+      isStale: search.is_stale,
+      sourceDocument: toExportDocumentInfo(sourceDocument),
+      results: Array.isArray(search.results) ? search.results : []
+    }
+    const rows = buildExportRows(input.results)
+
+    let body: string | Uint8Array
+    if (format === 'csv') {
+      body = renderSimilarityCsv(rows)
+    } else if (format === 'xlsx') {
+      body = renderSimilarityXlsx(rows)
+    } else {
+      body = await renderSimilarityPdfReport(input, rows)
+    }
+
+    logger.info('Similarity search exported', {
+      documentId: id,
+      searchId,
+      format,
+      resultCount: rows.length,
+      userId: user.id
+    })
+
+    await activityLogger.logUserAction(user, {
+      action: 'export',
+      resourceType: 'search',
+      resourceId: searchId,
+      resourceName: input.sourceDocument.title,
+      details: { documentId: id, format, resultCount: rows.length }
+    }, request)
+
+    return new NextResponse(typeof body === 'string' ? body : Buffer.from(body), {
+      headers: {
+        'Content-Type': SIMILARITY_EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${buildExportFilename(input.sourceDocument, format)}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+
+  } catch (error) {
+    logger.error(
+      'Similarity search export failed',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json(
+      {
+        error: 'Failed to export similarity search',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
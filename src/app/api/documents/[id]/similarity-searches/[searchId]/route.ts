@@ -0,0 +1,125 @@
+/**
+ * Stored Similarity Search API
+ * Reopens (GET) or deletes (DELETE) a persisted similarity search run
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import type { StoredSimilaritySearch } from '@/lib/similarity/search-history'
+import { logger } from '@/lib/logger'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; searchId: string }> }
+) {
+  try {
+    const { id, searchId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: search, error } = await supabase
+      .from('similarity_searches')
+      .select('*')
+      .eq('id', searchId)
+      .eq('source_document_id', id)
+      .eq('user_id', user.id)
+      .maybeSingle<StoredSimilaritySearch>()
+
+    if (error) {
+      logger.error('Failed to load similarity search', new Error(error.message), { documentId: id, searchId })
+      return NextResponse.json({ error: 'Failed to load similarity search' }, { status: 500 })
+    }
+
+    if (!search) {
+      return NextResponse.json({ error: 'Similarity search not found' }, { status: 404 })
+    }
+
+    // Flag targets that were deleted after the run was stored
+    let deletedTargetIds: string[] = []
+    if (search.target_document_ids.length > 0) {
+      const { data: existingTargets } = await supabase
+        .from('documents')
+        .select('id')
+        .in('id', search.target_document_ids)
+        .eq('user_id', user.id)
+        .returns<Array<{ id: string }>>()
+
+      const existingIds = new Set((existingTargets ?? []).map(doc => doc.id))
+      deletedTargetIds = search.target_document_ids.filter(targetId => !existingIds.has(targetId))
+    }
+
+    return NextResponse.json({
+      ...search,
+      deleted_target_ids: deletedTargetIds
+    })
+
+  } catch (error) {
+    logger.error(
+      'Similarity search reopen failed',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json(
+      {
+        error: 'Failed to load similarity search',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; searchId: string }> }
+) {
+  try {
+    const { id, searchId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: deleted, error } = await supabase
+      .from('similarity_searches')
+      .delete()
+      .eq('id', searchId)
+      .eq('source_document_id', id)
+      .eq('user_id', user.id)
+      .select('id')
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      logger.error('Failed to delete similarity search', new Error(error.message), { documentId: id, searchId })
+      return NextResponse.json({ error: 'Failed to delete similarity search' }, { status: 500 })
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Similarity search not found' }, { status: 404 })
+    }
+
+    logger.info('Similarity search deleted', { documentId: id, searchId, userId: user.id })
+
+    return NextResponse.json({ success: true, id: searchId })
+
+  } catch (error) {
+    logger.error(
+      'Similarity search delete failed',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json(
+      {
+        error: 'Failed to delete similarity search',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
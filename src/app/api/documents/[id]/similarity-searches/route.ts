@@ -0,0 +1,74 @@
+/**
+ * Similarity Search History API
+ * Lists stored similarity search runs for a source document
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  SIMILARITY_SEARCH_SUMMARY_COLUMNS,
+  type SimilaritySearchSummary
+} from '@/lib/similarity/search-history'
+import { logger } from '@/lib/logger'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+const parsePositiveInteger = (value: string | null): number | undefined => {
+  if (!value) return undefined
+  const parsed = Number.parseInt(value, 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const limit = Math.min(
+      MAX_LIMIT,
+      parsePositiveInteger(request.nextUrl.searchParams.get('limit')) ?? DEFAULT_LIMIT
+    )
+
+    const { data, error } = await supabase
+      .from('similarity_searches')
+      .select(SIMILARITY_SEARCH_SUMMARY_COLUMNS)
+      .eq('source_document_id', id)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+      .returns<SimilaritySearchSummary[]>()
+
+    if (error) {
+      logger.error('Failed to list similarity searches', new Error(error.message), { documentId: id })
+      return NextResponse.json({ error: 'Failed to list similarity searches' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      document_id: id,
+      searches: data ?? []
+    })
+
+  } catch (error) {
+    logger.error(
+      'Similarity search history request failed',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json(
+      {
+        error: 'Failed to list similarity searches',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { queueDocumentProcessingJob, processUploadedDocument } from '@/lib/upload-optimization'
+import { logger } from '@/lib/logger'
+import type { BusinessMetadata } from '@/types/external-apis'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
+
+type ReviewAction = 'confirm' | 'reject'
+
+function triggerCronProcessing(request: NextRequest) {
+  const cronSecret = process.env['CRON_SECRET']
+  if (!cronSecret) {
+    logger.warn('CRON_SECRET not set; skipping auto-trigger of cron job')
+    return
+  }
+
+  try {
+    const cronUrl = new URL('/api/cron/process-jobs', request.url)
+    fetch(cronUrl.toString(), {
+      method: 'GET',
+      headers: {
+        authorization: `Bearer ${cronSecret}`,
+        'user-agent': 'SubscriptionReviewAutoTrigger'
+      }
+    }).catch(error => {
+      logger.warn('Auto-triggered cron job failed', { error: error instanceof Error ? error.message : String(error) })
+    })
+  } catch (error) {
+    logger.warn('Failed to construct cron trigger URL', { error: error instanceof Error ? error.message : String(error) })
+  }
+}
+
+/**
+ * Confirm or reject the auto-detected subscription agreement span
+ *
+ * Confirming an applied proposal (or rejecting one that was not applied) only
+ * records the review. Otherwise the exclusion changes, so the document is
+ * re-queued and the embeddings are rebuilt with the new exclusion.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({})) as { action?: unknown }
+    const action = body.action
+    if (action !== 'confirm' && action !== 'reject') {
+      return NextResponse.json({ error: 'action must be "confirm" or "reject"' }, { status: 400 })
+    }
+
+    const scope = await getDocumentScope(user.id, 'edit')
+    const { data: document, error: documentError } = await supabase
+      .from('documents')
+      .select('id, user_id, filename, file_path, file_size, content_type, status, metadata')
+      .eq('id', id)
+      .or(documentScopeFilter(scope))
+      .single()
+
+    if (documentError) {
+      if (documentError.code === 'PGRST116') {
+        return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+      }
+      logger.error('Failed to fetch document for subscription review', documentError as Error, { documentId: id })
+      return NextResponse.json({ error: 'Failed to fetch document' }, { status: 500 })
+    }
+
+    const metadata = { ...(document.metadata ?? {}) } as BusinessMetadata
+    const proposal = metadata.subscription_agreement_detection
+
+    if (!proposal) {
+      return NextResponse.json({ error: 'No subscription agreement proposal to review' }, { status: 400 })
+    }
+
+    if (document.status !== 'completed') {
+      return NextResponse.json({ error: 'Document must finish processing before review' }, { status: 409 })
+    }
+
+    const reviewAction = action as ReviewAction
+    const reviewedAt = new Date().toISOString()
+
+    metadata.subscription_agreement_detection = {
+      ...proposal,
+      status: reviewAction === 'confirm' ? 'confirmed' : 'rejected',
+      reviewed_at: reviewedAt
+    }
+
+    // The current exclusion already matches the decision; nothing to rebuild
+    const requiresReprocessing = reviewAction === 'confirm' ? !proposal.applied : proposal.applied
+
+    if (reviewAction === 'confirm' && requiresReprocessing) {
+      // Hand the span back to the detector instead of typing it in, so the exclusion stays marked auto-detected
+      metadata.subscription_agreement_skipped = false
+      metadata.subscription_agreement_auto_detect = true
+      delete metadata.subscription_agreement_start_page
+      delete metadata.subscription_agreement_end_page
+    }
+
+    if (!requiresReprocessing) {
+      const { error: updateError } = await supabase
+        .from('documents')
+        .update({ metadata, updated_at: reviewedAt })
+        .eq('id', id)
+        .or(documentScopeFilter(scope))
+
+      if (updateError) {
+        logger.error('Failed to record subscription agreement review', updateError as Error, { documentId: id })
+        return NextResponse.json({ error: 'Failed to update document' }, { status: 500 })
+      }
+
+      return NextResponse.json({
+        message: 'Subscription agreement review recorded',
+        reprocessing: false,
+        metadata
+      })
+    }
+
+    const filePath = typeof document.file_path === 'string' ? document.file_path : null
+    if (!filePath) {
+      return NextResponse.json({ error: 'Document file path is missing' }, { status: 500 })
+    }
+
+    const serviceClient = await createServiceClient()
+    try {
+      const { data: activeJobs, error: activeJobsError } = await serviceClient
+        .from('document_jobs')
+        .select('id')
+        .eq('document_id', id)
+        .in('status', ['queued', 'processing'])
+
+      if (activeJobsError) {
+        logger.error('Failed to inspect existing jobs for subscription review', activeJobsError as Error, { documentId: id })
+        return NextResponse.json({ error: 'Failed to prepare document reprocessing' }, { status: 500 })
+      }
+
+      if (activeJobs && activeJobs.length > 0) {
+        return NextResponse.json({ error: 'Document is already queued for processing' }, { status: 409 })
+      }
+
+      const { error: updateError } = await serviceClient
+        .from('documents')
+        .update({
+          status: 'queued',
+          processing_error: null,
+          metadata,
+          updated_at: reviewedAt
+        })
+        .eq('id', id)
+
+      if (updateError) {
+        logger.error('Failed to update document before reprocessing', updateError as Error, { documentId: id })
+        return NextResponse.json({ error: 'Failed to prepare document reprocessing' }, { status: 500 })
+      }
+
+      const { error: statusInsertError } = await serviceClient
+        .from('processing_status')
+        .insert({
+          document_id: id,
+          status: 'queued',
+          progress: 10,
+          message: 'Subscription agreement exclusion changed. Document re-queued for processing.'
+        })
+
+      if (statusInsertError) {
+        logger.warn('Failed to log processing status for subscription review', { documentId: id, error: statusInsertError })
+      }
+    } finally {
+      releaseServiceClient(serviceClient)
+    }
+
+    const task = {
+      documentId: id,
+      userId: document.user_id,
+      filename: typeof document.filename === 'string' ? document.filename : `${id}.pdf`,
+      fileSize: typeof document.file_size === 'number' ? document.file_size : 0,
+      filePath,
+      contentType: typeof document.content_type === 'string' ? document.content_type : 'application/pdf',
+      metadata: metadata as Record<string, unknown>
+    }
+
+    const { jobId, sizeAnalysis } = await queueDocumentProcessingJob(task)
+
+    if (jobId) {
+      triggerCronProcessing(request)
+    } else {
+      processUploadedDocument({ ...task, sizeAnalysis }).catch(error => {
+        logger.error('Background reprocessing after subscription review failed', error as Error, { documentId: id })
+      })
+    }
+
+    logger.info('Subscription agreement review triggered reprocessing', {
+      documentId: id,
+      action: reviewAction,
+      startPage: proposal.start_page,
+      endPage: proposal.end_page
+    })
+
+    return NextResponse.json({
+      message: 'Subscription agreement review recorded; document re-queued for processing',
+      reprocessing: true,
+      jobId,
+      metadata
+    })
+
+  } catch (error) {
+    logger.error('Subscription agreement review error', error as Error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Table Diff API
+ * Cell-level comparison of the matched table pairs behind a similarity
+ * result (SimilarityResult.matchedTables)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { compareTables } from '@/lib/similarity/core/table-comparison'
+import type { TableComparison } from '@/lib/similarity/types'
+import { fetchDocumentTables, type StoredDocumentTable } from '@/lib/document-tables'
+import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
+
+const MAX_TABLE_PAIRS = 20
+
+interface TablePairInput {
+  sourceTableIndex: number
+  targetTableIndex: number
+  score?: number
+}
+
+function isTableIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+function sanitizeTablePairs(input: unknown): TablePairInput[] | null {
+  if (!Array.isArray(input)) {
+    return null
+  }
+
+  const pairs: TablePairInput[] = []
+  for (const entry of input) {
+    if (!entry || typeof entry !== 'object') {
+      return null
+    }
+    const raw = entry as Record<string, unknown>
+    if (!isTableIndex(raw.sourceTableIndex) || !isTableIndex(raw.targetTableIndex)) {
+      return null
+    }
+    pairs.push({
+      sourceTableIndex: raw.sourceTableIndex,
+      targetTableIndex: raw.targetTableIndex,
+      score: typeof raw.score === 'number' && Number.isFinite(raw.score) ? raw.score : undefined
+    })
+  }
+
+  return pairs
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({})) as {
+      targetDocumentId?: unknown
+      tablePairs?: unknown
+    }
+
+    const targetDocumentId = typeof body.targetDocumentId === 'string' ? body.targetDocumentId : null
+    if (!targetDocumentId) {
+      return NextResponse.json({ error: 'targetDocumentId is required' }, { status: 400 })
+    }
+
+    const tablePairs = sanitizeTablePairs(body.tablePairs)
+    if (!tablePairs || tablePairs.length === 0) {
+      return NextResponse.json({
+        error: 'tablePairs must be a non-empty array of { sourceTableIndex, targetTableIndex }'
+      }, { status: 400 })
+    }
+
+    if (tablePairs.length > MAX_TABLE_PAIRS) {
+      return NextResponse.json({
+        error: `Too many table pairs (max ${MAX_TABLE_PAIRS} per request)`
+      }, { status: 400 })
+    }
+
+    const scope = await getDocumentScope(user.id)
+
+    // Verify both documents exist and are in the user's libraries
+    const { data: documents, error: docError } = await supabase
+      .from('documents')
+      .select('id, title')
+      .in('id', [id, targetDocumentId])
+      .or(documentScopeFilter(scope))
+      .returns<Array<{ id: string; title: string }>>()
+
+    if (docError) {
+      logger.error('Table diff: failed to verify documents', docError, { documentId: id, targetDocumentId })
+      return NextResponse.json({ error: 'Failed to fetch documents' }, { status: 500 })
+    }
+
+    const sourceDocument = documents?.find(doc => doc.id === id)
+    const targetDocument = documents?.find(doc => doc.id === targetDocumentId)
+    if (!sourceDocument || !targetDocument) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const byIndex = (tables: StoredDocumentTable[]) => new Map(tables.map(table => [table.table_index, table]))
+    const [sourceTables, targetTables] = await Promise.all([
+      fetchDocumentTables(id, Array.from(new Set(tablePairs.map(pair => pair.sourceTableIndex)))).then(byIndex),
+      fetchDocumentTables(targetDocumentId, Array.from(new Set(tablePairs.map(pair => pair.targetTableIndex)))).then(byIndex)
+    ])
+
+    const tables: TableComparison[] = []
+    let missingTables = 0
+    for (const pair of tablePairs) {
+      const sourceTable = sourceTables.get(pair.sourceTableIndex)
+      const targetTable = targetTables.get(pair.targetTableIndex)
+      if (!sourceTable || !targetTable) {
+        missingTables++
+        continue
+      }
+
+      const comparison = compareTables(
+        { headerRows: sourceTable.header_rows, bodyRows: sourceTable.body_rows },
+        { headerRows: targetTable.header_rows, bodyRows: targetTable.body_rows }
+      )
+
+      tables.push({
+        sourceTableIndex: pair.sourceTableIndex,
+        targetTableIndex: pair.targetTableIndex,
+        sourcePageNumber: sourceTable.page_number,
+        targetPageNumber: targetTable.page_number,
+        score: pair.score ?? 0,
+        ...comparison
+      })
+    }
+
+    if (missingTables > 0) {
+      logger.warn('Table diff: some table pairs reference missing tables (document reprocessed?)', {
+        documentId: id,
+        targetDocumentId,
+        missingTables
+      })
+    }
+
+    const changedTables = tables.filter(table => table.stats.changeRatio > 0).length
+
+    logger.info('Table diff computed', {
+      documentId: id,
+      targetDocumentId,
+      pairCount: tables.length,
+      changedTables
+    })
+
+    await activityLogger.logUserAction(user, {
+      action: 'compare',
+      resourceType: 'document',
+      resourceId: id,
+      resourceName: sourceDocument.title,
+      details: {
+        comparison: 'table_diff',
+        targetDocumentId,
+        targetTitle: targetDocument.title,
+        tableCount: tables.length
+      }
+    }, request)
+
+    return NextResponse.json({
+      source_document: sourceDocument,
+      target_document: targetDocument,
+      tables,
+      summary: {
+        total_tables: tables.length,
+        changed_tables: changedTables,
+        identical_tables: tables.length - changedTables,
+        missing_tables: missingTables
+      }
+    })
+
+  } catch (error) {
+    logger.error(
+      'Table diff request failed',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json(
+      {
+        error: 'Table diff failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { compareVersions, listVersionChain } from '@/lib/document-versions'
+import { getDocumentScope } from '@/lib/workspaces'
+import { resolveEmbeddingModel } from '@/lib/embeddings'
+import { validateUUID } from '@/lib/utils/validation-helpers'
+import { unauthorizedError, notFoundError, validationError, handleApiError } from '@/lib/utils/api-response'
+
+/**
+ * Section diff between a version and the one it replaced
+ * Returns added, removed, changed and unchanged page ranges
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return unauthorizedError()
+    }
+
+    const idValidation = validateUUID(id, 'id')
+    if (!idValidation.isValid) {
+      return validationError(idValidation.error ?? 'Invalid document id')
+    }
+
+    const scope = await getDocumentScope(user.id)
+    const versions = await listVersionChain(scope, id)
+    const current = versions?.find(version => version.id === id)
+    if (!versions || !current) {
+      return notFoundError('Document not found')
+    }
+
+    const previous = versions.find(version => version.id === current.previous_version_id)
+    if (!previous) {
+      return notFoundError('Previous version not found')
+    }
+
+    if (previous.status !== 'completed' || current.status !== 'completed') {
+      return validationError('Both versions must finish processing before they can be compared')
+    }
+
+    const previousModel = resolveEmbeddingModel(previous.embedding_model)
+    const currentModel = resolveEmbeddingModel(current.embedding_model)
+    if (previousModel !== currentModel) {
+      return validationError(
+        'Versions were embedded with different models and cannot be compared',
+        `v${previous.version_number}: ${previousModel}, v${current.version_number}: ${currentModel}`
+      )
+    }
+
+    const comparison = await compareVersions(previous.id, current.id)
+
+    return NextResponse.json({ comparison })
+  } catch (error) {
+    return handleApiError(error, 'Failed to compare document versions')
+  }
+}
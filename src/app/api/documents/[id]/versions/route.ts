@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { listVersionChain } from '@/lib/document-versions'
+import { getDocumentScope } from '@/lib/workspaces'
+import { validateUUID } from '@/lib/utils/validation-helpers'
+import { unauthorizedError, notFoundError, validationError, handleApiError } from '@/lib/utils/api-response'
+
+/**
+ * Version chain of a document, oldest first
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return unauthorizedError()
+    }
+
+    const idValidation = validateUUID(id, 'id')
+    if (!idValidation.isValid) {
+      return validationError(idValidation.error ?? 'Invalid document id')
+    }
+
+    const scope = await getDocumentScope(user.id)
+    const versions = await listVersionChain(scope, id)
+    if (!versions) {
+      return notFoundError('Document not found')
+    }
+
+    return NextResponse.json({ versions }, {
+      headers: { 'Cache-Control': 'no-cache, must-revalidate' }
+    })
+  } catch (error) {
+    return handleApiError(error, 'Failed to load document versions')
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Content Hash Lookup API
+ * Find documents the caller can see that are byte-identical to files about
+ * to be uploaded
+ *
+ * POST { hashes: string[] } (lowercase hex SHA-256)
+ * Returns { matches: { [hash]: ContentHashMatch[] } }, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CONTENT_HASH_PATTERN, findContentHashMatches, MAX_CONTENT_HASH_LOOKUP } from '@/lib/document-duplicates'
+import { getDocumentScope } from '@/lib/workspaces'
+import { logger } from '@/lib/logger'
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null) as { hashes?: unknown } | null
+    const hashes = Array.isArray(body?.hashes)
+      ? body.hashes.filter((hash): hash is string => typeof hash === 'string' && CONTENT_HASH_PATTERN.test(hash))
+      : []
+
+    if (hashes.length === 0) {
+      return NextResponse.json({ error: 'hashes must be a non-empty array of SHA-256 hex digests' }, { status: 400 })
+    }
+    if (hashes.length > MAX_CONTENT_HASH_LOOKUP) {
+      return NextResponse.json({
+        error: `Cannot check more than ${MAX_CONTENT_HASH_LOOKUP} files at once`
+      }, { status: 400 })
+    }
+
+    const scope = await getDocumentScope(user.id)
+    const matches = await findContentHashMatches(scope, hashes)
+
+    return NextResponse.json({ matches })
+  } catch (error) {
+    logger.error('Content hash lookup failed', error as Error)
+    return NextResponse.json({
+      error: 'Failed to check for duplicate documents',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -3,8 +3,13 @@ import { createClient } from '@/lib/supabase/server'
 import { PaginationUtils, DatabasePagination } from '@/lib/utils/pagination'
 import { DatabaseDocumentWithContent } from '@/types/external-apis'
 import { logger } from '@/lib/logger'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
 import type { PostgrestResponse } from '@supabase/supabase-js'
 
+// ?workspace= values besides a workspace id
+const ALL_LIBRARIES = 'all'
+const PERSONAL_LIBRARY = 'personal'
+
 export async function GET(request: NextRequest) {
   try {
     const supabase = await createClient()
@@ -21,6 +26,7 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status')
     const search = searchParams.get('search')
     const includeJobs = searchParams.get('include_jobs') === 'true'
+    const workspace = searchParams.get('workspace') || ALL_LIBRARIES
     
     // Validate pagination parameters
     const validation = PaginationUtils.validateParams(paginationParams)
@@ -31,13 +37,24 @@ export async function GET(request: NextRequest) {
       }, { status: 400 })
     }
 
-    logger.info('Documents API: fetching documents for user', { userId: user.id, statusParam: status, searchParam: search, includeJobsParam: includeJobs })
+    // Own uploads plus every workspace the user belongs to, or one of them
+    const scope = await getDocumentScope(user.id)
+    if (workspace !== ALL_LIBRARIES && workspace !== PERSONAL_LIBRARY && !scope.workspaceIds.includes(workspace)) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+    const scopeFilter = workspace === ALL_LIBRARIES
+      ? documentScopeFilter(scope)
+      : workspace === PERSONAL_LIBRARY
+        ? `and(user_id.eq.${user.id},workspace_id.is.null)`
+        : `workspace_id.eq.${workspace}`
+
+    logger.info('Documents API: fetching documents for user', { userId: user.id, workspace, statusParam: status, searchParam: search, includeJobsParam: includeJobs })
 
     // Get total count for pagination (with same filters)
     let countQuery = supabase
       .from('documents')
       .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
+      .or(scopeFilter)
     
     if (status) {
       countQuery = countQuery.eq('status', status)
@@ -51,6 +68,7 @@ export async function GET(request: NextRequest) {
     const baseSelect = `
       id,
       user_id,
+      workspace_id,
       title,
       filename,
       file_path,
@@ -61,6 +79,10 @@ export async function GET(request: NextRequest) {
       extracted_fields,
       metadata,
       page_count,
+      previous_version_id,
+      near_duplicate_of,
+      version_number,
+      is_latest_version,
       created_at,
       updated_at,
       document_content(extracted_text)
@@ -82,7 +104,7 @@ export async function GET(request: NextRequest) {
     let query = supabase
       .from('documents')
       .select(selectClause)
-      .eq('user_id', user.id)
+      .or(scopeFilter)
 
     // Apply filters
     if (status) {
@@ -138,7 +160,7 @@ export async function GET(request: NextRequest) {
       count || 0,
       paginationParams,
       (request.url || '').split('?')[0] || '/api/documents',
-      { status: status || '', search: search || '', include_jobs: includeJobs.toString() }
+      { status: status || '', search: search || '', include_jobs: includeJobs.toString(), workspace }
     )
 
     // Add query metadata and backwards compatibility
@@ -149,7 +171,7 @@ export async function GET(request: NextRequest) {
         query_time_ms: queryTime,
         cached: false,
         fresh: true,
-        filters: { status, search, include_jobs: includeJobs },
+        filters: { status, search, include_jobs: includeJobs, workspace },
         sort: {
           by: paginationParams.sortBy,
           order: paginationParams.sortOrder
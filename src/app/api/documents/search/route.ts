@@ -0,0 +1,204 @@
+/**
+ * Document Content Search API
+ * Full-text keyword search across the extracted text of the user's own and
+ * workspace documents
+ *
+ * GET ?q=capital call&page=1&limit=20
+ * - q uses websearch syntax ("quoted phrase", OR, -term)
+ * - law_firm, fund_manager, fund_admin, jurisdiction: comma-separated metadata filters
+ * - Documents are ranked by their matching chunks; each result carries the best
+ *   chunks with <mark>-highlighted snippets and page numbers
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { PaginationUtils } from '@/lib/utils/pagination'
+import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
+import type { DocumentMetadata } from '@/types'
+
+const MAX_QUERY_LENGTH = 500
+const MAX_RESULTS_PER_PAGE = 50
+const SNIPPETS_PER_DOCUMENT = 3
+
+interface ContentSearchRow {
+  document_id: string
+  document_rank: number
+  match_count: number
+  total_documents: number
+  chunk_index: number
+  page_number: number | null
+  start_page_number: number | null
+  end_page_number: number | null
+  chunk_rank: number
+  snippet: string
+}
+
+interface SearchDocumentRecord {
+  id: string
+  title: string
+  filename: string
+  page_count: number | null
+  status: string
+  metadata: DocumentMetadata | null
+  created_at: string
+}
+
+interface ContentSearchHit {
+  chunk_index: number
+  page_number: number | null
+  start_page_number: number | null
+  end_page_number: number | null
+  snippet: string
+  rank: number
+}
+
+interface ContentSearchResult {
+  document: SearchDocumentRecord
+  rank: number
+  match_count: number
+  hits: ContentSearchHit[]
+}
+
+function parseListParam(value: string | null): string[] | null {
+  const values = (value ?? '').split(',').map(item => item.trim()).filter(Boolean)
+  return values.length > 0 ? values : null
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const query = (searchParams.get('q') ?? '').trim()
+    if (!query) {
+      return NextResponse.json({ error: 'q is required' }, { status: 400 })
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json({ error: `q must be at most ${MAX_QUERY_LENGTH} characters` }, { status: 400 })
+    }
+
+    const paginationParams = PaginationUtils.parseParams(request)
+    const limit = Math.min(searchParams.has('limit') ? paginationParams.limit : 20, MAX_RESULTS_PER_PAGE)
+    const page = paginationParams.page
+    const offset = (page - 1) * limit
+
+    const scope = await getDocumentScope(user.id)
+
+    const startTime = Date.now()
+    const serviceClient = await createServiceClient()
+    try {
+      const { data, error: searchError } = await serviceClient
+        .rpc('search_document_content', {
+          p_user_id: user.id,
+          p_query: query,
+          p_limit: limit,
+          p_offset: offset,
+          p_snippets_per_document: SNIPPETS_PER_DOCUMENT,
+          p_law_firms: parseListParam(searchParams.get('law_firm')),
+          p_fund_managers: parseListParam(searchParams.get('fund_manager')),
+          p_fund_admins: parseListParam(searchParams.get('fund_admin')),
+          p_jurisdictions: parseListParam(searchParams.get('jurisdiction')),
+          p_workspace_ids: scope.workspaceIds.length > 0 ? scope.workspaceIds : null
+        })
+
+      if (searchError) {
+        logger.error('Content search failed', new Error(searchError.message), { userId: user.id })
+        return NextResponse.json({
+          error: 'Failed to search documents',
+          details: searchError.message
+        }, { status: 500 })
+      }
+
+      const rows = Array.isArray(data) ? data as ContentSearchRow[] : []
+      const total = rows[0]?.total_documents ?? 0
+      const documentIds = Array.from(new Set(rows.map(row => row.document_id)))
+
+      let documents: SearchDocumentRecord[] = []
+      if (documentIds.length > 0) {
+        const { data: documentRows, error: documentsError } = await serviceClient
+          .from('documents')
+          .select('id, title, filename, page_count, status, metadata, created_at')
+          .or(documentScopeFilter(scope))
+          .in('id', documentIds)
+          .returns<SearchDocumentRecord[]>()
+
+        if (documentsError) {
+          logger.error('Content search: failed to load documents', new Error(documentsError.message), { userId: user.id })
+          return NextResponse.json({
+            error: 'Failed to search documents',
+            details: documentsError.message
+          }, { status: 500 })
+        }
+
+        documents = documentRows ?? []
+      }
+
+      const documentsById = new Map(documents.map(document => [document.id, document]))
+      const resultsById = new Map<string, ContentSearchResult>()
+
+      // Rows arrive ordered by document rank, then chunk rank
+      for (const row of rows) {
+        const document = documentsById.get(row.document_id)
+        if (!document) continue
+
+        let result = resultsById.get(row.document_id)
+        if (!result) {
+          result = {
+            document,
+            rank: row.document_rank,
+            match_count: row.match_count,
+            hits: []
+          }
+          resultsById.set(row.document_id, result)
+        }
+
+        result.hits.push({
+          chunk_index: row.chunk_index,
+          page_number: row.page_number,
+          start_page_number: row.start_page_number,
+          end_page_number: row.end_page_number,
+          snippet: row.snippet,
+          rank: row.chunk_rank
+        })
+      }
+
+      const results = Array.from(resultsById.values())
+
+      logger.info('Content search completed', {
+        userId: user.id,
+        queryLength: query.length,
+        page,
+        resultCount: results.length,
+        totalDocuments: total,
+        durationMs: Date.now() - startTime
+      })
+
+      await activityLogger.logUserAction(user, {
+        action: 'search',
+        resourceType: 'search',
+        resourceName: query,
+        details: { mode: 'content', page, resultsCount: results.length, totalDocuments: total }
+      }, request)
+
+      return NextResponse.json({
+        query,
+        results,
+        pagination: PaginationUtils.createMetadata(page, limit, total)
+      })
+    } finally {
+      releaseServiceClient(serviceClient)
+    }
+
+  } catch (error) {
+    logger.error('Content search error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -6,7 +6,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { executeSimilaritySearch, validateDocumentForSimilarity } from '@/lib/similarity/orchestrator'
+import { saveSimilaritySearchRun } from '@/lib/similarity/search-history'
+import { shapeSelectedResults, type SelectedTargetDocument } from '@/lib/similarity/result-shaping'
+import { dispatchSimilarityJob, queueSimilarityJob } from '@/lib/similarity/similarity-jobs'
 import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
 
 const parsePositiveInteger = (value: string | undefined): number | undefined => {
   if (!value) return undefined
@@ -16,33 +21,6 @@ const parsePositiveInteger = (value: string | undefined): number | undefined =>
 
 const STAGE2_WORKERS_FALLBACK = parsePositiveInteger(process.env['SIMILARITY_STAGE2_WORKERS'])
 
-interface SimilarityResult {
-  document: {
-    id: string
-    title: string
-    filename: string
-    file_size: number
-    file_path: string
-    content_type: string
-    user_id: string
-    status: string
-    page_count?: number
-    created_at: string
-    updated_at: string
-    metadata?: Record<string, unknown>
-    total_characters?: number
-  }
-  score: number
-  scores: {
-    sourceScore: number
-    targetScore: number
-    matchedSourceCharacters: number
-    matchedTargetCharacters: number
-    lengthRatio: number | null
-  }
-  matching_chunks: Array<{ text: string; score: number }>
-}
-
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient()
@@ -55,9 +33,10 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json()
-    const { sourceDocumentId, targetDocumentIds } = body as {
+    const { sourceDocumentId, targetDocumentIds, async: runAsync = false } = body as {
       sourceDocumentId?: string
       targetDocumentIds?: string[]
+      async?: boolean
     }
 
     if (!sourceDocumentId || !targetDocumentIds || targetDocumentIds.length === 0) {
@@ -72,12 +51,13 @@ export async function POST(request: NextRequest) {
       userId: user.id
     })
 
-    // Verify source document exists and belongs to user
+    // Verify source document exists and is in one of the user's libraries
+    const scope = await getDocumentScope(user.id)
     const { data: sourceDocument, error: sourceError } = await supabase
       .from('documents')
       .select('id, title, status, centroid_embedding, effective_chunk_count, total_characters')
       .eq('id', sourceDocumentId)
-      .eq('user_id', user.id)
+      .or(documentScopeFilter(scope))
       .single()
 
     if (sourceError || !sourceDocument) {
@@ -107,12 +87,12 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Verify all target documents exist and belong to user
+    // Verify all target documents exist and are in the user's libraries
     const { data: targetDocuments, error: targetError } = await supabase
       .from('documents')
-      .select('id, title, filename, file_size, file_path, content_type, status, page_count, created_at, updated_at, metadata, total_characters')
+      .select('id, user_id, title, filename, file_size, file_path, content_type, status, page_count, created_at, updated_at, metadata, total_characters')
       .in('id', targetDocumentIds)
-      .eq('user_id', user.id)
+      .or(documentScopeFilter(scope))
 
     if (targetError) {
       return NextResponse.json({
@@ -127,8 +107,7 @@ export async function POST(request: NextRequest) {
       }, { status: 404 })
     }
 
-    // Execute similarity search with filter for only target documents
-    const searchResult = await executeSimilaritySearch(sourceDocumentId, {
+    const searchOptions = {
       stage0_topK: 600,
       stage0_filters: {
         // Filter to only search within target documents
@@ -138,7 +117,54 @@ export async function POST(request: NextRequest) {
       stage1_enabled: true,
       stage2_fallbackThreshold: 0.8,
       stage2_parallelWorkers: STAGE2_WORKERS_FALLBACK
-    })
+    }
+
+    const runOptions = {
+      target_document_ids: targetDocumentIds,
+      stage0_topK: searchOptions.stage0_topK,
+      stage1_topK: searchOptions.stage1_topK,
+      stage1_enabled: searchOptions.stage1_enabled,
+      stage2_fallbackThreshold: searchOptions.stage2_fallbackThreshold,
+      stage2_parallelWorkers: searchOptions.stage2_parallelWorkers
+    }
+
+    const targetDocumentRecords = targetDocuments as SelectedTargetDocument[]
+
+    // Async mode: enqueue and let the client follow progress over SSE
+    if (runAsync) {
+      const jobId = await queueSimilarityJob({
+        userId: user.id,
+        sourceDocumentId,
+        request: {
+          searchType: 'selected',
+          searchOptions,
+          sourceTotalCharacters,
+          targetDocuments: targetDocumentRecords,
+          options: runOptions
+        }
+      })
+
+      dispatchSimilarityJob(jobId, request.url)
+
+      await activityLogger.logUserAction(user, {
+        action: 'similarity',
+        resourceType: 'document',
+        resourceId: sourceDocumentId,
+        resourceName: sourceDocument.title,
+        details: { searchType: 'selected', async: true, jobId, targetDocumentIds },
+        statusCode: 202
+      }, request)
+
+      return NextResponse.json({
+        job_id: jobId,
+        status: 'queued',
+        status_url: `/api/similarity-jobs/${jobId}`,
+        events_url: `/api/similarity-jobs/${jobId}/events`
+      }, { status: 202 })
+    }
+
+    // Execute similarity search with filter for only target documents
+    const searchResult = await executeSimilaritySearch(sourceDocumentId, searchOptions)
 
     logger.info('Selected search completed', {
       sourceDocumentId,
@@ -147,95 +173,38 @@ export async function POST(request: NextRequest) {
       timing: searchResult.timing
     })
 
-    // Format results to match expected interface
-    const formattedResults: SimilarityResult[] = searchResult.results.map(result => {
-      const targetDoc = targetDocuments.find(doc => doc.id === result.document.id)
-      const targetTotalCharactersFromResult = typeof result.document.total_characters === 'number' && Number.isFinite(result.document.total_characters)
-        ? result.document.total_characters
-        : null
-      const targetTotalCharactersFromDb = typeof targetDoc?.total_characters === 'number' && Number.isFinite(targetDoc.total_characters as number)
-        ? (targetDoc?.total_characters as number)
-        : null
-      const targetTotalCharacters = targetTotalCharactersFromResult ?? targetTotalCharactersFromDb
-
-      const lengthRatio = sourceTotalCharacters && targetTotalCharacters
-        ? (sourceTotalCharacters / targetTotalCharacters) * 100
-        : null
-
-      return {
-        document: {
-          id: result.document.id,
-          title: result.document.title,
-          filename: result.document.filename,
-          file_size: (targetDoc?.file_size as number) || 0,
-          file_path: (targetDoc?.file_path as string) || '',
-          content_type: (targetDoc?.content_type as string) || 'application/pdf',
-          user_id: user.id,
-          status: (targetDoc?.status as string) || 'completed',
-          page_count: result.document.page_count,
-          created_at: (targetDoc?.created_at as string) || new Date().toISOString(),
-          updated_at: (targetDoc?.updated_at as string) || new Date().toISOString(),
-          metadata: targetDoc?.metadata as Record<string, unknown> | undefined,
-          total_characters: targetTotalCharacters ?? undefined
-        },
-        score: result.scores.sourceScore,
-        scores: {
-          sourceScore: result.scores.sourceScore,
-          targetScore: result.scores.targetScore,
-          matchedSourceCharacters: result.scores.matchedSourceCharacters,
-          matchedTargetCharacters: result.scores.matchedTargetCharacters,
-          lengthRatio
-        },
-        matching_chunks: result.sections.map(section => ({
-          text: `Pages ${section.docB_pageRange} (${section.chunkCount} chunks, avg score: ${(section.avgScore * 100).toFixed(1)}%)`,
-          score: section.avgScore
-        })).slice(0, 5) // Limit to top 5 sections
-      }
+    // Format results to match expected interface (unmatched targets appear with zero scores)
+    const formattedResults = shapeSelectedResults(searchResult.results, {
+      userId: user.id,
+      sourceTotalCharacters,
+      targetDocuments: targetDocumentRecords,
+      includeUnmatchedTargets: true
     })
 
-    // Add any target documents with no results (below threshold)
-    const resultsDocIds = new Set(formattedResults.map(r => r.document.id))
-    const missingDocs = targetDocuments.filter(doc => !resultsDocIds.has(doc.id as string))
-
-    for (const doc of missingDocs) {
-      const missingTargetCharacters = typeof doc.total_characters === 'number' && Number.isFinite(doc.total_characters)
-        ? doc.total_characters
-        : null
-      const lengthRatio = sourceTotalCharacters && missingTargetCharacters
-        ? (sourceTotalCharacters / missingTargetCharacters) * 100
-        : null
-      formattedResults.push({
-        document: {
-          id: doc.id as string,
-          title: doc.title as string,
-          filename: doc.filename as string,
-          file_size: doc.file_size as number,
-          file_path: doc.file_path as string,
-          content_type: doc.content_type as string,
-          user_id: user.id,
-          status: doc.status as string,
-          page_count: doc.page_count as number | undefined,
-          created_at: doc.created_at as string,
-          updated_at: doc.updated_at as string,
-          metadata: doc.metadata as Record<string, unknown> | undefined,
-          total_characters: missingTargetCharacters ?? undefined
-        },
-        score: 0,
-        scores: {
-          sourceScore: 0,
-          targetScore: 0,
-          matchedSourceCharacters: 0,
-          matchedTargetCharacters: 0,
-          lengthRatio
-        },
-        matching_chunks: []
-      })
-    }
-
-    // Sort by score descending
-    formattedResults.sort((a, b) => b.score - a.score)
+    // Persist the run so it can be reopened from "Recent searches"
+    const searchId = await saveSimilaritySearchRun({
+      userId: user.id,
+      sourceDocumentId,
+      searchType: 'selected',
+      targetDocumentIds: targetDocumentRecords.map(doc => doc.id),
+      options: runOptions,
+      timing: searchResult.timing,
+      stages: searchResult.stages,
+      results: formattedResults
+    })
 
-    return NextResponse.json(formattedResults)
+    await activityLogger.logUserAction(user, {
+      action: 'similarity',
+      resourceType: 'document',
+      resourceId: sourceDocumentId,
+      resourceName: sourceDocument.title,
+      details: { searchType: 'selected', searchId, resultsCount: formattedResults.length, targetDocumentIds }
+    }, request)
+
+    // Response body stays a plain array for existing clients; the run id travels in a header
+    return NextResponse.json(formattedResults, {
+      headers: searchId ? { 'X-Similarity-Search-Id': searchId } : undefined
+    })
 
   } catch (error) {
     logger.error(
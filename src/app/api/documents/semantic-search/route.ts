@@ -0,0 +1,110 @@
+/**
+ * Semantic Query Search API
+ * Natural-language search for passages across the user's library
+ *
+ * POST { query, filters?, limit?, min_score? }
+ * - filters accepts law_firm, fund_manager, fund_admin and jurisdiction as a
+ *   value or list of values, like similar-v2
+ * - Results are grouped by document with the best passages and their pages
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { SEMANTIC_FILTER_KEYS, semanticQuerySearch, type SemanticSearchFilters } from '@/lib/semantic-search'
+import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
+import { getDocumentScope } from '@/lib/workspaces'
+
+const MAX_QUERY_LENGTH = 1000
+const MAX_DOCUMENT_LIMIT = 50
+
+function parseFilters(rawFilters: unknown): SemanticSearchFilters {
+  if (!rawFilters || typeof rawFilters !== 'object') {
+    return {}
+  }
+
+  const raw = rawFilters as Record<string, unknown>
+  const filters: SemanticSearchFilters = {}
+
+  for (const key of SEMANTIC_FILTER_KEYS) {
+    const value = raw[key]
+    const values = (Array.isArray(value) ? value : [value])
+      .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+      .map(item => item.trim())
+
+    if (values.length > 0) {
+      filters[key] = values
+    }
+  }
+
+  return filters
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const {
+      query: rawQuery,
+      filters: rawFilters,
+      limit,
+      min_score: minScore
+    }: {
+      query?: unknown
+      filters?: unknown
+      limit?: unknown
+      min_score?: unknown
+    } = body
+
+    const query = typeof rawQuery === 'string' ? rawQuery.trim() : ''
+    if (!query) {
+      return NextResponse.json({ error: 'query is required' }, { status: 400 })
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json({ error: `query must be at most ${MAX_QUERY_LENGTH} characters` }, { status: 400 })
+    }
+
+    const filters = parseFilters(rawFilters)
+    const documentLimit = typeof limit === 'number' && Number.isFinite(limit) && limit > 0
+      ? Math.min(MAX_DOCUMENT_LIMIT, Math.floor(limit))
+      : undefined
+    const normalizedMinScore = typeof minScore === 'number' && Number.isFinite(minScore)
+      ? Math.min(1, Math.max(0, minScore))
+      : undefined
+
+    const scope = await getDocumentScope(user.id)
+    const { results, totalPassages } = await semanticQuerySearch(scope, query, {
+      filters,
+      ...(documentLimit !== undefined ? { limit: documentLimit } : {}),
+      ...(normalizedMinScore !== undefined ? { minScore: normalizedMinScore } : {})
+    })
+
+    await activityLogger.logUserAction(user, {
+      action: 'search',
+      resourceType: 'search',
+      resourceName: query,
+      details: { mode: 'semantic', filters, resultsCount: results.length }
+    }, request)
+
+    return NextResponse.json({
+      query,
+      filters,
+      results,
+      total_passages: totalPassages
+    })
+
+  } catch (error) {
+    logger.error('Semantic query search error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to run semantic search',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
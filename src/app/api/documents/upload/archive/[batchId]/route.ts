@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getUploadBatch } from '@/lib/archive-ingestion'
+import { validateUUID } from '@/lib/utils/validation-helpers'
+import { unauthorizedError, notFoundError, validationError, handleApiError } from '@/lib/utils/api-response'
+
+/**
+ * Archive upload batch with its per-entry report and aggregate progress
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const { batchId } = await params
+
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return unauthorizedError()
+    }
+
+    const batchValidation = validateUUID(batchId, 'batchId')
+    if (!batchValidation.isValid) {
+      return validationError(batchValidation.error ?? 'Invalid batchId')
+    }
+
+    const result = await getUploadBatch(batchId, user.id)
+    if (!result) {
+      return notFoundError('Upload batch not found')
+    }
+
+    return NextResponse.json(result, {
+      headers: { 'Cache-Control': 'no-cache, must-revalidate' }
+    })
+  } catch (error) {
+    return handleApiError(error, 'Failed to load upload batch')
+  }
+}
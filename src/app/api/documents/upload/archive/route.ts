@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { throttling } from '@/lib/concurrency-limiter'
+import { inspectArchive, ingestArchive } from '@/lib/archive-ingestion'
+import { validateDocumentMetadata, validateUUID } from '@/lib/utils/validation-helpers'
+import { unauthorizedError, forbiddenError, notFoundError, validationError, handleApiError } from '@/lib/utils/api-response'
+import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
+import { canEditWorkspace, getWorkspaceRole } from '@/lib/workspaces'
+import { EXTRACTION_PROVIDERS, isExtractionProviderName } from '@/lib/extraction'
+import { MANIFEST_METADATA_KEYS } from '@/lib/upload-manifest'
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * Upload a ZIP archive of PDFs
+ * The archive is expanded here; each PDF becomes a document queued for
+ * processing, and the response carries the batch with its per-entry report.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return unauthorizedError()
+    }
+
+    return throttling.upload.run(user.id, async () => {
+      const formData = await request.formData()
+
+      const file = formData.get('file')
+      if (!(file instanceof File)) {
+        return validationError('No file provided')
+      }
+      if (!file.name.toLowerCase().endsWith('.zip')) {
+        return validationError('Invalid file type. Only .zip archives are accepted')
+      }
+
+      // Shared metadata for every document, plus optional per-file manifest values
+      let metadata: Record<string, unknown> = {}
+      let manifest: Record<string, Record<string, unknown>> = {}
+      try {
+        const metadataString = formData.get('metadata')
+        if (typeof metadataString === 'string' && metadataString) {
+          const parsed: unknown = JSON.parse(metadataString)
+          if (!isPlainObject(parsed)) {
+            throw new Error('Metadata must be an object')
+          }
+          metadata = parsed
+        }
+
+        const manifestString = formData.get('manifest')
+        if (typeof manifestString === 'string' && manifestString) {
+          const parsed: unknown = JSON.parse(manifestString)
+          if (!isPlainObject(parsed) || !Object.values(parsed).every(isPlainObject)) {
+            throw new Error('Manifest must map filenames to metadata objects')
+          }
+          manifest = parsed as Record<string, Record<string, unknown>>
+        }
+      } catch (error) {
+        logger.error('Invalid archive metadata format', error as Error)
+        return validationError('Invalid metadata format', error instanceof Error ? error.message : undefined)
+      }
+
+      // Shared values and manifest entries get the same value checks; manifest
+      // entries may only set the business fields a manifest column maps to
+      const metadataValidation = validateDocumentMetadata(metadata)
+      if (!metadataValidation.isValid) {
+        return validationError(metadataValidation.error ?? 'Invalid metadata')
+      }
+      for (const [key, entryMetadata] of Object.entries(manifest)) {
+        const unknownField = Object.keys(entryMetadata)
+          .find(field => !(MANIFEST_METADATA_KEYS as readonly string[]).includes(field))
+        if (unknownField) {
+          return validationError(`Invalid manifest metadata for ${key}`, `Unsupported field: ${unknownField}`)
+        }
+
+        const entryValidation = validateDocumentMetadata(entryMetadata)
+        if (!entryValidation.isValid) {
+          return validationError(`Invalid manifest metadata for ${key}`, entryValidation.error)
+        }
+      }
+
+      // Optional target workspace; personal library otherwise
+      const workspaceField = formData.get('workspaceId')
+      const workspaceId = typeof workspaceField === 'string' && workspaceField ? workspaceField : null
+      if (workspaceId) {
+        const workspaceValidation = validateUUID(workspaceId, 'workspaceId')
+        if (!workspaceValidation.isValid) {
+          return validationError(workspaceValidation.error ?? 'Invalid workspaceId')
+        }
+
+        const workspaceRole = await getWorkspaceRole(workspaceId, user.id)
+        if (!workspaceRole) {
+          return notFoundError('Workspace not found')
+        }
+        if (!canEditWorkspace(workspaceRole)) {
+          return forbiddenError('Viewers cannot upload to this workspace')
+        }
+      }
+
+      // Optional text extraction backend; documents without one use EXTRACTION_PROVIDER
+      const extractionField = formData.get('extractionProvider')
+      const extractionProvider = typeof extractionField === 'string' && extractionField ? extractionField : null
+      if (extractionProvider !== null && !isExtractionProviderName(extractionProvider)) {
+        return validationError(`Invalid extractionProvider. Expected one of: ${EXTRACTION_PROVIDERS.join(', ')}`)
+      }
+
+      const bytes = new Uint8Array(await file.arrayBuffer())
+      try {
+        inspectArchive(bytes)
+      } catch (error) {
+        return validationError(error instanceof Error ? error.message : 'Invalid archive')
+      }
+
+      logger.info('Uploading archive', { filename: file.name, userEmail: user.email, fileSize: file.size })
+
+      const { batch, queuedJobs } = await ingestArchive({
+        userId: user.id,
+        workspaceId,
+        archiveName: file.name,
+        bytes,
+        metadata,
+        manifest,
+        extractionProvider
+      })
+
+      await activityLogger.logUserAction(user, {
+        action: 'upload',
+        resourceType: 'document',
+        resourceName: file.name,
+        details: {
+          operation: 'archive',
+          batchId: batch.id,
+          fileSize: file.size,
+          workspaceId,
+          queued: batch.queued_count,
+          skipped: batch.skipped_count,
+          failed: batch.failed_count
+        }
+      }, request)
+
+      if (queuedJobs > 0) {
+        queueMicrotask(() => triggerCronProcessing(request))
+      }
+
+      return NextResponse.json({
+        batch,
+        message: `Queued ${batch.queued_count} of ${batch.total_entries} archive entries for processing`
+      })
+    })
+
+  } catch (error) {
+    logger.error('Archive upload error', error as Error)
+    return handleApiError(error, 'Failed to upload archive')
+  }
+}
+
+function triggerCronProcessing(request: NextRequest) {
+  const cronSecret = process.env['CRON_SECRET']
+  if (!cronSecret) {
+    logger.warn('CRON_SECRET not set; skipping auto-trigger of cron job')
+    return
+  }
+
+  try {
+    const cronUrl = new URL('/api/cron/process-jobs', request.url)
+    fetch(cronUrl.toString(), {
+      method: 'GET',
+      headers: {
+        authorization: `Bearer ${cronSecret}`,
+        'user-agent': 'ArchiveUploadAutoTrigger'
+      }
+    }).then(response => {
+      if (!response.ok) {
+        logger.warn('Auto-triggered cron job returned non-OK response', {
+          status: response.status,
+          statusText: response.statusText
+        })
+      }
+    }).catch(error => {
+      logger.warn('Auto-triggered cron job failed', { error: error instanceof Error ? error.message : String(error) })
+    })
+  } catch (error) {
+    logger.warn('Failed to construct cron trigger URL', { error: error instanceof Error ? error.message : String(error) })
+  }
+}
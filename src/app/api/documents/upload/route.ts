@@ -2,9 +2,44 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { processUploadedDocument, queueDocumentProcessingJob } from '@/lib/upload-optimization'
 import { throttling } from '@/lib/concurrency-limiter'
-import { validateFileFromFormData } from '@/lib/utils/validation-helpers'
-import { unauthorizedError, validationError, databaseError, handleApiError } from '@/lib/utils/api-response'
+import { validateDocumentMetadata, validateFileFromFormData, validateUUID } from '@/lib/utils/validation-helpers'
+import { unauthorizedError, forbiddenError, notFoundError, validationError, databaseError, handleApiError } from '@/lib/utils/api-response'
 import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
+import { canEditWorkspace, getDocumentScope, getWorkspaceRole } from '@/lib/workspaces'
+import { computeContentHash } from '@/lib/document-duplicates'
+import { inheritVersionMetadata, markLatestVersion, newVersionFields, resolveVersionParent } from '@/lib/document-versions'
+import { EXTRACTION_PROVIDERS, isExtractionProviderName } from '@/lib/extraction'
+
+/**
+ * Upload limits for the client-side upload queue
+ * Split out of /api/health/pool, which is admin-only
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return unauthorizedError()
+    }
+
+    const { global, perUser } = throttling.upload.getMetrics()
+
+    // Unlimited limiters are reported as null (Infinity is not valid JSON)
+    return NextResponse.json({
+      limits: {
+        global: Number.isFinite(global.limit) ? global.limit : null,
+        perUser: Number.isFinite(perUser.limit) ? perUser.limit : null
+      }
+    }, {
+      headers: { 'Cache-Control': 'no-cache, must-revalidate' }
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -44,6 +79,58 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      const metadataValidation = validateDocumentMetadata(metadata)
+      if (!metadataValidation.isValid) {
+        return validationError(metadataValidation.error ?? 'Invalid metadata')
+      }
+
+      // Optional target workspace; personal library otherwise
+      const workspaceField = formData.get('workspaceId')
+      const workspaceId = typeof workspaceField === 'string' && workspaceField ? workspaceField : null
+      if (workspaceId) {
+        const workspaceValidation = validateUUID(workspaceId, 'workspaceId')
+        if (!workspaceValidation.isValid) {
+          return validationError(workspaceValidation.error ?? 'Invalid workspaceId')
+        }
+
+        const workspaceRole = await getWorkspaceRole(workspaceId, user.id)
+        if (!workspaceRole) {
+          return notFoundError('Workspace not found')
+        }
+        if (!canEditWorkspace(workspaceRole)) {
+          return forbiddenError('Viewers cannot upload to this workspace')
+        }
+      }
+
+      // Optional document this upload replaces. The new version joins its
+      // chain and keeps its title, library and any business metadata left blank.
+      const previousVersionField = formData.get('previousVersionId')
+      const previousVersionId = typeof previousVersionField === 'string' && previousVersionField ? previousVersionField : null
+      let versionParent: Awaited<ReturnType<typeof resolveVersionParent>> = null
+      if (previousVersionId) {
+        const previousVersionValidation = validateUUID(previousVersionId, 'previousVersionId')
+        if (!previousVersionValidation.isValid) {
+          return validationError(previousVersionValidation.error ?? 'Invalid previousVersionId')
+        }
+
+        const editScope = await getDocumentScope(user.id, 'edit')
+        versionParent = await resolveVersionParent(editScope, previousVersionId)
+        if (!versionParent) {
+          return notFoundError('Previous version not found')
+        }
+        metadata = inheritVersionMetadata(versionParent, metadata)
+      }
+      const targetWorkspaceId = versionParent ? versionParent.workspace_id : workspaceId
+
+      // Optional text extraction backend; documents without one use EXTRACTION_PROVIDER
+      const extractionField = formData.get('extractionProvider')
+      const extractionProvider = typeof extractionField === 'string' && extractionField ? extractionField : null
+      if (extractionProvider !== null && !isExtractionProviderName(extractionProvider)) {
+        return validationError(`Invalid extractionProvider. Expected one of: ${EXTRACTION_PROVIDERS.join(', ')}`)
+      }
+
+      const contentHash = computeContentHash(new Uint8Array(await file.arrayBuffer()))
+
       // Generate unique filename
       const fileExt = file.name.split('.').pop()
       const fileName = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${fileExt}`
@@ -70,7 +157,11 @@ export async function POST(request: NextRequest) {
         .from('documents')
         .insert({
           user_id: user.id,
-          title: file.name.replace(/\.[^/.]+$/, ''), // Remove file extension
+          workspace_id: targetWorkspaceId,
+          ...(versionParent ? newVersionFields(versionParent) : {}),
+          content_hash: contentHash,
+          ...(extractionProvider ? { extraction_provider: extractionProvider } : {}),
+          title: versionParent?.title ?? file.name.replace(/\.[^/.]+$/, ''), // Remove file extension
           filename: file.name,
           file_path: uploadData.path,
           file_size: file.size,
@@ -96,6 +187,10 @@ export async function POST(request: NextRequest) {
 
       logger.info('Document record created', { documentId: document.id, filename: file.name })
 
+      if (versionParent) {
+        await markLatestVersion(versionParent, document.id)
+      }
+
       const documentId = document.id
       const documentFilename = typeof document.filename === 'string' ? document.filename : file.name
       const documentFilePath = typeof document.file_path === 'string' ? document.file_path : uploadData.path
@@ -130,6 +225,19 @@ export async function POST(request: NextRequest) {
 
       const isQueued = Boolean(jobId)
 
+      await activityLogger.logUserAction(user, {
+        action: 'upload',
+        resourceType: 'document',
+        resourceId: documentId,
+        resourceName: documentFilename,
+        details: {
+          fileSize: documentFileSize,
+          jobId,
+          workspaceId: targetWorkspaceId,
+          previousVersionId: versionParent?.id ?? null
+        }
+      }, request)
+
       if (isQueued) {
         queueMicrotask(() => triggerCronProcessing(request))
       }
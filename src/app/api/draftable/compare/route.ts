@@ -7,6 +7,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { draftableClient } from '@/lib/draftable'
 import { logger } from '@/lib/logger'
+import { activityLogger } from '@/lib/activity-logger'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
 
 export async function POST(request: NextRequest) {
   try {
@@ -35,12 +37,14 @@ export async function POST(request: NextRequest) {
       targetDocId
     })
 
+    const scope = await getDocumentScope(user.id)
+
     // Fetch source document metadata
     const { data: sourceDoc, error: sourceError } = await supabase
       .from('documents')
       .select('file_path, title, content_type')
       .eq('id', sourceDocId)
-      .eq('user_id', user.id)
+      .or(documentScopeFilter(scope))
       .single()
 
     if (sourceError || !sourceDoc) {
@@ -56,7 +60,7 @@ export async function POST(request: NextRequest) {
       .from('documents')
       .select('file_path, title, content_type')
       .eq('id', targetDocId)
-      .eq('user_id', user.id)
+      .or(documentScopeFilter(scope))
       .single()
 
     if (targetError || !targetDoc) {
@@ -166,6 +170,19 @@ export async function POST(request: NextRequest) {
       userId: user.id
     })
 
+    await activityLogger.logUserAction(user, {
+      action: 'compare',
+      resourceType: 'document',
+      resourceId: sourceDocId,
+      resourceName: sourceDoc.title,
+      details: {
+        comparison: 'draftable',
+        targetDocumentId: targetDocId,
+        targetTitle: targetDoc.title,
+        comparisonId: comparison.identifier
+      }
+    }, request)
+
     // Generate signed viewer URL (valid for 1 hour)
     const validUntil = Date.now() + 1000 * 60 * 60 // 1 hour validity (timestamp in milliseconds)
     const viewerUrl = draftableClient.comparisons.signedViewerURL(
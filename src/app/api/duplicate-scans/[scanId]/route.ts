@@ -0,0 +1,206 @@
+/**
+ * Duplicate Scan Detail API
+ * Returns a scan with its duplicate families (GET) or deletes the scan and its edges (DELETE)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  DUPLICATE_SCAN_SUMMARY_COLUMNS,
+  type DuplicateClusterRecord,
+  type DuplicatePairRecord,
+  type DuplicateScanRecord
+} from '@/lib/similarity/duplicate-scans'
+import { logger } from '@/lib/logger'
+
+// Strongest shared sections shown per family
+const SECTIONS_PER_CLUSTER = 5
+
+interface ClusterMemberDocument {
+  id: string
+  title: string
+  filename: string
+  page_count: number | null
+  created_at: string
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ scanId: string }> }
+) {
+  try {
+    const { scanId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: scan, error: scanError } = await supabase
+      .from('duplicate_scans')
+      .select(`${DUPLICATE_SCAN_SUMMARY_COLUMNS}, document_ids`)
+      .eq('id', scanId)
+      .eq('user_id', user.id)
+      .maybeSingle<Omit<DuplicateScanRecord, 'user_id'>>()
+
+    if (scanError) {
+      logger.error('Failed to load duplicate scan', new Error(scanError.message), { scanId })
+      return NextResponse.json({ error: 'Failed to load duplicate scan' }, { status: 500 })
+    }
+
+    if (!scan) {
+      return NextResponse.json({ error: 'Duplicate scan not found' }, { status: 404 })
+    }
+
+    const { document_ids: documentIds, ...scanSummary } = scan
+    const summary = { ...scanSummary, total_documents: documentIds.length }
+
+    if (scan.status !== 'completed') {
+      return NextResponse.json({ scan: summary, clusters: [] })
+    }
+
+    const [clustersResult, pairsResult] = await Promise.all([
+      supabase
+        .from('duplicate_clusters')
+        .select('*')
+        .eq('scan_id', scanId)
+        .order('size', { ascending: false })
+        .order('max_score', { ascending: false })
+        .returns<DuplicateClusterRecord[]>(),
+      supabase
+        .from('duplicate_pairs')
+        .select('*')
+        .eq('scan_id', scanId)
+        .order('max_score', { ascending: false })
+        .returns<DuplicatePairRecord[]>()
+    ])
+
+    if (clustersResult.error || pairsResult.error) {
+      const message = clustersResult.error?.message ?? pairsResult.error?.message ?? 'Unknown error'
+      logger.error('Failed to load duplicate clusters', new Error(message), { scanId })
+      return NextResponse.json({ error: 'Failed to load duplicate clusters' }, { status: 500 })
+    }
+
+    const clusters = clustersResult.data ?? []
+    const pairs = pairsResult.data ?? []
+
+    const memberIds = [...new Set(clusters.flatMap(cluster => cluster.document_ids))]
+    const { data: documents } = memberIds.length > 0
+      ? await supabase
+          .from('documents')
+          .select('id, title, filename, page_count, created_at')
+          .in('id', memberIds)
+          .eq('user_id', user.id)
+          .returns<ClusterMemberDocument[]>()
+      : { data: [] as ClusterMemberDocument[] }
+
+    const documentsById = new Map((documents ?? []).map(doc => [doc.id, doc]))
+
+    const pairsByCluster = new Map<string, DuplicatePairRecord[]>()
+    for (const pair of pairs) {
+      if (!pair.cluster_id) continue
+      const clusterPairs = pairsByCluster.get(pair.cluster_id) ?? []
+      clusterPairs.push(pair)
+      pairsByCluster.set(pair.cluster_id, clusterPairs)
+    }
+
+    const families = clusters.map(cluster => {
+      const clusterPairs = pairsByCluster.get(cluster.id) ?? []
+
+      const topSections = clusterPairs
+        .flatMap(pair => (pair.sections ?? []).map(section => ({
+          document_a_id: pair.document_a_id,
+          document_b_id: pair.document_b_id,
+          ...section
+        })))
+        .sort((a, b) => b.avgScore - a.avgScore)
+        .slice(0, SECTIONS_PER_CLUSTER)
+
+      return {
+        id: cluster.id,
+        size: cluster.size,
+        edge_count: cluster.edge_count,
+        max_score: cluster.max_score,
+        avg_score: cluster.avg_score,
+        // Documents deleted since the scan drop out of their family
+        members: cluster.document_ids
+          .map(id => documentsById.get(id))
+          .filter((doc): doc is ClusterMemberDocument => doc !== undefined),
+        pairs: clusterPairs.map(pair => ({
+          document_a_id: pair.document_a_id,
+          document_b_id: pair.document_b_id,
+          document_a_score: pair.document_a_score,
+          document_b_score: pair.document_b_score,
+          max_score: pair.max_score
+        })),
+        top_sections: topSections
+      }
+    }).filter(family => family.members.length > 1)
+
+    return NextResponse.json({ scan: summary, clusters: families })
+
+  } catch (error) {
+    logger.error(
+      'Duplicate scan detail request failed',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json(
+      {
+        error: 'Failed to load duplicate scan',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ scanId: string }> }
+) {
+  try {
+    const { scanId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Deleting a running scan also stops it: the worker's next update finds no row
+    const { data, error } = await supabase
+      .from('duplicate_scans')
+      .delete()
+      .eq('id', scanId)
+      .eq('user_id', user.id)
+      .select('id')
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      logger.error('Failed to delete duplicate scan', new Error(error.message), { scanId })
+      return NextResponse.json({ error: 'Failed to delete duplicate scan' }, { status: 500 })
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Duplicate scan not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    logger.error(
+      'Duplicate scan delete failed',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json(
+      {
+        error: 'Failed to delete duplicate scan',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Duplicate Scans API
+ * Lists library-wide near-duplicate scans (GET) and starts a new one (POST)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  DEFAULT_CANDIDATES_PER_DOCUMENT,
+  DEFAULT_DUPLICATE_THRESHOLD,
+  DUPLICATE_SCAN_SUMMARY_COLUMNS,
+  createDuplicateScan,
+  dispatchDuplicateScanWorker
+} from '@/lib/similarity/duplicate-scans'
+import { logger } from '@/lib/logger'
+
+const MAX_CANDIDATES_PER_DOCUMENT = 250
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: scans, error } = await supabase
+      .from('duplicate_scans')
+      .select(DUPLICATE_SCAN_SUMMARY_COLUMNS)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(10)
+
+    if (error) {
+      logger.error('Failed to list duplicate scans', new Error(error.message))
+      return NextResponse.json({ error: 'Failed to list duplicate scans' }, { status: 500 })
+    }
+
+    return NextResponse.json({ scans: scans ?? [] })
+
+  } catch (error) {
+    logger.error(
+      'Duplicate scan list request failed',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json(
+      {
+        error: 'Failed to list duplicate scans',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const {
+      threshold = DEFAULT_DUPLICATE_THRESHOLD,
+      candidates_per_document: candidatesPerDocument = DEFAULT_CANDIDATES_PER_DOCUMENT
+    }: {
+      threshold?: number
+      candidates_per_document?: number
+    } = body
+
+    if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+      return NextResponse.json({ error: 'threshold must be a number between 0 and 1' }, { status: 400 })
+    }
+
+    if (
+      typeof candidatesPerDocument !== 'number' ||
+      !Number.isInteger(candidatesPerDocument) ||
+      candidatesPerDocument < 1 ||
+      candidatesPerDocument > MAX_CANDIDATES_PER_DOCUMENT
+    ) {
+      return NextResponse.json({
+        error: `candidates_per_document must be an integer between 1 and ${MAX_CANDIDATES_PER_DOCUMENT}`
+      }, { status: 400 })
+    }
+
+    // One active scan per user; a second one would only repeat the same work
+    const { data: activeScans } = await supabase
+      .from('duplicate_scans')
+      .select('id')
+      .eq('user_id', user.id)
+      .in('status', ['queued', 'processing'])
+      .limit(1)
+      .returns<Array<{ id: string }>>()
+
+    if (activeScans && activeScans.length > 0) {
+      return NextResponse.json({
+        error: 'A duplicate scan is already running',
+        scan_id: activeScans[0]!.id
+      }, { status: 409 })
+    }
+
+    const scan = await createDuplicateScan({
+      userId: user.id,
+      threshold,
+      candidatesPerDocument
+    })
+
+    dispatchDuplicateScanWorker(request.url)
+
+    return NextResponse.json({
+      scan_id: scan.id,
+      status: 'queued',
+      document_count: scan.documentCount
+    }, { status: 202 })
+
+  } catch (error) {
+    logger.error(
+      'Duplicate scan request failed',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json(
+      {
+        error: 'Failed to start duplicate scan',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -3,14 +3,19 @@ import { poolHealthCheck, getPoolMetrics, getPoolConfig } from '@/lib/supabase/s
 import { throttling } from '@/lib/concurrency-limiter'
 import { getPineconeCleanupMetrics } from '@/lib/pinecone-cleanup-worker'
 import { logger } from '@/lib/logger'
+import { withAdmin } from '@/lib/auth/route-auth'
 
-export async function GET(_request: NextRequest) {
+// Pool internals are operational detail; the public liveness probe is /api/health
+export const GET = withAdmin(async (_request: NextRequest) => {
   try {
     const healthCheck = await poolHealthCheck()
     const metrics = getPoolMetrics()
     const config = getPoolConfig()
     const throttlingMetrics = throttling.getMetrics()
-    const pineconeMetrics = getPineconeCleanupMetrics()
+    // The cleanup queue lives in the database; an unreadable queue must not fail the pool check
+    const pineconeMetrics = await getPineconeCleanupMetrics().catch(error => ({
+      error: error instanceof Error ? error.message : String(error)
+    }))
 
     const maxConnections = config.unlimitedMode ? Number.POSITIVE_INFINITY : config.maxConnections
     const utilization =
@@ -58,4 +63,4 @@ export async function GET(_request: NextRequest) {
       }
     }, { status: 500 })
   }
-}
+})
@@ -0,0 +1,161 @@
+/**
+ * Similarity Job Events (Server-Sent Events)
+ * Streams stage progress and live partial results for an async similarity job.
+ *
+ * Events:
+ * - progress:  { status, progress }           stage counts (Stage 0 candidates, Stage 1 pruning, Stage 2 scored/total)
+ * - partial:   { results }                    current top results while Stage 2 workers finish
+ * - completed: { result, search_id }          final payload (same shape as the synchronous route)
+ * - failed / cancelled / stream_error: { error_message }
+ *
+ * A processing job that stops receiving updates (worker timed out or crashed)
+ * is marked failed once it is older than SIMILARITY_JOB_STALE_MS, and the
+ * stream ends with that failure.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  SIMILARITY_JOB_PUBLIC_COLUMNS,
+  failStaleSimilarityJob,
+  isSimilarityJobStale,
+  type SimilarityJobRecord
+} from '@/lib/similarity/similarity-jobs'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+const POLL_INTERVAL_MS = 1000
+const HEARTBEAT_INTERVAL_MS = 15000
+// Stop streaming before the function's maxDuration; clients reconnect automatically
+const MAX_STREAM_DURATION_MS = 280000
+
+type PublicSimilarityJob = Omit<SimilarityJobRecord, 'request'>
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params
+  const supabase = await createClient()
+
+  // Check authentication
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const loadJob = async () => {
+    const { data, error } = await supabase
+      .from('similarity_jobs')
+      .select(SIMILARITY_JOB_PUBLIC_COLUMNS)
+      .eq('id', jobId)
+      .eq('user_id', user.id)
+      .maybeSingle<PublicSimilarityJob>()
+
+    if (error) {
+      throw new Error(`Failed to load similarity job: ${error.message}`)
+    }
+    return data
+  }
+
+  const initialJob = await loadJob().catch(() => null)
+  if (!initialJob) {
+    return NextResponse.json({ error: 'Similarity job not found' }, { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false
+      const close = () => {
+        if (closed) return
+        closed = true
+        try {
+          controller.close()
+        } catch {
+          // Stream already closed by the client
+        }
+      }
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      request.signal.addEventListener('abort', close)
+
+      const startedAt = Date.now()
+      let lastHeartbeatAt = startedAt
+      let lastUpdatedAt: string | null = null
+      let job: PublicSimilarityJob | null = initialJob
+
+      try {
+        while (!closed) {
+          if (!job) {
+            send('failed', { error_message: 'Similarity job no longer exists' })
+            break
+          }
+
+          if (job.updated_at !== lastUpdatedAt) {
+            lastUpdatedAt = job.updated_at
+            send('progress', { status: job.status, progress: job.progress })
+
+            if (job.partial_results) {
+              send('partial', { results: job.partial_results })
+            }
+          }
+
+          if (job.status === 'completed') {
+            send('completed', { result: job.result, search_id: job.search_id })
+            break
+          }
+          if (job.status === 'failed' || job.status === 'cancelled') {
+            send(job.status, { error_message: job.error_message })
+            break
+          }
+          // Fail the row first so the stream never reports a job the worker may still finish
+          if (isSimilarityJobStale(job) && await failStaleSimilarityJob(job)) {
+            job = await loadJob()
+            continue
+          }
+
+          if (Date.now() - startedAt >= MAX_STREAM_DURATION_MS) {
+            break
+          }
+
+          if (Date.now() - lastHeartbeatAt >= HEARTBEAT_INTERVAL_MS) {
+            lastHeartbeatAt = Date.now()
+            if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'))
+          }
+
+          await sleep(POLL_INTERVAL_MS)
+          if (closed) break
+          job = await loadJob()
+        }
+      } catch (error) {
+        logger.error(
+          'Similarity job event stream failed',
+          error instanceof Error ? error : new Error(String(error)),
+          { jobId }
+        )
+        send('stream_error', { error_message: error instanceof Error ? error.message : 'Unknown error' })
+      } finally {
+        request.signal.removeEventListener('abort', close)
+        close()
+      }
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
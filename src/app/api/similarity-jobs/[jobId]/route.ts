@@ -0,0 +1,112 @@
+/**
+ * Similarity Job API
+ * Returns the status of an async similarity job (GET) or cancels it (DELETE)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { SIMILARITY_JOB_PUBLIC_COLUMNS, type SimilarityJobRecord } from '@/lib/similarity/similarity-jobs'
+import { logger } from '@/lib/logger'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: job, error } = await supabase
+      .from('similarity_jobs')
+      .select(SIMILARITY_JOB_PUBLIC_COLUMNS)
+      .eq('id', jobId)
+      .eq('user_id', user.id)
+      .maybeSingle<Omit<SimilarityJobRecord, 'request'>>()
+
+    if (error) {
+      logger.error('Failed to load similarity job', new Error(error.message), { jobId })
+      return NextResponse.json({ error: 'Failed to load similarity job' }, { status: 500 })
+    }
+
+    if (!job) {
+      return NextResponse.json({ error: 'Similarity job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(job)
+
+  } catch (error) {
+    logger.error(
+      'Similarity job status request failed',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json(
+      {
+        error: 'Failed to load similarity job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Only queued or running jobs can be cancelled; the worker stops writing once status changes
+    const { data, error } = await supabase
+      .from('similarity_jobs')
+      .update({
+        status: 'cancelled',
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', jobId)
+      .eq('user_id', user.id)
+      .in('status', ['queued', 'processing'])
+      .select('id')
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      logger.error('Failed to cancel similarity job', new Error(error.message), { jobId })
+      return NextResponse.json({ error: 'Failed to cancel similarity job' }, { status: 500 })
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Similarity job not found or already finished' }, { status: 409 })
+    }
+
+    logger.info('Similarity job cancelled', { jobId, userId: user.id })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    logger.error(
+      'Similarity job cancel request failed',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json(
+      {
+        error: 'Failed to cancel similarity job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { logger } from '@/lib/logger'
+import { withAdmin } from '@/lib/auth/route-auth'
 
-export async function GET(request: NextRequest) {
+export const GET = withAdmin(async (request: NextRequest, _context, { user }) => {
   try {
     // Only allow in development environment for security
     if (process.env.NODE_ENV === 'production') {
@@ -10,7 +11,7 @@ export async function GET(request: NextRequest) {
       }, { status: 403 })
     }
 
-    logger.info('Manual job processing triggered via test endpoint')
+    logger.info('Manual job processing triggered via test endpoint', { userId: user.id })
 
     // Create the URL for the cron endpoint
     const baseUrl = new URL(request.url).origin
@@ -53,9 +54,7 @@ export async function GET(request: NextRequest) {
       timestamp: new Date().toISOString()
     }, { status: 500 })
   }
-}
+})
 
 // Support POST as well for convenience
-export async function POST(request: NextRequest) {
-  return GET(request)
-}
\ No newline at end of file
+export const POST = GET
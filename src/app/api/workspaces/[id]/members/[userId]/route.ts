@@ -0,0 +1,124 @@
+/**
+ * Workspace Member API
+ * PATCH  - change a member's role ({ role }), owners only
+ * DELETE - remove a member; owners can remove anyone, members can leave
+ *
+ * A workspace always keeps at least one owner.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  getWorkspaceRole,
+  isWorkspaceRole,
+  removeWorkspaceMember,
+  updateWorkspaceMemberRole,
+  WORKSPACE_ROLES
+} from '@/lib/workspaces'
+import { activityLogger } from '@/lib/activity-logger'
+import { logger } from '@/lib/logger'
+
+const LAST_OWNER_ERROR = 'A workspace must keep at least one owner'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const { id, userId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const callerRole = await getWorkspaceRole(id, user.id)
+    if (!callerRole) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+    if (callerRole !== 'owner') {
+      return NextResponse.json({ error: 'Only workspace owners can change roles' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null) as { role?: unknown } | null
+    const role = body?.role
+
+    if (!isWorkspaceRole(role)) {
+      return NextResponse.json({ error: `Role must be one of: ${WORKSPACE_ROLES.join(', ')}` }, { status: 400 })
+    }
+
+    const result = await updateWorkspaceMemberRole(id, userId, role)
+
+    if (result.outcome === 'not_found') {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+    }
+    if (result.outcome === 'last_owner') {
+      return NextResponse.json({ error: LAST_OWNER_ERROR }, { status: 409 })
+    }
+
+    await activityLogger.logUserAction(user, {
+      action: 'update',
+      resourceType: 'workspace',
+      resourceId: id,
+      details: { operation: 'change_role', memberId: userId, role }
+    }, request)
+
+    return NextResponse.json({ message: 'Role updated', userId, role })
+
+  } catch (error) {
+    logger.error('Workspace member update error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to update workspace member',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const { id, userId } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const callerRole = await getWorkspaceRole(id, user.id)
+    if (!callerRole) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+    if (callerRole !== 'owner' && userId !== user.id) {
+      return NextResponse.json({ error: 'Only workspace owners can remove other members' }, { status: 403 })
+    }
+
+    const result = await removeWorkspaceMember(id, userId)
+
+    if (result.outcome === 'not_found') {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+    }
+    if (result.outcome === 'last_owner') {
+      return NextResponse.json({ error: LAST_OWNER_ERROR }, { status: 409 })
+    }
+
+    await activityLogger.logUserAction(user, {
+      action: 'update',
+      resourceType: 'workspace',
+      resourceId: id,
+      details: { operation: userId === user.id ? 'leave' : 'remove_member', memberId: userId }
+    }, request)
+
+    return NextResponse.json({ message: 'Member removed', userId })
+
+  } catch (error) {
+    logger.error('Workspace member removal error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to remove workspace member',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
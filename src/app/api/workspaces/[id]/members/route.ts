@@ -0,0 +1,107 @@
+/**
+ * Workspace Members API
+ * GET  - list members (any member)
+ * POST - add a registered user by email ({ email, role }), owners only
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  addWorkspaceMember,
+  getWorkspaceRole,
+  isWorkspaceRole,
+  listWorkspaceMembers,
+  WORKSPACE_ROLES
+} from '@/lib/workspaces'
+import { activityLogger } from '@/lib/activity-logger'
+import { logger } from '@/lib/logger'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = await getWorkspaceRole(id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+
+    const members = await listWorkspaceMembers(id)
+
+    return NextResponse.json({ members, role })
+
+  } catch (error) {
+    logger.error('Workspace members API error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to load workspace members',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const callerRole = await getWorkspaceRole(id, user.id)
+    if (!callerRole) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+    if (callerRole !== 'owner') {
+      return NextResponse.json({ error: 'Only workspace owners can add members' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null) as { email?: unknown; role?: unknown } | null
+    const email = typeof body?.email === 'string' ? body.email.trim() : ''
+    const role = body?.role ?? 'viewer'
+
+    if (!email) {
+      return NextResponse.json({ error: 'Email is required' }, { status: 400 })
+    }
+    if (!isWorkspaceRole(role)) {
+      return NextResponse.json({ error: `Role must be one of: ${WORKSPACE_ROLES.join(', ')}` }, { status: 400 })
+    }
+
+    const result = await addWorkspaceMember(id, email, role, user.id)
+
+    if (result.outcome === 'user_not_found') {
+      return NextResponse.json({ error: 'No user with that email has signed up yet' }, { status: 404 })
+    }
+    if (result.outcome === 'already_member') {
+      return NextResponse.json({ error: 'User is already a member of this workspace' }, { status: 409 })
+    }
+
+    await activityLogger.logUserAction(user, {
+      action: 'update',
+      resourceType: 'workspace',
+      resourceId: id,
+      details: { operation: 'add_member', memberId: result.userId, role }
+    }, request)
+
+    return NextResponse.json({ message: 'Member added', userId: result.userId, role }, { status: 201 })
+
+  } catch (error) {
+    logger.error('Workspace member add error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to add workspace member',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Workspace API
+ * PATCH  - rename ({ name }), owners only
+ * DELETE - delete the workspace, owners only; its documents return to their
+ *          uploaders' personal libraries
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  deleteWorkspace,
+  getWorkspaceRole,
+  renameWorkspace,
+  WORKSPACE_NAME_MAX_LENGTH
+} from '@/lib/workspaces'
+import { activityLogger } from '@/lib/activity-logger'
+import { logger } from '@/lib/logger'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = await getWorkspaceRole(id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+    if (role !== 'owner') {
+      return NextResponse.json({ error: 'Only workspace owners can rename a workspace' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null) as { name?: unknown } | null
+    const name = typeof body?.name === 'string' ? body.name.trim() : ''
+
+    if (!name) {
+      return NextResponse.json({ error: 'Workspace name is required' }, { status: 400 })
+    }
+    if (name.length > WORKSPACE_NAME_MAX_LENGTH) {
+      return NextResponse.json({
+        error: `Workspace name must be ${WORKSPACE_NAME_MAX_LENGTH} characters or fewer`
+      }, { status: 400 })
+    }
+
+    const workspace = await renameWorkspace(id, name)
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+
+    await activityLogger.logUserAction(user, {
+      action: 'update',
+      resourceType: 'workspace',
+      resourceId: id,
+      resourceName: workspace.name,
+      details: { operation: 'rename' }
+    }, request)
+
+    return NextResponse.json({ workspace })
+
+  } catch (error) {
+    logger.error('Workspace rename error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to update workspace',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = await getWorkspaceRole(id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+    if (role !== 'owner') {
+      return NextResponse.json({ error: 'Only workspace owners can delete a workspace' }, { status: 403 })
+    }
+
+    const releasedDocuments = await deleteWorkspace(id)
+
+    await activityLogger.logUserAction(user, {
+      action: 'delete',
+      resourceType: 'workspace',
+      resourceId: id,
+      details: { releasedDocuments }
+    }, request)
+
+    return NextResponse.json({ message: 'Workspace deleted', releasedDocuments })
+
+  } catch (error) {
+    logger.error('Workspace deletion error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to delete workspace',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
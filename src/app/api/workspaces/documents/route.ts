@@ -0,0 +1,83 @@
+/**
+ * Workspace Documents API
+ * Move documents into a workspace, or back to the personal library
+ *
+ * POST { documentIds: string[], workspaceId: string | null }
+ * The caller must be an owner or editor of the target workspace.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  canEditWorkspace,
+  getWorkspaceRole,
+  MAX_MOVE_DOCUMENTS,
+  moveDocumentsToWorkspace
+} from '@/lib/workspaces'
+import { activityLogger } from '@/lib/activity-logger'
+import { logger } from '@/lib/logger'
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null) as {
+      documentIds?: unknown
+      workspaceId?: unknown
+    } | null
+
+    const documentIds = Array.isArray(body?.documentIds)
+      ? body.documentIds.filter((id): id is string => typeof id === 'string' && id.length > 0)
+      : []
+    const workspaceId = typeof body?.workspaceId === 'string' && body.workspaceId ? body.workspaceId : null
+
+    if (documentIds.length === 0) {
+      return NextResponse.json({ error: 'documentIds must be a non-empty array' }, { status: 400 })
+    }
+    if (documentIds.length > MAX_MOVE_DOCUMENTS) {
+      return NextResponse.json({
+        error: `Cannot move more than ${MAX_MOVE_DOCUMENTS} documents at once`
+      }, { status: 400 })
+    }
+
+    if (workspaceId) {
+      const role = await getWorkspaceRole(workspaceId, user.id)
+      if (!role) {
+        return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+      }
+      if (!canEditWorkspace(role)) {
+        return NextResponse.json({ error: 'Viewers cannot add documents to a workspace' }, { status: 403 })
+      }
+    }
+
+    const result = await moveDocumentsToWorkspace(user.id, documentIds, workspaceId)
+
+    await activityLogger.logUserAction(user, {
+      action: 'update',
+      resourceType: 'document',
+      details: {
+        operation: 'move',
+        workspaceId,
+        moved: result.moved.length,
+        skipped: result.skipped.length
+      }
+    }, request)
+
+    return NextResponse.json({
+      message: `Moved ${result.moved.length} document${result.moved.length === 1 ? '' : 's'}`,
+      ...result
+    })
+
+  } catch (error) {
+    logger.error('Workspace document move error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to move documents',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Workspaces API
+ * Shared document libraries the caller belongs to
+ *
+ * GET  - list workspaces with the caller's role
+ * POST - create a workspace ({ name }); the caller becomes its owner
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createWorkspace, listWorkspaces, WORKSPACE_NAME_MAX_LENGTH } from '@/lib/workspaces'
+import { activityLogger } from '@/lib/activity-logger'
+import { logger } from '@/lib/logger'
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const workspaces = await listWorkspaces(user.id)
+
+    return NextResponse.json({ workspaces })
+
+  } catch (error) {
+    logger.error('Workspaces API error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to load workspaces',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null) as { name?: unknown } | null
+    const name = typeof body?.name === 'string' ? body.name.trim() : ''
+
+    if (!name) {
+      return NextResponse.json({ error: 'Workspace name is required' }, { status: 400 })
+    }
+    if (name.length > WORKSPACE_NAME_MAX_LENGTH) {
+      return NextResponse.json({
+        error: `Workspace name must be ${WORKSPACE_NAME_MAX_LENGTH} characters or fewer`
+      }, { status: 400 })
+    }
+
+    const workspace = await createWorkspace(user.id, name)
+
+    await activityLogger.logUserAction(user, {
+      action: 'update',
+      resourceType: 'workspace',
+      resourceId: workspace.id,
+      resourceName: workspace.name,
+      details: { operation: 'create' }
+    }, request)
+
+    return NextResponse.json({ workspace }, { status: 201 })
+
+  } catch (error) {
+    logger.error('Workspace creation error', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({
+      error: 'Failed to create workspace',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
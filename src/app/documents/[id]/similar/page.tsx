@@ -15,6 +15,8 @@ import {
   JURISDICTION_OPTIONS
 } from '@/lib/metadata-constants'
 import { SourceDocumentActions } from '@/components/similarity/source-document-actions'
+import { VersionTimeline } from '@/components/similarity/version-timeline'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
 
 interface PageProps {
   params: Promise<{ id: string }>
@@ -38,12 +40,14 @@ export default async function SimilarDocumentsPage({ params }: PageProps) {
     redirect('/login')
   }
 
+  const scope = await getDocumentScope(user.id)
+
   // Fetch the source document
   const { data: document, error } = await supabase
     .from('documents')
     .select('*')
     .eq('id', id)
-    .eq('user_id', user.id)
+    .or(documentScopeFilter(scope))
     .single<AppDocument>()
 
   if (error || !document) {
@@ -148,6 +152,9 @@ export default async function SimilarDocumentsPage({ params }: PageProps) {
           </CardContent>
         </Card>
 
+        {/* Version Chain */}
+        <VersionTimeline documentId={id} />
+
         {/* Search Form and Results */}
         <SimilaritySearchForm documentId={id} sourceDocument={document} />
       </div>
@@ -0,0 +1,45 @@
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { DashboardLayout } from '@/components/dashboard/layout'
+import { DuplicateClusters } from '@/components/similarity/duplicate-clusters'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Copy } from 'lucide-react'
+
+export const dynamic = 'force-dynamic'
+
+export default async function DuplicatesPage() {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/login')
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link href="/dashboard">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <div className="h-6 border-l border-gray-300 dark:border-gray-600" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                <Copy className="h-6 w-6 text-purple-500" />
+                Near-Duplicate Families
+              </h1>
+            </div>
+          </div>
+        </div>
+
+        <DuplicateClusters />
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -23,6 +23,7 @@ import {
   JURISDICTION_OPTIONS
 } from '@/lib/metadata-constants'
 import { SourceDocumentActions } from '@/components/similarity/source-document-actions'
+import { documentScopeFilter, getDocumentScope } from '@/lib/workspaces'
 
 interface PageProps {
   searchParams: Promise<{ [key: string]: string | string[] | undefined }>
@@ -73,11 +74,12 @@ export default async function SelectedSearchPage({ searchParams }: PageProps) {
   // Fetch the source document if provided
   let sourceDocument: AppDocument | null = null
   if (sourceId) {
+    const scope = await getDocumentScope(user.id)
     const { data: document, error } = await supabase
       .from('documents')
       .select('*')
       .eq('id', sourceId)
-      .eq('user_id', user.id)
+      .or(documentScopeFilter(scope))
       .single<AppDocument>()
 
     if (!error && document?.status === 'completed') {
@@ -0,0 +1,46 @@
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { DashboardLayout } from '@/components/dashboard/layout'
+import { WorkspaceManager } from '@/components/workspaces/workspace-manager'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Users } from 'lucide-react'
+
+export const dynamic = 'force-dynamic'
+
+export default async function WorkspacesPage() {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/login')
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link href="/dashboard">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div className="h-6 border-l border-gray-300 dark:border-gray-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+              <Users className="h-6 w-6 text-blue-500" />
+              Workspaces
+            </h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Shared libraries your team can search and compare together
+            </p>
+          </div>
+        </div>
+
+        <WorkspaceManager />
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,188 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { AlertCircle, FileText, HardDrive, Loader2, RefreshCw, TriangleAlert, Users } from 'lucide-react'
+import { FailedJobsTable } from '@/components/admin/failed-jobs-table'
+import { PineconeCleanupTable } from '@/components/admin/pinecone-cleanup-table'
+import { EmbeddingMigrationPanel } from '@/components/admin/embedding-migration-panel'
+import { formatUploadDate } from '@/lib/date-utils'
+import { clientLogger } from '@/lib/client-logger'
+import type { AdminUserSummary } from '@/lib/admin-console'
+
+interface UsersResponse {
+  users: AdminUserSummary[]
+  totals: {
+    users: number
+    documents: number
+    failed_jobs: number
+    storage_bytes: number
+  }
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes'
+  const k = 1024
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.min(sizes.length - 1, Math.floor(Math.log(bytes) / Math.log(k)))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
+
+/**
+ * Admin console
+ * Per-user library footprint and the failed job queue, with requeue and
+ * purge actions on the owner's behalf, failed vector deletions, and
+ * library-wide embedding migrations.
+ */
+export function AdminConsole() {
+  const [response, setResponse] = useState<UsersResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [userFilter, setUserFilter] = useState<{ id: string; email: string } | null>(null)
+
+  const loadUsers = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/admin/users')
+      if (!res.ok) {
+        throw new Error('Failed to load users')
+      }
+
+      setResponse(await res.json() as UsersResponse)
+    } catch (loadError) {
+      clientLogger.error('Failed to load admin user summaries', loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load users')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadUsers()
+  }, [loadUsers])
+
+  const stats = response
+    ? [
+        { label: 'Users', value: response.totals.users.toLocaleString(), icon: Users },
+        { label: 'Documents', value: response.totals.documents.toLocaleString(), icon: FileText },
+        { label: 'Failed jobs', value: response.totals.failed_jobs.toLocaleString(), icon: TriangleAlert },
+        { label: 'Storage', value: formatFileSize(response.totals.storage_bytes), icon: HardDrive }
+      ]
+    : []
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Card className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="h-5 w-5 text-red-600" />
+              <p className="text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {stats.length > 0 && (
+        <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+          {stats.map(stat => {
+            const Icon = stat.icon
+            return (
+              <Card key={stat.label} className="card-enhanced">
+                <CardContent className="flex items-center gap-3 p-4">
+                  <div className="p-2 bg-blue-50 dark:bg-blue-900/40 rounded-lg" aria-hidden="true">
+                    <Icon className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</p>
+                    <p className="text-lg font-semibold text-gray-900 dark:text-white">{stat.value}</p>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      <Card className="card-enhanced">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg">Users</CardTitle>
+          <Button variant="outline" size="sm" onClick={loadUsers} disabled={isLoading}>
+            {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          {!response && isLoading && (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          )}
+          {response && (
+            <table className="w-full text-left text-sm">
+              <thead className="border-b border-gray-200 text-xs uppercase text-gray-500 dark:border-gray-700 dark:text-gray-400">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">User</th>
+                  <th className="py-2 pr-4 font-medium">Documents</th>
+                  <th className="py-2 pr-4 font-medium">In progress</th>
+                  <th className="py-2 pr-4 font-medium">Errors</th>
+                  <th className="py-2 pr-4 font-medium">Failed jobs</th>
+                  <th className="py-2 pr-4 font-medium">Storage</th>
+                  <th className="py-2 font-medium">Last upload</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                {response.users.map(user => (
+                  <tr key={user.user_id} className="text-gray-700 dark:text-gray-300">
+                    <td className="py-2 pr-4">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate">{user.email}</span>
+                        {user.role === 'admin' && <Badge variant="secondary">Admin</Badge>}
+                      </div>
+                      {user.full_name && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{user.full_name}</p>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{user.document_count}</td>
+                    <td className="py-2 pr-4">{user.in_progress_count}</td>
+                    <td className="py-2 pr-4">{user.error_count}</td>
+                    <td className="py-2 pr-4">
+                      {user.failed_job_count > 0 ? (
+                        <button
+                          type="button"
+                          className="text-blue-600 hover:underline dark:text-blue-400"
+                          onClick={() => setUserFilter({ id: user.user_id, email: user.email })}
+                        >
+                          {user.failed_job_count}
+                        </button>
+                      ) : (
+                        0
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap py-2 pr-4">{formatFileSize(user.storage_bytes)}</td>
+                    <td className="whitespace-nowrap py-2 text-xs">
+                      {user.last_upload_at ? formatUploadDate(user.last_upload_at) : 'Never'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <FailedJobsTable
+        userFilter={userFilter}
+        onClearUserFilter={() => setUserFilter(null)}
+        onChanged={loadUsers}
+      />
+
+      <PineconeCleanupTable />
+
+      <EmbeddingMigrationPanel />
+    </div>
+  )
+}
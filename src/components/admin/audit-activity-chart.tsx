@@ -0,0 +1,52 @@
+'use client'
+
+import type { DailyActivityCount } from '@/lib/activity-logger'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface AuditActivityChartProps {
+  daily: DailyActivityCount[]
+  from: string
+  to: string
+}
+
+/**
+ * Actions per day across the selected range
+ * Days without activity are drawn as empty columns so gaps stay visible.
+ */
+export function AuditActivityChart({ daily, from, to }: AuditActivityChartProps) {
+  const totals = new Map<string, number>()
+  for (const row of daily) {
+    totals.set(row.day, (totals.get(row.day) ?? 0) + row.action_count)
+  }
+
+  const days: Array<{ day: string; count: number }> = []
+  const end = new Date(`${to}T00:00:00.000Z`).getTime()
+  for (let time = new Date(`${from}T00:00:00.000Z`).getTime(); time <= end; time += DAY_MS) {
+    const day = new Date(time).toISOString().slice(0, 10)
+    days.push({ day, count: totals.get(day) ?? 0 })
+  }
+
+  const peak = Math.max(0, ...days.map(entry => entry.count))
+  const max = Math.max(1, peak)
+
+  return (
+    <div className="space-y-1">
+      <div className="flex h-32 items-end gap-px" role="img" aria-label={`Actions per day from ${from} to ${to}`}>
+        {days.map(entry => (
+          <div
+            key={entry.day}
+            className="flex-1 rounded-t-sm bg-blue-500/80 hover:bg-blue-600 dark:bg-blue-400/70"
+            style={{ height: `${(entry.count / max) * 100}%`, minHeight: entry.count > 0 ? '2px' : '0' }}
+            title={`${entry.day}: ${entry.count} ${entry.count === 1 ? 'action' : 'actions'}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+        <span>{from}</span>
+        <span>Peak {peak} / day</span>
+        <span>{to}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,342 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertCircle, ChevronLeft, ChevronRight, FileDown, Loader2, Search } from 'lucide-react'
+import { AuditActivityChart } from '@/components/admin/audit-activity-chart'
+import { clientLogger } from '@/lib/client-logger'
+import type { ActivityAction, AuditLogRecord, DailyActivityCount } from '@/lib/activity-logger'
+
+const ENTRIES_PER_PAGE = 50
+const ALL_ACTIONS = 'all'
+
+const ACTION_LABELS: Record<ActivityAction, string> = {
+  upload: 'Upload',
+  delete: 'Delete',
+  search: 'Search',
+  download: 'Download',
+  view: 'View',
+  update: 'Update',
+  similarity: 'Similarity search',
+  compare: 'Comparison',
+  export: 'Export',
+  retry: 'Retry',
+  cancel: 'Cancel',
+  batch_delete: 'Batch delete',
+  login: 'Login',
+  logout: 'Logout',
+  error: 'Error'
+}
+
+interface AuditFilters {
+  user: string
+  action: string
+  from: string
+  to: string
+}
+
+interface AuditResponse {
+  entries: AuditLogRecord[]
+  daily: DailyActivityCount[]
+  range: { from: string; to: string }
+  pagination: { page: number; total: number; totalPages: number }
+}
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+const defaultFilters = (): AuditFilters => ({
+  user: '',
+  action: ALL_ACTIONS,
+  from: daysAgo(29),
+  to: daysAgo(0)
+})
+
+const actionLabel = (action: string) => ACTION_LABELS[action as ActivityAction] ?? action
+
+function buildParams(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.user.trim()) params.set('user', filters.user.trim())
+  if (filters.action !== ALL_ACTIONS) params.set('action', filters.action)
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  return params
+}
+
+/**
+ * Admin audit view
+ * Filters the activity log by user, action and date, charts actions per day
+ * and exports the filtered log as CSV.
+ */
+export function AuditLog() {
+  const [draftFilters, setDraftFilters] = useState<AuditFilters>(defaultFilters)
+  const [filters, setFilters] = useState<AuditFilters>(draftFilters)
+  const [page, setPage] = useState(1)
+  const [response, setResponse] = useState<AuditResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    const loadAuditLog = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const params = buildParams(filters)
+        params.set('page', String(page))
+        params.set('limit', String(ENTRIES_PER_PAGE))
+
+        const res = await fetch(`/api/admin/audit?${params.toString()}`, { signal: controller.signal })
+        if (!res.ok) {
+          const body = await res.json().catch(() => null) as { error?: string } | null
+          throw new Error(body?.error ?? 'Failed to load audit log')
+        }
+
+        setResponse(await res.json() as AuditResponse)
+      } catch (loadError) {
+        if (controller.signal.aborted) return
+        clientLogger.error('Failed to load audit log', loadError)
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load audit log')
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false)
+      }
+    }
+
+    loadAuditLog()
+    return () => controller.abort()
+  }, [filters, page])
+
+  const applyFilters = () => {
+    setPage(1)
+    setFilters(draftFilters)
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      const params = buildParams(filters)
+      params.set('format', 'csv')
+
+      const res = await fetch(`/api/admin/audit?${params.toString()}`)
+      if (!res.ok) {
+        throw new Error('Failed to export audit log')
+      }
+
+      const disposition = res.headers.get('Content-Disposition') ?? ''
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? 'audit-log.csv'
+
+      const blob = await res.blob()
+      const url = window.URL.createObjectURL(blob)
+      const link = window.document.createElement('a')
+      link.href = url
+      link.download = filename
+      window.document.body.appendChild(link)
+      link.click()
+      window.document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+    } catch (exportError) {
+      clientLogger.error('Failed to export audit log', exportError)
+      alert('Failed to export the audit log. Please try again.')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const actionTotals = new Map<string, number>()
+  for (const row of response?.daily ?? []) {
+    actionTotals.set(row.action_type, (actionTotals.get(row.action_type) ?? 0) + row.action_count)
+  }
+  const sortedActionTotals = Array.from(actionTotals.entries()).sort((a, b) => b[1] - a[1])
+
+  return (
+    <div className="space-y-6">
+      <Card className="card-enhanced">
+        <CardContent className="pt-6">
+          <form
+            className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-5 lg:items-end"
+            onSubmit={(e) => {
+              e.preventDefault()
+              applyFilters()
+            }}
+          >
+            <div className="space-y-1 lg:col-span-2">
+              <Label htmlFor="audit-user" className="text-xs">User</Label>
+              <Input
+                id="audit-user"
+                value={draftFilters.user}
+                onChange={(e) => setDraftFilters(prev => ({ ...prev, user: e.target.value }))}
+                placeholder="Email or user id"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Action</Label>
+              <Select
+                value={draftFilters.action}
+                onValueChange={(value) => setDraftFilters(prev => ({ ...prev, action: value }))}
+              >
+                <SelectTrigger aria-label="Action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+                  {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-from" className="text-xs">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={draftFilters.from}
+                max={draftFilters.to || undefined}
+                onChange={(e) => setDraftFilters(prev => ({ ...prev, from: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-to" className="text-xs">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={draftFilters.to}
+                min={draftFilters.from || undefined}
+                onChange={(e) => setDraftFilters(prev => ({ ...prev, to: e.target.value }))}
+              />
+            </div>
+            <div className="flex justify-end gap-2 sm:col-span-2 lg:col-span-5">
+              <Button type="button" variant="outline" onClick={handleExport} disabled={isExporting || !response}>
+                {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+                Export CSV
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                <Search className="h-4 w-4 mr-2" />
+                Apply
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="h-5 w-5 text-red-600" />
+              <p className="text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!response && isLoading && (
+        <div className="flex items-center justify-center p-12">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      )}
+
+      {response && (
+        <>
+          <Card className="card-enhanced">
+            <CardHeader>
+              <CardTitle className="text-lg">Activity per day</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <AuditActivityChart daily={response.daily} from={response.range.from} to={response.range.to} />
+              {sortedActionTotals.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {sortedActionTotals.map(([action, count]) => (
+                    <Badge key={action} variant="secondary">
+                      {actionLabel(action)}: {count}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="card-enhanced">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="text-lg">
+                {response.pagination.total} {response.pagination.total === 1 ? 'entry' : 'entries'}
+              </CardTitle>
+              {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="border-b border-gray-200 text-xs uppercase text-gray-500 dark:border-gray-700 dark:text-gray-400">
+                  <tr>
+                    <th className="py-2 pr-4 font-medium">Time (UTC)</th>
+                    <th className="py-2 pr-4 font-medium">User</th>
+                    <th className="py-2 pr-4 font-medium">Action</th>
+                    <th className="py-2 pr-4 font-medium">Resource</th>
+                    <th className="py-2 pr-4 font-medium">Endpoint</th>
+                    <th className="py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                  {response.entries.map(entry => (
+                    <tr key={entry.id} className="align-top text-gray-700 dark:text-gray-300">
+                      <td className="whitespace-nowrap py-2 pr-4 font-mono text-xs">
+                        {entry.logged_at.slice(0, 19).replace('T', ' ')}
+                      </td>
+                      <td className="py-2 pr-4">{entry.email ?? entry.user_uuid ?? 'System'}</td>
+                      <td className="py-2 pr-4">
+                        <Badge variant="outline">{actionLabel(entry.action_type)}</Badge>
+                      </td>
+                      <td className="max-w-xs truncate py-2 pr-4" title={entry.resource_uuid ?? undefined}>
+                        {entry.resource_name ?? entry.resource_uuid ?? entry.resource_type ?? ''}
+                      </td>
+                      <td className="whitespace-nowrap py-2 pr-4 font-mono text-xs">
+                        {entry.http_method && entry.api_endpoint ? `${entry.http_method} ${entry.api_endpoint}` : ''}
+                      </td>
+                      <td className="py-2">{entry.response_status ?? ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {response.entries.length === 0 && (
+                <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                  No activity matches these filters.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {response.pagination.totalPages > 1 && (
+            <div className="flex items-center justify-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(current => Math.max(1, current - 1))}
+                disabled={page <= 1 || isLoading}
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-gray-600 dark:text-gray-300">
+                Page {response.pagination.page} of {response.pagination.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(current => Math.min(response.pagination.totalPages, current + 1))}
+                disabled={page >= response.pagination.totalPages || isLoading}
+                aria-label="Next page"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertCircle, Calculator, Loader2, Play, RotateCcw, X } from 'lucide-react'
+import { formatUploadDate } from '@/lib/date-utils'
+import { clientLogger } from '@/lib/client-logger'
+import type { ActiveEmbeddingConfig, EmbeddingProviderName } from '@/lib/embeddings'
+import type { EmbeddingMigrationEstimate, EmbeddingMigrationSummary } from '@/lib/embedding-migrations'
+
+const POLL_INTERVAL_MS = 5000
+
+interface MigrationsResponse {
+  active: ActiveEmbeddingConfig & { model_id: string }
+  migrations: EmbeddingMigrationSummary[]
+}
+
+const isRunning = (migration: EmbeddingMigrationSummary) =>
+  migration.status === 'queued' || migration.status === 'processing'
+
+const formatCost = (value: number) =>
+  value === 0 ? 'No per-request charge' : `≈ $${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`
+
+/**
+ * Embedding model and re-embedding migrations
+ * Admins estimate the cost of moving the library to another model, start the
+ * migration and follow it until the switch-over.
+ */
+export function EmbeddingMigrationPanel() {
+  const [response, setResponse] = useState<MigrationsResponse | null>(null)
+  const [provider, setProvider] = useState<EmbeddingProviderName>('local')
+  const [model, setModel] = useState('')
+  const [estimate, setEstimate] = useState<EmbeddingMigrationEstimate | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadMigrations = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admin/embedding-migrations', { cache: 'no-store' })
+      if (!res.ok) {
+        throw new Error('Failed to load embedding migrations')
+      }
+
+      setResponse(await res.json() as MigrationsResponse)
+    } catch (loadError) {
+      clientLogger.error('Failed to load embedding migrations', loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load embedding migrations')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadMigrations()
+  }, [loadMigrations])
+
+  const running = response?.migrations.find(isRunning) ?? null
+  const runningId = running?.id
+
+  useEffect(() => {
+    if (!runningId) return
+    const timer = setInterval(loadMigrations, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [runningId, loadMigrations])
+
+  const submit = async (dryRun: boolean) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/admin/embedding-migrations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider, ...(model.trim() ? { model: model.trim() } : {}), dryRun })
+      })
+      const body = await res.json().catch(() => ({})) as { estimate?: EmbeddingMigrationEstimate; error?: string }
+      if (!res.ok) {
+        throw new Error(body.error ?? 'Failed to start embedding migration')
+      }
+
+      if (dryRun) {
+        setEstimate(body.estimate ?? null)
+      } else {
+        setEstimate(null)
+        await loadMigrations()
+      }
+    } catch (submitError) {
+      clientLogger.error('Embedding migration request failed', submitError)
+      setError(submitError instanceof Error ? submitError.message : 'Embedding migration request failed')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const runAction = async (migration: EmbeddingMigrationSummary, action: 'cancel' | 'resume') => {
+    if (action === 'cancel' && !confirm('Cancel this migration and discard the embeddings it has staged?')) {
+      return
+    }
+
+    setIsBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/admin/embedding-migrations/${migration.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => null) as { error?: string } | null
+        throw new Error(body?.error ?? `Failed to ${action} migration`)
+      }
+
+      await loadMigrations()
+    } catch (actionError) {
+      clientLogger.error('Embedding migration action failed', actionError)
+      setError(actionError instanceof Error ? actionError.message : `Failed to ${action} migration`)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <Card className="card-enhanced">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="text-lg">Embedding model</CardTitle>
+        {response && (
+          <Badge variant="secondary" title={response.active.namespace ? `Namespace ${response.active.namespace}` : 'Default namespace'}>
+            {response.active.model_id}
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="flex items-center gap-2">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <p className="text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {!running && (
+          <div className="grid gap-3 md:grid-cols-[10rem_1fr_auto] md:items-end">
+            <div className="space-y-1">
+              <Label htmlFor="embeddingProvider">Provider</Label>
+              <Select
+                value={provider}
+                onValueChange={(value) => {
+                  setProvider(value as EmbeddingProviderName)
+                  setEstimate(null)
+                }}
+              >
+                <SelectTrigger id="embeddingProvider" className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="vertex">Vertex AI</SelectItem>
+                  <SelectItem value="local">Local (ONNX)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="embeddingModel">Model</Label>
+              <Input
+                id="embeddingModel"
+                className="h-9"
+                placeholder="Provider default"
+                value={model}
+                onChange={(event) => {
+                  setModel(event.target.value)
+                  setEstimate(null)
+                }}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="h-9" onClick={() => submit(true)} disabled={isBusy}>
+                {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Calculator className="h-4 w-4 mr-2" />}
+                Estimate
+              </Button>
+              <Button size="sm" className="h-9" onClick={() => submit(false)} disabled={isBusy || !estimate}>
+                <Play className="h-4 w-4 mr-2" />
+                Start migration
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {estimate && !running && (
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {estimate.document_count.toLocaleString()} documents, {estimate.chunk_count.toLocaleString()} chunks
+            and {estimate.character_count.toLocaleString()} characters to re-embed with {estimate.target_model_id}:
+            {' '}{estimate.request_count.toLocaleString()} embedding requests, {formatCost(estimate.estimated_cost_usd)}.
+            Searches keep using the current model until every document is done.
+          </p>
+        )}
+
+        {response && response.migrations.length > 0 && (
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-gray-200 text-xs uppercase text-gray-500 dark:border-gray-700 dark:text-gray-400">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Target</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 pr-4 font-medium">Progress</th>
+                <th className="py-2 pr-4 font-medium">Started</th>
+                <th className="py-2 font-medium sr-only">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+              {response.migrations.map(migration => (
+                <tr key={migration.id} className="align-top text-gray-700 dark:text-gray-300">
+                  <td className="py-2 pr-4">
+                    <p>{migration.target_model_id}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">from {migration.source_model}</p>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <Badge variant={migration.status === 'failed' ? 'destructive' : 'secondary'}>{migration.status}</Badge>
+                    {migration.error_message && (
+                      <p className="max-w-xs truncate pt-1 text-xs text-red-600" title={migration.error_message}>
+                        {migration.error_message}
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-xs">
+                    <p>{migration.next_index.toLocaleString()} / {migration.total_documents.toLocaleString()} documents</p>
+                    <p className="text-gray-500 dark:text-gray-400">
+                      {migration.embedded_chunks.toLocaleString()} chunks
+                      {migration.failed_document_ids.length > 0 && `, ${migration.failed_document_ids.length} failed`}
+                    </p>
+                  </td>
+                  <td className="whitespace-nowrap py-2 pr-4 text-xs">
+                    {formatUploadDate(migration.started_at ?? migration.created_at)}
+                  </td>
+                  <td className="py-2">
+                    <div className="flex justify-end gap-2">
+                      {migration.status === 'failed' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => runAction(migration, 'resume')}
+                          disabled={isBusy || running !== null}
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          Resume
+                        </Button>
+                      )}
+                      {(isRunning(migration) || migration.status === 'failed') && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs text-red-600 hover:text-red-700"
+                          onClick={() => runAction(migration, 'cancel')}
+                          disabled={isBusy}
+                        >
+                          <X className="h-3 w-3 mr-1" />
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
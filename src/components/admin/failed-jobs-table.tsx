@@ -0,0 +1,265 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import { AlertCircle, ChevronLeft, ChevronRight, Loader2, RotateCcw, Trash2, X } from 'lucide-react'
+import { formatUploadDate } from '@/lib/date-utils'
+import { clientLogger } from '@/lib/client-logger'
+import type { FailedJobSummary } from '@/lib/admin-console'
+
+const JOBS_PER_PAGE = 25
+
+interface FailedJobsResponse {
+  jobs: FailedJobSummary[]
+  pagination: { page: number; total: number; totalPages: number }
+}
+
+interface FailedJobsTableProps {
+  userFilter: { id: string; email: string } | null
+  onClearUserFilter: () => void
+  /** Called after a requeue or purge so the user totals can refresh */
+  onChanged: () => void
+}
+
+/**
+ * Failed processing jobs across all users
+ * Admins can requeue the document for its owner or purge it entirely.
+ */
+export function FailedJobsTable({ userFilter, onClearUserFilter, onChanged }: FailedJobsTableProps) {
+  const [page, setPage] = useState(1)
+  const [response, setResponse] = useState<FailedJobsResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [busyDocumentId, setBusyDocumentId] = useState<string | null>(null)
+  const [purgeTarget, setPurgeTarget] = useState<FailedJobSummary | null>(null)
+
+  const userId = userFilter?.id ?? null
+
+  const loadJobs = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(JOBS_PER_PAGE) })
+      if (userId) params.set('user', userId)
+
+      const res = await fetch(`/api/admin/failed-jobs?${params.toString()}`)
+      if (!res.ok) {
+        throw new Error('Failed to load failed jobs')
+      }
+
+      setResponse(await res.json() as FailedJobsResponse)
+    } catch (loadError) {
+      clientLogger.error('Failed to load failed jobs', loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load failed jobs')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [page, userId])
+
+  useEffect(() => {
+    setPage(1)
+  }, [userId])
+
+  useEffect(() => {
+    loadJobs()
+  }, [loadJobs])
+
+  const requeue = async (job: FailedJobSummary) => {
+    setBusyDocumentId(job.document_id)
+    try {
+      const res = await fetch(`/api/admin/documents/${job.document_id}/requeue`, { method: 'POST' })
+      if (!res.ok) {
+        const body = await res.json().catch(() => null) as { error?: string } | null
+        throw new Error(body?.error ?? 'Failed to requeue document')
+      }
+
+      await loadJobs()
+      onChanged()
+    } catch (requeueError) {
+      clientLogger.error('Failed to requeue document', requeueError)
+      alert(requeueError instanceof Error ? requeueError.message : 'Failed to requeue document. Please try again.')
+    } finally {
+      setBusyDocumentId(null)
+    }
+  }
+
+  const purge = async () => {
+    if (!purgeTarget) return
+
+    const job = purgeTarget
+    setBusyDocumentId(job.document_id)
+    try {
+      const res = await fetch(`/api/admin/documents/${job.document_id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        throw new Error('Failed to purge document')
+      }
+
+      setPurgeTarget(null)
+      await loadJobs()
+      onChanged()
+    } catch (purgeError) {
+      clientLogger.error('Failed to purge document', purgeError)
+      alert('Failed to purge document. Please try again.')
+    } finally {
+      setBusyDocumentId(null)
+    }
+  }
+
+  return (
+    <Card className="card-enhanced">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="text-lg">
+          Failed jobs{response ? ` (${response.pagination.total})` : ''}
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          {userFilter && (
+            <Button variant="outline" size="sm" onClick={onClearUserFilter}>
+              {userFilter.email}
+              <X className="h-3 w-3 ml-2" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {error && (
+          <div className="flex items-center gap-2 pb-4">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <p className="text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {response && response.jobs.length === 0 && (
+          <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+            No failed jobs.
+          </p>
+        )}
+
+        {response && response.jobs.length > 0 && (
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-gray-200 text-xs uppercase text-gray-500 dark:border-gray-700 dark:text-gray-400">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Document</th>
+                <th className="py-2 pr-4 font-medium">Owner</th>
+                <th className="py-2 pr-4 font-medium">Attempts</th>
+                <th className="py-2 pr-4 font-medium">Error</th>
+                <th className="py-2 pr-4 font-medium">Failed</th>
+                <th className="py-2 font-medium sr-only">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+              {response.jobs.map(job => (
+                <tr key={job.id} className="align-top text-gray-700 dark:text-gray-300">
+                  <td className="max-w-xs truncate py-2 pr-4" title={job.document?.filename ?? job.document_id}>
+                    {job.document?.title ?? job.document_id}
+                  </td>
+                  <td className="py-2 pr-4">{job.user_email ?? job.user_id}</td>
+                  <td className="py-2 pr-4">{job.attempts} / {job.max_attempts}</td>
+                  <td className="max-w-sm truncate py-2 pr-4 text-xs" title={job.error_message ?? undefined}>
+                    {job.error_message ?? 'Unknown error'}
+                  </td>
+                  <td className="whitespace-nowrap py-2 pr-4 text-xs">
+                    {job.failed_at ? formatUploadDate(job.failed_at) : ''}
+                  </td>
+                  <td className="py-2">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => requeue(job)}
+                        disabled={busyDocumentId === job.document_id}
+                      >
+                        {busyDocumentId === job.document_id ? (
+                          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                        )}
+                        Requeue
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs text-red-600 hover:text-red-700"
+                        onClick={() => setPurgeTarget(job)}
+                        disabled={busyDocumentId === job.document_id}
+                      >
+                        <Trash2 className="h-3 w-3 mr-1" />
+                        Purge
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {response && response.pagination.totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2 pt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(current => Math.max(1, current - 1))}
+              disabled={page <= 1 || isLoading}
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-gray-600 dark:text-gray-300">
+              Page {response.pagination.page} of {response.pagination.totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(current => Math.min(response.pagination.totalPages, current + 1))}
+              disabled={page >= response.pagination.totalPages || isLoading}
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={purgeTarget !== null} onOpenChange={(open) => {
+        if (!open && busyDocumentId === null) {
+          setPurgeTarget(null)
+        }
+      }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Purge Document</AlertDialogTitle>
+            <AlertDialogDescription>
+              Permanently delete &quot;{purgeTarget?.document?.title ?? purgeTarget?.document_id}&quot; from{' '}
+              {purgeTarget?.user_email ?? 'this user'}&apos;s library, including its file and search index entries.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={busyDocumentId !== null}>Cancel</AlertDialogCancel>
+            <Button
+              type="button"
+              onClick={purge}
+              disabled={busyDocumentId !== null}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {busyDocumentId !== null && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Purge
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
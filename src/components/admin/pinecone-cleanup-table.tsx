@@ -0,0 +1,172 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { AlertCircle, ChevronLeft, ChevronRight, Loader2, RotateCcw } from 'lucide-react'
+import { formatUploadDate } from '@/lib/date-utils'
+import { clientLogger } from '@/lib/client-logger'
+import type { PineconeCleanupTask } from '@/lib/pinecone-cleanup-worker'
+
+const TASKS_PER_PAGE = 25
+
+interface PineconeCleanupResponse {
+  tasks: PineconeCleanupTask[]
+  pagination: { page: number; total: number; totalPages: number }
+}
+
+/**
+ * Vector deletions that ran out of retries
+ * Their documents are already gone, so the vectors stay in the index until
+ * an admin retries the deletion.
+ */
+export function PineconeCleanupTable() {
+  const [page, setPage] = useState(1)
+  const [response, setResponse] = useState<PineconeCleanupResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [busyTaskId, setBusyTaskId] = useState<string | null>(null)
+
+  const loadTasks = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(TASKS_PER_PAGE) })
+      const res = await fetch(`/api/admin/pinecone-cleanup?${params.toString()}`)
+      if (!res.ok) {
+        throw new Error('Failed to load Pinecone cleanup tasks')
+      }
+
+      setResponse(await res.json() as PineconeCleanupResponse)
+    } catch (loadError) {
+      clientLogger.error('Failed to load Pinecone cleanup tasks', loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load Pinecone cleanup tasks')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [page])
+
+  useEffect(() => {
+    loadTasks()
+  }, [loadTasks])
+
+  const retry = async (task: PineconeCleanupTask) => {
+    setBusyTaskId(task.id)
+    try {
+      const res = await fetch(`/api/admin/pinecone-cleanup/${task.id}/retry`, { method: 'POST' })
+      const body = await res.json().catch(() => null) as { error?: string; outcome?: string } | null
+      if (!res.ok) {
+        throw new Error(body?.error ?? 'Failed to retry Pinecone cleanup')
+      }
+
+      await loadTasks()
+      if (body?.outcome !== 'succeeded') {
+        alert('The deletion failed again and was rescheduled.')
+      }
+    } catch (retryError) {
+      clientLogger.error('Failed to retry Pinecone cleanup', retryError)
+      alert(retryError instanceof Error ? retryError.message : 'Failed to retry Pinecone cleanup. Please try again.')
+    } finally {
+      setBusyTaskId(null)
+    }
+  }
+
+  return (
+    <Card className="card-enhanced">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="text-lg">
+          Failed vector deletions{response ? ` (${response.pagination.total})` : ''}
+        </CardTitle>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {error && (
+          <div className="flex items-center gap-2 pb-4">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <p className="text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {response && response.tasks.length === 0 && (
+          <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+            No failed vector deletions.
+          </p>
+        )}
+
+        {response && response.tasks.length > 0 && (
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-gray-200 text-xs uppercase text-gray-500 dark:border-gray-700 dark:text-gray-400">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Document</th>
+                <th className="py-2 pr-4 font-medium">Vectors</th>
+                <th className="py-2 pr-4 font-medium">Attempts</th>
+                <th className="py-2 pr-4 font-medium">Error</th>
+                <th className="py-2 pr-4 font-medium">Failed</th>
+                <th className="py-2 font-medium sr-only">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+              {response.tasks.map(task => (
+                <tr key={task.id} className="align-top text-gray-700 dark:text-gray-300">
+                  <td className="py-2 pr-4 font-mono text-xs">{task.document_id}</td>
+                  <td className="py-2 pr-4">{task.vector_ids?.length ?? 'Lookup'}</td>
+                  <td className="py-2 pr-4">{task.attempts}</td>
+                  <td className="max-w-sm truncate py-2 pr-4 text-xs" title={task.last_error ?? undefined}>
+                    {task.last_error ?? 'Unknown error'}
+                  </td>
+                  <td className="whitespace-nowrap py-2 pr-4 text-xs">
+                    {formatUploadDate(task.updated_at)}
+                  </td>
+                  <td className="py-2">
+                    <div className="flex justify-end">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => retry(task)}
+                        disabled={busyTaskId === task.id}
+                      >
+                        {busyTaskId === task.id ? (
+                          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                        )}
+                        Retry
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {response && response.pagination.totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2 pt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(current => Math.max(1, current - 1))}
+              disabled={page <= 1 || isLoading}
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-gray-600 dark:text-gray-300">
+              Page {response.pagination.page} of {response.pagination.totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(current => Math.min(response.pagination.totalPages, current + 1))}
+              disabled={page >= response.pagination.totalPages || isLoading}
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
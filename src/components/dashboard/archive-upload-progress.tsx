@@ -0,0 +1,143 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { AlertTriangle, CheckCircle, FileArchive, Loader2, X } from 'lucide-react'
+import { clientLogger } from '@/lib/client-logger'
+import type { ArchiveSkipReason, UploadBatch, UploadBatchProgress } from '@/lib/archive-ingestion'
+
+// Documents take a while to process; poll gently
+const POLL_INTERVAL_MS = 5000
+
+const SKIP_REASON_LABELS: Record<ArchiveSkipReason, string> = {
+  not_pdf: 'Not a PDF',
+  too_large: 'Too large',
+  empty: 'Empty file',
+  invalid_pdf: 'Not a valid PDF',
+  duplicate_in_archive: 'Duplicate in archive',
+  duplicate_in_library: 'Already in library',
+  entry_limit: 'Over the per-archive limit'
+}
+
+interface ArchiveUploadProgressProps {
+  batch: UploadBatch
+  onDismiss: () => void
+  /** Called when the batch's documents have all finished processing */
+  onComplete?: () => void
+}
+
+/**
+ * Aggregate progress and per-entry report for one archive upload
+ */
+export function ArchiveUploadProgress({ batch: initialBatch, onDismiss, onComplete }: ArchiveUploadProgressProps) {
+  const [batch, setBatch] = useState<UploadBatch>(initialBatch)
+  const [progress, setProgress] = useState<UploadBatchProgress | null>(null)
+
+  const loadBatch = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/documents/upload/archive/${initialBatch.id}`, { cache: 'no-store' })
+      if (!response.ok) {
+        throw new Error('Failed to load archive progress')
+      }
+      const data = await response.json() as { batch: UploadBatch; progress: UploadBatchProgress }
+      setBatch(data.batch)
+      setProgress(data.progress)
+    } catch (error) {
+      clientLogger.error('Failed to load archive progress', error)
+    }
+  }, [initialBatch.id])
+
+  useEffect(() => {
+    loadBatch()
+  }, [loadBatch])
+
+  const isRunning = batch.status === 'expanding' || batch.status === 'processing'
+
+  useEffect(() => {
+    if (!isRunning) return
+    const timer = setInterval(loadBatch, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [isRunning, loadBatch])
+
+  useEffect(() => {
+    if (batch.status === 'completed') {
+      onComplete?.()
+    }
+  }, [batch.status, onComplete])
+
+  const percent = progress?.percent ?? 0
+  const notQueued = batch.entries.filter(entry => entry.outcome !== 'queued')
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0 space-y-1">
+          <div className="flex items-center gap-2">
+            <FileArchive className="h-4 w-4 text-gray-500" />
+            <span className="truncate text-sm font-medium">{batch.archive_name}</span>
+            {isRunning ? (
+              <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
+            ) : batch.status === 'failed' ? (
+              <AlertTriangle className="h-4 w-4 text-red-500" />
+            ) : (
+              <CheckCircle className="h-4 w-4 text-green-500" />
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2 text-xs">
+            <Badge variant="secondary">{batch.total_entries} entries</Badge>
+            <Badge variant="secondary">{batch.queued_count} queued</Badge>
+            {batch.skipped_count > 0 && <Badge variant="outline">{batch.skipped_count} skipped</Badge>}
+            {batch.failed_count > 0 && <Badge variant="destructive">{batch.failed_count} failed</Badge>}
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={onDismiss}
+          aria-label="Dismiss archive report"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {batch.error_message && (
+        <p className="text-xs text-red-600">{batch.error_message}</p>
+      )}
+
+      {batch.queued_count > 0 && (
+        <div className="space-y-1">
+          <div className="w-full bg-gray-200 rounded-full h-1">
+            <div
+              className="bg-blue-600 h-1 rounded-full transition-all"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          {progress && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {progress.completed} processed, {progress.processing} processing, {progress.pending} waiting
+              {progress.error > 0 && `, ${progress.error} failed`}
+              {progress.cancelled > 0 && `, ${progress.cancelled} cancelled`}
+            </p>
+          )}
+        </div>
+      )}
+
+      {notQueued.length > 0 && (
+        <div className="max-h-40 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800">
+          {notQueued.map(entry => (
+            <div key={entry.path} className="flex items-center justify-between gap-3 py-1 text-xs">
+              <span className="truncate text-gray-700 dark:text-gray-300" title={entry.path}>{entry.path}</span>
+              <span className={entry.outcome === 'failed' ? 'shrink-0 text-red-600' : 'shrink-0 text-gray-500 dark:text-gray-400'}>
+                {entry.outcome === 'failed'
+                  ? entry.error ?? 'Failed'
+                  : entry.reason ? SKIP_REASON_LABELS[entry.reason] : 'Skipped'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
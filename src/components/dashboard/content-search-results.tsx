@@ -0,0 +1,285 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { FileText, Loader2, AlertCircle, ChevronLeft, ChevronRight, ExternalLink } from 'lucide-react'
+import { clientLogger } from '@/lib/client-logger'
+
+const RESULTS_PER_PAGE = 20
+// Wait for typing to settle before hitting the full-text index
+const SEARCH_DEBOUNCE_MS = 350
+
+interface ContentSearchHit {
+  chunk_index: number
+  page_number: number | null
+  start_page_number: number | null
+  end_page_number: number | null
+  snippet: string
+  rank: number
+}
+
+interface ContentSearchResult {
+  document: {
+    id: string
+    title: string
+    filename: string
+    page_count: number | null
+  }
+  rank: number
+  match_count: number
+  hits: ContentSearchHit[]
+}
+
+interface ContentSearchResponse {
+  results: ContentSearchResult[]
+  pagination: { page: number; total: number; totalPages: number }
+}
+
+interface ContentSearchResultsProps {
+  query: string
+  lawFirms: string[]
+  fundManagers: string[]
+  fundAdmins: string[]
+  jurisdictions: string[]
+}
+
+const hitPage = (hit: ContentSearchHit) => hit.start_page_number ?? hit.page_number ?? 1
+
+const formatHitPages = (hit: ContentSearchHit) => {
+  const start = hitPage(hit)
+  const end = hit.end_page_number ?? start
+  return end > start ? `pp. ${start}-${end}` : `p. ${start}`
+}
+
+/**
+ * Render a ts_headline snippet, turning <mark> delimiters into highlights
+ * Everything else is rendered as plain text.
+ */
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/(<mark>[\s\S]*?<\/mark>)/g)
+
+  return (
+    <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed">
+      {parts.map((part, index) =>
+        part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-gray-900 dark:bg-yellow-500/40 dark:text-white">
+            {part.slice('<mark>'.length, -'</mark>'.length)}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </p>
+  )
+}
+
+/**
+ * Content search mode of the document list
+ * Lists documents whose extracted text matches the query, ranked by relevance,
+ * with the best matching passages and their pages.
+ */
+export function ContentSearchResults({
+  query,
+  lawFirms,
+  fundManagers,
+  fundAdmins,
+  jurisdictions
+}: ContentSearchResultsProps) {
+  const [page, setPage] = useState(1)
+  const [response, setResponse] = useState<ContentSearchResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [openingHit, setOpeningHit] = useState<string | null>(null)
+
+  // A new query or filter set starts from the first page
+  useEffect(() => {
+    setPage(1)
+  }, [query, lawFirms, fundManagers, fundAdmins, jurisdictions])
+
+  useEffect(() => {
+    const trimmedQuery = query.trim()
+    if (!trimmedQuery) {
+      setResponse(null)
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const params = new URLSearchParams({
+          q: trimmedQuery,
+          page: String(page),
+          limit: String(RESULTS_PER_PAGE)
+        })
+        if (lawFirms.length > 0) params.set('law_firm', lawFirms.join(','))
+        if (fundManagers.length > 0) params.set('fund_manager', fundManagers.join(','))
+        if (fundAdmins.length > 0) params.set('fund_admin', fundAdmins.join(','))
+        if (jurisdictions.length > 0) params.set('jurisdiction', jurisdictions.join(','))
+
+        const res = await fetch(`/api/documents/search?${params.toString()}`, { signal: controller.signal })
+        if (!res.ok) {
+          throw new Error('Failed to search document content')
+        }
+
+        setResponse(await res.json() as ContentSearchResponse)
+      } catch (searchError) {
+        if (controller.signal.aborted) return
+        clientLogger.error('Content search failed', searchError)
+        setError(searchError instanceof Error ? searchError.message : 'Failed to search document content')
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [query, page, lawFirms, fundManagers, fundAdmins, jurisdictions])
+
+  const openHit = async (documentId: string, hit: ContentSearchHit) => {
+    const key = `${documentId}:${hit.chunk_index}`
+    setOpeningHit(key)
+    try {
+      const res = await fetch(`/api/documents/${documentId}/highlighted-pdf?chunks=${hit.chunk_index}`)
+      if (!res.ok) {
+        throw new Error('Failed to load document')
+      }
+
+      const blob = await res.blob()
+      const url = window.URL.createObjectURL(blob)
+      window.open(`${url}#page=${hitPage(hit)}`, '_blank')
+    } catch (openError) {
+      clientLogger.error('Error opening search hit:', openError)
+      alert('Failed to open document. Please try again.')
+    } finally {
+      setOpeningHit(null)
+    }
+  }
+
+  if (error) {
+    return (
+      <Card className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20">
+        <CardContent className="pt-6">
+          <div className="flex items-center gap-2">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <p className="text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!response) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        {isLoading && <Loader2 className="h-6 w-6 animate-spin text-gray-400" />}
+      </div>
+    )
+  }
+
+  if (response.results.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center p-12">
+          <FileText className="h-12 w-12 text-gray-400 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+            No matching content
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Only completed documents are searched. Try fewer or different keywords.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { pagination } = response
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+        <span>
+          {pagination.total} {pagination.total === 1 ? 'document matches' : 'documents match'}
+        </span>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+      </div>
+
+      {response.results.map(result => (
+        <Card key={result.document.id} className="card-enhanced" role="article" data-testid="content-search-result">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-blue-50 dark:bg-gradient-to-br dark:from-blue-900/60 dark:to-blue-800/40 rounded-lg border dark:border-blue-700/30" aria-hidden="true">
+                <FileText className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+              </div>
+              <h3 className="flex-1 min-w-0 truncate text-base font-semibold text-gray-900 dark:text-white">
+                {result.document.title}
+              </h3>
+              <Badge variant="secondary" className="flex-shrink-0">
+                {result.match_count} {result.match_count === 1 ? 'match' : 'matches'}
+              </Badge>
+            </div>
+
+            <div className="space-y-2">
+              {result.hits.map(hit => {
+                const key = `${result.document.id}:${hit.chunk_index}`
+                return (
+                  <div key={key} className="flex items-start gap-3 rounded-md border border-gray-100 dark:border-gray-700 p-3">
+                    <div className="flex-1 min-w-0">
+                      <HighlightedSnippet snippet={hit.snippet} />
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 flex-shrink-0 text-xs"
+                      onClick={() => openHit(result.document.id, hit)}
+                      disabled={openingHit === key}
+                      aria-label={`Open ${result.document.title} at ${formatHitPages(hit)}`}
+                    >
+                      {openingHit === key ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <ExternalLink className="h-3 w-3 mr-1" />
+                      )}
+                      {formatHitPages(hit)}
+                    </Button>
+                  </div>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      {pagination.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2 pt-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(current => Math.max(1, current - 1))}
+            disabled={page <= 1 || isLoading}
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-gray-600 dark:text-gray-300">
+            Page {pagination.page} of {pagination.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(current => Math.min(pagination.totalPages, current + 1))}
+            disabled={page >= pagination.totalPages || isLoading}
+            aria-label="Next page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,10 +6,25 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { SearchableSelect } from '@/components/ui/searchable-select'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Upload, FileText, Loader2, Building, Users, Briefcase, Globe, AlertTriangle, CheckCircle, Info } from 'lucide-react'
+import { Upload, FileText, FileSpreadsheet, FileArchive, Copy, Loader2, Building, Users, Briefcase, Globe, AlertTriangle, CheckCircle, Info, X } from 'lucide-react'
 import { useFileValidation } from '@/lib/file-validation'
+import { clientLogger } from '@/lib/client-logger'
+import type { WorkspaceSummary } from '@/lib/workspaces'
+import type { UploadBatch } from '@/lib/archive-ingestion'
+import type { ContentHashMatch } from '@/lib/document-duplicates'
+import type { ExtractionProviderName } from '@/lib/extraction'
+import { ArchiveUploadProgress } from './archive-upload-progress'
+import {
+  MANIFEST_ACCEPT,
+  manifestKey,
+  readUploadManifest,
+  type ManifestEntry,
+  type ManifestIssue,
+  type UploadManifest
+} from '@/lib/upload-manifest'
 import { 
   LAW_FIRM_OPTIONS, 
   FUND_MANAGER_OPTIONS, 
@@ -28,16 +43,21 @@ interface DocumentMetadata {
   fund_admin: FundAdminOption | ''
   jurisdiction: JurisdictionOption | ''
   subscription_agreement_skipped: boolean
+  subscription_agreement_auto_detect: boolean
   subscription_agreement_start_page: number | null
   subscription_agreement_end_page: number | null
 }
 
+// Files per selection; uploads still go through the throttled route a few at a time
+const MAX_BATCH_FILES = 500
+
 interface TouchedFields {
   law_firm: boolean
   fund_manager: boolean
   fund_admin: boolean
   jurisdiction: boolean
   subscription_agreement_skipped: boolean
+  subscription_agreement_auto_detect: boolean
   subscription_agreement_start_page: boolean
   subscription_agreement_end_page: boolean
 }
@@ -50,6 +70,17 @@ interface UploadFile {
   error?: string
   metadata: DocumentMetadata
   touchedFields: TouchedFields
+  /** Manifest row the metadata was pre-filled from */
+  manifestRow?: number
+  manifestIssues?: ManifestIssue[]
+  /** SHA-256 of the file (hex) */
+  contentHash?: string
+  /** Byte-identical documents already in the user's libraries, newest first */
+  duplicates?: ContentHashMatch[]
+  /** Upload a duplicate anyway: as a new version of duplicates[0], or as an unrelated document */
+  duplicateChoice?: 'version' | 'proceed'
+  /** Existing document used instead of uploading this file */
+  linkedDocument?: ContentHashMatch
   validation?: {
     isValid: boolean
     issues: string[]
@@ -74,14 +105,89 @@ interface ValidationSummary {
   canProceed: boolean
 }
 
+const UNTOUCHED_FIELDS: TouchedFields = {
+  law_firm: false,
+  fund_manager: false,
+  fund_admin: false,
+  jurisdiction: false,
+  subscription_agreement_skipped: false,
+  subscription_agreement_auto_detect: false,
+  subscription_agreement_start_page: false,
+  subscription_agreement_end_page: false
+}
+
+const hashFile = async (file: File): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const hasUnresolvedDuplicate = (uploadFile: UploadFile) =>
+  (uploadFile.duplicates?.length ?? 0) > 0 && !uploadFile.duplicateChoice
+
+/**
+ * Pre-fill a queued file from its manifest row
+ * Only the values the row provides are overwritten (and marked as touched).
+ */
+const applyManifestEntry = (uploadFile: UploadFile, entry: ManifestEntry | undefined): UploadFile => {
+  if (!entry) return uploadFile
+
+  const touchedFields = { ...uploadFile.touchedFields }
+  for (const field of Object.keys(entry.metadata) as Array<keyof TouchedFields>) {
+    touchedFields[field] = true
+  }
+
+  return {
+    ...uploadFile,
+    metadata: { ...uploadFile.metadata, ...entry.metadata },
+    touchedFields,
+    manifestRow: entry.rowNumber,
+    manifestIssues: entry.issues
+  }
+}
+
 export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
   const [files, setFiles] = useState<UploadFile[]>([])
   const [isDragOver, setIsDragOver] = useState(false)
   const [validationSummary, setValidationSummary] = useState<ValidationSummary | null>(null)
   const [statusMessage, setStatusMessage] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [manifest, setManifest] = useState<UploadManifest | null>(null)
+  const [isReadingManifest, setIsReadingManifest] = useState(false)
+  const [archiveBatches, setArchiveBatches] = useState<UploadBatch[]>([])
+  const [isUploadingArchive, setIsUploadingArchive] = useState(false)
   const { validateFiles, getValidationSummary } = useFileValidation()
 
+  // Warn about files that are already in a library before they are processed again
+  const checkForDuplicates = useCallback(async (candidates: UploadFile[]) => {
+    if (candidates.length === 0) return
+
+    try {
+      // One file in memory at a time
+      const hashes = new Map<string, string>()
+      for (const candidate of candidates) {
+        hashes.set(candidate.id, await hashFile(candidate.file))
+      }
+
+      const response = await fetch('/api/documents/content-hashes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ hashes: Array.from(new Set(hashes.values())) })
+      })
+      if (!response.ok) {
+        throw new Error('Failed to check for duplicate documents')
+      }
+
+      const data = await response.json() as { matches: Record<string, ContentHashMatch[]> }
+      setFiles(prev => prev.map(f => {
+        const contentHash = hashes.get(f.id)
+        return contentHash ? { ...f, contentHash, duplicates: data.matches[contentHash] } : f
+      }))
+    } catch (duplicateError) {
+      // Non-fatal: files can still be uploaded without the warning
+      clientLogger.error('Failed to check for duplicate documents', duplicateError)
+    }
+  }, [])
+
   const handleFileSelect = useCallback(async (selectedFiles: FileList | null) => {
     if (!selectedFiles) return
 
@@ -95,29 +201,20 @@ export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
       alert(`${nonPdfCount} file(s) were skipped. Only PDF files are allowed.`)
     }
 
-    // Limit to 10 files
-    const filesToProcess = pdfFiles.slice(0, 10)
-    if (pdfFiles.length > 10) {
-      alert(`Only the first 10 files will be processed. ${pdfFiles.length - 10} files were skipped.`)
+    const filesToProcess = pdfFiles.slice(0, MAX_BATCH_FILES)
+    if (pdfFiles.length > MAX_BATCH_FILES) {
+      alert(`Only the first ${MAX_BATCH_FILES} files will be processed. ${pdfFiles.length - MAX_BATCH_FILES} files were skipped.`)
     }
 
     // Create initial file objects with validating status
-    const newFiles: UploadFile[] = filesToProcess.map(file => ({
+    const newFiles: UploadFile[] = filesToProcess.map(file => applyManifestEntry({
       file,
       id: Math.random().toString(36).substr(2, 9),
       progress: 0,
       status: 'validating' as const,
       metadata: { ...DEFAULT_METADATA },
-      touchedFields: {
-        law_firm: false,
-        fund_manager: false,
-        fund_admin: false,
-        jurisdiction: false,
-        subscription_agreement_skipped: false,
-        subscription_agreement_start_page: false,
-        subscription_agreement_end_page: false
-      }
-    }))
+      touchedFields: { ...UNTOUCHED_FIELDS }
+    }, manifest?.entries.get(manifestKey(file.name))))
 
     setFiles(prev => [...prev, ...newFiles])
     setValidationSummary(null)
@@ -142,6 +239,8 @@ export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
         return f
       }))
 
+      await checkForDuplicates(newFiles.filter(nf => validationResults.get(nf.file.name)?.isValid))
+
       // Show validation summary
       const summary = getValidationSummary(validationResults)
       if (summary.invalid > 0) {
@@ -159,7 +258,34 @@ export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
           : f
       ))
     }
-  }, [validateFiles, getValidationSummary])
+  }, [validateFiles, getValidationSummary, checkForDuplicates, manifest])
+
+  const handleManifestSelect = async (selected: FileList | null) => {
+    const manifestFile = selected?.[0]
+    if (!manifestFile) return
+
+    setIsReadingManifest(true)
+    setError(null)
+    try {
+      const parsed = await readUploadManifest(manifestFile)
+      setManifest(parsed)
+      setFiles(prev => prev.map(f =>
+        f.status === 'pending' || f.status === 'validating'
+          ? applyManifestEntry(f, parsed.entries.get(manifestKey(f.file.name)))
+          : f
+      ))
+    } catch (manifestError) {
+      clientLogger.error('Failed to read upload manifest', manifestError)
+      setError(manifestError instanceof Error ? manifestError.message : 'Failed to read manifest')
+    } finally {
+      setIsReadingManifest(false)
+    }
+  }
+
+  const applySuggestion = (fileId: string, issue: ManifestIssue, value: string) => {
+    if (issue.field === 'subscription_pages') return
+    updateFileMetadata(fileId, issue.field, value)
+  }
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -178,6 +304,32 @@ export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
   }, [handleFileSelect])
 
   const [uploadConcurrency, setUploadConcurrency] = useState<number>(2)
+  const [editableWorkspaces, setEditableWorkspaces] = useState<WorkspaceSummary[]>([])
+  // Workspace id, or 'personal' for the uploader's own library
+  const [targetLibrary, setTargetLibrary] = useState<string>('personal')
+  // 'default' leaves the choice to the server's EXTRACTION_PROVIDER
+  const [extractionProvider, setExtractionProvider] = useState<ExtractionProviderName | 'default'>('default')
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadWorkspaces = async () => {
+      const response = await fetch('/api/workspaces', { cache: 'no-store' })
+      if (!response.ok) {
+        return
+      }
+
+      const data = await response.json() as { workspaces?: WorkspaceSummary[] }
+      if (isMounted) {
+        setEditableWorkspaces((data.workspaces ?? []).filter(workspace => workspace.role !== 'viewer'))
+      }
+    }
+
+    loadWorkspaces().catch(error => clientLogger.error('Failed to load workspaces for upload', error))
+    return () => {
+      isMounted = false
+    }
+  }, [])
 
   useEffect(() => {
     const controller = new AbortController()
@@ -185,7 +337,7 @@ export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
 
     const hydrateConcurrency = async () => {
       try {
-        const response = await fetch('/api/health/pool', {
+        const response = await fetch('/api/documents/upload', {
           method: 'GET',
           headers: {
             'cache-control': 'no-cache'
@@ -198,8 +350,8 @@ export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
         }
 
         const data = await response.json()
-        const globalLimit = data?.throttling?.upload?.global?.limit
-        const perUserLimit = data?.throttling?.upload?.perUser?.limit
+        const globalLimit = data?.limits?.global
+        const perUserLimit = data?.limits?.perUser
 
         const toFiniteNumber = (value: unknown) => {
           const numberValue = typeof value === 'number' ? value : Number(value)
@@ -269,6 +421,16 @@ export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
       const formData = new FormData()
       formData.append('file', uploadFile.file)
       formData.append('metadata', JSON.stringify(uploadFile.metadata))
+      if (targetLibrary !== 'personal') {
+        formData.append('workspaceId', targetLibrary)
+      }
+      if (extractionProvider !== 'default') {
+        formData.append('extractionProvider', extractionProvider)
+      }
+      const previousVersion = uploadFile.duplicateChoice === 'version' ? uploadFile.duplicates?.[0] : undefined
+      if (previousVersion) {
+        formData.append('previousVersionId', previousVersion.id)
+      }
 
       // Simulate progress during upload
       const progressInterval = setInterval(() => {
@@ -319,6 +481,72 @@ export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
     }
   }
 
+  // The archive is expanded server-side; loaded manifest rows travel with it
+  const uploadArchive = async (selected: FileList | null) => {
+    const archive = selected?.[0]
+    if (!archive) return
+
+    setIsUploadingArchive(true)
+    setError(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', archive)
+      formData.append('metadata', JSON.stringify(DEFAULT_METADATA))
+      if (manifest) {
+        formData.append('manifest', JSON.stringify(Object.fromEntries(
+          Array.from(manifest.entries, ([key, entry]) => [key, entry.metadata])
+        )))
+      }
+      if (targetLibrary !== 'personal') {
+        formData.append('workspaceId', targetLibrary)
+      }
+      if (extractionProvider !== 'default') {
+        formData.append('extractionProvider', extractionProvider)
+      }
+
+      const response = await fetch('/api/documents/upload/archive', {
+        method: 'POST',
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Archive upload failed' }))
+        throw new Error(errorData.error || 'Archive upload failed')
+      }
+
+      const result = await response.json() as { batch: UploadBatch; message: string }
+      setArchiveBatches(prev => [result.batch, ...prev])
+      setStatusMessage(result.message)
+
+      if (onUploadComplete) {
+        onUploadComplete()
+      }
+    } catch (archiveError) {
+      clientLogger.error('Failed to upload archive', archiveError)
+      setError(archiveError instanceof Error ? archiveError.message : 'Archive upload failed')
+    } finally {
+      setIsUploadingArchive(false)
+    }
+  }
+
+  const resolveDuplicate = (fileId: string, choice: 'link' | 'version' | 'proceed') => {
+    if (choice !== 'link') {
+      setFiles(prev => prev.map(f => f.id === fileId ? { ...f, duplicateChoice: choice } : f))
+      return
+    }
+
+    const uploadFile = files.find(f => f.id === fileId)
+    const existing = uploadFile?.duplicates?.[0]
+    if (!uploadFile || !existing) return
+
+    setFiles(prev => prev.map(f =>
+      f.id === fileId
+        ? { ...f, status: 'completed' as const, progress: 100, linkedDocument: existing }
+        : f
+    ))
+    setStatusMessage(`Using existing document "${existing.title}" instead of uploading ${uploadFile.file.name}`)
+  }
+
   const removeFile = (id: string) => {
     setFiles(prev => prev.filter(f => f.id !== id))
   }
@@ -341,7 +569,8 @@ const updateFileMetadata = (fileId: string, field: keyof DocumentMetadata, value
       ? { 
           ...f, 
           metadata: { ...f.metadata, [field]: value },
-          touchedFields: { ...f.touchedFields, [field]: true }
+          touchedFields: { ...f.touchedFields, [field]: true },
+          manifestIssues: f.manifestIssues?.filter(issue => issue.field !== field)
         }
       : f
   ))
@@ -359,7 +588,8 @@ const updateRangeMetadata = (
     const updatedMetadata: DocumentMetadata = {
       ...f.metadata,
       [field]: parsed,
-      subscription_agreement_skipped: false
+      subscription_agreement_skipped: false,
+      subscription_agreement_auto_detect: false
     }
 
     return {
@@ -368,7 +598,8 @@ const updateRangeMetadata = (
       touchedFields: {
         ...f.touchedFields,
         [field]: true
-      }
+      },
+      manifestIssues: f.manifestIssues?.filter(issue => issue.field !== 'subscription_pages')
     }
   }))
 }
@@ -380,6 +611,7 @@ const toggleNoSubscriptionAgreement = (fileId: string, checked: boolean) => {
     const updatedMetadata: DocumentMetadata = {
       ...f.metadata,
       subscription_agreement_skipped: checked,
+      subscription_agreement_auto_detect: checked ? false : f.metadata.subscription_agreement_auto_detect,
       subscription_agreement_start_page: checked ? null : f.metadata.subscription_agreement_start_page,
       subscription_agreement_end_page: checked ? null : f.metadata.subscription_agreement_end_page
     }
@@ -395,6 +627,29 @@ const toggleNoSubscriptionAgreement = (fileId: string, checked: boolean) => {
   }))
 }
 
+const toggleAutoDetectSubscriptionAgreement = (fileId: string, checked: boolean) => {
+  setFiles(prev => prev.map(f => {
+    if (f.id !== fileId) return f
+
+    const updatedMetadata: DocumentMetadata = {
+      ...f.metadata,
+      subscription_agreement_auto_detect: checked,
+      subscription_agreement_skipped: checked ? false : f.metadata.subscription_agreement_skipped,
+      subscription_agreement_start_page: checked ? null : f.metadata.subscription_agreement_start_page,
+      subscription_agreement_end_page: checked ? null : f.metadata.subscription_agreement_end_page
+    }
+
+    return {
+      ...f,
+      metadata: updatedMetadata,
+      touchedFields: {
+        ...f.touchedFields,
+        subscription_agreement_auto_detect: true
+      }
+    }
+  }))
+}
+
 const getDropdownClassName = (uploadFile: UploadFile, field: keyof DocumentMetadata) => {
   const baseClass = "h-8 text-xs transition-colors duration-200"
   
@@ -409,6 +664,7 @@ const getDropdownClassName = (uploadFile: UploadFile, field: keyof DocumentMetad
 
 const isValidSubscriptionRange = (metadata: DocumentMetadata) => {
   if (metadata.subscription_agreement_skipped) return true
+  if (metadata.subscription_agreement_auto_detect) return true
   const start = metadata.subscription_agreement_start_page
   const end = metadata.subscription_agreement_end_page
 
@@ -430,9 +686,18 @@ const isMetadataComplete = (metadata: DocumentMetadata) => {
   const canUpload = () => {
     const pendingFiles = files.filter(f => f.status === 'pending')
     return pendingFiles.length > 0 && 
-           pendingFiles.every(f => isMetadataComplete(f.metadata) && f.validation?.isValid !== false)
+           pendingFiles.every(f => isMetadataComplete(f.metadata) && f.validation?.isValid !== false && !hasUnresolvedDuplicate(f))
   }
 
+  const queuedKeys = new Set(files.map(f => manifestKey(f.file.name)))
+  const manifestSummary = manifest
+    ? {
+        matched: files.filter(f => f.manifestRow !== undefined).length,
+        unmatchedRows: Array.from(manifest.entries.values()).filter(entry => !queuedKeys.has(manifestKey(entry.filename))),
+        needsReview: files.filter(f => (f.manifestIssues?.length ?? 0) > 0).length
+      }
+    : null
+
   const getFileStatusIcon = (uploadFile: UploadFile) => {
     switch (uploadFile.status) {
       case 'validating':
@@ -485,6 +750,40 @@ const isMetadataComplete = (metadata: DocumentMetadata) => {
           </Alert>
         )}
 
+        {editableWorkspaces.length > 0 && (
+          <div className="flex items-center gap-3">
+            <Label htmlFor="upload-library" className="text-sm font-medium">Upload to</Label>
+            <Select value={targetLibrary} onValueChange={setTargetLibrary}>
+              <SelectTrigger id="upload-library" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="personal">Personal Library</SelectItem>
+                {editableWorkspaces.map(workspace => (
+                  <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Label htmlFor="upload-extraction" className="text-sm font-medium">Text extraction</Label>
+          <Select
+            value={extractionProvider}
+            onValueChange={(value) => setExtractionProvider(value as ExtractionProviderName | 'default')}
+          >
+            <SelectTrigger id="upload-extraction" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Default</SelectItem>
+              <SelectItem value="document-ai">Document AI</SelectItem>
+              <SelectItem value="local">Local (text layer + OCR)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
         <div
           className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
             isDragOver
@@ -511,6 +810,122 @@ const isMetadataComplete = (metadata: DocumentMetadata) => {
           />
         </div>
 
+        <div className="flex flex-wrap items-center gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => document.getElementById('manifest-upload')?.click()}
+            disabled={isReadingManifest}
+          >
+            {isReadingManifest ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+            )}
+            {manifest ? 'Replace Manifest' : 'Import Metadata Manifest'}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => document.getElementById('archive-upload')?.click()}
+            disabled={isUploadingArchive}
+          >
+            {isUploadingArchive ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileArchive className="h-4 w-4 mr-2" />
+            )}
+            {isUploadingArchive ? 'Expanding Archive...' : 'Upload ZIP Archive'}
+          </Button>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            CSV or XLSX with a filename column plus law firm, fund manager, fund admin, jurisdiction and subscription pages
+          </p>
+          <Input
+            id="archive-upload"
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              uploadArchive(e.target.files)
+              e.target.value = ''
+            }}
+          />
+          <Input
+            id="manifest-upload"
+            type="file"
+            accept={MANIFEST_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              handleManifestSelect(e.target.files)
+              e.target.value = ''
+            }}
+          />
+        </div>
+
+        {manifest && manifestSummary && (
+          <Alert>
+            <FileSpreadsheet className="h-4 w-4" />
+            <AlertDescription>
+              <div className="flex items-start justify-between gap-2">
+                <div className="space-y-1">
+                  <p>
+                    <span className="font-medium">{manifest.sourceName}</span>: {manifest.entries.size} row
+                    {manifest.entries.size === 1 ? '' : 's'}, {manifestSummary.matched} queued file
+                    {manifestSummary.matched === 1 ? '' : 's'} matched
+                    {manifestSummary.needsReview > 0 && `, ${manifestSummary.needsReview} need${manifestSummary.needsReview === 1 ? 's' : ''} review`}.
+                  </p>
+                  {manifestSummary.unmatchedRows.length > 0 && files.length > 0 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      No queued file for: {manifestSummary.unmatchedRows.slice(0, 5).map(entry => entry.filename).join(', ')}
+                      {manifestSummary.unmatchedRows.length > 5 && ` and ${manifestSummary.unmatchedRows.length - 5} more`}
+                    </p>
+                  )}
+                  {manifest.duplicateFilenames.length > 0 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Listed more than once (last row used): {manifest.duplicateFilenames.join(', ')}
+                    </p>
+                  )}
+                  {manifest.skippedRows.length > 0 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Rows without a filename were skipped: {manifest.skippedRows.join(', ')}
+                    </p>
+                  )}
+                  {manifest.ignoredColumns.length > 0 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Ignored columns: {manifest.ignoredColumns.join(', ')}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => setManifest(null)}
+                  aria-label="Dismiss manifest"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {archiveBatches.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Archive Uploads</h4>
+            {archiveBatches.map(batch => (
+              <ArchiveUploadProgress
+                key={batch.id}
+                batch={batch}
+                onDismiss={() => setArchiveBatches(prev => prev.filter(item => item.id !== batch.id))}
+                onComplete={onUploadComplete}
+              />
+            ))}
+          </div>
+        )}
+
         {files.length > 0 && (
           <div className="space-y-2">
             <div className="flex items-center justify-between">
@@ -544,6 +959,9 @@ const isMetadataComplete = (metadata: DocumentMetadata) => {
                           <p className="text-xs text-gray-500 capitalize">
                             {uploadFile.status}
                             {uploadFile.error && `: ${uploadFile.error}`}
+                            {uploadFile.linkedDocument && (
+                              <span className="normal-case"> (using existing &quot;{uploadFile.linkedDocument.title}&quot;)</span>
+                            )}
                           </p>
                           
                           {/* Validation status */}
@@ -618,6 +1036,86 @@ const isMetadataComplete = (metadata: DocumentMetadata) => {
                     </div>
                   )}
 
+                  {/* Byte-identical document already uploaded */}
+                  {uploadFile.status === 'pending' && uploadFile.duplicates && uploadFile.duplicates.length > 0 && (
+                    <Alert className="border-amber-200 bg-amber-50">
+                      <Copy className="h-4 w-4 text-amber-600" />
+                      <AlertDescription className="text-sm text-amber-800">
+                        <div className="font-medium">
+                          Identical file already uploaded as &quot;{uploadFile.duplicates[0]?.title}&quot;
+                          {uploadFile.duplicates.length > 1 && ` (and ${uploadFile.duplicates.length - 1} more)`}
+                        </div>
+                        {uploadFile.duplicateChoice ? (
+                          <p className="mt-1 text-xs">
+                            {uploadFile.duplicateChoice === 'version'
+                              ? 'Will be uploaded as a new version of the existing document.'
+                              : 'Will be uploaded as a separate document.'}
+                          </p>
+                        ) : (
+                          <div className="mt-2 flex flex-wrap gap-2">
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() => resolveDuplicate(uploadFile.id, 'link')}
+                            >
+                              Use Existing Document
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() => resolveDuplicate(uploadFile.id, 'version')}
+                            >
+                              Upload as New Version
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() => resolveDuplicate(uploadFile.id, 'proceed')}
+                            >
+                              Upload Anyway
+                            </Button>
+                          </div>
+                        )}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {/* Manifest values that did not match an option */}
+                  {uploadFile.status === 'pending' && uploadFile.manifestIssues && uploadFile.manifestIssues.length > 0 && (
+                    <Alert className="border-amber-200 bg-amber-50">
+                      <FileSpreadsheet className="h-4 w-4 text-amber-600" />
+                      <AlertDescription className="text-sm text-amber-800">
+                        <div className="font-medium">Manifest row {uploadFile.manifestRow} needs review:</div>
+                        <ul className="mt-1 space-y-1">
+                          {uploadFile.manifestIssues.map(issue => (
+                            <li key={issue.field} className="flex flex-wrap items-center gap-2">
+                              <span>{issue.message}</span>
+                              {issue.suggestions.length > 0 && <span className="text-xs">Did you mean</span>}
+                              {issue.suggestions.map(suggestion => (
+                                <Button
+                                  key={suggestion}
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-6 px-2 text-xs"
+                                  onClick={() => applySuggestion(uploadFile.id, issue, suggestion)}
+                                >
+                                  {suggestion}
+                                </Button>
+                              ))}
+                            </li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   {/* Metadata Dropdowns */}
                   {uploadFile.status === 'pending' && uploadFile.validation?.isValid && (
                     <div className="space-y-3">
@@ -709,7 +1207,7 @@ const isMetadataComplete = (metadata: DocumentMetadata) => {
                             )
                           }
                           className="h-8 w-20 text-xs"
-                          placeholder="From"
+                          placeholder={uploadFile.metadata.subscription_agreement_auto_detect ? 'Auto' : 'From'}
                           disabled={uploadFile.metadata.subscription_agreement_skipped}
                         />
                         <Input
@@ -724,9 +1222,18 @@ const isMetadataComplete = (metadata: DocumentMetadata) => {
                             )
                           }
                           className="h-8 w-20 text-xs"
-                          placeholder="To"
+                          placeholder={uploadFile.metadata.subscription_agreement_auto_detect ? 'Auto' : 'To'}
                           disabled={uploadFile.metadata.subscription_agreement_skipped}
                         />
+                        <label className="flex items-center gap-2 text-gray-600">
+                          <input
+                            type="checkbox"
+                            className="h-3 w-3"
+                            checked={uploadFile.metadata.subscription_agreement_auto_detect}
+                            onChange={(event) => toggleAutoDetectSubscriptionAgreement(uploadFile.id, event.target.checked)}
+                          />
+                          <span>Auto-detect</span>
+                        </label>
                         <label className="flex items-center gap-2 text-gray-600">
                           <input
                             type="checkbox"
@@ -763,7 +1270,9 @@ const isMetadataComplete = (metadata: DocumentMetadata) => {
                 ? 'Processing...'
                 : canUpload()
                   ? `Upload ${files.filter(f => f.status === 'pending').length} Files`
-                  : 'Complete all metadata fields to upload'
+                  : files.some(f => f.status === 'pending' && hasUnresolvedDuplicate(f))
+                    ? 'Resolve duplicate warnings to upload'
+                    : 'Complete all metadata fields to upload'
               }
             </Button>
             
@@ -1,18 +1,22 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Document } from '@/types'
+import { Document, type BusinessMetadata, type ExclusionRange, type ExclusionRangeType } from '@/types'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { SearchableSelect } from '@/components/ui/searchable-select'
-import { Building, Users, Briefcase, Globe, Loader2 } from 'lucide-react'
+import { Building, Users, Briefcase, Globe, Loader2, EyeOff, Plus, X } from 'lucide-react'
 import { clientLogger } from '@/lib/client-logger'
+import { getManualExclusionRanges } from '@/lib/exclusion-ranges'
 import { 
   LAW_FIRM_OPTIONS, 
   FUND_MANAGER_OPTIONS, 
   FUND_ADMIN_OPTIONS, 
   JURISDICTION_OPTIONS,
+  EXCLUSION_RANGE_TYPE_OPTIONS,
   type LawFirmOption,
   type FundManagerOption,
   type FundAdminOption,
@@ -33,10 +37,39 @@ interface EditableMetadata {
   jurisdiction: JurisdictionOption | ''
 }
 
+interface EditableExclusionRange {
+  key: number
+  type: ExclusionRangeType
+  start: string
+  end: string
+  label: string
+}
+
 const coerceMetadataValue = <T extends string>(value: unknown): T | '' => {
   return typeof value === 'string' && value.length > 0 ? (value as T) : ''
 }
 
+const toEditableRanges = (document: Document): EditableExclusionRange[] =>
+  getManualExclusionRanges(document.metadata as BusinessMetadata | undefined).map((range, index) => ({
+    key: index,
+    type: range.type,
+    start: String(range.start_page),
+    end: String(range.end_page),
+    label: range.label ?? ''
+  }))
+
+const parseRangePage = (value: string): number | null => {
+  const parsed = Number.parseInt(value, 10)
+  return Number.isFinite(parsed) && parsed >= 1 ? parsed : null
+}
+
+const isValidRange = (range: EditableExclusionRange, pageCount?: number | null) => {
+  const start = parseRangePage(range.start)
+  const end = parseRangePage(range.end)
+  if (start === null || end === null || end < start) return false
+  return !pageCount || end <= pageCount
+}
+
 export function EditDocumentMetadataModal({ 
   document: currentDocument, 
   isOpen, 
@@ -49,6 +82,7 @@ export function EditDocumentMetadataModal({
     fund_admin: '',
     jurisdiction: ''
   })
+  const [ranges, setRanges] = useState<EditableExclusionRange[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
 
@@ -61,6 +95,7 @@ export function EditDocumentMetadataModal({
         fund_admin: coerceMetadataValue<FundAdminOption>(currentDocument.metadata?.fund_admin),
         jurisdiction: coerceMetadataValue<JurisdictionOption>(currentDocument.metadata?.jurisdiction)
       })
+      setRanges(toEditableRanges(currentDocument))
       setError('')
     }
   }, [currentDocument, isOpen])
@@ -74,6 +109,7 @@ export function EditDocumentMetadataModal({
         fund_admin: coerceMetadataValue<FundAdminOption>(currentDocument.metadata?.fund_admin),
         jurisdiction: coerceMetadataValue<JurisdictionOption>(currentDocument.metadata?.jurisdiction)
       })
+      setRanges(toEditableRanges(currentDocument))
       setError('')
     } else if (!open) {
       onClose()
@@ -86,7 +122,23 @@ export function EditDocumentMetadataModal({
     return metadata.law_firm !== '' && 
            metadata.fund_manager !== '' && 
            metadata.fund_admin !== '' && 
-           metadata.jurisdiction !== ''
+           metadata.jurisdiction !== '' &&
+           ranges.every(range => isValidRange(range, currentDocument?.page_count))
+  }
+
+  const updateRange = (key: number, changes: Partial<EditableExclusionRange>) => {
+    setRanges(prev => prev.map(range => range.key === key ? { ...range, ...changes } : range))
+  }
+
+  const addRange = () => {
+    setRanges(prev => [
+      ...prev,
+      { key: prev.reduce((max, range) => Math.max(max, range.key), -1) + 1, type: 'cover', start: '', end: '', label: '' }
+    ])
+  }
+
+  const removeRange = (key: number) => {
+    setRanges(prev => prev.filter(range => range.key !== key))
   }
 
   const handleSave = async () => {
@@ -95,6 +147,14 @@ export function EditDocumentMetadataModal({
     setIsLoading(true)
     setError('')
 
+    const exclusionRanges: ExclusionRange[] = ranges.map(range => ({
+      type: range.type,
+      start_page: parseRangePage(range.start) ?? 1,
+      end_page: parseRangePage(range.end) ?? 1,
+      ...(range.label.trim() ? { label: range.label.trim() } : {})
+    }))
+    const hasSubscriptionRange = exclusionRanges.some(range => range.type === 'subscription_agreement')
+
     try {
       const response = await fetch(`/api/documents/${currentDocument.id}`, {
         method: 'PATCH',
@@ -107,7 +167,12 @@ export function EditDocumentMetadataModal({
             law_firm: metadata.law_firm,
             fund_manager: metadata.fund_manager,
             fund_admin: metadata.fund_admin,
-            jurisdiction: metadata.jurisdiction
+            jurisdiction: metadata.jurisdiction,
+            // The list replaces the upload form's single subscription range
+            exclusion_ranges: exclusionRanges,
+            subscription_agreement_start_page: undefined,
+            subscription_agreement_end_page: undefined,
+            ...(hasSubscriptionRange ? { subscription_agreement_skipped: false } : {})
           }
         }),
       })
@@ -223,6 +288,87 @@ export function EditDocumentMetadataModal({
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <EyeOff className="h-4 w-4" />
+              Excluded Pages
+            </Label>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Pages in these ranges are left out of similarity matching. Saving a change re-embeds only the affected pages.
+            </p>
+            {currentDocument.metadata?.subscription_agreement?.source === 'auto' &&
+              currentDocument.metadata.subscription_agreement.excluded && (
+              <p className="text-xs text-amber-700 dark:text-amber-300">
+                Subscription agreement pp. {currentDocument.metadata.subscription_agreement.start_page}–{currentDocument.metadata.subscription_agreement.end_page} is
+                excluded automatically. Add a Subscription Agreement range to override it.
+              </p>
+            )}
+            {ranges.map(range => (
+              <div key={range.key} className="flex flex-wrap items-center gap-2">
+                <Select
+                  value={range.type}
+                  onValueChange={(value: string) => updateRange(range.key, { type: value as ExclusionRangeType })}
+                >
+                  <SelectTrigger className="h-8 w-40 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXCLUSION_RANGE_TYPE_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value} className="text-xs">
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={1}
+                  value={range.start}
+                  onChange={event => updateRange(range.key, { start: event.target.value })}
+                  className="h-8 w-16 text-xs"
+                  placeholder="From"
+                  aria-label="First excluded page"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={range.end}
+                  onChange={event => updateRange(range.key, { end: event.target.value })}
+                  className="h-8 w-16 text-xs"
+                  placeholder="To"
+                  aria-label="Last excluded page"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => removeRange(range.key)}
+                  aria-label="Remove range"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+                {range.type === 'custom' && (
+                  <Input
+                    value={range.label}
+                    onChange={event => updateRange(range.key, { label: event.target.value })}
+                    className="h-8 text-xs"
+                    placeholder="Label (optional)"
+                  />
+                )}
+                {(range.start || range.end) && !isValidRange(range, currentDocument.page_count) && (
+                  <span className="w-full text-xs text-red-600">
+                    Enter a valid page range{currentDocument.page_count ? ` within 1–${currentDocument.page_count}` : ''}.
+                  </span>
+                )}
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" className="h-8 text-xs" onClick={addRange}>
+              <Plus className="h-3 w-3 mr-1" />
+              Add range
+            </Button>
+          </div>
+
         {error && (
           <div className="text-sm text-red-600 bg-red-50 dark:bg-red-950/50 p-3 rounded">
             {error}
@@ -15,6 +15,8 @@ import { AlertDialog, AlertDialogCancel, AlertDialogContent, AlertDialogDescript
 import { SearchableMultiSelect } from '@/components/ui/searchable-multi-select'
 import { SearchModeModal } from '@/components/similarity/search-mode-modal'
 import { EditDocumentMetadataModal } from './edit-document-metadata-modal'
+import { SubscriptionAgreementProposalNotice } from './subscription-agreement-proposal'
+import { ContentSearchResults } from './content-search-results'
 import {
   FileText,
   Target,
@@ -46,7 +48,11 @@ import {
   ChevronsLeft,
   ChevronsRight,
   Loader2,
-  RotateCcw
+  RotateCcw,
+  Layers,
+  FolderInput,
+  Copy,
+  History
 } from 'lucide-react'
 import {
   LAW_FIRM_OPTIONS, 
@@ -57,6 +63,7 @@ import {
 import { format } from 'date-fns'
 import { createClient as createSupabaseClient } from '@/lib/supabase/client'
 import { clientLogger } from '@/lib/client-logger'
+import type { WorkspaceSummary } from '@/lib/workspaces'
 
 interface DocumentListProps {
   refreshTrigger?: number
@@ -95,6 +102,8 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
   const [documents, setDocuments] = useState<Document[]>([])
   const [filteredDocuments, setFilteredDocuments] = useState<Document[]>([])
   const [searchQuery, setSearchQuery] = useState('')
+  // 'metadata' filters titles/filenames locally; 'content' runs full-text search over extracted text
+  const [searchMode, setSearchMode] = useState<'metadata' | 'content'>('metadata')
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [sortBy, setSortBy] = useState<string>('upload_time')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
@@ -105,6 +114,10 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
   const [fundManagerFilter, setFundManagerFilter] = useState<string[]>([])
   const [fundAdminFilter, setFundAdminFilter] = useState<string[]>([])
   const [jurisdictionFilter, setJurisdictionFilter] = useState<string[]>([])
+  // 'all', 'personal' or a workspace id (see /api/documents ?workspace=)
+  const [workspaceFilter, setWorkspaceFilter] = useState<string>('all')
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([])
+  const [isMovingDocuments, setIsMovingDocuments] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState('')
   const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set())
@@ -137,6 +150,7 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
 
   const [sourceForSelectionId, setSourceForSelectionId] = useState<string | null>(null)
   const [retryingDocuments, setRetryingDocuments] = useState<Set<string>>(new Set())
+  const [reviewingSubscription, setReviewingSubscription] = useState<string | null>(null)
   const [cancellingDocuments, setCancellingDocuments] = useState<Set<string>>(new Set())
   const [cancelDialogOpen, setCancelDialogOpen] = useState<string | null>(null)
   
@@ -166,7 +180,8 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
       if (showLoading) setIsLoading(true)
       setError('')
       
-      const response = await fetch('/api/documents', { cache: 'no-store' })
+      const query = workspaceFilter === 'all' ? '' : `?workspace=${encodeURIComponent(workspaceFilter)}`
+      const response = await fetch(`/api/documents${query}`, { cache: 'no-store' })
       
       if (!response.ok) {
         throw new Error(`Failed to fetch documents: ${response.status}`)
@@ -182,8 +197,38 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
     } finally {
       if (showLoading) setIsLoading(false)
     }
+  }, [workspaceFilter])
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadWorkspaces = async () => {
+      const response = await fetch('/api/workspaces', { cache: 'no-store' })
+      if (!response.ok) {
+        throw new Error(`Failed to fetch workspaces: ${response.status}`)
+      }
+
+      const data = await response.json() as { workspaces?: WorkspaceSummary[] }
+      if (!cancelled) {
+        setWorkspaces(data.workspaces ?? [])
+      }
+    }
+
+    loadWorkspaces().catch(err => clientLogger.error('Workspace fetch error:', err))
+    return () => {
+      cancelled = true
+    }
   }, [])
 
+  const workspaceNames = useMemo(
+    () => new Map(workspaces.map(workspace => [workspace.id, workspace.name])),
+    [workspaces]
+  )
+  const editableWorkspaces = useMemo(
+    () => workspaces.filter(workspace => workspace.role !== 'viewer'),
+    [workspaces]
+  )
+
   const handleDocumentUpdate = (updatedDocument: Document) => {
     setDocuments(prev => prev.map(doc => 
       doc.id === updatedDocument.id ? updatedDocument : doc
@@ -508,6 +553,37 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
     }
   }, [])
 
+  const handleReviewSubscriptionAgreement = useCallback(async (document: Document, action: 'confirm' | 'reject') => {
+    setReviewingSubscription(document.id)
+
+    try {
+      const response = await fetch(`/api/documents/${document.id}/subscription-agreement`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+
+      if (!response.ok) {
+        const { error: message } = await response.json().catch(() => ({ error: 'Failed to review subscription agreement' }))
+        throw new Error(message || 'Failed to review subscription agreement')
+      }
+
+      const { metadata, reprocessing } = await response.json() as { metadata: Document['metadata']; reprocessing: boolean }
+
+      setDocuments(prev => prev.map(doc =>
+        doc.id === document.id
+          ? { ...doc, metadata, ...(reprocessing ? { status: 'queued' as const } : {}) }
+          : doc
+      ))
+    } catch (error) {
+      clientLogger.error('Error reviewing subscription agreement:', error)
+      const message = error instanceof Error ? error.message : 'Failed to review subscription agreement. Please try again.'
+      alert(message)
+    } finally {
+      setReviewingSubscription(null)
+    }
+  }, [])
+
   // Enhanced status polling for processing documents
   useEffect(() => {
     const trackedStatuses: Document['status'][] = ['uploading', 'queued', 'processing', 'error']
@@ -754,6 +830,52 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
     }
   }
 
+  const moveSelectedDocuments = async (workspaceId: string | null) => {
+    if (selectedDocuments.size === 0) return
+
+    setIsMovingDocuments(true)
+    try {
+      const response = await fetch('/api/workspaces/documents', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentIds: Array.from(selectedDocuments), workspaceId })
+      })
+
+      const result = await response.json().catch(() => null) as {
+        error?: string
+        moved?: string[]
+        skipped?: Array<{ documentId: string; reason: string }>
+      } | null
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? 'Failed to move documents')
+      }
+
+      const skipped = result?.skipped ?? []
+      if (skipped.length > 0) {
+        const processing = skipped.filter(item => item.reason === 'processing').length
+        const forbidden = skipped.filter(item => item.reason === 'forbidden').length
+        const reasons = [
+          ...(processing > 0 ? [`${processing} still processing`] : []),
+          ...(forbidden > 0 ? [`${forbidden} uploaded by someone else`] : [])
+        ]
+        alert(
+          `Moved ${result?.moved?.length ?? 0} document(s). ${skipped.length} could not be moved` +
+          (reasons.length > 0 ? ` (${reasons.join(', ')}).` : '.')
+        )
+      }
+
+      setSelectedDocuments(new Set())
+      setIsSelectMode(false)
+      await fetchDocuments(false)
+    } catch (error) {
+      clientLogger.error('Error moving documents:', error)
+      alert(error instanceof Error ? error.message : 'Failed to move documents. Please try again.')
+    } finally {
+      setIsMovingDocuments(false)
+    }
+  }
+
   const deleteSelectedDocuments = async () => {
     if (selectedDocuments.size === 0) return
 
@@ -816,7 +938,7 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
   useEffect(() => {
     let filtered = documents.filter(doc => {
       // Search query filter
-      const matchesSearch = searchQuery === '' || 
+      const matchesSearch = searchMode === 'content' || searchQuery === '' || 
         doc.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
         doc.filename.toLowerCase().includes(searchQuery.toLowerCase())
       
@@ -866,7 +988,7 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
     setFilteredDocuments(filtered)
     // Reset to first page when filters change
     setCurrentPage(1)
-  }, [documents, searchQuery, statusFilter, lawFirmFilter, fundManagerFilter, fundAdminFilter, jurisdictionFilter, sortBy, sortOrder])
+  }, [documents, searchQuery, searchMode, statusFilter, lawFirmFilter, fundManagerFilter, fundAdminFilter, jurisdictionFilter, sortBy, sortOrder])
 
   // Calculate pagination
   const totalPages = Math.ceil(filteredDocuments.length / documentsPerPage)
@@ -947,7 +1069,7 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
 
   const statusCounts = useMemo(() => {
     const filteredByMetadata = documents.filter(doc => {
-      const matchesSearch = searchQuery === '' ||
+      const matchesSearch = searchMode === 'content' || searchQuery === '' ||
         doc.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
         doc.filename.toLowerCase().includes(searchQuery.toLowerCase())
 
@@ -972,7 +1094,7 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
       processing: filteredByMetadata.filter(d => ['uploading', 'queued', 'processing'].includes(d.status)).length,
       error: filteredByMetadata.filter(d => d.status === 'error').length,
     }
-  }, [documents, searchQuery, lawFirmFilter, fundManagerFilter, fundAdminFilter, jurisdictionFilter])
+  }, [documents, searchQuery, searchMode, lawFirmFilter, fundManagerFilter, fundAdminFilter, jurisdictionFilter])
 
   if (isLoading) {
     return (
@@ -1000,6 +1122,18 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
           <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Documents</h2>
         </div>
         <div className="flex items-center gap-2">
+          {!isSelectMode && (
+            <Button size="sm" variant="outline" onClick={() => router.push('/documents/semantic-search')}>
+              <Sparkles className="h-4 w-4 mr-2" />
+              Semantic Search
+            </Button>
+          )}
+          {!isSelectMode && (
+            <Button size="sm" variant="outline" onClick={() => router.push('/documents/duplicates')}>
+              <Layers className="h-4 w-4 mr-2" />
+              Duplicate Families
+            </Button>
+          )}
           {isSelectMode && (
             <>
               <Badge variant="secondary">
@@ -1038,6 +1172,31 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
               <Button size="sm" variant="outline" onClick={deselectAllDocuments}>
                 Deselect All
               </Button>
+              {selectedDocuments.size > 0 && !sourceForSelectionId && workspaces.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button size="sm" variant="outline" disabled={isMovingDocuments}>
+                      {isMovingDocuments ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <FolderInput className="h-4 w-4 mr-2" />
+                      )}
+                      Move to...
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent>
+                    <DropdownMenuItem onSelect={() => moveSelectedDocuments(null)}>
+                      Personal Library
+                    </DropdownMenuItem>
+                    {editableWorkspaces.length > 0 && <DropdownMenuSeparator />}
+                    {editableWorkspaces.map(workspace => (
+                      <DropdownMenuItem key={workspace.id} onSelect={() => moveSelectedDocuments(workspace.id)}>
+                        {workspace.name}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
               {selectedDocuments.size > 0 && !sourceForSelectionId && (
                 <AlertDialog open={showBulkDeleteDialog} onOpenChange={(open) => {
                   if (!open && !bulkDeleteState.isDeleting) {
@@ -1143,13 +1302,42 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
           <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" aria-hidden="true" />
             <Input
-              placeholder="Search documents..."
+              placeholder={searchMode === 'content' ? 'Search document text...' : 'Search documents...'}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-10"
-              aria-label="Search documents by title"
+              aria-label={searchMode === 'content' ? 'Search document content' : 'Search documents by title'}
             />
           </div>
+          {workspaces.length > 0 && (
+            <Select
+              value={workspaceFilter}
+              onValueChange={(value) => {
+                setWorkspaceFilter(value)
+                setCurrentPage(1)
+              }}
+            >
+              <SelectTrigger className="w-44" aria-label="Library">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Libraries</SelectItem>
+                <SelectItem value="personal">Personal Library</SelectItem>
+                {workspaces.map(workspace => (
+                  <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={searchMode} onValueChange={(value) => setSearchMode(value as 'metadata' | 'content')}>
+            <SelectTrigger className="w-36" aria-label="Search mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="metadata">Title & file</SelectItem>
+              <SelectItem value="content">Content</SelectItem>
+            </SelectContent>
+          </Select>
           <div className="flex items-center gap-2">
             <Button
               variant={showFilters ? "default" : "outline"}
@@ -1284,7 +1472,15 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
             </Card>
           )}
 
-          {filteredDocuments.length === 0 ? (
+          {searchMode === 'content' && searchQuery.trim() ? (
+            <ContentSearchResults
+              query={searchQuery}
+              lawFirms={lawFirmFilter}
+              fundManagers={fundManagerFilter}
+              fundAdmins={fundAdminFilter}
+              jurisdictions={jurisdictionFilter}
+            />
+          ) : filteredDocuments.length === 0 ? (
             <Card>
               <CardContent className="flex flex-col items-center justify-center p-12">
                 <FileText className="h-12 w-12 text-gray-400 mb-4" />
@@ -1362,6 +1558,33 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
                                     ? documentStatuses.get(document.id)?.phase || statusConfig.label
                                     : statusConfig.label}
                                   </Badge>
+                                  {document.workspace_id && workspaceNames.has(document.workspace_id) && (
+                                    <Badge variant="outline" className="flex items-center gap-1 flex-shrink-0">
+                                      <Users className="h-3 w-3" />
+                                      {workspaceNames.get(document.workspace_id)}
+                                    </Badge>
+                                  )}
+                                  {document.near_duplicate_of && (
+                                    <Badge
+                                      variant="outline"
+                                      className="flex items-center gap-1 flex-shrink-0 text-amber-700 border-amber-300 dark:text-amber-300 dark:border-amber-700"
+                                      title={`Same text as ${documents.find(item => item.id === document.near_duplicate_of)?.title ?? 'an earlier document'}`}
+                                    >
+                                      <Copy className="h-3 w-3" />
+                                      Near duplicate
+                                    </Badge>
+                                  )}
+                                  {(document.version_number ?? 1) > 1 || document.is_latest_version === false ? (
+                                    <Badge
+                                      variant="outline"
+                                      className="flex items-center gap-1 flex-shrink-0"
+                                      title={document.is_latest_version === false ? 'A newer version of this document exists' : 'Latest version'}
+                                    >
+                                      <History className="h-3 w-3" />
+                                      v{document.version_number ?? 1}
+                                      {document.is_latest_version === false && ' (superseded)'}
+                                    </Badge>
+                                  ) : null}
                                 </div>
 
                                 {/* Metadata Row */}
@@ -1404,6 +1627,15 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
                                   </div>
                                 )}
 
+                                {/* Subscription Agreement Proposal */}
+                                {document.status === 'completed' && document.metadata?.subscription_agreement_detection?.status === 'pending' && (
+                                  <SubscriptionAgreementProposalNotice
+                                    proposal={document.metadata.subscription_agreement_detection}
+                                    isReviewing={reviewingSubscription === document.id}
+                                    onReview={action => handleReviewSubscriptionAgreement(document, action)}
+                                  />
+                                )}
+
                                 {/* Enhanced Processing Status */}
                                 {document.status === 'processing' && documentStatuses.get(document.id) && (
                                   <div className="space-y-2">
@@ -20,13 +20,15 @@ import {
   Home,
   Files,
   Sparkles,
-  Menu
+  Menu,
+  Users
 } from 'lucide-react'
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: Home },
   { name: 'Upload Documents', href: '/dashboard', icon: Upload },
   { name: 'All Documents', href: '/documents', icon: Files },
+  { name: 'Workspaces', href: '/workspaces', icon: Users },
   { name: 'Search & Analysis', href: '/dashboard', icon: Search },
   { name: 'Analytics', href: '/dashboard', icon: BarChart3, badge: 'Soon' },
 ]
@@ -0,0 +1,294 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { SearchableMultiSelect } from '@/components/ui/searchable-multi-select'
+import { FileText, Loader2, Search, ExternalLink, Building, Users, Briefcase, Globe } from 'lucide-react'
+import {
+  LAW_FIRM_OPTIONS,
+  FUND_MANAGER_OPTIONS,
+  FUND_ADMIN_OPTIONS,
+  JURISDICTION_OPTIONS
+} from '@/lib/metadata-constants'
+import { clientLogger } from '@/lib/client-logger'
+import type { SemanticDocumentResult, SemanticPassage, SemanticSearchFilters } from '@/lib/semantic-search'
+
+type MetadataOption = {
+  value: string
+  label: string
+}
+
+// Passage text is the full chunk; cards show the start and expand on demand
+const PASSAGE_PREVIEW_LENGTH = 400
+
+const FILTER_FIELDS: Array<{
+  key: keyof SemanticSearchFilters
+  label: string
+  icon: typeof Building
+  options: ReadonlyArray<MetadataOption>
+  placeholder: string
+  searchPlaceholder: string
+}> = [
+  { key: 'law_firm', label: 'Law Firm', icon: Building, options: LAW_FIRM_OPTIONS, placeholder: 'Any law firm', searchPlaceholder: 'Search law firms...' },
+  { key: 'fund_manager', label: 'Fund Manager', icon: Users, options: FUND_MANAGER_OPTIONS, placeholder: 'Any fund manager', searchPlaceholder: 'Search fund managers...' },
+  { key: 'fund_admin', label: 'Fund Admin', icon: Briefcase, options: FUND_ADMIN_OPTIONS, placeholder: 'Any fund admin', searchPlaceholder: 'Search fund admins...' },
+  { key: 'jurisdiction', label: 'Jurisdiction', icon: Globe, options: JURISDICTION_OPTIONS, placeholder: 'Any jurisdiction', searchPlaceholder: 'Search jurisdictions...' }
+]
+
+const passagePage = (passage: SemanticPassage) => passage.start_page_number ?? passage.page_number ?? 1
+
+const formatPassagePages = (passage: SemanticPassage) => {
+  const start = passagePage(passage)
+  const end = passage.end_page_number ?? start
+  return end > start ? `pp. ${start}-${end}` : `p. ${start}`
+}
+
+/**
+ * Natural-language passage search across the library
+ * Posts the question to /api/documents/semantic-search and lists the best
+ * passages per document.
+ */
+export function SemanticSearchPanel() {
+  const [query, setQuery] = useState('')
+  const [filters, setFilters] = useState<SemanticSearchFilters>({})
+  const [results, setResults] = useState<SemanticDocumentResult[]>([])
+  const [hasSearched, setHasSearched] = useState(false)
+  const [isSearching, setIsSearching] = useState(false)
+  const [expandedPassages, setExpandedPassages] = useState<Set<string>>(new Set())
+  const [openingPassage, setOpeningPassage] = useState<string | null>(null)
+
+  const handleSearch = async () => {
+    const trimmedQuery = query.trim()
+    if (!trimmedQuery) return
+
+    setIsSearching(true)
+    try {
+      const response = await fetch('/api/documents/semantic-search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: trimmedQuery, filters })
+      })
+
+      if (!response.ok) {
+        throw new Error('Semantic search failed')
+      }
+
+      const data = await response.json() as { results: SemanticDocumentResult[] }
+      setResults(data.results)
+      setExpandedPassages(new Set())
+      setHasSearched(true)
+    } catch (error) {
+      clientLogger.error('Semantic search failed', error)
+      alert('Search failed. Please try again.')
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const togglePassage = (key: string) => {
+    setExpandedPassages(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  const openPassage = async (documentId: string, passage: SemanticPassage) => {
+    const key = `${documentId}:${passage.chunk_index}`
+    setOpeningPassage(key)
+    try {
+      const response = await fetch(`/api/documents/${documentId}/highlighted-pdf?chunks=${passage.chunk_index}`)
+      if (!response.ok) {
+        throw new Error('Failed to load document')
+      }
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      window.open(`${url}#page=${passagePage(passage)}`, '_blank')
+    } catch (error) {
+      clientLogger.error('Error opening passage:', error)
+      alert('Failed to open document. Please try again.')
+    } finally {
+      setOpeningPassage(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="card-enhanced">
+        <CardHeader>
+          <CardTitle className="text-lg">Ask the library</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" aria-hidden="true" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  handleSearch()
+                }
+              }}
+              placeholder="e.g. most favoured nation election with carve-out for employees"
+              className="pl-10"
+              aria-label="Search query"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Filters</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2">
+              {FILTER_FIELDS.map(field => {
+                const Icon = field.icon
+                return (
+                  <div key={field.key} className="space-y-1">
+                    <Label className="flex items-center gap-1 text-xs">
+                      <Icon className="h-3 w-3" />
+                      {field.label}
+                    </Label>
+                    <SearchableMultiSelect
+                      options={field.options}
+                      values={filters[field.key] ?? []}
+                      onValuesChange={(values) =>
+                        setFilters(prev => ({
+                          ...prev,
+                          [field.key]: values
+                        }))
+                      }
+                      placeholder={field.placeholder}
+                      searchPlaceholder={field.searchPlaceholder}
+                      className="h-7 text-xs"
+                    />
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleSearch} disabled={isSearching || !query.trim()}>
+              {isSearching ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Search className="h-4 w-4 mr-2" />
+              )}
+              Search
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {hasSearched && results.length === 0 && (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center p-12">
+            <FileText className="h-12 w-12 text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+              No matching passages
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Try rephrasing the question or removing filters.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {results.map(result => (
+        <Card key={result.document.id} className="card-enhanced" role="article" data-testid="semantic-search-result">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-blue-50 dark:bg-gradient-to-br dark:from-blue-900/60 dark:to-blue-800/40 rounded-lg border dark:border-blue-700/30" aria-hidden="true">
+                <FileText className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3 className="truncate text-base font-semibold text-gray-900 dark:text-white">
+                  {result.document.title}
+                </h3>
+                <p className="truncate text-xs text-gray-500 dark:text-gray-400">
+                  {[
+                    resolveOptionLabel(result.document.metadata?.law_firm, LAW_FIRM_OPTIONS),
+                    resolveOptionLabel(result.document.metadata?.fund_manager, FUND_MANAGER_OPTIONS),
+                    resolveOptionLabel(result.document.metadata?.fund_admin, FUND_ADMIN_OPTIONS),
+                    resolveOptionLabel(result.document.metadata?.jurisdiction, JURISDICTION_OPTIONS)
+                  ].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <Badge variant="secondary" className="flex-shrink-0">
+                {Math.round(result.score * 100)}% best match
+              </Badge>
+            </div>
+
+            <div className="space-y-2">
+              {result.passages.map(passage => {
+                const key = `${result.document.id}:${passage.chunk_index}`
+                const isExpanded = expandedPassages.has(key)
+                const isLong = passage.text.length > PASSAGE_PREVIEW_LENGTH
+
+                return (
+                  <div key={key} className="flex items-start gap-3 rounded-md border border-gray-100 dark:border-gray-700 p-3">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed whitespace-pre-line">
+                        {isExpanded || !isLong ? passage.text : `${passage.text.slice(0, PASSAGE_PREVIEW_LENGTH)}…`}
+                      </p>
+                      <div className="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+                        <span>{Math.round(passage.score * 100)}% match</span>
+                        {isLong && (
+                          <button
+                            type="button"
+                            className="text-blue-600 hover:underline dark:text-blue-400"
+                            onClick={() => togglePassage(key)}
+                          >
+                            {isExpanded ? 'Show less' : 'Show more'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 flex-shrink-0 text-xs"
+                      onClick={() => openPassage(result.document.id, passage)}
+                      disabled={openingPassage === key}
+                      aria-label={`Open ${result.document.title} at ${formatPassagePages(passage)}`}
+                    >
+                      {openingPassage === key ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <ExternalLink className="h-3 w-3 mr-1" />
+                      )}
+                      {formatPassagePages(passage)}
+                    </Button>
+                  </div>
+                )
+              })}
+              {result.passage_count > result.passages.length && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {result.passage_count - result.passages.length} more matching {result.passage_count - result.passages.length === 1 ? 'passage' : 'passages'} in this document
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
+
+const resolveOptionLabel = (
+  value: string | null | undefined,
+  options: ReadonlyArray<MetadataOption>
+): string => {
+  if (!value) {
+    return ''
+  }
+  return options.find(option => option.value === value)?.label ?? value
+}
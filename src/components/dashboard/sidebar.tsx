@@ -5,7 +5,7 @@ import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
 import { ThemeToggle } from '@/components/ui/theme-toggle'
 import { createClient } from '@/lib/supabase/client'
-import { LogOut } from 'lucide-react'
+import { LayoutDashboard, LogOut, ShieldCheck, Users } from 'lucide-react'
 import Image from 'next/image'
 import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
@@ -21,11 +21,20 @@ type NavigationItem = {
   badge?: string
 }
 
-const navigation: NavigationItem[] = []
+const navigation: NavigationItem[] = [
+  { name: 'Workspaces', href: '/workspaces', icon: Users }
+]
+
+// Shown only to users whose profile role is 'admin'; the pages re-check server side
+const adminNavigation: NavigationItem[] = [
+  { name: 'Admin Console', href: '/admin', icon: LayoutDashboard },
+  { name: 'Activity Audit', href: '/admin/audit', icon: ShieldCheck }
+]
 
 export function Sidebar() {
   const [isLoading, setIsLoading] = useState(false)
   const [isDark, setIsDark] = useState(false)
+  const [isAdminUser, setIsAdminUser] = useState(false)
   const pathname = usePathname()
   const router = useRouter()
   const supabase = createClient()
@@ -48,6 +57,30 @@ export function Sidebar() {
     return () => observer.disconnect()
   }, [])
 
+  useEffect(() => {
+    let cancelled = false
+
+    const loadRole = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      const { data } = await supabase
+        .from('users')
+        .select('role')
+        .eq('id', user.id)
+        .maybeSingle<{ role: string | null }>()
+
+      if (!cancelled) {
+        setIsAdminUser(data?.role === 'admin')
+      }
+    }
+
+    loadRole().catch(error => clientLogger.error('Error loading user role', error))
+    return () => {
+      cancelled = true
+    }
+  }, [supabase])
+
   const handleLogout = async () => {
     setIsLoading(true)
     try {
@@ -86,7 +119,7 @@ export function Sidebar() {
 
       {/* Navigation */}
       <nav className="flex-1 space-y-1 px-3 py-4">
-        {navigation.map((item) => {
+        {[...navigation, ...(isAdminUser ? adminNavigation : [])].map((item) => {
           const isActive = pathname === item.href
           return (
             <Link
@@ -0,0 +1,49 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Loader2, ScanSearch } from 'lucide-react'
+import type { SubscriptionAgreementProposal } from '@/types'
+
+interface SubscriptionAgreementProposalNoticeProps {
+  proposal: SubscriptionAgreementProposal
+  isReviewing: boolean
+  onReview: (action: 'confirm' | 'reject') => void
+}
+
+/**
+ * Inline prompt asking the user to confirm the auto-detected subscription agreement span.
+ * Applied proposals are already excluded from search; unapplied ones fell below the confidence bar.
+ */
+export function SubscriptionAgreementProposalNotice({
+  proposal,
+  isReviewing,
+  onReview
+}: SubscriptionAgreementProposalNoticeProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-amber-700 dark:text-amber-300">
+      <ScanSearch className="h-3 w-3" />
+      <span>
+        Subscription agreement detected pp. {proposal.start_page}–{proposal.end_page}
+        {' '}({proposal.applied ? 'excluded from search' : 'not excluded'}, {Math.round(proposal.confidence * 100)}% confidence)
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-6 px-2 text-xs"
+        disabled={isReviewing}
+        onClick={() => onReview('confirm')}
+      >
+        {isReviewing ? <Loader2 className="h-3 w-3 animate-spin" /> : proposal.applied ? 'Confirm' : 'Exclude pages'}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs"
+        disabled={isReviewing}
+        onClick={() => onReview('reject')}
+      >
+        {proposal.applied ? 'Not a subscription agreement' : 'Dismiss'}
+      </Button>
+    </div>
+  )
+}
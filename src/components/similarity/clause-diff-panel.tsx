@@ -0,0 +1,189 @@
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Loader2, FileDiff, AlertTriangle } from 'lucide-react'
+import type { ClauseDiff, ClauseDiffSegment, SectionMatch } from '@/lib/similarity/types'
+import { clientLogger } from '@/lib/client-logger'
+
+interface ClauseDiffPanelProps {
+  sourceDocumentId: string
+  targetDocumentId: string
+  sections: SectionMatch[]
+}
+
+interface ClauseDiffResponse {
+  clauses: ClauseDiff[]
+  summary: {
+    total_clauses: number
+    changed_clauses: number
+    identical_clauses: number
+    missing_chunks: number
+  }
+}
+
+export function ClauseDiffPanel({ sourceDocumentId, targetDocumentId, sections }: ClauseDiffPanelProps) {
+  const diffableSections = sections.filter(section => (section.chunkPairs?.length ?? 0) > 0)
+  const [activeSection, setActiveSection] = useState<number | null>(null)
+  const [diffs, setDiffs] = useState<Record<number, ClauseDiffResponse>>({})
+  const [loadingSection, setLoadingSection] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [changedOnly, setChangedOnly] = useState(true)
+
+  const loadSection = async (sectionIndex: number) => {
+    setActiveSection(sectionIndex)
+    setError(null)
+    if (diffs[sectionIndex]) return
+
+    const section = diffableSections[sectionIndex]
+    if (!section?.chunkPairs) return
+
+    setLoadingSection(sectionIndex)
+    try {
+      const response = await fetch(`/api/documents/${sourceDocumentId}/clause-diff`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targetDocumentId,
+          chunkPairs: section.chunkPairs
+        })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(typeof data.error === 'string' ? data.error : 'Failed to load clause diff')
+      }
+
+      const data = await response.json() as ClauseDiffResponse
+      setDiffs(prev => ({ ...prev, [sectionIndex]: data }))
+    } catch (loadError) {
+      clientLogger.error('Clause diff load failed', loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load clause diff')
+    } finally {
+      setLoadingSection(null)
+    }
+  }
+
+  const renderSegments = (segments: ClauseDiffSegment[], side: 'source' | 'target') =>
+    segments
+      .filter(segment => segment.type === 'equal' || segment.type === (side === 'source' ? 'delete' : 'insert'))
+      .map((segment, index) => {
+        if (segment.type === 'equal') {
+          return <span key={index}>{segment.text}</span>
+        }
+        return side === 'source' ? (
+          <del key={index} className="bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300">
+            {segment.text}
+          </del>
+        ) : (
+          <ins key={index} className="no-underline bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300">
+            {segment.text}
+          </ins>
+        )
+      })
+      .flatMap((node, index, all) => (index < all.length - 1 ? [node, ' '] : [node]))
+
+  if (diffableSections.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <AlertTriangle className="h-3 w-3" />
+        No aligned clauses available for this result. Re-run the search to enable clause comparison.
+      </div>
+    )
+  }
+
+  const activeDiff = activeSection !== null ? diffs[activeSection] : undefined
+  const visibleClauses = activeDiff
+    ? activeDiff.clauses.filter(clause =>
+        !changedOnly || clause.stats.insertedWords > 0 || clause.stats.deletedWords > 0
+      )
+    : []
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <FileDiff className="h-4 w-4 text-gray-500" />
+        <span className="text-xs font-medium text-gray-700 dark:text-gray-300">Matched sections:</span>
+        {diffableSections.map((section, index) => (
+          <Button
+            key={`${section.docA_pageRange}-${section.docB_pageRange}-${index}`}
+            variant={activeSection === index ? 'default' : 'outline'}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => loadSection(index)}
+            disabled={loadingSection !== null}
+          >
+            p. {section.docA_pageRange} ↔ p. {section.docB_pageRange}
+            <span className="ml-1 opacity-70">{Math.round(section.avgScore * 100)}%</span>
+          </Button>
+        ))}
+      </div>
+
+      {loadingSection !== null && (
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Comparing clauses...
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-destructive">{error}</p>
+      )}
+
+      {activeDiff && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <Badge variant="outline">{activeDiff.summary.total_clauses} clauses</Badge>
+            <Badge className="bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-300">
+              {activeDiff.summary.changed_clauses} edited
+            </Badge>
+            <Badge className="bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300">
+              {activeDiff.summary.identical_clauses} identical
+            </Badge>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-xs ml-auto"
+              onClick={() => setChangedOnly(prev => !prev)}
+            >
+              {changedOnly ? 'Show all clauses' : 'Show edited clauses only'}
+            </Button>
+          </div>
+
+          {visibleClauses.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              All clauses in this section are word-for-word identical.
+            </p>
+          ) : (
+            visibleClauses.map(clause => (
+              <div
+                key={`${clause.sourceChunkIndex}-${clause.targetChunkIndex}`}
+                className="grid grid-cols-1 md:grid-cols-2 gap-2 rounded-md border border-gray-200 dark:border-gray-700 p-2"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between text-[11px] uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                    <span>Source · p. {clause.sourcePages}</span>
+                    <span>−{clause.stats.deletedWords} words</span>
+                  </div>
+                  <p className="text-xs leading-relaxed text-gray-800 dark:text-gray-200 whitespace-pre-wrap">
+                    {renderSegments(clause.segments, 'source')}
+                  </p>
+                </div>
+                <div className="space-y-1 md:border-l md:border-gray-200 md:dark:border-gray-700 md:pl-2">
+                  <div className="flex items-center justify-between text-[11px] uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                    <span>Target · p. {clause.targetPages}</span>
+                    <span>+{clause.stats.insertedWords} words · {Math.round(clause.score * 100)}% match</span>
+                  </div>
+                  <p className="text-xs leading-relaxed text-gray-800 dark:text-gray-200 whitespace-pre-wrap">
+                    {renderSegments(clause.segments, 'target')}
+                  </p>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,318 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Loader2, Play, RefreshCw, Layers, FileText, AlertTriangle, Trash2 } from 'lucide-react'
+import { formatUploadDate } from '@/lib/date-utils'
+import { clientLogger } from '@/lib/client-logger'
+import type { DuplicatePairSection, DuplicateScanStatus } from '@/lib/similarity/duplicate-scans'
+
+interface DuplicateScanSummary {
+  id: string
+  status: DuplicateScanStatus
+  threshold: number
+  next_index: number
+  pair_count: number
+  cluster_count: number
+  failed_document_ids: string[]
+  error_message: string | null
+  created_at: string
+  completed_at: string | null
+  total_documents?: number
+}
+
+interface DuplicateFamily {
+  id: string
+  size: number
+  edge_count: number
+  max_score: number
+  avg_score: number
+  members: Array<{ id: string; title: string; filename: string; page_count: number | null; created_at: string }>
+  pairs: Array<{
+    document_a_id: string
+    document_b_id: string
+    document_a_score: number
+    document_b_score: number
+    max_score: number
+  }>
+  top_sections: Array<DuplicatePairSection & { document_a_id: string; document_b_id: string }>
+}
+
+// Running scans advance one worker batch at a time; poll gently
+const POLL_INTERVAL_MS = 5000
+
+const formatPercent = (value: number) => `${(Number(value) * 100).toFixed(1)}%`
+
+export function DuplicateClusters() {
+  const [scans, setScans] = useState<DuplicateScanSummary[]>([])
+  const [activeScan, setActiveScan] = useState<DuplicateScanSummary | null>(null)
+  const [families, setFamilies] = useState<DuplicateFamily[]>([])
+  const [thresholdPercent, setThresholdPercent] = useState(80)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isStarting, setIsStarting] = useState(false)
+
+  const loadScans = useCallback(async () => {
+    try {
+      const response = await fetch('/api/duplicate-scans')
+      if (!response.ok) {
+        throw new Error('Failed to load duplicate scans')
+      }
+      const data = await response.json()
+      const nextScans: DuplicateScanSummary[] = Array.isArray(data.scans) ? data.scans : []
+      setScans(nextScans)
+
+      const latestCompleted = nextScans.find(scan => scan.status === 'completed')
+      if (!latestCompleted) {
+        setActiveScan(null)
+        setFamilies([])
+        return
+      }
+
+      const detailResponse = await fetch(`/api/duplicate-scans/${latestCompleted.id}`)
+      if (!detailResponse.ok) {
+        throw new Error('Failed to load duplicate families')
+      }
+      const detail = await detailResponse.json()
+      setActiveScan(detail.scan ?? latestCompleted)
+      setFamilies(Array.isArray(detail.clusters) ? detail.clusters : [])
+    } catch (error) {
+      clientLogger.error('Failed to load duplicate families', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadScans()
+  }, [loadScans])
+
+  const runningScan = scans.find(scan => scan.status === 'queued' || scan.status === 'processing') ?? null
+  const runningScanId = runningScan?.id
+
+  useEffect(() => {
+    if (!runningScanId) return
+    const timer = setInterval(loadScans, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [runningScanId, loadScans])
+
+  const handleStartScan = async () => {
+    setIsStarting(true)
+    try {
+      const response = await fetch('/api/duplicate-scans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ threshold: thresholdPercent / 100 })
+      })
+      if (!response.ok && response.status !== 409) {
+        throw new Error('Failed to start duplicate scan')
+      }
+      await loadScans()
+    } catch (error) {
+      clientLogger.error('Failed to start duplicate scan', error)
+      alert('Failed to start duplicate scan. Please try again.')
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const handleDeleteScan = async (scanId: string) => {
+    if (!confirm('Delete this scan and its duplicate families?')) return
+
+    try {
+      const response = await fetch(`/api/duplicate-scans/${scanId}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to delete duplicate scan')
+      }
+      await loadScans()
+    } catch (error) {
+      clientLogger.error('Failed to delete duplicate scan', error)
+      alert('Failed to delete duplicate scan. Please try again.')
+    }
+  }
+
+  const titleFor = (family: DuplicateFamily, documentId: string) =>
+    family.members.find(member => member.id === documentId)?.title ?? 'Deleted document'
+
+  return (
+    <div className="space-y-6">
+      <Card className="card-enhanced">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-purple-500" />
+            Library Duplicate Scan
+          </CardTitle>
+          <CardDescription>
+            Compares every completed document against the rest of your library and groups pairs whose
+            source or target score clears the threshold into families.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="duplicate-threshold">Threshold (%)</Label>
+              <Input
+                id="duplicate-threshold"
+                type="number"
+                min={50}
+                max={100}
+                value={thresholdPercent}
+                onChange={event => setThresholdPercent(Math.min(100, Math.max(50, Number(event.target.value) || 50)))}
+                className="w-28"
+              />
+            </div>
+            <Button onClick={handleStartScan} disabled={isStarting || runningScan !== null}>
+              {isStarting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+              Run scan
+            </Button>
+            <Button variant="outline" onClick={loadScans} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+
+          {runningScan && (
+            <div className="flex items-center gap-2 rounded-md border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800 dark:border-blue-800 dark:bg-blue-950/30 dark:text-blue-300">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {runningScan.status === 'queued' && runningScan.next_index === 0
+                ? 'Scan queued, waiting for a worker...'
+                : `Scanning... ${runningScan.next_index} documents processed, ${runningScan.pair_count} pairs found so far.`}
+            </div>
+          )}
+
+          {scans[0]?.status === 'failed' && (
+            <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-950/30 dark:text-red-300">
+              <AlertTriangle className="h-4 w-4" />
+              Last scan failed: {scans[0].error_message ?? 'Unknown error'}
+            </div>
+          )}
+
+          {activeScan && (
+            <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <span>
+                Showing scan from {formatUploadDate(activeScan.completed_at ?? activeScan.created_at)}
+                {' · '}threshold {formatPercent(activeScan.threshold)}
+                {activeScan.total_documents !== undefined && ` · ${activeScan.total_documents} documents`}
+                {' · '}{activeScan.pair_count} pairs
+                {activeScan.failed_document_ids.length > 0 && ` · ${activeScan.failed_document_ids.length} skipped`}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs text-destructive"
+                onClick={() => handleDeleteScan(activeScan.id)}
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                Delete scan
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-12">
+          <Loader2 className="h-8 w-8 animate-spin text-purple-500" />
+        </div>
+      ) : !activeScan ? (
+        <Card className="card-enhanced">
+          <CardContent className="py-12 text-center text-gray-500 dark:text-gray-400">
+            No completed scans yet. Run a scan to find near-duplicate families in your library.
+          </CardContent>
+        </Card>
+      ) : families.length === 0 ? (
+        <Card className="card-enhanced">
+          <CardContent className="py-12 text-center text-gray-500 dark:text-gray-400">
+            No document pairs met the {formatPercent(activeScan.threshold)} threshold.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {families.map((family, index) => (
+            <Card key={family.id} className="card-enhanced">
+              <CardHeader className="pb-3">
+                <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+                  Family {index + 1}
+                  <Badge variant="outline">{family.members.length} documents</Badge>
+                  <Badge variant="outline">{family.edge_count} pairs</Badge>
+                  <Badge className="bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300">
+                    Max {formatPercent(family.max_score)}
+                  </Badge>
+                  <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                    avg {formatPercent(family.avg_score)}
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                <div className="space-y-1">
+                  <h4 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">Members</h4>
+                  {family.members.map(member => (
+                    <div key={member.id} className="flex items-center justify-between gap-2">
+                      <Link
+                        href={`/documents/${member.id}/similar`}
+                        className="flex items-center gap-2 text-blue-700 hover:underline dark:text-blue-300"
+                      >
+                        <FileText className="h-4 w-4" />
+                        {member.title}
+                      </Link>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {member.page_count ? `${member.page_count} pages · ` : ''}{formatUploadDate(member.created_at)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-1">
+                  <h4 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">Pairs</h4>
+                  {family.pairs.map(pair => (
+                    <div
+                      key={`${pair.document_a_id}-${pair.document_b_id}`}
+                      className="flex flex-wrap items-center justify-between gap-2 text-xs"
+                    >
+                      <span className="text-gray-700 dark:text-gray-300">
+                        {titleFor(family, pair.document_a_id)} ↔ {titleFor(family, pair.document_b_id)}
+                      </span>
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {formatPercent(pair.document_a_score)} / {formatPercent(pair.document_b_score)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                {family.top_sections.length > 0 && (
+                  <div className="space-y-1">
+                    <h4 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">
+                      Strongest shared sections
+                    </h4>
+                    {family.top_sections.map((section, sectionIndex) => (
+                      <div
+                        key={`${section.document_a_id}-${section.document_b_id}-${sectionIndex}`}
+                        className="flex flex-wrap items-center justify-between gap-2 rounded border border-gray-200 p-2 text-xs dark:border-gray-700"
+                      >
+                        <span className="text-gray-700 dark:text-gray-300">
+                          {titleFor(family, section.document_a_id)} p. {section.docA_pageRange}
+                          {' ↔ '}
+                          {titleFor(family, section.document_b_id)} p. {section.docB_pageRange}
+                        </span>
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {section.chunkCount} chunks · {formatPercent(section.avgScore)}
+                          {section.reusable && (
+                            <Badge variant="outline" className="ml-2">Reusable</Badge>
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { FileDown, Loader2 } from 'lucide-react'
+import { clientLogger } from '@/lib/client-logger'
+import type { SimilarityExportFormat } from '@/lib/similarity/result-export'
+
+interface ExportResultsMenuProps {
+  documentId: string
+  searchId: string | null
+}
+
+const EXPORT_OPTIONS: Array<{ format: SimilarityExportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'pdf', label: 'PDF report' }
+]
+
+/**
+ * Download the stored run behind the current results
+ * Disabled until the run has been persisted (search_id is known).
+ */
+export function ExportResultsMenu({ documentId, searchId }: ExportResultsMenuProps) {
+  const [exportingFormat, setExportingFormat] = useState<SimilarityExportFormat | null>(null)
+
+  const handleExport = async (format: SimilarityExportFormat) => {
+    if (!searchId) return
+
+    setExportingFormat(format)
+    try {
+      const response = await fetch(`/api/documents/${documentId}/similarity-searches/${searchId}/export?format=${format}`)
+      if (!response.ok) {
+        throw new Error('Failed to export results')
+      }
+
+      const disposition = response.headers.get('Content-Disposition') ?? ''
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `similarity-results.${format}`
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const link = window.document.createElement('a')
+      link.href = url
+      link.download = filename
+      window.document.body.appendChild(link)
+      link.click()
+      window.document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+    } catch (error) {
+      clientLogger.error('Failed to export similarity results', error)
+      alert('Failed to export results. Please try again.')
+    } finally {
+      setExportingFormat(null)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!searchId || exportingFormat !== null}
+          title={searchId ? 'Export results' : 'Results are exported from the saved search once it is stored'}
+        >
+          {exportingFormat ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_OPTIONS.map(option => (
+          <DropdownMenuItem key={option.format} onSelect={() => handleExport(option.format)}>
+            {option.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,200 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { AlertTriangle, Loader2 } from 'lucide-react'
+import type { SectionMatch } from '@/lib/similarity/types'
+import { clientLogger } from '@/lib/client-logger'
+
+interface ViewerDocument {
+  id: string
+  title: string
+}
+
+interface MatchedSectionsViewerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  sourceDocument: ViewerDocument
+  targetDocument: ViewerDocument
+  sections: SectionMatch[]
+}
+
+interface PaneState {
+  url: string
+  page: number
+  regionCount: number
+}
+
+const firstPage = (pageRange: string) => {
+  const page = Number.parseInt(pageRange.split('-')[0] ?? '', 10)
+  return Number.isFinite(page) && page > 0 ? page : 1
+}
+
+/**
+ * Side-by-side source/target PDFs scrolled to the selected SectionMatch
+ * Each pane shows a server-rendered copy of the PDF with the section's chunk
+ * regions highlighted (see /api/documents/[id]/highlighted-pdf).
+ */
+export function MatchedSectionsViewer({
+  open,
+  onOpenChange,
+  sourceDocument,
+  targetDocument,
+  sections
+}: MatchedSectionsViewerProps) {
+  const [activeSection, setActiveSection] = useState(0)
+  const [panes, setPanes] = useState<{ source: PaneState; target: PaneState } | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Object URLs are cached per section and revoked when the viewer closes
+  const cacheRef = useRef(new Map<string, { url: string; regionCount: number }>())
+
+  useEffect(() => {
+    if (!open) return
+
+    const cache = cacheRef.current
+    return () => {
+      cache.forEach(entry => window.URL.revokeObjectURL(entry.url))
+      cache.clear()
+      setPanes(null)
+    }
+  }, [open])
+
+  useEffect(() => {
+    if (!open) return
+
+    const section = sections[activeSection]
+    if (!section) return
+
+    let cancelled = false
+
+    const loadPane = async (documentId: string, chunkIndexes: number[]) => {
+      const query = Array.from(new Set(chunkIndexes)).sort((a, b) => a - b).join(',')
+      const key = `${documentId}:${query}`
+      const cached = cacheRef.current.get(key)
+      if (cached) return cached
+
+      const response = await fetch(`/api/documents/${documentId}/highlighted-pdf?chunks=${query}`)
+      if (!response.ok) {
+        throw new Error('Failed to load document')
+      }
+
+      const blob = await response.blob()
+      const entry = {
+        url: window.URL.createObjectURL(blob),
+        regionCount: Number(response.headers.get('X-Highlight-Region-Count') ?? 0)
+      }
+      cacheRef.current.set(key, entry)
+      return entry
+    }
+
+    const loadSection = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const pairs = section.chunkPairs ?? []
+        const [source, target] = await Promise.all([
+          loadPane(sourceDocument.id, pairs.map(pair => pair.sourceChunkIndex)),
+          loadPane(targetDocument.id, pairs.map(pair => pair.targetChunkIndex))
+        ])
+
+        if (cancelled) return
+
+        setPanes({
+          source: {
+            ...source,
+            page: pairs.length > 0
+              ? Math.min(...pairs.map(pair => pair.sourcePageNumber))
+              : firstPage(section.docA_pageRange)
+          },
+          target: {
+            ...target,
+            page: pairs.length > 0
+              ? Math.min(...pairs.map(pair => pair.targetPageNumber))
+              : firstPage(section.docB_pageRange)
+          }
+        })
+      } catch (loadError) {
+        if (cancelled) return
+        clientLogger.error('Matched section viewer load failed', loadError)
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load documents')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadSection()
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, activeSection, sections, sourceDocument.id, targetDocument.id])
+
+  const missingHighlights = panes !== null &&
+    (sections[activeSection]?.chunkPairs?.length ?? 0) > 0 &&
+    (panes.source.regionCount === 0 || panes.target.regionCount === 0)
+
+  const renderPane = (label: string, title: string, pane: PaneState | undefined) => (
+    <div className="flex min-h-0 flex-1 flex-col gap-1">
+      <div className="truncate text-xs font-medium text-gray-700 dark:text-gray-300">
+        {label} · {title}{pane ? ` · p. ${pane.page}` : ''}
+      </div>
+      <div className="min-h-0 flex-1 overflow-hidden rounded-md border border-gray-200 dark:border-gray-700">
+        {pane && (
+          // Keyed on the URL so the viewer reloads and jumps to the new page
+          <iframe
+            key={`${pane.url}#page=${pane.page}`}
+            src={`${pane.url}#page=${pane.page}`}
+            title={`${label} document`}
+            className="h-full w-full"
+          />
+        )}
+      </div>
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[90vh] max-w-[95vw] flex-col gap-3">
+        <DialogHeader>
+          <DialogTitle>Matched Sections</DialogTitle>
+          <DialogDescription>
+            {sourceDocument.title} ↔ {targetDocument.title}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {sections.map((section, index) => (
+            <Button
+              key={`${section.docA_pageRange}-${section.docB_pageRange}-${index}`}
+              variant={activeSection === index ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setActiveSection(index)}
+              disabled={isLoading}
+            >
+              p. {section.docA_pageRange} ↔ p. {section.docB_pageRange}
+              <span className="ml-1 opacity-70">{Math.round(section.avgScore * 100)}%</span>
+            </Button>
+          ))}
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+        </div>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {missingHighlights && (
+          <div className="flex items-center gap-2 text-xs text-amber-700 dark:text-amber-300">
+            <AlertTriangle className="h-3 w-3" />
+            Highlight positions are missing for one of these documents. Reprocess it to enable highlighting.
+          </div>
+        )}
+
+        <div className="flex min-h-0 flex-1 flex-col gap-3 md:flex-row">
+          {renderPane('Source', sourceDocument.title, panes?.source)}
+          {renderPane('Target', targetDocument.title, panes?.target)}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,210 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { History, Loader2, FolderOpen, Trash2, AlertTriangle } from 'lucide-react'
+import { formatUploadDate } from '@/lib/date-utils'
+import { clientLogger } from '@/lib/client-logger'
+import type { SimilaritySearchSummary, StoredSimilaritySearch } from '@/lib/similarity/search-history'
+
+interface RecentSearchesProps {
+  documentId: string
+  refreshToken?: number
+  activeSearchId?: string | null
+  onOpen: (search: StoredSimilaritySearch) => void
+}
+
+const RETRIEVAL_MODE_LABELS: Record<string, string> = {
+  dense: 'Semantic',
+  sparse: 'Keyword',
+  hybrid: 'Hybrid'
+}
+
+const STALE_REASON_LABELS: Record<string, string> = {
+  source_reprocessed: 'Source document reprocessed',
+  target_reprocessed: 'A result document was reprocessed'
+}
+
+const describeOptions = (search: SimilaritySearchSummary): string[] => {
+  const options = search.options ?? {}
+  const parts: string[] = []
+
+  if (search.search_type === 'selected') {
+    const targets = Array.isArray(options['target_document_ids']) ? options['target_document_ids'].length : 0
+    parts.push(`${targets} selected target${targets === 1 ? '' : 's'}`)
+  }
+
+  const mode = options['stage0_mode']
+  if (typeof mode === 'string' && RETRIEVAL_MODE_LABELS[mode]) {
+    parts.push(RETRIEVAL_MODE_LABELS[mode])
+  }
+
+  const filters = (options['filters'] ?? {}) as Record<string, unknown>
+  const pageRange = filters['page_range'] as { start_page?: number; end_page?: number } | undefined
+  if (pageRange?.start_page !== undefined && pageRange.end_page !== undefined) {
+    parts.push(`pages ${pageRange.start_page}-${pageRange.end_page}`)
+  }
+
+  const metadataFilterCount = Object.keys(filters).filter(key =>
+    !['page_range', 'topK', 'min_score', 'threshold'].includes(key)
+  ).length
+  if (metadataFilterCount > 0) {
+    parts.push(`${metadataFilterCount} filter${metadataFilterCount === 1 ? '' : 's'}`)
+  }
+
+  const sourceMin = options['source_min_score']
+  const targetMin = options['target_min_score']
+  if (typeof sourceMin === 'number' && typeof targetMin === 'number') {
+    parts.push(`min ${Math.round(sourceMin * 100)}% / ${Math.round(targetMin * 100)}%`)
+  }
+
+  return parts
+}
+
+export function RecentSearches({ documentId, refreshToken, activeSearchId, onOpen }: RecentSearchesProps) {
+  const [searches, setSearches] = useState<SimilaritySearchSummary[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+
+  const loadSearches = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/documents/${documentId}/similarity-searches?limit=10`)
+      if (!response.ok) {
+        throw new Error('Failed to load recent searches')
+      }
+      const data = await response.json()
+      setSearches(Array.isArray(data.searches) ? data.searches : [])
+    } catch (error) {
+      clientLogger.error('Failed to load recent searches', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [documentId])
+
+  useEffect(() => {
+    loadSearches()
+  }, [loadSearches, refreshToken])
+
+  const handleOpen = async (searchId: string) => {
+    setPendingId(searchId)
+    try {
+      const response = await fetch(`/api/documents/${documentId}/similarity-searches/${searchId}`)
+      if (!response.ok) {
+        throw new Error('Failed to open saved search')
+      }
+      const data = await response.json() as StoredSimilaritySearch
+      onOpen(data)
+    } catch (error) {
+      clientLogger.error('Failed to open saved search', error)
+      alert('Failed to open saved search. Please try again.')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleDelete = async (searchId: string) => {
+    if (!confirm('Delete this saved search?')) return
+
+    setPendingId(searchId)
+    try {
+      const response = await fetch(`/api/documents/${documentId}/similarity-searches/${searchId}`, {
+        method: 'DELETE'
+      })
+      if (!response.ok) {
+        throw new Error('Failed to delete saved search')
+      }
+      setSearches(prev => prev.filter(search => search.id !== searchId))
+    } catch (error) {
+      clientLogger.error('Failed to delete saved search', error)
+      alert('Failed to delete saved search. Please try again.')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  if (!isLoading && searches.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="card-enhanced">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="h-4 w-4" />
+          Recent Searches
+          {isLoading && <Loader2 className="h-3 w-3 animate-spin text-gray-400" />}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {searches.map(search => {
+          const isActive = search.id === activeSearchId
+          const totalMs = typeof search.timing?.['total_ms'] === 'number' ? search.timing['total_ms'] : null
+
+          return (
+            <div
+              key={search.id}
+              className={`flex flex-wrap items-center justify-between gap-2 rounded-md border p-2 text-xs ${
+                isActive
+                  ? 'border-blue-300 bg-blue-50/60 dark:border-blue-700 dark:bg-blue-950/30'
+                  : 'border-gray-200 dark:border-gray-700'
+              }`}
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium text-gray-900 dark:text-gray-100">
+                  {formatUploadDate(search.created_at)}
+                </span>
+                <Badge variant="outline">
+                  {search.search_type === 'selected' ? 'Selected' : 'General'}
+                </Badge>
+                <span className="text-gray-600 dark:text-gray-300">
+                  {search.result_count === 1 ? '1 result' : `${search.result_count} results`}
+                </span>
+                {describeOptions(search).map(part => (
+                  <span key={part} className="text-gray-500 dark:text-gray-400">· {part}</span>
+                ))}
+                {totalMs !== null && (
+                  <span className="text-gray-400">· {(totalMs / 1000).toFixed(1)}s</span>
+                )}
+                {search.is_stale && (
+                  <Badge className="bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-300">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    Stale{search.stale_reason ? ` – ${STALE_REASON_LABELS[search.stale_reason] ?? search.stale_reason}` : ''}
+                  </Badge>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => handleOpen(search.id)}
+                  disabled={pendingId !== null}
+                >
+                  {pendingId === search.id ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <FolderOpen className="h-3 w-3 mr-1" />
+                  )}
+                  Open
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs text-destructive"
+                  onClick={() => handleDelete(search.id)}
+                  disabled={pendingId !== null}
+                  aria-label="Delete saved search"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
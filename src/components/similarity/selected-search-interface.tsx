@@ -19,9 +19,20 @@ import {
   Briefcase,
   Globe,
   Users,
-  GitCompare
+  GitCompare,
+  FileDiff,
+  Highlighter,
+  Table2
 } from 'lucide-react'
 import { formatUploadDate } from '@/lib/date-utils'
+import { ClauseDiffPanel } from './clause-diff-panel'
+import { SimilarityJobProgress } from './similarity-job-progress'
+import { ExportResultsMenu } from './export-results-menu'
+import { MatchedSectionsViewer } from './matched-sections-viewer'
+import { TableDiffPanel } from './table-diff-panel'
+import type { SectionMatch, TableMatch } from '@/lib/similarity/types'
+import type { SimilarityJobProgress as JobProgress, SimilarityJobStatus } from '@/lib/similarity/similarity-jobs'
+import { followSimilarityJob, type SimilarityJobHandle } from '@/lib/similarity/job-events'
 
 interface SelectedSearchInterfaceProps {
   sourceDocument: Document | null
@@ -39,6 +50,8 @@ interface SimilarityResult {
     lengthRatio?: number | null
   }
   matching_chunks: Array<{ text: string; score: number }>
+  sections?: SectionMatch[]
+  matched_tables?: TableMatch[]
 }
 
 export function SelectedSearchInterface({ sourceDocument, autoSearchTargets }: SelectedSearchInterfaceProps) {
@@ -47,6 +60,36 @@ export function SelectedSearchInterface({ sourceDocument, autoSearchTargets }: S
   const [sortBy, setSortBy] = useState<string>('source_score')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
   const [comparingDocs, setComparingDocs] = useState<Set<string>>(new Set())
+  const [openClauseDiffs, setOpenClauseDiffs] = useState<Set<string>>(new Set())
+  const [openTableDiffs, setOpenTableDiffs] = useState<Set<string>>(new Set())
+  const [jobStatus, setJobStatus] = useState<SimilarityJobStatus | null>(null)
+  const [jobProgress, setJobProgress] = useState<JobProgress | null>(null)
+  const [searchId, setSearchId] = useState<string | null>(null)
+  const [viewingResultId, setViewingResultId] = useState<string | null>(null)
+
+  const toggleClauseDiff = (targetDocId: string) => {
+    setOpenClauseDiffs(prev => {
+      const next = new Set(prev)
+      if (next.has(targetDocId)) {
+        next.delete(targetDocId)
+      } else {
+        next.add(targetDocId)
+      }
+      return next
+    })
+  }
+
+  const toggleTableDiff = (targetDocId: string) => {
+    setOpenTableDiffs(prev => {
+      const next = new Set(prev)
+      if (next.has(targetDocId)) {
+        next.delete(targetDocId)
+      } else {
+        next.add(targetDocId)
+      }
+      return next
+    })
+  }
 
   const handleDraftableCompare = async (targetDocId: string) => {
     if (!sourceDocument) return
@@ -85,6 +128,7 @@ export function SelectedSearchInterface({ sourceDocument, autoSearchTargets }: S
   useEffect(() => {
     if (!sourceDocument) {
       setResults([])
+      setIsComparing(false)
       return
     }
 
@@ -92,35 +136,66 @@ export function SelectedSearchInterface({ sourceDocument, autoSearchTargets }: S
 
     if (targetIds.length === 0) {
       setResults([])
+      setIsComparing(false)
       return
     }
 
+    // Cancels the similarity job if the selection changes or the view unmounts
+    const controller = new AbortController()
+
     const runAutoSearch = async () => {
       setIsComparing(true)
+      setResults([])
+      setSearchId(null)
+      setJobStatus('queued')
+      setJobProgress(null)
       try {
         const response = await fetch('/api/documents/selected-search', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             sourceDocumentId: sourceDocument.id,
-            targetDocumentIds: targetIds
-          })
+            targetDocumentIds: targetIds,
+            async: true
+          }),
+          signal: controller.signal
         })
 
         if (!response.ok) {
           throw new Error('Failed to compare documents')
         }
 
-        const data = await response.json()
-        setResults(data)
+        const job = await response.json() as SimilarityJobHandle
+
+        // Partial results stream in while Stage 2 scores candidates
+        const { result, search_id: storedSearchId } = await followSimilarityJob<SimilarityResult[], SimilarityResult>(job, {
+          signal: controller.signal,
+          onProgress: (progress, status) => {
+            setJobStatus(status)
+            setJobProgress(progress)
+          },
+          onPartial: partialResults => setResults(partialResults)
+        })
+
+        setResults(Array.isArray(result) ? result : [])
+        setSearchId(storedSearchId)
       } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          return
+        }
         console.error('[SelectedSearchInterface] Auto-search failed:', error instanceof Error ? error.message : 'Unknown error')
       } finally {
-        setIsComparing(false)
+        if (!controller.signal.aborted) {
+          setIsComparing(false)
+          setJobStatus(null)
+          setJobProgress(null)
+        }
       }
     }
 
     runAutoSearch()
+
+    return () => controller.abort()
   }, [autoSearchTargets, sourceDocument])
 
   if (!sourceDocument) {
@@ -245,6 +320,7 @@ export function SelectedSearchInterface({ sourceDocument, autoSearchTargets }: S
   }
 
   const sortedResults = sortResults(results)
+  const viewingResult = results.find(result => result.document.id === viewingResultId)
 
   return (
     <div className="space-y-6">
@@ -260,35 +336,45 @@ export function SelectedSearchInterface({ sourceDocument, autoSearchTargets }: S
                 Showing {sortedResults.length} of {results.length} selected document{results.length === 1 ? '' : 's'} compared to &quot;{sourceDocument.title}&quot;
               </CardDescription>
             </div>
-            {results.length > 1 && (
+            {results.length > 0 && (
               <div className="flex items-center gap-2">
-                <Select value={sortBy} onValueChange={setSortBy}>
-                  <SelectTrigger className="w-44">
-                    <SelectValue placeholder="Sort by..." />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="source_score">Source Score</SelectItem>
-                    <SelectItem value="target_score">Target Score</SelectItem>
-                    <SelectItem value="upload_time">Upload Time</SelectItem>
-                    <SelectItem value="name">Name</SelectItem>
-                    <SelectItem value="size">Size</SelectItem>
-                  </SelectContent>
-                </Select>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={toggleSortOrder}
-                  className="px-3"
-                  aria-label={`Sort ${sortOrder === 'asc' ? 'ascending' : 'descending'}`}
-                >
-                  {sortOrder === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
-                </Button>
+                {results.length > 1 && (
+                  <>
+                    <Select value={sortBy} onValueChange={setSortBy}>
+                      <SelectTrigger className="w-44">
+                        <SelectValue placeholder="Sort by..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="source_score">Source Score</SelectItem>
+                        <SelectItem value="target_score">Target Score</SelectItem>
+                        <SelectItem value="upload_time">Upload Time</SelectItem>
+                        <SelectItem value="name">Name</SelectItem>
+                        <SelectItem value="size">Size</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={toggleSortOrder}
+                      className="px-3"
+                      aria-label={`Sort ${sortOrder === 'asc' ? 'ascending' : 'descending'}`}
+                    >
+                      {sortOrder === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+                    </Button>
+                  </>
+                )}
+                <ExportResultsMenu documentId={sourceDocument.id} searchId={searchId} />
               </div>
             )}
           </div>
         </CardHeader>
         <CardContent>
-          {isComparing ? (
+          {isComparing && (
+            <div className="mb-4">
+              <SimilarityJobProgress status={jobStatus} progress={jobProgress} />
+            </div>
+          )}
+          {isComparing && results.length === 0 ? (
             <div className="flex items-center justify-center p-12">
               <div className="animate-pulse flex flex-col items-center">
                 <Sparkles className="mb-4 h-12 w-12 text-emerald-500 animate-spin" />
@@ -412,9 +498,55 @@ export function SelectedSearchInterface({ sourceDocument, autoSearchTargets }: S
                             <GitCompare className="h-4 w-4 mr-1 text-white" />
                             {comparingDocs.has(result.document.id) ? 'Opening...' : 'Compare with Draftable'}
                           </Button>
+                          <Button
+                            variant={openClauseDiffs.has(result.document.id) ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => toggleClauseDiff(result.document.id)}
+                            disabled={!result.sections || result.sections.length === 0}
+                          >
+                            <FileDiff className="h-4 w-4 mr-1" />
+                            Clause Diff
+                          </Button>
+                          {(result.matched_tables?.length ?? 0) > 0 && (
+                            <Button
+                              variant={openTableDiffs.has(result.document.id) ? 'default' : 'outline'}
+                              size="sm"
+                              onClick={() => toggleTableDiff(result.document.id)}
+                            >
+                              <Table2 className="h-4 w-4 mr-1" />
+                              Tables ({result.matched_tables?.length})
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setViewingResultId(result.document.id)}
+                            disabled={!result.sections || result.sections.length === 0}
+                          >
+                            <Highlighter className="h-4 w-4 mr-1" />
+                            View Matches
+                          </Button>
                         </div>
                       </div>
                     </div>
+                    {sourceDocument && openClauseDiffs.has(result.document.id) && (
+                      <div className="border-t border-gray-200 dark:border-gray-700 pt-3">
+                        <ClauseDiffPanel
+                          sourceDocumentId={sourceDocument.id}
+                          targetDocumentId={result.document.id}
+                          sections={result.sections ?? []}
+                        />
+                      </div>
+                    )}
+                    {sourceDocument && openTableDiffs.has(result.document.id) && (
+                      <div className="border-t border-gray-200 dark:border-gray-700 pt-3">
+                        <TableDiffPanel
+                          sourceDocumentId={sourceDocument.id}
+                          targetDocumentId={result.document.id}
+                          matchedTables={result.matched_tables ?? []}
+                        />
+                      </div>
+                    )}
                   </div>
                 </Card>
                 )
@@ -423,6 +555,16 @@ export function SelectedSearchInterface({ sourceDocument, autoSearchTargets }: S
           )}
         </CardContent>
       </Card>
+
+      {viewingResult && (
+        <MatchedSectionsViewer
+          open
+          onOpenChange={open => !open && setViewingResultId(null)}
+          sourceDocument={sourceDocument}
+          targetDocument={viewingResult.document}
+          sections={viewingResult.sections ?? []}
+        />
+      )}
     </div>
   )
 }
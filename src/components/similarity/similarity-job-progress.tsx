@@ -0,0 +1,101 @@
+'use client'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { Loader2, CheckCircle2 } from 'lucide-react'
+import type { SimilarityJobProgress as JobProgress, SimilarityJobStatus } from '@/lib/similarity/similarity-jobs'
+
+interface SimilarityJobProgressProps {
+  status: SimilarityJobStatus | null
+  progress: JobProgress | null
+}
+
+const STAGE_ORDER: JobProgress['stage'][] = ['queued', 'stage0', 'stage1', 'stage2', 'finalizing', 'completed']
+
+const RETRIEVAL_MODE_LABELS: Record<string, string> = {
+  dense: 'semantic',
+  sparse: 'keyword',
+  hybrid: 'hybrid'
+}
+
+export function SimilarityJobProgress({ status, progress }: SimilarityJobProgressProps) {
+  const currentIndex = STAGE_ORDER.indexOf(progress?.stage ?? 'queued')
+  const scored = progress?.stage2_scored ?? 0
+  const total = progress?.stage2_total ?? 0
+  const percent = total > 0 ? Math.min(100, Math.round((scored / total) * 100)) : 0
+
+  const rows = [
+    {
+      key: 'stage0',
+      label: 'Stage 0 · Candidate retrieval',
+      detail: progress?.stage0_candidates !== undefined
+        ? `${progress.stage0_candidates} candidates${progress.stage0_mode ? ` (${RETRIEVAL_MODE_LABELS[progress.stage0_mode] ?? progress.stage0_mode})` : ''}`
+        : null,
+      done: currentIndex > STAGE_ORDER.indexOf('stage0')
+    },
+    {
+      key: 'stage1',
+      label: 'Stage 1 · Candidate pruning',
+      detail: progress?.stage1_candidates !== undefined
+        ? progress.stage1_skipped
+          ? `skipped (${progress.stage1_candidates} candidates)`
+          : `${progress.stage0_candidates ?? '?'} → ${progress.stage1_candidates} candidates`
+        : null,
+      done: currentIndex > STAGE_ORDER.indexOf('stage1')
+    },
+    {
+      key: 'stage2',
+      label: 'Stage 2 · Chunk-level scoring',
+      detail: progress?.stage2_total !== undefined ? `${scored} / ${total} scored` : null,
+      done: currentIndex > STAGE_ORDER.indexOf('stage2')
+    }
+  ]
+
+  return (
+    <Card className="card-enhanced">
+      <CardContent className="space-y-3 p-4 text-sm">
+        <div className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
+          <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
+          {status === 'queued' || !progress || progress.stage === 'queued'
+            ? 'Waiting for a similarity worker...'
+            : progress.stage === 'finalizing'
+              ? 'Finalizing results...'
+              : 'Searching...'}
+        </div>
+
+        <div className="space-y-2">
+          {rows.map(row => {
+            const isActive = progress?.stage === row.key
+            return (
+              <div key={row.key} className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  {row.done ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-500" />
+                  ) : isActive ? (
+                    <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
+                  ) : (
+                    <span className="h-4 w-4 rounded-full border border-gray-300 dark:border-gray-600" />
+                  )}
+                  <span className={row.done || isActive ? 'text-gray-900 dark:text-gray-100' : 'text-gray-400'}>
+                    {row.label}
+                  </span>
+                </div>
+                {row.detail && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{row.detail}</span>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {progress?.stage2_total !== undefined && (
+          <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+            <div
+              className="h-full bg-blue-500 transition-all duration-500"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -20,9 +20,17 @@ import {
   Users,
   Briefcase,
   Globe,
-  GitCompare
+  GitCompare,
+  FileDiff,
+  Highlighter,
+  Table2
 } from 'lucide-react'
 import { formatUploadDate } from '@/lib/date-utils'
+import { ClauseDiffPanel } from './clause-diff-panel'
+import { ExportResultsMenu } from './export-results-menu'
+import { MatchedSectionsViewer } from './matched-sections-viewer'
+import { TableDiffPanel } from './table-diff-panel'
+import type { SectionChunkPair, TableMatch } from '@/lib/similarity/types'
 
 interface SimilarityScores {
   sourceScore: number
@@ -39,6 +47,7 @@ interface SectionMatch {
   avgScore: number
   chunkCount: number
   reusable: boolean
+  chunkPairs?: SectionChunkPair[]
 }
 
 interface SimilarityResultV2 {
@@ -46,6 +55,7 @@ interface SimilarityResultV2 {
   scores: SimilarityScores
   matchedChunkCount: number
   sections: SectionMatch[]
+  matchedTables?: TableMatch[]
 }
 
 interface SimilarityResultsV2Props {
@@ -53,12 +63,16 @@ interface SimilarityResultsV2Props {
   sourceDocument: Document
   isLoading: boolean
   maxResults?: number
+  searchId?: string | null  // Stored run behind these results; enables export
 }
 
-export function SimilarityResultsV2({ results, sourceDocument, isLoading, maxResults }: SimilarityResultsV2Props) {
+export function SimilarityResultsV2({ results, sourceDocument, isLoading, maxResults, searchId }: SimilarityResultsV2Props) {
   const [sortBy, setSortBy] = useState<string>('source_score')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
   const [comparingDocs, setComparingDocs] = useState<Set<string>>(new Set())
+  const [openClauseDiffs, setOpenClauseDiffs] = useState<Set<string>>(new Set())
+  const [openTableDiffs, setOpenTableDiffs] = useState<Set<string>>(new Set())
+  const [viewingResultId, setViewingResultId] = useState<string | null>(null)
   // selectedResult state removed - was only used by deleted SimilarityDetailsModal
 
   const handleDraftableCompare = async (targetDocId: string) => {
@@ -93,6 +107,30 @@ export function SimilarityResultsV2({ results, sourceDocument, isLoading, maxRes
     }
   }
 
+  const toggleClauseDiff = (targetDocId: string) => {
+    setOpenClauseDiffs(prev => {
+      const next = new Set(prev)
+      if (next.has(targetDocId)) {
+        next.delete(targetDocId)
+      } else {
+        next.add(targetDocId)
+      }
+      return next
+    })
+  }
+
+  const toggleTableDiff = (targetDocId: string) => {
+    setOpenTableDiffs(prev => {
+      const next = new Set(prev)
+      if (next.has(targetDocId)) {
+        next.delete(targetDocId)
+      } else {
+        next.add(targetDocId)
+      }
+      return next
+    })
+  }
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -226,6 +264,7 @@ export function SimilarityResultsV2({ results, sourceDocument, isLoading, maxRes
   }
 
   const sortedResults = sortResults(results)
+  const viewingResult = results.find(result => result.document.id === viewingResultId)
   const visibleCount = sortedResults.length
   const totalResults = results.length
 
@@ -287,6 +326,7 @@ export function SimilarityResultsV2({ results, sourceDocument, isLoading, maxRes
                     </Button>
                   </>
                 )}
+                <ExportResultsMenu documentId={sourceDocument.id} searchId={searchId ?? null} />
               </div>
             )}
           </div>
@@ -396,6 +436,34 @@ export function SimilarityResultsV2({ results, sourceDocument, isLoading, maxRes
                             <Download className="h-4 w-4 mr-1" />
                             Download
                           </Button>
+                          <Button
+                            variant={openClauseDiffs.has(result.document.id) ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => toggleClauseDiff(result.document.id)}
+                            disabled={result.sections.length === 0}
+                          >
+                            <FileDiff className="h-4 w-4 mr-1" />
+                            Clause Diff
+                          </Button>
+                          {(result.matchedTables?.length ?? 0) > 0 && (
+                            <Button
+                              variant={openTableDiffs.has(result.document.id) ? 'default' : 'outline'}
+                              size="sm"
+                              onClick={() => toggleTableDiff(result.document.id)}
+                            >
+                              <Table2 className="h-4 w-4 mr-1" />
+                              Tables ({result.matchedTables?.length})
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setViewingResultId(result.document.id)}
+                            disabled={result.sections.length === 0}
+                          >
+                            <Highlighter className="h-4 w-4 mr-1" />
+                            View Matches
+                          </Button>
                           <Button
                             size="sm"
                             className="bg-blue-600 hover:bg-blue-700 text-white focus-visible:ring-blue-400"
@@ -408,6 +476,24 @@ export function SimilarityResultsV2({ results, sourceDocument, isLoading, maxRes
                         </div>
                       </div>
                     </div>
+                    {openClauseDiffs.has(result.document.id) && (
+                      <div className="border-t border-blue-100 dark:border-blue-900 pt-3">
+                        <ClauseDiffPanel
+                          sourceDocumentId={sourceDocument.id}
+                          targetDocumentId={result.document.id}
+                          sections={result.sections}
+                        />
+                      </div>
+                    )}
+                    {openTableDiffs.has(result.document.id) && (
+                      <div className="border-t border-blue-100 dark:border-blue-900 pt-3">
+                        <TableDiffPanel
+                          sourceDocumentId={sourceDocument.id}
+                          targetDocumentId={result.document.id}
+                          matchedTables={result.matchedTables ?? []}
+                        />
+                      </div>
+                    )}
                   </div>
                 </Card>
               )})}
@@ -416,6 +502,16 @@ export function SimilarityResultsV2({ results, sourceDocument, isLoading, maxRes
         </CardContent>
       </Card>
 
+      {viewingResult && (
+        <MatchedSectionsViewer
+          open
+          onOpenChange={open => !open && setViewingResultId(null)}
+          sourceDocument={sourceDocument}
+          targetDocument={viewingResult.document}
+          sections={viewingResult.sections}
+        />
+      )}
+
       {/* Similarity Details Modal removed during cleanup */}
       {/* Modal can be re-added if detailed view is needed */}
     </>
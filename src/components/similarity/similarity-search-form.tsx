@@ -9,8 +9,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { SearchableMultiSelect } from '@/components/ui/searchable-multi-select'
 import { Slider } from '@/components/ui/slider'
 import { Input } from '@/components/ui/input'
-import { Search, Loader2, RotateCcw, X, Building, Users, Briefcase, Globe } from 'lucide-react'
+import { Search, Loader2, RotateCcw, X, Building, Users, Briefcase, Globe, History, AlertTriangle } from 'lucide-react'
 import { SimilarityResultsV2 } from './similarity-results-v2'
+import { RecentSearches } from './recent-searches'
+import { SimilarityJobProgress } from './similarity-job-progress'
 import {
   LAW_FIRM_OPTIONS,
   FUND_MANAGER_OPTIONS,
@@ -18,12 +20,27 @@ import {
   JURISDICTION_OPTIONS,
 } from '@/lib/metadata-constants'
 import { clientLogger } from '@/lib/client-logger'
+import type { Stage0RetrievalMode } from '@/lib/similarity/types'
+import type { StoredSimilaritySearch } from '@/lib/similarity/search-history'
+import type { SimilarityJobProgress as JobProgress, SimilarityJobStatus } from '@/lib/similarity/similarity-jobs'
+import { followSimilarityJob, type SimilarityJobHandle } from '@/lib/similarity/job-events'
+import { formatUploadDate } from '@/lib/date-utils'
 
 interface SimilaritySearchFormProps {
   documentId: string
   sourceDocument: Document
 }
 
+const METADATA_FILTER_KEYS = ['law_firm', 'fund_manager', 'fund_admin', 'jurisdiction'] as const
+
+// Stored filters collapse single-value selections to scalars; expand back for the multi-selects
+const toStringArray = (value: unknown): string[] | undefined => {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string')
+  }
+  return typeof value === 'string' ? [value] : undefined
+}
+
 export function SimilaritySearchForm({ documentId, sourceDocument }: SimilaritySearchFormProps) {
   const [isSearching, setIsSearching] = useState(false)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -37,6 +54,13 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
   const [sourceMinScore, setSourceMinScore] = useState(0.7)
   const [targetMinScore, setTargetMinScore] = useState(0.7)
   const [topK, setTopK] = useState(15)
+  const [retrievalMode, setRetrievalMode] = useState<Stage0RetrievalMode>('dense')
+  const [latestVersionsOnly, setLatestVersionsOnly] = useState(false)
+  const [activeSearchId, setActiveSearchId] = useState<string | null>(null)
+  const [reopenedSearch, setReopenedSearch] = useState<StoredSimilaritySearch | null>(null)
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const [jobStatus, setJobStatus] = useState<SimilarityJobStatus | null>(null)
+  const [jobProgress, setJobProgress] = useState<JobProgress | null>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
   const requestIdRef = useRef(0)
 
@@ -65,6 +89,9 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
 
     setIsSearching(true)
     setHasSearched(true)
+    setResults([])
+    setJobStatus('queued')
+    setJobProgress(null)
     // Cancel any in-flight request before starting a new one
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
@@ -88,10 +115,13 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
             topK
           },
           stage0_topK: 600, // Stage 0: Wide centroid sweep for high recall
+          stage0_mode: retrievalMode, // Stage 0: dense centroid, BM25 keywords, or both fused
           stage1_topK: 250, // Stage 1: Preserve broad candidate set for Stage 2
           stage2_fallbackThreshold: 0.8,
           source_min_score: sourceMinScore,
           target_min_score: targetMinScore,
+          latest_versions_only: latestVersionsOnly, // Collapse version chains to their newest version
+          async: true, // Run as a similarity job and stream progress
         }),
         signal: controller.signal,
       })
@@ -100,9 +130,27 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
         throw new Error('Failed to search for similar documents')
       }
 
-      const data = await response.json()
-      if (requestIdRef.current === nextRequestId) {
+      const job = await response.json() as SimilarityJobHandle
+      const isCurrent = () => requestIdRef.current === nextRequestId
+
+      // Partial top results update live while Stage 2 workers finish
+      const { result: data } = await followSimilarityJob<{ results?: unknown[]; search_id?: string | null }>(job, {
+        signal: controller.signal,
+        onProgress: (progress, status) => {
+          if (!isCurrent()) return
+          setJobStatus(status)
+          setJobProgress(progress)
+        },
+        onPartial: partialResults => {
+          if (isCurrent()) setResults(partialResults)
+        }
+      })
+
+      if (isCurrent()) {
         setResults(Array.isArray(data.results) ? data.results : [])
+        setActiveSearchId(typeof data.search_id === 'string' ? data.search_id : null)
+        setReopenedSearch(null)
+        setHistoryVersion(prev => prev + 1)
       }
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
@@ -117,6 +165,8 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
     } finally {
       if (requestIdRef.current === nextRequestId) {
         setIsSearching(false)
+        setJobStatus(null)
+        setJobProgress(null)
         abortControllerRef.current = null
       }
     }
@@ -126,19 +176,74 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
       setIsSearching(false)
+      setJobStatus(null)
+      setJobProgress(null)
       abortControllerRef.current = null
     }
   }
 
+  const handleOpenSearch = (search: StoredSimilaritySearch) => {
+    // Reopening replaces whatever is on screen, including an in-flight search
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort()
+      abortControllerRef.current = null
+    }
+    requestIdRef.current += 1
+    setIsSearching(false)
+    setJobStatus(null)
+    setJobProgress(null)
+
+    const options = search.options ?? {}
+    const storedFilters = (options['filters'] ?? {}) as Record<string, unknown>
+    const storedPageRange = storedFilters['page_range'] as SearchFilters['page_range'] | undefined
+
+    const restoredFilters: SearchFilters = {
+      page_range: storedPageRange?.use_entire_document === false
+        ? { ...storedPageRange, use_entire_document: false }
+        : { use_entire_document: true }
+    }
+    for (const key of METADATA_FILTER_KEYS) {
+      const values = toStringArray(storedFilters[key])
+      if (values && values.length > 0) {
+        restoredFilters[key] = values
+      }
+    }
+
+    if (search.search_type === 'general') {
+      setFilters(restoredFilters)
+      if (typeof storedFilters['topK'] === 'number') {
+        setTopK(storedFilters['topK'])
+      }
+      if (typeof options['source_min_score'] === 'number') {
+        setSourceMinScore(options['source_min_score'])
+      }
+      if (typeof options['target_min_score'] === 'number') {
+        setTargetMinScore(options['target_min_score'])
+      }
+      if (options['stage0_mode'] === 'dense' || options['stage0_mode'] === 'sparse' || options['stage0_mode'] === 'hybrid') {
+        setRetrievalMode(options['stage0_mode'])
+      }
+      setLatestVersionsOnly(options['latest_versions_only'] === true)
+    }
+
+    setResults(Array.isArray(search.results) ? search.results : [])
+    setHasSearched(true)
+    setActiveSearchId(search.id)
+    setReopenedSearch(search)
+  }
+
   const resetSearch = () => {
     setResults([])
     setHasSearched(false)
+    setActiveSearchId(null)
+    setReopenedSearch(null)
     setFilters({ 
         page_range: {
         use_entire_document: true
       }
     })
     setTopK(15)
+    setRetrievalMode('dense')
   }
 
   return (
@@ -364,7 +469,7 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
           </div>
 
           {/* Search Parameters */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
             <div>
               <Label htmlFor="topK" className="text-xs">Number of Results</Label>
               <Select value={topK.toString()} onValueChange={(value) => setTopK(parseInt(value))}>
@@ -382,6 +487,36 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
               </Select>
             </div>
 
+            <div>
+              <Label htmlFor="retrievalMode" className="text-xs">Candidate Retrieval</Label>
+              <Select value={retrievalMode} onValueChange={(value) => setRetrievalMode(value as Stage0RetrievalMode)}>
+                <SelectTrigger id="retrievalMode" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="dense">Semantic (centroid)</SelectItem>
+                  <SelectItem value="sparse">Keyword (BM25)</SelectItem>
+                  <SelectItem value="hybrid">Hybrid (semantic + keyword)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="versionScope" className="text-xs">Document Versions</Label>
+              <Select
+                value={latestVersionsOnly ? 'latest' : 'all'}
+                onValueChange={(value) => setLatestVersionsOnly(value === 'latest')}
+              >
+                <SelectTrigger id="versionScope" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All versions</SelectItem>
+                  <SelectItem value="latest">Latest version only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             <div>
               <Label className="text-xs">Minimum Source Score: {Math.round(sourceMinScore * 100)}%</Label>
               <div className="px-1 py-1">
@@ -424,13 +559,50 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
         </CardContent>
       </Card>
 
+      {/* Past runs stored by similar-v2 / selected-search */}
+      <RecentSearches
+        documentId={documentId}
+        refreshToken={historyVersion}
+        activeSearchId={activeSearchId}
+        onOpen={handleOpenSearch}
+      />
+
+      {reopenedSearch && !isSearching && (
+        <div
+          className={`flex flex-wrap items-center justify-between gap-2 rounded-md border p-3 text-sm ${
+            reopenedSearch.is_stale
+              ? 'border-orange-200 bg-orange-50 text-orange-800 dark:border-orange-800 dark:bg-orange-950/30 dark:text-orange-300'
+              : 'border-blue-200 bg-blue-50 text-blue-800 dark:border-blue-800 dark:bg-blue-950/30 dark:text-blue-300'
+          }`}
+        >
+          <div className="flex items-center gap-2">
+            {reopenedSearch.is_stale ? <AlertTriangle className="h-4 w-4" /> : <History className="h-4 w-4" />}
+            <span>
+              Showing saved results from {formatUploadDate(reopenedSearch.created_at)}.
+              {reopenedSearch.is_stale && ' A document in this search has been reprocessed since, so scores may be out of date.'}
+            </span>
+          </div>
+          {reopenedSearch.search_type === 'general' && (
+            <Button size="sm" variant="outline" className="h-7" onClick={handleSearch} disabled={pageRangeError !== undefined}>
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Re-run search
+            </Button>
+          )}
+        </div>
+      )}
+
+      {isSearching && (
+        <SimilarityJobProgress status={jobStatus} progress={jobProgress} />
+      )}
+
       {/* Results */}
       {hasSearched && (
         <SimilarityResultsV2
           results={results}
           sourceDocument={sourceDocument}
-          isLoading={isSearching}
-          maxResults={topK}
+          isLoading={isSearching && results.length === 0}
+          maxResults={reopenedSearch ? Math.max(topK, results.length) : topK}
+          searchId={activeSearchId}
         />
       )}
     </div>
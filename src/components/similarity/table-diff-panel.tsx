@@ -0,0 +1,193 @@
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Loader2, Table2, AlertTriangle } from 'lucide-react'
+import type { TableCellComparison, TableComparison, TableMatch } from '@/lib/similarity/types'
+import { clientLogger } from '@/lib/client-logger'
+
+interface TableDiffPanelProps {
+  sourceDocumentId: string
+  targetDocumentId: string
+  matchedTables: TableMatch[]
+}
+
+interface TableDiffResponse {
+  tables: TableComparison[]
+  summary: {
+    total_tables: number
+    changed_tables: number
+    identical_tables: number
+    missing_tables: number
+  }
+}
+
+const cellClassName: Record<TableCellComparison['status'], string> = {
+  equal: 'text-gray-800 dark:text-gray-200',
+  changed: 'bg-orange-50 dark:bg-orange-900/30',
+  added: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  removed: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300'
+}
+
+export function TableDiffPanel({ sourceDocumentId, targetDocumentId, matchedTables }: TableDiffPanelProps) {
+  const [activeTable, setActiveTable] = useState<number | null>(null)
+  const [diffs, setDiffs] = useState<Record<number, TableComparison | null>>({})
+  const [loadingTable, setLoadingTable] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [changedOnly, setChangedOnly] = useState(false)
+
+  const loadTable = async (tableIndex: number) => {
+    setActiveTable(tableIndex)
+    setError(null)
+    if (tableIndex in diffs) return
+
+    const match = matchedTables[tableIndex]
+    if (!match) return
+
+    setLoadingTable(tableIndex)
+    try {
+      const response = await fetch(`/api/documents/${sourceDocumentId}/table-diff`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targetDocumentId,
+          tablePairs: [match]
+        })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(typeof data.error === 'string' ? data.error : 'Failed to load table diff')
+      }
+
+      const data = await response.json() as TableDiffResponse
+      setDiffs(prev => ({ ...prev, [tableIndex]: data.tables[0] ?? null }))
+    } catch (loadError) {
+      clientLogger.error('Table diff load failed', loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load table diff')
+    } finally {
+      setLoadingTable(null)
+    }
+  }
+
+  const renderCell = (cell: TableCellComparison) => {
+    if (cell.status === 'changed') {
+      return (
+        <>
+          <del className="block bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300">{cell.source}</del>
+          <ins className="block no-underline bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300">
+            {cell.target}
+          </ins>
+        </>
+      )
+    }
+    return cell.target ?? cell.source ?? ''
+  }
+
+  if (matchedTables.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <AlertTriangle className="h-3 w-3" />
+        No matching tables found for this result.
+      </div>
+    )
+  }
+
+  const activeDiff = activeTable !== null ? diffs[activeTable] : undefined
+  const visibleRows = activeDiff
+    ? activeDiff.rows.filter(row => !changedOnly || row.header || row.status !== 'equal')
+    : []
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Table2 className="h-4 w-4 text-gray-500" />
+        <span className="text-xs font-medium text-gray-700 dark:text-gray-300">Matched tables:</span>
+        {matchedTables.map((match, index) => (
+          <Button
+            key={`${match.sourceTableIndex}-${match.targetTableIndex}`}
+            variant={activeTable === index ? 'default' : 'outline'}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => loadTable(index)}
+            disabled={loadingTable !== null}
+          >
+            p. {match.sourcePageNumber} ↔ p. {match.targetPageNumber}
+            <span className="ml-1 opacity-70">{Math.round(match.score * 100)}%</span>
+          </Button>
+        ))}
+      </div>
+
+      {loadingTable !== null && (
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Comparing tables...
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-destructive">{error}</p>
+      )}
+
+      {activeDiff === null && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          This table is no longer stored. Re-run the search to refresh matched tables.
+        </p>
+      )}
+
+      {activeDiff && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <Badge variant="outline">{activeDiff.rows.length} rows</Badge>
+            <Badge className="bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-300">
+              {activeDiff.stats.changedCells} changed
+            </Badge>
+            <Badge className="bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300">
+              {activeDiff.stats.addedCells} added
+            </Badge>
+            <Badge className="bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300">
+              {activeDiff.stats.removedCells} removed
+            </Badge>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-xs ml-auto"
+              onClick={() => setChangedOnly(prev => !prev)}
+            >
+              {changedOnly ? 'Show all rows' : 'Show changed rows only'}
+            </Button>
+          </div>
+
+          {activeDiff.stats.changeRatio === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              The tables are cell-for-cell identical.
+            </p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border border-gray-200 dark:border-gray-700">
+              <table className="w-full text-left text-xs">
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                  {visibleRows.map(row => (
+                    <tr
+                      key={`${row.sourceRowIndex ?? '-'}-${row.targetRowIndex ?? '-'}`}
+                      className={row.header ? 'bg-gray-50 font-medium dark:bg-gray-800/60' : undefined}
+                    >
+                      {row.cells.map((cell, column) => (
+                        <td key={column} className={`px-2 py-1 align-top ${cellClassName[cell.status]}`}>
+                          {renderCell(cell)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-[11px] uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            Source p. {activeDiff.sourcePageNumber} · Target p. {activeDiff.targetPageNumber}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
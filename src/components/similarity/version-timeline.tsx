@@ -0,0 +1,233 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { GitCompare, History, Loader2, Upload } from 'lucide-react'
+import { clientLogger } from '@/lib/client-logger'
+import { formatUploadDate } from '@/lib/date-utils'
+import { DEFAULT_METADATA } from '@/lib/metadata-constants'
+import type { DocumentVersion, VersionComparison } from '@/lib/document-versions'
+
+interface VersionTimelineProps {
+  documentId: string
+}
+
+type DiffState =
+  | { status: 'loading' }
+  | { status: 'loaded'; comparison: VersionComparison }
+  | { status: 'error'; message: string }
+
+const formatRanges = (ranges: string[]) =>
+  ranges.map(range => (range.includes('-') ? `pp. ${range}` : `p. ${range}`)).join(', ')
+
+/**
+ * Version chain of the current document with section diffs between
+ * consecutive versions, loaded on demand
+ */
+export function VersionTimeline({ documentId }: VersionTimelineProps) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([])
+  const [diffs, setDiffs] = useState<Record<string, DiffState>>({})
+  const [isUploading, setIsUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/versions`, { cache: 'no-store' })
+      if (!response.ok) {
+        throw new Error('Failed to load document versions')
+      }
+      const data = await response.json() as { versions: DocumentVersion[] }
+      setVersions(data.versions)
+    } catch (error) {
+      clientLogger.error('Failed to load document versions', error)
+    }
+  }, [documentId])
+
+  useEffect(() => {
+    loadVersions()
+  }, [loadVersions])
+
+  const loadDiff = async (versionId: string) => {
+    setDiffs(prev => ({ ...prev, [versionId]: { status: 'loading' } }))
+    try {
+      const response = await fetch(`/api/documents/${versionId}/versions/diff`)
+      const data = await response.json().catch(() => ({})) as { comparison?: VersionComparison; error?: string }
+      if (!response.ok || !data.comparison) {
+        throw new Error(data.error || 'Failed to compare versions')
+      }
+      const comparison = data.comparison
+      setDiffs(prev => ({ ...prev, [versionId]: { status: 'loaded', comparison } }))
+    } catch (error) {
+      clientLogger.error('Failed to compare versions', error)
+      setDiffs(prev => ({
+        ...prev,
+        [versionId]: { status: 'error', message: error instanceof Error ? error.message : 'Failed to compare versions' }
+      }))
+    }
+  }
+
+  const uploadNewVersion = async (file: File) => {
+    const latest = versions[versions.length - 1]
+    if (!latest) return
+
+    setIsUploading(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      // Blank business fields are inherited from the version being replaced
+      formData.append('metadata', JSON.stringify(DEFAULT_METADATA))
+      formData.append('previousVersionId', latest.id)
+
+      const response = await fetch('/api/documents/upload', { method: 'POST', body: formData })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({})) as { error?: string }
+        throw new Error(data.error || 'Failed to upload new version')
+      }
+      await loadVersions()
+    } catch (error) {
+      clientLogger.error('Failed to upload new version', error)
+      alert(error instanceof Error ? error.message : 'Failed to upload new version')
+    } finally {
+      setIsUploading(false)
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
+    }
+  }
+
+  // Newest first; each version is compared with the one before it
+  const timeline = [...versions].reverse()
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <History className="h-5 w-5" />
+            Version History
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isUploading || versions.length === 0}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {isUploading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Upload New Version
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".pdf,application/pdf"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              if (file) uploadNewVersion(file)
+            }}
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {versions.length <= 1 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            This is the only version of this document. Upload a new draft to track changes between versions.
+          </p>
+        ) : (
+          <ol className="space-y-3">
+            {timeline.map(version => {
+              const diff = diffs[version.id]
+              const hasPrevious = version.previous_version_id !== null
+                && versions.some(item => item.id === version.previous_version_id)
+              const canCompare = hasPrevious && version.status === 'completed'
+
+              return (
+                <li key={version.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex min-w-0 items-center gap-2">
+                      <Badge variant="secondary">v{version.version_number}</Badge>
+                      {version.status === 'completed' && version.id !== documentId ? (
+                        <Link
+                          href={`/documents/${version.id}/similar`}
+                          className="truncate text-sm font-medium text-blue-600 hover:underline dark:text-blue-400"
+                        >
+                          {version.filename}
+                        </Link>
+                      ) : (
+                        <span className="truncate text-sm font-medium">{version.filename}</span>
+                      )}
+                      {version.id === documentId && <Badge variant="outline">Viewing</Badge>}
+                      {version.is_latest_version && <Badge variant="outline">Latest</Badge>}
+                      {version.status !== 'completed' && <Badge variant="outline">{version.status}</Badge>}
+                    </div>
+                    <div className="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+                      <span>{formatUploadDate(version.created_at)}</span>
+                      {canCompare && !diff && (
+                        <Button variant="ghost" size="sm" className="h-7" onClick={() => loadDiff(version.id)}>
+                          <GitCompare className="h-3 w-3 mr-1" />
+                          Compare with previous
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {diff?.status === 'loading' && (
+                    <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Comparing versions...
+                    </div>
+                  )}
+
+                  {diff?.status === 'error' && (
+                    <p className="text-xs text-red-600">{diff.message}</p>
+                  )}
+
+                  {diff?.status === 'loaded' && (
+                    <div className="space-y-1 text-xs">
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="secondary">{diff.comparison.unchanged.length} unchanged</Badge>
+                        <Badge variant="secondary">{diff.comparison.changed.length} changed</Badge>
+                        <Badge variant="secondary">{diff.comparison.added.length} added</Badge>
+                        <Badge variant="secondary">{diff.comparison.removed.length} removed</Badge>
+                      </div>
+                      {diff.comparison.added.length > 0 && (
+                        <p className="text-green-700 dark:text-green-400">
+                          Added: {formatRanges(diff.comparison.added)}
+                        </p>
+                      )}
+                      {diff.comparison.removed.length > 0 && (
+                        <p className="text-red-700 dark:text-red-400">
+                          Removed (from previous version): {formatRanges(diff.comparison.removed)}
+                        </p>
+                      )}
+                      {diff.comparison.changed.map(section => (
+                        <p
+                          key={`${section.docA_pageRange}:${section.docB_pageRange}`}
+                          className="text-amber-700 dark:text-amber-400"
+                        >
+                          Changed: pp. {section.docA_pageRange} → pp. {section.docB_pageRange}
+                          {' '}({Math.round(section.avgScore * 100)}% similar)
+                        </p>
+                      ))}
+                      {diff.comparison.changed.length === 0
+                        && diff.comparison.added.length === 0
+                        && diff.comparison.removed.length === 0 && (
+                        <p className="text-gray-500 dark:text-gray-400">No changes detected between these versions.</p>
+                      )}
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
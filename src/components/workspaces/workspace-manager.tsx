@@ -0,0 +1,331 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import { AlertCircle, Check, Edit2, FileText, Loader2, Plus, Trash2, Users, X } from 'lucide-react'
+import { WorkspaceMembers } from '@/components/workspaces/workspace-members'
+import { clientLogger } from '@/lib/client-logger'
+import type { WorkspaceSummary } from '@/lib/workspaces'
+
+// Mirrors WORKSPACE_NAME_MAX_LENGTH in lib/workspaces (server-only module)
+const NAME_MAX_LENGTH = 120
+
+const readError = async (response: Response, fallback: string) => {
+  const body = await response.json().catch(() => null) as { error?: string } | null
+  return body?.error ?? fallback
+}
+
+/**
+ * Workspace manager
+ * Create shared libraries, rename or delete the ones you own, and manage
+ * members of the selected workspace.
+ */
+export function WorkspaceManager() {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null)
+  const [isSavingName, setIsSavingName] = useState(false)
+  const [deleteTarget, setDeleteTarget] = useState<WorkspaceSummary | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const loadWorkspaces = useCallback(async () => {
+    setError(null)
+    try {
+      const res = await fetch('/api/workspaces', { cache: 'no-store' })
+      if (!res.ok) {
+        throw new Error(await readError(res, 'Failed to load workspaces'))
+      }
+
+      const data = await res.json() as { workspaces: WorkspaceSummary[] }
+      setWorkspaces(data.workspaces)
+      setSelectedId(current =>
+        current && data.workspaces.some(workspace => workspace.id === current)
+          ? current
+          : data.workspaces[0]?.id ?? null
+      )
+    } catch (loadError) {
+      clientLogger.error('Failed to load workspaces', loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load workspaces')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadWorkspaces()
+  }, [loadWorkspaces])
+
+  const createWorkspace = async () => {
+    const name = newName.trim()
+    if (!name) return
+
+    setIsCreating(true)
+    try {
+      const res = await fetch('/api/workspaces', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      })
+      if (!res.ok) {
+        throw new Error(await readError(res, 'Failed to create workspace'))
+      }
+
+      const data = await res.json() as { workspace: WorkspaceSummary }
+      setNewName('')
+      setSelectedId(data.workspace.id)
+      await loadWorkspaces()
+    } catch (createError) {
+      clientLogger.error('Failed to create workspace', createError)
+      alert(createError instanceof Error ? createError.message : 'Failed to create workspace. Please try again.')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const saveRename = async () => {
+    if (!renaming) return
+    const name = renaming.name.trim()
+    if (!name) return
+
+    setIsSavingName(true)
+    try {
+      const res = await fetch(`/api/workspaces/${renaming.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      })
+      if (!res.ok) {
+        throw new Error(await readError(res, 'Failed to rename workspace'))
+      }
+
+      setRenaming(null)
+      await loadWorkspaces()
+    } catch (renameError) {
+      clientLogger.error('Failed to rename workspace', renameError)
+      alert(renameError instanceof Error ? renameError.message : 'Failed to rename workspace. Please try again.')
+    } finally {
+      setIsSavingName(false)
+    }
+  }
+
+  const deleteWorkspace = async () => {
+    if (!deleteTarget) return
+
+    setIsDeleting(true)
+    try {
+      const res = await fetch(`/api/workspaces/${deleteTarget.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        throw new Error(await readError(res, 'Failed to delete workspace'))
+      }
+
+      setDeleteTarget(null)
+      await loadWorkspaces()
+    } catch (deleteError) {
+      clientLogger.error('Failed to delete workspace', deleteError)
+      alert(deleteError instanceof Error ? deleteError.message : 'Failed to delete workspace. Please try again.')
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const selected = workspaces.find(workspace => workspace.id === selectedId) ?? null
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Card className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="h-5 w-5 text-red-600" />
+              <p className="text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="card-enhanced">
+        <CardHeader>
+          <CardTitle className="text-lg">New Workspace</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="flex gap-2"
+            onSubmit={event => {
+              event.preventDefault()
+              createWorkspace()
+            }}
+          >
+            <Input
+              value={newName}
+              onChange={event => setNewName(event.target.value)}
+              placeholder="e.g. Project Atlas deal team"
+              maxLength={NAME_MAX_LENGTH}
+              aria-label="Workspace name"
+            />
+            <Button type="submit" disabled={isCreating || !newName.trim()}>
+              {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Create
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+        <Card className="card-enhanced">
+          <CardHeader>
+            <CardTitle className="text-lg">Your Workspaces</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading && (
+              <div className="flex items-center justify-center p-8">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            )}
+
+            {!isLoading && workspaces.length === 0 && (
+              <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                You are not a member of any workspace yet.
+              </p>
+            )}
+
+            {workspaces.map(workspace => {
+              const isSelected = workspace.id === selectedId
+              const isRenaming = renaming?.id === workspace.id
+
+              return (
+                <div
+                  key={workspace.id}
+                  className={`rounded-lg border p-3 transition-colors ${
+                    isSelected
+                      ? 'border-blue-300 bg-blue-50 dark:border-blue-700 dark:bg-blue-950/40'
+                      : 'border-gray-200 hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-800/50'
+                  }`}
+                >
+                  {isRenaming ? (
+                    <form
+                      className="flex items-center gap-2"
+                      onSubmit={event => {
+                        event.preventDefault()
+                        saveRename()
+                      }}
+                    >
+                      <Input
+                        value={renaming.name}
+                        onChange={event => setRenaming({ id: workspace.id, name: event.target.value })}
+                        maxLength={NAME_MAX_LENGTH}
+                        aria-label="New workspace name"
+                        autoFocus
+                      />
+                      <Button type="submit" size="sm" variant="ghost" disabled={isSavingName} aria-label="Save name">
+                        {isSavingName ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                      </Button>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => setRenaming(null)} aria-label="Cancel rename">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </form>
+                  ) : (
+                    <div className="flex items-start justify-between gap-2">
+                      <button
+                        type="button"
+                        className="min-w-0 flex-1 text-left"
+                        onClick={() => setSelectedId(workspace.id)}
+                      >
+                        <p className="truncate font-medium text-gray-900 dark:text-white">{workspace.name}</p>
+                        <div className="mt-1 flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+                          <Badge variant="secondary" className="capitalize">{workspace.role}</Badge>
+                          <span className="flex items-center gap-1">
+                            <Users className="h-3 w-3" />
+                            {workspace.member_count}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <FileText className="h-3 w-3" />
+                            {workspace.document_count}
+                          </span>
+                        </div>
+                      </button>
+                      {workspace.role === 'owner' && (
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 w-7 p-0"
+                            onClick={() => setRenaming({ id: workspace.id, name: workspace.name })}
+                            aria-label={`Rename ${workspace.name}`}
+                          >
+                            <Edit2 className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                            onClick={() => setDeleteTarget(workspace)}
+                            aria-label={`Delete ${workspace.name}`}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <WorkspaceMembers
+            key={selected.id}
+            workspace={selected}
+            onChanged={loadWorkspaces}
+          />
+        )}
+      </div>
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => {
+        if (!open && !isDeleting) {
+          setDeleteTarget(null)
+        }
+      }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Workspace</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete &quot;{deleteTarget?.name}&quot;? Its {deleteTarget?.document_count ?? 0} document
+              {deleteTarget?.document_count === 1 ? '' : 's'} will move back to the personal library of
+              whoever uploaded them, and members will lose access. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <Button
+              type="button"
+              onClick={deleteWorkspace}
+              disabled={isDeleting}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isDeleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,267 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertCircle, Loader2, LogOut, UserMinus, UserPlus } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { formatUploadDate } from '@/lib/date-utils'
+import { clientLogger } from '@/lib/client-logger'
+import type { WorkspaceMember, WorkspaceRole, WorkspaceSummary } from '@/lib/workspaces'
+
+const ROLE_OPTIONS: Array<{ value: WorkspaceRole; label: string }> = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'viewer', label: 'Viewer' }
+]
+
+interface WorkspaceMembersProps {
+  workspace: WorkspaceSummary
+  /** Called after a membership change so counts (and the caller's own access) refresh */
+  onChanged: () => void
+}
+
+/**
+ * Members of one workspace
+ * Owners add people by email and change roles; anyone can leave.
+ */
+export function WorkspaceMembers({ workspace, onChanged }: WorkspaceMembersProps) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<WorkspaceRole>('viewer')
+  const [isAdding, setIsAdding] = useState(false)
+  const [busyUserId, setBusyUserId] = useState<string | null>(null)
+  const supabase = useMemo(() => createClient(), [])
+
+  const isOwner = workspace.role === 'owner'
+
+  const loadMembers = useCallback(async () => {
+    setError(null)
+    try {
+      const res = await fetch(`/api/workspaces/${workspace.id}/members`, { cache: 'no-store' })
+      if (!res.ok) {
+        throw new Error('Failed to load members')
+      }
+
+      const data = await res.json() as { members: WorkspaceMember[] }
+      setMembers(data.members)
+    } catch (loadError) {
+      clientLogger.error('Failed to load workspace members', loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load members')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [workspace.id])
+
+  useEffect(() => {
+    loadMembers()
+  }, [loadMembers])
+
+  useEffect(() => {
+    supabase.auth.getUser()
+      .then(({ data }) => setCurrentUserId(data.user?.id ?? null))
+      .catch(authError => clientLogger.error('Failed to resolve current user', authError))
+  }, [supabase])
+
+  const addMember = async () => {
+    const trimmed = email.trim()
+    if (!trimmed) return
+
+    setIsAdding(true)
+    try {
+      const res = await fetch(`/api/workspaces/${workspace.id}/members`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: trimmed, role })
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => null) as { error?: string } | null
+        throw new Error(body?.error ?? 'Failed to add member')
+      }
+
+      setEmail('')
+      await loadMembers()
+      onChanged()
+    } catch (addError) {
+      clientLogger.error('Failed to add workspace member', addError)
+      alert(addError instanceof Error ? addError.message : 'Failed to add member. Please try again.')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const changeRole = async (member: WorkspaceMember, nextRole: WorkspaceRole) => {
+    if (nextRole === member.role) return
+
+    setBusyUserId(member.user_id)
+    try {
+      const res = await fetch(`/api/workspaces/${workspace.id}/members/${member.user_id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role: nextRole })
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => null) as { error?: string } | null
+        throw new Error(body?.error ?? 'Failed to change role')
+      }
+
+      await loadMembers()
+      if (member.user_id === currentUserId) {
+        onChanged()
+      }
+    } catch (roleError) {
+      clientLogger.error('Failed to change workspace role', roleError)
+      alert(roleError instanceof Error ? roleError.message : 'Failed to change role. Please try again.')
+    } finally {
+      setBusyUserId(null)
+    }
+  }
+
+  const removeMember = async (member: WorkspaceMember) => {
+    const isSelf = member.user_id === currentUserId
+    const label = member.email ?? 'this member'
+    if (!confirm(isSelf ? `Leave "${workspace.name}"?` : `Remove ${label} from "${workspace.name}"?`)) {
+      return
+    }
+
+    setBusyUserId(member.user_id)
+    try {
+      const res = await fetch(`/api/workspaces/${workspace.id}/members/${member.user_id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const body = await res.json().catch(() => null) as { error?: string } | null
+        throw new Error(body?.error ?? 'Failed to remove member')
+      }
+
+      if (!isSelf) {
+        await loadMembers()
+      }
+      onChanged()
+    } catch (removeError) {
+      clientLogger.error('Failed to remove workspace member', removeError)
+      alert(removeError instanceof Error ? removeError.message : 'Failed to remove member. Please try again.')
+    } finally {
+      setBusyUserId(null)
+    }
+  }
+
+  return (
+    <Card className="card-enhanced">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="truncate text-lg">{workspace.name} Members</CardTitle>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="flex items-center gap-2">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <p className="text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {isOwner && (
+          <form
+            className="flex flex-wrap gap-2"
+            onSubmit={event => {
+              event.preventDefault()
+              addMember()
+            }}
+          >
+            <Input
+              type="email"
+              value={email}
+              onChange={event => setEmail(event.target.value)}
+              placeholder="colleague@example.com"
+              className="min-w-[14rem] flex-1"
+              aria-label="Member email"
+            />
+            <Select value={role} onValueChange={value => setRole(value as WorkspaceRole)}>
+              <SelectTrigger className="w-32" aria-label="Member role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={isAdding || !email.trim()}>
+              {isAdding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+              Add
+            </Button>
+          </form>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Owners manage members; editors can upload, move and delete documents; viewers can read and search.
+        </p>
+
+        <div className="divide-y divide-gray-100 dark:divide-gray-800">
+          {members.map(member => {
+            const isSelf = member.user_id === currentUserId
+            const isBusy = busyUserId === member.user_id
+
+            return (
+              <div key={member.user_id} className="flex items-center justify-between gap-3 py-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate text-sm text-gray-900 dark:text-white">
+                      {member.email ?? member.user_id}
+                    </span>
+                    {isSelf && <Badge variant="secondary">You</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {member.full_name ? `${member.full_name} · ` : ''}Joined {formatUploadDate(member.created_at)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {isOwner ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={value => changeRole(member, value as WorkspaceRole)}
+                      disabled={isBusy}
+                    >
+                      <SelectTrigger className="h-8 w-28 text-xs" aria-label={`Role for ${member.email ?? member.user_id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROLE_OPTIONS.map(option => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline" className="capitalize">{member.role}</Badge>
+                  )}
+                  {(isOwner || isSelf) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 text-xs text-red-600 hover:text-red-700"
+                      onClick={() => removeMember(member)}
+                      disabled={isBusy}
+                      aria-label={isSelf ? 'Leave workspace' : `Remove ${member.email ?? member.user_id}`}
+                    >
+                      {isBusy ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : isSelf ? (
+                        <LogOut className="h-3 w-3" />
+                      ) : (
+                        <UserMinus className="h-3 w-3" />
+                      )}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -6,9 +6,11 @@
 // =====================================================
 
 import { NextRequest } from 'next/server'
-import { createServiceClient } from '@/lib/supabase/server'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
 import { logger } from '@/lib/logger'
 
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>
+
 // Activity types that we track
 export type ActivityAction = 
   | 'upload' 
@@ -16,7 +18,12 @@ export type ActivityAction =
   | 'search' 
   | 'download' 
   | 'view'
+  | 'update'
   | 'similarity'
+  | 'compare'
+  | 'export'
+  | 'retry'
+  | 'cancel'
   | 'batch_delete'
   | 'login'
   | 'logout'
@@ -28,26 +35,32 @@ export type ResourceType =
   | 'system' 
   | 'auth'
   | 'admin'
+  | 'workspace'
 
-const ACTIVITY_ACTION_VALUES: ActivityAction[] = [
+export const ACTIVITY_ACTION_VALUES: ActivityAction[] = [
   'upload',
   'delete',
   'search',
   'download',
   'view',
+  'update',
   'similarity',
+  'compare',
+  'export',
+  'retry',
+  'cancel',
   'batch_delete',
   'login',
   'logout',
   'error'
 ]
 
-const isActivityAction = (value: unknown): value is ActivityAction =>
+export const isActivityAction = (value: unknown): value is ActivityAction =>
   typeof value === 'string' && ACTIVITY_ACTION_VALUES.includes(value as ActivityAction)
 
-const RESOURCE_TYPE_VALUES: ResourceType[] = ['document', 'search', 'system', 'auth', 'admin']
+export const RESOURCE_TYPE_VALUES: ResourceType[] = ['document', 'search', 'system', 'auth', 'admin', 'workspace']
 
-const isResourceType = (value: unknown): value is ResourceType =>
+export const isResourceType = (value: unknown): value is ResourceType =>
   typeof value === 'string' && RESOURCE_TYPE_VALUES.includes(value as ResourceType)
 
 export interface ActivityLogEntry {
@@ -75,8 +88,10 @@ export interface ActivityLogEntry {
 
 export interface ActivityFilter {
   userId?: string
+  userEmail?: string
   action?: ActivityAction
   resourceType?: ResourceType
+  resourceId?: string
   startDate?: Date
   endDate?: Date
   limit?: number
@@ -93,7 +108,7 @@ export interface ActivityStats {
   avgDurationMs: number
 }
 
-interface ActivityLogRecord {
+export interface ActivityLogRecord {
   user_uuid: string | null
   email: string | null
   ip_address: string | null
@@ -128,6 +143,39 @@ interface DailyActivityRow {
   logged_at: string
 }
 
+// Raw audit row: action and resource types are kept verbatim (system jobs log
+// values outside ActivityAction, e.g. 'cleanup')
+export interface AuditLogRecord {
+  id: string
+  user_uuid: string | null
+  email: string | null
+  ip_address: string | null
+  user_agent: string | null
+  action_type: string
+  resource_type: string | null
+  resource_uuid: string | null
+  resource_name: string | null
+  metadata: Record<string, unknown> | null
+  api_endpoint: string | null
+  http_method: string | null
+  response_status: number | null
+  duration_ms: number | null
+  logged_at: string
+}
+
+export interface DailyActivityCount {
+  day: string
+  action_type: string
+  action_count: number
+  unique_users: number
+}
+
+// Route handlers pass the authenticated Supabase user
+interface ActingUser {
+  id: string
+  email?: string | null
+}
+
 export class ActivityLogger {
   private static instance: ActivityLogger
   private enabled: boolean = true
@@ -192,8 +240,9 @@ export class ActivityLogger {
   async logActivity(entry: ActivityLogEntry, request?: NextRequest): Promise<void> {
     if (!this.enabled) return
 
+    let supabase: ServiceClient | null = null
     try {
-      const supabase = await createServiceClient()
+      supabase = await createServiceClient()
       const userInfo = this.extractUserInfo(request)
 
       const activityRecord = {
@@ -245,13 +294,16 @@ export class ActivityLogger {
         action: entry.action,
         component: 'activity-logger'
       })
+    } finally {
+      if (supabase) releaseServiceClient(supabase)
     }
   }
 
   // Get recent activities
   async getRecentActivities(filter: ActivityFilter = {}): Promise<ActivityLogRecord[]> {
+    let supabase: ServiceClient | null = null
     try {
-      const supabase = await createServiceClient()
+      supabase = await createServiceClient()
       
       let query = supabase
         .from('user_activity_recent')
@@ -269,6 +321,14 @@ export class ActivityLogger {
       if (filter.resourceType) {
         query = query.eq('resource_type', filter.resourceType)
       }
+
+      if (filter.userEmail) {
+        query = query.ilike('email', `%${filter.userEmail}%`)
+      }
+
+      if (filter.resourceId) {
+        query = query.eq('resource_uuid', filter.resourceId)
+      }
       
       if (filter.startDate) {
         query = query.gte('logged_at', filter.startDate.toISOString())
@@ -323,13 +383,16 @@ export class ActivityLogger {
         component: 'activity-logger'
       })
       return []
+    } finally {
+      if (supabase) releaseServiceClient(supabase)
     }
   }
 
   // Get user activity summary (simplified - no complex views)
   async getUserActivitySummary(): Promise<ActivitySummaryRow[]> {
+    let supabase: ServiceClient | null = null
     try {
-      const supabase = await createServiceClient()
+      supabase = await createServiceClient()
       
       // Simple query directly on the table
       const { data, error } = await supabase
@@ -364,13 +427,16 @@ export class ActivityLogger {
         component: 'activity-logger'
       })
       return []
+    } finally {
+      if (supabase) releaseServiceClient(supabase)
     }
   }
 
   // Get daily activity stats (simplified)
   async getDailyActivityStats(days: number = 7): Promise<DailyActivityRow[]> {
+    let supabase: ServiceClient | null = null
     try {
-      const supabase = await createServiceClient()
+      supabase = await createServiceClient()
       
       // Simple query - get raw data for last N days
       const { data, error } = await supabase
@@ -402,13 +468,16 @@ export class ActivityLogger {
         component: 'activity-logger'
       })
       return []
+    } finally {
+      if (supabase) releaseServiceClient(supabase)
     }
   }
 
   // Get overall activity stats
   async getActivityStats(days: number = 30): Promise<ActivityStats> {
+    let supabase: ServiceClient | null = null
     try {
-      const supabase = await createServiceClient()
+      supabase = await createServiceClient()
       
       const startDate = new Date()
       startDate.setDate(startDate.getDate() - days)
@@ -476,9 +545,109 @@ export class ActivityLogger {
         downloads: 0,
         avgDurationMs: 0
       }
+    } finally {
+      if (supabase) releaseServiceClient(supabase)
+    }
+  }
+
+  // Audit log page: filtered rows from the full table plus the total count
+  async getAuditLog(filter: ActivityFilter = {}): Promise<{ entries: AuditLogRecord[]; total: number }> {
+    let supabase: ServiceClient | null = null
+    try {
+      supabase = await createServiceClient()
+
+      let query = supabase
+        .from('user_activity_logs')
+        .select('id, user_uuid, email, ip_address, user_agent, action_type, resource_type, resource_uuid, resource_name, metadata, api_endpoint, http_method, response_status, duration_ms, logged_at', { count: 'exact' })
+
+      if (filter.userId) {
+        query = query.eq('user_uuid', filter.userId)
+      }
+
+      if (filter.userEmail) {
+        query = query.ilike('email', `%${filter.userEmail}%`)
+      }
+
+      if (filter.action) {
+        query = query.eq('action_type', filter.action)
+      }
+
+      if (filter.resourceType) {
+        query = query.eq('resource_type', filter.resourceType)
+      }
+
+      if (filter.resourceId) {
+        query = query.eq('resource_uuid', filter.resourceId)
+      }
+
+      if (filter.startDate) {
+        query = query.gte('logged_at', filter.startDate.toISOString())
+      }
+
+      if (filter.endDate) {
+        query = query.lt('logged_at', filter.endDate.toISOString())
+      }
+
+      const limit = filter.limit || 50
+      const offset = filter.offset || 0
+
+      const { data, error, count } = await query
+        .order('logged_at', { ascending: false })
+        .range(offset, offset + limit - 1)
+        .returns<AuditLogRecord[]>()
+
+      if (error) {
+        throw new Error(`Failed to fetch audit log: ${error.message}`)
+      }
+
+      return { entries: data ?? [], total: count ?? 0 }
+    } finally {
+      if (supabase) releaseServiceClient(supabase)
+    }
+  }
+
+  // Per-day action counts for the audit charts (UTC days)
+  async getDailyActivityCounts(filter: ActivityFilter & { startDate: Date; endDate: Date }): Promise<DailyActivityCount[]> {
+    let supabase: ServiceClient | null = null
+    try {
+      supabase = await createServiceClient()
+
+      const { data, error } = await supabase
+        .rpc('activity_daily_counts', {
+          p_start: filter.startDate.toISOString(),
+          p_end: filter.endDate.toISOString(),
+          p_user_id: filter.userId ?? null,
+          p_email: filter.userEmail ?? null,
+          p_action: filter.action ?? null,
+          p_resource_id: filter.resourceId ?? null
+        })
+
+      if (error) {
+        throw new Error(`Failed to fetch daily activity counts: ${error.message}`)
+      }
+
+      return Array.isArray(data) ? data as DailyActivityCount[] : []
+    } finally {
+      if (supabase) releaseServiceClient(supabase)
     }
   }
 
+  // Log an action taken by an authenticated user from an API route
+  async logUserAction(
+    user: ActingUser,
+    entry: Omit<ActivityLogEntry, 'userId' | 'userEmail' | 'endpoint' | 'method'>,
+    request: NextRequest
+  ): Promise<void> {
+    await this.logActivity({
+      userId: user.id,
+      userEmail: user.email || '',
+      endpoint: request.nextUrl.pathname,
+      method: request.method,
+      statusCode: 200,
+      ...entry
+    }, request)
+  }
+
   // Helper methods for common activities
   async logDocumentUpload(documentId: string, fileName: string, request?: NextRequest): Promise<void> {
     await this.logActivity({
@@ -0,0 +1,315 @@
+/**
+ * Admin Console
+ * Cross-user views and operations for admins: per-user library footprint,
+ * failed processing jobs, and requeue / purge on a user's behalf
+ *
+ * Everything here runs through the service client and bypasses RLS, so
+ * callers must be gated with withAdmin (see lib/auth/route-auth).
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { queueDocumentProcessingJob, processUploadedDocument, type SimpleUploadTask } from '@/lib/upload-optimization'
+import { getVectorIdsForDocument } from '@/lib/pinecone'
+import { queuePineconeDeletion } from '@/lib/pinecone-cleanup-worker'
+import { logger } from '@/lib/logger'
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>
+
+export interface AdminUserSummary {
+  user_id: string
+  email: string
+  full_name: string | null
+  role: string
+  document_count: number
+  completed_count: number
+  in_progress_count: number
+  error_count: number
+  failed_job_count: number
+  storage_bytes: number
+  last_upload_at: string | null
+}
+
+export interface FailedJobSummary {
+  id: string
+  document_id: string
+  user_id: string
+  user_email: string | null
+  operation_type: string | null
+  attempts: number
+  max_attempts: number
+  error_message: string | null
+  failed_at: string | null
+  document: {
+    title: string
+    filename: string
+    status: string
+    file_size: number
+  } | null
+}
+
+interface FailedJobRecord {
+  id: string
+  document_id: string
+  user_id: string
+  operation_type: string | null
+  attempts: number
+  max_attempts: number
+  error_message: string | null
+  completed_at: string | null
+  updated_at: string
+  documents: FailedJobSummary['document'] | Array<NonNullable<FailedJobSummary['document']>> | null
+}
+
+interface AdminDocumentRecord {
+  id: string
+  user_id: string
+  title: string
+  filename: string
+  file_path: string | null
+  file_size: number
+  content_type: string | null
+  status: string
+  metadata: Record<string, unknown> | null
+}
+
+export type RequeueResult =
+  | { outcome: 'not_found' }
+  | { outcome: 'already_queued' }
+  | { outcome: 'queued'; document: AdminDocumentRecord; jobId?: string }
+
+// Documents in these states are picked up (or about to be) by the worker
+const ACTIVE_JOB_STATUSES = ['queued', 'processing']
+
+export async function getUserSummaries(): Promise<AdminUserSummary[]> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase.rpc('admin_user_summaries')
+
+    if (error) {
+      throw new Error(`Failed to load user summaries: ${error.message}`)
+    }
+
+    return Array.isArray(data) ? data as AdminUserSummary[] : []
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Permanently failed jobs whose document is still in the error state
+ * Once a document is requeued (or purged) its old failures drop off the list.
+ */
+export async function listFailedJobs(options: {
+  limit: number
+  offset: number
+  userId?: string
+}): Promise<{ jobs: FailedJobSummary[]; total: number }> {
+  const supabase = await createServiceClient()
+  try {
+    let query = supabase
+      .from('document_jobs')
+      .select(
+        'id, document_id, user_id, operation_type, attempts, max_attempts, error_message, completed_at, updated_at, documents!inner(title, filename, status, file_size)',
+        { count: 'exact' }
+      )
+      .eq('status', 'failed')
+      .eq('documents.status', 'error')
+
+    if (options.userId) {
+      query = query.eq('user_id', options.userId)
+    }
+
+    const { data, error, count } = await query
+      .order('updated_at', { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1)
+      .returns<FailedJobRecord[]>()
+
+    if (error) {
+      throw new Error(`Failed to load failed jobs: ${error.message}`)
+    }
+
+    const records = data ?? []
+    const emails = await loadUserEmails(supabase, Array.from(new Set(records.map(record => record.user_id))))
+
+    return {
+      jobs: records.map(record => ({
+        id: record.id,
+        document_id: record.document_id,
+        user_id: record.user_id,
+        user_email: emails.get(record.user_id) ?? null,
+        operation_type: record.operation_type,
+        attempts: record.attempts,
+        max_attempts: record.max_attempts,
+        error_message: record.error_message,
+        failed_at: record.completed_at ?? record.updated_at,
+        document: Array.isArray(record.documents) ? record.documents[0] ?? null : record.documents
+      })),
+      total: count ?? 0
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+async function loadUserEmails(supabase: ServiceClient, userIds: string[]): Promise<Map<string, string>> {
+  if (userIds.length === 0) {
+    return new Map()
+  }
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email')
+    .in('id', userIds)
+    .returns<Array<{ id: string; email: string }>>()
+
+  if (error) {
+    logger.warn('Failed to load user emails for admin console', { error: error.message })
+    return new Map()
+  }
+
+  return new Map((data ?? []).map(row => [row.id, row.email]))
+}
+
+async function loadDocument(supabase: ServiceClient, documentId: string): Promise<AdminDocumentRecord | null> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, user_id, title, filename, file_path, file_size, content_type, status, metadata')
+    .eq('id', documentId)
+    .maybeSingle<AdminDocumentRecord>()
+
+  if (error) {
+    throw new Error(`Failed to load document: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Put a document back on the processing queue for its owner
+ * Same reset as the owner's retry endpoint, without the state restriction:
+ * admins can also reprocess completed documents.
+ */
+export async function requeueDocument(documentId: string): Promise<RequeueResult> {
+  let task: SimpleUploadTask
+  let document: AdminDocumentRecord
+  const supabase = await createServiceClient()
+  try {
+    const existing = await loadDocument(supabase, documentId)
+    if (!existing) {
+      return { outcome: 'not_found' }
+    }
+    if (!existing.file_path) {
+      throw new Error('Document file path is missing')
+    }
+
+    const { data: activeJobs, error: activeJobsError } = await supabase
+      .from('document_jobs')
+      .select('id')
+      .eq('document_id', documentId)
+      .in('status', ACTIVE_JOB_STATUSES)
+
+    if (activeJobsError) {
+      throw new Error(`Failed to inspect existing jobs: ${activeJobsError.message}`)
+    }
+
+    if (activeJobs && activeJobs.length > 0) {
+      return { outcome: 'already_queued' }
+    }
+
+    const cleanedMetadata = existing.metadata ? { ...existing.metadata } : null
+    if (cleanedMetadata) {
+      delete cleanedMetadata['embeddings_skipped']
+      delete cleanedMetadata['embeddings_error']
+    }
+
+    const { error: updateError } = await supabase
+      .from('documents')
+      .update({
+        status: 'queued',
+        processing_error: null,
+        updated_at: new Date().toISOString(),
+        ...(cleanedMetadata ? { metadata: cleanedMetadata } : {})
+      })
+      .eq('id', documentId)
+
+    if (updateError) {
+      throw new Error(`Failed to reset document before requeue: ${updateError.message}`)
+    }
+
+    document = { ...existing, metadata: cleanedMetadata }
+    task = {
+      documentId,
+      userId: existing.user_id,
+      filename: existing.filename,
+      fileSize: existing.file_size,
+      filePath: existing.file_path,
+      contentType: existing.content_type ?? 'application/pdf',
+      metadata: cleanedMetadata ?? {}
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  const { jobId, sizeAnalysis } = await queueDocumentProcessingJob(task)
+
+  if (!jobId) {
+    processUploadedDocument({ ...task, sizeAnalysis }).catch(error => {
+      logger.error('Background admin requeue processing failed', error as Error, { documentId })
+    })
+  }
+
+  logger.info('Admin requeued document', { documentId, ownerId: document.user_id, jobId })
+
+  return jobId ? { outcome: 'queued', document, jobId } : { outcome: 'queued', document }
+}
+
+/**
+ * Delete a document, its stored file and its vectors on the owner's behalf
+ * Returns the removed document, or null when it does not exist.
+ */
+export async function purgeDocument(documentId: string): Promise<AdminDocumentRecord | null> {
+  const supabase = await createServiceClient()
+  try {
+    const document = await loadDocument(supabase, documentId)
+    if (!document) {
+      return null
+    }
+
+    let vectorIds: string[] = []
+    try {
+      vectorIds = await getVectorIdsForDocument(documentId)
+    } catch (vectorError) {
+      logger.error('Admin purge: failed to prefetch vector IDs', vectorError instanceof Error ? vectorError : new Error(String(vectorError)), {
+        documentId
+      })
+    }
+
+    if (document.file_path) {
+      const { error: storageError } = await supabase.storage
+        .from('documents')
+        .remove([document.file_path])
+
+      if (storageError) {
+        logger.error('Admin purge: storage deletion error', storageError, { documentId })
+      }
+    }
+
+    await queuePineconeDeletion(documentId, vectorIds)
+
+    // CASCADE removes jobs, chunks, content and processing status
+    const { error: deleteError } = await supabase
+      .from('documents')
+      .delete()
+      .eq('id', documentId)
+
+    if (deleteError) {
+      throw new Error(`Failed to delete document: ${deleteError.message}`)
+    }
+
+    logger.info('Admin purged document', { documentId, ownerId: document.user_id })
+
+    return document
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
@@ -0,0 +1,621 @@
+/**
+ * ZIP Archive Ingestion
+ * Expands an uploaded archive server-side into one document per PDF entry.
+ * Every entry ends up in the batch report as queued, skipped (with a reason)
+ * or failed; queued documents link back to the batch through upload_batch_id
+ * so the whole archive can be tracked as one unit.
+ *
+ * Queries here run through the service client, so routes must authenticate
+ * the caller and check their workspace role first.
+ */
+
+import { unzipSync } from 'fflate'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { processUploadedDocument, queueDocumentProcessingJob } from '@/lib/upload-optimization'
+import { MANIFEST_METADATA_KEYS, manifestKey } from '@/lib/upload-manifest'
+import { computeContentHash } from '@/lib/document-duplicates'
+import type { ExtractionProviderName } from '@/lib/extraction'
+import { MAX_FILE_SIZE_BYTES } from '@/lib/constants'
+import { logger } from '@/lib/logger'
+
+export const MAX_ARCHIVE_SIZE_BYTES = 200 * 1024 * 1024
+// Matches the per-selection limit of the browser upload queue
+export const MAX_ARCHIVE_ENTRIES = 500
+
+// Document statuses that end processing
+const TERMINAL_STATUSES = ['completed', 'error', 'cancelled']
+// PostgREST `in` filters go in the query string, so filenames are checked in chunks
+const FILENAME_LOOKUP_CHUNK = 100
+// The entry report is saved every this many entries, which also keeps updated_at fresh
+const REPORT_SAVE_INTERVAL = 25
+// An expanding batch without an update for this long lost its request (function timeout)
+const STALE_EXPANDING_MS = 10 * 60 * 1000
+
+const PDF_MAGIC = '%PDF-'
+
+export type UploadBatchStatus = 'expanding' | 'processing' | 'completed' | 'failed'
+
+export type ArchiveSkipReason =
+  | 'not_pdf'
+  | 'too_large'
+  | 'empty'
+  | 'invalid_pdf'
+  | 'duplicate_in_archive'
+  | 'duplicate_in_library'
+  | 'entry_limit'
+
+export interface ArchiveEntryReport {
+  /** Path inside the archive */
+  path: string
+  outcome: 'queued' | 'skipped' | 'failed'
+  reason?: ArchiveSkipReason
+  /** Failure message for failed entries */
+  error?: string
+  /** Uncompressed size */
+  size: number
+  document_id?: string
+  /** Entry this one duplicates (duplicate_in_archive) */
+  duplicate_of?: string
+}
+
+export interface UploadBatch {
+  id: string
+  user_id: string
+  workspace_id: string | null
+  archive_name: string
+  archive_size: number
+  status: UploadBatchStatus
+  total_entries: number
+  queued_count: number
+  skipped_count: number
+  failed_count: number
+  entries: ArchiveEntryReport[]
+  error_message: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+/**
+ * Processing state of the documents queued from a batch
+ */
+export interface UploadBatchProgress {
+  total: number
+  pending: number
+  processing: number
+  completed: number
+  error: number
+  cancelled: number
+  /** Share of queued documents that reached a terminal status (0-100) */
+  percent: number
+}
+
+interface ArchiveEntry {
+  path: string
+  size: number
+}
+
+export interface IngestArchiveOptions {
+  userId: string
+  workspaceId: string | null
+  archiveName: string
+  bytes: Uint8Array
+  /** Applied to every document */
+  metadata: Record<string, unknown>
+  /** Per-file metadata keyed by manifestKey(filename), overriding the shared values */
+  manifest: Record<string, Record<string, unknown>>
+  /** Text extraction provider for every document; null uses the configured default */
+  extractionProvider: ExtractionProviderName | null
+}
+
+export interface IngestArchiveResult {
+  batch: UploadBatch
+  /** Documents that went to the job queue (the rest started processing directly) */
+  queuedJobs: number
+}
+
+const isIgnoredEntry = (path: string): boolean =>
+  path.startsWith('__MACOSX/') || path.split('/').some(segment => segment.startsWith('.'))
+
+const basename = (path: string): string => path.split('/').pop() ?? path
+
+// Only the business fields a manifest may set, whatever else the entry carries
+const pickManifestMetadata = (entry: Record<string, unknown> | undefined): Record<string, unknown> =>
+  Object.fromEntries(
+    MANIFEST_METADATA_KEYS.flatMap(key => (entry && key in entry ? [[key, entry[key]]] : []))
+  )
+
+const countOutcomes = (report: ArchiveEntryReport[]) => ({
+  queued_count: report.filter(item => item.outcome === 'queued').length,
+  skipped_count: report.filter(item => item.outcome === 'skipped').length,
+  failed_count: report.filter(item => item.outcome === 'failed').length
+})
+
+// "Fund A/2024/sub docs.pdf" -> "Fund A/2024"
+const folderPath = (path: string): string => path.split('/').slice(0, -1).join('/')
+
+/**
+ * List the files in an archive without decompressing them
+ * Directory records and OS metadata (__MACOSX/, dotfiles) are left out.
+ */
+function listArchiveEntries(bytes: Uint8Array): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = []
+  try {
+    unzipSync(bytes, {
+      filter: file => {
+        if (!file.name.endsWith('/') && !isIgnoredEntry(file.name)) {
+          entries.push({ path: file.name, size: file.originalSize })
+        }
+        return false
+      }
+    })
+  } catch {
+    throw new Error('File is not a valid ZIP archive')
+  }
+  return entries
+}
+
+// Entries are inflated one at a time to keep memory bounded by the largest PDF
+function readArchiveEntry(bytes: Uint8Array, path: string): Uint8Array {
+  const files = unzipSync(bytes, { filter: file => file.name === path })
+  const content = files[path]
+  if (!content) {
+    throw new Error('Entry could not be read')
+  }
+  return content
+}
+
+const hasPdfSignature = (content: Uint8Array): boolean => {
+  // Some generators put a few bytes of junk before the header
+  const head = Buffer.from(content.subarray(0, 1024)).toString('latin1')
+  return head.includes(PDF_MAGIC)
+}
+
+/**
+ * Validate the archive before anything is written
+ * Throws with a user-facing message when it cannot be ingested.
+ */
+export function inspectArchive(bytes: Uint8Array): { entryCount: number; pdfCount: number } {
+  if (bytes.byteLength > MAX_ARCHIVE_SIZE_BYTES) {
+    throw new Error(`Archive exceeds maximum allowed size of ${MAX_ARCHIVE_SIZE_BYTES / (1024 * 1024)}MB`)
+  }
+
+  const entries = listArchiveEntries(bytes)
+  const pdfCount = entries.filter(entry => entry.path.toLowerCase().endsWith('.pdf')).length
+  if (pdfCount === 0) {
+    throw new Error('Archive does not contain any PDF files')
+  }
+
+  return { entryCount: entries.length, pdfCount }
+}
+
+/**
+ * Filenames (with sizes) already in the target library
+ * Matching name and size is treated as the same document, as is a matching
+ * content hash (hasLibraryContent).
+ */
+async function loadLibraryFiles(
+  supabase: Awaited<ReturnType<typeof createServiceClient>>,
+  userId: string,
+  workspaceId: string | null,
+  filenames: string[]
+): Promise<Set<string>> {
+  const existing = new Set<string>()
+  const unique = Array.from(new Set(filenames))
+
+  for (let i = 0; i < unique.length; i += FILENAME_LOOKUP_CHUNK) {
+    let query = supabase
+      .from('documents')
+      .select('filename, file_size')
+      .in('filename', unique.slice(i, i + FILENAME_LOOKUP_CHUNK))
+
+    query = workspaceId
+      ? query.eq('workspace_id', workspaceId)
+      : query.eq('user_id', userId).is('workspace_id', null)
+
+    const { data, error } = await query
+      .returns<Array<{ filename: string; file_size: number }>>()
+
+    if (error) {
+      throw new Error(`Failed to check existing documents: ${error.message}`)
+    }
+
+    for (const row of data ?? []) {
+      existing.add(`${row.filename}:${row.file_size}`)
+    }
+  }
+
+  return existing
+}
+
+async function hasLibraryContent(
+  supabase: Awaited<ReturnType<typeof createServiceClient>>,
+  userId: string,
+  workspaceId: string | null,
+  contentHash: string
+): Promise<boolean> {
+  let query = supabase
+    .from('documents')
+    .select('id')
+    .eq('content_hash', contentHash)
+
+  query = workspaceId
+    ? query.eq('workspace_id', workspaceId)
+    : query.eq('user_id', userId).is('workspace_id', null)
+
+  const { data, error } = await query.limit(1)
+
+  if (error) {
+    throw new Error(`Failed to check existing documents: ${error.message}`)
+  }
+
+  return (data ?? []).length > 0
+}
+
+/**
+ * Expand an archive into documents and queue each PDF for processing
+ * Call inspectArchive first; it rejects archives that cannot be ingested.
+ */
+export async function ingestArchive(options: IngestArchiveOptions): Promise<IngestArchiveResult> {
+  const { userId, workspaceId, archiveName, bytes, metadata, manifest, extractionProvider } = options
+  const entries = listArchiveEntries(bytes)
+  const report: ArchiveEntryReport[] = []
+  let queuedJobs = 0
+
+  const supabase = await createServiceClient()
+  try {
+    const { data: created, error: createError } = await supabase
+      .from('upload_batches')
+      .insert({
+        user_id: userId,
+        workspace_id: workspaceId,
+        archive_name: archiveName,
+        archive_size: bytes.byteLength,
+        status: 'expanding',
+        total_entries: entries.length
+      })
+      .select('id')
+      .single<{ id: string }>()
+
+    if (createError || !created) {
+      throw new Error(`Failed to create upload batch: ${createError?.message ?? 'no row returned'}`)
+    }
+
+    const batchId = created.id
+    logger.info('Expanding upload archive', { batchId, userId, archiveName, entries: entries.length })
+
+    try {
+      const pdfEntries = entries.filter(entry => entry.path.toLowerCase().endsWith('.pdf'))
+      const libraryFiles = await loadLibraryFiles(
+        supabase,
+        userId,
+        workspaceId,
+        pdfEntries.map(entry => basename(entry.path))
+      )
+      const seenHashes = new Map<string, string>()
+      let accepted = 0
+
+      for (const [position, entry] of entries.entries()) {
+        if (position > 0 && position % REPORT_SAVE_INTERVAL === 0) {
+          await saveExpansionProgress(supabase, batchId, report)
+        }
+
+        const filename = basename(entry.path)
+        const skip = (reason: ArchiveSkipReason, extra: Partial<ArchiveEntryReport> = {}) => {
+          report.push({ path: entry.path, outcome: 'skipped', reason, size: entry.size, ...extra })
+        }
+
+        if (!filename.toLowerCase().endsWith('.pdf')) {
+          skip('not_pdf')
+          continue
+        }
+        if (entry.size === 0) {
+          skip('empty')
+          continue
+        }
+        if (entry.size > MAX_FILE_SIZE_BYTES) {
+          skip('too_large')
+          continue
+        }
+        if (libraryFiles.has(`${filename}:${entry.size}`)) {
+          skip('duplicate_in_library')
+          continue
+        }
+        if (accepted >= MAX_ARCHIVE_ENTRIES) {
+          skip('entry_limit')
+          continue
+        }
+
+        try {
+          const content = readArchiveEntry(bytes, entry.path)
+          if (!hasPdfSignature(content)) {
+            skip('invalid_pdf')
+            continue
+          }
+
+          const contentHash = computeContentHash(content)
+          const original = seenHashes.get(contentHash)
+          if (original) {
+            skip('duplicate_in_archive', { duplicate_of: original })
+            continue
+          }
+          seenHashes.set(contentHash, entry.path)
+          if (await hasLibraryContent(supabase, userId, workspaceId, contentHash)) {
+            skip('duplicate_in_library')
+            continue
+          }
+          accepted++
+
+          const documentMetadata: Record<string, unknown> = {
+            ...metadata,
+            ...pickManifestMetadata(manifest[manifestKey(filename)]),
+            folder_path: folderPath(entry.path),
+            source_archive: { batch_id: batchId, name: archiveName, path: entry.path }
+          }
+
+          const { documentId, isQueued } = await createArchiveDocument(supabase, {
+            userId,
+            workspaceId,
+            batchId,
+            filename,
+            content,
+            contentHash,
+            metadata: documentMetadata,
+            extractionProvider
+          })
+
+          if (isQueued) {
+            queuedJobs++
+          }
+          report.push({ path: entry.path, outcome: 'queued', size: entry.size, document_id: documentId })
+        } catch (entryError) {
+          logger.error('Failed to ingest archive entry', entryError as Error, { batchId, path: entry.path })
+          report.push({
+            path: entry.path,
+            outcome: 'failed',
+            size: entry.size,
+            error: entryError instanceof Error ? entryError.message : 'Unknown error'
+          })
+        }
+      }
+
+      const counts = countOutcomes(report)
+      const now = new Date().toISOString()
+      // Nothing to wait for when no document was created
+      const status: UploadBatchStatus = counts.queued_count > 0 ? 'processing' : 'completed'
+
+      const { data: batch, error: updateError } = await supabase
+        .from('upload_batches')
+        .update({
+          ...counts,
+          status,
+          entries: report,
+          updated_at: now,
+          completed_at: status === 'completed' ? now : null
+        })
+        .eq('id', batchId)
+        .select('*')
+        .single<UploadBatch>()
+
+      if (updateError || !batch) {
+        throw new Error(`Failed to record upload batch report: ${updateError?.message ?? 'no row returned'}`)
+      }
+
+      logger.info('Upload archive expanded', { batchId, userId, ...counts, queuedJobs })
+
+      return { batch, queuedJobs }
+    } catch (error) {
+      await supabase
+        .from('upload_batches')
+        .update({
+          ...countOutcomes(report),
+          status: 'failed',
+          entries: report,
+          error_message: error instanceof Error ? error.message : 'Unknown error',
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', batchId)
+      throw error
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Save the entries handled so far
+ * A batch whose request dies mid-expansion still reports the documents it created.
+ */
+async function saveExpansionProgress(
+  supabase: Awaited<ReturnType<typeof createServiceClient>>,
+  batchId: string,
+  report: ArchiveEntryReport[]
+): Promise<void> {
+  const { error } = await supabase
+    .from('upload_batches')
+    .update({ ...countOutcomes(report), entries: report, updated_at: new Date().toISOString() })
+    .eq('id', batchId)
+    .eq('status', 'expanding')
+
+  if (error) {
+    logger.warn('Failed to save upload batch progress', { batchId, error: error.message })
+  }
+}
+
+/**
+ * Store one PDF from the archive and hand it to the processing queue
+ * Mirrors the single-file upload route.
+ */
+async function createArchiveDocument(
+  supabase: Awaited<ReturnType<typeof createServiceClient>>,
+  input: {
+    userId: string
+    workspaceId: string | null
+    batchId: string
+    filename: string
+    content: Uint8Array
+    contentHash: string
+    metadata: Record<string, unknown>
+    extractionProvider: ExtractionProviderName | null
+  }
+): Promise<{ documentId: string; isQueued: boolean }> {
+  const { userId, workspaceId, batchId, filename, content, contentHash, metadata, extractionProvider } = input
+  const filePath = `${userId}/${Date.now()}-${Math.random().toString(36).substr(2, 9)}.pdf`
+
+  const { error: uploadError } = await supabase.storage
+    .from('documents')
+    .upload(filePath, content, {
+      cacheControl: '3600',
+      upsert: false,
+      contentType: 'application/pdf'
+    })
+
+  if (uploadError) {
+    throw new Error(`Failed to upload file: ${uploadError.message}`)
+  }
+
+  const { data: document, error: dbError } = await supabase
+    .from('documents')
+    .insert({
+      user_id: userId,
+      workspace_id: workspaceId,
+      upload_batch_id: batchId,
+      content_hash: contentHash,
+      ...(extractionProvider ? { extraction_provider: extractionProvider } : {}),
+      title: filename.replace(/\.[^/.]+$/, ''),
+      filename,
+      file_path: filePath,
+      file_size: content.byteLength,
+      content_type: 'application/pdf',
+      status: 'uploading',
+      metadata
+    })
+    .select('id')
+    .single<{ id: string }>()
+
+  if (dbError || !document) {
+    await supabase.storage.from('documents').remove([filePath])
+    throw new Error(`Failed to create document record: ${dbError?.message ?? 'no row returned'}`)
+  }
+
+  const task = {
+    documentId: document.id,
+    userId,
+    filename,
+    fileSize: content.byteLength,
+    filePath,
+    contentType: 'application/pdf',
+    metadata
+  }
+
+  const { jobId, sizeAnalysis } = await queueDocumentProcessingJob(task)
+
+  if (!jobId) {
+    processUploadedDocument({ ...task, sizeAnalysis }).catch(error => {
+      logger.error('Background processing failed', error as Error, { documentId: document.id, batchId })
+    })
+  }
+
+  return { documentId: document.id, isQueued: Boolean(jobId) }
+}
+
+/**
+ * Load a batch with the processing state of its documents
+ * A processing batch is marked completed once every document is done, and an
+ * expanding batch whose request stopped updating it is marked failed.
+ */
+export async function getUploadBatch(
+  batchId: string,
+  userId: string
+): Promise<{ batch: UploadBatch; progress: UploadBatchProgress } | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data: batch, error } = await supabase
+      .from('upload_batches')
+      .select('*')
+      .eq('id', batchId)
+      .eq('user_id', userId)
+      .maybeSingle<UploadBatch>()
+
+    if (error) {
+      throw new Error(`Failed to load upload batch: ${error.message}`)
+    }
+    if (!batch) {
+      return null
+    }
+
+    if (batch.status === 'expanding' && Date.now() - new Date(batch.updated_at).getTime() > STALE_EXPANDING_MS) {
+      const now = new Date().toISOString()
+      const errorMessage = 'Archive expansion did not finish; entries missing from the report were not uploaded'
+      const { error: failError } = await supabase
+        .from('upload_batches')
+        .update({ status: 'failed', error_message: errorMessage, updated_at: now })
+        .eq('id', batchId)
+        .eq('status', 'expanding')
+        .eq('updated_at', batch.updated_at)
+
+      if (failError) {
+        logger.warn('Failed to mark stale upload batch failed', { batchId, error: failError.message })
+      } else {
+        batch.status = 'failed'
+        batch.error_message = errorMessage
+        batch.updated_at = now
+      }
+    }
+
+    const { data: documents, error: documentsError } = await supabase
+      .from('documents')
+      .select('status')
+      .eq('upload_batch_id', batchId)
+      .returns<Array<{ status: string }>>()
+
+    if (documentsError) {
+      throw new Error(`Failed to load upload batch documents: ${documentsError.message}`)
+    }
+
+    const progress: UploadBatchProgress = {
+      total: 0,
+      pending: 0,
+      processing: 0,
+      completed: 0,
+      error: 0,
+      cancelled: 0,
+      percent: 0
+    }
+
+    for (const { status } of documents ?? []) {
+      progress.total++
+      if (status === 'completed' || status === 'error' || status === 'cancelled') {
+        progress[status]++
+      } else if (status === 'processing' || status === 'cancelling') {
+        progress.processing++
+      } else {
+        progress.pending++
+      }
+    }
+
+    const finished = progress.completed + progress.error + progress.cancelled
+    // Documents deleted from the library no longer count against the batch
+    progress.percent = progress.total > 0 ? Math.round((finished / progress.total) * 100) : 100
+
+    if (batch.status === 'processing' && (documents ?? []).every(document => TERMINAL_STATUSES.includes(document.status))) {
+      const now = new Date().toISOString()
+      const { error: completeError } = await supabase
+        .from('upload_batches')
+        .update({ status: 'completed', completed_at: now, updated_at: now })
+        .eq('id', batchId)
+        .eq('status', 'processing')
+
+      if (completeError) {
+        logger.warn('Failed to mark upload batch completed', { batchId, error: completeError.message })
+      } else {
+        batch.status = 'completed'
+        batch.completed_at = now
+      }
+    }
+
+    return { batch, progress }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * User Roles
+ * Reads the application role from public.users (populated by the
+ * handle_new_user trigger; defaults to 'user')
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import type { User } from '@/types'
+import { logger } from '@/lib/logger'
+
+export type UserRole = User['role']
+
+/**
+ * Look up a user's role; unknown users and lookup failures resolve to 'user'
+ */
+export async function getUserRole(userId: string): Promise<UserRole> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', userId)
+      .maybeSingle<{ role: string | null }>()
+
+    if (error) {
+      logger.warn('Failed to load user role', { userId, error: error.message })
+      return 'user'
+    }
+
+    return data?.role === 'admin' ? 'admin' : 'user'
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+export async function isAdmin(userId: string): Promise<boolean> {
+  return (await getUserRole(userId)) === 'admin'
+}
@@ -0,0 +1,66 @@
+/**
+ * Route Authorization
+ * Wraps App Router handlers with authentication and a minimum role, so
+ * operational endpoints cannot be reached by regular users
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { User as AuthUser } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { getUserRole, type UserRole } from '@/lib/auth/roles'
+import { logger } from '@/lib/logger'
+
+const ROLE_RANK: Record<UserRole, number> = {
+  user: 0,
+  admin: 1
+}
+
+export interface AuthorizedRequestContext {
+  user: AuthUser
+  role: UserRole
+}
+
+type RouteContext<TParams> = { params: Promise<TParams> }
+
+/**
+ * Require a signed-in user with at least `requiredRole`
+ * Responds 401 without a session and 403 when the role is too low.
+ */
+export function withRole<TParams extends Record<string, string> = Record<string, never>>(
+  requiredRole: UserRole,
+  handler: (
+    request: NextRequest,
+    context: RouteContext<TParams>,
+    auth: AuthorizedRequestContext
+  ) => Promise<Response>
+): (request: NextRequest, context: RouteContext<TParams>) => Promise<Response> {
+  return async (request, context) => {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = await getUserRole(user.id)
+    if (ROLE_RANK[role] < ROLE_RANK[requiredRole]) {
+      logger.warn('Route access denied for role', {
+        userId: user.id,
+        role,
+        requiredRole,
+        endpoint: request.nextUrl.pathname,
+        method: request.method
+      })
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    return handler(request, context, { user, role })
+  }
+}
+
+export const withAdmin = <TParams extends Record<string, string> = Record<string, never>>(
+  handler: (
+    request: NextRequest,
+    context: RouteContext<TParams>,
+    auth: AuthorizedRequestContext
+  ) => Promise<Response>
+) => withRole<TParams>('admin', handler)
@@ -0,0 +1,110 @@
+/**
+ * Chunk regions for the highlighted PDF viewer
+ *
+ * Document AI returns a bounding polygon per paragraph. Paragraph boxes are
+ * kept through extraction and, after chunking, each chunk collects the boxes
+ * of the paragraphs whose text it contains. Coordinates are normalized (0-1)
+ * with a top-left origin, matching Document AI's `normalizedVertices`.
+ */
+
+import type { DocumentAIBoundingBox } from '@/types/external-apis'
+import { stripPrefixes, type Paragraph } from './paragraph-chunker'
+
+export interface ChunkRegion {
+  pageNumber: number
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+// Leading characters compared when matching a paragraph against chunk text
+const PROBE_LENGTH = 48
+// Shorter probes (section numbers, stray labels) match too many chunks
+const MIN_PROBE_LENGTH = 12
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+/**
+ * Convert a Document AI bounding polygon into a normalized rectangle
+ * Falls back to absolute vertices scaled by the page dimension when
+ * normalized vertices are missing.
+ */
+export function boundingPolyToRegion(
+  boundingPoly: DocumentAIBoundingBox | undefined,
+  pageNumber: number,
+  dimension?: { width?: number; height?: number }
+): ChunkRegion | null {
+  let points = (boundingPoly?.normalizedVertices ?? [])
+    .filter(vertex => typeof vertex.x === 'number' || typeof vertex.y === 'number')
+    .map(vertex => ({ x: vertex.x ?? 0, y: vertex.y ?? 0 }))
+
+  if (points.length === 0 && dimension?.width && dimension.height) {
+    const { width, height } = dimension
+    points = (boundingPoly?.vertices ?? [])
+      .filter(vertex => typeof vertex.x === 'number' || typeof vertex.y === 'number')
+      .map(vertex => ({ x: (vertex.x ?? 0) / width, y: (vertex.y ?? 0) / height }))
+  }
+
+  if (points.length === 0) return null
+
+  const xs = points.map(point => clamp(point.x))
+  const ys = points.map(point => clamp(point.y))
+  const region = {
+    pageNumber,
+    x0: Math.min(...xs),
+    y0: Math.min(...ys),
+    x1: Math.max(...xs),
+    y1: Math.max(...ys)
+  }
+
+  return region.x1 > region.x0 && region.y1 > region.y0 ? region : null
+}
+
+const normalizeForMatching = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '')
+
+interface IndexedParagraph {
+  region: ChunkRegion
+  text: string
+  probe: string
+}
+
+/**
+ * Build a matcher that collects the paragraph boxes falling inside a chunk
+ * A paragraph belongs to the chunk when its leading text appears in the chunk,
+ * or when the chunk starts inside the paragraph (long paragraphs split by sentence).
+ */
+export function createChunkRegionLocator(paragraphs: Paragraph[]) {
+  const paragraphsByPage = new Map<number, IndexedParagraph[]>()
+
+  for (const paragraph of paragraphs) {
+    if (!paragraph.boundingBox) continue
+    const text = normalizeForMatching(stripPrefixes(paragraph.text))
+    const probe = text.slice(0, PROBE_LENGTH)
+    if (probe.length < MIN_PROBE_LENGTH) continue
+
+    const pageParagraphs = paragraphsByPage.get(paragraph.pageNumber) ?? []
+    pageParagraphs.push({ region: paragraph.boundingBox, text, probe })
+    paragraphsByPage.set(paragraph.pageNumber, pageParagraphs)
+  }
+
+  return (chunk: { text: string; startPageNumber: number; endPageNumber: number }): ChunkRegion[] => {
+    const chunkText = normalizeForMatching(chunk.text)
+    if (!chunkText || paragraphsByPage.size === 0) return []
+    const chunkProbe = chunkText.slice(0, PROBE_LENGTH)
+
+    const regions: ChunkRegion[] = []
+    for (let page = chunk.startPageNumber; page <= chunk.endPageNumber; page += 1) {
+      for (const paragraph of paragraphsByPage.get(page) ?? []) {
+        if (
+          chunkText.includes(paragraph.probe) ||
+          (chunkProbe.length >= MIN_PROBE_LENGTH && paragraph.text.includes(chunkProbe))
+        ) {
+          regions.push(paragraph.region)
+        }
+      }
+    }
+
+    return regions
+  }
+}
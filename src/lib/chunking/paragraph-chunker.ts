@@ -11,6 +11,7 @@
  */
 
 import { splitIntoSentences } from './sentence-chunker'
+import type { ChunkRegion } from './chunk-regions'
 
 export interface Paragraph {
   text: string
@@ -18,6 +19,7 @@ export interface Paragraph {
   index: number
   startPageNumber?: number  // Track page range for merged paragraphs
   endPageNumber?: number    // Track page range for merged paragraphs
+  boundingBox?: ChunkRegion // Document AI layout box (highlighted PDF viewer)
 }
 
 export interface Chunk {
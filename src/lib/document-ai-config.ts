@@ -29,13 +29,66 @@ export function getProcessorName(processorId: string): string {
   return `projects/${process.env['GOOGLE_CLOUD_PROJECT_ID']}/locations/${process.env['GOOGLE_CLOUD_LOCATION']}/processors/${processorId}`;
 }
 
-// Current strategy: Use OCR processor for reliable text extraction
-// Testing showed Form Parser provides no benefit for complex legal documents:
+// OCR vs Form Parser
+// Testing showed Form Parser provides no benefit for the text of complex legal documents:
 // - Form fields detected but all values empty
 // - More paragraph fragmentation (40 vs 37)
 // - Same prefix issues as OCR
 // - Splits Yes/No into separate paragraphs instead of grouping
+// Only the Form Parser detects tables, though, and tables are stored, embedded and
+// compared on their own. So it is the default whenever GOOGLE_CLOUD_FORM_PARSER_ID
+// names one; DOCUMENT_AI_PROCESSOR=ocr opts out of table handling.
+let warnedNoTables = false
+
+function warnNoTables(reason: string) {
+  if (warnedNoTables) return
+  warnedNoTables = true
+  logger.warn('Document AI is running without table detection: tables stay in paragraph chunks and are not compared', {
+    reason,
+    fix: 'Set GOOGLE_CLOUD_FORM_PARSER_ID to a Form Parser processor (and leave DOCUMENT_AI_PROCESSOR unset or form_parser)'
+  })
+}
+
 export function detectOptimalProcessor(filename: string, fileSize: number): ProcessorType {
+  const setting = process.env['DOCUMENT_AI_PROCESSOR']?.trim().toLowerCase()
+  if (setting && setting !== PROCESSOR_TYPES.FORM_PARSER && setting !== PROCESSOR_TYPES.DOCUMENT_OCR) {
+    throw new Error(`Invalid DOCUMENT_AI_PROCESSOR "${setting}". Expected one of: ocr, form_parser`)
+  }
+
+  const hasFormParser = Boolean(process.env['GOOGLE_CLOUD_FORM_PARSER_ID']?.trim())
+  if (setting === PROCESSOR_TYPES.FORM_PARSER || (!setting && hasFormParser)) {
+    if (!hasFormParser) {
+      // getProcessorId falls back to the primary processor, which may well be an OCR one
+      warnNoTables('DOCUMENT_AI_PROCESSOR=form_parser but GOOGLE_CLOUD_FORM_PARSER_ID is not set')
+    }
+    logger.info('Using Form Parser processor for document', { filename, fileSize })
+    return PROCESSOR_TYPES.FORM_PARSER
+  }
+
+  warnNoTables(setting === PROCESSOR_TYPES.DOCUMENT_OCR
+    ? 'DOCUMENT_AI_PROCESSOR=ocr'
+    : 'GOOGLE_CLOUD_FORM_PARSER_ID is not set')
   logger.info('Using OCR processor for document', { filename, fileSize })
   return PROCESSOR_TYPES.DOCUMENT_OCR
 }
+
+export interface BatchGcsLocation {
+  bucket: string
+  prefix: string
+}
+
+// Batch (long-running) processing stages PDFs and reads results under
+// DOCUMENT_AI_BATCH_GCS_URI (gs://bucket[/prefix]). Unset, large documents
+// are processed online in page ranges instead.
+export function getBatchGcsLocation(): BatchGcsLocation | null {
+  const setting = process.env['DOCUMENT_AI_BATCH_GCS_URI']?.trim()
+  if (!setting) {
+    return null
+  }
+
+  const match = /^gs:\/\/([^/]+)\/?(.*)$/.exec(setting)
+  if (!match?.[1]) {
+    throw new Error(`Invalid DOCUMENT_AI_BATCH_GCS_URI "${setting}". Expected gs://bucket[/prefix]`)
+  }
+  return { bucket: match[1], prefix: (match[2] ?? '').replace(/\/+$/, '') }
+}
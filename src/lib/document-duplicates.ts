@@ -0,0 +1,183 @@
+/**
+ * Duplicate Document Detection
+ * Byte-identical uploads are caught before processing by the SHA-256 of the
+ * file (documents.content_hash). Near-duplicates - the same document saved
+ * again, so the bytes differ but the text does not - are caught after
+ * processing by an identical total_characters and centroid.
+ */
+
+import { createHash } from 'node:crypto'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { documentScopeFilter, type DocumentScope } from '@/lib/workspaces'
+import { logger } from '@/lib/logger'
+
+export const CONTENT_HASH_PATTERN = /^[0-9a-f]{64}$/
+// Matches the per-selection limit of the browser upload queue
+export const MAX_CONTENT_HASH_LOOKUP = 500
+// Centroids are L2-normalized, so this is cosine similarity; allows float noise only
+export const NEAR_DUPLICATE_MIN_SIMILARITY = 0.9999
+
+// PostgREST `in` filters go in the query string, so hashes are checked in chunks
+const HASH_LOOKUP_CHUNK = 100
+const MAX_NEAR_DUPLICATE_CANDIDATES = 20
+
+export interface ContentHashMatch {
+  id: string
+  title: string
+  filename: string
+  workspace_id: string | null
+  status: string
+  created_at: string
+}
+
+export function computeContentHash(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex')
+}
+
+/**
+ * Documents in the caller's libraries with the given content hashes
+ * Newest first per hash; hashes without a match are left out.
+ */
+export async function findContentHashMatches(
+  scope: DocumentScope,
+  hashes: string[]
+): Promise<Record<string, ContentHashMatch[]>> {
+  const unique = Array.from(new Set(hashes))
+  const matches: Record<string, ContentHashMatch[]> = {}
+
+  const supabase = await createServiceClient()
+  try {
+    for (let i = 0; i < unique.length; i += HASH_LOOKUP_CHUNK) {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, title, filename, workspace_id, status, created_at, content_hash')
+        .in('content_hash', unique.slice(i, i + HASH_LOOKUP_CHUNK))
+        .or(documentScopeFilter(scope))
+        .order('created_at', { ascending: false })
+        .returns<Array<ContentHashMatch & { content_hash: string }>>()
+
+      if (error) {
+        throw new Error(`Failed to look up content hashes: ${error.message}`)
+      }
+
+      for (const { content_hash, ...document } of data ?? []) {
+        (matches[content_hash] ??= []).push(document)
+      }
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  return matches
+}
+
+const parseVector = (value: unknown): number[] | null => {
+  let parsed = value
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed)
+    } catch {
+      return null
+    }
+  }
+  return Array.isArray(parsed) && parsed.every(item => typeof item === 'number') ? parsed : null
+}
+
+const dotProduct = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) return 0
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i]! * b[i]!
+  }
+  return sum
+}
+
+interface NearDuplicateRow {
+  id: string
+  user_id: string
+  workspace_id: string | null
+  total_characters: number | null
+  centroid_embedding: unknown
+}
+
+/**
+ * Link a processed document to an earlier one in the same library with the
+ * same character count and centroid (documents.near_duplicate_of)
+ * Runs after the centroid is stored; failures are logged, never thrown.
+ *
+ * @returns The earlier document's id, or null when there is none
+ */
+export async function detectNearDuplicate(documentId: string): Promise<string | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data: document, error } = await supabase
+      .from('documents')
+      .select('id, user_id, workspace_id, total_characters, centroid_embedding')
+      .eq('id', documentId)
+      .maybeSingle<NearDuplicateRow>()
+
+    if (error || !document) {
+      logger.warn('Near-duplicate check skipped: document not loaded', { documentId, error: error?.message })
+      return null
+    }
+
+    const centroid = parseVector(document.centroid_embedding)
+    if (!document.total_characters || !centroid) {
+      return null
+    }
+
+    let query = supabase
+      .from('documents')
+      .select('id, user_id, workspace_id, total_characters, centroid_embedding')
+      .eq('total_characters', document.total_characters)
+      .eq('status', 'completed')
+      .neq('id', documentId)
+      .not('centroid_embedding', 'is', null)
+
+    query = document.workspace_id
+      ? query.eq('workspace_id', document.workspace_id)
+      : query.eq('user_id', document.user_id).is('workspace_id', null)
+
+    const { data: candidates, error: candidatesError } = await query
+      .order('created_at', { ascending: true })
+      .limit(MAX_NEAR_DUPLICATE_CANDIDATES)
+      .returns<NearDuplicateRow[]>()
+
+    if (candidatesError) {
+      logger.warn('Near-duplicate check failed to load candidates', { documentId, error: candidatesError.message })
+      return null
+    }
+
+    const original = (candidates ?? []).find(candidate => {
+      const candidateCentroid = parseVector(candidate.centroid_embedding)
+      return candidateCentroid !== null && dotProduct(centroid, candidateCentroid) >= NEAR_DUPLICATE_MIN_SIMILARITY
+    })
+
+    if (!original) {
+      return null
+    }
+
+    const { error: updateError } = await supabase
+      .from('documents')
+      .update({ near_duplicate_of: original.id })
+      .eq('id', documentId)
+
+    if (updateError) {
+      logger.warn('Failed to record near-duplicate', { documentId, originalId: original.id, error: updateError.message })
+      return null
+    }
+
+    logger.info('Near-duplicate document detected', {
+      documentId,
+      originalId: original.id,
+      totalCharacters: document.total_characters
+    })
+
+    return original.id
+  } catch (error) {
+    logger.error('Near-duplicate check failed', error as Error, { documentId })
+    return null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
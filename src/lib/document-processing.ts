@@ -1,21 +1,25 @@
-import { DocumentProcessorServiceClient } from '@google-cloud/documentai'
-import { PDFDocument } from 'pdf-lib'
 import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js'
 import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
-import { generateEmbeddings } from '@/lib/embeddings-vertex'
-import { indexDocumentInPinecone, getVectorIdsForDocument } from '@/lib/pinecone'
+import { generateEmbeddings, getEmbeddingModelId } from '@/lib/embeddings'
+import { indexDocumentInPinecone, getVectorIdsForDocument, deleteDocumentFromPinecone } from '@/lib/pinecone'
 import { l2Normalize } from '@/lib/similarity/utils/vector-operations'
-import { detectOptimalProcessor, getProcessorId, getProcessorName } from '@/lib/document-ai-config'
-import { getGoogleClientOptions } from '@/lib/google-credentials'
 import { SmartRetry, RetryConfigs, circuitBreakers } from '@/lib/retry-logic'
+import {
+  discardBatchExtraction,
+  getExtractionProvider,
+  parseBatchExtractionOperation,
+  type BatchExtractionOperation,
+  type ExtractedSegment,
+  type ExtractionResult
+} from '@/lib/extraction'
 import { logger, measurePerformance, withRequestContext } from '@/lib/logger'
 import { analyzeDocumentSize, estimateProcessingTime, requiresSpecialHandling, type DocumentSizeAnalysis } from '@/lib/document-size-strategies'
 import { DatabaseDocumentWithContent } from '@/types/external-apis'
 import { DEFAULT_CHUNK_SIZE, DEFAULT_CHUNK_OVERLAP, SENTENCES_PER_CHUNK, SENTENCE_OVERLAP, MIN_CHUNK_CHARACTERS, MAX_CHUNK_CHARACTERS } from '@/lib/constants/chunking'
 import { chunkByParagraphs, countCharacters, type Paragraph } from '@/lib/chunking/paragraph-chunker'
+import { boundingPolyToRegion, createChunkRegionLocator, type ChunkRegion } from '@/lib/chunking/chunk-regions'
 import { chunkBySentences } from '@/lib/chunking/sentence-chunker'
 import type { GenericSupabaseSchema } from '@/types/supabase'
-import { saveDocumentAIResponse } from '@/lib/debug-document-ai'
 import { queuePineconeDeletion } from '@/lib/pinecone-cleanup-worker'
 
 // Processing pipeline fingerprint - increment when major changes are made
@@ -24,6 +28,7 @@ const PROCESSING_FEATURES = {
   pageNumbering: 'sequential-fallback',       // Uses pageIndex+1 as fallback
   chunkingStrategy: 'paragraph-semantic-v10', // Character-based, zero overlap, strict maxCharacters enforcement
   embeddingRetry: 'unlimited-v1',             // Unlimited retry logic
+  tables: 'document-tables-v1',               // Tables stored and embedded separately, kept out of chunks
   structuredLogging: 'winston-pino-v1'        // Structured logging system
 }
 
@@ -43,14 +48,22 @@ async function executeWithCircuitBreaker<T>(
 import type {
   DocumentAIDocument,
   DocumentAIPage,
+  DocumentAITable,
   DocumentAITextAnchor,
   DocumentAIBoundingBox,
   BusinessMetadata,
   ExtractedField,
   SimplifiedEntity,
   SimplifiedTable,
-  DatabaseDocument
+  DatabaseDocument,
+  SubscriptionAgreementProposal,
+  ExclusionRange,
+  ExclusionRangeType
 } from '@/types/external-apis'
+import { detectSubscriptionAgreement, SUBSCRIPTION_AUTO_APPLY_CONFIDENCE } from '@/lib/subscription-agreement-detection'
+import { getManualExclusionRanges } from '@/lib/exclusion-ranges'
+import { detectNearDuplicate } from '@/lib/document-duplicates'
+import { saveDocumentTables } from '@/lib/document-tables'
 
 interface EmbeddingGenerationStats {
   chunkCount: number
@@ -65,6 +78,7 @@ export interface DocumentProcessingMetrics {
   embeddingsAttempts: number
   embeddingsRetries: number
   structuredFieldCount: number
+  tableCount: number
   textLength: number
   processor: {
     id: string
@@ -81,9 +95,23 @@ export interface DocumentProcessingMetrics {
   }[]
 }
 
+export interface ProcessDocumentOptions {
+  /** Extract with the provider's batch operation when it has one configured */
+  preferBatch?: boolean
+  /** Finished batch operation whose output is processed instead of extracting */
+  batchOperation?: BatchExtractionOperation
+}
+
 export interface ProcessDocumentResult {
   switchedToBatch?: boolean
+  /** Started batch operation; processing resumes once it finishes */
+  batchOperation?: BatchExtractionOperation
   metrics?: DocumentProcessingMetrics
+  exclusionReembed?: {
+    removedChunks: number
+    addedChunks: number
+    rebuiltPages: number[]
+  }
 }
 
 interface ProcessedDocumentData {
@@ -96,12 +124,21 @@ interface ProcessedDocumentData {
 
 interface SaveProcessedDocumentResult {
   embeddingStats: EmbeddingGenerationStats
-  excludedSection: {
-    type: 'subscription_agreement'
-    startPage: number
-    endPage: number
-    pageCount: number
-  } | null
+  excludedSections: AppliedExclusion[]
+  tableCount: number
+}
+
+type ExclusionSource = 'auto' | 'manual'
+
+interface AppliedExclusion {
+  type: ExclusionRangeType
+  label?: string
+  startPage: number
+  endPage: number
+  pageCount: number
+  pageNumbers: number[]
+  source: ExclusionSource
+  confidence?: number
 }
 
 type DocumentAIKeyValuePair = {
@@ -180,12 +217,12 @@ export async function cleanupCancelledDocument(documentId: string): Promise<void
     if (vectorIds.length > 0) {
       try {
         const { getPineconeIndex } = await import('@/lib/pinecone')
-        const index = getPineconeIndex()
+        const index = await getPineconeIndex()
 
         // Delete in batches of 1000 (Pinecone limit)
         for (let i = 0; i < vectorIds.length; i += 1000) {
           const batch = vectorIds.slice(i, i + 1000)
-          await index.namespace('').deleteMany(batch)
+          await index.deleteMany(batch)
         }
 
         logger.info('Deleted vectors from Pinecone', { documentId, vectorCount: vectorIds.length })
@@ -227,7 +264,22 @@ export async function cleanupCancelledDocument(documentId: string): Promise<void
       logger.error('Failed to delete processing status during cleanup', statusError, { documentId })
     }
 
-    // 7. Explicitly delete document_jobs (even though CASCADE should handle it)
+    // 7. Stop batch extractions still running and delete their staged files
+    const { data: batchJobs } = await supabase
+      .from('document_jobs')
+      .select('metadata')
+      .eq('document_id', documentId)
+      .not('batch_operation_id', 'is', null)
+      .returns<Array<{ metadata: Record<string, unknown> | null }>>()
+
+    for (const job of batchJobs ?? []) {
+      const operation = parseBatchExtractionOperation(job.metadata?.['batch_extraction'])
+      if (operation) {
+        await discardBatchExtraction(operation, { cancel: true })
+      }
+    }
+
+    // 8. Explicitly delete document_jobs (even though CASCADE should handle it)
     const { error: jobsError } = await supabase
       .from('document_jobs')
       .delete()
@@ -239,7 +291,7 @@ export async function cleanupCancelledDocument(documentId: string): Promise<void
       logger.info('Deleted document jobs', { documentId })
     }
 
-    // 8. Delete from storage
+    // 9. Delete from storage
     const storageFilePath = typeof document.file_path === 'string' ? document.file_path : null
     if (storageFilePath) {
       const { error: storageError } = await supabase.storage
@@ -256,7 +308,7 @@ export async function cleanupCancelledDocument(documentId: string): Promise<void
       }
     }
 
-    // 9. Delete the document record itself (CASCADE will handle any remaining references)
+    // 10. Delete the document record itself (CASCADE will handle any remaining references)
     const { error: docError } = await supabase
       .from('documents')
       .delete()
@@ -291,7 +343,10 @@ class ProcessingCancelledException extends Error {
   }
 }
 
-export async function processDocument(documentId: string): Promise<ProcessDocumentResult> {
+export async function processDocument(
+  documentId: string,
+  options: ProcessDocumentOptions = {}
+): Promise<ProcessDocumentResult> {
   return withRequestContext({
     correlationId: `doc_${documentId}`
   }, async () => {
@@ -320,6 +375,7 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
               .select(`
                 id,
                 user_id,
+                workspace_id,
                 title,
                 filename,
                 file_path,
@@ -330,6 +386,7 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
                 extracted_fields,
                 metadata,
                 page_count,
+                extraction_provider,
                 created_at,
                 updated_at,
                 document_content(extracted_text)
@@ -392,212 +449,105 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
           ? `Preparing ${sizeAnalysis.tier.toLowerCase()} document processing (~${timeEstimate.estimatedMinutes} min estimated)...`
           : 'Downloading document...'
         
-        await updateProcessingStatus(documentId, 'processing', 20, statusMessage)
-        logger.logDocumentProcessing('download', documentId, 'started', { progress: 20 })
+        const extractionProvider = getExtractionProvider(
+          options.batchOperation?.provider ?? document.extraction_provider
+        )
+        const providerLabel = extractionProvider.name === 'local' ? 'local text extraction' : 'Document AI'
 
-        // Download file from Supabase Storage
-        const { data: fileData, error: downloadError } = await supabase.storage
-          .from('documents')
-          .download(document.file_path)
+        let extraction: ExtractionResult
+        if (options.batchOperation) {
+          if (!extractionProvider.batch) {
+            throw new Error(`Extraction provider ${extractionProvider.name} does not support batch processing`)
+          }
 
-        if (downloadError || !fileData) {
-          logger.error('Failed to download document from storage', downloadError, { 
-            documentId, 
-            filePath: document.file_path 
+          await updateProcessingStatus(documentId, 'processing', 50, `Reading ${providerLabel} batch output...`)
+          logger.logDocumentProcessing('text-extraction', documentId, 'started', {
+            progress: 50,
+            provider: extractionProvider.name,
+            batchOperation: options.batchOperation.operationName
           })
-          throw new Error('Failed to download document from storage')
-        }
-
-        logger.info('Document downloaded from storage', { 
-          documentId, 
-          filePath: document.file_path,
-          fileSize: document.file_size 
-        })
-
-        // Convert to base64
-        const arrayBuffer = await fileData.arrayBuffer()
-        const base64Content = Buffer.from(arrayBuffer).toString('base64')
-        logger.debug('Document converted to base64', { documentId, base64Length: base64Content.length })
-
-        // CHECKPOINT 2: Check cancellation before Document AI processing
-        if (await checkCancellation(documentId)) {
-          logger.info('Document cancelled before Document AI processing', { documentId })
-          throw new ProcessingCancelledException(documentId)
-        }
-
-        // Update processing status
-        await updateProcessingStatus(documentId, 'processing', 40, 'Processing with Document AI...')
-        logger.logDocumentProcessing('document-ai-processing', documentId, 'started', { progress: 40 })
-
-        // Always try sync processing first - let Document AI tell us if it's too large
-        const client = new DocumentProcessorServiceClient(getGoogleClientOptions())
-        const fileSizeMB = document.file_size / (1024 * 1024)
-        logger.info('Starting Document AI processing', { 
-          documentId, 
-          fileSizeMB: parseFloat(fileSizeMB.toFixed(1)),
-          strategy: 'sync-first' 
-        })
 
-        // Process with Google Document AI using intelligent size-based strategy
-        // Auto-detect optimal processor based on document characteristics and size analysis
-        logger.info('Selecting optimal processor', {
-          documentId,
-          tier: sizeAnalysis.tier,
-          strategy: sizeAnalysis.strategy,
-          estimatedPages: sizeAnalysis.estimatedPages,
-          component: 'document-processing'
-        })
-        
-        const optimalProcessor = detectOptimalProcessor(document.filename, document.file_size)
-        const processorId = getProcessorId(optimalProcessor)
-        const name = getProcessorName(processorId)
-        
-        logger.info('Document AI processor selected', { 
-          documentId, 
-          processor: optimalProcessor,
-          processorId 
-        })
-        
-        const request = {
-          name,
-          rawDocument: {
-            content: base64Content,
-            mimeType: 'application/pdf',
-          },
-        }
-
-        const syncPageLimit = Number.parseInt(process.env['DOCUMENT_AI_SYNC_PAGE_LIMIT'] || '15', 10)
-        const shouldUseSyncFirst = sizeAnalysis.estimatedPages <= syncPageLimit
+          extraction = await extractionProvider.batch.collect(options.batchOperation)
+          // The output is parsed; retries start a new operation
+          await discardBatchExtraction(options.batchOperation)
+        } else {
+          await updateProcessingStatus(documentId, 'processing', 20, statusMessage)
+          logger.logDocumentProcessing('download', documentId, 'started', { progress: 20 })
 
-        if (!shouldUseSyncFirst) {
-          logger.info('Skipping sync-first Document AI processing due to page count', {
-            documentId,
-            estimatedPages: sizeAnalysis.estimatedPages,
-            syncPageLimit
-          })
+          // Download file from Supabase Storage
+          const { data: fileData, error: downloadError } = await supabase.storage
+            .from('documents')
+            .download(document.file_path)
 
-          try {
-            return await processDocumentWithChunks({
-              pdfArrayBuffer: arrayBuffer,
-              processorId,
-              processorName: name,
-              processorType: optimalProcessor,
-              documentId,
-              client,
-              supabase,
-              document,
-              sizeAnalysis,
-              timeEstimate
+          if (downloadError || !fileData) {
+            logger.error('Failed to download document from storage', downloadError, { 
+              documentId, 
+              filePath: document.file_path 
             })
-          } catch (chunkError) {
-            if (chunkError instanceof ProcessingCancelledException) {
-              throw chunkError
-            }
-
-            await cleanupPartialEmbeddings(documentId)
-            logger.error('Chunked processing fallback failed - document too large', chunkError as Error, { documentId })
-            throw new Error('Document exceeds processing limits. Please try a smaller document.')
+            throw new Error('Failed to download document from storage')
           }
-        }
 
-        let result;
-        try {
-          // Use smart retry with circuit breaker for Document AI processing
-          const retryResult = await circuitBreakers.documentAI.execute(async () => {
-            return await SmartRetry.execute(
-              async () => {
-                logger.debug('Attempting Document AI processing', { 
-                  documentId,
-                  processor: optimalProcessor 
-                })
-                const response = await client.processDocument(request)
-                return Array.isArray(response) ? response[0] : response
-              },
-              RetryConfigs.documentAI
-            )
+          logger.info('Document downloaded from storage', { 
+            documentId, 
+            filePath: document.file_path,
+            fileSize: document.file_size 
           })
 
-          if (!retryResult.success) {
-            throw retryResult.error
+          const arrayBuffer = await fileData.arrayBuffer()
+
+          // CHECKPOINT 2: Check cancellation before text extraction
+          if (await checkCancellation(documentId)) {
+            logger.info('Document cancelled before text extraction', { documentId })
+            throw new ProcessingCancelledException(documentId)
           }
 
-          result = retryResult.result!
-          logger.info('Document AI processing completed successfully', {
+          const extractionInput = {
             documentId,
-            attempts: retryResult.attempts,
-            totalTime: retryResult.totalTime,
-            processor: optimalProcessor
-          })
-
-          // Save raw Document AI output for analysis (non-blocking) - only if debug flag is enabled
-          if (result.document && process.env['DUMP_DOCUMENT_AI'] === '1') {
-            saveDocumentAIResponse(
-              documentId,
-              result.document as unknown as DocumentAIDocument,
-              {
-                filename: document.filename,
-                fileSize: document.file_size,
-                pageCount: result.document.pages?.length,
-                processor: optimalProcessor
-              }
-            ).catch(error => {
-              logger.warn('Failed to save Document AI debug output', {
-                documentId,
-                error: error instanceof Error ? error.message : String(error)
-              })
-            })
+            filename: document.filename,
+            fileSize: document.file_size,
+            content: arrayBuffer,
+            estimatedPages: sizeAnalysis.estimatedPages
           }
 
-        } catch (error: unknown) {
-          const documentAiError = error as { code?: number; details?: string } | null
-          // Handle page limit errors by processing document in manageable chunks before falling back to batch
-          if (
-            documentAiError?.code === 3 &&
-            typeof documentAiError.details === 'string' &&
-            documentAiError.details.includes('exceed the limit')
-          ) {
-            logger.warn('Page limit exceeded, attempting chunked processing fallback', {
-              documentId,
-              errorCode: documentAiError.code !== undefined ? String(documentAiError.code) : undefined,
-              errorDetails: documentAiError.details
-            })
+          if (options.preferBatch) {
+            if (extractionProvider.batch?.isConfigured()) {
+              const batchOperation = await extractionProvider.batch.start(extractionInput)
 
-            try {
-              return await processDocumentWithChunks({
-                pdfArrayBuffer: arrayBuffer,
-                processorId,
-                processorName: name,
-                processorType: optimalProcessor,
+              await updateProcessingStatus(
                 documentId,
-                client,
-                supabase,
-                document,
-                sizeAnalysis,
-                timeEstimate
+                'processing',
+                40,
+                `Processing with ${providerLabel} batch (~${timeEstimate.estimatedMinutes} min estimated)...`
+              )
+              logger.logDocumentProcessing('text-extraction', documentId, 'started', {
+                progress: 40,
+                provider: extractionProvider.name,
+                batchOperation: batchOperation.operationName
               })
-            } catch (chunkError) {
-              if (chunkError instanceof ProcessingCancelledException) {
-                throw chunkError
-              }
 
-              await cleanupPartialEmbeddings(documentId)
-              logger.error('Chunked processing fallback failed - document too large', chunkError as Error, { documentId })
-              throw new Error('Document exceeds processing limits. Please try a smaller document.')
+              return { switchedToBatch: true, batchOperation }
             }
+
+            logger.info('Batch extraction unavailable, processing online', {
+              documentId,
+              provider: extractionProvider.name,
+              tier: sizeAnalysis.tier
+            })
           }
-          // Re-throw other errors
-          logger.error('Document AI processing failed', error as Error, { documentId })
-          throw error
-        }
-    
-        if (!result.document) {
-          logger.error('No document returned from Document AI', undefined, { documentId })
-          throw new Error('No document returned from Document AI')
+
+          // Update processing status
+          await updateProcessingStatus(documentId, 'processing', 40, `Processing with ${providerLabel}...`)
+          logger.logDocumentProcessing('text-extraction', documentId, 'started', {
+            progress: 40,
+            provider: extractionProvider.name
+          })
+
+          extraction = await extractionProvider.extract(extractionInput)
         }
 
-        // CHECKPOINT 2B: Check cancellation after Document AI completes
+        // CHECKPOINT 2B: Check cancellation after text extraction completes
         if (await checkCancellation(documentId)) {
-          logger.info('Document cancelled after Document AI completed', { documentId })
+          logger.info('Document cancelled after text extraction completed', { documentId })
           throw new ProcessingCancelledException(documentId)
         }
 
@@ -605,7 +555,12 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
         await updateProcessingStatus(documentId, 'processing', 60, 'Extracting structured data...')
         logger.logDocumentProcessing('data-extraction', documentId, 'started', { progress: 60 })
 
-        const processedData = buildProcessedDocumentData(result.document as unknown as DocumentAIDocument)
+        const processedData = buildProcessedDocumentDataFromSegments(extraction.segments)
+        // The raw layout is only usable as-is when one response covers the whole document
+        const [firstSegment] = extraction.segments
+        const rawDocument = extraction.segments.length === 1 && firstSegment?.pageOffset === 0
+          ? firstSegment.document
+          : null
 
         logger.info('Document data extracted successfully', {
           documentId,
@@ -623,13 +578,13 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
         await updateProcessingStatus(documentId, 'processing', 80, 'Generating embeddings...')
         logger.logDocumentProcessing('embedding-generation', documentId, 'started', { progress: 80 })
 
-        const { embeddingStats, excludedSection } = await saveProcessedDocumentData(
+        const { embeddingStats, excludedSections, tableCount } = await saveProcessedDocumentData(
           supabase,
           documentId,
           processedData,
           document,
           sizeAnalysis,
-          result.document as unknown as DocumentAIDocument
+          rawDocument
         )
 
         await updateProcessingStatus(documentId, 'completed', 100, 'Document processing completed successfully')
@@ -654,25 +609,23 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
           embeddingsAttempts: embeddingStats.attempts,
           embeddingsRetries: embeddingStats.retryCount,
           structuredFieldCount: processedData.structuredData.fields?.length || 0,
+          tableCount,
           textLength: processedData.extractedText.length,
-          processor: {
-            id: processorId,
-            name,
-            type: optimalProcessor
-          },
+          processor: extraction.processor,
           estimatedProcessingSeconds: timeEstimate.estimatedMinutes * 60
         }
 
-        if (excludedSection) {
-          metrics.excludedSections = [{
-            type: excludedSection.type,
-            startPage: excludedSection.startPage,
-            endPage: excludedSection.endPage,
-            pageCount: excludedSection.pageCount
-          }]
+        if (excludedSections.length > 0) {
+          metrics.excludedSections = excludedSections.map(exclusion => ({
+            type: exclusion.type,
+            startPage: exclusion.startPage,
+            endPage: exclusion.endPage,
+            pageCount: exclusion.pageCount,
+            ...(exclusion.confidence !== undefined ? { confidence: exclusion.confidence } : {})
+          }))
         }
 
-        return { switchedToBatch: false, metrics } // Successful sync processing
+        return { switchedToBatch: false, metrics }
 
       } catch (error) {
         // Handle cancellation specially - clean up all partial data
@@ -825,25 +778,16 @@ function extractStructuredFields(document: DocumentAIDocument, pageOffset: numbe
 
       if (page.tables) {
         for (const table of page.tables) {
-          const headerRows = (table.headerRows || [])
-            .map(row => (row.cells || [])
-              .map(cell => getTextFromTextAnchor(fullText, cell.layout?.textAnchor))
-              .filter((cellText): cellText is string => !!cellText && cellText.trim().length > 0)
-              .map(cellText => cellText.trim()))
-            .filter(row => row.length > 0)
-
-          const bodyRows = (table.bodyRows || [])
-            .map(row => (row.cells || [])
-              .map(cell => getTextFromTextAnchor(fullText, cell.layout?.textAnchor))
-              .filter((cellText): cellText is string => !!cellText && cellText.trim().length > 0)
-              .map(cellText => cellText.trim()))
-            .filter(row => row.length > 0)
+          const headerRows = readTableRows(fullText, table.headerRows)
+          const bodyRows = readTableRows(fullText, table.bodyRows)
 
           if (bodyRows.length > 0) {
+            const region = boundingPolyToRegion(table.layout?.boundingPoly, adjustedPageNumber, page.dimension)
             tables.push({
               pageNumber: adjustedPageNumber,
               headerRows: headerRows.length > 0 ? headerRows : undefined,
               bodyRows,
+              ...(region ? { region } : {})
             })
           }
         }
@@ -858,6 +802,17 @@ function extractStructuredFields(document: DocumentAIDocument, pageOffset: numbe
   }
 }
 
+/**
+ * Cell texts per row; empty cells stay as '' so columns line up, empty rows are dropped
+ */
+function readTableRows(fullText: string, rows: DocumentAITable['headerRows']): string[][] {
+  return (rows || [])
+    .map(row => (row.cells || []).map(cell =>
+      (getTextFromTextAnchor(fullText, cell.layout?.textAnchor) ?? '').replace(/\s+/g, ' ').trim()
+    ))
+    .filter(row => row.some(cellText => cellText.length > 0))
+}
+
 function getFieldType(entityType: string): 'text' | 'number' | 'date' | 'currency' | 'address' | 'phone' | 'email' | 'url' | 'boolean' {
   const type = entityType.toLowerCase()
   if (type.includes('date') || type.includes('time')) return 'date'
@@ -915,9 +870,9 @@ export async function generateAndIndexPagedEmbeddings(
   try {
     const { data: docRecord, error: docError } = await supabase
       .from('documents')
-      .select('metadata, filename, user_id')
+      .select('metadata, filename, user_id, workspace_id')
       .eq('id', documentId)
-      .single<{ metadata: BusinessMetadata | null; filename: string | null; user_id: string | null }>()
+      .single<{ metadata: BusinessMetadata | null; filename: string | null; user_id: string | null; workspace_id: string | null }>()
 
     if (docError) {
       logger.warn('Could not fetch document metadata', { documentId, error: docError?.message, component: 'document-processing' })
@@ -927,26 +882,77 @@ export async function generateAndIndexPagedEmbeddings(
       ? docRecord.metadata as BusinessMetadata
       : {} as BusinessMetadata
     const filename = typeof docRecord?.filename === 'string' ? docRecord.filename : `${documentId}.pdf`
-    const userId = typeof docRecord?.user_id === 'string' ? docRecord.user_id : null
+    const owner = resolveVectorOwner(docRecord)
     const pagesText = extractTextByPages(document)
     const paragraphs = extractParagraphsFromDocument(document)
   
-    return await generateEmbeddingsFromPages(documentId, pagesText, businessMetadata, filename, userId, sizeAnalysis, document, paragraphs)
+    return await generateEmbeddingsFromPages(documentId, pagesText, businessMetadata, filename, owner, sizeAnalysis, document, paragraphs)
   } finally {
     releaseServiceClient(supabase)
   }
 }
 
+/**
+ * Library a document's vectors belong to
+ * Stamped on every Pinecone vector so similarity filters can scope by the
+ * uploader and by workspace (see lib/workspaces pineconeScopeFilter).
+ */
+export interface VectorOwner {
+  userId: string | null
+  workspaceId: string | null
+}
+
+export function resolveVectorOwner(
+  record: { user_id?: unknown; workspace_id?: unknown } | null | undefined
+): VectorOwner {
+  return {
+    userId: typeof record?.user_id === 'string' ? record.user_id : null,
+    workspaceId: typeof record?.workspace_id === 'string' ? record.workspace_id : null
+  }
+}
+
+function vectorOwnerMetadata(owner: VectorOwner): Record<string, string> {
+  return {
+    ...(owner.userId ? { user_id: owner.userId } : {}),
+    ...(owner.workspaceId ? { workspace_id: owner.workspaceId } : {})
+  }
+}
+
+/**
+ * Metadata stored with a chunk's Pinecone vector
+ * Also used by the Pinecone reconciler to re-upsert vectors from document_embeddings.
+ */
+export function buildChunkVectorMetadata(
+  documentId: string,
+  chunk: Pick<PagedChunk, 'chunkIndex' | 'pageNumber' | 'startPageNumber' | 'endPageNumber' | 'text'>,
+  filename: string,
+  owner: VectorOwner,
+  businessMetadata: BusinessMetadata
+): Record<string, unknown> {
+  return {
+    document_id: documentId,
+    chunk_index: chunk.chunkIndex,
+    page_number: chunk.pageNumber,        // Keep for compatibility
+    start_page_number: chunk.startPageNumber,
+    end_page_number: chunk.endPageNumber,
+    text: chunk.text,
+    filename,
+    ...vectorOwnerMetadata(owner),
+    // Include business metadata for filtering
+    ...businessMetadata
+  }
+}
+
 // Extract chunk processing into separate function for better error handling
 async function processChunkWithRetry(
   documentId: string,
   pagedChunk: PagedChunk,
   businessMetadata: BusinessMetadata,
   filename: string,
-  userId: string | null
+  owner: VectorOwner
 ): Promise<void> {
   try {
-    // Generate embedding with Vertex AI using smart retry
+    // Generate embedding with the configured provider using smart retry
     const embeddingResult = await executeWithCircuitBreaker(circuitBreakers.vertexAI, async () => {
       return await SmartRetry.execute(
         async () => {
@@ -997,6 +1003,7 @@ async function processChunkWithRetry(
                 start_page_number: pagedChunk.startPageNumber,
                 end_page_number: pagedChunk.endPageNumber,
                 character_count: pagedChunk.characterCount,
+                regions: pagedChunk.regions && pagedChunk.regions.length > 0 ? pagedChunk.regions : null,
               },
               {
                 onConflict: 'document_id,chunk_index'
@@ -1033,18 +1040,7 @@ async function processChunkWithRetry(
           await indexDocumentInPinecone(
             vectorId,
             embedding,
-            {
-              document_id: documentId,
-              chunk_index: pagedChunk.chunkIndex,
-              page_number: pagedChunk.pageNumber,        // Keep for compatibility
-              start_page_number: pagedChunk.startPageNumber,
-              end_page_number: pagedChunk.endPageNumber,
-              text: pagedChunk.text,
-              filename,
-              ...(userId ? { user_id: userId } : {}),
-              // Include business metadata for filtering
-              ...businessMetadata
-            }
+            buildChunkVectorMetadata(documentId, pagedChunk, filename, owner, businessMetadata)
           )
           return true
         },
@@ -1064,80 +1060,197 @@ async function processChunkWithRetry(
   }
 }
 
-function getManualSubscriptionRange(
-  metadata: Record<string, unknown> | null | undefined
-): { startPage: number; endPage: number } | null {
-  if (!metadata) return null
+/**
+ * Decide which subscription agreement range to exclude
+ * A typed range always wins; "N/A" disables exclusion. Otherwise the detector's
+ * proposal is applied when it is confident enough or the user confirmed the same
+ * span, and skipped when the user rejected it.
+ */
+function resolveSubscriptionRange(
+  metadata: BusinessMetadata,
+  manualRange: ExclusionRange | null,
+  pagesText: { text: string; pageNumber: number }[]
+): {
+  range: ExclusionRange | null
+  source: ExclusionSource
+  confidence?: number
+  proposal: SubscriptionAgreementProposal | null
+} {
+  const detection = detectSubscriptionAgreement(pagesText)
 
-  if (metadata['subscription_agreement_skipped'] === true) {
-    return null
+  if (!detection) {
+    return { range: manualRange, source: 'manual', proposal: null }
   }
 
-  const startValue = metadata['subscription_agreement_start_page']
-  const endValue = metadata['subscription_agreement_end_page']
-
-  const start = typeof startValue === 'number' ? startValue : Number(startValue)
-  const end = typeof endValue === 'number' ? endValue : Number(endValue)
-
-  if (!Number.isFinite(start) || !Number.isFinite(end)) return null
-
-  const startPage = Math.floor(start)
-  const endPage = Math.floor(end)
+  // Keep the user's review when reprocessing finds the same span
+  const previous = metadata.subscription_agreement_detection
+  const sameSpan = previous?.start_page === detection.startPage && previous?.end_page === detection.endPage
+  const status = sameSpan && previous ? previous.status : 'pending'
+
+  const autoApply =
+    !manualRange &&
+    metadata.subscription_agreement_skipped !== true &&
+    metadata.subscription_agreement_auto_detect !== false &&
+    (status === 'confirmed' || (status === 'pending' && detection.confidence >= SUBSCRIPTION_AUTO_APPLY_CONFIDENCE))
+
+  const proposal: SubscriptionAgreementProposal = {
+    start_page: detection.startPage,
+    end_page: detection.endPage,
+    confidence: detection.confidence,
+    heading_pages: detection.headingPages,
+    questionnaire_pages: detection.questionnairePages,
+    signature_pages: detection.signaturePages,
+    applied: autoApply,
+    status,
+    detected_at: new Date().toISOString(),
+    ...(sameSpan && previous?.reviewed_at ? { reviewed_at: previous.reviewed_at } : {})
+  }
 
-  if (startPage < 1 || endPage < 1 || endPage < startPage) {
-    return null
+  if (autoApply) {
+    return {
+      range: { type: 'subscription_agreement', start_page: detection.startPage, end_page: detection.endPage },
+      source: 'auto',
+      confidence: detection.confidence,
+      proposal
+    }
   }
 
-  return { startPage, endPage }
+  return { range: manualRange, source: 'manual', proposal }
 }
 
-function applyManualExclusions(
-  pagesText: { text: string; pageNumber: number }[],
-  range: { startPage: number; endPage: number } | null
+/**
+ * Resolve every exclusion range for a document against its page text
+ * The subscription agreement goes through the detector; other typed ranges are
+ * applied as entered. Ranges matching no pages are dropped, and if the ranges
+ * together would remove every page none of them is applied.
+ */
+function resolveDocumentExclusions(
+  documentId: string,
+  metadata: BusinessMetadata,
+  pagesText: { text: string; pageNumber: number }[]
 ): {
   filteredPages: { text: string; pageNumber: number }[]
-  exclusion: {
-    type: 'subscription_agreement'
-    startPage: number
-    endPage: number
-    pageCount: number
-    pageNumbers: number[]
-  } | null
+  exclusions: AppliedExclusion[]
+  proposal: SubscriptionAgreementProposal | null
 } {
-  if (!range) {
-    return { filteredPages: pagesText, exclusion: null }
-  }
-
-  const excludedPageNumbers = pagesText
-    .filter(page => page.pageNumber >= range.startPage && page.pageNumber <= range.endPage)
-    .map(page => page.pageNumber)
+  const manualRanges = getManualExclusionRanges(metadata)
+  const manualSubscription = manualRanges.find(range => range.type === 'subscription_agreement') ?? null
+  const resolved = resolveSubscriptionRange(metadata, manualSubscription, pagesText)
+
+  const requested: Array<ExclusionRange & { source: ExclusionSource; confidence?: number }> = [
+    ...(resolved.range
+      ? [{
+          ...resolved.range,
+          source: resolved.source,
+          ...(resolved.confidence !== undefined ? { confidence: resolved.confidence } : {})
+        }]
+      : []),
+    ...manualRanges
+      .filter(range => range !== manualSubscription)
+      .map(range => ({ ...range, source: 'manual' as const }))
+  ]
+
+  const exclusions: AppliedExclusion[] = []
+
+  for (const range of requested) {
+    const pageNumbers = pagesText
+      .filter(page => page.pageNumber >= range.start_page && page.pageNumber <= range.end_page)
+      .map(page => page.pageNumber)
+
+    if (pageNumbers.length === 0) {
+      logger.warn('Exclusion range provided but no pages were excluded', {
+        documentId,
+        type: range.type,
+        range: { startPage: range.start_page, endPage: range.end_page },
+        source: range.source
+      })
+      continue
+    }
 
-  if (excludedPageNumbers.length === 0) {
-    return { filteredPages: pagesText, exclusion: null }
+    exclusions.push({
+      type: range.type,
+      ...(range.label ? { label: range.label } : {}),
+      startPage: range.start_page,
+      endPage: range.end_page,
+      pageCount: pageNumbers.length,
+      pageNumbers,
+      source: range.source,
+      ...(range.confidence !== undefined ? { confidence: range.confidence } : {})
+    })
   }
 
-  const filteredPages = pagesText.filter(
-    page => page.pageNumber < range.startPage || page.pageNumber > range.endPage
-  )
+  const excludedPages = new Set(exclusions.flatMap(exclusion => exclusion.pageNumbers))
+  let filteredPages = pagesText.filter(page => !excludedPages.has(page.pageNumber))
 
-  if (filteredPages.length === 0) {
-    logger.warn('Manual subscription agreement range excludes all pages; ignoring exclusion', {
-      range,
+  if (exclusions.length > 0 && filteredPages.length === 0) {
+    logger.warn('Exclusion ranges exclude all pages; ignoring exclusions', {
+      documentId,
+      ranges: exclusions.map(exclusion => ({ type: exclusion.type, startPage: exclusion.startPage, endPage: exclusion.endPage })),
       totalPages: pagesText.length
     })
-    return { filteredPages: pagesText, exclusion: null }
+    exclusions.length = 0
+    filteredPages = pagesText
   }
 
-  return {
-    filteredPages,
-    exclusion: {
-      type: 'subscription_agreement',
-      startPage: range.startPage,
-      endPage: range.endPage,
-      pageCount: excludedPageNumbers.length,
-      pageNumbers: excludedPageNumbers
-    }
+  const subscriptionExclusion = exclusions.find(exclusion => exclusion.type === 'subscription_agreement')
+  const proposal = resolved.proposal
+    ? { ...resolved.proposal, applied: resolved.proposal.applied && subscriptionExclusion?.source === 'auto' }
+    : null
+
+  return { filteredPages, exclusions, proposal }
+}
+
+/**
+ * Write the applied exclusions into the business metadata
+ * `excluded_sections` lists every applied range; `subscription_agreement`
+ * keeps the summary the rest of the app reads.
+ */
+function buildExclusionMetadata(
+  existingMetadata: BusinessMetadata,
+  exclusions: AppliedExclusion[],
+  proposal: SubscriptionAgreementProposal | null
+): BusinessMetadata {
+  const updatedAt = new Date().toISOString()
+  const suppliedVia = (source: ExclusionSource) => source === 'auto' ? 'auto-detected' : 'user-input'
+
+  const excludedSections = exclusions.map(exclusion => ({
+    type: exclusion.type,
+    ...(exclusion.label ? { label: exclusion.label } : {}),
+    start_page: exclusion.startPage,
+    end_page: exclusion.endPage,
+    page_count: exclusion.pageCount,
+    excluded_page_numbers: exclusion.pageNumbers,
+    supplied_via: suppliedVia(exclusion.source),
+    source: exclusion.source,
+    ...(exclusion.confidence !== undefined ? { confidence: exclusion.confidence } : {}),
+    updated_at: updatedAt
+  }))
+
+  const subscriptionExclusion = exclusions.find(exclusion => exclusion.type === 'subscription_agreement')
+
+  const metadata: BusinessMetadata = {
+    ...existingMetadata,
+    excluded_sections: excludedSections,
+    subscription_agreement: subscriptionExclusion
+      ? {
+          excluded: true,
+          start_page: subscriptionExclusion.startPage,
+          end_page: subscriptionExclusion.endPage,
+          excluded_pages_count: subscriptionExclusion.pageCount,
+          supplied_via: suppliedVia(subscriptionExclusion.source),
+          source: subscriptionExclusion.source,
+          ...(subscriptionExclusion.confidence !== undefined ? { confidence: subscriptionExclusion.confidence } : {})
+        }
+      : { excluded: false }
   }
+
+  if (proposal) {
+    metadata.subscription_agreement_detection = proposal
+  } else {
+    delete metadata.subscription_agreement_detection
+  }
+
+  return metadata
 }
 
 async function saveProcessedDocumentData(
@@ -1151,8 +1264,11 @@ async function saveProcessedDocumentData(
   const existingMetadata = {
     ...(documentRecord.metadata ?? {})
   } as BusinessMetadata
-  const manualRange = getManualSubscriptionRange(existingMetadata as Record<string, unknown>)
-  const { filteredPages, exclusion } = applyManualExclusions(processedData.pagesText, manualRange)
+  const { filteredPages, exclusions, proposal } = resolveDocumentExclusions(
+    documentId,
+    existingMetadata,
+    processedData.pagesText
+  )
   const pagesForEmbedding = filteredPages.length > 0 ? filteredPages : processedData.pagesText
 
   const normalizedAllParagraphs = processedData.paragraphs.map((paragraph, index) => ({
@@ -1162,8 +1278,8 @@ async function saveProcessedDocumentData(
 
   let paragraphsForEmbedding = normalizedAllParagraphs
 
-  if (exclusion && exclusion.pageNumbers?.length) {
-    const excludedPages = new Set<number>(exclusion.pageNumbers)
+  if (exclusions.length > 0) {
+    const excludedPages = new Set<number>(exclusions.flatMap(exclusion => exclusion.pageNumbers))
     const filteredParagraphs = normalizedAllParagraphs.filter(paragraph => !excludedPages.has(paragraph.pageNumber))
 
     if (filteredParagraphs.length > 0) {
@@ -1179,56 +1295,35 @@ async function saveProcessedDocumentData(
     }
   }
 
-  if (exclusion) {
-    logger.info('Applying manual subscription agreement exclusion', {
+  for (const exclusion of exclusions) {
+    logger.info(`Applying ${exclusion.source === 'auto' ? 'auto-detected' : 'manual'} ${exclusion.type} exclusion`, {
       documentId,
       startPage: exclusion.startPage,
       endPage: exclusion.endPage,
-      pageCount: exclusion.pageCount
+      pageCount: exclusion.pageCount,
+      confidence: exclusion.confidence
     })
-  } else if (manualRange) {
-    logger.warn('Manual subscription agreement range provided but no pages were excluded', {
+  }
+
+  if (proposal && !proposal.applied) {
+    logger.info('Subscription agreement proposal awaiting confirmation', {
       documentId,
-      range: manualRange
+      startPage: proposal.start_page,
+      endPage: proposal.end_page,
+      confidence: proposal.confidence
     })
   }
 
   let metadataUpdate: BusinessMetadata | undefined
 
-  if (exclusion) {
-    const currentSectionsSource = existingMetadata.excluded_sections
-    const currentSections = Array.isArray(currentSectionsSource)
-      ? currentSectionsSource.filter((section): section is Record<string, unknown> => {
-          if (!section || typeof section !== 'object') {
-            return false
-          }
-          const sectionType = (section as { type?: unknown }).type
-          return sectionType !== 'subscription_agreement'
-        })
-      : []
-
-    const subscriptionSection = {
-      type: 'subscription_agreement',
-      start_page: exclusion.startPage,
-      end_page: exclusion.endPage,
-      page_count: exclusion.pageCount,
-      excluded_page_numbers: exclusion.pageNumbers,
-      supplied_via: 'user-input',
-      updated_at: new Date().toISOString()
-    }
-
-    metadataUpdate = {
-      ...existingMetadata,
-      excluded_sections: [...currentSections, subscriptionSection],
-      subscription_agreement: {
-        excluded: true,
-        start_page: exclusion.startPage,
-        end_page: exclusion.endPage,
-        excluded_pages_count: exclusion.pageCount,
-        supplied_via: 'user-input'
-      }
-    }
-
+  // Rewrite the exclusion blocks whenever they may have changed (new proposal, edited ranges, reprocessing)
+  if (
+    exclusions.length > 0 ||
+    proposal ||
+    existingMetadata.subscription_agreement ||
+    (existingMetadata.excluded_sections?.length ?? 0) > 0
+  ) {
+    metadataUpdate = buildExclusionMetadata(existingMetadata, exclusions, proposal)
     documentRecord.metadata = metadataUpdate
   }
 
@@ -1269,7 +1364,10 @@ async function saveProcessedDocumentData(
     .from('document_content')
     .upsert({
       document_id: documentId,
-      extracted_text: processedData.extractedText
+      extracted_text: processedData.extractedText,
+      // Kept so exclusion range edits can re-embed individual pages without re-running Document AI
+      page_texts: processedData.pagesText,
+      paragraphs: normalizedAllParagraphs
     }, { onConflict: 'document_id' })
 
   if (contentError) {
@@ -1297,252 +1395,19 @@ async function saveProcessedDocumentData(
     paragraphsForEmbedding
   )
 
-  return {
-    embeddingStats,
-    excludedSection: exclusion
-  }
-}
-
-async function processDocumentInChunks(
-  pdfArrayBuffer: ArrayBuffer,
-  processorId: string,
-  processorName: string,
-  processorType: string,
-  documentId: string,
-  client: DocumentProcessorServiceClient
-): Promise<ProcessedDocumentData> {
-  const pdfDoc = await PDFDocument.load(pdfArrayBuffer)
-  const totalPages = pdfDoc.getPageCount()
-
-  const configuredLimit = parseInt(process.env['DOCUMENT_AI_SYNC_PAGE_LIMIT'] || '15', 10)
-  // Google Document AI OCR processors cap synchronous requests at 15 pages; keep chunks within that hard limit
-  const maxPagesPerChunk = Number.isFinite(configuredLimit) && configuredLimit > 0 ? Math.min(configuredLimit, 15) : 15
-
-  logger.info('Processing document with chunked strategy', {
-    documentId,
-    totalPages,
-    maxPagesPerChunk
-  })
-
-  const aggregatedTextParts: string[] = []
-  const aggregatedFields: ExtractedField[] = []
-  const aggregatedEntities: SimplifiedEntity[] = []
-  const aggregatedTables: SimplifiedTable[] = []
-  const aggregatedPagesText: { text: string; pageNumber: number }[] = []
-  const aggregatedParagraphs: Paragraph[] = []
-  let totalPageCount = 0
-
-  for (let start = 0; start < totalPages; start += maxPagesPerChunk) {
-    const end = Math.min(totalPages, start + maxPagesPerChunk)
-    const pageIndices = Array.from({ length: end - start }, (_, index) => start + index)
-
-    logger.debug('Creating chunk for Document AI processing', {
-      documentId,
-      chunkStartPage: start + 1,
-      chunkEndPage: end
-    })
-
-    const chunkDoc = await PDFDocument.create()
-    const copiedPages = await chunkDoc.copyPages(pdfDoc, pageIndices)
-    copiedPages.forEach(page => chunkDoc.addPage(page))
-
-    const chunkBytes = await chunkDoc.save()
-    const chunkBase64 = Buffer.from(chunkBytes).toString('base64')
-
-    const chunkRequest = {
-      name: processorName,
-      rawDocument: {
-        content: chunkBase64,
-        mimeType: 'application/pdf'
-      }
-    }
-
-    const chunkResult = await circuitBreakers.documentAI.execute(async () => {
-      return await SmartRetry.execute(
-        async () => {
-          logger.debug('Attempting Document AI chunk processing', {
-            documentId,
-            processor: processorType,
-            processorId,
-            chunkStartPage: start + 1,
-            chunkEndPage: end
-          })
-          const response = await client.processDocument(chunkRequest)
-          return Array.isArray(response) ? response[0] : response
-        },
-        RetryConfigs.documentAI
-      )
-    })
-
-    if (!chunkResult.success) {
-      throw chunkResult.error
-    }
-
-    const chunkDocument = chunkResult.result!.document
-
-    if (!chunkDocument) {
-      throw new Error('No document returned from Document AI chunk')
-    }
-
-    // Save raw Document AI chunk output for analysis (non-blocking) - only if debug flag is enabled
-    if (process.env['DUMP_DOCUMENT_AI'] === '1') {
-      saveDocumentAIResponse(
-        `${documentId}_chunk_${start + 1}-${end}`,
-        chunkDocument as unknown as DocumentAIDocument,
-        {
-          filename: `Chunk ${start + 1}-${end}`,
-          fileSize: chunkBytes.byteLength,
-          pageCount: chunkDocument.pages?.length,
-          processor: processorType
-        }
-      ).catch(error => {
-        logger.warn('Failed to save Document AI chunk debug output', {
-          documentId,
-          chunkStartPage: start + 1,
-          chunkEndPage: end,
-          error: error instanceof Error ? error.message : String(error)
-        })
-      })
-    }
-
-    const chunkData = buildProcessedDocumentData(chunkDocument as unknown as DocumentAIDocument, start)
-
-    if (chunkData.extractedText) {
-      aggregatedTextParts.push(chunkData.extractedText)
-    }
-
-    aggregatedFields.push(...(chunkData.structuredData.fields || []))
-    aggregatedEntities.push(...(chunkData.structuredData.entities || []))
-    aggregatedTables.push(...(chunkData.structuredData.tables || []))
-    aggregatedPagesText.push(...chunkData.pagesText)
-    aggregatedParagraphs.push(...chunkData.paragraphs)
-    totalPageCount += chunkData.pageCount
-  }
-
-  const normalizedParagraphs = aggregatedParagraphs.map((paragraph, index) => ({
-    ...paragraph,
-    index
-  }))
+  // All tables are stored; matching skips the ones on excluded pages
+  const tableCount = await saveDocumentTables(documentId, processedData.structuredData.tables)
 
   return {
-    extractedText: aggregatedTextParts.join('\n'),
-    structuredData: {
-      fields: aggregatedFields,
-      entities: aggregatedEntities,
-      tables: aggregatedTables
-    },
-    pageCount: totalPageCount,
-    pagesText: aggregatedPagesText,
-    paragraphs: normalizedParagraphs
-  }
-}
-
-interface ChunkProcessingParams {
-  pdfArrayBuffer: ArrayBuffer
-  processorId: string
-  processorName: string
-  processorType: string
-  documentId: string
-  client: DocumentProcessorServiceClient
-  supabase: SupabaseClient
-  document: DatabaseDocumentWithContent
-  sizeAnalysis: DocumentSizeAnalysis
-  timeEstimate: ReturnType<typeof estimateProcessingTime>
-}
-
-async function processDocumentWithChunks(params: ChunkProcessingParams) {
-  const {
-    pdfArrayBuffer,
-    processorId,
-    processorName,
-    processorType,
-    documentId,
-    client,
-    supabase,
-    document,
-    sizeAnalysis,
-    timeEstimate,
-  } = params
-
-  const chunkedData = await processDocumentInChunks(
-    pdfArrayBuffer,
-    processorId,
-    processorName,
-    processorType,
-    documentId,
-    client
-  )
-
-  if (await checkCancellation(documentId)) {
-    logger.info('Document cancelled before chunked embedding generation', { documentId })
-    throw new ProcessingCancelledException(documentId)
-  }
-
-  await updateProcessingStatus(documentId, 'processing', 60, 'Extracting structured data from chunks...')
-  await updateProcessingStatus(documentId, 'processing', 80, 'Generating embeddings from chunks...')
-  logger.logDocumentProcessing('embedding-generation', documentId, 'started', { progress: 80 })
-
-  const { embeddingStats, excludedSection } = await saveProcessedDocumentData(
-    supabase,
-    documentId,
-    chunkedData,
-    document,
-    sizeAnalysis,
-    null
-  )
-
-  await updateProcessingStatus(documentId, 'completed', 100, 'Document processing completed successfully')
-  logger.logDocumentProcessing('embedding-generation', documentId, 'completed', { progress: 100 })
-
-  await supabase
-    .from('documents')
-    .update({
-      status: 'completed',
-      processing_error: null,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', documentId)
-
-  logger.logDocumentProcessing('completion', documentId, 'completed')
-  await invalidateDocumentCaches(documentId, document.user_id)
-
-  const metrics: DocumentProcessingMetrics = {
-    sizeAnalysis,
-    pageCount: chunkedData.pageCount,
-    chunkCount: embeddingStats.chunkCount,
-    embeddingsAttempts: embeddingStats.attempts,
-    embeddingsRetries: embeddingStats.retryCount,
-    structuredFieldCount: chunkedData.structuredData.fields?.length || 0,
-    textLength: chunkedData.extractedText.length,
-    processor: {
-      id: processorId,
-      name: processorName,
-      type: `${processorType}-chunked`
-    },
-    estimatedProcessingSeconds: timeEstimate.estimatedMinutes * 60
-  }
-
-  if (excludedSection) {
-    metrics.excludedSections = [{
-      type: excludedSection.type,
-      startPage: excludedSection.startPage,
-      endPage: excludedSection.endPage,
-      pageCount: excludedSection.pageCount
-    }]
+    embeddingStats,
+    excludedSections: exclusions,
+    tableCount
   }
-
-  logger.info('Chunked processing completed successfully', {
-    documentId,
-    chunksProcessed: metrics.chunkCount,
-    totalPages: metrics.pageCount
-  })
-
-  return { switchedToBatch: false, metrics }
 }
 
 async function cleanupPartialEmbeddings(documentId: string) {
   const vectorIds = await getVectorIdsForDocument(documentId)
-  queuePineconeDeletion(documentId, vectorIds)
+  await queuePineconeDeletion(documentId, vectorIds)
 
   const supabase = await createServiceClient()
   try {
@@ -1578,7 +1443,7 @@ export async function generateAndIndexEmbeddings(documentId: string, text: strin
     // Get document metadata for Pinecone indexing
     const { data: docRecord, error: docError } = await supabase
       .from('documents')
-      .select('metadata, user_id')
+      .select('metadata, user_id, workspace_id')
       .eq('id', documentId)
       .single()
 
@@ -1587,7 +1452,7 @@ export async function generateAndIndexEmbeddings(documentId: string, text: strin
     }
 
     const businessMetadata = docRecord?.metadata || {}
-    const userId = typeof docRecord?.user_id === 'string' ? docRecord.user_id : null
+    const owner = resolveVectorOwner(docRecord)
 
     // Split text into chunks for embedding using current defaults
     const chunks = splitTextIntoChunks(text, DEFAULT_CHUNK_SIZE, DEFAULT_CHUNK_OVERLAP)
@@ -1596,7 +1461,7 @@ export async function generateAndIndexEmbeddings(documentId: string, text: strin
       const chunk = chunks[i]
       if (!chunk) continue
       
-      // Generate embedding with Vertex AI
+      // Generate embedding with the configured provider
       const embedding = await generateEmbeddings(chunk)
       
       // Create unique vector ID
@@ -1625,7 +1490,7 @@ export async function generateAndIndexEmbeddings(documentId: string, text: strin
           document_id: documentId,
           chunk_index: i,
           text: chunk,
-          ...(userId ? { user_id: userId } : {}),
+          ...vectorOwnerMetadata(owner),
           // Include business metadata for filtering
           ...businessMetadata
         }
@@ -1645,6 +1510,7 @@ interface PagedChunk {
   startPageNumber: number   // First page in chunk
   endPageNumber: number     // Last page in chunk
   characterCount: number
+  regions?: ChunkRegion[]   // Paragraph boxes covered by the chunk (paragraph chunking only)
 }
 
 // Extract text page by page from Document AI result
@@ -1714,7 +1580,9 @@ function extractTextByPages(document: DocumentAIDocument, pageOffset: number = 0
 
 /**
  * Extract paragraphs from Document AI response for paragraph-based chunking
- * Returns array of paragraphs with their text, page number, and index
+ * Returns array of paragraphs with their text, page number, and index.
+ * Paragraphs inside a table are left out: tables are stored and embedded on
+ * their own (document_tables), and their cells read as noise in chunks.
  */
 function extractParagraphsFromDocument(document: DocumentAIDocument, pageOffset: number = 0): Paragraph[] {
   const paragraphs: Paragraph[] = []
@@ -1726,16 +1594,24 @@ function extractParagraphsFromDocument(document: DocumentAIDocument, pageOffset:
       if (!page) continue
 
       const pageNumber = (page.pageNumber || (pageIndex + 1)) + pageOffset
+      const tableRegions = (page.tables ?? [])
+        .map(table => boundingPolyToRegion(table.layout?.boundingPoly, pageNumber, page.dimension))
+        .filter((region): region is ChunkRegion => region !== null)
 
       if (page.paragraphs) {
         for (const paragraph of page.paragraphs) {
           if (paragraph.layout?.textAnchor) {
             const paragraphText = getTextFromTextAnchor(document.text || '', paragraph.layout.textAnchor)
             if (paragraphText && paragraphText.trim()) {
+              const boundingBox = boundingPolyToRegion(paragraph.layout.boundingPoly, pageNumber, page.dimension)
+              if (boundingBox && tableRegions.some(region => regionContainsCenter(region, boundingBox))) {
+                continue
+              }
               paragraphs.push({
                 text: paragraphText,
                 pageNumber: pageNumber,
-                index: globalIndex++
+                index: globalIndex++,
+                ...(boundingBox ? { boundingBox } : {})
               })
             }
           }
@@ -1747,6 +1623,12 @@ function extractParagraphsFromDocument(document: DocumentAIDocument, pageOffset:
   return paragraphs
 }
 
+const regionContainsCenter = (region: ChunkRegion, box: ChunkRegion): boolean => {
+  const x = (box.x0 + box.x1) / 2
+  const y = (box.y0 + box.y1) / 2
+  return x >= region.x0 && x <= region.x1 && y >= region.y0 && y <= region.y1
+}
+
 function buildProcessedDocumentData(document: DocumentAIDocument, pageOffset: number = 0): ProcessedDocumentData {
   const structuredData = extractStructuredFields(document, pageOffset)
   const pagesText = extractTextByPages(document, pageOffset)
@@ -1761,6 +1643,29 @@ function buildProcessedDocumentData(document: DocumentAIDocument, pageOffset: nu
   }
 }
 
+/**
+ * Combine extracted segments (page ranges processed separately) into one
+ * document's data, renumbering paragraphs across segments
+ */
+function buildProcessedDocumentDataFromSegments(segments: ExtractedSegment[]): ProcessedDocumentData {
+  const segmentData = segments.map(segment => buildProcessedDocumentData(segment.document, segment.pageOffset))
+  if (segmentData.length === 1 && segmentData[0]) {
+    return segmentData[0]
+  }
+
+  return {
+    extractedText: segmentData.map(data => data.extractedText).filter(Boolean).join('\n'),
+    structuredData: {
+      fields: segmentData.flatMap(data => data.structuredData.fields || []),
+      entities: segmentData.flatMap(data => data.structuredData.entities || []),
+      tables: segmentData.flatMap(data => data.structuredData.tables || [])
+    },
+    pageCount: segmentData.reduce((total, data) => total + data.pageCount, 0),
+    pagesText: segmentData.flatMap(data => data.pagesText),
+    paragraphs: segmentData.flatMap(data => data.paragraphs).map((paragraph, index) => ({ ...paragraph, index }))
+  }
+}
+
 // Split text into chunks while preserving page information
 // Uses sentence-based chunking across the full document, then assigns page numbers
 function splitTextIntoPagedChunks(
@@ -1847,6 +1752,8 @@ function splitParagraphsIntoChunks(paragraphs: Paragraph[]): PagedChunk[] {
     MAX_CHUNK_CHARACTERS
   )
 
+  const locateRegions = createChunkRegionLocator(paragraphs)
+
   // Convert to PagedChunk format
   return chunks.map(chunk => ({
     text: chunk.text,
@@ -1854,7 +1761,8 @@ function splitParagraphsIntoChunks(paragraphs: Paragraph[]): PagedChunk[] {
     pageNumber: chunk.pageNumber,        // Keep for compatibility
     startPageNumber: chunk.startPageNumber,
     endPageNumber: chunk.endPageNumber,
-    characterCount: chunk.characterCount
+    characterCount: chunk.characterCount,
+    regions: locateRegions(chunk)
   }))
 }
 
@@ -1897,7 +1805,7 @@ async function generateEmbeddingsWithUnlimitedRetries(
         pagesText,
         businessMetadata,
         filename,
-        docRecord.user_id ?? null,
+        resolveVectorOwner(docRecord),
         sizeAnalysis,
         document,
         paragraphsOverride
@@ -1981,31 +1889,75 @@ async function generateEmbeddingsWithUnlimitedRetries(
   }
 }
 
+/**
+ * Clear the chunk and table vectors a re-embedding migration staged for a document
+ * (documents.pending_* are cleared with the live centroid update)
+ */
+async function discardStagedEmbeddings(
+  supabase: SupabaseClient<GenericSupabaseSchema>,
+  documentId: string
+): Promise<boolean> {
+  for (const table of ['document_embeddings', 'document_tables']) {
+    const { error } = await supabase
+      .from(table)
+      .update({ pending_embedding: null })
+      .eq('document_id', documentId)
+      .not('pending_embedding', 'is', null)
+
+    if (error) {
+      logger.error('Failed to discard staged embeddings', error, { documentId, table, component: 'document-processing' })
+      return false
+    }
+  }
+  return true
+}
+
 /**
  * Compute centroid embedding and effective chunk count for similarity search
  * CRITICAL: This enables production-ready 3-stage similarity search
+ *
+ * With `staged`, the centroid is computed from document_embeddings.pending_embedding
+ * and stored as documents.pending_centroid_embedding for a re-embedding
+ * migration to switch over later; the live columns are left untouched.
+ * Without it, anything a running migration staged for the document is
+ * discarded: it was embedded from the chunks before they were rewritten, and
+ * the migration stages the document again before it switches.
+ *
+ * @returns true when the centroid was stored
  */
 export async function computeAndStoreCentroid(
   documentId: string,
-  totalChunks: number
-): Promise<void> {
+  totalChunks: number,
+  options: { staged?: { embeddingModel: string } } = {}
+): Promise<boolean> {
+  const { staged } = options
+  const embeddingColumn = staged ? 'pending_embedding' : 'embedding'
   const supabase = await createServiceClient()
 
   try {
     logger.info('Computing centroid and effective chunk count', {
       documentId,
       totalChunks,
+      staged: Boolean(staged),
       component: 'document-processing'
     })
 
     // 1. Fetch all embeddings for this document
     // IMPORTANT: Add explicit limit to avoid Supabase default row limits
-    const { data: allEmbeddings, error: fetchError } = await supabase
+    let embeddingsQuery = supabase
       .from('document_embeddings')
-      .select('chunk_index, embedding, chunk_text, character_count')
+      .select(`chunk_index, ${embeddingColumn}, chunk_text, character_count`)
       .eq('document_id', documentId)
+
+    // Chunks a migration has not staged yet are left out rather than failing the centroid
+    if (staged) {
+      embeddingsQuery = embeddingsQuery.not(embeddingColumn, 'is', null)
+    }
+
+    const { data: allEmbeddings, error: fetchError } = await embeddingsQuery
       .order('chunk_index', { ascending: true })
       .limit(100000) // Support very large documents
+      .returns<Array<Record<string, unknown>>>()
 
     if (fetchError || !allEmbeddings || allEmbeddings.length === 0) {
       logger.error('No embeddings found for centroid computation - THIS IS A BUG!', undefined, {
@@ -2015,7 +1967,7 @@ export async function computeAndStoreCentroid(
         embeddingsReturned: allEmbeddings?.length || 0,
         component: 'document-processing'
       })
-      return
+      return false
     }
 
     // CRITICAL: Deduplicate by chunk_index (some documents may have duplicates)
@@ -2035,7 +1987,7 @@ export async function computeAndStoreCentroid(
       seen.add(record.chunk_index)
       acc.push({
         chunk_index: record.chunk_index,
-        embedding: record.embedding as string | number[],
+        embedding: record[embeddingColumn] as string | number[],
         chunk_text: typeof record.chunk_text === 'string' ? record.chunk_text : null,
         character_count: typeof record.character_count === 'number' ? record.character_count : null
       })
@@ -2081,7 +2033,7 @@ export async function computeAndStoreCentroid(
         originalCount: embeddings.length,
         component: 'document-processing'
       })
-      return
+      return false
     }
 
     logger.info('Successfully parsed embeddings', {
@@ -2104,7 +2056,7 @@ export async function computeAndStoreCentroid(
           embeddingType: typeof embedding,
           component: 'document-processing'
         })
-        return
+        return false
       }
 
       if (embedding.length !== dimensions) {
@@ -2115,7 +2067,7 @@ export async function computeAndStoreCentroid(
           actualDimensions: embedding.length,
           component: 'document-processing'
         })
-        return
+        return false
       }
 
       // Check for null/undefined values in embedding
@@ -2128,7 +2080,7 @@ export async function computeAndStoreCentroid(
             value: embedding[i],
             component: 'document-processing'
           })
-          return
+          return false
         }
       }
     }
@@ -2153,7 +2105,7 @@ export async function computeAndStoreCentroid(
           centroidValue: centroid[i],
           component: 'document-processing'
         })
-        return
+        return false
       }
     }
 
@@ -2182,16 +2134,27 @@ export async function computeAndStoreCentroid(
       component: 'document-processing'
     })
 
+    if (!staged && !(await discardStagedEmbeddings(supabase, documentId))) {
+      return false
+    }
+
     // 6. Update documents table with centroid, effective_chunk_count, and total_characters
     // IMPORTANT: effective_chunk_count should equal actual chunks indexed
     const { error: updateError } = await supabase
       .from('documents')
-      .update({
-        centroid_embedding: normalizedCentroid,
-        effective_chunk_count: actualChunkCount,  // Use actual count, not theoretical
-        total_characters: totalCharacters,
-        embedding_model: 'text-embedding-004'
-      })
+      .update(staged
+        ? {
+            pending_centroid_embedding: normalizedCentroid,
+            pending_embedding_model: staged.embeddingModel
+          }
+        : {
+            centroid_embedding: normalizedCentroid,
+            effective_chunk_count: actualChunkCount,  // Use actual count, not theoretical
+            total_characters: totalCharacters,
+            embedding_model: await getEmbeddingModelId(),
+            pending_centroid_embedding: null,
+            pending_embedding_model: null
+          })
       .eq('id', documentId)
 
     if (updateError) {
@@ -2200,7 +2163,7 @@ export async function computeAndStoreCentroid(
         component: 'document-processing'
       })
       // Don't throw - centroid is optional, document processing should complete
-      return
+      return false
     }
 
     logger.info('Centroid, effective chunk count, and total characters stored successfully', {
@@ -2210,12 +2173,19 @@ export async function computeAndStoreCentroid(
       component: 'document-processing'
     })
 
+    // Same text length and centroid as an earlier upload: flag it (never throws)
+    if (!staged) {
+      await detectNearDuplicate(documentId)
+    }
+
+    return true
   } catch (error) {
     logger.error('Failed to compute centroid', error as Error, {
       documentId,
       component: 'document-processing'
     })
     // Don't throw - centroid is optional, document processing should complete
+    return false
   } finally {
     releaseServiceClient(supabase)
   }
@@ -2226,7 +2196,7 @@ async function generateEmbeddingsFromPages(
   pagesText: { text: string; pageNumber: number }[],
   businessMetadata: BusinessMetadata,
   filename: string,
-  userId: string | null,
+  owner: VectorOwner,
   sizeAnalysis?: DocumentSizeAnalysis,
   document?: DocumentAIDocument | null,
   paragraphsOverride?: Paragraph[]
@@ -2294,6 +2264,296 @@ async function generateEmbeddingsFromPages(
     releaseServiceClient(supabase)
   }
 
+  await embedPagedChunks(documentId, pagedChunks, businessMetadata, filename, owner, sizeAnalysis)
+
+  logger.info('All chunks processed successfully', {
+    documentId,
+    totalChunks: pagedChunks.length,
+    component: 'document-processing'
+  })
+
+  // Small delay to ensure all database writes are visible (eventual consistency)
+  await new Promise(resolve => setTimeout(resolve, 500))
+
+  // Compute and store centroid and effective chunk count for similarity search
+  logger.info('About to compute centroid', {
+    documentId,
+    totalChunks: pagedChunks.length,
+    component: 'document-processing'
+  })
+  await computeAndStoreCentroid(documentId, pagedChunks.length)
+  logger.info('Finished computing centroid', {
+    documentId,
+    component: 'document-processing'
+  })
+
+  // Verify Pinecone indexing consistency
+  logger.info('Verifying Pinecone indexing consistency', {
+    documentId,
+    expectedChunks: pagedChunks.length,
+    component: 'document-processing'
+  })
+
+  return { chunkCount: pagedChunks.length }
+}
+
+interface StoredChunkSpan {
+  chunkIndex: number
+  startPage: number
+  endPage: number
+}
+
+const chunkSpanPages = (chunk: StoredChunkSpan): number[] => {
+  const pages: number[] = []
+  for (let page = chunk.startPage; page <= chunk.endPage; page += 1) {
+    pages.push(page)
+  }
+  return pages
+}
+
+async function fetchChunkPageSpans(documentId: string): Promise<StoredChunkSpan[]> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('document_embeddings')
+      .select('chunk_index, page_number, start_page_number, end_page_number')
+      .eq('document_id', documentId)
+      .range(0, 999999)  // Override default 1000 row limit
+      .returns<Array<{
+        chunk_index: number | null
+        page_number: number | null
+        start_page_number: number | null
+        end_page_number: number | null
+      }>>()
+
+    if (error) {
+      throw new Error(`Failed to fetch chunk page spans: ${error.message}`)
+    }
+
+    return (data ?? [])
+      .filter(row => typeof row.chunk_index === 'number')
+      .map(row => {
+        const startPage = row.start_page_number ?? row.page_number ?? 1
+        return {
+          chunkIndex: row.chunk_index as number,
+          startPage,
+          endPage: row.end_page_number ?? startPage
+        }
+      })
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Re-embed only the pages affected by an exclusion range edit
+ *
+ * Uses the page text and paragraphs stored at processing time, so Document AI
+ * is not re-run. Chunks touching an excluded page are removed; pages that are
+ * no longer excluded, plus pages that shared a removed chunk, are re-chunked
+ * and appended with fresh chunk indexes. Documents processed before page text
+ * was stored fall back to full reprocessing.
+ */
+export async function reembedExclusionChanges(documentId: string): Promise<ProcessDocumentResult> {
+  const supabase = await createServiceClient()
+  let document: {
+    user_id: string | null
+    workspace_id: string | null
+    filename: string | null
+    metadata: BusinessMetadata | null
+    extracted_fields: Record<string, unknown> | null
+  }
+  let pagesText: { text: string; pageNumber: number }[]
+  let storedParagraphs: Paragraph[]
+
+  try {
+    const { data: documentRecord, error: documentError } = await supabase
+      .from('documents')
+      .select('user_id, workspace_id, filename, metadata, extracted_fields')
+      .eq('id', documentId)
+      .single<typeof document>()
+
+    if (documentError || !documentRecord) {
+      throw new Error(`Document not found: ${documentId}`)
+    }
+    document = documentRecord
+
+    const { data: content, error: contentError } = await supabase
+      .from('document_content')
+      .select('page_texts, paragraphs')
+      .eq('document_id', documentId)
+      .maybeSingle<{ page_texts: { text: string; pageNumber: number }[] | null; paragraphs: Paragraph[] | null }>()
+
+    if (contentError) {
+      throw new Error(`Failed to load stored page text: ${contentError.message}`)
+    }
+
+    pagesText = Array.isArray(content?.page_texts) ? content.page_texts : []
+    storedParagraphs = Array.isArray(content?.paragraphs) ? content.paragraphs : []
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  if (pagesText.length === 0) {
+    logger.warn('No stored page text for exclusion re-embedding; reprocessing full document', {
+      documentId,
+      component: 'document-processing'
+    })
+    return await processDocument(documentId)
+  }
+
+  const metadata = { ...(document.metadata ?? {}) } as BusinessMetadata
+  const { exclusions, proposal } = resolveDocumentExclusions(documentId, metadata, pagesText)
+  const excludedPages = new Set(exclusions.flatMap(exclusion => exclusion.pageNumbers))
+  const existingChunks = await fetchChunkPageSpans(documentId)
+
+  // Pages with text that no chunk covers any more (previously excluded)
+  const coveredPages = new Set(existingChunks.flatMap(chunkSpanPages))
+  const rebuildPages = new Set(
+    pagesText
+      .filter(page => page.text.trim().length > 0 && !excludedPages.has(page.pageNumber) && !coveredPages.has(page.pageNumber))
+      .map(page => page.pageNumber)
+  )
+
+  // A chunk touching an excluded or rebuilt page is dropped; its other pages are rebuilt with it
+  const staleChunks = new Map<number, StoredChunkSpan>()
+  let changed = true
+  while (changed) {
+    changed = false
+    for (const chunk of existingChunks) {
+      if (staleChunks.has(chunk.chunkIndex)) continue
+      const pages = chunkSpanPages(chunk)
+      if (!pages.some(page => excludedPages.has(page) || rebuildPages.has(page))) continue
+
+      staleChunks.set(chunk.chunkIndex, chunk)
+      pages.filter(page => !excludedPages.has(page)).forEach(page => rebuildPages.add(page))
+      changed = true
+    }
+  }
+
+  logger.info('Re-embedding pages affected by exclusion ranges', {
+    documentId,
+    exclusions: exclusions.map(exclusion => ({ type: exclusion.type, startPage: exclusion.startPage, endPage: exclusion.endPage })),
+    staleChunks: staleChunks.size,
+    rebuildPages: rebuildPages.size,
+    component: 'document-processing'
+  })
+
+  if (staleChunks.size > 0) {
+    const staleIndexes = Array.from(staleChunks.keys())
+
+    // Delete from Pinecone before Supabase so the vector IDs are never orphaned
+    await deleteDocumentFromPinecone(documentId, staleIndexes.map(index => `${documentId}_chunk_${index}`))
+
+    const deleteClient = await createServiceClient()
+    try {
+      for (let i = 0; i < staleIndexes.length; i += 500) {
+        const { error: deleteError } = await deleteClient
+          .from('document_embeddings')
+          .delete()
+          .eq('document_id', documentId)
+          .in('chunk_index', staleIndexes.slice(i, i + 500))
+
+        if (deleteError) {
+          throw new Error(`Failed to delete excluded chunks: ${deleteError.message}`)
+        }
+      }
+    } finally {
+      releaseServiceClient(deleteClient)
+    }
+  }
+
+  // Chunk each contiguous run of pages separately so text never joins across a gap
+  const sortedPages = Array.from(rebuildPages).sort((a, b) => a - b)
+  const runs: number[][] = []
+  for (const page of sortedPages) {
+    const currentRun = runs[runs.length - 1]
+    if (currentRun && currentRun[currentRun.length - 1] === page - 1) {
+      currentRun.push(page)
+    } else {
+      runs.push([page])
+    }
+  }
+
+  let nextChunkIndex = existingChunks.reduce((max, chunk) => Math.max(max, chunk.chunkIndex), -1) + 1
+  const newChunks: PagedChunk[] = []
+
+  for (const run of runs) {
+    const runPages = new Set(run)
+    const runChunks = storedParagraphs.length > 0
+      ? splitParagraphsIntoChunks(
+          storedParagraphs
+            .filter(paragraph => runPages.has(paragraph.pageNumber))
+            .map((paragraph, index) => ({ ...paragraph, index }))
+        )
+      : splitTextIntoPagedChunks(pagesText.filter(page => runPages.has(page.pageNumber)), DEFAULT_CHUNK_SIZE, 0)
+
+    for (const chunk of runChunks) {
+      newChunks.push({ ...chunk, chunkIndex: nextChunkIndex })
+      nextChunkIndex += 1
+    }
+  }
+
+  const metadataUpdate = buildExclusionMetadata(metadata, exclusions, proposal)
+  const filename = typeof document.filename === 'string' ? document.filename : `${documentId}.pdf`
+
+  if (newChunks.length > 0) {
+    await embedPagedChunks(documentId, newChunks, metadataUpdate, filename, resolveVectorOwner(document))
+  }
+
+  const totalChunks = existingChunks.length - staleChunks.size + newChunks.length
+  if (staleChunks.size > 0 || newChunks.length > 0) {
+    await computeAndStoreCentroid(documentId, totalChunks)
+  }
+
+  const updateClient = await createServiceClient()
+  try {
+    const { error: updateError } = await updateClient
+      .from('documents')
+      .update({
+        metadata: metadataUpdate,
+        extracted_fields: {
+          ...(document.extracted_fields ?? {}),
+          excluded_sections: metadataUpdate.excluded_sections
+        }
+      })
+      .eq('id', documentId)
+
+    if (updateError) {
+      throw new Error(`Failed to record applied exclusions: ${updateError.message}`)
+    }
+  } finally {
+    releaseServiceClient(updateClient)
+  }
+
+  logger.info('Exclusion re-embedding complete', {
+    documentId,
+    removedChunks: staleChunks.size,
+    addedChunks: newChunks.length,
+    totalChunks,
+    component: 'document-processing'
+  })
+
+  return {
+    exclusionReembed: {
+      removedChunks: staleChunks.size,
+      addedChunks: newChunks.length,
+      rebuiltPages: sortedPages
+    }
+  }
+}
+
+/**
+ * Embed and index chunks in batches, retrying failed chunks within each batch
+ */
+async function embedPagedChunks(
+  documentId: string,
+  pagedChunks: PagedChunk[],
+  businessMetadata: BusinessMetadata,
+  filename: string,
+  owner: VectorOwner,
+  sizeAnalysis?: DocumentSizeAnalysis
+): Promise<void> {
   const maxConcurrentChunks = parseInt(process.env['MAX_CONCURRENT_CHUNKS_PER_DOC'] || '50')
   const processingConfig = sizeAnalysis?.processingConfig || {
     batchSize: 20,
@@ -2333,7 +2593,7 @@ async function generateEmbeddingsFromPages(
       }
 
       const results = await Promise.allSettled(
-        failedChunks.map(pagedChunk => processChunkWithRetry(documentId, pagedChunk, businessMetadata, filename, userId))
+        failedChunks.map(pagedChunk => processChunkWithRetry(documentId, pagedChunk, businessMetadata, filename, owner))
       );
 
       const newFailedChunks: typeof failedChunks = [];
@@ -2382,36 +2642,6 @@ async function generateEmbeddingsFromPages(
       }
     }
   }
-
-  logger.info('All chunks processed successfully', {
-    documentId,
-    totalChunks: pagedChunks.length,
-    component: 'document-processing'
-  })
-
-  // Small delay to ensure all database writes are visible (eventual consistency)
-  await new Promise(resolve => setTimeout(resolve, 500))
-
-  // Compute and store centroid and effective chunk count for similarity search
-  logger.info('About to compute centroid', {
-    documentId,
-    totalChunks: pagedChunks.length,
-    component: 'document-processing'
-  })
-  await computeAndStoreCentroid(documentId, pagedChunks.length)
-  logger.info('Finished computing centroid', {
-    documentId,
-    component: 'document-processing'
-  })
-
-  // Verify Pinecone indexing consistency
-  logger.info('Verifying Pinecone indexing consistency', {
-    documentId,
-    expectedChunks: pagedChunks.length,
-    component: 'document-processing'
-  })
-
-  return { chunkCount: pagedChunks.length }
 }
 
 /**
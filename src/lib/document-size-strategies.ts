@@ -60,6 +60,9 @@ export const DOCUMENT_SIZE_TIERS = {
 export type DocumentSizeTier = keyof typeof DOCUMENT_SIZE_TIERS
 export type ProcessingStrategy = 'fast-track' | 'standard' | 'optimized' | 'batch-optimized' | 'enterprise-batch' | 'streaming-batch'
 
+// Tiers extracted by a long-running batch operation rather than online requests
+export const BATCH_PROCESSING_TIERS: ReadonlyArray<DocumentSizeTier> = ['ENTERPRISE', 'MASSIVE']
+
 export interface DocumentSizeAnalysis {
   tier: DocumentSizeTier
   sizeBytes: number
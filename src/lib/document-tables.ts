@@ -0,0 +1,213 @@
+/**
+ * Document Tables
+ * Tables found during extraction are stored as rows of cells with their page
+ * (document_tables) instead of being chunked with the paragraphs around them.
+ * Each table is embedded as one unit - its rows linearized as "cell | cell" -
+ * so similarity searches can pair up tables such as fee schedules and
+ * capital-call notices and compare them cell by cell.
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { generateEmbeddings } from '@/lib/embeddings'
+import { l2Normalize } from '@/lib/similarity/utils/vector-operations'
+import type { ChunkRegion } from '@/lib/chunking/chunk-regions'
+import { MAX_CHUNK_CHARACTERS } from '@/lib/constants/chunking'
+import { logger } from '@/lib/logger'
+import type { SimplifiedTable } from '@/types/external-apis'
+
+// Embedding inputs are capped like chunks; long tables are matched on their first rows
+export const MAX_TABLE_EMBEDDING_CHARACTERS = MAX_CHUNK_CHARACTERS * 2
+
+// PostgREST `in` filters go in the query string, so documents are loaded in chunks
+const DOCUMENT_LOOKUP_CHUNK = 100
+
+export interface StoredDocumentTable {
+  document_id: string
+  table_index: number
+  page_number: number
+  header_rows: string[][]
+  body_rows: string[][]
+  row_count: number
+  column_count: number
+  region: ChunkRegion | null
+  table_text: string
+}
+
+export interface TableVector {
+  documentId: string
+  tableIndex: number
+  pageNumber: number
+  embedding: number[]
+}
+
+/**
+ * Text a table is embedded (and searched) as: one line per row
+ */
+export function linearizeTable(table: Pick<SimplifiedTable, 'headerRows' | 'bodyRows'>): string {
+  return [...(table.headerRows ?? []), ...table.bodyRows]
+    .map(row => row.filter(cell => cell.length > 0).join(' | '))
+    .filter(line => line.length > 0)
+    .join('\n')
+}
+
+const parseVector = (value: unknown): number[] | null => {
+  let parsed = value
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed)
+    } catch {
+      return null
+    }
+  }
+  return Array.isArray(parsed) && parsed.every(item => typeof item === 'number') ? parsed : null
+}
+
+/**
+ * Replace a document's stored tables and embed each one
+ * A table whose embedding fails is stored without one (shown, never matched).
+ * Failures are logged, never thrown: tables add to chunk matching, they do
+ * not gate processing.
+ *
+ * @returns Number of tables stored
+ */
+export async function saveDocumentTables(documentId: string, tables: SimplifiedTable[]): Promise<number> {
+  const rows = []
+  for (const [tableIndex, table] of tables.entries()) {
+    const tableText = linearizeTable(table)
+    if (!tableText || typeof table.pageNumber !== 'number') continue
+
+    let embedding: number[] | null = null
+    try {
+      embedding = l2Normalize(await generateEmbeddings(tableText.slice(0, MAX_TABLE_EMBEDDING_CHARACTERS)))
+    } catch (error) {
+      logger.warn('Failed to embed table; storing it without an embedding', {
+        documentId,
+        tableIndex,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+
+    const headerRows = table.headerRows ?? []
+    rows.push({
+      document_id: documentId,
+      table_index: tableIndex,
+      page_number: table.pageNumber,
+      header_rows: headerRows,
+      body_rows: table.bodyRows,
+      row_count: headerRows.length + table.bodyRows.length,
+      column_count: Math.max(0, ...[...headerRows, ...table.bodyRows].map(row => row.length)),
+      region: table.region ?? null,
+      table_text: tableText,
+      embedding
+    })
+  }
+
+  const supabase = await createServiceClient()
+  try {
+    // Reprocessing replaces the previous extraction's tables
+    const { error: deleteError } = await supabase
+      .from('document_tables')
+      .delete()
+      .eq('document_id', documentId)
+
+    if (deleteError) {
+      logger.warn('Failed to clear existing document tables', { documentId, error: deleteError.message })
+      return 0
+    }
+
+    if (rows.length === 0) {
+      return 0
+    }
+
+    const { error } = await supabase.from('document_tables').insert(rows)
+    if (error) {
+      logger.warn('Failed to store document tables', { documentId, tableCount: rows.length, error: error.message })
+      return 0
+    }
+
+    logger.info('Stored document tables', {
+      documentId,
+      tableCount: rows.length,
+      embeddedCount: rows.filter(row => row.embedding !== null).length
+    })
+    return rows.length
+  } catch (error) {
+    logger.warn('Unexpected error storing document tables', {
+      documentId,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    return 0
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Stored tables of one document, in document order
+ * With `tableIndexes`, only those tables are loaded.
+ */
+export async function fetchDocumentTables(
+  documentId: string,
+  tableIndexes?: number[]
+): Promise<StoredDocumentTable[]> {
+  const supabase = await createServiceClient()
+  try {
+    let query = supabase
+      .from('document_tables')
+      .select('document_id, table_index, page_number, header_rows, body_rows, row_count, column_count, region, table_text')
+      .eq('document_id', documentId)
+
+    if (tableIndexes) {
+      query = query.in('table_index', tableIndexes)
+    }
+
+    const { data, error } = await query
+      .order('table_index', { ascending: true })
+      .returns<StoredDocumentTable[]>()
+
+    if (error) {
+      throw new Error(`Failed to load document tables: ${error.message}`)
+    }
+
+    return data ?? []
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Embedded tables of the given documents (tables without an embedding are left out)
+ */
+export async function fetchTableVectors(documentIds: string[]): Promise<TableVector[]> {
+  const vectors: TableVector[] = []
+  const supabase = await createServiceClient()
+  try {
+    for (let i = 0; i < documentIds.length; i += DOCUMENT_LOOKUP_CHUNK) {
+      const { data, error } = await supabase
+        .from('document_tables')
+        .select('document_id, table_index, page_number, embedding')
+        .in('document_id', documentIds.slice(i, i + DOCUMENT_LOOKUP_CHUNK))
+        .not('embedding', 'is', null)
+        .returns<Array<{ document_id: string; table_index: number; page_number: number; embedding: unknown }>>()
+
+      if (error) {
+        throw new Error(`Failed to load table embeddings: ${error.message}`)
+      }
+
+      for (const row of data ?? []) {
+        const embedding = parseVector(row.embedding)
+        if (!embedding) continue
+        vectors.push({
+          documentId: row.document_id,
+          tableIndex: row.table_index,
+          pageNumber: row.page_number,
+          embedding
+        })
+      }
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  return vectors
+}
@@ -0,0 +1,344 @@
+/**
+ * Document Version Chains
+ * A document uploaded as a new version of an existing one joins its chain:
+ * versions share documents.version_chain_id (the first version's id), are
+ * numbered in upload order, and only the newest has is_latest_version
+ * (a DB trigger promotes the next highest when the latest is deleted).
+ * Consecutive versions are compared with the similarity chunk matcher to
+ * show which page ranges were added, removed or changed.
+ *
+ * Uses the service client - routes must check access (document scope) first.
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { documentScopeFilter, type DocumentScope } from '@/lib/workspaces'
+import { findBidirectionalMatches } from '@/lib/similarity/core/chunk-matching'
+import { groupMatchesIntoSections } from '@/lib/similarity/core/section-detection'
+import { fetchDocumentChunks } from '@/lib/similarity/stages/stage2-final-scoring'
+import type { Chunk, ChunkMatch, SectionMatch } from '@/lib/similarity/types'
+import { logger } from '@/lib/logger'
+
+// Business metadata a new version takes over when the upload leaves it blank
+const INHERITED_METADATA_KEYS = ['law_firm', 'fund_manager', 'fund_admin', 'jurisdiction'] as const
+
+// Matched chunks scoring at least this are treated as unchanged text
+export const UNCHANGED_CHUNK_MIN_SCORE = 0.97
+
+// PostgREST `in` filters go in the query string, so ids are checked in chunks
+const ID_LOOKUP_CHUNK = 100
+
+export interface DocumentVersion {
+  id: string
+  title: string
+  filename: string
+  status: string
+  version_number: number
+  is_latest_version: boolean
+  previous_version_id: string | null
+  page_count: number | null
+  embedding_model: string | null
+  created_at: string
+}
+
+export interface VersionParent {
+  id: string
+  title: string
+  workspace_id: string | null
+  metadata: Record<string, unknown> | null
+  version_chain_id: string | null
+  version_number: number
+}
+
+export interface VersionComparison {
+  previousId: string
+  currentId: string
+  /** Matched sections whose text is effectively identical */
+  unchanged: SectionMatch[]
+  /** Matched sections whose text was edited */
+  changed: SectionMatch[]
+  /** Page ranges of the newer version with no counterpart in the older one */
+  added: string[]
+  /** Page ranges of the older version with no counterpart in the newer one */
+  removed: string[]
+  stats: {
+    previousChunks: number
+    currentChunks: number
+    matchedChunks: number
+  }
+}
+
+const VERSION_COLUMNS = 'id, title, filename, status, version_number, is_latest_version, previous_version_id, page_count, embedding_model, created_at'
+const PARENT_COLUMNS = 'id, title, workspace_id, metadata, version_chain_id, version_number'
+
+/**
+ * Resolve the document a new upload replaces
+ * An older version resolves to the latest version of its chain, so chains
+ * never branch. Returns null when the document is outside the (edit) scope.
+ */
+export async function resolveVersionParent(scope: DocumentScope, documentId: string): Promise<VersionParent | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data: document, error } = await supabase
+      .from('documents')
+      .select(PARENT_COLUMNS)
+      .eq('id', documentId)
+      .or(documentScopeFilter(scope))
+      .maybeSingle<VersionParent>()
+
+    if (error) {
+      throw new Error(`Failed to load previous version: ${error.message}`)
+    }
+    if (!document?.version_chain_id) {
+      return document ?? null
+    }
+
+    const { data: latest, error: latestError } = await supabase
+      .from('documents')
+      .select(PARENT_COLUMNS)
+      .eq('version_chain_id', document.version_chain_id)
+      .or(documentScopeFilter(scope))
+      .order('version_number', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle<VersionParent>()
+
+    if (latestError) {
+      throw new Error(`Failed to load latest version: ${latestError.message}`)
+    }
+
+    return latest ?? document
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Upload metadata with blank business fields filled in from the version it replaces
+ */
+export function inheritVersionMetadata(
+  parent: VersionParent,
+  metadata: Record<string, unknown>
+): Record<string, unknown> {
+  const merged = { ...metadata }
+  for (const key of INHERITED_METADATA_KEYS) {
+    const submitted = merged[key]
+    const inherited = parent.metadata?.[key]
+    if ((submitted === undefined || submitted === null || submitted === '') && inherited) {
+      merged[key] = inherited
+    }
+  }
+  return merged
+}
+
+/**
+ * Version columns for the insert of a document that replaces `parent`
+ */
+export function newVersionFields(parent: VersionParent) {
+  return {
+    previous_version_id: parent.id,
+    version_chain_id: parent.version_chain_id ?? parent.id,
+    version_number: parent.version_number + 1,
+    is_latest_version: true
+  }
+}
+
+/**
+ * Make a freshly inserted version the chain's latest
+ * Starts the chain on the parent when it was unversioned.
+ */
+export async function markLatestVersion(parent: VersionParent, documentId: string): Promise<void> {
+  const chainId = parent.version_chain_id ?? parent.id
+
+  const supabase = await createServiceClient()
+  try {
+    if (!parent.version_chain_id) {
+      const { error } = await supabase
+        .from('documents')
+        .update({ version_chain_id: chainId })
+        .eq('id', parent.id)
+
+      if (error) {
+        throw new Error(`Failed to start version chain: ${error.message}`)
+      }
+    }
+
+    const { error } = await supabase
+      .from('documents')
+      .update({ is_latest_version: false })
+      .eq('version_chain_id', chainId)
+      .neq('id', documentId)
+
+    if (error) {
+      throw new Error(`Failed to update version chain: ${error.message}`)
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * All versions in a document's chain visible within `scope`, oldest first
+ * An unversioned document is a chain of one. Returns null when the document
+ * itself is outside the scope.
+ */
+export async function listVersionChain(scope: DocumentScope, documentId: string): Promise<DocumentVersion[] | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data: document, error } = await supabase
+      .from('documents')
+      .select(`${VERSION_COLUMNS}, version_chain_id`)
+      .eq('id', documentId)
+      .or(documentScopeFilter(scope))
+      .maybeSingle<DocumentVersion & { version_chain_id: string | null }>()
+
+    if (error) {
+      throw new Error(`Failed to load document: ${error.message}`)
+    }
+    if (!document) {
+      return null
+    }
+
+    const { version_chain_id: chainId, ...version } = document
+    if (!chainId) {
+      return [version]
+    }
+
+    const { data: versions, error: chainError } = await supabase
+      .from('documents')
+      .select(VERSION_COLUMNS)
+      .eq('version_chain_id', chainId)
+      .or(documentScopeFilter(scope))
+      .order('version_number', { ascending: true })
+      .order('created_at', { ascending: true })
+      .returns<DocumentVersion[]>()
+
+    if (chainError) {
+      throw new Error(`Failed to load version chain: ${chainError.message}`)
+    }
+
+    return versions ?? [version]
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Drop documents that have been superseded by a newer version
+ * Used to collapse similarity results to one document per chain.
+ */
+export async function filterToLatestVersions(documentIds: string[]): Promise<string[]> {
+  if (documentIds.length === 0) {
+    return documentIds
+  }
+
+  const superseded = new Set<string>()
+  const supabase = await createServiceClient()
+  try {
+    for (let i = 0; i < documentIds.length; i += ID_LOOKUP_CHUNK) {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id')
+        .in('id', documentIds.slice(i, i + ID_LOOKUP_CHUNK))
+        .eq('is_latest_version', false)
+        .returns<Array<{ id: string }>>()
+
+      if (error) {
+        throw new Error(`Failed to filter superseded versions: ${error.message}`)
+      }
+
+      for (const { id } of data ?? []) {
+        superseded.add(id)
+      }
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  return documentIds.filter(id => !superseded.has(id))
+}
+
+const chunkPages = (chunk: Chunk): number[] => {
+  const start = chunk.startPageNumber ?? chunk.pageNumber
+  const end = chunk.endPageNumber ?? start
+  const pages: number[] = []
+  for (let page = start; page <= end; page++) {
+    pages.push(page)
+  }
+  return pages
+}
+
+/**
+ * Pages covered only by chunks that found no counterpart, as "3-5" ranges
+ * Pages shared with a matched chunk are left out.
+ */
+const unmatchedPageRanges = (chunks: Chunk[], matchedIds: Set<string>): string[] => {
+  const matchedPages = new Set(chunks.filter(chunk => matchedIds.has(chunk.id)).flatMap(chunkPages))
+  const pages = Array.from(new Set(
+    chunks.filter(chunk => !matchedIds.has(chunk.id)).flatMap(chunkPages)
+  ))
+    .filter(page => !matchedPages.has(page))
+    .sort((a, b) => a - b)
+
+  const ranges: string[] = []
+  let rangeStart: number | null = null
+  let previous: number | null = null
+  for (const page of pages) {
+    if (rangeStart === null || previous === null || page !== previous + 1) {
+      if (rangeStart !== null && previous !== null) {
+        ranges.push(rangeStart === previous ? `${rangeStart}` : `${rangeStart}-${previous}`)
+      }
+      rangeStart = page
+    }
+    previous = page
+  }
+  if (rangeStart !== null && previous !== null) {
+    ranges.push(rangeStart === previous ? `${rangeStart}` : `${rangeStart}-${previous}`)
+  }
+  return ranges
+}
+
+/**
+ * Section-level diff between two versions of a document
+ * Chunks are aligned with the bidirectional matcher; aligned pairs are split
+ * into unchanged and changed before grouping into page-range sections, so a
+ * single edited clause is not hidden inside an otherwise identical section.
+ */
+export async function compareVersions(previousId: string, currentId: string): Promise<VersionComparison> {
+  const [previousChunks, currentChunks] = await Promise.all([
+    fetchDocumentChunks(previousId),
+    fetchDocumentChunks(currentId)
+  ])
+
+  // null means too little overlap to align - everything was rewritten
+  const matches: ChunkMatch[] = previousChunks.length > 0 && currentChunks.length > 0
+    ? await findBidirectionalMatches(previousChunks, currentChunks) ?? []
+    : []
+
+  const unchangedMatches = matches.filter(match => match.score >= UNCHANGED_CHUNK_MIN_SCORE)
+  const changedMatches = matches.filter(match => match.score < UNCHANGED_CHUNK_MIN_SCORE)
+
+  const comparison: VersionComparison = {
+    previousId,
+    currentId,
+    unchanged: groupMatchesIntoSections(unchangedMatches),
+    changed: groupMatchesIntoSections(changedMatches),
+    added: unmatchedPageRanges(currentChunks, new Set(matches.map(match => match.chunkB.id))),
+    removed: unmatchedPageRanges(previousChunks, new Set(matches.map(match => match.chunkA.id))),
+    stats: {
+      previousChunks: previousChunks.length,
+      currentChunks: currentChunks.length,
+      matchedChunks: matches.length
+    }
+  }
+
+  logger.info('Version comparison complete', {
+    previousId,
+    currentId,
+    matchedChunks: matches.length,
+    changedSections: comparison.changed.length,
+    addedRanges: comparison.added.length,
+    removedRanges: comparison.removed.length
+  })
+
+  return comparison
+}
@@ -0,0 +1,935 @@
+/**
+ * Re-embedding Migrations
+ * Moves the whole library to a new embedding model without calling Document
+ * AI again: every completed document's stored chunk_text is embedded with the
+ * target model into document_embeddings.pending_embedding and a separate
+ * Pinecone namespace (its tables into document_tables.pending_embedding), and
+ * its centroid is staged with computeAndStoreCentroid.
+ * Searches keep using the old model until every document is staged; then
+ * switch_embedding_migration() swaps the vectors and the active model in one
+ * transaction. The old namespace is left in place for rollback.
+ *
+ * Migrations advance in batches like duplicate scans: each worker invocation
+ * stages a few documents, records its position (next_index) and requeues.
+ */
+
+import { randomUUID } from 'node:crypto'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import {
+  createEmbeddingProvider,
+  embedWithProvider,
+  getActiveEmbeddingConfig,
+  getProviderDefaults,
+  invalidateActiveEmbeddingConfig,
+  resolveEmbeddingModel,
+  type EmbeddingProvider,
+  type EmbeddingProviderConfig,
+  type EmbeddingProviderName
+} from '@/lib/embeddings'
+import { getPineconeIndex } from '@/lib/pinecone'
+import { computeAndStoreCentroid } from '@/lib/document-processing'
+import { MAX_TABLE_EMBEDDING_CHARACTERS } from '@/lib/document-tables'
+import { l2Normalize } from '@/lib/similarity/utils/vector-operations'
+import { logger } from '@/lib/logger'
+
+export type EmbeddingMigrationStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+export interface EmbeddingMigrationEstimate {
+  target_model_id: string
+  document_count: number
+  chunk_count: number
+  character_count: number
+  /** One embedding request per chunk */
+  request_count: number
+  cost_per_1k_characters: number
+  estimated_cost_usd: number
+}
+
+export interface EmbeddingMigrationRecord {
+  id: string
+  created_by: string | null
+  status: EmbeddingMigrationStatus
+  source_model: string
+  source_namespace: string
+  target_provider: EmbeddingProviderName
+  target_model: string
+  target_model_id: string
+  target_dimension: number
+  target_namespace: string
+  document_ids: string[]
+  next_index: number
+  embedded_chunks: number
+  embedded_characters: number
+  failed_document_ids: string[]
+  estimate: EmbeddingMigrationEstimate | null
+  error_message: string | null
+  created_at: string
+  updated_at: string
+  started_at: string | null
+  completed_at: string | null
+  switched_at: string | null
+}
+
+export type EmbeddingMigrationSummary = Omit<EmbeddingMigrationRecord, 'document_ids'> & {
+  total_documents: number
+}
+
+/**
+ * Columns exposed to clients (omits the document list)
+ */
+const SUMMARY_COLUMNS =
+  'id, created_by, status, source_model, source_namespace, target_provider, target_model, target_model_id, target_dimension, target_namespace, next_index, embedded_chunks, embedded_characters, failed_document_ids, estimate, error_message, created_at, updated_at, started_at, completed_at, switched_at'
+
+// Published Vertex AI price for text-embedding-004 (USD per 1,000 input characters)
+const VERTEX_COST_PER_1K_CHARACTERS = 0.000025
+
+// A processing migration whose worker stopped updating it is reclaimed after this long
+const STALE_PROCESSING_MS = 15 * 60 * 1000
+
+// Rows per document_embeddings upsert and ids per Pinecone fetch/upsert
+const CHUNK_WRITE_BATCH = 100
+
+// PostgREST pages results at 1000 rows
+const DOCUMENT_PAGE_SIZE = 1000
+
+// PostgREST `in` filters go in the query string, so staged documents are cleared in chunks
+const ID_BATCH = 100
+
+export interface ResolvedMigrationTarget extends EmbeddingProviderConfig {
+  modelId: string
+}
+
+/**
+ * Validate a requested target model against the active one
+ *
+ * @returns The target, or an error message suitable for a 400 response
+ */
+export async function resolveMigrationTarget(input: {
+  provider: EmbeddingProviderName
+  model?: string
+}): Promise<{ target: ResolvedMigrationTarget } | { error: string }> {
+  const active = await getActiveEmbeddingConfig()
+  const defaults = getProviderDefaults(input.provider)
+  const model = input.model?.trim() || defaults.model
+
+  // Chunk and centroid columns are vector(768) and share one Pinecone index
+  const config: EmbeddingProviderConfig = { provider: input.provider, model, dimension: active.dimension }
+  const modelId = createEmbeddingProvider(config).modelId
+
+  if (modelId === createEmbeddingProvider(active).modelId) {
+    return { error: `${modelId} is already the active embedding model` }
+  }
+
+  return { target: { ...config, modelId } }
+}
+
+const costPer1kCharacters = (provider: EmbeddingProviderName): number => {
+  const configured = Number(process.env['EMBEDDING_COST_PER_1K_CHARACTERS'])
+  if (process.env['EMBEDDING_COST_PER_1K_CHARACTERS'] && Number.isFinite(configured) && configured >= 0) {
+    return configured
+  }
+  // Local models run on this server; there is no per-request charge
+  return provider === 'vertex' ? VERTEX_COST_PER_1K_CHARACTERS : 0
+}
+
+interface MigratableDocument {
+  id: string
+  effective_chunk_count: number | null
+  total_characters: number | null
+  embedding_model: string | null
+  pending_embedding_model: string | null
+}
+
+/**
+ * Completed documents not yet embedded with `targetModelId`, oldest first
+ */
+async function listDocumentsToMigrate(targetModelId: string): Promise<MigratableDocument[]> {
+  const documents: MigratableDocument[] = []
+  const supabase = await createServiceClient()
+
+  try {
+    for (let offset = 0; ; offset += DOCUMENT_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, effective_chunk_count, total_characters, embedding_model, pending_embedding_model')
+        .eq('status', 'completed')
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + DOCUMENT_PAGE_SIZE - 1)
+        .returns<MigratableDocument[]>()
+
+      if (error) {
+        throw new Error(`Failed to load documents for re-embedding: ${error.message}`)
+      }
+
+      documents.push(...(data ?? []).filter(doc => resolveEmbeddingModel(doc.embedding_model) !== targetModelId))
+
+      if (!data || data.length < DOCUMENT_PAGE_SIZE) {
+        return documents
+      }
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+function buildEstimate(target: ResolvedMigrationTarget, documents: MigratableDocument[]): EmbeddingMigrationEstimate {
+  const chunkCount = documents.reduce((sum, doc) => sum + (doc.effective_chunk_count ?? 0), 0)
+  const characterCount = documents.reduce((sum, doc) => sum + (doc.total_characters ?? 0), 0)
+  const rate = costPer1kCharacters(target.provider)
+
+  return {
+    target_model_id: target.modelId,
+    document_count: documents.length,
+    chunk_count: chunkCount,
+    character_count: characterCount,
+    request_count: chunkCount,
+    cost_per_1k_characters: rate,
+    estimated_cost_usd: Math.round((characterCount / 1000) * rate * 100) / 100
+  }
+}
+
+/**
+ * Dry run: how many documents, chunks and characters a migration to `target`
+ * would embed and what the embedding calls would cost
+ */
+export async function estimateEmbeddingMigration(target: ResolvedMigrationTarget): Promise<EmbeddingMigrationEstimate> {
+  return buildEstimate(target, await listDocumentsToMigrate(target.modelId))
+}
+
+/**
+ * Snapshot the documents to re-embed and queue a migration
+ * Fails when another migration is queued or processing (unique index).
+ */
+export async function createEmbeddingMigration(input: {
+  userId: string
+  target: ResolvedMigrationTarget
+}): Promise<EmbeddingMigrationSummary> {
+  const { target } = input
+  const active = await getActiveEmbeddingConfig()
+  const documents = await listDocumentsToMigrate(target.modelId)
+  const estimate = buildEstimate(target, documents)
+
+  const supabase = await createServiceClient()
+  try {
+    const id = randomUUID()
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .insert({
+        id,
+        created_by: input.userId,
+        status: 'queued',
+        source_model: createEmbeddingProvider(active).modelId,
+        source_namespace: active.namespace,
+        target_provider: target.provider,
+        target_model: target.model,
+        target_model_id: target.modelId,
+        target_dimension: target.dimension,
+        target_namespace: `embeddings-${id.slice(0, 8)}`,
+        document_ids: documents.map(doc => doc.id),
+        estimate
+      })
+      .select(SUMMARY_COLUMNS)
+      .single<Omit<EmbeddingMigrationSummary, 'total_documents'>>()
+
+    if (error || !data) {
+      throw new Error(`Failed to queue embedding migration: ${error?.message ?? 'no row returned'}`)
+    }
+
+    logger.info('Embedding migration queued', {
+      migrationId: id,
+      userId: input.userId,
+      targetModel: target.modelId,
+      documentCount: documents.length,
+      estimatedCostUsd: estimate.estimated_cost_usd
+    })
+
+    return { ...data, total_documents: documents.length }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+const toSummary = ({ document_ids: documentIds, ...migration }: EmbeddingMigrationRecord): EmbeddingMigrationSummary => ({
+  ...migration,
+  total_documents: documentIds.length
+})
+
+/**
+ * Most recent migrations, newest first
+ */
+export async function listEmbeddingMigrations(limit = 10): Promise<EmbeddingMigrationSummary[]> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+      .returns<EmbeddingMigrationRecord[]>()
+
+    if (error) {
+      throw new Error(`Failed to list embedding migrations: ${error.message}`)
+    }
+
+    return (data ?? []).map(toSummary)
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+export async function getEmbeddingMigration(migrationId: string): Promise<EmbeddingMigrationSummary | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .select('*')
+      .eq('id', migrationId)
+      .maybeSingle<EmbeddingMigrationRecord>()
+
+    if (error) {
+      throw new Error(`Failed to load embedding migration: ${error.message}`)
+    }
+
+    return data ? toSummary(data) : null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Stop a running (or failed) migration and discard what it staged
+ * The active model is untouched. Staged Pinecone vectors are deleted on a
+ * best-effort basis; the namespace is never read unless a migration switches to it.
+ *
+ * @returns false when the migration was not running
+ */
+export async function cancelEmbeddingMigration(migrationId: string): Promise<boolean> {
+  const supabase = await createServiceClient()
+  let migration: Pick<EmbeddingMigrationRecord, 'id' | 'target_model_id' | 'target_namespace'> | undefined
+
+  try {
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .update({
+        status: 'cancelled',
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', migrationId)
+      .in('status', ['queued', 'processing', 'failed'])
+      .select('id, target_model_id, target_namespace')
+      .returns<Array<Pick<EmbeddingMigrationRecord, 'id' | 'target_model_id' | 'target_namespace'>>>()
+
+    if (error) {
+      throw new Error(`Failed to cancel embedding migration: ${error.message}`)
+    }
+
+    migration = data?.[0]
+    if (!migration) {
+      return false
+    }
+
+    await clearStagedEmbeddings(migration.target_model_id)
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  try {
+    await (await getPineconeIndex(migration.target_namespace)).deleteAll()
+  } catch (error) {
+    logger.warn('Failed to delete staged embedding namespace', {
+      migrationId,
+      namespace: migration.target_namespace,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+
+  logger.info('Embedding migration cancelled', { migrationId })
+  return true
+}
+
+/**
+ * Requeue a failed migration; documents that failed are retried at the end
+ *
+ * @returns false when the migration was not failed (or another one is running)
+ */
+export async function resumeEmbeddingMigration(migrationId: string): Promise<boolean> {
+  const supabase = await createServiceClient()
+  try {
+    const { data: migration, error: readError } = await supabase
+      .from('embedding_migrations')
+      .select('id, status, document_ids, next_index, failed_document_ids')
+      .eq('id', migrationId)
+      .maybeSingle<Pick<EmbeddingMigrationRecord, 'id' | 'status' | 'document_ids' | 'next_index' | 'failed_document_ids'>>()
+
+    if (readError) {
+      throw new Error(`Failed to load embedding migration: ${readError.message}`)
+    }
+    if (!migration || migration.status !== 'failed') {
+      return false
+    }
+
+    // Failed documents deleted (or no longer completed) since are not retried
+    const retryIds = await filterMigratableDocuments(migration.failed_document_ids)
+
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .update({
+        status: 'queued',
+        document_ids: [...migration.document_ids, ...retryIds],
+        failed_document_ids: [],
+        error_message: null,
+        completed_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', migrationId)
+      .eq('status', 'failed')
+      .select('id')
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      // The single-active index rejects a resume while another migration runs
+      logger.warn('Failed to resume embedding migration', { migrationId, error: error.message })
+      return false
+    }
+
+    return (data?.length ?? 0) > 0
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Trigger the re-embedding worker without waiting for it
+ */
+export function dispatchEmbeddingMigrationWorker(requestUrl: string): void {
+  const cronSecret = process.env['CRON_SECRET']
+
+  if (!cronSecret) {
+    logger.warn('CRON_SECRET not set; embedding migration will wait for the next scheduled worker run')
+    return
+  }
+
+  try {
+    const cronUrl = new URL('/api/cron/process-embedding-migrations', requestUrl)
+    fetch(cronUrl.toString(), {
+      method: 'GET',
+      headers: {
+        authorization: `Bearer ${cronSecret}`,
+        'user-agent': 'EmbeddingMigrationAutoTrigger'
+      }
+    }).catch(error => {
+      logger.warn('Embedding migration worker trigger failed', {
+        error: error instanceof Error ? error.message : String(error)
+      })
+    })
+  } catch (error) {
+    logger.warn('Failed to construct embedding migration worker URL', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
+/**
+ * Find the migration to advance: the queued one, or a processing one whose worker died
+ */
+export async function findNextEmbeddingMigrationId(): Promise<string | null> {
+  const supabase = await createServiceClient()
+
+  try {
+    const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString()
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .select('id')
+      .or(`status.eq.queued,and(status.eq.processing,updated_at.lt.${staleBefore})`)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      throw new Error(`Failed to find queued embedding migrations: ${error.message}`)
+    }
+
+    return data?.[0]?.id ?? null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Claim a migration and re-embed up to `documentLimit` documents from its cursor
+ * Once the cursor reaches the end (and no newly completed documents remain),
+ * the migration switches the library to the target model.
+ *
+ * @returns The migration status after this batch, or null if it was not claimable
+ */
+export async function processEmbeddingMigrationBatch(
+  migrationId: string,
+  documentLimit: number
+): Promise<EmbeddingMigrationStatus | null> {
+  const migration = await claimMigration(migrationId)
+  if (!migration) {
+    return null
+  }
+
+  const documentIds = [...migration.document_ids]
+  const failedDocumentIds = [...migration.failed_document_ids]
+  let nextIndex = migration.next_index
+  let embeddedChunks = migration.embedded_chunks
+  let embeddedCharacters = migration.embedded_characters
+
+  try {
+    for (let processed = 0; processed < documentLimit && nextIndex < documentIds.length; processed++) {
+      const documentId = documentIds[nextIndex]!
+      let dropped = false
+
+      if (await isStillMigratable(documentId)) {
+        try {
+          const staged = await stageDocument(migration, documentId)
+          embeddedChunks += staged.chunks
+          embeddedCharacters += staged.characters
+        } catch (error) {
+          if (await isStillMigratable(documentId)) {
+            // One bad document must not sink the whole migration; it is retried on resume
+            failedDocumentIds.push(documentId)
+            logger.warn('Embedding migration skipped document', {
+              migrationId,
+              documentId,
+              error: error instanceof Error ? error.message : String(error)
+            })
+          } else {
+            dropped = true
+          }
+        }
+      } else {
+        dropped = true
+      }
+
+      if (dropped) {
+        // Deleted or reprocessing since the snapshot: there is nothing to stage or switch
+        documentIds.splice(nextIndex, 1)
+        logger.info('Embedding migration dropped document that is no longer completed', { migrationId, documentId })
+      } else {
+        nextIndex += 1
+      }
+
+      const stillRunning = await updateMigration(migrationId, {
+        next_index: nextIndex,
+        embedded_chunks: embeddedChunks,
+        embedded_characters: embeddedCharacters,
+        failed_document_ids: failedDocumentIds,
+        ...(dropped ? { document_ids: documentIds } : {})
+      })
+      if (!stillRunning) {
+        logger.info('Embedding migration stopped (cancelled or removed)', { migrationId })
+        return 'cancelled'
+      }
+    }
+
+    if (nextIndex < documentIds.length) {
+      await updateMigration(migrationId, { status: 'queued' })
+      return 'queued'
+    }
+
+    // Documents finished processing on the old model while the migration ran, and
+    // documents reprocessed after they were staged (computeAndStoreCentroid discarded their staging)
+    const failedIds = new Set(failedDocumentIds)
+    const latecomers = (await listDocumentsToMigrate(migration.target_model_id))
+      .filter(doc => doc.pending_embedding_model !== migration.target_model_id && !failedIds.has(doc.id))
+      .map(doc => doc.id)
+
+    if (latecomers.length > 0) {
+      await updateMigration(migrationId, {
+        status: 'queued',
+        document_ids: [...documentIds, ...latecomers]
+      })
+      logger.info('Embedding migration picked up newly completed or reprocessed documents', {
+        migrationId,
+        documents: latecomers.length
+      })
+      return 'queued'
+    }
+
+    if (failedDocumentIds.length > 0) {
+      await updateMigration(migrationId, {
+        status: 'failed',
+        error_message: `${failedDocumentIds.length} document(s) could not be re-embedded; resume to retry them`,
+        completed_at: new Date().toISOString()
+      })
+      return 'failed'
+    }
+
+    const switchedDocuments = await switchToTarget(migrationId)
+    invalidateActiveEmbeddingConfig()
+
+    logger.info('Embedding migration switched models', {
+      migrationId,
+      sourceModel: migration.source_model,
+      targetModel: migration.target_model_id,
+      namespace: migration.target_namespace,
+      switchedDocuments,
+      embeddedChunks
+    })
+
+    return 'completed'
+  } catch (error) {
+    logger.error(
+      'Embedding migration failed',
+      error instanceof Error ? error : new Error(String(error)),
+      { migrationId }
+    )
+
+    await updateMigration(migrationId, {
+      status: 'failed',
+      error_message: error instanceof Error ? error.message : 'Unknown error',
+      completed_at: new Date().toISOString()
+    })
+
+    return 'failed'
+  }
+}
+
+/**
+ * Whether a snapshotted document can still be staged: it exists and is completed
+ * A lookup error counts as yes, so staging runs and a real failure is recorded.
+ */
+async function isStillMigratable(documentId: string): Promise<boolean> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('status')
+      .eq('id', documentId)
+      .maybeSingle<{ status: string }>()
+
+    if (error) {
+      logger.warn('Failed to check document before re-embedding', { documentId, error: error.message })
+      return true
+    }
+
+    return data?.status === 'completed'
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * The given documents that still exist and are completed
+ */
+async function filterMigratableDocuments(documentIds: string[]): Promise<string[]> {
+  const migratable = new Set<string>()
+  const supabase = await createServiceClient()
+  try {
+    for (let i = 0; i < documentIds.length; i += ID_BATCH) {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id')
+        .in('id', documentIds.slice(i, i + ID_BATCH))
+        .eq('status', 'completed')
+        .returns<Array<{ id: string }>>()
+
+      if (error) {
+        throw new Error(`Failed to check failed documents: ${error.message}`)
+      }
+
+      for (const row of data ?? []) {
+        migratable.add(row.id)
+      }
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  return documentIds.filter(id => migratable.has(id))
+}
+
+async function claimMigration(migrationId: string): Promise<EmbeddingMigrationRecord | null> {
+  const supabase = await createServiceClient()
+
+  try {
+    const { data: current, error: readError } = await supabase
+      .from('embedding_migrations')
+      .select('id, status, updated_at')
+      .eq('id', migrationId)
+      .maybeSingle<{ id: string; status: EmbeddingMigrationStatus; updated_at: string }>()
+
+    if (readError || !current) {
+      return null
+    }
+
+    const isStale = current.status === 'processing' &&
+      Date.now() - new Date(current.updated_at).getTime() > STALE_PROCESSING_MS
+    if (current.status !== 'queued' && !isStale) {
+      return null
+    }
+
+    // Conditional update on the observed status/updated_at acts as the lock
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .update({
+        status: 'processing',
+        started_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', migrationId)
+      .eq('status', current.status)
+      .eq('updated_at', current.updated_at)
+      .select('*')
+      .returns<EmbeddingMigrationRecord[]>()
+
+    if (error) {
+      logger.error('Failed to claim embedding migration', new Error(error.message), { migrationId })
+      return null
+    }
+
+    return data?.[0] ?? null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Update a processing migration; returns false if it left 'processing' (e.g. cancelled)
+ */
+async function updateMigration(migrationId: string, fields: Record<string, unknown>): Promise<boolean> {
+  const supabase = await createServiceClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', migrationId)
+      .eq('status', 'processing')
+      .select('id')
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      logger.warn('Failed to update embedding migration', { migrationId, error: error.message })
+      return false
+    }
+
+    return (data?.length ?? 0) > 0
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+interface StoredChunk {
+  document_id: string
+  vector_id: string
+  chunk_index: number
+  chunk_text: string
+}
+
+/**
+ * Re-embed one document's chunks with the target model and stage the results
+ * Rerunning it (after an interrupted batch) overwrites what it staged before.
+ */
+async function stageDocument(
+  migration: EmbeddingMigrationRecord,
+  documentId: string
+): Promise<{ chunks: number; characters: number }> {
+  const provider = createEmbeddingProvider({
+    provider: migration.target_provider,
+    model: migration.target_model,
+    dimension: migration.target_dimension
+  })
+  if (provider.modelId !== migration.target_model_id) {
+    throw new Error(`Target model resolved to ${provider.modelId}, expected ${migration.target_model_id}`)
+  }
+
+  const supabase = await createServiceClient()
+  let chunks: StoredChunk[]
+  try {
+    const { data, error } = await supabase
+      .from('document_embeddings')
+      .select('document_id, vector_id, chunk_index, chunk_text')
+      .eq('document_id', documentId)
+      .order('chunk_index', { ascending: true })
+      .limit(100000) // Support very large documents
+      .returns<StoredChunk[]>()
+
+    if (error) {
+      throw new Error(`Failed to load chunks: ${error.message}`)
+    }
+    chunks = data ?? []
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  if (chunks.length === 0) {
+    throw new Error('Document has no stored chunks; reprocess it instead')
+  }
+
+  const sourceIndex = await getPineconeIndex(migration.source_namespace)
+  const targetIndex = await getPineconeIndex(migration.target_namespace)
+  let characters = 0
+
+  for (let i = 0; i < chunks.length; i += CHUNK_WRITE_BATCH) {
+    const batch = chunks.slice(i, i + CHUNK_WRITE_BATCH)
+
+    const vectors: number[][] = []
+    for (const chunk of batch) {
+      vectors.push(await embedWithProvider(provider, chunk.chunk_text, 'RETRIEVAL_DOCUMENT'))
+      characters += chunk.chunk_text.length
+    }
+
+    // Reuse each vector's filter metadata (owner, business fields) from the live namespace
+    const { records } = await sourceIndex.fetch(batch.map(chunk => chunk.vector_id))
+    const missing = batch.filter(chunk => !records[chunk.vector_id])
+    if (missing.length > 0) {
+      throw new Error(`${missing.length} chunk vector(s) missing from Pinecone; reprocess the document instead`)
+    }
+
+    await targetIndex.upsert(batch.map((chunk, index) => ({
+      id: chunk.vector_id,
+      values: vectors[index]!,
+      ...(records[chunk.vector_id]?.metadata ? { metadata: records[chunk.vector_id]!.metadata! } : {})
+    })))
+
+    const stagingClient = await createServiceClient()
+    try {
+      const { error } = await stagingClient
+        .from('document_embeddings')
+        .upsert(
+          batch.map((chunk, index) => ({ ...chunk, pending_embedding: vectors[index]! })),
+          { onConflict: 'document_id,chunk_index' }
+        )
+
+      if (error) {
+        throw new Error(`Failed to stage chunk embeddings: ${error.message}`)
+      }
+    } finally {
+      releaseServiceClient(stagingClient)
+    }
+  }
+
+  characters += await stageDocumentTables(provider, documentId)
+
+  const centroidStored = await computeAndStoreCentroid(documentId, chunks.length, {
+    staged: { embeddingModel: migration.target_model_id }
+  })
+  if (!centroidStored) {
+    throw new Error('Failed to stage document centroid')
+  }
+
+  return { chunks: chunks.length, characters }
+}
+
+/**
+ * Re-embed one document's stored tables into document_tables.pending_embedding
+ *
+ * @returns Characters embedded
+ */
+async function stageDocumentTables(
+  provider: EmbeddingProvider,
+  documentId: string
+): Promise<number> {
+  const supabase = await createServiceClient()
+  try {
+    const { data: tables, error } = await supabase
+      .from('document_tables')
+      .select('table_index, table_text')
+      .eq('document_id', documentId)
+      .order('table_index', { ascending: true })
+      .returns<Array<{ table_index: number; table_text: string }>>()
+
+    if (error) {
+      throw new Error(`Failed to load tables: ${error.message}`)
+    }
+
+    let characters = 0
+    for (const table of tables ?? []) {
+      // Same input as at processing time (see saveDocumentTables)
+      const text = table.table_text.slice(0, MAX_TABLE_EMBEDDING_CHARACTERS)
+      const vector = l2Normalize(await embedWithProvider(provider, text, 'RETRIEVAL_DOCUMENT'))
+      characters += text.length
+
+      const { error: stageError } = await supabase
+        .from('document_tables')
+        .update({ pending_embedding: vector })
+        .eq('document_id', documentId)
+        .eq('table_index', table.table_index)
+
+      if (stageError) {
+        throw new Error(`Failed to stage table embeddings: ${stageError.message}`)
+      }
+    }
+
+    return characters
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+async function switchToTarget(migrationId: string): Promise<number> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase.rpc('switch_embedding_migration', { p_migration_id: migrationId })
+
+    if (error) {
+      throw new Error(`Failed to switch embedding model: ${error.message}`)
+    }
+
+    return typeof data === 'number' ? data : 0
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Drop staged vectors and centroids recorded for `modelId`
+ */
+async function clearStagedEmbeddings(modelId: string): Promise<void> {
+  const supabase = await createServiceClient()
+  try {
+    for (;;) {
+      const { data: documents, error } = await supabase
+        .from('documents')
+        .select('id')
+        .eq('pending_embedding_model', modelId)
+        .limit(ID_BATCH)
+        .returns<Array<{ id: string }>>()
+
+      if (error) {
+        throw new Error(`Failed to load staged documents: ${error.message}`)
+      }
+      if (!documents || documents.length === 0) {
+        return
+      }
+
+      const ids = documents.map(doc => doc.id)
+      const { error: chunkError } = await supabase
+        .from('document_embeddings')
+        .update({ pending_embedding: null })
+        .in('document_id', ids)
+        .not('pending_embedding', 'is', null)
+
+      if (chunkError) {
+        throw new Error(`Failed to clear staged chunk embeddings: ${chunkError.message}`)
+      }
+
+      const { error: tableError } = await supabase
+        .from('document_tables')
+        .update({ pending_embedding: null })
+        .in('document_id', ids)
+        .not('pending_embedding', 'is', null)
+
+      if (tableError) {
+        throw new Error(`Failed to clear staged table embeddings: ${tableError.message}`)
+      }
+
+      const { error: documentError } = await supabase
+        .from('documents')
+        .update({ pending_centroid_embedding: null, pending_embedding_model: null })
+        .in('id', ids)
+
+      if (documentError) {
+        throw new Error(`Failed to clear staged centroids: ${documentError.message}`)
+      }
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
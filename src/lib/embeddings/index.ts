@@ -0,0 +1,191 @@
+/**
+ * Embedding Providers
+ * Chunks and queries are embedded by the provider selected with
+ * EMBEDDING_PROVIDER (vertex | local), EMBEDDING_MODEL and EMBEDDING_DIMENSION.
+ * The provider's model id is recorded in documents.embedding_model; vectors
+ * from different models are never compared.
+ *
+ * Once a re-embedding migration has switched models, the embedding_settings
+ * row (provider, model, dimension, Pinecone namespace) takes precedence over
+ * the environment.
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { createLocalProvider, LOCAL_DEFAULT_DIMENSION, LOCAL_DEFAULT_MODEL } from './local-provider'
+import { createVertexProvider, VERTEX_DEFAULT_DIMENSION, VERTEX_DEFAULT_MODEL } from './vertex-provider'
+import type {
+  ActiveEmbeddingConfig,
+  EmbeddingProvider,
+  EmbeddingProviderConfig,
+  EmbeddingProviderName,
+  EmbeddingTaskType
+} from './types'
+
+export type {
+  ActiveEmbeddingConfig,
+  EmbeddingProvider,
+  EmbeddingProviderConfig,
+  EmbeddingProviderName,
+  EmbeddingTaskType
+} from './types'
+
+// Documents processed before embedding_model was recorded used Vertex text-embedding-004
+export const LEGACY_EMBEDDING_MODEL = VERTEX_DEFAULT_MODEL
+
+export const EMBEDDING_PROVIDERS: ReadonlyArray<EmbeddingProviderName> = ['vertex', 'local']
+
+// Other app instances pick up a model switch within this window
+const ACTIVE_CONFIG_TTL_MS = 60 * 1000
+
+export function isEmbeddingProviderName(value: unknown): value is EmbeddingProviderName {
+  return typeof value === 'string' && EMBEDDING_PROVIDERS.includes(value as EmbeddingProviderName)
+}
+
+/**
+ * Default model and dimension for a provider
+ */
+export function getProviderDefaults(provider: EmbeddingProviderName): { model: string; dimension: number } {
+  return DEFAULTS[provider]
+}
+
+const DEFAULTS: Record<EmbeddingProviderName, { model: string; dimension: number }> = {
+  vertex: { model: VERTEX_DEFAULT_MODEL, dimension: VERTEX_DEFAULT_DIMENSION },
+  local: { model: LOCAL_DEFAULT_MODEL, dimension: LOCAL_DEFAULT_DIMENSION }
+}
+
+/**
+ * Provider configuration from the environment
+ * Throws on an unknown provider or invalid dimension rather than silently
+ * embedding with a model the rest of the library does not use.
+ */
+export function getEmbeddingConfig(): EmbeddingProviderConfig {
+  const providerSetting = process.env['EMBEDDING_PROVIDER']?.trim().toLowerCase() || 'vertex'
+  if (!isEmbeddingProviderName(providerSetting)) {
+    throw new Error(`Invalid EMBEDDING_PROVIDER "${providerSetting}". Expected one of: ${EMBEDDING_PROVIDERS.join(', ')}`)
+  }
+  const provider = providerSetting
+  const defaults = DEFAULTS[provider]
+
+  const model = process.env['EMBEDDING_MODEL']?.trim() || defaults.model
+
+  const dimensionSetting = process.env['EMBEDDING_DIMENSION']?.trim()
+  const dimension = dimensionSetting ? Number(dimensionSetting) : defaults.dimension
+  if (!Number.isInteger(dimension) || dimension <= 0) {
+    throw new Error(`Invalid EMBEDDING_DIMENSION "${dimensionSetting}". Expected a positive integer`)
+  }
+
+  return { provider, model, dimension }
+}
+
+const providers = new Map<string, EmbeddingProvider>()
+
+/**
+ * Provider for an explicit configuration (e.g. a re-embedding migration target)
+ */
+export function createEmbeddingProvider({ provider, model, dimension }: EmbeddingProviderConfig): EmbeddingProvider {
+  const key = `${provider}:${model}:${dimension}`
+  let instance = providers.get(key)
+  if (!instance) {
+    instance = provider === 'local'
+      ? createLocalProvider(model, dimension)
+      : createVertexProvider(model, dimension)
+    providers.set(key, instance)
+  }
+  return instance
+}
+
+let activeConfig: { value: ActiveEmbeddingConfig; loadedAt: number } | null = null
+
+/**
+ * Configuration new embeddings and queries use: the embedding_settings row
+ * written by the last model switch, or the environment when there is none
+ */
+export async function getActiveEmbeddingConfig(): Promise<ActiveEmbeddingConfig> {
+  if (activeConfig && Date.now() - activeConfig.loadedAt < ACTIVE_CONFIG_TTL_MS) {
+    return activeConfig.value
+  }
+
+  let value: ActiveEmbeddingConfig = { ...getEmbeddingConfig(), namespace: '' }
+
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('embedding_settings')
+      .select('provider, model, dimension, pinecone_namespace')
+      .maybeSingle<{ provider: string; model: string; dimension: number; pinecone_namespace: string }>()
+
+    if (error) {
+      logger.warn('Failed to load embedding settings; using environment configuration', { error: error.message })
+    } else if (data && isEmbeddingProviderName(data.provider)) {
+      value = {
+        provider: data.provider,
+        model: data.model,
+        dimension: data.dimension,
+        namespace: data.pinecone_namespace
+      }
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  activeConfig = { value, loadedAt: Date.now() }
+  return value
+}
+
+/**
+ * Drop the cached active configuration (after a model switch in this process)
+ */
+export function invalidateActiveEmbeddingConfig(): void {
+  activeConfig = null
+}
+
+export async function getEmbeddingProvider(): Promise<EmbeddingProvider> {
+  return createEmbeddingProvider(await getActiveEmbeddingConfig())
+}
+
+/**
+ * Model id new embeddings are recorded under (documents.embedding_model)
+ */
+export async function getEmbeddingModelId(): Promise<string> {
+  return (await getEmbeddingProvider()).modelId
+}
+
+/**
+ * Model a document was embedded with; rows from before the column was
+ * populated count as the legacy Vertex model
+ */
+export function resolveEmbeddingModel(value: unknown): string {
+  return typeof value === 'string' && value.length > 0 ? value : LEGACY_EMBEDDING_MODEL
+}
+
+/**
+ * Embed with a specific provider, checking the returned dimension
+ */
+export async function embedWithProvider(
+  provider: EmbeddingProvider,
+  text: string,
+  taskType: EmbeddingTaskType = 'RETRIEVAL_DOCUMENT'
+): Promise<number[]> {
+  const vector = await provider.embed(text, taskType)
+
+  // A mismatched dimension would be rejected by Pinecone, or worse, compared as garbage
+  if (vector.length !== provider.dimension) {
+    throw new Error(
+      `Embedding model ${provider.modelId} returned ${vector.length} dimensions; ` +
+      `expected ${provider.dimension}`
+    )
+  }
+
+  return vector
+}
+
+// Embed a document chunk (RETRIEVAL_DOCUMENT task)
+export async function generateEmbeddings(text: string): Promise<number[]> {
+  return await embedWithProvider(await getEmbeddingProvider(), text, 'RETRIEVAL_DOCUMENT')
+}
+
+// Embed a free-text search query (RETRIEVAL_QUERY task)
+export async function generateQueryEmbeddings(text: string): Promise<number[]> {
+  return await embedWithProvider(await getEmbeddingProvider(), text, 'RETRIEVAL_QUERY')
+}
@@ -0,0 +1,75 @@
+// Local CPU embeddings (ONNX sentence-transformer via transformers.js)
+import type { FeatureExtractionPipeline } from '@huggingface/transformers'
+import { logger } from '@/lib/logger'
+import type { EmbeddingProvider } from './types'
+
+// Same dimension as the Vertex default, so an existing Pinecone index layout still fits
+export const LOCAL_DEFAULT_MODEL = 'Xenova/bge-base-en-v1.5'
+export const LOCAL_DEFAULT_DIMENSION = 768
+
+const extractors = new Map<string, Promise<FeatureExtractionPipeline>>()
+
+/**
+ * Load the model once per process
+ * With EMBEDDING_LOCAL_MODEL_PATH set, models are read from that directory
+ * only and nothing is downloaded (air-gapped deployments).
+ */
+const getExtractor = (model: string): Promise<FeatureExtractionPipeline> => {
+  let extractor = extractors.get(model)
+  if (!extractor) {
+    extractor = (async () => {
+      // Loaded lazily: the ONNX runtime is only needed when this provider is selected
+      const { env, pipeline } = await import('@huggingface/transformers')
+
+      const localModelPath = process.env['EMBEDDING_LOCAL_MODEL_PATH']
+      if (localModelPath) {
+        env.localModelPath = localModelPath
+        env.allowRemoteModels = false
+      }
+
+      const startTime = Date.now()
+      const loaded = await pipeline('feature-extraction', model, { dtype: 'fp32' })
+      logger.info('Local embedding model loaded', {
+        model,
+        offline: Boolean(localModelPath),
+        durationMs: Date.now() - startTime
+      })
+      return loaded
+    })()
+
+    // A failed load is retried on the next call instead of being cached
+    extractor.catch(() => extractors.delete(model))
+    extractors.set(model, extractor)
+  }
+  return extractor
+}
+
+/**
+ * Mean-pooled, L2-normalized sentence embeddings computed on the CPU
+ * The task type is ignored: sentence-transformers embed queries and
+ * passages the same way. Long inputs are truncated by the tokenizer.
+ */
+export function createLocalProvider(model: string, dimension: number): EmbeddingProvider {
+  const embed = async (text: string): Promise<number[]> => {
+    const cleanedText = text.replace(/\n/g, ' ').trim()
+    if (!cleanedText) {
+      throw new Error('Text is empty after cleaning')
+    }
+
+    try {
+      const extractor = await getExtractor(model)
+      const output = await extractor(cleanedText, { pooling: 'mean', normalize: true })
+      return Array.from(output.data as Float32Array)
+    } catch (error) {
+      logger.error('Error generating local embeddings', error as Error, { model })
+      throw new Error(`Failed to generate local embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  return {
+    name: 'local',
+    modelId: model,
+    dimension,
+    embed
+  }
+}
@@ -0,0 +1,26 @@
+// Documents are embedded for retrieval; free-text queries use the matching query task
+export type EmbeddingTaskType = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY'
+
+export type EmbeddingProviderName = 'vertex' | 'local'
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderName
+  model: string
+  dimension: number
+}
+
+export interface ActiveEmbeddingConfig extends EmbeddingProviderConfig {
+  /** Pinecone namespace holding this model's chunk vectors ('' = default) */
+  namespace: string
+}
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName
+  /**
+   * Identifier recorded in documents.embedding_model
+   * Vectors are only comparable when this matches.
+   */
+  readonly modelId: string
+  readonly dimension: number
+  embed(text: string, taskType: EmbeddingTaskType): Promise<number[]>
+}
@@ -0,0 +1,94 @@
+// Google Vertex AI Embeddings
+import { GoogleAuth } from 'google-auth-library'
+import { getGoogleClientOptions } from '@/lib/google-credentials'
+import type { VertexAIEmbeddingResponse } from '@/types/external-apis'
+import { logger } from '@/lib/logger'
+import type { EmbeddingProvider, EmbeddingTaskType } from './types'
+
+export const VERTEX_DEFAULT_MODEL = 'text-embedding-004'
+export const VERTEX_DEFAULT_DIMENSION = 768
+
+// Vertex AI input limit (characters)
+const MAX_INPUT_CHARACTERS = 3072
+
+let auth: GoogleAuth | null = null
+
+const getAuth = (): GoogleAuth => {
+  auth ??= new GoogleAuth({
+    ...getGoogleClientOptions(),
+    scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+  })
+  return auth
+}
+
+/**
+ * Vertex AI text embeddings
+ * A reduced dimension is requested with outputDimensionality and recorded in
+ * the model id, since truncated vectors are not comparable with full ones.
+ */
+export function createVertexProvider(model: string, dimension: number): EmbeddingProvider {
+  const modelId = dimension === VERTEX_DEFAULT_DIMENSION ? model : `${model}@${dimension}`
+
+  const embed = async (text: string, taskType: EmbeddingTaskType): Promise<number[]> => {
+    try {
+      const cleanedText = text.replace(/\n/g, ' ').trim()
+      const truncatedText = cleanedText.substring(0, MAX_INPUT_CHARACTERS)
+
+      if (!truncatedText) {
+        throw new Error('Text is empty after cleaning')
+      }
+
+      logger.info('Generating Vertex AI embeddings', { textLength: truncatedText.length, taskType, model })
+
+      const client = await getAuth().getClient()
+      const projectId = process.env['GOOGLE_CLOUD_PROJECT_ID']!
+      const url = `https://us-central1-aiplatform.googleapis.com/v1/projects/${projectId}/locations/us-central1/publishers/google/models/${model}:predict`
+
+      const response = await client.request({
+        url,
+        method: 'POST',
+        data: {
+          instances: [
+            {
+              content: truncatedText,
+              task_type: taskType
+            }
+          ],
+          ...(dimension !== VERTEX_DEFAULT_DIMENSION
+            ? { parameters: { outputDimensionality: dimension } }
+            : {})
+        }
+      })
+
+      const embeddings = (response.data as VertexAIEmbeddingResponse)?.predictions?.[0]?.embeddings?.values
+
+      if (!embeddings || !Array.isArray(embeddings)) {
+        throw new Error('No embeddings returned from Vertex AI')
+      }
+
+      return embeddings
+    } catch (error: unknown) {
+      const statusCode = error instanceof Error && 'status' in error ? (error as { status: number }).status : undefined
+      logger.error('Error generating Vertex AI embeddings', error as Error, { statusCode, model })
+
+      if (statusCode === 403) {
+        throw new Error('Vertex AI API not enabled. Enable it at: https://console.cloud.google.com/apis/library/aiplatform.googleapis.com')
+      } else if (statusCode === 401) {
+        throw new Error('Invalid Google Cloud credentials. Check your service account.')
+      } else if (statusCode === 404) {
+        throw new Error(`Vertex AI model ${model} not found. The model may not be available in your region or project.`)
+      } else if (statusCode === 429) {
+        throw new Error('Vertex AI rate limit exceeded. Please try again in a few minutes.')
+      }
+
+      throw new Error(`Failed to generate Vertex embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  return {
+    name: 'vertex',
+    modelId,
+    dimension,
+    embed
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Exclusion Ranges
+ * Typed page ranges (cover letters, side-letter exhibits, signature pages, tax
+ * forms, ...) that are kept out of chunking and similarity matching.
+ *
+ * - `metadata.exclusion_ranges`: ranges entered by the user
+ * - `metadata.excluded_sections`: ranges applied to the stored embeddings,
+ *   including an auto-detected subscription agreement
+ */
+
+import type { BusinessMetadata, ExclusionRange, ExclusionRangeType } from '@/types/external-apis'
+
+const EXCLUSION_RANGE_TYPES: ReadonlySet<string> = new Set<ExclusionRangeType>([
+  'subscription_agreement',
+  'cover',
+  'exhibit',
+  'signature_pages',
+  'tax_forms',
+  'custom'
+])
+
+export const isExclusionRangeType = (value: unknown): value is ExclusionRangeType =>
+  typeof value === 'string' && EXCLUSION_RANGE_TYPES.has(value)
+
+const toPageNumber = (value: unknown): number | null => {
+  const parsed = typeof value === 'number' ? value : Number(value)
+  if (!Number.isFinite(parsed)) return null
+  const page = Math.floor(parsed)
+  return page >= 1 ? page : null
+}
+
+/**
+ * Validate a raw list of ranges, dropping malformed entries
+ * Accepts both user ranges and `excluded_sections` records (same field names).
+ */
+export function normalizeExclusionRanges(value: unknown): ExclusionRange[] {
+  if (!Array.isArray(value)) return []
+
+  const ranges: ExclusionRange[] = []
+
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue
+    const record = entry as Record<string, unknown>
+
+    if (!isExclusionRangeType(record['type'])) continue
+
+    const startPage = toPageNumber(record['start_page'])
+    const endPage = toPageNumber(record['end_page'])
+    if (startPage === null || endPage === null || endPage < startPage) continue
+
+    const label = typeof record['label'] === 'string' ? record['label'].trim() : ''
+
+    ranges.push({
+      type: record['type'],
+      start_page: startPage,
+      end_page: endPage,
+      ...(label ? { label } : {})
+    })
+  }
+
+  return ranges.sort((a, b) => a.start_page - b.start_page || a.end_page - b.end_page)
+}
+
+/**
+ * Ranges the user asked to exclude
+ * Folds in the upload form's single subscription agreement range for documents
+ * that predate `exclusion_ranges`. "N/A" drops subscription agreement ranges.
+ */
+export function getManualExclusionRanges(metadata: BusinessMetadata | null | undefined): ExclusionRange[] {
+  if (!metadata) return []
+
+  const ranges = normalizeExclusionRanges(metadata.exclusion_ranges)
+
+  if (!ranges.some(range => range.type === 'subscription_agreement')) {
+    const [legacy] = normalizeExclusionRanges([{
+      type: 'subscription_agreement',
+      start_page: metadata.subscription_agreement_start_page,
+      end_page: metadata.subscription_agreement_end_page
+    }])
+    if (legacy) {
+      ranges.push(legacy)
+      ranges.sort((a, b) => a.start_page - b.start_page || a.end_page - b.end_page)
+    }
+  }
+
+  if (metadata.subscription_agreement_skipped === true) {
+    return ranges.filter(range => range.type !== 'subscription_agreement')
+  }
+
+  return ranges
+}
+
+/**
+ * Ranges currently applied to the document's embeddings
+ */
+export function getAppliedExclusionRanges(metadata: BusinessMetadata | null | undefined): ExclusionRange[] {
+  return normalizeExclusionRanges(metadata?.excluded_sections)
+}
+
+export function collectExcludedPages(ranges: ExclusionRange[]): Set<number> {
+  const pages = new Set<number>()
+  for (const range of ranges) {
+    for (let page = range.start_page; page <= range.end_page; page += 1) {
+      pages.add(page)
+    }
+  }
+  return pages
+}
+
+/**
+ * True when any page spanned by the chunk is excluded
+ * Chunks without a page span (older rows) fall back to their single page number.
+ */
+export function chunkTouchesExcludedPages(
+  chunk: { pageNumber: number; startPageNumber?: number | null; endPageNumber?: number | null },
+  excludedPages: Set<number>
+): boolean {
+  if (excludedPages.size === 0) return false
+
+  const startPage = chunk.startPageNumber ?? chunk.pageNumber
+  const endPage = chunk.endPageNumber ?? startPage
+
+  for (let page = startPage; page <= endPage; page += 1) {
+    if (excludedPages.has(page)) return true
+  }
+  return false
+}
+
+/**
+ * Ranges similarity matching should ignore
+ * Manual ranges count as soon as they are saved, before the queued re-embed
+ * removes their chunks.
+ */
+export function getMatchingExclusionRanges(metadata: BusinessMetadata | null | undefined): ExclusionRange[] {
+  return [...getAppliedExclusionRanges(metadata), ...getManualExclusionRanges(metadata)]
+}
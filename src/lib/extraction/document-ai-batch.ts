@@ -0,0 +1,202 @@
+// Google Document AI batch processing: the PDF is staged in Cloud Storage,
+// processed as a long-running operation and read back from the sharded output
+import { randomUUID } from 'node:crypto'
+import {
+  detectOptimalProcessor,
+  getBatchGcsLocation,
+  getProcessorId,
+  getProcessorName
+} from '@/lib/document-ai-config'
+import { logger } from '@/lib/logger'
+import type { DocumentAIBatchProcessResponse, DocumentAIDocument } from '@/types/external-apis'
+import { getDocumentAIClient, getStorageClient } from './document-ai-client'
+import type {
+  BatchExtraction,
+  BatchExtractionOperation,
+  BatchExtractionStatus,
+  ExtractedSegment,
+  ExtractionInput,
+  ExtractionResult
+} from './types'
+
+// Pages per output file; shards are downloaded one at a time
+const PAGES_PER_SHARD = 50
+
+// Everything the pipeline reads - page images are left out of the output
+const OUTPUT_FIELDS = [
+  'text',
+  'entities',
+  'shardInfo',
+  'pages.pageNumber',
+  'pages.dimension',
+  'pages.layout',
+  'pages.detectedLanguages',
+  'pages.blocks',
+  'pages.paragraphs',
+  'pages.lines',
+  'pages.tokens',
+  'pages.visualElements',
+  'pages.tables',
+  'pages.formFields',
+  'pages.detectedBarcodes'
+]
+
+const parseGcsUri = (uri: string): { bucket: string; path: string } => {
+  const match = /^gs:\/\/([^/]+)\/(.*)$/.exec(uri)
+  if (!match?.[1]) {
+    throw new Error(`Invalid Cloud Storage URI: ${uri}`)
+  }
+  return { bucket: match[1], path: match[2] ?? '' }
+}
+
+const joinPath = (...parts: string[]) => parts.filter(part => part.length > 0).join('/')
+
+async function start(input: ExtractionInput): Promise<BatchExtractionOperation> {
+  const location = getBatchGcsLocation()
+  if (!location) {
+    throw new Error('Document AI batch processing is not configured (DOCUMENT_AI_BATCH_GCS_URI)')
+  }
+
+  const processorType = detectOptimalProcessor(input.filename, input.fileSize)
+  const processorId = getProcessorId(processorType)
+  const processorName = getProcessorName(processorId)
+
+  // Every run gets its own folder, so a retry never reads an earlier run's output
+  const runPath = joinPath(location.prefix, input.documentId, randomUUID())
+  const inputPath = joinPath(runPath, 'input.pdf')
+  const inputUri = `gs://${location.bucket}/${inputPath}`
+  const outputUri = `gs://${location.bucket}/${joinPath(runPath, 'output')}/`
+
+  const inputFile = getStorageClient().bucket(location.bucket).file(inputPath)
+  await inputFile.save(Buffer.from(input.content), { contentType: 'application/pdf' })
+
+  let operationName: string | null | undefined
+  try {
+    const [operation] = await getDocumentAIClient().batchProcessDocuments({
+      name: processorName,
+      inputDocuments: {
+        gcsDocuments: {
+          documents: [{ gcsUri: inputUri, mimeType: 'application/pdf' }]
+        }
+      },
+      documentOutputConfig: {
+        gcsOutputConfig: {
+          gcsUri: outputUri,
+          fieldMask: { paths: OUTPUT_FIELDS },
+          shardingConfig: { pagesPerShard: PAGES_PER_SHARD }
+        }
+      },
+      skipHumanReview: true
+    })
+    operationName = operation.name
+  } catch (error) {
+    await inputFile.delete({ ignoreNotFound: true }).catch(() => undefined)
+    throw error
+  }
+
+  if (!operationName) {
+    throw new Error('Document AI did not return a batch operation name')
+  }
+
+  logger.info('Document AI batch operation started', {
+    documentId: input.documentId,
+    operationName,
+    processor: processorType,
+    estimatedPages: input.estimatedPages
+  })
+
+  return {
+    provider: 'document-ai',
+    operationName,
+    inputUri,
+    outputUri,
+    processor: { id: processorId, name: processorName, type: `${processorType}-batch` }
+  }
+}
+
+async function check(operation: BatchExtractionOperation): Promise<BatchExtractionStatus> {
+  const progress = await getDocumentAIClient().checkBatchProcessDocumentsProgress(operation.operationName)
+  if (!progress.done) {
+    return { state: 'running' }
+  }
+  if (progress.error) {
+    return { state: 'failed', message: progress.error.message || `code ${progress.error.code}` }
+  }
+
+  // The operation can succeed while the one document in it failed
+  const metadata = progress.metadata as DocumentAIBatchProcessResponse['metadata'] | null
+  const documentStatus = metadata?.individualProcessStatuses?.[0]?.status
+  if (documentStatus?.code) {
+    return { state: 'failed', message: documentStatus.message || `code ${documentStatus.code}` }
+  }
+
+  return { state: 'succeeded' }
+}
+
+/**
+ * Read the output shards in order
+ * Shard pages are renumbered from 1 so pageOffset places them, whether
+ * Document AI numbered them within the shard or across the document.
+ */
+async function collect(operation: BatchExtractionOperation): Promise<ExtractionResult> {
+  const output = parseGcsUri(operation.outputUri)
+  const [files] = await getStorageClient().bucket(output.bucket).getFiles({ prefix: output.path })
+  const shardFiles = files.filter(file => file.name.endsWith('.json'))
+  if (shardFiles.length === 0) {
+    throw new Error(`Document AI batch operation produced no output under ${operation.outputUri}`)
+  }
+
+  const shards: Array<{ shardIndex: number; document: DocumentAIDocument }> = []
+  for (const file of shardFiles) {
+    const [contents] = await file.download()
+    const document = JSON.parse(contents.toString('utf8')) as DocumentAIDocument
+    shards.push({ shardIndex: Number(document.shardInfo?.shardIndex ?? 0), document })
+  }
+  shards.sort((a, b) => a.shardIndex - b.shardIndex)
+
+  const segments: ExtractedSegment[] = []
+  let pageOffset = 0
+  for (const { document } of shards) {
+    const pages = document.pages ?? []
+    pages.forEach((page, index) => {
+      page.pageNumber = index + 1
+    })
+    segments.push({ document, pageOffset })
+    pageOffset += pages.length
+  }
+
+  logger.info('Document AI batch output read', {
+    operationName: operation.operationName,
+    shardCount: shards.length,
+    pageCount: pageOffset
+  })
+
+  return { segments, processor: operation.processor }
+}
+
+async function cancel(operation: BatchExtractionOperation): Promise<void> {
+  const progress = await getDocumentAIClient().checkBatchProcessDocumentsProgress(operation.operationName)
+  if (!progress.done) {
+    await progress.cancel()
+  }
+}
+
+async function cleanup(operation: BatchExtractionOperation): Promise<void> {
+  const input = parseGcsUri(operation.inputUri)
+  const output = parseGcsUri(operation.outputUri)
+  const storage = getStorageClient()
+
+  await storage.bucket(input.bucket).file(input.path).delete({ ignoreNotFound: true })
+  await storage.bucket(output.bucket).deleteFiles({ prefix: output.path })
+}
+
+export function createDocumentAIBatchExtraction(): BatchExtraction {
+  return {
+    isConfigured: () => getBatchGcsLocation() !== null,
+    start,
+    check,
+    collect,
+    cancel,
+    cleanup
+  }
+}
@@ -0,0 +1,21 @@
+// Shared Google Document AI and Cloud Storage clients (online and batch processing)
+import { DocumentProcessorServiceClient } from '@google-cloud/documentai'
+import { Storage } from '@google-cloud/storage'
+import { getGoogleClientOptions } from '@/lib/google-credentials'
+
+let documentAIClient: DocumentProcessorServiceClient | null = null
+let storageClient: Storage | null = null
+
+export const getDocumentAIClient = (): DocumentProcessorServiceClient => {
+  if (!documentAIClient) {
+    documentAIClient = new DocumentProcessorServiceClient(getGoogleClientOptions())
+  }
+  return documentAIClient
+}
+
+export const getStorageClient = (): Storage => {
+  if (!storageClient) {
+    storageClient = new Storage(getGoogleClientOptions())
+  }
+  return storageClient
+}
@@ -0,0 +1,215 @@
+// Google Document AI OCR (online processing, split into page ranges when too long)
+import { PDFDocument } from 'pdf-lib'
+import { detectOptimalProcessor, getProcessorId, getProcessorName } from '@/lib/document-ai-config'
+import { SmartRetry, RetryConfigs, circuitBreakers } from '@/lib/retry-logic'
+import { saveDocumentAIResponse } from '@/lib/debug-document-ai'
+import { logger } from '@/lib/logger'
+import type { DocumentAIDocument } from '@/types/external-apis'
+import { createDocumentAIBatchExtraction } from './document-ai-batch'
+import { getDocumentAIClient } from './document-ai-client'
+import type { ExtractedSegment, ExtractionInput, ExtractionProvider, ExtractionResult } from './types'
+
+// Google Document AI OCR processors cap synchronous requests at 15 pages
+const DOCUMENT_AI_MAX_SYNC_PAGES = 15
+
+const getSyncPageLimit = (): number =>
+  Number.parseInt(process.env['DOCUMENT_AI_SYNC_PAGE_LIMIT'] || '15', 10)
+
+const isPageLimitError = (error: unknown): boolean => {
+  const documentAiError = error as { code?: number; details?: string } | null
+  return documentAiError?.code === 3
+    && typeof documentAiError.details === 'string'
+    && documentAiError.details.includes('exceed the limit')
+}
+
+// Save raw Document AI output for analysis (non-blocking) - only if debug flag is enabled
+const dumpResponse = (
+  dumpId: string,
+  document: DocumentAIDocument,
+  details: { filename: string; fileSize: number; processor: string }
+) => {
+  if (process.env['DUMP_DOCUMENT_AI'] !== '1') return
+
+  saveDocumentAIResponse(dumpId, document, { ...details, pageCount: document.pages?.length })
+    .catch(error => {
+      logger.warn('Failed to save Document AI debug output', {
+        dumpId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    })
+}
+
+async function processWithRetry(
+  name: string,
+  content: Uint8Array | ArrayBuffer,
+  logContext: Record<string, unknown>
+): Promise<DocumentAIDocument> {
+  const request = {
+    name,
+    rawDocument: {
+      content: Buffer.from(content instanceof Uint8Array ? content : new Uint8Array(content)).toString('base64'),
+      mimeType: 'application/pdf'
+    }
+  }
+
+  // Use smart retry with circuit breaker for Document AI processing
+  const retryResult = await circuitBreakers.documentAI.execute(async () => {
+    return await SmartRetry.execute(
+      async () => {
+        logger.debug('Attempting Document AI processing', logContext)
+        const response = await getDocumentAIClient().processDocument(request)
+        return Array.isArray(response) ? response[0] : response
+      },
+      RetryConfigs.documentAI
+    )
+  })
+
+  if (!retryResult.success) {
+    throw retryResult.error
+  }
+
+  const document = retryResult.result?.document
+  if (!document) {
+    throw new Error('No document returned from Document AI')
+  }
+
+  logger.info('Document AI processing completed successfully', {
+    ...logContext,
+    attempts: retryResult.attempts,
+    totalTime: retryResult.totalTime
+  })
+
+  return document as unknown as DocumentAIDocument
+}
+
+/**
+ * Process a long PDF as consecutive page ranges within the sync page limit
+ */
+async function processInPageRanges(
+  input: ExtractionInput,
+  processorName: string,
+  processorType: string
+): Promise<ExtractedSegment[]> {
+  const pdfDoc = await PDFDocument.load(input.content)
+  const totalPages = pdfDoc.getPageCount()
+
+  const configuredLimit = getSyncPageLimit()
+  const maxPagesPerChunk = Number.isFinite(configuredLimit) && configuredLimit > 0
+    ? Math.min(configuredLimit, DOCUMENT_AI_MAX_SYNC_PAGES)
+    : DOCUMENT_AI_MAX_SYNC_PAGES
+
+  logger.info('Processing document with chunked strategy', {
+    documentId: input.documentId,
+    totalPages,
+    maxPagesPerChunk
+  })
+
+  const segments: ExtractedSegment[] = []
+  for (let start = 0; start < totalPages; start += maxPagesPerChunk) {
+    const end = Math.min(totalPages, start + maxPagesPerChunk)
+    const pageIndices = Array.from({ length: end - start }, (_, index) => start + index)
+
+    const chunkDoc = await PDFDocument.create()
+    const copiedPages = await chunkDoc.copyPages(pdfDoc, pageIndices)
+    copiedPages.forEach(page => chunkDoc.addPage(page))
+    const chunkBytes = await chunkDoc.save()
+
+    const document = await processWithRetry(processorName, chunkBytes, {
+      documentId: input.documentId,
+      processor: processorType,
+      chunkStartPage: start + 1,
+      chunkEndPage: end
+    })
+
+    dumpResponse(`${input.documentId}_chunk_${start + 1}-${end}`, document, {
+      filename: `Chunk ${start + 1}-${end}`,
+      fileSize: chunkBytes.byteLength,
+      processor: processorType
+    })
+
+    segments.push({ document, pageOffset: start })
+  }
+
+  return segments
+}
+
+/**
+ * Always try sync processing first for short documents - Document AI tells us
+ * when a PDF is too large, and we fall back to page ranges
+ */
+export function createDocumentAIProvider(): ExtractionProvider {
+  const extract = async (input: ExtractionInput): Promise<ExtractionResult> => {
+    const processorType = detectOptimalProcessor(input.filename, input.fileSize)
+    const processorId = getProcessorId(processorType)
+    const processorName = getProcessorName(processorId)
+
+    logger.info('Document AI processor selected', {
+      documentId: input.documentId,
+      processor: processorType,
+      processorId,
+      estimatedPages: input.estimatedPages
+    })
+
+    const processInChunks = async (): Promise<ExtractionResult> => {
+      try {
+        const segments = await processInPageRanges(input, processorName, processorType)
+        return {
+          segments,
+          processor: { id: processorId, name: processorName, type: `${processorType}-chunked` }
+        }
+      } catch (chunkError) {
+        logger.error('Chunked processing fallback failed - document too large', chunkError as Error, {
+          documentId: input.documentId
+        })
+        throw new Error('Document exceeds processing limits. Please try a smaller document.')
+      }
+    }
+
+    const syncPageLimit = getSyncPageLimit()
+    if (input.estimatedPages > syncPageLimit) {
+      logger.info('Skipping sync-first Document AI processing due to page count', {
+        documentId: input.documentId,
+        estimatedPages: input.estimatedPages,
+        syncPageLimit
+      })
+      return processInChunks()
+    }
+
+    let document: DocumentAIDocument
+    try {
+      document = await processWithRetry(processorName, input.content, {
+        documentId: input.documentId,
+        processor: processorType
+      })
+    } catch (error) {
+      // Handle page limit errors by processing the document in manageable chunks
+      if (isPageLimitError(error)) {
+        logger.warn('Page limit exceeded, attempting chunked processing fallback', {
+          documentId: input.documentId,
+          errorDetails: (error as { details?: string }).details
+        })
+        return processInChunks()
+      }
+
+      logger.error('Document AI processing failed', error as Error, { documentId: input.documentId })
+      throw error
+    }
+
+    dumpResponse(input.documentId, document, {
+      filename: input.filename,
+      fileSize: input.fileSize,
+      processor: processorType
+    })
+
+    return {
+      segments: [{ document, pageOffset: 0 }],
+      processor: { id: processorId, name: processorName, type: processorType }
+    }
+  }
+
+  return {
+    name: 'document-ai',
+    extract,
+    batch: createDocumentAIBatchExtraction()
+  }
+}
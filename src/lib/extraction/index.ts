@@ -0,0 +1,123 @@
+/**
+ * Text Extraction Providers
+ * Uploaded PDFs are turned into pages, paragraphs and layout by the provider
+ * selected with EXTRACTION_PROVIDER (document-ai | local), or by the
+ * document's own extraction_provider when the upload chose one.
+ *
+ * Every provider returns Document AI's layout format, so chunking, page
+ * numbering and chunk regions work the same whichever produced the text.
+ */
+
+import { createDocumentAIProvider } from './document-ai-provider'
+import { createLocalExtractionProvider } from './local-provider'
+import { logger } from '@/lib/logger'
+import type { BatchExtractionOperation, ExtractionProvider, ExtractionProviderName } from './types'
+
+export type {
+  BatchExtraction,
+  BatchExtractionOperation,
+  BatchExtractionStatus,
+  ExtractedSegment,
+  ExtractionInput,
+  ExtractionProvider,
+  ExtractionProviderName,
+  ExtractionResult
+} from './types'
+
+export const EXTRACTION_PROVIDERS: ReadonlyArray<ExtractionProviderName> = ['document-ai', 'local']
+
+export function isExtractionProviderName(value: unknown): value is ExtractionProviderName {
+  return typeof value === 'string' && EXTRACTION_PROVIDERS.includes(value as ExtractionProviderName)
+}
+
+/**
+ * Provider configured for documents that do not choose one
+ * Throws on an unknown provider rather than silently sending documents to
+ * Google Cloud.
+ */
+export function getDefaultExtractionProviderName(): ExtractionProviderName {
+  const setting = process.env['EXTRACTION_PROVIDER']?.trim().toLowerCase() || 'document-ai'
+  if (!isExtractionProviderName(setting)) {
+    throw new Error(`Invalid EXTRACTION_PROVIDER "${setting}". Expected one of: ${EXTRACTION_PROVIDERS.join(', ')}`)
+  }
+  return setting
+}
+
+const providers = new Map<ExtractionProviderName, ExtractionProvider>()
+
+/**
+ * Provider for a document: its own choice, or the configured default
+ */
+export function getExtractionProvider(documentChoice?: string | null): ExtractionProvider {
+  const name = isExtractionProviderName(documentChoice) ? documentChoice : getDefaultExtractionProviderName()
+
+  let provider = providers.get(name)
+  if (!provider) {
+    provider = name === 'local' ? createLocalExtractionProvider() : createDocumentAIProvider()
+    providers.set(name, provider)
+  }
+  return provider
+}
+
+/**
+ * Batch operation recorded on a job (document_jobs.metadata.batch_extraction),
+ * or null when the value is not one
+ */
+export function parseBatchExtractionOperation(value: unknown): BatchExtractionOperation | null {
+  if (!value || typeof value !== 'object') {
+    return null
+  }
+
+  const raw = value as Record<string, unknown>
+  const processor = raw.processor as Record<string, unknown> | null | undefined
+  if (
+    !isExtractionProviderName(raw.provider)
+    || typeof raw.operationName !== 'string'
+    || typeof raw.inputUri !== 'string'
+    || typeof raw.outputUri !== 'string'
+    || !processor
+    || typeof processor.id !== 'string'
+    || typeof processor.name !== 'string'
+    || typeof processor.type !== 'string'
+  ) {
+    return null
+  }
+
+  return {
+    provider: raw.provider,
+    operationName: raw.operationName,
+    inputUri: raw.inputUri,
+    outputUri: raw.outputUri,
+    processor: { id: processor.id, name: processor.name, type: processor.type }
+  }
+}
+
+/**
+ * Delete a batch operation's staged files, cancelling it first when asked
+ * Failures are logged, never thrown: leftovers only cost storage.
+ */
+export async function discardBatchExtraction(
+  operation: BatchExtractionOperation,
+  options: { cancel?: boolean } = {}
+): Promise<void> {
+  const batch = getExtractionProvider(operation.provider).batch
+  if (!batch) return
+
+  if (options.cancel) {
+    await batch.cancel(operation).catch(error => {
+      logger.warn('Failed to cancel batch extraction', {
+        operationName: operation.operationName,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    })
+  }
+
+  await batch.cleanup(operation).catch(error => {
+    logger.warn('Failed to delete batch extraction files', {
+      operationName: operation.operationName,
+      inputUri: operation.inputUri,
+      outputUri: operation.outputUri,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  })
+}
@@ -0,0 +1,497 @@
+// Local extraction: the PDF's embedded text layer (pdf.js), OCR (tesseract.js) for pages without one
+// Tables are detected in the text layer from column gaps; OCR'd pages have none.
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import type { PDFPageProxy } from 'pdfjs-dist'
+import type { Worker as OcrWorker } from 'tesseract.js'
+import { logger } from '@/lib/logger'
+import type { DocumentAIDocument, DocumentAIPage } from '@/types/external-apis'
+import type { ExtractionInput, ExtractionProvider, ExtractionResult } from './types'
+
+// Pages with fewer characters than this in their text layer are treated as scanned
+const MIN_TEXT_LAYER_CHARACTERS = 16
+
+// Scanned pages are rendered at 144 DPI for OCR
+const OCR_RENDER_SCALE = 2
+
+// A vertical gap larger than this many line heights starts a new paragraph
+const PARAGRAPH_GAP_LINE_HEIGHTS = 1.5
+
+// A horizontal gap wider than this many font heights separates table cells
+const CELL_GAP_FONT_HEIGHTS = 1.5
+
+// Consecutive multi-cell lines needed to form a table
+const MIN_TABLE_ROWS = 3
+
+// Rows further apart than this many line heights belong to different tables
+const TABLE_ROW_GAP_LINE_HEIGHTS = 2.5
+
+// Longer cells on average are side-by-side text columns, not a table
+const MAX_MEAN_CELL_CHARACTERS = 32
+
+/** Axis-aligned box in page space, normalized to 0-1 (top-left origin) */
+interface Box {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+interface LayoutCell {
+  text: string
+  box: Box
+}
+
+interface LayoutLine {
+  text: string
+  box: Box
+  /** Table rows only: the row's non-empty cells, whose texts joined by spaces make up `text` */
+  cells?: LayoutCell[]
+}
+
+interface LayoutParagraph {
+  lines: LayoutLine[]
+}
+
+interface LayoutTable {
+  box: Box
+  headerRowCount: number
+  /** One entry per column; null where a row has no text in that column */
+  rows: Array<Array<LayoutCell | null>>
+}
+
+interface LayoutPage {
+  width: number
+  height: number
+  paragraphs: LayoutParagraph[]
+  tables: LayoutTable[]
+}
+
+interface TextLine {
+  text: string
+  baseline: number
+  lineHeight: number
+  box: Box
+  hasEOL: boolean
+  /** Runs of text separated by cell-sized gaps */
+  segments: LayoutCell[]
+}
+
+const unionBox = (boxes: Box[]): Box => ({
+  x0: Math.min(...boxes.map(box => box.x0)),
+  y0: Math.min(...boxes.map(box => box.y0)),
+  x1: Math.max(...boxes.map(box => box.x1)),
+  y1: Math.max(...boxes.map(box => box.y1))
+})
+
+const toBoundingPoly = (box: Box) => ({
+  normalizedVertices: [
+    { x: box.x0, y: box.y0 },
+    { x: box.x1, y: box.y0 },
+    { x: box.x1, y: box.y1 },
+    { x: box.x0, y: box.y1 }
+  ]
+})
+
+const toLayout = (text: string, start: number, box: Box) => ({
+  textAnchor: {
+    textSegments: [{ startIndex: String(start), endIndex: String(start + text.length) }]
+  },
+  boundingPoly: toBoundingPoly(box)
+})
+
+/**
+ * Assemble pages into the Document AI layout format: one text string with
+ * paragraphs and lines pointing into it through text anchors, and tables
+ * whose cells point into their rows' lines
+ */
+function toDocumentAIDocument(pages: LayoutPage[]): DocumentAIDocument {
+  let text = ''
+  const documentPages: DocumentAIPage[] = pages.map((page, pageIndex) => {
+    const paragraphs: NonNullable<DocumentAIPage['paragraphs']> = []
+    const lines: NonNullable<DocumentAIPage['lines']> = []
+    const cellLayouts = new Map<LayoutCell, ReturnType<typeof toLayout>>()
+
+    for (const paragraph of page.paragraphs) {
+      const paragraphStart = text.length
+      paragraph.lines.forEach((line, lineIndex) => {
+        if (lineIndex > 0) text += '\n'
+        lines.push({ layout: toLayout(line.text, text.length, line.box) })
+
+        let cellStart = text.length
+        for (const cell of line.cells ?? []) {
+          cellLayouts.set(cell, toLayout(cell.text, cellStart, cell.box))
+          cellStart += cell.text.length + 1
+        }
+
+        text += line.text
+      })
+      paragraphs.push({
+        layout: toLayout(text.slice(paragraphStart), paragraphStart, unionBox(paragraph.lines.map(line => line.box)))
+      })
+      text += '\n'
+    }
+
+    const toRow = (row: LayoutTable['rows'][number]) => ({
+      cells: row.map(cell => (cell ? { layout: cellLayouts.get(cell) } : {}))
+    })
+
+    return {
+      pageNumber: pageIndex + 1,
+      dimension: { width: page.width, height: page.height, unit: 'points' },
+      paragraphs,
+      lines,
+      ...(page.tables.length > 0
+        ? {
+            tables: page.tables.map(table => ({
+              layout: { boundingPoly: toBoundingPoly(table.box) },
+              headerRows: table.rows.slice(0, table.headerRowCount).map(toRow),
+              bodyRows: table.rows.slice(table.headerRowCount).map(toRow)
+            }))
+          }
+        : {})
+    }
+  })
+
+  return { text, pages: documentPages }
+}
+
+const overlap = (a: Box, b: Box) => Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0)
+const centerDistance = (a: Box, b: Box) => Math.abs((a.x0 + a.x1) / 2 - (b.x0 + b.x1) / 2)
+
+/**
+ * Lay a run of multi-cell lines out as a table
+ * Columns come from the row with the most cells; every other cell goes to the
+ * column it overlaps most (or the nearest one). Rows become the lines' cells.
+ *
+ * @returns null when the run reads like side-by-side text columns
+ */
+function buildTable(rows: TextLine[]): LayoutTable | null {
+  const segments = rows.flatMap(row => row.segments)
+  const meanLength = segments.reduce((total, segment) => total + segment.text.length, 0) / segments.length
+  if (meanLength > MAX_MEAN_CELL_CHARACTERS) return null
+
+  const template = rows.reduce((widest, row) => (row.segments.length > widest.segments.length ? row : widest))
+  const columns = template.segments.map(segment => segment.box)
+
+  const tableRows = rows.map(row => {
+    const columnSegments: LayoutCell[][] = columns.map(() => [])
+    for (const segment of row.segments) {
+      let best = 0
+      columns.forEach((column, index) => {
+        const current = columns[best]!
+        const better = overlap(segment.box, column) > overlap(segment.box, current)
+          || (overlap(segment.box, column) <= 0 && overlap(segment.box, current) <= 0
+            && centerDistance(segment.box, column) < centerDistance(segment.box, current))
+        if (better) best = index
+      })
+      columnSegments[best]!.push(segment)
+    }
+
+    // Segments sharing a column are adjacent, so their joined text stays contiguous in the line
+    const cells = columnSegments.map(parts => (parts.length === 0
+      ? null
+      : { text: parts.map(part => part.text).join(' '), box: unionBox(parts.map(part => part.box)) }))
+    row.text = cells.filter((cell): cell is LayoutCell => cell !== null).map(cell => cell.text).join(' ')
+    return cells
+  })
+
+  // Label rows (no figures) above rows with figures are the header
+  const hasDigits = (cells: Array<LayoutCell | null>) => cells.some(cell => cell && /\d/.test(cell.text))
+  const first = tableRows[0]
+  const headerRowCount = first && !hasDigits(first) && tableRows.slice(1).some(hasDigits) ? 1 : 0
+
+  return { box: unionBox(rows.map(row => row.box)), headerRowCount, rows: tableRows }
+}
+
+/**
+ * Find tables: runs of at least MIN_TABLE_ROWS consecutive lines that each
+ * split into two or more cells
+ *
+ * @returns The tables and the lines that are their rows
+ */
+function detectTables(lines: TextLine[]): { tables: LayoutTable[]; rowLines: Map<TextLine, LayoutCell[]> } {
+  const tables: LayoutTable[] = []
+  const rowLines = new Map<TextLine, LayoutCell[]>()
+
+  const flush = (run: TextLine[]) => {
+    if (run.length < MIN_TABLE_ROWS) return
+    const table = buildTable(run)
+    if (!table) return
+    tables.push(table)
+    run.forEach((line, index) => {
+      rowLines.set(line, (table.rows[index] ?? []).filter((cell): cell is LayoutCell => cell !== null))
+    })
+  }
+
+  let run: TextLine[] = []
+  for (const line of lines) {
+    const previous = run[run.length - 1]
+    const gap = previous ? line.baseline - previous.baseline : 0
+    const continuesRun = previous
+      && line.segments.length >= 2
+      && gap > 0
+      && gap <= Math.max(previous.lineHeight, line.lineHeight) * TABLE_ROW_GAP_LINE_HEIGHTS
+
+    if (continuesRun) {
+      run.push(line)
+      continue
+    }
+
+    flush(run)
+    run = line.segments.length >= 2 ? [line] : []
+  }
+  flush(run)
+
+  return { tables, rowLines }
+}
+
+/**
+ * Group text layer items into lines (shared baseline) and lines into
+ * paragraphs (separated by a larger vertical gap or a jump back up the page,
+ * e.g. into the next column). Table rows are paragraphs of their own.
+ */
+async function readTextLayer(
+  page: PDFPageProxy,
+  Util: typeof import('pdfjs-dist').Util
+): Promise<LayoutPage> {
+  const viewport = page.getViewport({ scale: 1 })
+  const content = await page.getTextContent()
+
+  const lines: TextLine[] = []
+  for (const item of content.items) {
+    if (!('str' in item)) continue
+
+    // Viewport space: rotation applied, origin at the top left
+    const transform = Util.transform(viewport.transform, item.transform)
+    const fontHeight = Math.hypot(transform[2], transform[3])
+    const x = transform[4]
+    const baseline = transform[5]
+    const box: Box = {
+      x0: x / viewport.width,
+      y0: (baseline - fontHeight) / viewport.height,
+      x1: (x + item.width) / viewport.width,
+      y1: baseline / viewport.height
+    }
+
+    const current = lines[lines.length - 1]
+    const sameLine = current
+      && !current.hasEOL
+      && Math.abs(current.baseline - baseline) <= Math.max(current.lineHeight, fontHeight) / 2
+
+    if (current && sameLine) {
+      if (item.str) {
+        const gap = box.x0 - current.box.x1
+        const needsSpace = gap * viewport.width > fontHeight * 0.2
+          && !current.text.endsWith(' ')
+          && !item.str.startsWith(' ')
+        current.text += (needsSpace ? ' ' : '') + item.str
+        current.box = unionBox([current.box, box])
+      }
+      if (item.str.trim()) {
+        // Measured from the last visible text: whitespace items can bridge a column gap
+        const segment = current.segments[current.segments.length - 1]
+        if (segment && (box.x0 - segment.box.x1) * viewport.width <= fontHeight * CELL_GAP_FONT_HEIGHTS) {
+          const needsSpace = (box.x0 - segment.box.x1) * viewport.width > fontHeight * 0.2 || /^\s/.test(item.str)
+          segment.text += (needsSpace ? ' ' : '') + item.str
+          segment.box = unionBox([segment.box, box])
+        } else {
+          current.segments.push({ text: item.str, box })
+        }
+      }
+      current.lineHeight = Math.max(current.lineHeight, fontHeight)
+      current.hasEOL = item.hasEOL
+    } else if (item.str.trim()) {
+      lines.push({
+        text: item.str,
+        baseline,
+        lineHeight: fontHeight,
+        box,
+        hasEOL: item.hasEOL,
+        segments: [{ text: item.str, box }]
+      })
+    } else if (current && item.hasEOL) {
+      current.hasEOL = true
+    }
+  }
+
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim()
+  const textLines = lines
+    .map(line => ({
+      ...line,
+      text: normalize(line.text),
+      segments: line.segments
+        .map(segment => ({ ...segment, text: normalize(segment.text) }))
+        .filter(segment => segment.text)
+    }))
+    .filter(line => line.text)
+
+  const { tables, rowLines } = detectTables(textLines)
+
+  const paragraphs: LayoutParagraph[] = []
+  let previous: TextLine | null = null
+  for (const line of textLines) {
+    const cells = rowLines.get(line)
+    const gap = previous ? line.baseline - previous.baseline : 0
+    const startsParagraph = !previous
+      || cells !== undefined
+      || rowLines.has(previous)
+      || gap < 0
+      || gap > Math.max(previous.lineHeight, line.lineHeight) * PARAGRAPH_GAP_LINE_HEIGHTS
+
+    if (startsParagraph) {
+      paragraphs.push({ lines: [] })
+    }
+    paragraphs[paragraphs.length - 1]?.lines.push({ text: line.text, box: line.box, ...(cells ? { cells } : {}) })
+    previous = line
+  }
+
+  return { width: viewport.width, height: viewport.height, paragraphs, tables }
+}
+
+/**
+ * Render a page and read it with OCR, keeping Tesseract's paragraphs
+ */
+async function ocrPage(
+  page: PDFPageProxy,
+  canvasFactory: { create(width: number, height: number): { canvas: unknown; context: unknown } },
+  worker: OcrWorker
+): Promise<LayoutPage> {
+  const pageViewport = page.getViewport({ scale: 1 })
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE })
+  const { canvas, context } = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height))
+
+  await page.render({
+    canvas: canvas as HTMLCanvasElement,
+    canvasContext: context as CanvasRenderingContext2D,
+    viewport
+  }).promise
+
+  const image = (canvas as { toBuffer(mimeType: 'image/png'): Buffer }).toBuffer('image/png')
+  const { data } = await worker.recognize(image, {}, { blocks: true })
+
+  const paragraphs: LayoutParagraph[] = []
+  for (const block of data.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      const lines = paragraph.lines
+        .map(line => ({
+          text: line.text.replace(/\s+/g, ' ').trim(),
+          box: {
+            x0: line.bbox.x0 / viewport.width,
+            y0: line.bbox.y0 / viewport.height,
+            x1: line.bbox.x1 / viewport.width,
+            y1: line.bbox.y1 / viewport.height
+          }
+        }))
+        .filter(line => line.text)
+
+      if (lines.length > 0) {
+        paragraphs.push({ lines })
+      }
+    }
+  }
+
+  return { width: pageViewport.width, height: pageViewport.height, paragraphs, tables: [] }
+}
+
+/**
+ * Tesseract worker for the configured languages
+ * With EXTRACTION_OCR_LANG_PATH set, trained data is read from that directory
+ * only (air-gapped deployments); otherwise it is downloaded on first use.
+ */
+async function createOcrWorker(): Promise<OcrWorker> {
+  // Loaded lazily: only needed when a document has scanned pages
+  const { createWorker } = await import('tesseract.js')
+
+  const languages = process.env['EXTRACTION_OCR_LANGUAGES']?.trim() || 'eng'
+  const langPath = process.env['EXTRACTION_OCR_LANG_PATH']?.trim()
+
+  const worker = await createWorker([], undefined, {
+    cachePath: path.join(tmpdir(), 'tesseract-cache'),
+    // Failed jobs still reject; without a handler tesseract.js also rethrows
+    // the error outside the promise and takes the process down
+    errorHandler: (error: unknown) => {
+      logger.warn('OCR worker reported an error', { error: String(error) })
+    },
+    ...(langPath ? { langPath, cacheMethod: 'none' } : {})
+  })
+
+  // Languages are loaded once the worker is up: createWorker() never settles
+  // when they fail to load, and the worker could not be terminated
+  try {
+    await worker.reinitialize(languages)
+  } catch (error) {
+    await worker.terminate()
+    throw new Error(`Failed to load OCR languages "${languages}": ${String(error)}`)
+  }
+
+  return worker
+}
+
+export function createLocalExtractionProvider(): ExtractionProvider {
+  const extract = async (input: ExtractionInput): Promise<ExtractionResult> => {
+    // Loaded lazily: pdf.js is only needed when this provider is selected
+    const { getDocument, Util } = await import('pdfjs-dist/legacy/build/pdf.mjs')
+
+    const pdf = await getDocument({
+      data: new Uint8Array(input.content.slice(0)),
+      isEvalSupported: false,
+      standardFontDataUrl: path.join(process.cwd(), 'node_modules', 'pdfjs-dist', 'standard_fonts') + path.sep
+    }).promise
+
+    const startTime = Date.now()
+    const pages: LayoutPage[] = []
+    const ocrPages: number[] = []
+    let worker: OcrWorker | null = null
+
+    try {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber)
+        try {
+          const textLayer = await readTextLayer(page, Util)
+          const characters = textLayer.paragraphs
+            .flatMap(paragraph => paragraph.lines)
+            .reduce((total, line) => total + line.text.replace(/\s/g, '').length, 0)
+
+          if (characters >= MIN_TEXT_LAYER_CHARACTERS) {
+            pages.push(textLayer)
+            continue
+          }
+
+          worker ??= await createOcrWorker()
+          const canvasFactory = pdf.canvasFactory as Parameters<typeof ocrPage>[1]
+          pages.push(await ocrPage(page, canvasFactory, worker))
+          ocrPages.push(pageNumber)
+        } finally {
+          page.cleanup()
+        }
+      }
+    } finally {
+      await worker?.terminate()
+      await pdf.destroy()
+    }
+
+    logger.info('Local text extraction completed', {
+      documentId: input.documentId,
+      pageCount: pages.length,
+      ocrPageCount: ocrPages.length,
+      ...(ocrPages.length > 0 ? { ocrPages: ocrPages.join(',') } : {}),
+      durationMs: Date.now() - startTime
+    })
+
+    const usedOcr = ocrPages.length > 0
+    return {
+      segments: [{ document: toDocumentAIDocument(pages), pageOffset: 0 }],
+      processor: {
+        id: usedOcr ? 'pdfjs+tesseract' : 'pdfjs',
+        name: usedOcr ? 'PDF text layer with Tesseract OCR' : 'PDF text layer',
+        type: usedOcr ? 'LOCAL_TEXT_LAYER_OCR' : 'LOCAL_TEXT_LAYER'
+      }
+    }
+  }
+
+  return {
+    name: 'local',
+    extract
+  }
+}
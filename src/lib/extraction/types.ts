@@ -0,0 +1,73 @@
+import type { DocumentAIDocument } from '@/types/external-apis'
+
+export type ExtractionProviderName = 'document-ai' | 'local'
+
+export interface ExtractionInput {
+  documentId: string
+  filename: string
+  fileSize: number
+  /** Raw PDF bytes */
+  content: ArrayBuffer
+  estimatedPages: number
+}
+
+/**
+ * Extracted pages in Document AI's layout format
+ * Providers that split a PDF return one segment per part; pageOffset is the
+ * number of pages before the segment's first page.
+ */
+export interface ExtractedSegment {
+  document: DocumentAIDocument
+  pageOffset: number
+}
+
+export interface ExtractionResult {
+  segments: ExtractedSegment[]
+  /** Recorded in the processing metrics */
+  processor: {
+    id: string
+    name: string
+    type: string
+  }
+}
+
+/**
+ * A long-running extraction, recorded on the job between cron ticks
+ */
+export interface BatchExtractionOperation {
+  provider: ExtractionProviderName
+  operationName: string
+  /** Staged copy of the PDF */
+  inputUri: string
+  /** Prefix the sharded output is written under */
+  outputUri: string
+  processor: ExtractionResult['processor']
+}
+
+export type BatchExtractionStatus =
+  | { state: 'running' }
+  | { state: 'succeeded' }
+  | { state: 'failed'; message: string }
+
+/**
+ * Asynchronous extraction for documents too large for one online request
+ */
+export interface BatchExtraction {
+  /** False when no staging location is configured; callers fall back to extract() */
+  isConfigured(): boolean
+  start(input: ExtractionInput): Promise<BatchExtractionOperation>
+  check(operation: BatchExtractionOperation): Promise<BatchExtractionStatus>
+  /** Read the finished operation's output */
+  collect(operation: BatchExtractionOperation): Promise<ExtractionResult>
+  /** Stop the operation if it is still running */
+  cancel(operation: BatchExtractionOperation): Promise<void>
+  /** Delete the staged input and the output */
+  cleanup(operation: BatchExtractionOperation): Promise<void>
+}
+
+export interface ExtractionProvider {
+  readonly name: ExtractionProviderName
+  extract(input: ExtractionInput): Promise<ExtractionResult>
+  /** Only providers backed by an asynchronous API support batch extraction */
+  readonly batch?: BatchExtraction
+}
@@ -1,3 +1,5 @@
+import type { ExclusionRangeType } from '@/types/external-apis'
+
 // Business metadata constants for consistent options across the application
 
 export const LAW_FIRM_OPTIONS = [
@@ -521,6 +523,15 @@ export const JURISDICTION_OPTIONS = [
   { value: 'No Info', label: 'No Info' }
 ] as const
 
+export const EXCLUSION_RANGE_TYPE_OPTIONS: ReadonlyArray<{ value: ExclusionRangeType; label: string }> = [
+  { value: 'subscription_agreement', label: 'Subscription Agreement' },
+  { value: 'cover', label: 'Cover Letter' },
+  { value: 'exhibit', label: 'Side-Letter Exhibit' },
+  { value: 'signature_pages', label: 'Signature Pages' },
+  { value: 'tax_forms', label: 'Tax Forms' },
+  { value: 'custom', label: 'Custom' }
+]
+
 // Type exports for TypeScript
 export type LawFirmOption = typeof LAW_FIRM_OPTIONS[number]['value']
 export type FundManagerOption = typeof FUND_MANAGER_OPTIONS[number]['value']
@@ -534,6 +545,8 @@ export const DEFAULT_METADATA = {
   fund_admin: '' as FundAdminOption | '',
   jurisdiction: '' as JurisdictionOption | '',
   subscription_agreement_skipped: false,
+  // Detect the subscription agreement span from the processed text unless a range is typed in
+  subscription_agreement_auto_detect: true,
   subscription_agreement_start_page: null,
   subscription_agreement_end_page: null
 }
@@ -0,0 +1,75 @@
+/**
+ * PDF Highlighting
+ * Draws translucent boxes over chunk regions on a copy of the original PDF
+ * for the dual-pane matched-section viewer
+ */
+
+import { PDFDocument, rgb, type PDFPage } from 'pdf-lib'
+import type { ChunkRegion } from '@/lib/chunking/chunk-regions'
+
+const HIGHLIGHT_COLOR = rgb(1, 0.85, 0.1)
+const HIGHLIGHT_BORDER = rgb(0.9, 0.6, 0)
+// Small padding so highlights do not clip the first/last glyphs
+const REGION_PADDING = 0.004
+
+/**
+ * Map a normalized, top-left-origin region (as rendered) into PDF user space
+ * Document AI coordinates follow the displayed page, so /Rotate is undone here.
+ */
+function toPdfRect(page: PDFPage, region: ChunkRegion) {
+  const { x: originX, y: originY, width, height } = page.getMediaBox()
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360
+
+  const x0 = Math.max(0, region.x0 - REGION_PADDING)
+  const y0 = Math.max(0, region.y0 - REGION_PADDING)
+  const x1 = Math.min(1, region.x1 + REGION_PADDING)
+  const y1 = Math.min(1, region.y1 + REGION_PADDING)
+
+  const toUserSpace = (u: number, v: number) => {
+    switch (rotation) {
+      case 90:
+        return { x: v * width, y: u * height }
+      case 180:
+        return { x: (1 - u) * width, y: v * height }
+      case 270:
+        return { x: (1 - v) * width, y: (1 - u) * height }
+      default:
+        return { x: u * width, y: (1 - v) * height }
+    }
+  }
+
+  const a = toUserSpace(x0, y0)
+  const b = toUserSpace(x1, y1)
+
+  return {
+    x: originX + Math.min(a.x, b.x),
+    y: originY + Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y)
+  }
+}
+
+/**
+ * Return a copy of the PDF with the given regions highlighted
+ * Regions pointing past the last page are ignored.
+ */
+export async function highlightPdfRegions(pdfBytes: ArrayBuffer | Uint8Array, regions: ChunkRegion[]): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true })
+  const pages = pdfDoc.getPages()
+
+  for (const region of regions) {
+    const page = pages[region.pageNumber - 1]
+    if (!page) continue
+
+    page.drawRectangle({
+      ...toPdfRect(page, region),
+      color: HIGHLIGHT_COLOR,
+      opacity: 0.3,
+      borderColor: HIGHLIGHT_BORDER,
+      borderOpacity: 0.6,
+      borderWidth: 0.75
+    })
+  }
+
+  return pdfDoc.save()
+}
@@ -1,25 +1,48 @@
+/**
+ * Pinecone Cleanup Queue
+ * Vector deletions are written to pinecone_cleanup_tasks before they run, so
+ * a cold start or deploy no longer loses them. A task is attempted as soon as
+ * it is queued; failures are retried by the process-jobs cron with exponential
+ * backoff, and tasks out of retries are kept as 'dead' until an admin retries
+ * them.
+ */
+
 import { deleteDocumentFromPinecone } from '@/lib/pinecone'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
 import { logger } from '@/lib/logger'
 
-type CleanupTask = {
-  documentId: string
-  attempt: number
-  enqueuedAt: number
-  lastError?: string
-  vectorIds?: string[]
-}
+export type PineconeCleanupTaskStatus = 'pending' | 'dead'
 
-type CleanupFailure = {
-  documentId: string
+export interface PineconeCleanupTask {
+  id: string
+  document_id: string
+  vector_ids: string[] | null
+  status: PineconeCleanupTaskStatus
   attempts: number
-  error: string
-  failedAt: number
+  next_run_at: string
+  last_error: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PineconeCleanupRunSummary {
+  processed: number
+  succeeded: number
+  failed: number
 }
 
+type TaskOutcome = 'succeeded' | 'retrying' | 'dead'
+
+const TASK_COLUMNS = 'id, document_id, vector_ids, status, attempts, next_run_at, last_error, created_at, updated_at'
+
 const DEFAULT_MAX_RETRIES = 3
 const DEFAULT_BACKOFF_MS = 2000
-const MAX_BACKOFF_MS = 60000
-const FAILURE_HISTORY_LIMIT = 10
+const DEFAULT_TASKS_PER_INVOCATION = 20
+// Retries are picked up by the cron, so the backoff can grow well past a minute
+const MAX_BACKOFF_MS = 60 * 60 * 1000
+// A claimed task is hidden from other invocations this long; a run that dies mid-task is retried after it
+const CLAIM_LEASE_MS = 5 * 60 * 1000
+const DEAD_LETTER_PREVIEW_LIMIT = 10
 
 const parseEnvInt = (key: string, fallback: number) => {
   const value = process.env[key]
@@ -30,149 +53,324 @@ const parseEnvInt = (key: string, fallback: number) => {
 
 const maxRetries = parseEnvInt('PINECONE_DELETE_MAX_RETRIES', DEFAULT_MAX_RETRIES)
 const baseBackoffMs = parseEnvInt('PINECONE_DELETE_BACKOFF_MS', DEFAULT_BACKOFF_MS)
+const tasksPerInvocation = parseEnvInt('PINECONE_CLEANUP_TASKS_PER_INVOCATION', DEFAULT_TASKS_PER_INVOCATION)
 
-const queue: CleanupTask[] = []
-const pendingTasks = new Map<string, CleanupTask>()
-const failureHistory: CleanupFailure[] = []
+const fromNow = (ms: number) => new Date(Date.now() + ms).toISOString()
 
-let processing = false
-let activeTask: CleanupTask | null = null
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
 
-const scheduleProcessing = () => {
-  if (!processing) {
-    void processQueue()
+/**
+ * Attempt one claimed task
+ * The row is matched on the `updated_at` it was claimed with, so a newer
+ * request for the same document (which resets the row) is never overwritten.
+ */
+const runTask = async (task: PineconeCleanupTask): Promise<TaskOutcome> => {
+  const hasPrefetchedIds = Array.isArray(task.vector_ids) && task.vector_ids.length > 0
+
+  let failure: string | null = null
+  try {
+    await deleteDocumentFromPinecone(task.document_id, hasPrefetchedIds ? task.vector_ids ?? undefined : undefined)
+  } catch (error) {
+    failure = errorMessage(error)
   }
-}
 
-const processQueue = async () => {
-  processing = true
+  const attempts = task.attempts + 1
+  const supabase = await createServiceClient()
   try {
-    while (queue.length > 0) {
-      const task = queue.shift()
-      if (!task) {
-        continue
+    if (failure === null) {
+      const { error } = await supabase
+        .from('pinecone_cleanup_tasks')
+        .delete()
+        .eq('id', task.id)
+        .eq('updated_at', task.updated_at)
+
+      if (error) {
+        logger.warn('Failed to remove completed Pinecone cleanup task', { taskId: task.id, error: error.message })
       }
 
-      activeTask = task
-      await handleTask(task)
-      activeTask = null
-    }
-  } finally {
-    processing = false
-    activeTask = null
-    if (queue.length > 0) {
-      scheduleProcessing()
+      logger.info('Pinecone cleanup completed', {
+        documentId: task.document_id,
+        attempts,
+        vectorIdsProvided: hasPrefetchedIds ? task.vector_ids?.length : 0
+      })
+      return 'succeeded'
     }
-  }
-}
 
-const handleTask = async (task: CleanupTask) => {
-  try {
-    const hasPrefetchedIds = Array.isArray(task.vectorIds) && task.vectorIds.length > 0
-    if (hasPrefetchedIds) {
-      await deleteDocumentFromPinecone(task.documentId, task.vectorIds)
-    } else {
-      await deleteDocumentFromPinecone(task.documentId)
-    }
-    pendingTasks.delete(task.documentId)
-    logger.info('Pinecone cleanup completed', {
-      documentId: task.documentId,
-      attempts: task.attempt + 1,
-      vectorIdsProvided: hasPrefetchedIds ? task.vectorIds?.length : 0,
-    })
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error)
-    task.attempt += 1
-    task.lastError = message
-
-    if (task.attempt > maxRetries) {
-      pendingTasks.delete(task.documentId)
-      failureHistory.push({
-        documentId: task.documentId,
-        attempts: task.attempt,
-        error: message,
-        failedAt: Date.now(),
+    const exhausted = attempts > maxRetries
+    const delayMs = Math.min(baseBackoffMs * Math.pow(2, attempts - 1), MAX_BACKOFF_MS)
+
+    const { error } = await supabase
+      .from('pinecone_cleanup_tasks')
+      .update({
+        status: exhausted ? 'dead' : 'pending',
+        attempts,
+        last_error: failure,
+        next_run_at: fromNow(exhausted ? 0 : delayMs),
+        updated_at: new Date().toISOString()
       })
+      .eq('id', task.id)
+      .eq('updated_at', task.updated_at)
 
-      while (failureHistory.length > FAILURE_HISTORY_LIMIT) {
-        failureHistory.shift()
-      }
-      logger.error(
-        'Pinecone cleanup failed after maximum retries',
-        undefined,
-        {
-          documentId: task.documentId,
-          attempts: task.attempt,
-          errorMessage: message,
-        },
-      )
-      return
+    if (error) {
+      // The lease expires on its own, so the task is still retried
+      logger.warn('Failed to record Pinecone cleanup failure', { taskId: task.id, error: error.message })
     }
 
-    const delayMs = Math.min(
-      baseBackoffMs * Math.pow(2, task.attempt - 1),
-      MAX_BACKOFF_MS,
-    )
+    if (exhausted) {
+      logger.error('Pinecone cleanup failed after maximum retries', undefined, {
+        documentId: task.document_id,
+        attempts,
+        errorMessage: failure
+      })
+      return 'dead'
+    }
 
     logger.warn('Pinecone cleanup scheduled for retry', {
-      documentId: task.documentId,
-      attempts: task.attempt,
+      documentId: task.document_id,
+      attempts,
       retryInMs: delayMs,
-      error: message,
+      error: failure
     })
-
-    setTimeout(() => {
-      queue.push(task)
-      scheduleProcessing()
-    }, delayMs)
+    return 'retrying'
+  } finally {
+    releaseServiceClient(supabase)
   }
 }
 
-export const queuePineconeDeletion = (documentId: string, vectorIds?: string[]) => {
+/**
+ * Queue the deletion of a document's vectors and attempt it right away
+ * Pass `vectorIds` when the document's chunks are about to be deleted, since
+ * the IDs are otherwise looked up from document_embeddings. Never throws: if
+ * the task cannot be written, the deletion is attempted once without it.
+ */
+export async function queuePineconeDeletion(documentId: string, vectorIds?: string[]): Promise<void> {
   if (!documentId) {
     return
   }
 
-  const existingTask = pendingTasks.get(documentId)
-  if (existingTask) {
-    // Update timestamp to reflect the latest request
-    existingTask.enqueuedAt = Date.now()
-    if (Array.isArray(vectorIds) && vectorIds.length > 0) {
-      existingTask.vectorIds = vectorIds
+  const hasVectorIds = Array.isArray(vectorIds) && vectorIds.length > 0
+  let task: PineconeCleanupTask | null = null
+
+  const supabase = await createServiceClient()
+  try {
+    // A repeated request resets the task; IDs from an earlier request are kept unless new ones are given
+    const { data, error } = await supabase
+      .from('pinecone_cleanup_tasks')
+      .upsert(
+        {
+          document_id: documentId,
+          ...(hasVectorIds ? { vector_ids: [...vectorIds] } : {}),
+          status: 'pending',
+          attempts: 0,
+          last_error: null,
+          next_run_at: fromNow(CLAIM_LEASE_MS),
+          updated_at: new Date().toISOString()
+        },
+        { onConflict: 'document_id' }
+      )
+      .select(TASK_COLUMNS)
+      .single<PineconeCleanupTask>()
+
+    if (error) {
+      throw new Error(error.message)
     }
+    task = data
+  } catch (error) {
+    logger.error('Failed to queue Pinecone cleanup task; deleting vectors directly', error as Error, { documentId })
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  if (task) {
+    void runTask(task).catch(error => {
+      logger.error('Pinecone cleanup task crashed', error as Error, { documentId })
+    })
     return
   }
 
-  const task: CleanupTask = {
-    documentId,
-    attempt: 0,
-    enqueuedAt: Date.now(),
-    vectorIds: Array.isArray(vectorIds) && vectorIds.length > 0 ? [...vectorIds] : undefined,
+  void deleteDocumentFromPinecone(documentId, hasVectorIds ? vectorIds : undefined).catch(error => {
+    logger.error('Unqueued Pinecone cleanup failed', error as Error, { documentId })
+  })
+}
+
+/**
+ * Run due cleanup tasks (called by the process-jobs cron)
+ * Each task is claimed by pushing its next_run_at past a lease, so
+ * overlapping invocations never run the same task twice.
+ */
+export async function processPineconeCleanupTasks(limit: number = tasksPerInvocation): Promise<PineconeCleanupRunSummary> {
+  const summary: PineconeCleanupRunSummary = { processed: 0, succeeded: 0, failed: 0 }
+  if (limit <= 0) {
+    return summary
+  }
+
+  const claimed: PineconeCleanupTask[] = []
+  const supabase = await createServiceClient()
+  try {
+    const { data: dueTasks, error } = await supabase
+      .from('pinecone_cleanup_tasks')
+      .select(TASK_COLUMNS)
+      .eq('status', 'pending')
+      .lte('next_run_at', new Date().toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(limit)
+      .returns<PineconeCleanupTask[]>()
+
+    if (error) {
+      throw new Error(`Failed to load Pinecone cleanup tasks: ${error.message}`)
+    }
+
+    for (const task of dueTasks ?? []) {
+      const { data: claim, error: claimError } = await supabase
+        .from('pinecone_cleanup_tasks')
+        .update({ next_run_at: fromNow(CLAIM_LEASE_MS), updated_at: new Date().toISOString() })
+        .eq('id', task.id)
+        .eq('updated_at', task.updated_at)
+        .select(TASK_COLUMNS)
+        .maybeSingle<PineconeCleanupTask>()
+
+      if (claimError) {
+        logger.warn('Failed to claim Pinecone cleanup task', { taskId: task.id, error: claimError.message })
+        continue
+      }
+      // Claimed (or reset) by someone else in the meantime
+      if (claim) {
+        claimed.push(claim)
+      }
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  for (const task of claimed) {
+    const outcome = await runTask(task)
+    summary.processed += 1
+    if (outcome === 'succeeded') {
+      summary.succeeded += 1
+    } else {
+      summary.failed += 1
+    }
+  }
+
+  if (summary.processed > 0) {
+    logger.info('Processed Pinecone cleanup tasks', { ...summary })
+  }
+
+  return summary
+}
+
+/**
+ * Give a task a fresh set of attempts and run it now
+ * Used for dead-lettered tasks from the admin console.
+ *
+ * @returns The outcome, or null when the task does not exist
+ */
+export async function retryPineconeCleanupTask(taskId: string): Promise<TaskOutcome | null> {
+  const supabase = await createServiceClient()
+  let task: PineconeCleanupTask | null
+  try {
+    const { data, error } = await supabase
+      .from('pinecone_cleanup_tasks')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        next_run_at: fromNow(CLAIM_LEASE_MS),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', taskId)
+      .select(TASK_COLUMNS)
+      .maybeSingle<PineconeCleanupTask>()
+
+    if (error) {
+      throw new Error(`Failed to reset Pinecone cleanup task: ${error.message}`)
+    }
+    task = data
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  if (!task) {
+    return null
   }
 
-  pendingTasks.set(documentId, task)
-  queue.push(task)
-  scheduleProcessing()
+  logger.info('Retrying Pinecone cleanup task', { taskId, documentId: task.document_id })
+  return runTask(task)
+}
+
+/**
+ * Tasks that ran out of retries, most recent failure first
+ */
+export async function listDeadLetteredPineconeCleanupTasks(
+  { limit, offset }: { limit: number; offset: number }
+): Promise<{ tasks: PineconeCleanupTask[]; total: number }> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error, count } = await supabase
+      .from('pinecone_cleanup_tasks')
+      .select(TASK_COLUMNS, { count: 'exact' })
+      .eq('status', 'dead')
+      .order('updated_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+      .returns<PineconeCleanupTask[]>()
+
+    if (error) {
+      throw new Error(`Failed to load dead-lettered Pinecone cleanup tasks: ${error.message}`)
+    }
+
+    return { tasks: data ?? [], total: count ?? 0 }
+  } finally {
+    releaseServiceClient(supabase)
+  }
 }
 
-export const getPineconeCleanupMetrics = () => {
-  return {
-    queueDepth: queue.length,
-    pendingDocuments: pendingTasks.size,
-    isProcessing: processing,
-    activeTask: activeTask
-      ? {
-          documentId: activeTask.documentId,
-          attempt: activeTask.attempt,
-          enqueuedAt: activeTask.enqueuedAt,
-          lastError: activeTask.lastError,
-        }
-      : null,
-    retryConfig: {
-      maxRetries,
-      baseBackoffMs,
-      maxBackoffMs: MAX_BACKOFF_MS,
-    },
-    recentFailures: failureHistory.slice(-FAILURE_HISTORY_LIMIT),
+export async function getPineconeCleanupMetrics() {
+  const now = new Date().toISOString()
+  const supabase = await createServiceClient()
+  try {
+    const [pending, due, oldest] = await Promise.all([
+      supabase.from('pinecone_cleanup_tasks').select('id', { count: 'exact', head: true }).eq('status', 'pending'),
+      supabase
+        .from('pinecone_cleanup_tasks')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'pending')
+        .lte('next_run_at', now),
+      supabase
+        .from('pinecone_cleanup_tasks')
+        .select('created_at')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .returns<Array<{ created_at: string }>>()
+    ])
+
+    const queryError = pending.error ?? due.error ?? oldest.error
+    if (queryError) {
+      throw new Error(`Failed to load Pinecone cleanup metrics: ${queryError.message}`)
+    }
+
+    const deadLettered = await listDeadLetteredPineconeCleanupTasks({ limit: DEAD_LETTER_PREVIEW_LIMIT, offset: 0 })
+
+    return {
+      pendingTasks: pending.count ?? 0,
+      dueTasks: due.count ?? 0,
+      oldestPendingAt: oldest.data?.[0]?.created_at ?? null,
+      deadLetteredTasks: deadLettered.total,
+      retryConfig: {
+        maxRetries,
+        baseBackoffMs,
+        maxBackoffMs: MAX_BACKOFF_MS,
+        tasksPerInvocation
+      },
+      deadLettered: deadLettered.tasks.map(task => ({
+        id: task.id,
+        documentId: task.document_id,
+        attempts: task.attempts,
+        lastError: task.last_error,
+        failedAt: task.updated_at,
+        retryEndpoint: `/api/admin/pinecone-cleanup/${task.id}/retry`
+      }))
+    }
+  } finally {
+    releaseServiceClient(supabase)
   }
 }
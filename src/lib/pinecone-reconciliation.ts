@@ -0,0 +1,845 @@
+/**
+ * Pinecone Reconciliation
+ * Checks that the active Pinecone namespace matches Supabase and, in repair
+ * mode, fixes what it finds:
+ * - chunks in document_embeddings without a vector: re-upserted from the stored embedding
+ * - chunk vectors of a document that are no longer stored, and vectors whose
+ *   document no longer exists: deleted
+ * - vectors whose owner or business metadata (law_firm, ...) differs from the
+ *   document row: metadata rewritten
+ * - completed documents without a centroid: centroid recomputed
+ *
+ * A run walks completed documents in id order, then sweeps every vector ID in
+ * the namespace for deleted documents. Like re-embedding migrations, each
+ * worker invocation advances the run a batch at a time from its cursors.
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { getActiveEmbeddingConfig } from '@/lib/embeddings'
+import { getPineconeIndex, indexVectorsInPinecone, updateDocumentMetadataInPinecone } from '@/lib/pinecone'
+import {
+  buildChunkVectorMetadata,
+  computeAndStoreCentroid,
+  resolveVectorOwner
+} from '@/lib/document-processing'
+import { logger } from '@/lib/logger'
+import type { BusinessMetadata } from '@/types/external-apis'
+
+export type ReconciliationMode = 'dry_run' | 'repair'
+
+export type ReconciliationStatus = 'queued' | 'processing' | 'completed' | 'failed'
+
+export type ReconciliationIssueType =
+  | 'missing_vectors'     // Stored chunks without a vector
+  | 'stale_vectors'       // Chunk vectors of an existing document that are no longer stored
+  | 'orphan_vectors'      // Vectors whose document no longer exists
+  | 'metadata_drift'      // Vector metadata differs from the document row
+  | 'missing_centroid'
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType
+  document_id: string
+  vector_count?: number
+  /** Drifted metadata fields */
+  fields?: string[]
+  /** Repair runs only */
+  repaired?: boolean
+  error?: string
+}
+
+export interface PineconeReconciliationRun {
+  id: string
+  created_by: string | null
+  mode: ReconciliationMode
+  status: ReconciliationStatus
+  namespace: string
+  phase: 'documents' | 'vectors'
+  document_cursor: string | null
+  vector_cursor: string | null
+  documents_checked: number
+  vectors_scanned: number
+  missing_vectors: number
+  orphan_vectors: number
+  drifted_documents: number
+  missing_centroids: number
+  repaired_issues: number
+  failed_repairs: number
+  issues: ReconciliationIssue[]
+  error_message: string | null
+  created_at: string
+  updated_at: string
+  started_at: string | null
+  completed_at: string | null
+}
+
+export type PineconeReconciliationRunSummary = Omit<PineconeReconciliationRun, 'issues' | 'document_cursor' | 'vector_cursor'>
+
+/**
+ * Columns exposed in run lists (omits the issue list and cursors)
+ */
+const SUMMARY_COLUMNS =
+  'id, created_by, mode, status, namespace, phase, documents_checked, vectors_scanned, missing_vectors, orphan_vectors, drifted_documents, missing_centroids, repaired_issues, failed_repairs, error_message, created_at, updated_at, started_at, completed_at'
+
+// A processing run whose worker stopped updating it is reclaimed after this long
+const STALE_PROCESSING_MS = 15 * 60 * 1000
+
+const DEFAULT_INTERVAL_HOURS = 24
+
+// listPaginated returns at most 100 IDs per page
+const LIST_PAGE_SIZE = 99
+
+// Pages of the vector sweep per worker invocation
+const VECTOR_PAGES_PER_BATCH = 20
+
+// Pinecone fetches go in the URL, so IDs are fetched in small batches (see updateDocumentMetadataInPinecone)
+const FETCH_BATCH = 50
+
+// Vectors per document whose metadata is compared; a metadata update rewrites all of them
+const DRIFT_SAMPLE_SIZE = FETCH_BATCH
+
+// Rows per document_embeddings read when re-upserting
+const CHUNK_READ_BATCH = 100
+
+const DELETE_BATCH = 1000
+
+// Issues kept on the run for the report; the counters cover all of them
+const MAX_RECORDED_ISSUES = 500
+
+// Business fields the documents API keeps in sync on vectors, plus the owner fields
+const DRIFT_FIELDS = ['law_firm', 'fund_manager', 'fund_admin', 'jurisdiction'] as const
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const VECTOR_DOCUMENT_PATTERN = /^(.+?)_(?:chunk|page)_/
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+const parseVector = (value: unknown): number[] | null => {
+  let parsed = value
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed)
+    } catch {
+      return null
+    }
+  }
+  return Array.isArray(parsed) && parsed.every(item => typeof item === 'number') ? parsed : null
+}
+
+interface CompletedDocument {
+  id: string
+  filename: string | null
+  metadata: BusinessMetadata | null
+  user_id: string | null
+  workspace_id: string | null
+}
+
+/**
+ * Findings and repairs of the current batch, written back to the run at the end of it
+ */
+class RunTally {
+  readonly counters: Pick<
+    PineconeReconciliationRun,
+    | 'documents_checked'
+    | 'vectors_scanned'
+    | 'missing_vectors'
+    | 'orphan_vectors'
+    | 'drifted_documents'
+    | 'missing_centroids'
+    | 'repaired_issues'
+    | 'failed_repairs'
+  >
+  readonly issues: ReconciliationIssue[]
+
+  constructor(run: PineconeReconciliationRun) {
+    this.counters = {
+      documents_checked: run.documents_checked,
+      vectors_scanned: run.vectors_scanned,
+      missing_vectors: run.missing_vectors,
+      orphan_vectors: run.orphan_vectors,
+      drifted_documents: run.drifted_documents,
+      missing_centroids: run.missing_centroids,
+      repaired_issues: run.repaired_issues,
+      failed_repairs: run.failed_repairs
+    }
+    this.issues = [...(run.issues ?? [])]
+  }
+
+  /**
+   * Record an issue; with `repair`, run it and record the outcome
+   */
+  async record(issue: ReconciliationIssue, repair?: () => Promise<void>): Promise<void> {
+    if (repair) {
+      try {
+        await repair()
+        issue.repaired = true
+        this.counters.repaired_issues += 1
+      } catch (error) {
+        issue.repaired = false
+        issue.error = errorMessage(error)
+        this.counters.failed_repairs += 1
+        logger.warn('Pinecone reconciliation repair failed', {
+          type: issue.type,
+          documentId: issue.document_id,
+          error: issue.error
+        })
+      }
+    }
+
+    if (this.issues.length < MAX_RECORDED_ISSUES) {
+      this.issues.push(issue)
+    }
+  }
+}
+
+/**
+ * Queue a reconciliation run against the active namespace
+ * Fails when another run is queued or processing (unique index).
+ */
+export async function createReconciliationRun(input: {
+  userId: string | null
+  mode: ReconciliationMode
+}): Promise<PineconeReconciliationRunSummary> {
+  const { namespace } = await getActiveEmbeddingConfig()
+
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('pinecone_reconciliation_runs')
+      .insert({
+        created_by: input.userId,
+        mode: input.mode,
+        status: 'queued',
+        namespace
+      })
+      .select(SUMMARY_COLUMNS)
+      .single<PineconeReconciliationRunSummary>()
+
+    if (error || !data) {
+      throw new Error(`Failed to queue Pinecone reconciliation: ${error?.message ?? 'no row returned'}`)
+    }
+
+    logger.info('Pinecone reconciliation queued', {
+      runId: data.id,
+      mode: input.mode,
+      userId: input.userId ?? 'scheduled',
+      namespace
+    })
+
+    return data
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Most recent runs, newest first
+ */
+export async function listReconciliationRuns(limit = 10): Promise<PineconeReconciliationRunSummary[]> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('pinecone_reconciliation_runs')
+      .select(SUMMARY_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+      .returns<PineconeReconciliationRunSummary[]>()
+
+    if (error) {
+      throw new Error(`Failed to list Pinecone reconciliation runs: ${error.message}`)
+    }
+
+    return data ?? []
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+export async function getReconciliationRun(runId: string): Promise<PineconeReconciliationRun | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('pinecone_reconciliation_runs')
+      .select('*')
+      .eq('id', runId)
+      .maybeSingle<PineconeReconciliationRun>()
+
+    if (error) {
+      throw new Error(`Failed to load Pinecone reconciliation run: ${error.message}`)
+    }
+
+    return data
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Trigger the reconciliation worker without waiting for it
+ */
+export function dispatchReconciliationWorker(requestUrl: string): void {
+  const cronSecret = process.env['CRON_SECRET']
+
+  if (!cronSecret) {
+    logger.warn('CRON_SECRET not set; Pinecone reconciliation will wait for the next scheduled worker run')
+    return
+  }
+
+  try {
+    const cronUrl = new URL('/api/cron/reconcile-pinecone', requestUrl)
+    fetch(cronUrl.toString(), {
+      method: 'GET',
+      headers: {
+        authorization: `Bearer ${cronSecret}`,
+        'user-agent': 'PineconeReconciliationAutoTrigger'
+      }
+    }).catch(error => {
+      logger.warn('Pinecone reconciliation worker trigger failed', { error: errorMessage(error) })
+    })
+  } catch (error) {
+    logger.warn('Failed to construct Pinecone reconciliation worker URL', { error: errorMessage(error) })
+  }
+}
+
+/**
+ * Find the run to advance: the queued one, or a processing one whose worker died
+ */
+export async function findNextReconciliationRunId(): Promise<string | null> {
+  const supabase = await createServiceClient()
+
+  try {
+    const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString()
+    const { data, error } = await supabase
+      .from('pinecone_reconciliation_runs')
+      .select('id')
+      .or(`status.eq.queued,and(status.eq.processing,updated_at.lt.${staleBefore})`)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      throw new Error(`Failed to find queued Pinecone reconciliation runs: ${error.message}`)
+    }
+
+    return data?.[0]?.id ?? null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Queue a scheduled run when the last one is older than
+ * PINECONE_RECONCILE_INTERVAL_HOURS (0 turns scheduled runs off)
+ * Scheduled runs only report unless PINECONE_RECONCILE_AUTO_REPAIR=true.
+ *
+ * @returns The new run's id, or null when none is due
+ */
+export async function scheduleReconciliationRun(): Promise<string | null> {
+  const configured = Number(process.env['PINECONE_RECONCILE_INTERVAL_HOURS'])
+  const intervalHours = process.env['PINECONE_RECONCILE_INTERVAL_HOURS'] && Number.isFinite(configured) && configured >= 0
+    ? configured
+    : DEFAULT_INTERVAL_HOURS
+  if (intervalHours === 0) {
+    return null
+  }
+
+  const [latest] = await listReconciliationRuns(1)
+  if (latest) {
+    if (latest.status === 'queued' || latest.status === 'processing') {
+      return null
+    }
+    if (Date.now() - new Date(latest.created_at).getTime() < intervalHours * 60 * 60 * 1000) {
+      return null
+    }
+  }
+
+  try {
+    const run = await createReconciliationRun({
+      userId: null,
+      mode: process.env['PINECONE_RECONCILE_AUTO_REPAIR'] === 'true' ? 'repair' : 'dry_run'
+    })
+    return run.id
+  } catch (error) {
+    // An admin started a run in the meantime (single-active index)
+    logger.warn('Scheduled Pinecone reconciliation not queued', { error: errorMessage(error) })
+    return null
+  }
+}
+
+/**
+ * Claim a run and advance it: up to `documentLimit` documents, or a few
+ * pages of the vector sweep once every document has been checked
+ *
+ * @returns The run status after this batch, or null if it was not claimable
+ */
+export async function processReconciliationBatch(
+  runId: string,
+  documentLimit: number
+): Promise<ReconciliationStatus | null> {
+  const run = await claimRun(runId)
+  if (!run) {
+    return null
+  }
+
+  const tally = new RunTally(run)
+
+  try {
+    // Missing vectors are re-upserted from the stored (active model) embeddings; a migration switch mid-run
+    // would write them into a namespace of another model
+    const { namespace } = await getActiveEmbeddingConfig()
+    if (namespace !== run.namespace) {
+      throw new Error('The active Pinecone namespace changed during the run; start a new run')
+    }
+
+    if (run.phase === 'documents') {
+      const documents = await loadCompletedDocuments(run.document_cursor, documentLimit)
+      const withoutCentroid = await findDocumentsWithoutCentroid(documents.map(document => document.id))
+
+      for (const document of documents) {
+        await checkDocument(run, document, withoutCentroid.has(document.id), tally)
+        tally.counters.documents_checked += 1
+      }
+
+      const lastDocument = documents[documents.length - 1]
+      await updateRun(runId, {
+        ...tally.counters,
+        issues: tally.issues,
+        document_cursor: lastDocument?.id ?? run.document_cursor,
+        ...(documents.length < documentLimit ? { phase: 'vectors' } : {}),
+        status: 'queued'
+      })
+      return 'queued'
+    }
+
+    const nextToken = await sweepVectors(run, tally)
+    if (nextToken) {
+      await updateRun(runId, { ...tally.counters, issues: tally.issues, vector_cursor: nextToken, status: 'queued' })
+      return 'queued'
+    }
+
+    await updateRun(runId, {
+      ...tally.counters,
+      issues: tally.issues,
+      vector_cursor: null,
+      status: 'completed',
+      completed_at: new Date().toISOString()
+    })
+
+    const { counters } = tally
+    const found = counters.missing_vectors + counters.orphan_vectors + counters.drifted_documents + counters.missing_centroids
+    const summary = { runId, mode: run.mode, ...counters }
+    if (found > 0 && run.mode === 'dry_run') {
+      logger.warn('Pinecone reconciliation found inconsistencies', summary)
+    } else {
+      logger.info('Pinecone reconciliation completed', summary)
+    }
+
+    return 'completed'
+  } catch (error) {
+    logger.error('Pinecone reconciliation failed', error instanceof Error ? error : new Error(String(error)), { runId })
+
+    await updateRun(runId, {
+      status: 'failed',
+      error_message: errorMessage(error),
+      completed_at: new Date().toISOString()
+    })
+
+    return 'failed'
+  }
+}
+
+async function claimRun(runId: string): Promise<PineconeReconciliationRun | null> {
+  const supabase = await createServiceClient()
+
+  try {
+    const { data: current, error: readError } = await supabase
+      .from('pinecone_reconciliation_runs')
+      .select('id, status, updated_at, started_at')
+      .eq('id', runId)
+      .maybeSingle<{ id: string; status: ReconciliationStatus; updated_at: string; started_at: string | null }>()
+
+    if (readError || !current) {
+      return null
+    }
+
+    const isStale = current.status === 'processing' &&
+      Date.now() - new Date(current.updated_at).getTime() > STALE_PROCESSING_MS
+    if (current.status !== 'queued' && !isStale) {
+      return null
+    }
+
+    // Conditional update on the observed status/updated_at acts as the lock
+    const { data, error } = await supabase
+      .from('pinecone_reconciliation_runs')
+      .update({
+        status: 'processing',
+        started_at: current.started_at ?? new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', runId)
+      .eq('status', current.status)
+      .eq('updated_at', current.updated_at)
+      .select('*')
+      .returns<PineconeReconciliationRun[]>()
+
+    if (error) {
+      logger.error('Failed to claim Pinecone reconciliation run', new Error(error.message), { runId })
+      return null
+    }
+
+    return data?.[0] ?? null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+async function updateRun(runId: string, fields: Record<string, unknown>): Promise<void> {
+  const supabase = await createServiceClient()
+
+  try {
+    const { error } = await supabase
+      .from('pinecone_reconciliation_runs')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', runId)
+      .eq('status', 'processing')
+
+    if (error) {
+      // The run is reclaimed from its last cursor once it goes stale
+      logger.warn('Failed to update Pinecone reconciliation run', { runId, error: error.message })
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Next completed documents after `cursor`, in id order
+ */
+async function loadCompletedDocuments(cursor: string | null, limit: number): Promise<CompletedDocument[]> {
+  const supabase = await createServiceClient()
+  try {
+    let query = supabase
+      .from('documents')
+      .select('id, filename, metadata, user_id, workspace_id')
+      .eq('status', 'completed')
+
+    if (cursor) {
+      query = query.gt('id', cursor)
+    }
+
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .limit(limit)
+      .returns<CompletedDocument[]>()
+
+    if (error) {
+      throw new Error(`Failed to load documents for reconciliation: ${error.message}`)
+    }
+
+    return data ?? []
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+async function findDocumentsWithoutCentroid(documentIds: string[]): Promise<Set<string>> {
+  if (documentIds.length === 0) {
+    return new Set()
+  }
+
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id')
+      .in('id', documentIds)
+      .is('centroid_embedding', null)
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      throw new Error(`Failed to check document centroids: ${error.message}`)
+    }
+
+    return new Set((data ?? []).map(row => row.id))
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+async function loadStoredVectorIds(documentId: string): Promise<Map<string, number>> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('document_embeddings')
+      .select('vector_id, chunk_index')
+      .eq('document_id', documentId)
+      .range(0, 999999) // Override default 1000 row limit
+      .returns<Array<{ vector_id: string | null; chunk_index: number }>>()
+
+    if (error) {
+      throw new Error(`Failed to load stored chunks: ${error.message}`)
+    }
+
+    return new Map((data ?? []).map(row => [row.vector_id ?? `${documentId}_chunk_${row.chunk_index}`, row.chunk_index]))
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+async function listVectorIds(namespace: string, prefix: string): Promise<string[]> {
+  const index = await getPineconeIndex(namespace)
+  const ids: string[] = []
+  let paginationToken: string | undefined
+
+  do {
+    const response = await index.listPaginated({
+      prefix,
+      limit: LIST_PAGE_SIZE,
+      ...(paginationToken ? { paginationToken } : {})
+    })
+    ids.push(...(response.vectors ?? []).flatMap(vector => (vector.id ? [vector.id] : [])))
+    paginationToken = response.pagination?.next
+  } while (paginationToken)
+
+  return ids
+}
+
+async function deleteVectors(namespace: string, vectorIds: string[]): Promise<void> {
+  const index = await getPineconeIndex(namespace)
+  for (let i = 0; i < vectorIds.length; i += DELETE_BATCH) {
+    await index.deleteMany(vectorIds.slice(i, i + DELETE_BATCH))
+  }
+}
+
+/**
+ * Metadata every vector of the document should carry for the drift-checked fields
+ * Unset fields are '' - what the documents and workspace APIs write when clearing them.
+ */
+function expectedVectorMetadata(document: CompletedDocument): Record<string, string> {
+  const owner = resolveVectorOwner(document)
+  const metadata = (document.metadata ?? {}) as Record<string, unknown>
+  const expected: Record<string, string> = {
+    user_id: owner.userId ?? '',
+    workspace_id: owner.workspaceId ?? ''
+  }
+
+  for (const field of DRIFT_FIELDS) {
+    const value = metadata[field]
+    expected[field] = typeof value === 'string' ? value : ''
+  }
+
+  return expected
+}
+
+async function findDriftedFields(
+  namespace: string,
+  vectorIds: string[],
+  expected: Record<string, string>
+): Promise<string[]> {
+  if (vectorIds.length === 0) {
+    return []
+  }
+
+  const { records } = await (await getPineconeIndex(namespace)).fetch(vectorIds.slice(0, DRIFT_SAMPLE_SIZE))
+  const drifted = new Set<string>()
+
+  for (const record of Object.values(records ?? {})) {
+    const metadata = record.metadata ?? {}
+    for (const [field, value] of Object.entries(expected)) {
+      const actual = metadata[field]
+      const normalized = actual === undefined || actual === null ? '' : String(actual)
+      if (normalized !== value) {
+        drifted.add(field)
+      }
+    }
+  }
+
+  return [...drifted]
+}
+
+/**
+ * Re-upsert stored chunks from their Supabase embeddings
+ */
+async function reindexChunks(namespace: string, document: CompletedDocument, chunkIndexes: number[]): Promise<void> {
+  const owner = resolveVectorOwner(document)
+  const filename = document.filename ?? `${document.id}.pdf`
+  const businessMetadata = (document.metadata ?? {}) as BusinessMetadata
+
+  for (let i = 0; i < chunkIndexes.length; i += CHUNK_READ_BATCH) {
+    const supabase = await createServiceClient()
+    let rows: Array<{
+      vector_id: string | null
+      chunk_index: number
+      chunk_text: string
+      page_number: number | null
+      start_page_number: number | null
+      end_page_number: number | null
+      embedding: unknown
+    }>
+    try {
+      const { data, error } = await supabase
+        .from('document_embeddings')
+        .select('vector_id, chunk_index, chunk_text, page_number, start_page_number, end_page_number, embedding')
+        .eq('document_id', document.id)
+        .in('chunk_index', chunkIndexes.slice(i, i + CHUNK_READ_BATCH))
+        .returns<typeof rows>()
+
+      if (error) {
+        throw new Error(`Failed to load chunk embeddings: ${error.message}`)
+      }
+      rows = data ?? []
+    } finally {
+      releaseServiceClient(supabase)
+    }
+
+    const records = rows.map(row => {
+      const values = parseVector(row.embedding)
+      if (!values) {
+        throw new Error(`Chunk ${row.chunk_index} has no stored embedding; reprocess the document instead`)
+      }
+      return {
+        id: row.vector_id ?? `${document.id}_chunk_${row.chunk_index}`,
+        values,
+        metadata: buildChunkVectorMetadata(
+          document.id,
+          {
+            chunkIndex: row.chunk_index,
+            pageNumber: row.page_number ?? 0,
+            startPageNumber: row.start_page_number ?? row.page_number ?? 0,
+            endPageNumber: row.end_page_number ?? row.page_number ?? 0,
+            text: row.chunk_text
+          },
+          filename,
+          owner,
+          businessMetadata
+        )
+      }
+    })
+
+    await indexVectorsInPinecone(records, namespace)
+  }
+}
+
+async function checkDocument(
+  run: PineconeReconciliationRun,
+  document: CompletedDocument,
+  missingCentroid: boolean,
+  tally: RunTally
+): Promise<void> {
+  const repair = run.mode === 'repair'
+  const stored = await loadStoredVectorIds(document.id)
+  const indexed = new Set(await listVectorIds(run.namespace, `${document.id}_chunk_`))
+
+  const missing = [...stored.keys()].filter(id => !indexed.has(id))
+  const stale = [...indexed].filter(id => !stored.has(id))
+  const present = [...stored.keys()].filter(id => indexed.has(id))
+
+  if (missing.length > 0) {
+    tally.counters.missing_vectors += missing.length
+    await tally.record(
+      { type: 'missing_vectors', document_id: document.id, vector_count: missing.length },
+      repair ? () => reindexChunks(run.namespace, document, missing.map(id => stored.get(id)!)) : undefined
+    )
+  }
+
+  if (stale.length > 0) {
+    tally.counters.orphan_vectors += stale.length
+    await tally.record(
+      { type: 'stale_vectors', document_id: document.id, vector_count: stale.length },
+      repair ? () => deleteVectors(run.namespace, stale) : undefined
+    )
+  }
+
+  const expected = expectedVectorMetadata(document)
+  const driftedFields = await findDriftedFields(run.namespace, present, expected)
+  if (driftedFields.length > 0) {
+    tally.counters.drifted_documents += 1
+    await tally.record(
+      { type: 'metadata_drift', document_id: document.id, fields: driftedFields },
+      repair ? () => updateDocumentMetadataInPinecone(document.id, expected, run.namespace) : undefined
+    )
+  }
+
+  // Without stored chunks there is nothing to compute a centroid from; the document needs reprocessing
+  if (missingCentroid && stored.size > 0) {
+    tally.counters.missing_centroids += 1
+    await tally.record(
+      { type: 'missing_centroid', document_id: document.id },
+      repair
+        ? async () => {
+            if (!(await computeAndStoreCentroid(document.id, stored.size))) {
+              throw new Error('Centroid could not be computed')
+            }
+          }
+        : undefined
+    )
+  }
+}
+
+/**
+ * Sweep a few pages of the namespace for vectors whose document no longer exists
+ *
+ * @returns The pagination token to continue from, or null when the sweep is done
+ */
+async function sweepVectors(run: PineconeReconciliationRun, tally: RunTally): Promise<string | null> {
+  const index = await getPineconeIndex(run.namespace)
+  let paginationToken = run.vector_cursor ?? undefined
+
+  for (let page = 0; page < VECTOR_PAGES_PER_BATCH; page++) {
+    const response = await index.listPaginated({
+      limit: LIST_PAGE_SIZE,
+      ...(paginationToken ? { paginationToken } : {})
+    })
+
+    const vectorIds = (response.vectors ?? []).flatMap(vector => (vector.id ? [vector.id] : []))
+    tally.counters.vectors_scanned += vectorIds.length
+
+    const vectorsByDocument = new Map<string, string[]>()
+    for (const vectorId of vectorIds) {
+      const documentId = VECTOR_DOCUMENT_PATTERN.exec(vectorId)?.[1]
+      if (!documentId) continue
+      vectorsByDocument.set(documentId, [...(vectorsByDocument.get(documentId) ?? []), vectorId])
+    }
+
+    const existing = await findExistingDocuments([...vectorsByDocument.keys()].filter(id => UUID_PATTERN.test(id)))
+    for (const [documentId, ids] of vectorsByDocument) {
+      if (existing.has(documentId)) continue
+
+      tally.counters.orphan_vectors += ids.length
+      await tally.record(
+        { type: 'orphan_vectors', document_id: documentId, vector_count: ids.length },
+        run.mode === 'repair' ? () => deleteVectors(run.namespace, ids) : undefined
+      )
+    }
+
+    paginationToken = response.pagination?.next
+    if (!paginationToken) {
+      return null
+    }
+  }
+
+  return paginationToken ?? null
+}
+
+async function findExistingDocuments(documentIds: string[]): Promise<Set<string>> {
+  if (documentIds.length === 0) {
+    return new Set()
+  }
+
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id')
+      .in('id', documentIds)
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      throw new Error(`Failed to look up documents of swept vectors: ${error.message}`)
+    }
+
+    return new Set((data ?? []).map(row => row.id))
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
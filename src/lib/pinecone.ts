@@ -4,10 +4,11 @@ import type {
   BusinessMetadata
 } from '@/types/external-apis'
 import { logger } from '@/lib/logger'
+import { getActiveEmbeddingConfig, getEmbeddingProvider } from '@/lib/embeddings'
 
 // Lazy initialization to avoid errors during build
 let pinecone: Pinecone | null = null
-let index: ReturnType<Pinecone['Index']> | null = null
+const namespaces = new Map<string, ReturnType<Pinecone['Index']>>()
 
 function getPineconeClient() {
   if (!pinecone) {
@@ -18,9 +19,16 @@ function getPineconeClient() {
   return pinecone
 }
 
-export function getPineconeIndex() {
+/**
+ * Index handle scoped to the active embedding model's namespace
+ * Pass a namespace to read or write another one (re-embedding migrations).
+ */
+export async function getPineconeIndex(namespace?: string) {
+  const target = namespace ?? (await getActiveEmbeddingConfig()).namespace
+  let index = namespaces.get(target)
   if (!index) {
-    index = getPineconeClient().Index(process.env['PINECONE_INDEX_NAME']!)
+    index = getPineconeClient().Index(process.env['PINECONE_INDEX_NAME']!).namespace(target)
+    namespaces.set(target, index)
   }
   return index
 }
@@ -82,7 +90,7 @@ export async function indexDocumentInPinecone(
   try {
     const sanitizedMetadata = sanitizeMetadata(metadata)
 
-    await getPineconeIndex().upsert([{
+    await (await getPineconeIndex()).upsert([{
       id,
       values: vector,
       metadata: sanitizedMetadata
@@ -95,6 +103,23 @@ export async function indexDocumentInPinecone(
   }
 }
 
+/**
+ * Index several document chunks in one upsert
+ * Writes to the active namespace unless `namespace` is given.
+ */
+export async function indexVectorsInPinecone(
+  records: Array<{ id: string; values: number[]; metadata: Record<string, unknown> }>,
+  namespace?: string
+): Promise<void> {
+  if (records.length === 0) return
+
+  await (await getPineconeIndex(namespace)).upsert(records.map(record => ({
+    id: record.id,
+    values: record.values,
+    metadata: sanitizeMetadata(record.metadata)
+  })))
+}
+
 /**
  * Search for similar documents
  */
@@ -132,7 +157,7 @@ export async function searchSimilarDocuments(
       includeValues: false
     }
 
-    const queryResponse = await getPineconeIndex().query(queryRequest)
+    const queryResponse = await (await getPineconeIndex()).query(queryRequest)
     
     // Filter results by threshold and format
     const filteredMatches = queryResponse.matches
@@ -191,7 +216,7 @@ export async function vectorSearch(
       includeValues: false
     }
 
-    const queryResponse = await getPineconeIndex().query(queryRequest)
+    const queryResponse = await (await getPineconeIndex()).query(queryRequest)
     
     // Filter and format results
     const filteredMatches = queryResponse.matches
@@ -246,7 +271,7 @@ export async function deleteDocumentFromPinecone(documentId: string, presetVecto
 
     for (let i = 0; i < vectorIds.length; i += BATCH_SIZE) {
       const batch = vectorIds.slice(i, i + BATCH_SIZE)
-      await getPineconeIndex().deleteMany(batch)
+      await (await getPineconeIndex()).deleteMany(batch)
       totalAttempted += batch.length
 
       if (vectorIds.length > BATCH_SIZE) {
@@ -296,10 +321,12 @@ export async function getVectorIdsForDocument(documentId: string): Promise<strin
 
 /**
  * Update document metadata in Pinecone
+ * Updates the active namespace unless `namespace` is given.
  */
 export async function updateDocumentMetadataInPinecone(
   documentId: string,
-  newMetadata: Record<string, unknown>
+  newMetadata: Record<string, unknown>,
+  namespace?: string
 ): Promise<void> {
   try {
     logger.info('Starting Pinecone metadata update', { documentId })
@@ -332,7 +359,7 @@ export async function updateDocumentMetadataInPinecone(
 
     for (let i = 0; i < vectorIds.length; i += BATCH_SIZE) {
       const batch = vectorIds.slice(i, i + BATCH_SIZE)
-      const fetchResponse = await getPineconeIndex().fetch(batch)
+      const fetchResponse = await (await getPineconeIndex(namespace)).fetch(batch)
       const fetchedRecords = Object.values(fetchResponse.records ?? {}) as PineconeVectorRecord[]
       vectors.push(...fetchedRecords)
     }
@@ -356,7 +383,7 @@ export async function updateDocumentMetadataInPinecone(
     })
 
     // 4. Upsert the vectors back into Pinecone
-    await getPineconeIndex().upsert(updatedVectors)
+    await (await getPineconeIndex(namespace)).upsert(updatedVectors)
 
       logger.info('Successfully updated metadata in Pinecone', { documentId, vectorsUpdated: updatedVectors.length })
 
@@ -384,8 +411,8 @@ async function getDocumentVector(
 ): Promise<number[] | null> {
   try {
     // Use a dummy vector to query for this document's vectors
-    // Create a zero vector of dimension 768 (Vertex AI embedding dimension)
-    const dummyVector = new Array(768).fill(0)
+    // Create a zero vector matching the configured embedding dimension
+    const dummyVector = new Array((await getEmbeddingProvider()).dimension).fill(0)
 
     // Build filter with optional page range
     const filter: Record<string, unknown> = {
@@ -404,7 +431,7 @@ async function getDocumentVector(
       })
     }
 
-    const queryResponse = await getPineconeIndex().query({
+    const queryResponse = await (await getPineconeIndex()).query({
       vector: dummyVector,
       topK: pageRange ? 10000 : 1, // Get all vectors if page range specified, otherwise just first
       filter,
@@ -481,7 +508,7 @@ async function getDocumentVector(
  */
 export async function getPineconeStats() {
   try {
-    const stats = await getPineconeIndex().describeIndexStats()
+    const stats = await (await getPineconeIndex()).describeIndexStats()
     return {
       totalVectorCount: stats.totalRecordCount,
       dimension: stats.dimension,
@@ -0,0 +1,208 @@
+/**
+ * Semantic Query Search
+ * Embeds a natural-language question and returns the best-matching passages
+ * across the user's libraries, grouped by document
+ *
+ * Uses the RETRIEVAL_QUERY embedding task against the chunk vectors already in
+ * Pinecone (indexed with RETRIEVAL_DOCUMENT), scoped to the user's own and
+ * workspace documents and the same metadata filters as similarity search.
+ */
+
+import { generateQueryEmbeddings, getEmbeddingModelId, resolveEmbeddingModel } from '@/lib/embeddings'
+import { vectorSearch } from '@/lib/pinecone'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { documentScopeFilter, pineconeScopeFilter, type DocumentScope } from '@/lib/workspaces'
+import type { DocumentMetadata } from '@/types'
+
+export const SEMANTIC_FILTER_KEYS = ['law_firm', 'fund_manager', 'fund_admin', 'jurisdiction'] as const
+
+export type SemanticFilterKey = typeof SEMANTIC_FILTER_KEYS[number]
+export type SemanticSearchFilters = Partial<Record<SemanticFilterKey, string[]>>
+
+export interface SemanticSearchOptions {
+  filters?: SemanticSearchFilters
+  /** Maximum documents returned */
+  limit?: number
+  /** Passages kept per document */
+  passagesPerDocument?: number
+  /** Minimum cosine similarity for a passage */
+  minScore?: number
+}
+
+export interface SemanticPassage {
+  chunk_index: number
+  page_number: number | null
+  start_page_number: number | null
+  end_page_number: number | null
+  text: string
+  score: number
+}
+
+export interface SemanticDocumentResult {
+  document: {
+    id: string
+    title: string
+    filename: string
+    page_count: number | null
+    metadata: DocumentMetadata | null
+  }
+  score: number
+  passage_count: number
+  passages: SemanticPassage[]
+}
+
+interface SemanticDocumentRecord {
+  id: string
+  title: string
+  filename: string
+  page_count: number | null
+  status: string
+  metadata: DocumentMetadata | null
+  embedding_model: string | null
+}
+
+// Query embeddings score lower against document embeddings than chunk-to-chunk comparisons
+const DEFAULT_MIN_SCORE = 0.5
+const DEFAULT_DOCUMENT_LIMIT = 20
+const DEFAULT_PASSAGES_PER_DOCUMENT = 5
+// Chunks requested from Pinecone before grouping
+const CHUNKS_PER_DOCUMENT_REQUESTED = 10
+const MAX_PINECONE_TOP_K = 200
+
+const toPageNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+
+/**
+ * Build the Pinecone filter: always scoped to the user's libraries, plus any
+ * metadata filter values ($in for multiple selections)
+ */
+export function buildSemanticSearchFilter(scope: DocumentScope, filters: SemanticSearchFilters = {}): Record<string, unknown> {
+  const pineconeFilter: Record<string, unknown> = pineconeScopeFilter(scope)
+
+  for (const key of SEMANTIC_FILTER_KEYS) {
+    const values = (filters[key] ?? []).map(value => value.trim()).filter(Boolean)
+    if (values.length === 1) {
+      pineconeFilter[key] = { $eq: values[0] }
+    } else if (values.length > 1) {
+      pineconeFilter[key] = { $in: values }
+    }
+  }
+
+  return pineconeFilter
+}
+
+/**
+ * Run a natural-language query and group the matching chunks by document
+ * Documents are ordered by their best passage; vectors whose document is gone,
+ * is outside the user's libraries, is not completed or was embedded with a
+ * different model than the query are dropped.
+ */
+export async function semanticQuerySearch(
+  scope: DocumentScope,
+  query: string,
+  options: SemanticSearchOptions = {}
+): Promise<{ results: SemanticDocumentResult[]; totalPassages: number }> {
+  const {
+    filters = {},
+    limit = DEFAULT_DOCUMENT_LIMIT,
+    passagesPerDocument = DEFAULT_PASSAGES_PER_DOCUMENT,
+    minScore = DEFAULT_MIN_SCORE
+  } = options
+
+  const startTime = Date.now()
+  const queryVector = await generateQueryEmbeddings(query)
+  const queryModel = await getEmbeddingModelId()
+
+  const matches = await vectorSearch(queryVector, {
+    topK: Math.min(MAX_PINECONE_TOP_K, limit * CHUNKS_PER_DOCUMENT_REQUESTED),
+    filter: buildSemanticSearchFilter(scope, filters),
+    threshold: minScore
+  })
+
+  const passagesByDocument = new Map<string, SemanticPassage[]>()
+  for (const match of matches) {
+    const metadata = (match.metadata ?? {}) as Record<string, unknown>
+    const chunkIndex = metadata['chunk_index']
+    if (typeof chunkIndex !== 'number') continue
+
+    const passages = passagesByDocument.get(match.document_id) ?? []
+    passages.push({
+      chunk_index: chunkIndex,
+      page_number: toPageNumber(metadata['page_number']),
+      start_page_number: toPageNumber(metadata['start_page_number']),
+      end_page_number: toPageNumber(metadata['end_page_number']),
+      text: match.text,
+      score: match.score
+    })
+    passagesByDocument.set(match.document_id, passages)
+  }
+
+  const documentIds = Array.from(passagesByDocument.keys())
+  let documents: SemanticDocumentRecord[] = []
+
+  if (documentIds.length > 0) {
+    const supabase = await createServiceClient()
+    try {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, title, filename, page_count, status, metadata, embedding_model')
+        .or(documentScopeFilter(scope))
+        .in('id', documentIds)
+        .returns<SemanticDocumentRecord[]>()
+
+      if (error) {
+        throw new Error(`Failed to load documents for semantic search: ${error.message}`)
+      }
+
+      documents = data ?? []
+    } finally {
+      releaseServiceClient(supabase)
+    }
+  }
+
+  const results: SemanticDocumentResult[] = []
+  let otherModelCount = 0
+  for (const document of documents) {
+    if (document.status !== 'completed') continue
+    if (resolveEmbeddingModel(document.embedding_model) !== queryModel) {
+      otherModelCount++
+      continue
+    }
+
+    const passages = (passagesByDocument.get(document.id) ?? [])
+      .sort((a, b) => b.score - a.score)
+    const best = passages[0]
+    if (!best) continue
+
+    results.push({
+      document: {
+        id: document.id,
+        title: document.title,
+        filename: document.filename,
+        page_count: document.page_count,
+        metadata: document.metadata
+      },
+      score: best.score,
+      passage_count: passages.length,
+      passages: passages.slice(0, passagesPerDocument)
+    })
+  }
+
+  results.sort((a, b) => b.score - a.score)
+
+  logger.info('Semantic query search completed', {
+    userId: scope.userId,
+    workspaceCount: scope.workspaceIds.length,
+    queryLength: query.length,
+    matchedChunks: matches.length,
+    documentCount: results.length,
+    otherModelCount,
+    durationMs: Date.now() - startTime
+  })
+
+  return {
+    results: results.slice(0, limit),
+    totalPassages: matches.length
+  }
+}
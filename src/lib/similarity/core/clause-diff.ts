@@ -0,0 +1,168 @@
+/**
+ * Word-Level Clause Diff
+ * Aligns the chunk_text of matched chunk pairs (from SectionMatch.chunkPairs)
+ * and reports word insertions/deletions between source and target clauses
+ */
+
+import { ClauseDiffSegment, ClauseDiffStats } from '../types'
+
+// Upper bound on LCS table size (source words × target words) before falling
+// back to a whole-clause replace; chunks are ~1000 characters so this is rarely hit
+const MAX_LCS_CELLS = 4_000_000
+
+/**
+ * Split text into whitespace-delimited word tokens
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.split(/\s+/).filter(token => token.length > 0)
+}
+
+/**
+ * Compute a word-level diff between two clause texts
+ * Uses common prefix/suffix trimming followed by an LCS alignment
+ *
+ * @param sourceText - Clause text from the source document
+ * @param targetText - Clause text from the target document
+ * @returns Ordered segments; 'delete' only in source, 'insert' only in target
+ */
+export function diffWords(sourceText: string, targetText: string): ClauseDiffSegment[] {
+  const a = tokenizeWords(sourceText)
+  const b = tokenizeWords(targetText)
+
+  const ops: Array<{ type: ClauseDiffSegment['type']; word: string }> = []
+
+  // Trim common prefix
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    ops.push({ type: 'equal', word: a[prefix]! })
+    prefix++
+  }
+
+  // Trim common suffix
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const midA = a.slice(prefix, a.length - suffix)
+  const midB = b.slice(prefix, b.length - suffix)
+
+  ops.push(...diffMiddle(midA, midB))
+
+  for (let i = a.length - suffix; i < a.length; i++) {
+    ops.push({ type: 'equal', word: a[i]! })
+  }
+
+  return mergeOperations(ops)
+}
+
+/**
+ * Count unchanged/inserted/deleted words for a diff
+ */
+export function summarizeDiff(segments: ClauseDiffSegment[]): ClauseDiffStats {
+  let unchangedWords = 0
+  let insertedWords = 0
+  let deletedWords = 0
+
+  for (const segment of segments) {
+    const count = tokenizeWords(segment.text).length
+    if (segment.type === 'equal') {
+      unchangedWords += count
+    } else if (segment.type === 'insert') {
+      insertedWords += count
+    } else {
+      deletedWords += count
+    }
+  }
+
+  const totalWords = unchangedWords * 2 + insertedWords + deletedWords
+  const changeRatio = totalWords > 0 ? (insertedWords + deletedWords) / totalWords : 0
+
+  return { unchangedWords, insertedWords, deletedWords, changeRatio }
+}
+
+/**
+ * LCS alignment of the non-matching middle section
+ */
+function diffMiddle(
+  a: string[],
+  b: string[]
+): Array<{ type: ClauseDiffSegment['type']; word: string }> {
+  if (a.length === 0) {
+    return b.map(word => ({ type: 'insert' as const, word }))
+  }
+  if (b.length === 0) {
+    return a.map(word => ({ type: 'delete' as const, word }))
+  }
+
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    return [
+      ...a.map(word => ({ type: 'delete' as const, word })),
+      ...b.map(word => ({ type: 'insert' as const, word }))
+    ]
+  }
+
+  const width = b.length + 1
+  const table = new Uint32Array((a.length + 1) * width)
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1]! + 1
+        : Math.max(table[(i + 1) * width + j]!, table[i * width + j + 1]!)
+    }
+  }
+
+  const ops: Array<{ type: ClauseDiffSegment['type']; word: string }> = []
+  let i = 0
+  let j = 0
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', word: a[i]! })
+      i++
+      j++
+    } else if (table[(i + 1) * width + j]! >= table[i * width + j + 1]!) {
+      ops.push({ type: 'delete', word: a[i]! })
+      i++
+    } else {
+      ops.push({ type: 'insert', word: b[j]! })
+      j++
+    }
+  }
+
+  while (i < a.length) {
+    ops.push({ type: 'delete', word: a[i]! })
+    i++
+  }
+  while (j < b.length) {
+    ops.push({ type: 'insert', word: b[j]! })
+    j++
+  }
+
+  return ops
+}
+
+/**
+ * Merge consecutive word operations of the same type into segments
+ */
+function mergeOperations(
+  ops: Array<{ type: ClauseDiffSegment['type']; word: string }>
+): ClauseDiffSegment[] {
+  const segments: ClauseDiffSegment[] = []
+
+  for (const op of ops) {
+    const last = segments[segments.length - 1]
+    if (last && last.type === op.type) {
+      last.text += ` ${op.word}`
+    } else {
+      segments.push({ type: op.type, text: op.word })
+    }
+  }
+
+  return segments
+}
@@ -4,7 +4,7 @@
  * Infers section boundaries from contiguous page matches
  */
 
-import { ChunkMatch, SectionMatch } from '../types'
+import { ChunkMatch, SectionChunkPair, SectionMatch } from '../types'
 
 /**
  * Group matched chunks into sections based on contiguous page ranges
@@ -112,12 +112,24 @@ function summarizeSection(section: {
   // Determine if section is reusable (high similarity)
   const reusable = avgScore > 0.85
 
+  // Keep the aligned chunk pairs so clause-level diffs can be rebuilt later
+  const chunkPairs: SectionChunkPair[] = section.chunksA
+    .map((sourceChunkIndex, i) => ({
+      sourceChunkIndex,
+      targetChunkIndex: section.chunksB[i]!,
+      sourcePageNumber: section.pagesA[i]!,
+      targetPageNumber: section.pagesB[i]!,
+      score: section.scores[i]!
+    }))
+    .sort((a, b) => a.sourceChunkIndex - b.sourceChunkIndex)
+
   return {
     docA_pageRange,
     docB_pageRange,
     avgScore,
     chunkCount: section.scores.length,
-    reusable
+    reusable,
+    chunkPairs
   }
 }
 
@@ -0,0 +1,224 @@
+/**
+ * Table Matching and Cell-Level Comparison
+ * Pairs up the embedded tables of two documents (document_tables) and
+ * compares a matched pair row by row and cell by cell
+ */
+
+import { cosineSimilarity } from '../utils/vector-operations'
+import type {
+  TableCellComparison,
+  TableChangeStatus,
+  TableComparisonStats,
+  TableMatch,
+  TableRowComparison
+} from '../types'
+
+// Tables below this similarity are different tables, not edited copies
+export const MIN_TABLE_MATCH_SCORE = 0.85
+
+// Upper bound on the row LCS table (source rows × target rows)
+const MAX_LCS_CELLS = 1_000_000
+
+export interface EmbeddedTable {
+  tableIndex: number
+  pageNumber: number
+  embedding: number[]
+}
+
+export interface ComparableTable {
+  headerRows: string[][]
+  bodyRows: string[][]
+}
+
+/**
+ * Pair source and target tables one to one, best-scoring pairs first
+ *
+ * @returns Pairs scoring at least `minScore`, in source table order
+ */
+export function matchTables(
+  sourceTables: EmbeddedTable[],
+  targetTables: EmbeddedTable[],
+  minScore: number = MIN_TABLE_MATCH_SCORE
+): TableMatch[] {
+  const candidates: TableMatch[] = []
+  for (const source of sourceTables) {
+    for (const target of targetTables) {
+      if (source.embedding.length !== target.embedding.length) continue
+      const score = cosineSimilarity(source.embedding, target.embedding)
+      if (score >= minScore) {
+        candidates.push({
+          sourceTableIndex: source.tableIndex,
+          targetTableIndex: target.tableIndex,
+          sourcePageNumber: source.pageNumber,
+          targetPageNumber: target.pageNumber,
+          score
+        })
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score)
+
+  const usedSource = new Set<number>()
+  const usedTarget = new Set<number>()
+  const matches: TableMatch[] = []
+  for (const candidate of candidates) {
+    if (usedSource.has(candidate.sourceTableIndex) || usedTarget.has(candidate.targetTableIndex)) continue
+    usedSource.add(candidate.sourceTableIndex)
+    usedTarget.add(candidate.targetTableIndex)
+    matches.push(candidate)
+  }
+
+  return matches.sort((a, b) => a.sourceTableIndex - b.sourceTableIndex)
+}
+
+const normalizeCell = (text: string | undefined) => (text ?? '').replace(/\s+/g, ' ').trim()
+
+// Rows are aligned on their label: the first non-empty cell
+const rowKey = (row: string[]) => normalizeCell(row.find(cell => normalizeCell(cell).length > 0)).toLowerCase()
+
+/**
+ * Compare two tables cell by cell
+ * Rows are aligned by their first cell (LCS), so inserted or removed rows do
+ * not shift every row below them; unaligned rows between two aligned ones
+ * are compared in order. Columns are compared by position.
+ */
+export function compareTables(
+  source: ComparableTable,
+  target: ComparableTable
+): { columnCount: number; rows: TableRowComparison[]; stats: TableComparisonStats } {
+  const sourceRows = [...source.headerRows, ...source.bodyRows]
+  const targetRows = [...target.headerRows, ...target.bodyRows]
+  const columnCount = Math.max(0, ...[...sourceRows, ...targetRows].map(row => row.length))
+
+  const isSourceHeader = (index: number) => index < source.headerRows.length
+  const isTargetHeader = (index: number) => index < target.headerRows.length
+
+  const rows: TableRowComparison[] = []
+  const pushPair = (sourceIndex: number, targetIndex: number) => {
+    const sourceRow = sourceRows[sourceIndex] ?? []
+    const targetRow = targetRows[targetIndex] ?? []
+    const cells = Array.from({ length: columnCount }, (_, column) =>
+      compareCell(normalizeCell(sourceRow[column]), normalizeCell(targetRow[column]))
+    )
+    rows.push({
+      status: cells.every(cell => cell.status === 'equal') ? 'equal' : 'changed',
+      header: isSourceHeader(sourceIndex) || isTargetHeader(targetIndex),
+      sourceRowIndex: sourceIndex,
+      targetRowIndex: targetIndex,
+      cells
+    })
+  }
+  const pushUnpaired = (side: 'source' | 'target', index: number) => {
+    const row = (side === 'source' ? sourceRows : targetRows)[index] ?? []
+    const status: TableChangeStatus = side === 'source' ? 'removed' : 'added'
+    rows.push({
+      status,
+      header: side === 'source' ? isSourceHeader(index) : isTargetHeader(index),
+      sourceRowIndex: side === 'source' ? index : null,
+      targetRowIndex: side === 'target' ? index : null,
+      cells: Array.from({ length: columnCount }, (_, column): TableCellComparison => {
+        const text = normalizeCell(row[column])
+        return text
+          ? { status, source: side === 'source' ? text : null, target: side === 'target' ? text : null }
+          : { status: 'equal', source: null, target: null }
+      })
+    })
+  }
+
+  // Rows between two aligned rows: compare in order, the longer side's extras were added/removed
+  let sourceStart = 0
+  let targetStart = 0
+  const flushGap = (sourceEnd: number, targetEnd: number) => {
+    const paired = Math.min(sourceEnd - sourceStart, targetEnd - targetStart)
+    for (let offset = 0; offset < paired; offset++) {
+      pushPair(sourceStart + offset, targetStart + offset)
+    }
+    for (let index = sourceStart + paired; index < sourceEnd; index++) pushUnpaired('source', index)
+    for (let index = targetStart + paired; index < targetEnd; index++) pushUnpaired('target', index)
+  }
+
+  for (const [sourceIndex, targetIndex] of alignRows(sourceRows.map(rowKey), targetRows.map(rowKey))) {
+    flushGap(sourceIndex, targetIndex)
+    pushPair(sourceIndex, targetIndex)
+    sourceStart = sourceIndex + 1
+    targetStart = targetIndex + 1
+  }
+  flushGap(sourceRows.length, targetRows.length)
+
+  return { columnCount, rows, stats: summarizeTableComparison(rows) }
+}
+
+function compareCell(source: string, target: string): TableCellComparison {
+  if (source === target) {
+    return { status: 'equal', source: source || null, target: target || null }
+  }
+  if (!source) {
+    return { status: 'added', source: null, target }
+  }
+  if (!target) {
+    return { status: 'removed', source, target: null }
+  }
+  return { status: 'changed', source, target }
+}
+
+/**
+ * Count compared cells by outcome; empty-on-both-sides cells are not counted
+ */
+export function summarizeTableComparison(rows: TableRowComparison[]): TableComparisonStats {
+  const stats = { equalCells: 0, changedCells: 0, addedCells: 0, removedCells: 0 }
+
+  for (const cell of rows.flatMap(row => row.cells)) {
+    if (cell.status === 'equal') {
+      if (cell.source !== null || cell.target !== null) stats.equalCells++
+    } else if (cell.status === 'changed') {
+      stats.changedCells++
+    } else if (cell.status === 'added') {
+      stats.addedCells++
+    } else {
+      stats.removedCells++
+    }
+  }
+
+  const differing = stats.changedCells + stats.addedCells + stats.removedCells
+  const total = stats.equalCells + differing
+  return { ...stats, changeRatio: total > 0 ? differing / total : 0 }
+}
+
+/**
+ * Index pairs of rows with equal, non-empty keys along the longest common subsequence
+ */
+function alignRows(a: string[], b: string[]): Array<[number, number]> {
+  if (a.length === 0 || b.length === 0 || (a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    return []
+  }
+
+  const same = (i: number, j: number) => a[i] !== '' && a[i] === b[j]
+  const width = b.length + 1
+  const table = new Uint32Array((a.length + 1) * width)
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = same(i, j)
+        ? table[(i + 1) * width + j + 1]! + 1
+        : Math.max(table[(i + 1) * width + j]!, table[i * width + j + 1]!)
+    }
+  }
+
+  const pairs: Array<[number, number]> = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (same(i, j)) {
+      pairs.push([i, j])
+      i++
+      j++
+    } else if (table[(i + 1) * width + j]! >= table[i * width + j + 1]!) {
+      i++
+    } else {
+      j++
+    }
+  }
+
+  return pairs
+}
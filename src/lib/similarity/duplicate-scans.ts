@@ -0,0 +1,545 @@
+/**
+ * Library-wide Near-Duplicate Scans
+ * Runs Stage 0 centroid retrieval + Stage 2 scoring for every completed document
+ * in a user's libraries (own uploads and workspaces), stores each pair whose sourceScore or targetScore clears
+ * the threshold, then groups the edges into families (connected components).
+ *
+ * Scans advance in batches: each worker invocation processes a few documents,
+ * records its position (next_index) and requeues the scan until it is done.
+ */
+
+import { logger } from '@/lib/logger'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { documentScopeFilter, getDocumentScope, pineconeScopeFilter } from '@/lib/workspaces'
+import { executeSimilaritySearch } from './orchestrator'
+import type { SectionMatch, SimilarityResult } from './types'
+
+export type DuplicateScanStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+export interface DuplicateScanRecord {
+  id: string
+  user_id: string
+  status: DuplicateScanStatus
+  threshold: number
+  candidates_per_document: number
+  document_ids: string[]
+  next_index: number
+  pair_count: number
+  cluster_count: number
+  failed_document_ids: string[]
+  error_message: string | null
+  created_at: string
+  updated_at: string
+  started_at: string | null
+  completed_at: string | null
+}
+
+export type DuplicatePairSection = Omit<SectionMatch, 'chunkPairs'>
+
+export interface DuplicatePairRecord {
+  id: string
+  scan_id: string
+  cluster_id: string | null
+  document_a_id: string
+  document_b_id: string
+  document_a_score: number
+  document_b_score: number
+  max_score: number
+  matched_a_characters: number
+  matched_b_characters: number
+  sections: DuplicatePairSection[]
+}
+
+export interface DuplicateClusterRecord {
+  id: string
+  scan_id: string
+  document_ids: string[]
+  size: number
+  edge_count: number
+  max_score: number
+  avg_score: number
+  created_at: string
+}
+
+/**
+ * Columns exposed to clients (omits the full document snapshot)
+ */
+export const DUPLICATE_SCAN_SUMMARY_COLUMNS =
+  'id, status, threshold, candidates_per_document, next_index, pair_count, cluster_count, failed_document_ids, error_message, created_at, updated_at, started_at, completed_at'
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.8
+export const DEFAULT_CANDIDATES_PER_DOCUMENT = 50
+
+// Sections kept per edge; the clusters page shows the strongest across a family
+const SECTIONS_PER_PAIR = 5
+
+// A processing scan whose worker stopped updating it is reclaimed after this long
+const STALE_PROCESSING_MS = 15 * 60 * 1000
+
+/**
+ * Snapshot the completed documents in the user's libraries and queue a scan
+ *
+ * @returns The new scan id
+ */
+export async function createDuplicateScan(input: {
+  userId: string
+  threshold: number
+  candidatesPerDocument: number
+}): Promise<{ id: string; documentCount: number }> {
+  const scope = await getDocumentScope(input.userId)
+  const supabase = await createServiceClient()
+
+  try {
+    const { data: documents, error: documentsError } = await supabase
+      .from('documents')
+      .select('id')
+      .or(documentScopeFilter(scope))
+      .eq('status', 'completed')
+      .order('created_at', { ascending: true })
+      .returns<Array<{ id: string }>>()
+
+    if (documentsError) {
+      throw new Error(`Failed to load documents for duplicate scan: ${documentsError.message}`)
+    }
+
+    const documentIds = (documents ?? []).map(doc => doc.id)
+
+    const { data, error } = await supabase
+      .from('duplicate_scans')
+      .insert({
+        user_id: input.userId,
+        status: 'queued',
+        threshold: input.threshold,
+        candidates_per_document: input.candidatesPerDocument,
+        document_ids: documentIds
+      })
+      .select('id')
+      .single<{ id: string }>()
+
+    if (error || !data) {
+      throw new Error(`Failed to queue duplicate scan: ${error?.message ?? 'no id returned'}`)
+    }
+
+    logger.info('Duplicate scan queued', {
+      scanId: data.id,
+      userId: input.userId,
+      documentCount: documentIds.length,
+      threshold: input.threshold
+    })
+
+    return { id: data.id, documentCount: documentIds.length }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Trigger the duplicate scan worker without waiting for it
+ */
+export function dispatchDuplicateScanWorker(requestUrl: string): void {
+  const cronSecret = process.env['CRON_SECRET']
+
+  if (!cronSecret) {
+    logger.warn('CRON_SECRET not set; duplicate scan will wait for the next scheduled worker run')
+    return
+  }
+
+  try {
+    const cronUrl = new URL('/api/cron/process-duplicate-scans', requestUrl)
+    fetch(cronUrl.toString(), {
+      method: 'GET',
+      headers: {
+        authorization: `Bearer ${cronSecret}`,
+        'user-agent': 'DuplicateScanAutoTrigger'
+      }
+    }).catch(error => {
+      logger.warn('Duplicate scan worker trigger failed', {
+        error: error instanceof Error ? error.message : String(error)
+      })
+    })
+  } catch (error) {
+    logger.warn('Failed to construct duplicate scan worker URL', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
+/**
+ * Find the next scan to advance: oldest queued, or a processing scan whose worker died
+ */
+export async function findNextDuplicateScanId(): Promise<string | null> {
+  const supabase = await createServiceClient()
+
+  try {
+    const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString()
+    const { data, error } = await supabase
+      .from('duplicate_scans')
+      .select('id')
+      .or(`status.eq.queued,and(status.eq.processing,updated_at.lt.${staleBefore})`)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      throw new Error(`Failed to find queued duplicate scans: ${error.message}`)
+    }
+
+    return data?.[0]?.id ?? null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Claim a scan and process up to `documentLimit` documents from its cursor
+ *
+ * @returns The scan status after this batch, or null if the scan was not claimable
+ */
+export async function processDuplicateScanBatch(
+  scanId: string,
+  documentLimit: number
+): Promise<DuplicateScanStatus | null> {
+  const scan = await claimScan(scanId)
+  if (!scan) {
+    return null
+  }
+
+  const documentSet = new Set(scan.document_ids)
+  const batch = scan.document_ids.slice(scan.next_index, scan.next_index + documentLimit)
+  const failedDocumentIds = [...scan.failed_document_ids]
+  let nextIndex = scan.next_index
+  let pairCount = scan.pair_count
+
+  try {
+    const scopeFilter = pineconeScopeFilter(await getDocumentScope(scan.user_id))
+
+    for (const documentId of batch) {
+      try {
+        const edges = await scanDocument(scan, documentId, documentSet, scopeFilter)
+        pairCount += await storeEdges(scan, edges)
+      } catch (error) {
+        // One unsearchable document (e.g. missing centroid) must not sink the whole scan
+        failedDocumentIds.push(documentId)
+        logger.warn('Duplicate scan skipped document', {
+          scanId,
+          documentId,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+
+      nextIndex += 1
+      const stillRunning = await updateScan(scanId, {
+        next_index: nextIndex,
+        pair_count: pairCount,
+        failed_document_ids: failedDocumentIds
+      })
+      if (!stillRunning) {
+        logger.info('Duplicate scan stopped (cancelled or removed)', { scanId })
+        return 'cancelled'
+      }
+    }
+
+    if (nextIndex < scan.document_ids.length) {
+      await updateScan(scanId, { status: 'queued' })
+      return 'queued'
+    }
+
+    const clusterCount = await buildClusters(scan)
+
+    await updateScan(scanId, {
+      status: 'completed',
+      cluster_count: clusterCount,
+      completed_at: new Date().toISOString()
+    })
+
+    logger.info('Duplicate scan completed', {
+      scanId,
+      documents: scan.document_ids.length,
+      pairs: pairCount,
+      clusters: clusterCount,
+      failedDocuments: failedDocumentIds.length
+    })
+
+    return 'completed'
+  } catch (error) {
+    logger.error(
+      'Duplicate scan failed',
+      error instanceof Error ? error : new Error(String(error)),
+      { scanId }
+    )
+
+    await updateScan(scanId, {
+      status: 'failed',
+      error_message: error instanceof Error ? error.message : 'Unknown error',
+      completed_at: new Date().toISOString()
+    })
+
+    return 'failed'
+  }
+}
+
+async function claimScan(scanId: string): Promise<DuplicateScanRecord | null> {
+  const supabase = await createServiceClient()
+
+  try {
+    const { data: current, error: readError } = await supabase
+      .from('duplicate_scans')
+      .select('id, status, updated_at')
+      .eq('id', scanId)
+      .maybeSingle<{ id: string; status: DuplicateScanStatus; updated_at: string }>()
+
+    if (readError || !current) {
+      return null
+    }
+
+    const isStale = current.status === 'processing' &&
+      Date.now() - new Date(current.updated_at).getTime() > STALE_PROCESSING_MS
+    if (current.status !== 'queued' && !isStale) {
+      return null
+    }
+
+    // Conditional update on the observed status/updated_at acts as the lock
+    const { data, error } = await supabase
+      .from('duplicate_scans')
+      .update({
+        status: 'processing',
+        started_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', scanId)
+      .eq('status', current.status)
+      .eq('updated_at', current.updated_at)
+      .select('*')
+      .returns<DuplicateScanRecord[]>()
+
+    if (error) {
+      logger.error('Failed to claim duplicate scan', new Error(error.message), { scanId })
+      return null
+    }
+
+    return data?.[0] ?? null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Update a processing scan; returns false if the scan left 'processing' (e.g. deleted)
+ */
+async function updateScan(scanId: string, fields: Record<string, unknown>): Promise<boolean> {
+  const supabase = await createServiceClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('duplicate_scans')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', scanId)
+      .eq('status', 'processing')
+      .select('id')
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      logger.warn('Failed to update duplicate scan', { scanId, error: error.message })
+      return false
+    }
+
+    return (data?.length ?? 0) > 0
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+interface DuplicateEdge {
+  document_a_id: string
+  document_b_id: string
+  document_a_score: number
+  document_b_score: number
+  max_score: number
+  matched_a_characters: number
+  matched_b_characters: number
+  sections: DuplicatePairSection[]
+}
+
+/**
+ * Run Stage 0 → Stage 2 for one document and keep results above the threshold
+ */
+async function scanDocument(
+  scan: DuplicateScanRecord,
+  documentId: string,
+  documentSet: Set<string>,
+  scopeFilter: Record<string, unknown>
+): Promise<DuplicateEdge[]> {
+  const searchResult = await executeSimilaritySearch(documentId, {
+    stage0_topK: scan.candidates_per_document,
+    stage0_mode: 'dense',
+    stage0_filters: scopeFilter
+  })
+
+  return searchResult.results
+    .filter(result =>
+      documentSet.has(result.document.id) &&
+      result.document.id !== documentId &&
+      (result.scores.sourceScore >= scan.threshold || result.scores.targetScore >= scan.threshold)
+    )
+    .map(result => toEdge(documentId, result))
+}
+
+/**
+ * Normalize a result into an ordered edge (document_a_id < document_b_id)
+ */
+function toEdge(sourceDocumentId: string, result: SimilarityResult): DuplicateEdge {
+  const sections = [...result.sections]
+    .sort((a, b) => b.avgScore - a.avgScore)
+    .slice(0, SECTIONS_PER_PAIR)
+
+  const sourceIsA = sourceDocumentId < result.document.id
+
+  return {
+    document_a_id: sourceIsA ? sourceDocumentId : result.document.id,
+    document_b_id: sourceIsA ? result.document.id : sourceDocumentId,
+    document_a_score: sourceIsA ? result.scores.sourceScore : result.scores.targetScore,
+    document_b_score: sourceIsA ? result.scores.targetScore : result.scores.sourceScore,
+    max_score: Math.max(result.scores.sourceScore, result.scores.targetScore),
+    matched_a_characters: sourceIsA ? result.scores.matchedSourceCharacters : result.scores.matchedTargetCharacters,
+    matched_b_characters: sourceIsA ? result.scores.matchedTargetCharacters : result.scores.matchedSourceCharacters,
+    sections: sections.map(section => ({
+      docA_pageRange: sourceIsA ? section.docA_pageRange : section.docB_pageRange,
+      docB_pageRange: sourceIsA ? section.docB_pageRange : section.docA_pageRange,
+      avgScore: section.avgScore,
+      chunkCount: section.chunkCount,
+      reusable: section.reusable
+    }))
+  }
+}
+
+/**
+ * Insert edges; a pair found from both sides is stored once (first writer wins)
+ *
+ * @returns Number of new edges
+ */
+async function storeEdges(scan: DuplicateScanRecord, edges: DuplicateEdge[]): Promise<number> {
+  if (edges.length === 0) {
+    return 0
+  }
+
+  const supabase = await createServiceClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('duplicate_pairs')
+      .upsert(
+        edges.map(edge => ({ ...edge, scan_id: scan.id, user_id: scan.user_id })),
+        { onConflict: 'scan_id,document_a_id,document_b_id', ignoreDuplicates: true }
+      )
+      .select('id')
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      throw new Error(`Failed to store duplicate pairs: ${error.message}`)
+    }
+
+    return data?.length ?? 0
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Group a scan's edges into families (connected components via union-find)
+ */
+function groupDuplicateFamilies(
+  edges: Array<Pick<DuplicatePairRecord, 'id' | 'document_a_id' | 'document_b_id' | 'max_score'>>
+) {
+  const parent = new Map<string, string>()
+
+  const find = (id: string): string => {
+    let root = parent.get(id) ?? id
+    while (root !== (parent.get(root) ?? root)) {
+      root = parent.get(root) ?? root
+    }
+    parent.set(id, root)
+    return root
+  }
+
+  for (const edge of edges) {
+    const rootA = find(edge.document_a_id)
+    const rootB = find(edge.document_b_id)
+    if (rootA !== rootB) {
+      parent.set(rootB, rootA)
+    }
+  }
+
+  const families = new Map<string, { documentIds: Set<string>; edgeIds: string[]; scores: number[] }>()
+  for (const edge of edges) {
+    const root = find(edge.document_a_id)
+    const family = families.get(root) ?? { documentIds: new Set<string>(), edgeIds: [], scores: [] }
+    family.documentIds.add(edge.document_a_id)
+    family.documentIds.add(edge.document_b_id)
+    family.edgeIds.push(edge.id)
+    family.scores.push(edge.max_score)
+    families.set(root, family)
+  }
+
+  return [...families.values()]
+    .map(family => ({
+      documentIds: [...family.documentIds],
+      edgeIds: family.edgeIds,
+      maxScore: Math.max(...family.scores),
+      avgScore: family.scores.reduce((sum, score) => sum + score, 0) / family.scores.length
+    }))
+    .sort((a, b) => b.documentIds.length - a.documentIds.length || b.maxScore - a.maxScore)
+}
+
+async function buildClusters(scan: DuplicateScanRecord): Promise<number> {
+  const supabase = await createServiceClient()
+
+  try {
+    // A reclaimed scan may have stored some clusters before its worker died
+    await supabase.from('duplicate_clusters').delete().eq('scan_id', scan.id)
+
+    const { data: edges, error } = await supabase
+      .from('duplicate_pairs')
+      .select('id, document_a_id, document_b_id, max_score')
+      .eq('scan_id', scan.id)
+      .returns<Array<Pick<DuplicatePairRecord, 'id' | 'document_a_id' | 'document_b_id' | 'max_score'>>>()
+
+    if (error) {
+      throw new Error(`Failed to load duplicate pairs: ${error.message}`)
+    }
+
+    const families = groupDuplicateFamilies(edges ?? [])
+
+    for (const family of families) {
+      const { data: cluster, error: clusterError } = await supabase
+        .from('duplicate_clusters')
+        .insert({
+          scan_id: scan.id,
+          user_id: scan.user_id,
+          document_ids: family.documentIds,
+          size: family.documentIds.length,
+          edge_count: family.edgeIds.length,
+          max_score: family.maxScore,
+          avg_score: family.avgScore
+        })
+        .select('id')
+        .single<{ id: string }>()
+
+      if (clusterError || !cluster) {
+        throw new Error(`Failed to store duplicate cluster: ${clusterError?.message ?? 'no id returned'}`)
+      }
+
+      const { error: linkError } = await supabase
+        .from('duplicate_pairs')
+        .update({ cluster_id: cluster.id })
+        .in('id', family.edgeIds)
+
+      if (linkError) {
+        throw new Error(`Failed to link duplicate pairs to cluster: ${linkError.message}`)
+      }
+    }
+
+    return families.length
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Client helper for async similarity jobs
+ * Follows /api/similarity-jobs/[jobId]/events and resolves with the final payload.
+ */
+
+import type { SimilarityJobProgress, SimilarityJobStatus } from './similarity-jobs'
+
+export interface SimilarityJobHandle {
+  job_id: string
+  status: SimilarityJobStatus
+  status_url: string
+  events_url: string
+}
+
+export interface SimilarityJobCompletion<TResult> {
+  result: TResult
+  search_id: string | null
+}
+
+interface FollowSimilarityJobOptions<TPartial> {
+  onProgress?: (progress: SimilarityJobProgress | null, status: SimilarityJobStatus) => void
+  onPartial?: (results: TPartial[]) => void
+  signal?: AbortSignal
+}
+
+const parseEventData = (event: Event): Record<string, unknown> => {
+  try {
+    return JSON.parse((event as MessageEvent<string>).data) as Record<string, unknown>
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Stream progress for a queued job until it completes
+ * Aborting the signal closes the stream and cancels the job server-side.
+ */
+export function followSimilarityJob<TResult, TPartial = unknown>(
+  job: SimilarityJobHandle,
+  options: FollowSimilarityJobOptions<TPartial> = {}
+): Promise<SimilarityJobCompletion<TResult>> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new DOMException('Similarity job cancelled', 'AbortError'))
+      return
+    }
+
+    const source = new EventSource(job.events_url)
+
+    const finish = () => {
+      source.close()
+      options.signal?.removeEventListener('abort', handleAbort)
+    }
+
+    function handleAbort() {
+      finish()
+      fetch(job.status_url, { method: 'DELETE' }).catch(() => undefined)
+      reject(new DOMException('Similarity job cancelled', 'AbortError'))
+    }
+
+    options.signal?.addEventListener('abort', handleAbort)
+
+    source.addEventListener('progress', event => {
+      const data = parseEventData(event)
+      options.onProgress?.(
+        (data['progress'] ?? null) as SimilarityJobProgress | null,
+        data['status'] as SimilarityJobStatus
+      )
+    })
+
+    source.addEventListener('partial', event => {
+      const data = parseEventData(event)
+      if (Array.isArray(data['results'])) {
+        options.onPartial?.(data['results'] as TPartial[])
+      }
+    })
+
+    source.addEventListener('completed', event => {
+      const data = parseEventData(event)
+      finish()
+      resolve({
+        result: data['result'] as TResult,
+        search_id: typeof data['search_id'] === 'string' ? data['search_id'] : null
+      })
+    })
+
+    for (const terminal of ['failed', 'cancelled', 'stream_error'] as const) {
+      source.addEventListener(terminal, event => {
+        const data = parseEventData(event)
+        finish()
+        reject(new Error(
+          typeof data['error_message'] === 'string' && data['error_message']
+            ? data['error_message']
+            : `Similarity job ${terminal === 'stream_error' ? 'stream failed' : terminal}`
+        ))
+      })
+    }
+
+    // EventSource reconnects on its own after transient drops; give up only once it is closed
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        finish()
+        reject(new Error('Lost connection to similarity job progress stream'))
+      }
+    }
+  })
+}
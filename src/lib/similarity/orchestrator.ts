@@ -4,6 +4,7 @@
  *
  * Pipeline Flow:
  * 1. Stage 0: Document centroid filtering (2000 → ~600 candidates, ~5s)
+ *    Optional sparse (BM25) or hybrid (dense + BM25 via RRF) retrieval modes
  * 2. Stage 1: Candidate-aware chunk-level ANN (auto-skipped for ≤250 candidates)
  * 3. Stage 2: Parallel adaptive scoring with sections (250 → 30 results, ≤300s)
  *
@@ -12,11 +13,29 @@
 
 import { logger } from '@/lib/logger'
 import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
-import { stage0CandidateRetrieval } from './stages/stage0-candidate-retrieval'
+import {
+  stage0CandidateRetrieval,
+  stage0HybridRetrieval,
+  stage0SparseRetrieval,
+  type Stage0RetrievalOptions
+} from './stages/stage0-candidate-retrieval'
 import { stage1ChunkPrefilter } from './stages/stage1-chunk-prefilter'
 import { stage2FinalScoring } from './stages/stage2-final-scoring'
-import { SimilarityResult, Chunk, Stage1Result } from './types'
+import {
+  SimilarityResult,
+  SimilarityProgressEvent,
+  Chunk,
+  Stage0Result,
+  Stage0RetrievalMode,
+  Stage1Result
+} from './types'
+import { matchTables } from './core/table-comparison'
 import { countCharacters } from '@/lib/chunking/paragraph-chunker'
+import { filterToLatestVersions } from '@/lib/document-versions'
+import { fetchTableVectors, type TableVector } from '@/lib/document-tables'
+import { getEmbeddingModelId, resolveEmbeddingModel } from '@/lib/embeddings'
+import { collectExcludedPages, getMatchingExclusionRanges } from '@/lib/exclusion-ranges'
+import type { BusinessMetadata } from '@/types/external-apis'
 
 interface SupabaseDocumentRecord {
   id: string
@@ -29,6 +48,8 @@ export interface SimilaritySearchOptions {
   // Stage 0 options
   stage0_topK?: number              // Default: 600
   stage0_filters?: Record<string, unknown>
+  stage0_mode?: Stage0RetrievalMode // Default: 'dense'
+  stage0_hybridAlpha?: number       // Default: 0.7 (dense weight in hybrid RRF)
 
   // Stage 1 options
   stage1_topK?: number              // Default: 250
@@ -48,6 +69,12 @@ export interface SimilaritySearchOptions {
     start_page: number
     end_page: number
   }
+
+  // Result options
+  latestVersionsOnly?: boolean      // Default: false (drop candidates superseded by a newer version)
+
+  // Progress reporting (async similarity jobs)
+  onProgress?: (event: SimilarityProgressEvent) => void
 }
 
 export interface SimilaritySearchResult {
@@ -63,6 +90,7 @@ export interface SimilaritySearchResult {
     stage1_candidates: number
     final_results: number
   }
+  stage0_mode: Stage0RetrievalMode
 }
 
 /**
@@ -79,6 +107,20 @@ export async function executeSimilaritySearch(
 
   const totalStartTime = Date.now()
 
+  // Progress listeners must never break the pipeline
+  const reportProgress = (event: SimilarityProgressEvent) => {
+    if (!options.onProgress) return
+    try {
+      options.onProgress(event)
+    } catch (error) {
+      logger.warn('Similarity progress listener failed', {
+        sourceDocId,
+        stage: event.stage,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
   try {
     logger.info('Starting similarity search pipeline', { sourceDocId })
 
@@ -106,15 +148,49 @@ export async function executeSimilaritySearch(
     }
 
     // ============================================================
-    // STAGE 0: Document-Level Centroid Candidate Retrieval
+    // STAGE 0: Document-Level Candidate Retrieval (dense / sparse / hybrid)
     // ============================================================
-    logger.info('Stage 0: document centroid filtering started', { sourceDocId })
+    const stage0Mode = options.stage0_mode ?? 'dense'
+    logger.info('Stage 0: candidate retrieval started', { sourceDocId, mode: stage0Mode })
 
-    const stage0Result = await stage0CandidateRetrieval(sourceDocId, {
+    let stage0Result = await runStage0(sourceDocId, stage0Mode, {
       topK: options.stage0_topK ?? 600,
       filters: options.stage0_filters ?? {},
       overrideSourceVector: sourceVectorOverride,
       sourcePageRange
+    }, options.stage0_hybridAlpha)
+
+    // Vectors from different embedding models are not comparable
+    if (stage0Result.candidateIds.length > 0) {
+      const embeddingModels = await fetchEmbeddingModels([sourceDocId, ...stage0Result.candidateIds])
+      const sourceModel = embeddingModels.get(sourceDocId) ?? resolveEmbeddingModel(null)
+      const sameModel = keepCandidates(stage0Result, id => embeddingModels.get(id) === sourceModel)
+      if (sameModel.candidateIds.length < stage0Result.candidateIds.length) {
+        logger.info('Stage 0: candidates embedded with other models removed', {
+          sourceDocId,
+          sourceModel,
+          removed: stage0Result.candidateIds.length - sameModel.candidateIds.length
+        })
+      }
+      stage0Result = sameModel
+    }
+
+    // Collapse version chains before the expensive stages
+    if (options.latestVersionsOnly && stage0Result.candidateIds.length > 0) {
+      const latestIds = new Set(await filterToLatestVersions(stage0Result.candidateIds))
+      const latest = keepCandidates(stage0Result, id => latestIds.has(id))
+      logger.info('Stage 0: superseded versions removed', {
+        sourceDocId,
+        removed: stage0Result.candidateIds.length - latest.candidateIds.length
+      })
+      stage0Result = latest
+    }
+
+    reportProgress({
+      stage: 'stage0',
+      mode: stage0Mode,
+      candidates: stage0Result.candidateIds.length,
+      timeMs: stage0Result.timeMs
     })
 
     if (stage0Result.candidateIds.length === 0) {
@@ -131,7 +207,8 @@ export async function executeSimilaritySearch(
           stage0_candidates: 0,
           stage1_candidates: 0,
           final_results: 0
-        }
+        },
+        stage0_mode: stage0Mode
       }
     }
 
@@ -184,7 +261,8 @@ export async function executeSimilaritySearch(
             stage0_candidates: stage0Result.candidateIds.length,
             stage1_candidates: 0,
             final_results: 0
-          }
+          },
+          stage0_mode: stage0Mode
         }
       }
     } else {
@@ -200,6 +278,13 @@ export async function executeSimilaritySearch(
       }
     }
 
+    reportProgress({
+      stage: 'stage1',
+      skipped: !shouldRunStage1,
+      candidates: stage1Result.candidateIds.length,
+      timeMs: stage1Result.timeMs
+    })
+
     // ============================================================
     // STAGE 2: Parallel Final Scoring with Section Detection
     // ============================================================
@@ -263,10 +348,15 @@ export async function executeSimilaritySearch(
         fallbackEnabled: options.stage2_fallbackEnabled ?? true,
         timeout: options.stage2_timeout ?? 180000,
         sourceChunksOverride: sourceChunks,
-        sourcePageRange
+        sourcePageRange,
+        onProgress: options.onProgress
+          ? progress => reportProgress({ stage: 'stage2', ...progress })
+          : undefined
       }
     )
 
+    await attachMatchedTables(sourceDoc, stage2Results, sourcePageRange)
+
     // ============================================================
     // COMPLETE: Return Results with Timing
     // ============================================================
@@ -276,6 +366,7 @@ export async function executeSimilaritySearch(
       sourceDocId,
       totalTimeMs: totalTimeMs,
       stage0: {
+        mode: stage0Mode,
         durationMs: stage0Result.timeMs,
         candidateCount: stage0Result.candidateIds.length
       },
@@ -301,7 +392,8 @@ export async function executeSimilaritySearch(
         stage0_candidates: stage0Result.candidateIds.length,
         stage1_candidates: stage1Result.candidateIds.length,
         final_results: stage2Results.length
-      }
+      },
+      stage0_mode: stage0Mode
     }
 
   } catch (error) {
@@ -314,6 +406,120 @@ export async function executeSimilaritySearch(
   }
 }
 
+/**
+ * Pair the source document's tables with each result's tables
+ * Tables on excluded pages (and outside the source page range) are skipped.
+ * Failures are logged and leave results without matched tables.
+ */
+async function attachMatchedTables(
+  sourceDoc: SupabaseDocumentRecord,
+  results: SimilarityResult[],
+  sourcePageRange?: SimilaritySearchOptions['sourcePageRange']
+): Promise<void> {
+  if (results.length === 0) return
+
+  const excludedPages = (metadata: unknown) => collectExcludedPages(
+    getMatchingExclusionRanges(metadata && typeof metadata === 'object' ? metadata as BusinessMetadata : null)
+  )
+  const keep = (tables: TableVector[], metadata: unknown) => {
+    const excluded = excludedPages(metadata)
+    return tables.filter(table => !excluded.has(table.pageNumber))
+  }
+
+  try {
+    const sourceTables = keep(await fetchTableVectors([sourceDoc.id]), sourceDoc['metadata'])
+      .filter(table => !sourcePageRange
+        || (table.pageNumber >= sourcePageRange.start_page && table.pageNumber <= sourcePageRange.end_page))
+    if (sourceTables.length === 0) return
+
+    const targetTables = new Map<string, TableVector[]>()
+    for (const table of await fetchTableVectors(results.map(result => result.document.id))) {
+      const tables = targetTables.get(table.documentId) ?? []
+      tables.push(table)
+      targetTables.set(table.documentId, tables)
+    }
+
+    let matchedCount = 0
+    for (const result of results) {
+      const tables = keep(targetTables.get(result.document.id) ?? [], result.document['metadata'])
+      const matches = matchTables(sourceTables, tables)
+      if (matches.length > 0) {
+        result.matchedTables = matches
+        matchedCount += matches.length
+      }
+    }
+
+    logger.info('Matched tables across results', {
+      sourceDocId: sourceDoc.id,
+      sourceTables: sourceTables.length,
+      matchedTables: matchedCount
+    })
+  } catch (error) {
+    logger.warn('Table matching failed; returning results without matched tables', {
+      sourceDocId: sourceDoc.id,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
+/**
+ * Dispatch Stage 0 to the requested retrieval mode
+ */
+async function runStage0(
+  sourceDocId: string,
+  mode: Stage0RetrievalMode,
+  retrievalOptions: Stage0RetrievalOptions,
+  hybridAlpha?: number
+): Promise<Stage0Result> {
+  switch (mode) {
+    case 'sparse':
+      return stage0SparseRetrieval(sourceDocId, retrievalOptions)
+    case 'hybrid':
+      return stage0HybridRetrieval(sourceDocId, { ...retrievalOptions, alpha: hybridAlpha })
+    case 'dense':
+    default:
+      return stage0CandidateRetrieval(sourceDocId, retrievalOptions)
+  }
+}
+
+function keepCandidates(result: Stage0Result, keep: (id: string) => boolean): Stage0Result {
+  const kept = result.candidateIds.map(keep)
+  return {
+    ...result,
+    candidateIds: result.candidateIds.filter((_, i) => kept[i]),
+    scores: result.scores.filter((_, i) => kept[i])
+  }
+}
+
+/**
+ * Embedding model per document (documents.embedding_model)
+ * Ids are looked up in chunks: PostgREST `in` filters go in the query string.
+ */
+async function fetchEmbeddingModels(documentIds: string[]): Promise<Map<string, string>> {
+  const models = new Map<string, string>()
+  const supabase = await createServiceClient()
+  try {
+    for (let i = 0; i < documentIds.length; i += 100) {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, embedding_model')
+        .in('id', documentIds.slice(i, i + 100))
+        .returns<Array<{ id: string; embedding_model: string | null }>>()
+
+      if (error) {
+        throw new Error(`Failed to load embedding models: ${error.message}`)
+      }
+
+      for (const document of data ?? []) {
+        models.set(document.id, resolveEmbeddingModel(document.embedding_model))
+      }
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+  return models
+}
+
 function computeCentroidFromChunks(chunks: Chunk[]): number[] {
   if (!Array.isArray(chunks) || chunks.length === 0) {
     throw new Error('Cannot compute centroid from empty chunk collection')
@@ -598,8 +804,14 @@ export async function validateDocumentForSimilarity(
     }
 
     // Warnings (non-blocking)
-    if (doc.embedding_model !== 'text-embedding-004') {
-      warnings.push(`Unexpected embedding model: ${doc.embedding_model}`)
+    // Only documents embedded with the same model are compared
+    const embeddingModel = resolveEmbeddingModel(doc.embedding_model)
+    const activeModel = await getEmbeddingModelId()
+    if (embeddingModel !== activeModel) {
+      warnings.push(
+        `Embedded with ${embeddingModel}; new uploads use ${activeModel}, ` +
+        'so only documents embedded with the same model are compared'
+      )
     }
 
     return {
@@ -0,0 +1,496 @@
+/**
+ * Similarity Result Export
+ * Renders a stored similarity search run as CSV, XLSX or a PDF report so
+ * reviewers can take scores and matched page ranges into memos
+ *
+ * - CSV: one row per target document
+ * - XLSX: "Results" sheet (one row per target) + "Sections" sheet (one row per matched section)
+ * - PDF: formatted report with source/target metadata, scores, section summary and page ranges
+ */
+
+import { strToU8, zipSync } from 'fflate'
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import { generateSectionSummary } from './core/section-detection'
+import { neutralizeFormula, renderCsv } from '@/lib/utils/csv'
+import type { SectionMatch } from './types'
+import type { SimilaritySearchType } from './search-history'
+
+export type SimilarityExportFormat = 'csv' | 'xlsx' | 'pdf'
+
+export const SIMILARITY_EXPORT_FORMATS: readonly SimilarityExportFormat[] = ['csv', 'xlsx', 'pdf']
+
+export const SIMILARITY_EXPORT_CONTENT_TYPES: Record<SimilarityExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf'
+}
+
+export interface ExportDocumentInfo {
+  id: string
+  title: string
+  filename: string
+  page_count: number | null
+  law_firm: string | null
+  fund_manager: string | null
+  fund_admin: string | null
+  jurisdiction: string | null
+}
+
+export interface ExportResultRow {
+  rank: number
+  document: ExportDocumentInfo
+  sourceScore: number
+  targetScore: number
+  lengthRatio: number | null
+  matchedSourceCharacters: number
+  matchedTargetCharacters: number
+  sections: SectionMatch[]
+  summary: string
+}
+
+export interface SimilarityExportInput {
+  searchType: SimilaritySearchType
+  createdAt: string
+  isStale: boolean
+  sourceDocument: ExportDocumentInfo
+  results: unknown[]
+}
+
+const finiteNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+
+const optionalString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim().length > 0 ? value : null
+
+/**
+ * Pull the fields exports need out of a document record (stored result or documents row)
+ */
+export function toExportDocumentInfo(document: Record<string, unknown>): ExportDocumentInfo {
+  const metadata = document['metadata'] && typeof document['metadata'] === 'object'
+    ? document['metadata'] as Record<string, unknown>
+    : {}
+  const id = typeof document['id'] === 'string' ? document['id'] : ''
+  const filename = optionalString(document['filename']) ?? `${id}.pdf`
+
+  return {
+    id,
+    title: optionalString(document['title']) ?? filename,
+    filename,
+    page_count: finiteNumber(document['page_count']),
+    law_firm: optionalString(metadata['law_firm']),
+    fund_manager: optionalString(metadata['fund_manager']),
+    fund_admin: optionalString(metadata['fund_admin']),
+    jurisdiction: optionalString(metadata['jurisdiction'])
+  }
+}
+
+/**
+ * Normalize stored results (similar-v2 or selected-search shape) into export rows
+ * Both shapes carry `document`, `scores` and `sections`; malformed entries are skipped.
+ */
+export function buildExportRows(results: unknown[]): ExportResultRow[] {
+  const rows: ExportResultRow[] = []
+
+  for (const entry of results) {
+    if (!entry || typeof entry !== 'object') continue
+    const record = entry as Record<string, unknown>
+    const document = record['document']
+    if (!document || typeof document !== 'object') continue
+
+    const scores = record['scores'] && typeof record['scores'] === 'object'
+      ? record['scores'] as Record<string, unknown>
+      : {}
+    const sections = Array.isArray(record['sections']) ? record['sections'] as SectionMatch[] : []
+
+    rows.push({
+      rank: rows.length + 1,
+      document: toExportDocumentInfo(document as Record<string, unknown>),
+      sourceScore: finiteNumber(scores['sourceScore']) ?? 0,
+      targetScore: finiteNumber(scores['targetScore']) ?? 0,
+      lengthRatio: finiteNumber(scores['lengthRatio']),
+      matchedSourceCharacters: finiteNumber(scores['matchedSourceCharacters']) ?? 0,
+      matchedTargetCharacters: finiteNumber(scores['matchedTargetCharacters']) ?? 0,
+      sections,
+      summary: generateSectionSummary(sections)
+    })
+  }
+
+  return rows
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+// Matches the UI, which shows the ratio rather than the stored percentage
+const formatLengthRatio = (value: number | null) => value === null ? '' : (value / 100).toFixed(2)
+
+const formatSectionRanges = (sections: SectionMatch[]) =>
+  sections
+    .map(section => `p. ${section.docA_pageRange} -> p. ${section.docB_pageRange} (${formatPercent(section.avgScore)})`)
+    .join('; ')
+
+export function buildExportFilename(sourceDocument: ExportDocumentInfo, format: SimilarityExportFormat): string {
+  const base = sourceDocument.title
+    .replace(/\.pdf$/i, '')
+    .replace(/[^a-zA-Z0-9._-]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 80)
+  return `${base || 'document'}-similarity.${format}`
+}
+
+// ---------------------------------------------------------------------------
+// Tabular exports (CSV / XLSX)
+// ---------------------------------------------------------------------------
+
+type CellValue = string | number | null
+
+const RESULT_COLUMNS = [
+  'Rank',
+  'Title',
+  'Filename',
+  'Law Firm',
+  'Fund Manager',
+  'Fund Admin',
+  'Jurisdiction',
+  'Pages',
+  'Source Score (%)',
+  'Target Score (%)',
+  'Length Ratio',
+  'Matched Source Characters',
+  'Matched Target Characters',
+  'Sections',
+  'Section Summary',
+  'Section Page Ranges'
+]
+
+const SECTION_COLUMNS = [
+  'Rank',
+  'Title',
+  'Source Pages',
+  'Target Pages',
+  'Average Score (%)',
+  'Chunks',
+  'Reusable'
+]
+
+const toPercentCell = (value: number) => Number((value * 100).toFixed(2))
+
+function resultRowCells(row: ExportResultRow): CellValue[] {
+  return [
+    row.rank,
+    row.document.title,
+    row.document.filename,
+    row.document.law_firm,
+    row.document.fund_manager,
+    row.document.fund_admin,
+    row.document.jurisdiction,
+    row.document.page_count,
+    toPercentCell(row.sourceScore),
+    toPercentCell(row.targetScore),
+    row.lengthRatio === null ? null : Number((row.lengthRatio / 100).toFixed(4)),
+    row.matchedSourceCharacters,
+    row.matchedTargetCharacters,
+    row.sections.length,
+    row.summary,
+    formatSectionRanges(row.sections)
+  ]
+}
+
+function sectionRowCells(rows: ExportResultRow[]): CellValue[][] {
+  return rows.flatMap(row =>
+    row.sections.map(section => [
+      row.rank,
+      row.document.title,
+      section.docA_pageRange,
+      section.docB_pageRange,
+      toPercentCell(section.avgScore),
+      section.chunkCount,
+      section.reusable ? 'Yes' : 'No'
+    ])
+  )
+}
+
+/**
+ * One row per target document; section page ranges are joined into a single column
+ */
+export function renderSimilarityCsv(rows: ExportResultRow[]): string {
+  return renderCsv(RESULT_COLUMNS, rows.map(resultRowCells))
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+
+const columnLetter = (index: number): string => {
+  let letter = ''
+  let remaining = index + 1
+  while (remaining > 0) {
+    const offset = (remaining - 1) % 26
+    letter = String.fromCharCode(65 + offset) + letter
+    remaining = Math.floor((remaining - 1) / 26)
+  }
+  return letter
+}
+
+function renderWorksheet(header: string[], body: CellValue[][]): string {
+  const renderRow = (cells: CellValue[], rowIndex: number, isHeader: boolean) => {
+    const rendered = cells.map((value, columnIndex) => {
+      const ref = `${columnLetter(columnIndex)}${rowIndex + 1}`
+      const style = isHeader ? ' s="1"' : ''
+      if (value === null) return `<c r="${ref}"${style}/>`
+      if (typeof value === 'number') return `<c r="${ref}"${style}><v>${value}</v></c>`
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(neutralizeFormula(value))}</t></is></c>`
+    })
+    return `<row r="${rowIndex + 1}">${rendered.join('')}</row>`
+  }
+
+  const rows = [
+    renderRow(header, 0, true),
+    ...body.map((cells, index) => renderRow(cells, index + 1, false))
+  ]
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${rows.join('')}</sheetData>` +
+    '</worksheet>'
+}
+
+/**
+ * Minimal SpreadsheetML workbook: inline strings, bold header row, frozen header
+ */
+export function renderSimilarityXlsx(rows: ExportResultRow[]): Uint8Array {
+  const sheets = [
+    { name: 'Results', xml: renderWorksheet(RESULT_COLUMNS, rows.map(resultRowCells)) },
+    { name: 'Sections', xml: renderWorksheet(SECTION_COLUMNS, sectionRowCells(rows)) }
+  ]
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets.map((_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      ).join('') +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets>' +
+      sheets.map((sheet, index) => `<sheet name="${sheet.name}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+      '</sheets>' +
+      '</workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheets.map((_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      ).join('') +
+      `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      '</Relationships>'
+    ),
+    'xl/styles.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>'
+    )
+  }
+
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = strToU8(sheet.xml)
+  })
+
+  return zipSync(files, { level: 6 })
+}
+
+// ---------------------------------------------------------------------------
+// PDF report
+// ---------------------------------------------------------------------------
+
+const PAGE_WIDTH = 612   // US Letter
+const PAGE_HEIGHT = 792
+const MARGIN = 50
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+// Characters outside WinAnsi cannot be drawn with the standard fonts
+const NON_WIN_ANSI = /[^\x20-\x7E\xA0-\xFF\u2013\u2014\u2018\u2019\u201C\u201D\u2022\u2026\u20AC]/g
+
+const toWinAnsi = (text: string) => text.replace(/↔/g, '<->').replace(NON_WIN_ANSI, '?')
+
+interface ReportWriter {
+  text: (value: string, options?: { size?: number; bold?: boolean; color?: [number, number, number]; indent?: number }) => void
+  gap: (height: number) => void
+  rule: () => void
+  ensureSpace: (height: number) => void
+}
+
+function createReportWriter(pdfDoc: PDFDocument, regular: PDFFont, bold: PDFFont): ReportWriter {
+  let page: PDFPage = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let cursorY = PAGE_HEIGHT - MARGIN
+
+  const ensureSpace = (height: number) => {
+    if (cursorY - height < MARGIN) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      cursorY = PAGE_HEIGHT - MARGIN
+    }
+  }
+
+  const wrap = (value: string, font: PDFFont, size: number, width: number): string[] => {
+    const lines: string[] = []
+    for (const paragraph of value.split(/\r?\n/)) {
+      let line = ''
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word
+        if (line && font.widthOfTextAtSize(candidate, size) > width) {
+          lines.push(line)
+          line = word
+        } else {
+          line = candidate
+        }
+      }
+      lines.push(line)
+    }
+    return lines
+  }
+
+  return {
+    text: (value, options = {}) => {
+      const size = options.size ?? 10
+      const font = options.bold ? bold : regular
+      const indent = options.indent ?? 0
+      const lineHeight = size * 1.35
+      const [r, g, b] = options.color ?? [0.1, 0.1, 0.1]
+
+      for (const line of wrap(toWinAnsi(value), font, size, CONTENT_WIDTH - indent)) {
+        ensureSpace(lineHeight)
+        cursorY -= lineHeight
+        page.drawText(line, { x: MARGIN + indent, y: cursorY, size, font, color: rgb(r, g, b) })
+      }
+    },
+    gap: height => {
+      cursorY -= height
+    },
+    rule: () => {
+      ensureSpace(8)
+      cursorY -= 4
+      page.drawLine({
+        start: { x: MARGIN, y: cursorY },
+        end: { x: PAGE_WIDTH - MARGIN, y: cursorY },
+        thickness: 0.5,
+        color: rgb(0.75, 0.75, 0.75)
+      })
+      cursorY -= 4
+    },
+    ensureSpace
+  }
+}
+
+const describeMetadata = (document: ExportDocumentInfo) => [
+  `Law Firm: ${document.law_firm ?? '-'}`,
+  `Fund Manager: ${document.fund_manager ?? '-'}`,
+  `Jurisdiction: ${document.jurisdiction ?? '-'}`
+].join('   |   ')
+
+/**
+ * Formatted report: source header, then one block per target with scores,
+ * section summary and the matched page ranges
+ */
+export async function renderSimilarityPdfReport(
+  input: SimilarityExportInput,
+  rows: ExportResultRow[]
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create()
+  pdfDoc.setTitle(`Similarity report - ${input.sourceDocument.title}`)
+  pdfDoc.setCreationDate(new Date())
+
+  const regular = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+  const writer = createReportWriter(pdfDoc, regular, bold)
+  const muted: [number, number, number] = [0.4, 0.4, 0.4]
+
+  writer.text('Similarity Report', { size: 18, bold: true })
+  writer.gap(6)
+  writer.text(`Source: ${input.sourceDocument.title}`, { size: 12, bold: true })
+  writer.text(
+    `${input.sourceDocument.filename}${input.sourceDocument.page_count ? ` - ${input.sourceDocument.page_count} pages` : ''}`,
+    { color: muted }
+  )
+  writer.text(describeMetadata(input.sourceDocument))
+  writer.text(`Fund Admin: ${input.sourceDocument.fund_admin ?? '-'}`)
+  writer.gap(4)
+  writer.text(
+    `${input.searchType === 'selected' ? 'Selected search' : 'General search'} run ${new Date(input.createdAt).toLocaleString('en-US')}` +
+    ` - ${rows.length} result${rows.length === 1 ? '' : 's'}`,
+    { size: 9, color: muted }
+  )
+  if (input.isStale) {
+    writer.text(
+      'A document in this search has been reprocessed since it ran, so scores may be out of date.',
+      { size: 9, color: [0.75, 0.35, 0] }
+    )
+  }
+  writer.rule()
+
+  if (rows.length === 0) {
+    writer.gap(6)
+    writer.text('No similar documents were found for this search.', { color: muted })
+  }
+
+  for (const row of rows) {
+    writer.ensureSpace(90)
+    writer.gap(8)
+    writer.text(`${row.rank}. ${row.document.title}`, { size: 12, bold: true })
+    writer.text(
+      `${row.document.filename}${row.document.page_count ? ` - ${row.document.page_count} pages` : ''}`,
+      { size: 9, color: muted }
+    )
+    writer.text(describeMetadata(row.document), { size: 9 })
+    writer.gap(2)
+    writer.text(
+      [
+        `Source score: ${formatPercent(row.sourceScore)}`,
+        `Target score: ${formatPercent(row.targetScore)}`,
+        row.lengthRatio !== null ? `Length ratio: ${formatLengthRatio(row.lengthRatio)}` : null,
+        `Matched characters: ${row.matchedSourceCharacters.toLocaleString('en-US')} / ${row.matchedTargetCharacters.toLocaleString('en-US')}`
+      ].filter(Boolean).join('   |   ')
+    )
+    writer.text(`Summary: ${row.summary}`, { size: 9 })
+
+    if (row.sections.length > 0) {
+      writer.gap(2)
+      writer.text('Matched sections (source pages -> target pages)', { size: 9, bold: true })
+      for (const section of row.sections) {
+        writer.text(
+          `p. ${section.docA_pageRange} -> p. ${section.docB_pageRange}   ${formatPercent(section.avgScore)}` +
+          `   ${section.chunkCount} chunk${section.chunkCount === 1 ? '' : 's'}${section.reusable ? '   reusable' : ''}`,
+          { size: 9, indent: 12 }
+        )
+      }
+    }
+
+    writer.rule()
+  }
+
+  return pdfDoc.save()
+}
@@ -0,0 +1,232 @@
+/**
+ * Result Shaping
+ * Turns raw pipeline results into the payloads returned by similar-v2 and
+ * selected-search. Shared by the synchronous routes and async similarity jobs
+ * so both paths return identical results.
+ */
+
+import type { SimilaritySearchResult } from './orchestrator'
+import type { SectionMatch, SimilarityResult, TableMatch } from './types'
+
+export interface GeneralShapingOptions {
+  sourceTotalCharacters: number | null
+  sourceMinScore: number
+  targetMinScore: number
+  topK?: number
+}
+
+export type GeneralSimilarityResult = SimilarityResult & {
+  scores: SimilarityResult['scores'] & { lengthRatio: number | null }
+}
+
+export interface SelectedSimilarityResult {
+  document: {
+    id: string
+    title: string
+    filename: string
+    file_size: number
+    file_path: string
+    content_type: string
+    user_id: string
+    status: string
+    page_count?: number
+    created_at: string
+    updated_at: string
+    metadata?: Record<string, unknown>
+    total_characters?: number
+  }
+  score: number
+  scores: {
+    sourceScore: number
+    targetScore: number
+    matchedSourceCharacters: number
+    matchedTargetCharacters: number
+    lengthRatio: number | null
+  }
+  matching_chunks: Array<{ text: string; score: number }>
+  sections: SectionMatch[]
+  matched_tables: TableMatch[]
+}
+
+export type SelectedTargetDocument = Record<string, unknown> & { id: string }
+
+export interface SelectedShapingOptions {
+  userId: string
+  sourceTotalCharacters: number | null
+  targetDocuments: SelectedTargetDocument[]
+  includeUnmatchedTargets?: boolean  // Append zero-score rows for targets below threshold (final results only)
+}
+
+const finiteNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+
+const computeLengthRatio = (sourceTotalCharacters: number | null, targetTotalCharacters: number | null) =>
+  sourceTotalCharacters && targetTotalCharacters
+    ? (sourceTotalCharacters / targetTotalCharacters) * 100
+    : null
+
+/**
+ * Apply score thresholds, attach length ratio and cap to topK (similar-v2)
+ */
+export function shapeGeneralResults(
+  results: SimilarityResult[],
+  options: GeneralShapingOptions
+): GeneralSimilarityResult[] {
+  const filteredResults = results.filter(result =>
+    result.scores.sourceScore >= options.sourceMinScore &&
+    result.scores.targetScore >= options.targetMinScore
+  )
+
+  const enrichedResults = filteredResults.map(result => {
+    const targetTotalCharacters =
+      finiteNumber(result.document.total_characters) ?? finiteNumber(result.document.effective_chunk_count)
+
+    return {
+      ...result,
+      scores: {
+        ...result.scores,
+        lengthRatio: computeLengthRatio(options.sourceTotalCharacters, targetTotalCharacters)
+      }
+    }
+  })
+
+  return options.topK !== undefined
+    ? enrichedResults.slice(0, options.topK)
+    : enrichedResults
+}
+
+/**
+ * Format results for the Selected Search flow (selected-search)
+ */
+export function shapeSelectedResults(
+  results: SimilarityResult[],
+  options: SelectedShapingOptions
+): SelectedSimilarityResult[] {
+  const { userId, sourceTotalCharacters, targetDocuments } = options
+
+  const formattedResults: SelectedSimilarityResult[] = results.map(result => {
+    const targetDoc = targetDocuments.find(doc => doc.id === result.document.id)
+    const targetTotalCharacters =
+      finiteNumber(result.document.total_characters) ?? finiteNumber(targetDoc?.total_characters)
+
+    return {
+      document: {
+        id: result.document.id,
+        title: result.document.title,
+        filename: result.document.filename,
+        file_size: (targetDoc?.file_size as number) || 0,
+        file_path: (targetDoc?.file_path as string) || '',
+        content_type: (targetDoc?.content_type as string) || 'application/pdf',
+        user_id: (targetDoc?.user_id as string) || userId,
+        status: (targetDoc?.status as string) || 'completed',
+        page_count: result.document.page_count,
+        created_at: (targetDoc?.created_at as string) || new Date().toISOString(),
+        updated_at: (targetDoc?.updated_at as string) || new Date().toISOString(),
+        metadata: targetDoc?.metadata as Record<string, unknown> | undefined,
+        total_characters: targetTotalCharacters ?? undefined
+      },
+      score: result.scores.sourceScore,
+      scores: {
+        sourceScore: result.scores.sourceScore,
+        targetScore: result.scores.targetScore,
+        matchedSourceCharacters: result.scores.matchedSourceCharacters,
+        matchedTargetCharacters: result.scores.matchedTargetCharacters,
+        lengthRatio: computeLengthRatio(sourceTotalCharacters, targetTotalCharacters)
+      },
+      matching_chunks: result.sections.map(section => ({
+        text: `Pages ${section.docB_pageRange} (${section.chunkCount} chunks, avg score: ${(section.avgScore * 100).toFixed(1)}%)`,
+        score: section.avgScore
+      })).slice(0, 5), // Limit to top 5 sections
+      sections: result.sections,
+      matched_tables: result.matchedTables ?? []
+    }
+  })
+
+  if (options.includeUnmatchedTargets) {
+    // Add any target documents with no results (below threshold)
+    const resultsDocIds = new Set(formattedResults.map(r => r.document.id))
+    const missingDocs = targetDocuments.filter(doc => !resultsDocIds.has(doc.id))
+
+    for (const doc of missingDocs) {
+      const missingTargetCharacters = finiteNumber(doc.total_characters)
+      formattedResults.push({
+        document: {
+          id: doc.id,
+          title: doc.title as string,
+          filename: doc.filename as string,
+          file_size: doc.file_size as number,
+          file_path: doc.file_path as string,
+          content_type: doc.content_type as string,
+          user_id: (doc.user_id as string) || userId,
+          status: doc.status as string,
+          page_count: doc.page_count as number | undefined,
+          created_at: doc.created_at as string,
+          updated_at: doc.updated_at as string,
+          metadata: doc.metadata as Record<string, unknown> | undefined,
+          total_characters: missingTargetCharacters ?? undefined
+        },
+        score: 0,
+        scores: {
+          sourceScore: 0,
+          targetScore: 0,
+          matchedSourceCharacters: 0,
+          matchedTargetCharacters: 0,
+          lengthRatio: computeLengthRatio(sourceTotalCharacters, missingTargetCharacters)
+        },
+        matching_chunks: [],
+        sections: [],
+        matched_tables: []
+      })
+    }
+  }
+
+  // Sort by score descending
+  formattedResults.sort((a, b) => b.score - a.score)
+
+  return formattedResults
+}
+
+/**
+ * Build the similar-v2 response body
+ */
+export function buildGeneralSearchResponse(input: {
+  searchId: string | null
+  documentId: string
+  documentTitle: string
+  results: GeneralSimilarityResult[]
+  searchResult: SimilaritySearchResult
+  config: Record<string, unknown>
+}) {
+  const { searchResult } = input
+
+  return {
+    search_id: input.searchId,
+    document_id: input.documentId,
+    document_title: input.documentTitle,
+    results: input.results,
+    total_results: input.results.length,
+    timing: {
+      stage0_ms: searchResult.timing.stage0_ms,
+      stage1_ms: searchResult.timing.stage1_ms,
+      stage2_ms: searchResult.timing.stage2_ms,
+      total_ms: searchResult.timing.total_ms
+    },
+    stages: {
+      stage0_candidates: searchResult.stages.stage0_candidates,
+      stage1_candidates: searchResult.stages.stage1_candidates,
+      final_results: searchResult.stages.final_results
+    },
+    config: input.config,
+    version: '2.0.0',
+    features: {
+      adaptive_scoring: true,
+      bidirectional_matching: true,
+      section_detection: true,
+      effective_chunk_count: true,
+      sparse_retrieval: true,
+      hybrid_retrieval: true,
+      table_matching: true
+    },
+    timestamp: new Date().toISOString()
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Similarity Search History
+ * Persists similar-v2 / selected-search runs so past results can be reopened
+ * without re-running the 3-stage pipeline
+ *
+ * Runs are marked stale by a database trigger when the source document or any
+ * target document is reprocessed (see 20251108100000_similarity_searches.sql)
+ */
+
+import { logger } from '@/lib/logger'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+
+export type SimilaritySearchType = 'general' | 'selected'
+
+export interface SimilaritySearchRunInput {
+  userId: string
+  sourceDocumentId: string
+  searchType: SimilaritySearchType
+  targetDocumentIds: string[]
+  options: Record<string, unknown>
+  timing?: Record<string, unknown>
+  stages?: Record<string, unknown>
+  results: Array<{ document: { id: string } }>
+}
+
+/**
+ * Columns returned when listing runs (omits the heavy results payload)
+ */
+export const SIMILARITY_SEARCH_SUMMARY_COLUMNS =
+  'id, source_document_id, search_type, options, timing, stages, result_count, is_stale, stale_reason, stale_at, created_at'
+
+export interface SimilaritySearchSummary {
+  id: string
+  source_document_id: string
+  search_type: SimilaritySearchType
+  options: Record<string, unknown>
+  timing: Record<string, unknown> | null
+  stages: Record<string, unknown> | null
+  result_count: number
+  is_stale: boolean
+  stale_reason: string | null
+  stale_at: string | null
+  created_at: string
+}
+
+export interface StoredSimilaritySearch extends SimilaritySearchSummary {
+  target_document_ids: string[]
+  results: unknown[]
+}
+
+/**
+ * Store a completed similarity search run
+ * Persistence failures are logged and swallowed so they never fail the search itself
+ *
+ * @returns The stored run id, or null if the run could not be saved
+ */
+export async function saveSimilaritySearchRun(input: SimilaritySearchRunInput): Promise<string | null> {
+  const targetDocumentIds = Array.from(new Set([
+    ...input.targetDocumentIds,
+    ...input.results.map(result => result.document.id)
+  ]))
+
+  const supabase = await createServiceClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('similarity_searches')
+      .insert({
+        user_id: input.userId,
+        source_document_id: input.sourceDocumentId,
+        search_type: input.searchType,
+        target_document_ids: targetDocumentIds,
+        options: input.options,
+        timing: input.timing ?? null,
+        stages: input.stages ?? null,
+        results: input.results,
+        result_count: input.results.length
+      })
+      .select('id')
+      .single<{ id: string }>()
+
+    if (error || !data) {
+      logger.warn('Failed to persist similarity search run', {
+        sourceDocumentId: input.sourceDocumentId,
+        searchType: input.searchType,
+        error: error?.message
+      })
+      return null
+    }
+
+    return data.id
+  } catch (error) {
+    logger.warn('Failed to persist similarity search run', {
+      sourceDocumentId: input.sourceDocumentId,
+      searchType: input.searchType,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    return null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
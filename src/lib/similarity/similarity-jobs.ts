@@ -0,0 +1,543 @@
+/**
+ * Async Similarity Jobs
+ * Runs similar-v2 / selected-search outside the HTTP request, following the
+ * document_jobs lifecycle (queued → processing → completed | failed).
+ *
+ * Workers persist stage progress and the current top results on the job row;
+ * /api/similarity-jobs/[jobId]/events streams those updates to the client.
+ */
+
+import { logger } from '@/lib/logger'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { executeSimilaritySearch, type SimilaritySearchOptions, type SimilaritySearchResult } from './orchestrator'
+import {
+  buildGeneralSearchResponse,
+  shapeGeneralResults,
+  shapeSelectedResults,
+  type GeneralShapingOptions,
+  type SelectedTargetDocument
+} from './result-shaping'
+import { saveSimilaritySearchRun } from './search-history'
+import type { SimilarityProgressEvent, SimilarityResult } from './types'
+
+export type SimilarityJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+export type SimilarityJobSearchOptions = Omit<SimilaritySearchOptions, 'onProgress'>
+
+export interface GeneralSimilarityJobRequest {
+  searchType: 'general'
+  documentTitle: string
+  searchOptions: SimilarityJobSearchOptions
+  shaping: GeneralShapingOptions
+  config: Record<string, unknown>
+}
+
+export interface SelectedSimilarityJobRequest {
+  searchType: 'selected'
+  searchOptions: SimilarityJobSearchOptions
+  sourceTotalCharacters: number | null
+  targetDocuments: SelectedTargetDocument[]
+  options: Record<string, unknown>
+}
+
+export type SimilarityJobRequest = GeneralSimilarityJobRequest | SelectedSimilarityJobRequest
+
+export interface SimilarityJobProgress {
+  stage: 'queued' | 'stage0' | 'stage1' | 'stage2' | 'finalizing' | 'completed'
+  stage0_mode?: string
+  stage0_candidates?: number
+  stage1_candidates?: number
+  stage1_skipped?: boolean
+  stage2_scored?: number
+  stage2_total?: number
+}
+
+export interface SimilarityJobRecord {
+  id: string
+  user_id: string
+  source_document_id: string
+  search_type: 'general' | 'selected'
+  status: SimilarityJobStatus
+  request: SimilarityJobRequest
+  progress: SimilarityJobProgress | null
+  partial_results: unknown[] | null
+  result: Record<string, unknown> | unknown[] | null
+  search_id: string | null
+  error_message: string | null
+  attempts: number
+  max_attempts: number
+  created_at: string
+  updated_at: string
+  started_at: string | null
+  completed_at: string | null
+}
+
+/**
+ * Columns exposed to clients (omits the stored request)
+ */
+export const SIMILARITY_JOB_PUBLIC_COLUMNS =
+  'id, source_document_id, search_type, status, progress, partial_results, result, search_id, error_message, attempts, created_at, updated_at, started_at, completed_at'
+
+// Minimum spacing between Stage 2 progress writes; stage transitions always flush
+const PROGRESS_FLUSH_INTERVAL_MS = 1000
+
+// A job whose worker stopped updating it (timeout, crash) is reclaimed after this long
+export const SIMILARITY_JOB_STALE_MS = 10 * 60 * 1000
+
+const STALE_JOB_ERROR = 'Similarity job timed out'
+
+/**
+ * Whether a processing job has gone without an update for longer than SIMILARITY_JOB_STALE_MS
+ * Queued jobs are never stale; they wait for a worker.
+ */
+export function isSimilarityJobStale(job: Pick<SimilarityJobRecord, 'status' | 'updated_at'>): boolean {
+  return job.status === 'processing' &&
+    Date.now() - new Date(job.updated_at).getTime() > SIMILARITY_JOB_STALE_MS
+}
+
+/**
+ * Mark a stale processing job failed
+ * Conditional on the observed updated_at, so a job whose worker moved on is left alone.
+ *
+ * @returns true when the job was marked failed
+ */
+export async function failStaleSimilarityJob(job: Pick<SimilarityJobRecord, 'id' | 'updated_at'>): Promise<boolean> {
+  const supabase = await createServiceClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('similarity_jobs')
+      .update({
+        status: 'failed',
+        error_message: STALE_JOB_ERROR,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', job.id)
+      .eq('status', 'processing')
+      .eq('updated_at', job.updated_at)
+      .select('id')
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      logger.warn('Failed to fail stale similarity job', { jobId: job.id, error: error.message })
+      return false
+    }
+
+    const failed = (data?.length ?? 0) > 0
+    if (failed) {
+      logger.warn('Failed stale similarity job', { jobId: job.id })
+    }
+    return failed
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Insert a queued similarity job
+ *
+ * @returns The new job id
+ */
+export async function queueSimilarityJob(input: {
+  userId: string
+  sourceDocumentId: string
+  request: SimilarityJobRequest
+}): Promise<string> {
+  const supabase = await createServiceClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('similarity_jobs')
+      .insert({
+        user_id: input.userId,
+        source_document_id: input.sourceDocumentId,
+        search_type: input.request.searchType,
+        status: 'queued',
+        request: input.request,
+        progress: { stage: 'queued' } satisfies SimilarityJobProgress
+      })
+      .select('id')
+      .single<{ id: string }>()
+
+    if (error || !data) {
+      throw new Error(`Failed to queue similarity job: ${error?.message ?? 'no id returned'}`)
+    }
+
+    logger.info('Similarity job queued', {
+      jobId: data.id,
+      sourceDocumentId: input.sourceDocumentId,
+      searchType: input.request.searchType
+    })
+
+    return data.id
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Kick off a queued job without waiting for it
+ * Triggers the similarity cron worker when CRON_SECRET is set (so the job gets
+ * its own function invocation); otherwise runs it in this process.
+ */
+export function dispatchSimilarityJob(jobId: string, requestUrl: string): void {
+  const cronSecret = process.env['CRON_SECRET']
+
+  if (!cronSecret) {
+    logger.warn('CRON_SECRET not set; running similarity job in-process', { jobId })
+    processSimilarityJob(jobId).catch(error => {
+      logger.error('In-process similarity job failed', error instanceof Error ? error : new Error(String(error)), { jobId })
+    })
+    return
+  }
+
+  try {
+    const cronUrl = new URL('/api/cron/process-similarity-jobs', requestUrl)
+    fetch(cronUrl.toString(), {
+      method: 'GET',
+      headers: {
+        authorization: `Bearer ${cronSecret}`,
+        'user-agent': 'SimilarityJobAutoTrigger'
+      }
+    }).then(response => {
+      if (!response.ok) {
+        logger.warn('Similarity job worker trigger returned non-OK response', {
+          jobId,
+          status: response.status,
+          statusText: response.statusText
+        })
+      }
+    }).catch(error => {
+      logger.warn('Similarity job worker trigger failed', {
+        jobId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    })
+  } catch (error) {
+    logger.warn('Failed to construct similarity worker URL', {
+      jobId,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
+/**
+ * List the oldest claimable similarity jobs (used by the cron worker)
+ * Includes processing jobs whose worker went stale.
+ */
+export async function listClaimableSimilarityJobIds(limit: number): Promise<string[]> {
+  const supabase = await createServiceClient()
+
+  try {
+    const staleBefore = new Date(Date.now() - SIMILARITY_JOB_STALE_MS).toISOString()
+    const { data, error } = await supabase
+      .from('similarity_jobs')
+      .select('id')
+      .or(`status.eq.queued,and(status.eq.processing,updated_at.lt.${staleBefore})`)
+      .order('created_at', { ascending: true })
+      .limit(limit)
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      throw new Error(`Failed to list claimable similarity jobs: ${error.message}`)
+    }
+
+    return (data ?? []).map(row => row.id)
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Claim and execute a queued (or stale processing) similarity job
+ * Safe to call concurrently: only the caller that flips the job to processing runs it
+ *
+ * @returns The final job status, or null if the job was not claimable
+ */
+export async function processSimilarityJob(jobId: string): Promise<SimilarityJobStatus | null> {
+  const job = await claimJob(jobId)
+  if (!job) {
+    return null
+  }
+
+  const startedAt = Date.now()
+  const progressWriter = createProgressWriter(job)
+
+  try {
+    const searchResult = await executeSimilaritySearch(job.source_document_id, {
+      ...job.request.searchOptions,
+      onProgress: event => progressWriter.report(event)
+    })
+
+    await progressWriter.flush({ stage: 'finalizing' })
+
+    const finalPayload = await finalizeJob(job, searchResult)
+
+    const completed = await updateJob(jobId, {
+      status: 'completed',
+      progress: { ...progressWriter.current(), stage: 'completed' },
+      partial_results: null,
+      result: finalPayload.result,
+      search_id: finalPayload.searchId,
+      completed_at: new Date().toISOString()
+    })
+
+    logger.info('Similarity job completed', {
+      jobId,
+      sourceDocumentId: job.source_document_id,
+      searchType: job.search_type,
+      durationMs: Date.now() - startedAt,
+      cancelledDuringRun: !completed
+    })
+
+    return completed ? 'completed' : 'cancelled'
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const shouldRetry = job.attempts < job.max_attempts
+
+    logger.error(
+      'Similarity job failed',
+      error instanceof Error ? error : new Error(String(error)),
+      { jobId, attempt: job.attempts, maxAttempts: job.max_attempts, willRetry: shouldRetry }
+    )
+
+    await updateJob(jobId, shouldRetry
+      ? { status: 'queued', progress: { stage: 'queued' }, partial_results: null, error_message: errorMessage }
+      : { status: 'failed', error_message: errorMessage, completed_at: new Date().toISOString() }
+    )
+
+    return shouldRetry ? 'queued' : 'failed'
+  } finally {
+    progressWriter.stop()
+  }
+}
+
+async function claimJob(jobId: string): Promise<SimilarityJobRecord | null> {
+  const supabase = await createServiceClient()
+
+  try {
+    const { data: current, error: readError } = await supabase
+      .from('similarity_jobs')
+      .select('id, status, attempts, max_attempts, updated_at')
+      .eq('id', jobId)
+      .maybeSingle<Pick<SimilarityJobRecord, 'id' | 'status' | 'attempts' | 'max_attempts' | 'updated_at'>>()
+
+    if (readError || !current) {
+      return null
+    }
+
+    const isStale = isSimilarityJobStale(current)
+    if (current.status !== 'queued' && !isStale) {
+      return null
+    }
+
+    // The stalled run used up the last attempt: fail the job so its stream can finish
+    if (isStale && current.attempts >= current.max_attempts) {
+      await failStaleSimilarityJob(current)
+      return null
+    }
+
+    if (isStale) {
+      logger.warn('Reclaiming stale similarity job', { jobId, attempts: current.attempts })
+    }
+
+    // Conditional update on the observed status/updated_at acts as the lock
+    const { data, error } = await supabase
+      .from('similarity_jobs')
+      .update({
+        status: 'processing',
+        attempts: current.attempts + 1,
+        // A reclaimed job starts over, like a retry
+        ...(isStale ? { progress: { stage: 'queued' }, partial_results: null } : {}),
+        started_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        error_message: null
+      })
+      .eq('id', jobId)
+      .eq('status', current.status)
+      .eq('updated_at', current.updated_at)
+      .select('*')
+      .returns<SimilarityJobRecord[]>()
+
+    if (error) {
+      logger.error('Failed to claim similarity job', new Error(error.message), { jobId })
+      return null
+    }
+
+    return data?.[0] ?? null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Update a processing job; returns false if the job left 'processing' (e.g. cancelled)
+ */
+async function updateJob(jobId: string, fields: Record<string, unknown>): Promise<boolean> {
+  const supabase = await createServiceClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('similarity_jobs')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .eq('status', 'processing')
+      .select('id')
+      .returns<Array<{ id: string }>>()
+
+    if (error) {
+      logger.warn('Failed to update similarity job', { jobId, error: error.message })
+      return false
+    }
+
+    return (data?.length ?? 0) > 0
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+function shapePartialResults(job: SimilarityJobRecord, topResults: SimilarityResult[]): unknown[] {
+  const request = job.request
+  if (request.searchType === 'general') {
+    return shapeGeneralResults(topResults, request.shaping)
+  }
+  return shapeSelectedResults(topResults, {
+    userId: job.user_id,
+    sourceTotalCharacters: request.sourceTotalCharacters,
+    targetDocuments: request.targetDocuments
+  })
+}
+
+/**
+ * Coalesce progress events into periodic job row updates
+ * Writes are serialized so a slow update never overwrites a newer one
+ */
+function createProgressWriter(job: SimilarityJobRecord) {
+  let progress: SimilarityJobProgress = { stage: 'stage0' }
+  let partialResults: unknown[] | null = null
+  let dirty = false
+  let lastFlushAt = 0
+  let timer: NodeJS.Timeout | null = null
+  let chain: Promise<unknown> = Promise.resolve()
+
+  const write = () => {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+    dirty = false
+    lastFlushAt = Date.now()
+    const snapshot = { progress: { ...progress }, partial_results: partialResults }
+    chain = chain.then(() => updateJob(job.id, snapshot)).catch(() => undefined)
+    return chain
+  }
+
+  const applyEvent = (event: SimilarityProgressEvent) => {
+    switch (event.stage) {
+      case 'stage0':
+        progress = { ...progress, stage: 'stage1', stage0_mode: event.mode, stage0_candidates: event.candidates }
+        return true
+      case 'stage1':
+        progress = {
+          ...progress,
+          stage: 'stage2',
+          stage1_candidates: event.candidates,
+          stage1_skipped: event.skipped,
+          stage2_scored: 0,
+          stage2_total: event.candidates
+        }
+        return true
+      case 'stage2':
+        progress = { ...progress, stage: 'stage2', stage2_scored: event.scored, stage2_total: event.total }
+        partialResults = shapePartialResults(job, event.topResults)
+        return event.scored >= event.total
+    }
+  }
+
+  return {
+    report(event: SimilarityProgressEvent) {
+      const forceFlush = applyEvent(event)
+      dirty = true
+
+      if (forceFlush || Date.now() - lastFlushAt >= PROGRESS_FLUSH_INTERVAL_MS) {
+        void write()
+      } else if (!timer) {
+        timer = setTimeout(() => {
+          if (dirty) void write()
+        }, PROGRESS_FLUSH_INTERVAL_MS)
+      }
+    },
+    async flush(next?: Partial<SimilarityJobProgress>) {
+      if (next) {
+        progress = { ...progress, ...next }
+      }
+      await write()
+    },
+    current() {
+      return { ...progress }
+    },
+    stop() {
+      if (timer) {
+        clearTimeout(timer)
+        timer = null
+      }
+    }
+  }
+}
+
+/**
+ * Shape final results exactly like the synchronous routes and store the run
+ */
+async function finalizeJob(
+  job: SimilarityJobRecord,
+  searchResult: SimilaritySearchResult
+): Promise<{ result: Record<string, unknown> | unknown[]; searchId: string | null }> {
+  const request = job.request
+
+  if (request.searchType === 'general') {
+    const results = shapeGeneralResults(searchResult.results, request.shaping)
+    const searchId = await saveSimilaritySearchRun({
+      userId: job.user_id,
+      sourceDocumentId: job.source_document_id,
+      searchType: 'general',
+      targetDocumentIds: [],
+      options: request.config,
+      timing: searchResult.timing,
+      stages: searchResult.stages,
+      results
+    })
+
+    return {
+      searchId,
+      result: buildGeneralSearchResponse({
+        searchId,
+        documentId: job.source_document_id,
+        documentTitle: request.documentTitle,
+        results,
+        searchResult,
+        config: request.config
+      })
+    }
+  }
+
+  const results = shapeSelectedResults(searchResult.results, {
+    userId: job.user_id,
+    sourceTotalCharacters: request.sourceTotalCharacters,
+    targetDocuments: request.targetDocuments,
+    includeUnmatchedTargets: true
+  })
+
+  const searchId = await saveSimilaritySearchRun({
+    userId: job.user_id,
+    sourceDocumentId: job.source_document_id,
+    searchType: 'selected',
+    targetDocumentIds: request.targetDocuments.map(doc => doc.id),
+    options: request.options,
+    timing: searchResult.timing,
+    stages: searchResult.stages,
+    results
+  })
+
+  return { searchId, result: results }
+}
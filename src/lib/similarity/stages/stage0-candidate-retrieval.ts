@@ -4,6 +4,8 @@
  * Reduces 2000+ documents → ~600 candidates in ~5 seconds
  *
  * Purpose: Cast wide net for high recall (don't miss true matches)
+ *
+ * Modes: dense (centroid), sparse (BM25 over chunk_text) and hybrid (RRF of both)
  */
 
 import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
@@ -11,9 +13,24 @@ import { getPineconeIndex } from '@/lib/pinecone'
 import { logger } from '@/lib/logger'
 import { Stage0Result } from '../types'
 
+export interface Stage0RetrievalOptions {
+  topK?: number
+  filters?: Record<string, unknown>
+  overrideSourceVector?: number[]
+  sourcePageRange?: {
+    start_page: number
+    end_page: number
+  }
+}
+
 const PINECONE_OPERATOR_IN = '$in'
 const PINECONE_OPERATOR_EQ = '$eq'
 const PINECONE_OPERATOR_NE = '$ne'
+const PINECONE_OPERATOR_NIN = '$nin'
+const PINECONE_OPERATOR_OR = '$or'
+
+// Keys that scope retrieval to the caller's libraries (see lib/workspaces pineconeScopeFilter)
+const SCOPE_FILTER_KEYS = ['user_id', PINECONE_OPERATOR_OR]
 
 function sanitizeDocumentIdFilter(
   existingFilter: unknown,
@@ -78,15 +95,7 @@ function sanitizeDocumentIdFilter(
  */
 export async function stage0CandidateRetrieval(
   sourceDocId: string,
-  options: {
-    topK?: number
-    filters?: Record<string, unknown>
-    overrideSourceVector?: number[]
-    sourcePageRange?: {
-      start_page: number
-      end_page: number
-    }
-  } = {}
+  options: Stage0RetrievalOptions = {}
 ): Promise<Stage0Result> {
 
   const startTime = Date.now()
@@ -174,7 +183,7 @@ export async function stage0CandidateRetrieval(
         : {})
     })
 
-    const queryResponse = await getPineconeIndex().query({
+    const queryResponse = await (await getPineconeIndex()).query({
       vector: centroidVector,
       topK: topK * 2,  // Get extra to account for deduplication
       filter: pineconeFilter,
@@ -215,11 +224,13 @@ export async function stage0CandidateRetrieval(
     const candidateIds = candidates.map(c => c[0])
     const scores = candidates.map(c => c[1])
 
-    if (candidateIds.length === 0 && 'user_id' in pineconeFilter) {
-      const { user_id: _userFilter, ...fallbackFilter } = pineconeFilter
+    if (candidateIds.length === 0 && SCOPE_FILTER_KEYS.some(key => key in pineconeFilter)) {
+      const fallbackFilter = Object.fromEntries(
+        Object.entries(pineconeFilter).filter(([key]) => !SCOPE_FILTER_KEYS.includes(key))
+      )
 
       try {
-        const fallbackResponse = await getPineconeIndex().query({
+        const fallbackResponse = await (await getPineconeIndex()).query({
           vector: centroidVector,
           topK: topK * 2,
           filter: fallbackFilter as Record<string, unknown>,
@@ -229,13 +240,13 @@ export async function stage0CandidateRetrieval(
 
         const fallbackMatches = (fallbackResponse.matches ?? []).length
         if (fallbackMatches > 0) {
-          logger.warn('Stage 0: user_id filter eliminated all candidates', {
+          logger.warn('Stage 0: library scope filter eliminated all candidates', {
             sourceDocId,
             fallbackMatches
           })
         }
       } catch (fallbackError) {
-        logger.warn('Stage 0: fallback query without user filter failed', {
+        logger.warn('Stage 0: fallback query without scope filter failed', {
           sourceDocId,
           error: fallbackError instanceof Error ? fallbackError.message : String(fallbackError)
         })
@@ -268,42 +279,324 @@ export async function stage0CandidateRetrieval(
   }
 }
 
+interface Bm25CandidateRow {
+  document_id: string
+  score: number
+  matched_chunks: number
+}
+
+const DEFAULT_BM25_QUERY_TERMS = 64
+const SPARSE_METADATA_BATCH_SIZE = 200
+// Filter keys enforced inside the BM25 SQL function rather than post-filtered here
+const SPARSE_SQL_FILTER_KEYS = new Set(['user_id', 'workspace_id', PINECONE_OPERATOR_OR, 'document_id'])
+
+function readEqFilter(condition: unknown): string | undefined {
+  if (typeof condition === 'string') {
+    return condition
+  }
+  if (condition && typeof condition === 'object' && !Array.isArray(condition)) {
+    const eqValue = (condition as Record<string, unknown>)[PINECONE_OPERATOR_EQ]
+    if (typeof eqValue === 'string') {
+      return eqValue
+    }
+  }
+  return undefined
+}
+
+function readInFilter(condition: unknown): string[] {
+  const eqValue = readEqFilter(condition)
+  if (eqValue) {
+    return [eqValue]
+  }
+  if (condition && typeof condition === 'object' && !Array.isArray(condition)) {
+    const inValues = (condition as Record<string, unknown>)[PINECONE_OPERATOR_IN]
+    if (Array.isArray(inValues)) {
+      return inValues.filter((value): value is string => typeof value === 'string')
+    }
+  }
+  return []
+}
+
 /**
- * Alternative: Query using BM25 + RRF (future enhancement)
- * Combines dense (centroid) and sparse (keyword) retrieval
+ * The lexical index is scoped per library: read the user_id / workspace_id
+ * scope added by the API routes (either top-level or inside $or), otherwise
+ * fall back to the source document owner's personal library.
+ */
+function resolveLexicalIndexScope(
+  filters: Record<string, unknown>,
+  sourceOwnerId: string
+): { userId: string; workspaceIds: string[] } {
+  const clauses = [filters]
+  const orClauses = filters[PINECONE_OPERATOR_OR]
+  if (Array.isArray(orClauses)) {
+    for (const clause of orClauses) {
+      if (clause && typeof clause === 'object' && !Array.isArray(clause)) {
+        clauses.push(clause as Record<string, unknown>)
+      }
+    }
+  }
+
+  let userId: string | undefined
+  const workspaceIds = new Set<string>()
+  for (const clause of clauses) {
+    userId = userId ?? readEqFilter(clause['user_id'])
+    for (const workspaceId of readInFilter(clause['workspace_id'])) {
+      workspaceIds.add(workspaceId)
+    }
+  }
+
+  return { userId: userId ?? sourceOwnerId, workspaceIds: Array.from(workspaceIds) }
+}
+
+function extractDocumentIdAllowList(documentIdFilter: Record<string, unknown>): string[] | undefined {
+  const rawIn = documentIdFilter[PINECONE_OPERATOR_IN]
+  if (Array.isArray(rawIn)) {
+    return rawIn.filter((value): value is string => typeof value === 'string')
+  }
+  const rawEq = documentIdFilter[PINECONE_OPERATOR_EQ]
+  if (typeof rawEq === 'string') {
+    return [rawEq]
+  }
+  return undefined
+}
+
+/**
+ * Evaluate a Pinecone-style filter condition against a document metadata value
+ * so sparse candidates honour the same metadata filters as the dense query.
+ */
+function matchesFilterCondition(value: unknown, condition: unknown): boolean {
+  if (condition && typeof condition === 'object' && !Array.isArray(condition)) {
+    const operators = condition as Record<string, unknown>
+    if (PINECONE_OPERATOR_EQ in operators && value !== operators[PINECONE_OPERATOR_EQ]) {
+      return false
+    }
+    if (PINECONE_OPERATOR_NE in operators && value === operators[PINECONE_OPERATOR_NE]) {
+      return false
+    }
+    const allowed = operators[PINECONE_OPERATOR_IN]
+    if (Array.isArray(allowed) && !allowed.includes(value)) {
+      return false
+    }
+    const excluded = operators[PINECONE_OPERATOR_NIN]
+    if (Array.isArray(excluded) && excluded.includes(value)) {
+      return false
+    }
+    return true
+  }
+
+  return value === condition
+}
+
+async function filterCandidatesByMetadata(
+  supabase: Awaited<ReturnType<typeof createServiceClient>>,
+  candidates: Bm25CandidateRow[],
+  filters: Record<string, unknown>
+): Promise<Bm25CandidateRow[]> {
+  const metadataFilters = Object.entries(filters)
+    .filter(([key]) => !SPARSE_SQL_FILTER_KEYS.has(key))
+
+  if (metadataFilters.length === 0 || candidates.length === 0) {
+    return candidates
+  }
+
+  const allowedIds = new Set<string>()
+
+  for (let start = 0; start < candidates.length; start += SPARSE_METADATA_BATCH_SIZE) {
+    const batchIds = candidates
+      .slice(start, start + SPARSE_METADATA_BATCH_SIZE)
+      .map(candidate => candidate.document_id)
+
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id, metadata')
+      .in('id', batchIds)
+      .returns<Array<{ id: string; metadata: Record<string, unknown> | null }>>()
+
+    if (error) {
+      throw new Error(`Failed to load candidate metadata for sparse retrieval: ${error.message}`)
+    }
+
+    for (const record of data ?? []) {
+      const metadata = record.metadata ?? {}
+      const matches = metadataFilters.every(([key, condition]) =>
+        matchesFilterCondition(metadata[key], condition)
+      )
+      if (matches) {
+        allowedIds.add(record.id)
+      }
+    }
+  }
+
+  return candidates.filter(candidate => allowedIds.has(candidate.document_id))
+}
+
+/**
+ * Sparse Stage 0: BM25 retrieval over the user's chunk_text lexical index
+ * Catches documents that share defined terms and clause wording even when
+ * their centroids have drifted apart.
+ *
+ * @param sourceDocId - ID of source document
+ * @param options - Configuration options
+ * @returns Top K candidate document IDs with BM25 scores
+ */
+export async function stage0SparseRetrieval(
+  sourceDocId: string,
+  options: Stage0RetrievalOptions & {
+    maxQueryTerms?: number
+  } = {}
+): Promise<Stage0Result> {
+
+  const startTime = Date.now()
+  const {
+    topK = 600,
+    filters = {},
+    sourcePageRange,
+    maxQueryTerms = DEFAULT_BM25_QUERY_TERMS
+  } = options
+
+  const supabase = await createServiceClient()
+  try {
+    const { data: sourceDoc, error: fetchError } = await supabase
+      .from('documents')
+      .select('id, user_id')
+      .eq('id', sourceDocId)
+      .single<{ id: string; user_id: string }>()
+
+    if (fetchError || !sourceDoc) {
+      throw new Error(`Source document not found: ${sourceDocId}`)
+    }
+
+    const documentIdFilter = sanitizeDocumentIdFilter(filters['document_id'], sourceDocId)
+    const allowList = extractDocumentIdAllowList(documentIdFilter)
+
+    if (allowList && allowList.length === 0) {
+      return { candidateIds: [], scores: [], timeMs: Date.now() - startTime }
+    }
+
+    const scope = resolveLexicalIndexScope(filters, sourceDoc.user_id)
+
+    logger.info('Stage 0: querying BM25 lexical index', {
+      sourceDocId,
+      desiredTopK: topK,
+      maxQueryTerms,
+      ...(sourcePageRange ? { pageRange: sourcePageRange } : {})
+    })
+
+    const { data, error: searchError } = await supabase
+      .rpc('bm25_candidate_documents', {
+        p_user_id: scope.userId,
+        p_source_document_id: sourceDocId,
+        p_start_page: sourcePageRange?.start_page ?? null,
+        p_end_page: sourcePageRange?.end_page ?? null,
+        p_document_ids: allowList ?? null,
+        p_max_terms: maxQueryTerms,
+        p_match_count: topK * 2,  // Get extra to account for metadata post-filtering
+        p_workspace_ids: scope.workspaceIds.length > 0 ? scope.workspaceIds : null
+      })
+
+    if (searchError) {
+      throw new Error(`BM25 lexical search failed: ${searchError.message}`)
+    }
+
+    const rows = (Array.isArray(data) ? data as Bm25CandidateRow[] : []).filter(row =>
+      typeof row.document_id === 'string' &&
+      row.document_id !== sourceDocId &&
+      typeof row.score === 'number' &&
+      Number.isFinite(row.score)
+    )
+
+    const filtered = await filterCandidatesByMetadata(supabase, rows, filters)
+    const candidates = filtered
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+
+    const candidateIds = candidates.map(c => c.document_id)
+    const scores = candidates.map(c => c.score)
+    const timeMs = Date.now() - startTime
+
+    logger.info('Stage 0: completed BM25 retrieval', {
+      sourceDocId,
+      candidateCount: candidateIds.length,
+      filteredOut: rows.length - filtered.length,
+      durationMs: timeMs
+    })
+
+    return { candidateIds, scores, timeMs }
+
+  } catch (error) {
+    const timeMs = Date.now() - startTime
+    logger.error(
+      'Stage 0 sparse retrieval failed',
+      error instanceof Error ? error : new Error(String(error)),
+      { sourceDocId, durationMs: timeMs }
+    )
+    throw error
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Hybrid Stage 0: dense centroid retrieval + BM25 fused with RRF
+ * Falls back to dense results when the lexical index is unavailable.
  */
 export async function stage0HybridRetrieval(
   sourceDocId: string,
-  options: {
-    topK?: number
-    filters?: Record<string, unknown>
+  options: Stage0RetrievalOptions & {
     alpha?: number  // Weight for dense vs sparse (default: 0.7 dense, 0.3 sparse)
+    rrfK?: number   // RRF rank constant (default: 60)
   } = {}
 ): Promise<Stage0Result> {
 
   const startTime = Date.now()
-  const { topK = 150 } = options
+  const { topK = 600, alpha = 0.7, rrfK = 60, ...retrievalOptions } = options
+  const denseWeight = Math.min(1, Math.max(0, alpha))
 
-  // TODO: Implement BM25 retrieval
-  // 1. Get dense results (centroid)
-  const denseResults = await stage0CandidateRetrieval(sourceDocId, { topK: topK * 2 })
+  const [denseResults, sparseResults] = await Promise.all([
+    stage0CandidateRetrieval(sourceDocId, { ...retrievalOptions, topK: topK * 2 }),
+    stage0SparseRetrieval(sourceDocId, {
+      topK: topK * 2,
+      filters: retrievalOptions.filters,
+      sourcePageRange: retrievalOptions.sourcePageRange
+    }).catch(error => {
+      logger.warn('Stage 0 hybrid retrieval falling back to dense results', {
+        sourceDocId,
+        reason: error instanceof Error ? error.message : String(error)
+      })
+      return null
+    })
+  ])
+
+  if (!sparseResults) {
+    return {
+      candidateIds: denseResults.candidateIds.slice(0, topK),
+      scores: denseResults.scores.slice(0, topK),
+      timeMs: Date.now() - startTime
+    }
+  }
 
-  // 2. Get sparse results (BM25) - requires BM25 index
-  // const sparseResults = await bm25Query(sourceDocId, { topK: topK * 2 })
+  const fused = reciprocalRankFusion(
+    { ids: denseResults.candidateIds, scores: denseResults.scores },
+    { ids: sparseResults.candidateIds, scores: sparseResults.scores },
+    rrfK,
+    [denseWeight, 1 - denseWeight]
+  )
 
-  // 3. Reciprocal Rank Fusion (RRF)
-  // const fusedResults = reciprocalRankFusion(denseResults, sparseResults, k=60)
-  void reciprocalRankFusion
+  const denseSet = new Set(denseResults.candidateIds)
+  const sparseOnly = sparseResults.candidateIds.filter(id => !denseSet.has(id)).length
 
-  // For now, just return dense results
-  logger.warn('Stage 0 hybrid retrieval fallback to dense results', {
+  logger.info('Stage 0: completed hybrid retrieval', {
     sourceDocId,
-    reason: 'BM25 not implemented'
+    denseCandidates: denseResults.candidateIds.length,
+    sparseCandidates: sparseResults.candidateIds.length,
+    sparseOnlyCandidates: sparseOnly,
+    fusedCandidates: Math.min(fused.ids.length, topK),
+    alpha: denseWeight
   })
 
   return {
-    candidateIds: denseResults.candidateIds.slice(0, topK),
-    scores: denseResults.scores.slice(0, topK),
+    candidateIds: fused.ids.slice(0, topK),
+    scores: fused.scores.slice(0, topK),
     timeMs: Date.now() - startTime
   }
 }
@@ -311,24 +604,25 @@ export async function stage0HybridRetrieval(
 /**
  * Reciprocal Rank Fusion (RRF)
  * Combines multiple ranked lists using reciprocal rank scores
- * Formula: score = sum(1 / (k + rank)) for each list
+ * Formula: score = sum(weight / (k + rank)) for each list
  */
 function reciprocalRankFusion(
   list1: { ids: string[]; scores: number[] },
   list2: { ids: string[]; scores: number[] },
-  k: number = 60
+  k: number = 60,
+  weights: [number, number] = [1, 1]
 ): { ids: string[]; scores: number[] } {
   const rrfScores = new Map<string, number>()
 
   // Add scores from list 1
   list1.ids.forEach((id, rank) => {
-    const score = 1 / (k + rank + 1)
+    const score = weights[0] / (k + rank + 1)
     rrfScores.set(id, score)
   })
 
   // Add scores from list 2
   list2.ids.forEach((id, rank) => {
-    const score = 1 / (k + rank + 1)
+    const score = weights[1] / (k + rank + 1)
     rrfScores.set(id, (rrfScores.get(id) || 0) + score)
   })
 
@@ -92,8 +92,9 @@ export async function stage1ChunkPrefilter(
       }
 
       // Query each vector individually (Pinecone doesn't support true batch queries)
+      const index = await getPineconeIndex()
       const batchQueryPromises = chunkVectorPairs.map(({ vector }) =>
-        getPineconeIndex().query({
+        index.query({
           vector,
           topK: neighborsPerChunk,
           includeMetadata: true,
@@ -12,6 +12,8 @@ import { findBidirectionalMatches } from '../core/chunk-matching'
 import { computeAdaptiveScore } from '../core/adaptive-scoring'
 import { groupMatchesIntoSections } from '../core/section-detection'
 import { countCharacters } from '@/lib/chunking/paragraph-chunker'
+import { chunkTouchesExcludedPages, collectExcludedPages, getMatchingExclusionRanges } from '@/lib/exclusion-ranges'
+import type { BusinessMetadata } from '@/types/external-apis'
 
 /**
  * Compute final adaptive scores for all candidates in parallel
@@ -31,6 +33,14 @@ type Stage2DocumentRecord = {
   [key: string]: unknown
 }
 
+export interface Stage2Progress {
+  scored: number
+  total: number
+  topResults: SimilarityResult[]  // Best results so far, same ordering as the final list
+}
+
+const STAGE2_RESULT_LIMIT = 30
+
 export async function stage2FinalScoring(
   sourceDoc: Stage2DocumentRecord,
   candidateIds: string[],
@@ -45,6 +55,7 @@ export async function stage2FinalScoring(
       start_page: number
       end_page: number
     }
+    onProgress?: (progress: Stage2Progress) => void
   } = {}
 ): Promise<SimilarityResult[]> {
 
@@ -72,12 +83,16 @@ export async function stage2FinalScoring(
     }
 
     // 2. Fetch source chunks once (reuse for all candidates)
-    const sourceChunks = Array.isArray(options.sourceChunksOverride) && options.sourceChunksOverride.length > 0
-      ? options.sourceChunksOverride
-      : await fetchDocumentChunks(
-        sourceDoc.id,
-        options.sourcePageRange ? { pageRange: options.sourcePageRange } : undefined
-      )
+    const sourceChunks = dropExcludedChunks(
+      sourceDoc.id,
+      Array.isArray(options.sourceChunksOverride) && options.sourceChunksOverride.length > 0
+        ? options.sourceChunksOverride
+        : await fetchDocumentChunks(
+          sourceDoc.id,
+          options.sourcePageRange ? { pageRange: options.sourcePageRange } : undefined
+        ),
+      sourceDoc['metadata']
+    )
 
     if (sourceChunks.length === 0) {
       throw new Error(`No chunks found for source document ${sourceDoc.id}`)
@@ -114,8 +129,26 @@ export async function stage2FinalScoring(
       fallbackEnabled
     }
 
+    // Report per-candidate progress so async jobs can stream partial results
+    const completedResults: SimilarityResult[] = []
+    let scoredCount = 0
+    const handleCandidateDone = options.onProgress
+      ? (result: SimilarityResult | null) => {
+        scoredCount++
+        if (result) {
+          completedResults.push(result)
+          completedResults.sort(compareStage2Results)
+        }
+        options.onProgress?.({
+          scored: scoredCount,
+          total: candidateIds.length,
+          topResults: completedResults.slice(0, STAGE2_RESULT_LIMIT)
+        })
+      }
+      : undefined
+
     const batchPromises = batches.map(batch =>
-      processBatch(batch, sourceDoc, sourceChunks, matchOptions, timeout, sourceTotalCharacters)
+      processBatch(batch, sourceDoc, sourceChunks, matchOptions, timeout, sourceTotalCharacters, handleCandidateDone)
     )
 
     const batchResults = await Promise.all(batchPromises)
@@ -124,22 +157,7 @@ export async function stage2FinalScoring(
     const allResults = batchResults.flat().filter(r => r !== null) as SimilarityResult[]
 
     // 4. Multi-criteria sorting (tie-breaking)
-    allResults.sort((a, b) => {
-      // 1. Sort by source score (portion of source covered by candidate)
-      if (Math.abs(a.scores.sourceScore - b.scores.sourceScore) > 0.01) {
-        return b.scores.sourceScore - a.scores.sourceScore
-      }
-      // 2. Tie-break by target score (portion of target covered by source)
-      if (Math.abs(a.scores.targetScore - b.scores.targetScore) > 0.01) {
-        return b.scores.targetScore - a.scores.targetScore
-      }
-      // 3. Tie-break by matched target characters (higher reuse)
-      if (a.scores.matchedTargetCharacters !== b.scores.matchedTargetCharacters) {
-        return b.scores.matchedTargetCharacters - a.scores.matchedTargetCharacters
-      }
-      // 4. Final tie-break: More matched chunks
-      return b.matchedChunks - a.matchedChunks
-    })
+    allResults.sort(compareStage2Results)
 
     const timeMs = Date.now() - startTime
 
@@ -150,7 +168,7 @@ export async function stage2FinalScoring(
     })
 
     // Return top 30
-    return allResults.slice(0, 30)
+    return allResults.slice(0, STAGE2_RESULT_LIMIT)
 
   } catch (error) {
     const timeMs = Date.now() - startTime
@@ -161,6 +179,26 @@ export async function stage2FinalScoring(
   }
 }
 
+/**
+ * Multi-criteria ordering shared by the final list and streamed partial results
+ */
+function compareStage2Results(a: SimilarityResult, b: SimilarityResult): number {
+  // 1. Sort by source score (portion of source covered by candidate)
+  if (Math.abs(a.scores.sourceScore - b.scores.sourceScore) > 0.01) {
+    return b.scores.sourceScore - a.scores.sourceScore
+  }
+  // 2. Tie-break by target score (portion of target covered by source)
+  if (Math.abs(a.scores.targetScore - b.scores.targetScore) > 0.01) {
+    return b.scores.targetScore - a.scores.targetScore
+  }
+  // 3. Tie-break by matched target characters (higher reuse)
+  if (a.scores.matchedTargetCharacters !== b.scores.matchedTargetCharacters) {
+    return b.scores.matchedTargetCharacters - a.scores.matchedTargetCharacters
+  }
+  // 4. Final tie-break: More matched chunks
+  return b.matchedChunks - a.matchedChunks
+}
+
 /**
  * Process a batch of candidates
  * Each worker processes multiple candidates sequentially
@@ -175,7 +213,8 @@ async function processBatch(
     fallbackEnabled: boolean
   },
   timeout: number,
-  sourceTotalCharacters: number
+  sourceTotalCharacters: number,
+  onCandidateDone?: (result: SimilarityResult | null) => void
 ): Promise<(SimilarityResult | null)[]> {
 
   const results: (SimilarityResult | null)[] = []
@@ -203,6 +242,7 @@ async function processBatch(
       ])
 
       results.push(result)
+      onCandidateDone?.(result)
 
     } catch (error) {
       logger.error(
@@ -211,6 +251,7 @@ async function processBatch(
         { candidateId }
       )
       results.push(null)  // Continue with other candidates
+      onCandidateDone?.(null)
     }
   }
 
@@ -233,10 +274,11 @@ async function processCandidate(
 ): Promise<SimilarityResult | null> {
 
   // 1. Fetch candidate chunks and metadata
-  const [candidateChunks, candidateMetadata] = await Promise.all([
+  const [fetchedCandidateChunks, candidateMetadata] = await Promise.all([
     fetchDocumentChunks(candidateId),
     fetchDocumentMetadata(candidateId)
   ])
+  const candidateChunks = dropExcludedChunks(candidateId, fetchedCandidateChunks, candidateMetadata['metadata'])
 
   if (candidateChunks.length === 0) {
     logger.warn('Stage 2: candidate has no chunks', { candidateId })
@@ -336,7 +378,7 @@ async function processCandidate(
  * Fetch all chunks for a document from Supabase
  * Returns chunks with pre-normalized embeddings
  */
-async function fetchDocumentChunks(
+export async function fetchDocumentChunks(
   documentId: string,
   options: { pageRange?: { start_page: number; end_page: number } } = {}
 ): Promise<Chunk[]> {
@@ -348,6 +390,8 @@ async function fetchDocumentChunks(
     const allChunks: {
       chunk_index: number
       page_number: number | null
+      start_page_number: number | null
+      end_page_number: number | null
       embedding: number[] | string
       chunk_text: string | null
       character_count: number | null
@@ -359,7 +403,7 @@ async function fetchDocumentChunks(
 
       let query = supabase
         .from('document_embeddings')
-        .select('chunk_index, page_number, embedding, chunk_text, character_count')
+        .select('chunk_index, page_number, start_page_number, end_page_number, embedding, chunk_text, character_count')
         .eq('document_id', documentId)
 
       if (options.pageRange) {
@@ -374,6 +418,8 @@ async function fetchDocumentChunks(
         .returns<Array<{
           chunk_index: number | null
           page_number: number | null
+          start_page_number: number | null
+          end_page_number: number | null
           embedding: number[] | string
           chunk_text: string | null
           character_count: number | null
@@ -405,6 +451,8 @@ async function fetchDocumentChunks(
         .map(record => ({
           chunk_index: record.chunk_index as number,
           page_number: typeof record.page_number === 'number' ? record.page_number : null,
+          start_page_number: typeof record.start_page_number === 'number' ? record.start_page_number : null,
+          end_page_number: typeof record.end_page_number === 'number' ? record.end_page_number : null,
           embedding: record.embedding,
           chunk_text: record.chunk_text,
           character_count: typeof record.character_count === 'number' ? record.character_count : null
@@ -428,6 +476,8 @@ async function fetchDocumentChunks(
     const uniqueChunks = allChunks.reduce<Array<{
       chunk_index: number
       page_number: number | null
+      start_page_number: number | null
+      end_page_number: number | null
       embedding: number[] | string
       chunk_text: string | null
       character_count: number | null
@@ -442,6 +492,8 @@ async function fetchDocumentChunks(
       acc.push({
         chunk_index: chunk.chunk_index,
         page_number: typeof chunk.page_number === 'number' ? chunk.page_number : null,
+        start_page_number: chunk.start_page_number,
+        end_page_number: chunk.end_page_number,
         embedding: chunk.embedding,
         chunk_text: typeof chunk.chunk_text === 'string' ? chunk.chunk_text : null,
         character_count: typeof chunk.character_count === 'number' ? chunk.character_count : null
@@ -498,6 +550,8 @@ async function fetchDocumentChunks(
         id: `${documentId}_chunk_${chunk.chunk_index}`,
         index: chunk.chunk_index,
         pageNumber: chunk.page_number || 1,
+        startPageNumber: chunk.start_page_number ?? undefined,
+        endPageNumber: chunk.end_page_number ?? undefined,
         embedding: embeddingValue as number[],
         text: chunk.chunk_text ?? undefined,
         characterCount
@@ -515,6 +569,35 @@ async function fetchDocumentChunks(
   }
 }
 
+/**
+ * Drop chunks on pages covered by the document's exclusion ranges
+ * Catches chunks still stored while a re-embed for edited ranges is pending.
+ */
+function dropExcludedChunks(documentId: string, chunks: Chunk[], metadata: unknown): Chunk[] {
+  const excludedPages = collectExcludedPages(
+    getMatchingExclusionRanges(metadata && typeof metadata === 'object' ? metadata as BusinessMetadata : null)
+  )
+  if (excludedPages.size === 0) {
+    return chunks
+  }
+
+  const kept = chunks.filter(chunk => !chunkTouchesExcludedPages(chunk, excludedPages))
+
+  if (kept.length === 0) {
+    logger.warn('Stage 2: exclusion ranges cover every chunk; ignoring exclusions', { documentId })
+    return chunks
+  }
+
+  if (kept.length < chunks.length) {
+    logger.debug('Stage 2: dropped chunks on excluded pages', {
+      documentId,
+      dropped: chunks.length - kept.length
+    })
+  }
+
+  return kept
+}
+
 /**
  * Fetch document metadata from Supabase
  */
@@ -19,12 +19,86 @@ export interface ChunkMatch {
   score: number
 }
 
+export interface SectionChunkPair {
+  sourceChunkIndex: number
+  targetChunkIndex: number
+  sourcePageNumber: number
+  targetPageNumber: number
+  score: number
+}
+
 export interface SectionMatch {
   docA_pageRange: string  // e.g., "12-20"
   docB_pageRange: string  // e.g., "34-42"
   avgScore: number
   chunkCount: number
   reusable: boolean  // true if avgScore > 0.85
+  chunkPairs?: SectionChunkPair[]  // Aligned ChunkMatch pairs behind the section (used for clause diffs)
+}
+
+export interface ClauseDiffSegment {
+  type: 'equal' | 'insert' | 'delete'  // insert = only in target, delete = only in source
+  text: string
+}
+
+export interface ClauseDiffStats {
+  unchangedWords: number
+  insertedWords: number
+  deletedWords: number
+  changeRatio: number  // (inserted + deleted) / total words across both sides
+}
+
+export interface ClauseDiff {
+  sourceChunkIndex: number
+  targetChunkIndex: number
+  sourcePages: string  // e.g., "12" or "12-13"
+  targetPages: string
+  score: number
+  segments: ClauseDiffSegment[]
+  stats: ClauseDiffStats
+}
+
+export interface TableMatch {
+  sourceTableIndex: number
+  targetTableIndex: number
+  sourcePageNumber: number
+  targetPageNumber: number
+  score: number  // Cosine similarity of the two table embeddings
+}
+
+export type TableChangeStatus = 'equal' | 'changed' | 'added' | 'removed'  // added = only in target
+
+export interface TableCellComparison {
+  status: TableChangeStatus
+  source: string | null
+  target: string | null
+}
+
+export interface TableRowComparison {
+  status: TableChangeStatus
+  header: boolean
+  sourceRowIndex: number | null  // Position among the table's header + body rows
+  targetRowIndex: number | null
+  cells: TableCellComparison[]   // One per column
+}
+
+export interface TableComparisonStats {
+  equalCells: number
+  changedCells: number
+  addedCells: number
+  removedCells: number
+  changeRatio: number  // (changed + added + removed) / non-empty cells compared
+}
+
+export interface TableComparison {
+  sourceTableIndex: number
+  targetTableIndex: number
+  sourcePageNumber: number
+  targetPageNumber: number
+  score: number
+  columnCount: number
+  rows: TableRowComparison[]
+  stats: TableComparisonStats
 }
 
 export interface SimilarityScores {
@@ -49,6 +123,7 @@ export interface SimilarityResult {
   scores: SimilarityScores
   matchedChunks: number
   sections: SectionMatch[]
+  matchedTables?: TableMatch[]  // Table pairs above the table match threshold (used for table diffs)
   timings?: {
     stage0?: number
     stage1?: number
@@ -68,6 +143,22 @@ export interface Chunk {
   characterCount: number     // Required for character-based similarity scoring
 }
 
+/**
+ * Stage 0 retrieval strategy
+ * - dense: centroid ANN query against Pinecone
+ * - sparse: BM25 over chunk_text (lexical index)
+ * - hybrid: dense + sparse fused with Reciprocal Rank Fusion
+ */
+export type Stage0RetrievalMode = 'dense' | 'sparse' | 'hybrid'
+
+/**
+ * Stage-by-stage progress reported by executeSimilaritySearch (streamed to async job clients)
+ */
+export type SimilarityProgressEvent =
+  | { stage: 'stage0'; mode: Stage0RetrievalMode; candidates: number; timeMs: number }
+  | { stage: 'stage1'; skipped: boolean; candidates: number; timeMs: number }
+  | { stage: 'stage2'; scored: number; total: number; topResults: SimilarityResult[] }
+
 export interface Stage0Result {
   candidateIds: string[]
   scores: number[]
@@ -0,0 +1,183 @@
+/**
+ * Subscription Agreement Detection
+ * Proposes the subscription-agreement page span from Document AI page text so
+ * uploaders no longer have to type skip ranges by hand.
+ *
+ * Signals (per page):
+ * - Headings: short lines near the top of the page ("SUBSCRIPTION AGREEMENT",
+ *   "Subscription Booklet", "Investor Questionnaire", ...)
+ * - Investor questionnaire language: accredited investor / qualified purchaser
+ *   definitions, AML/KYC, tax forms, "check the appropriate box"
+ * - Signature blocks: "IN WITNESS WHEREOF", "By: ____", "Name of Subscriber"
+ *
+ * A span starts on a heading page and extends while questionnaire or
+ * signature pages keep appearing (small gaps tolerated); the best-supported
+ * span wins.
+ */
+
+export interface SubscriptionAgreementDetection {
+  startPage: number
+  endPage: number
+  confidence: number          // 0-1; proposals at or above SUBSCRIPTION_AUTO_APPLY_CONFIDENCE are applied automatically
+  headingPages: number[]
+  questionnairePages: number[]
+  signaturePages: number[]
+}
+
+// Minimum confidence before a proposal is applied without user confirmation
+export const SUBSCRIPTION_AUTO_APPLY_CONFIDENCE = 0.6
+
+const HEADING_PATTERNS: RegExp[] = [
+  /^\s*(?:form\s+of\s+)?subscription\s+(?:agreement|booklet|documents?|application(?:\s+form)?|form)\b/i,
+  /^\s*(?:investor|subscriber)\s+(?:questionnaire|information\s+form|suitability\s+questionnaire)\b/i,
+  /^\s*(?:accredited\s+investor|qualified\s+purchaser)\s+(?:questionnaire|certificate|certification)\b/i,
+  /^\s*instructions\s+(?:for|to)\s+(?:subscribers|investors)\b/i
+]
+
+const QUESTIONNAIRE_PATTERNS: RegExp[] = [
+  /accredited\s+investor/i,
+  /qualified\s+(?:purchaser|client)/i,
+  /rule\s+501\s*\(a\)/i,
+  /check\s+(?:the\s+|each\s+)?(?:appropriate|applicable)\s+box/i,
+  /(?:taxpayer|tax)\s+identification\s+number/i,
+  /\bW-?8(?:BEN(?:-E)?)?\b|\bW-?9\b/,
+  /anti-?money\s+laundering|know\s+your\s+(?:customer|client)/i,
+  /source\s+of\s+(?:funds|wealth)/i,
+  /benefit\s+plan\s+investor|\bERISA\b/i,
+  /\bFATCA\b|common\s+reporting\s+standard/i,
+  /capital\s+commitment/i,
+  /wire\s+(?:transfer\s+)?instructions/i,
+  /[☐□■]|\[\s?[xX]?\s?\]/
+]
+
+const SIGNATURE_PATTERNS: RegExp[] = [
+  /in\s+witness\s+whereof/i,
+  /\bby:\s*_{3,}/i,
+  /\bname:\s*_{3,}/i,
+  /\btitle:\s*_{3,}/i,
+  /\bdate:\s*_{3,}/i,
+  /(?:signature|name)\s+of\s+(?:subscriber|investor|authori[sz]ed\s+signatory)/i,
+  /subscriber['’]?s?\s+signature/i
+]
+
+// Only the first few short lines of a page count as a heading
+const HEADING_LINE_WINDOW = 8
+const HEADING_MAX_LINE_LENGTH = 90
+
+// Pages without any signal tolerated inside the span (cover sheets, blank pages)
+const MAX_GAP_PAGES = 2
+
+const countMatches = (text: string, patterns: RegExp[]): number =>
+  patterns.reduce((count, pattern) => count + (pattern.test(text) ? 1 : 0), 0)
+
+const hasHeading = (text: string): boolean => {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .slice(0, HEADING_LINE_WINDOW)
+
+  return lines.some(line =>
+    line.length <= HEADING_MAX_LINE_LENGTH &&
+    HEADING_PATTERNS.some(pattern => pattern.test(line))
+  )
+}
+
+interface PageSignals {
+  pageNumber: number
+  heading: boolean
+  questionnaireHits: number
+  signatureHits: number
+}
+
+/**
+ * Propose the subscription agreement span for a document
+ *
+ * @param pagesText - Page text from Document AI (1-based page numbers)
+ * @returns The proposed span, or null when no subscription agreement heading is found
+ */
+export function detectSubscriptionAgreement(
+  pagesText: { text: string; pageNumber: number }[]
+): SubscriptionAgreementDetection | null {
+  if (pagesText.length === 0) {
+    return null
+  }
+
+  const pages: PageSignals[] = [...pagesText]
+    .sort((a, b) => a.pageNumber - b.pageNumber)
+    .map(page => ({
+      pageNumber: page.pageNumber,
+      heading: hasHeading(page.text),
+      questionnaireHits: countMatches(page.text, QUESTIONNAIRE_PATTERNS),
+      signatureHits: countMatches(page.text, SIGNATURE_PATTERNS)
+    }))
+
+  const hasSignal = (page: PageSignals) =>
+    page.heading || page.questionnaireHits >= 2 || page.signatureHits >= 1
+
+  // Try each heading page as a start; keep the span with the most supporting pages
+  let best: { startIndex: number; endIndex: number; supportingPages: number } | null = null
+
+  for (let index = 0; index < pages.length; index += 1) {
+    if (!pages[index]!.heading) continue
+    // Nested headings (e.g. "Investor Questionnaire" inside the booklet) belong to the same span
+    if (best && index <= best.endIndex) continue
+
+    let endIndex = index
+    let gap = 0
+    let supportingPages = 0
+
+    for (let cursor = index + 1; cursor < pages.length; cursor += 1) {
+      if (hasSignal(pages[cursor]!)) {
+        endIndex = cursor
+        gap = 0
+        supportingPages += 1
+      } else {
+        gap += 1
+        if (gap > MAX_GAP_PAGES) break
+      }
+    }
+
+    // Booklets usually run to the end of the PDF; absorb a short unsignalled tail
+    if (pages.length - 1 - endIndex <= MAX_GAP_PAGES) {
+      endIndex = pages.length - 1
+    }
+
+    if (!best || supportingPages > best.supportingPages) {
+      best = { startIndex: index, endIndex, supportingPages }
+    }
+  }
+
+  if (!best) {
+    return null
+  }
+
+  const { startIndex, endIndex } = best
+  const span = pages.slice(startIndex, endIndex + 1)
+
+  const headingPages = span.filter(page => page.heading).map(page => page.pageNumber)
+  const questionnairePages = span.filter(page => page.questionnaireHits >= 2).map(page => page.pageNumber)
+  const signaturePages = span.filter(page => page.signatureHits >= 1).map(page => page.pageNumber)
+
+  const signalPages = span.filter(hasSignal).length
+  const density = signalPages / span.length
+
+  // Heading alone is weak evidence (LPAs cite "the Subscription Agreement"); require corroboration
+  const confidence = Math.min(1,
+    0.35 +
+    0.25 * density +
+    (questionnairePages.length > 0 ? 0.2 : 0) +
+    (signaturePages.length > 0 ? 0.2 : 0) -
+    // A span covering the whole document is more likely a standalone agreement than an appendix
+    (startIndex === 0 && endIndex === pages.length - 1 ? 0.3 : 0)
+  )
+
+  return {
+    startPage: span[0]!.pageNumber,
+    endPage: span[span.length - 1]!.pageNumber,
+    confidence: Math.max(0, Number(confidence.toFixed(2))),
+    headingPages,
+    questionnairePages,
+    signaturePages
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * Upload Manifest
+ * Reads a CSV/XLSX spreadsheet of document metadata and matches its rows to
+ * queued PDFs by filename, so large historical batches do not have to be
+ * tagged card by card
+ *
+ * Values are checked against the metadata option lists. Anything that is not
+ * an unambiguous match is reported with the closest options as suggestions
+ * instead of being guessed.
+ */
+
+import {
+  LAW_FIRM_OPTIONS,
+  FUND_MANAGER_OPTIONS,
+  FUND_ADMIN_OPTIONS,
+  JURISDICTION_OPTIONS,
+  type LawFirmOption,
+  type FundManagerOption,
+  type FundAdminOption,
+  type JurisdictionOption
+} from '@/lib/metadata-constants'
+import { parseCsv } from '@/lib/utils/csv'
+import { readFirstWorksheet } from '@/lib/utils/xlsx'
+
+export const MANIFEST_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+const MAX_SUGGESTIONS = 3
+const MIN_SUGGESTION_SCORE = 0.35
+
+type OptionField = 'law_firm' | 'fund_manager' | 'fund_admin' | 'jurisdiction'
+export type ManifestField = OptionField | 'subscription_pages'
+
+type ManifestColumn = 'filename' | OptionField | 'subscription_pages' | 'subscription_start' | 'subscription_end'
+
+// Accepted header spellings, compared after normalizeHeader
+const COLUMN_ALIASES: Record<ManifestColumn, string[]> = {
+  filename: ['filename', 'file', 'filenames', 'document', 'documentname', 'pdf'],
+  law_firm: ['lawfirm', 'counsel'],
+  fund_manager: ['fundmanager', 'manager', 'sponsor'],
+  fund_admin: ['fundadmin', 'fundadministrator', 'administrator'],
+  jurisdiction: ['jurisdiction', 'domicile'],
+  subscription_pages: ['subscriptionpages', 'subscriptionagreement', 'subscriptionagreementpages', 'subscriptionrange'],
+  subscription_start: ['subscriptionstart', 'subscriptionstartpage', 'subscriptionagreementstartpage', 'substart'],
+  subscription_end: ['subscriptionend', 'subscriptionendpage', 'subscriptionagreementendpage', 'subend']
+}
+
+const OPTION_LISTS: Record<OptionField, ReadonlyArray<{ value: string; label: string }>> = {
+  law_firm: LAW_FIRM_OPTIONS,
+  fund_manager: FUND_MANAGER_OPTIONS,
+  fund_admin: FUND_ADMIN_OPTIONS,
+  jurisdiction: JURISDICTION_OPTIONS
+}
+
+const OPTION_FIELD_LABELS: Record<OptionField, string> = {
+  law_firm: 'Law firm',
+  fund_manager: 'Fund manager',
+  fund_admin: 'Fund admin',
+  jurisdiction: 'Jurisdiction'
+}
+
+// Subscription cell values meaning "this document has no subscription agreement"
+const NO_SUBSCRIPTION_VALUES = new Set(['n/a', 'na', 'none', 'no', 'skip', '-'])
+const AUTO_DETECT_VALUES = new Set(['auto', 'auto-detect', 'autodetect', 'detect'])
+
+// Trailing entity suffixes ignored when comparing names
+const LEGAL_SUFFIXES = /\b(llp|llc|ltd|limited|inc|sa|sarl|plc|lp|ag|ab|gmbh)\b/g
+
+export interface ManifestMetadata {
+  law_firm?: LawFirmOption
+  fund_manager?: FundManagerOption
+  fund_admin?: FundAdminOption
+  jurisdiction?: JurisdictionOption
+  subscription_agreement_skipped?: boolean
+  subscription_agreement_auto_detect?: boolean
+  subscription_agreement_start_page?: number | null
+  subscription_agreement_end_page?: number | null
+}
+
+// The only document metadata fields a manifest row may set
+export const MANIFEST_METADATA_KEYS: ReadonlyArray<keyof ManifestMetadata> = [
+  'law_firm',
+  'fund_manager',
+  'fund_admin',
+  'jurisdiction',
+  'subscription_agreement_skipped',
+  'subscription_agreement_auto_detect',
+  'subscription_agreement_start_page',
+  'subscription_agreement_end_page'
+]
+
+export interface ManifestIssue {
+  field: ManifestField
+  input: string
+  message: string
+  /** Closest option values, best first */
+  suggestions: string[]
+}
+
+export interface ManifestEntry {
+  /** 1-based spreadsheet row, header included */
+  rowNumber: number
+  filename: string
+  metadata: ManifestMetadata
+  issues: ManifestIssue[]
+}
+
+export interface UploadManifest {
+  sourceName: string
+  /** Keyed by manifestKey(filename) */
+  entries: Map<string, ManifestEntry>
+  /** Rows without a filename */
+  skippedRows: number[]
+  /** Filenames listed more than once; the last row wins */
+  duplicateFilenames: string[]
+  /** Headers that were not recognised and are ignored */
+  ignoredColumns: string[]
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+const normalizeName = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+
+// Name with legal suffixes and parenthesised abbreviations removed
+const canonicalName = (value: string) =>
+  normalizeName(value.replace(/\([^)]*\)/g, ' ')).replace(LEGAL_SUFFIXES, ' ').replace(/\s+/g, ' ').trim()
+
+/**
+ * Key used to match manifest rows to dropped files
+ * Case-insensitive, ignores directories and the .pdf extension.
+ */
+export function manifestKey(filename: string): string {
+  const basename = filename.split(/[\\/]/).pop() ?? filename
+  return basename.trim().toLowerCase().replace(/\.pdf$/, '')
+}
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/\s+/g, ' ')
+  const pairs: string[] = []
+  for (let i = 0; i < compact.length - 1; i++) {
+    pairs.push(compact.slice(i, i + 2))
+  }
+  return pairs
+}
+
+// Sørensen–Dice coefficient over character bigrams
+const diceCoefficient = (a: string, b: string): number => {
+  if (a === b) return 1
+  const left = bigrams(a)
+  const right = bigrams(b)
+  if (left.length === 0 || right.length === 0) return 0
+
+  const counts = new Map<string, number>()
+  for (const pair of left) {
+    counts.set(pair, (counts.get(pair) ?? 0) + 1)
+  }
+
+  let overlap = 0
+  for (const pair of right) {
+    const count = counts.get(pair) ?? 0
+    if (count > 0) {
+      overlap++
+      counts.set(pair, count - 1)
+    }
+  }
+
+  return (2 * overlap) / (left.length + right.length)
+}
+
+const similarity = (input: string, option: string): number => {
+  const a = canonicalName(input)
+  const b = canonicalName(option)
+  if (!a || !b) return 0
+
+  let score = diceCoefficient(a, b)
+  // "Kirkland" for "Kirkland & Ellis": a whole-word prefix is a strong hint
+  if (b.startsWith(`${a} `) || a.startsWith(`${b} `)) {
+    score = Math.max(score, 0.75)
+  }
+  return score
+}
+
+/**
+ * Closest option values to a free-text input, best first
+ */
+export function suggestOptions(
+  input: string,
+  options: ReadonlyArray<{ value: string; label: string }>,
+  limit = MAX_SUGGESTIONS
+): string[] {
+  return options
+    .map(option => ({ value: option.value, score: similarity(input, option.label) }))
+    .filter(candidate => candidate.score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(candidate => candidate.value)
+}
+
+/**
+ * Resolve a spreadsheet value to an option value
+ * Accepts exact matches (ignoring case, punctuation and "&" vs "and"),
+ * matches on a parenthesised abbreviation such as "CGSH", and matches that
+ * only differ by a legal suffix when exactly one option fits.
+ */
+function matchOption(
+  input: string,
+  options: ReadonlyArray<{ value: string; label: string }>
+): string | null {
+  const normalized = normalizeName(input)
+
+  const exact = options.find(option =>
+    normalizeName(option.value) === normalized || normalizeName(option.label) === normalized
+  )
+  if (exact) return exact.value
+
+  const abbreviation = options.find(option =>
+    Array.from(option.label.matchAll(/\(([^)]+)\)/g)).some(match => normalizeName(match[1] ?? '') === normalized)
+  )
+  if (abbreviation) return abbreviation.value
+
+  const canonical = canonicalName(input)
+  const canonicalMatches = options.filter(option => canonicalName(option.label) === canonical)
+  if (canonical && canonicalMatches.length === 1) {
+    return canonicalMatches[0]?.value ?? null
+  }
+
+  return null
+}
+
+const parsePage = (value: string): number | null => {
+  if (!/^\d+$/.test(value.trim())) return null
+  const page = Number(value)
+  return page > 0 ? page : null
+}
+
+function resolveSubscription(
+  pagesCell: string,
+  startCell: string,
+  endCell: string,
+  metadata: ManifestMetadata,
+  issues: ManifestIssue[]
+) {
+  const setRange = (start: number, end: number, input: string) => {
+    if (end < start) {
+      issues.push({ field: 'subscription_pages', input, message: 'Subscription end page is before the start page', suggestions: [] })
+      return
+    }
+    metadata.subscription_agreement_skipped = false
+    metadata.subscription_agreement_auto_detect = false
+    metadata.subscription_agreement_start_page = start
+    metadata.subscription_agreement_end_page = end
+  }
+
+  const pages = pagesCell.trim().toLowerCase()
+  if (pages) {
+    if (NO_SUBSCRIPTION_VALUES.has(pages)) {
+      metadata.subscription_agreement_skipped = true
+      metadata.subscription_agreement_auto_detect = false
+      metadata.subscription_agreement_start_page = null
+      metadata.subscription_agreement_end_page = null
+      return
+    }
+    if (AUTO_DETECT_VALUES.has(pages)) {
+      metadata.subscription_agreement_skipped = false
+      metadata.subscription_agreement_auto_detect = true
+      metadata.subscription_agreement_start_page = null
+      metadata.subscription_agreement_end_page = null
+      return
+    }
+
+    const range = /^(\d+)\s*(?:-|–|to)\s*(\d+)$/.exec(pages)
+    const single = parsePage(pages)
+    if (range) {
+      setRange(Number(range[1]), Number(range[2]), pagesCell)
+    } else if (single !== null) {
+      setRange(single, single, pagesCell)
+    } else {
+      issues.push({
+        field: 'subscription_pages',
+        input: pagesCell,
+        message: 'Subscription pages must be a range such as 12-18, "auto" or "N/A"',
+        suggestions: []
+      })
+    }
+    return
+  }
+
+  if (!startCell.trim() && !endCell.trim()) {
+    return
+  }
+
+  const start = parsePage(startCell)
+  const end = parsePage(endCell)
+  if (start === null || end === null) {
+    issues.push({
+      field: 'subscription_pages',
+      input: `${startCell}-${endCell}`,
+      message: 'Subscription start and end pages must both be positive whole numbers',
+      suggestions: []
+    })
+    return
+  }
+  setRange(start, end, `${startCell}-${endCell}`)
+}
+
+/**
+ * Build a manifest from spreadsheet rows (first row is the header)
+ */
+export function parseUploadManifest(rows: string[][], sourceName: string): UploadManifest {
+  const [header, ...body] = rows
+  if (!header) {
+    throw new Error('Manifest is empty')
+  }
+
+  const columns = new Map<ManifestColumn, number>()
+  const ignoredColumns: string[] = []
+
+  header.forEach((cell, index) => {
+    const normalized = normalizeHeader(cell)
+    const column = (Object.keys(COLUMN_ALIASES) as ManifestColumn[])
+      .find(key => COLUMN_ALIASES[key].includes(normalized))
+
+    if (column && !columns.has(column)) {
+      columns.set(column, index)
+    } else if (cell.trim()) {
+      ignoredColumns.push(cell.trim())
+    }
+  })
+
+  if (!columns.has('filename')) {
+    throw new Error('Manifest needs a "filename" column')
+  }
+
+  const readCell = (row: string[], column: ManifestColumn) => {
+    const index = columns.get(column)
+    return index === undefined ? '' : (row[index] ?? '').trim()
+  }
+
+  const entries = new Map<string, ManifestEntry>()
+  const skippedRows: number[] = []
+  const duplicateFilenames = new Set<string>()
+
+  body.forEach((row, index) => {
+    const rowNumber = index + 2
+    const filename = readCell(row, 'filename')
+    if (!filename) {
+      skippedRows.push(rowNumber)
+      return
+    }
+
+    const metadata: ManifestMetadata = {}
+    const issues: ManifestIssue[] = []
+
+    for (const field of Object.keys(OPTION_LISTS) as OptionField[]) {
+      const input = readCell(row, field)
+      if (!input) continue
+
+      const options = OPTION_LISTS[field]
+      const value = matchOption(input, options)
+      if (value) {
+        // Values come from the option list for this field
+        Object.assign(metadata, { [field]: value })
+      } else {
+        issues.push({
+          field,
+          input,
+          message: `${OPTION_FIELD_LABELS[field]} "${input}" is not in the list`,
+          suggestions: suggestOptions(input, options)
+        })
+      }
+    }
+
+    resolveSubscription(
+      readCell(row, 'subscription_pages'),
+      readCell(row, 'subscription_start'),
+      readCell(row, 'subscription_end'),
+      metadata,
+      issues
+    )
+
+    const key = manifestKey(filename)
+    if (entries.has(key)) {
+      duplicateFilenames.add(filename)
+    }
+    entries.set(key, { rowNumber, filename, metadata, issues })
+  })
+
+  return {
+    sourceName,
+    entries,
+    skippedRows,
+    duplicateFilenames: Array.from(duplicateFilenames),
+    ignoredColumns
+  }
+}
+
+/**
+ * Read a CSV or XLSX manifest selected in the browser
+ */
+export async function readUploadManifest(file: File): Promise<UploadManifest> {
+  const name = file.name.toLowerCase()
+
+  if (name.endsWith('.xlsx')) {
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    return parseUploadManifest(readFirstWorksheet(bytes), file.name)
+  }
+  if (name.endsWith('.csv') || file.type === 'text/csv') {
+    return parseUploadManifest(parseCsv(await file.text()), file.name)
+  }
+
+  throw new Error('Manifest must be a .csv or .xlsx file')
+}
@@ -1,5 +1,5 @@
 import { analyzeDocumentSize, estimateProcessingTime, type DocumentSizeAnalysis } from '@/lib/document-size-strategies'
-import { createServiceClient } from '@/lib/supabase/server'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
 import { processDocument } from '@/lib/document-processing'
 import { logger } from '@/lib/logger'
 
@@ -208,6 +208,63 @@ export async function queueDocumentProcessingJob(task: SimpleUploadTask): Promis
   return { jobId, sizeAnalysis }
 }
 
+// document_jobs.operation_type for re-embedding pages after exclusion range edits
+export const EXCLUSION_REEMBED_OPERATION = 'exclusion_reembed'
+
+/**
+ * Queue a partial re-embed after a document's exclusion ranges change.
+ * The cron worker only re-chunks the affected pages (see reembedExclusionChanges).
+ */
+export async function queueExclusionReembedJob(task: {
+  documentId: string
+  userId: string
+  fileSize: number
+}): Promise<string | undefined> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error: insertError } = await supabase
+      .from('document_jobs')
+      .insert({
+        user_id: task.userId,
+        document_id: task.documentId,
+        status: 'queued',
+        operation_type: EXCLUSION_REEMBED_OPERATION,
+        priority: calculateJobPriority(task.fileSize),
+        processing_method: 'sync',
+        result_summary: {
+          requested_at: new Date().toISOString()
+        }
+      })
+      .select('id')
+      .single()
+
+    if (insertError) {
+      logger.error('Failed to queue exclusion re-embed job', insertError, {
+        documentId: task.documentId,
+        userId: task.userId
+      })
+      throw new Error(`Failed to queue exclusion re-embed job: ${insertError.message}`)
+    }
+
+    const jobId = data && typeof data.id === 'string' ? data.id : undefined
+
+    try {
+      await updateDocumentStatus(task.documentId, 'queued')
+      await recordProcessingStatus(task.documentId, 'queued', 10, 'Exclusion ranges changed. Affected pages queued for re-embedding.')
+    } catch (statusError) {
+      // The caller reverts the exclusion edit on failure, so the job must not run either
+      if (jobId) {
+        await supabase.from('document_jobs').delete().eq('id', jobId)
+      }
+      throw statusError
+    }
+
+    return jobId
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
 export async function processUploadedDocument(task: SimpleUploadTask): Promise<void> {
   logger.info('Processing document', { documentId: task.documentId, jobId: task.jobId })
 
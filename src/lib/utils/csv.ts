@@ -0,0 +1,91 @@
+/**
+ * CSV Utilities
+ * Shared CSV writer for downloadable reports, and a reader for uploaded
+ * spreadsheets (metadata manifests)
+ */
+
+export type CsvCell = string | number | boolean | null | undefined
+
+/**
+ * Prefix text that a spreadsheet would run as a formula with a quote
+ * Titles and user-entered metadata end up in exports; Excel evaluates cells
+ * starting with =, +, -, @, tab or CR.
+ */
+export function neutralizeFormula(text: string): string {
+  return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text
+}
+
+const escapeCsvCell = (value: CsvCell): string => {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'string' ? neutralizeFormula(value) : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Render a header row and data rows as CSV
+ * CRLF line endings and a BOM so Excel opens the file as UTF-8.
+ */
+export function renderCsv(header: readonly string[], rows: readonly CsvCell[][]): string {
+  const lines = [header, ...rows].map(cells => cells.map(escapeCsvCell).join(','))
+  return `\uFEFF${lines.join('\r\n')}\r\n`
+}
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted cells with embedded commas, quotes and line breaks, CRLF or
+ * LF line endings, and a leading BOM. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row)
+    }
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n') {
+      endRow()
+    } else if (char === '\r') {
+      if (input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
@@ -9,6 +9,12 @@ import {
   ALLOWED_FILE_EXTENSIONS,
   ERROR_CODES,
 } from '@/lib/constants'
+import {
+  LAW_FIRM_OPTIONS,
+  FUND_MANAGER_OPTIONS,
+  FUND_ADMIN_OPTIONS,
+  JURISDICTION_OPTIONS,
+} from '@/lib/metadata-constants'
 import { validationError } from './api-response'
 
 // =============================================================================
@@ -239,6 +245,69 @@ export function validateNumberRange(
   return { isValid: true }
 }
 
+// =============================================================================
+// DOCUMENT METADATA VALIDATION
+// =============================================================================
+
+const METADATA_OPTION_FIELDS: Record<string, ReadonlyArray<{ value: string }>> = {
+  law_firm: LAW_FIRM_OPTIONS,
+  fund_manager: FUND_MANAGER_OPTIONS,
+  fund_admin: FUND_ADMIN_OPTIONS,
+  jurisdiction: JURISDICTION_OPTIONS,
+}
+
+const METADATA_BOOLEAN_FIELDS = ['subscription_agreement_skipped', 'subscription_agreement_auto_detect']
+
+const METADATA_PAGE_FIELDS = ['subscription_agreement_start_page', 'subscription_agreement_end_page']
+
+/**
+ * Validate upload metadata
+ * Only the fields that are present are checked, so partial metadata (a
+ * manifest row) passes. Blank option fields mean "not chosen yet".
+ *
+ * @param metadata - Metadata object to validate
+ * @returns Validation result
+ */
+export function validateDocumentMetadata(metadata: Record<string, unknown>): ValidationResult {
+  const invalid = (error: string): ValidationResult => ({
+    isValid: false,
+    error,
+    errorCode: ERROR_CODES.VALIDATION_ERROR,
+  })
+
+  for (const [field, options] of Object.entries(METADATA_OPTION_FIELDS)) {
+    const value = metadata[field]
+    if (value === undefined || value === null || value === '') {
+      continue
+    }
+    if (typeof value !== 'string' || !options.some(option => option.value === value)) {
+      return invalid(`${field} must be one of the listed options`)
+    }
+  }
+
+  for (const field of METADATA_BOOLEAN_FIELDS) {
+    const value = metadata[field]
+    if (value !== undefined && typeof value !== 'boolean') {
+      return invalid(`${field} must be a boolean`)
+    }
+  }
+
+  for (const field of METADATA_PAGE_FIELDS) {
+    const value = metadata[field]
+    if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+      return invalid(`${field} must be a positive page number`)
+    }
+  }
+
+  const start = metadata['subscription_agreement_start_page']
+  const end = metadata['subscription_agreement_end_page']
+  if (typeof start === 'number' && typeof end === 'number' && end < start) {
+    return invalid('subscription_agreement_end_page must not be before subscription_agreement_start_page')
+  }
+
+  return { isValid: true }
+}
+
 // =============================================================================
 // COMPOSITE VALIDATORS
 // =============================================================================
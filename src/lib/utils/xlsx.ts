@@ -0,0 +1,134 @@
+/**
+ * XLSX Utilities
+ * Minimal reader for uploaded spreadsheets (metadata manifests): the first
+ * worksheet's cell text, without styles, formulas or dates
+ */
+
+import { strFromU8, unzipSync } from 'fflate'
+
+const DEFAULT_SHEET_PATH = 'xl/worksheets/sheet1.xml'
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+}
+
+const decodeXml = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16))
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10))
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match
+  })
+
+const readAttribute = (attributes: string, name: string): string | null => {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes)
+  return match?.[1] ?? null
+}
+
+// Text of every <t> run inside a shared string or inline string
+const readTextRuns = (xml: string): string =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => decodeXml(match[1] ?? '')).join('')
+
+// "AB12" -> 27 (zero-based column index)
+const columnIndex = (reference: string): number => {
+  const letters = /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() ?? ''
+  let index = 0
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+function resolveFirstSheetPath(files: Record<string, Uint8Array>): string {
+  const workbook = files['xl/workbook.xml']
+  const relationships = files['xl/_rels/workbook.xml.rels']
+  if (!workbook || !relationships) {
+    return DEFAULT_SHEET_PATH
+  }
+
+  const sheetTag = /<sheet\s([^>]*?)\/?>/.exec(strFromU8(workbook))?.[1]
+  const relationId = sheetTag ? readAttribute(sheetTag, 'r:id') : null
+  if (!relationId) {
+    return DEFAULT_SHEET_PATH
+  }
+
+  for (const match of strFromU8(relationships).matchAll(/<Relationship\s([^>]*?)\/?>/g)) {
+    const attributes = match[1] ?? ''
+    if (readAttribute(attributes, 'Id') !== relationId) continue
+
+    const target = readAttribute(attributes, 'Target')
+    if (!target) break
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`
+  }
+
+  return DEFAULT_SHEET_PATH
+}
+
+/**
+ * Read the first worksheet of an XLSX workbook as rows of cell text
+ * Gaps between cells are filled with empty strings; blank rows are dropped.
+ */
+export function readFirstWorksheet(bytes: Uint8Array): string[][] {
+  let files: Record<string, Uint8Array>
+  try {
+    files = unzipSync(bytes, {
+      filter: file => file.name.startsWith('xl/') && (file.name.endsWith('.xml') || file.name.endsWith('.rels'))
+    })
+  } catch {
+    throw new Error('File is not a valid XLSX workbook')
+  }
+
+  const sheet = files[resolveFirstSheetPath(files)]
+  if (!sheet) {
+    throw new Error('Workbook has no worksheets')
+  }
+
+  const sharedStringsXml = files['xl/sharedStrings.xml']
+  const sharedStrings = sharedStringsXml
+    ? Array.from(strFromU8(sharedStringsXml).matchAll(/<si>([\s\S]*?)<\/si>/g), match => readTextRuns(match[1] ?? ''))
+    : []
+
+  const rows: string[][] = []
+
+  for (const rowMatch of strFromU8(sheet).matchAll(/<row(?:\s[^>]*)?>([\s\S]*?)<\/row>/g)) {
+    const cells: string[] = []
+
+    for (const cellMatch of (rowMatch[1] ?? '').matchAll(/<c\s([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1] ?? ''
+      const body = cellMatch[2] ?? ''
+      const reference = readAttribute(attributes, 'r')
+      const type = readAttribute(attributes, 't')
+      const rawValue = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1]
+
+      let value = ''
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? ''
+      } else if (type === 'inlineStr') {
+        value = readTextRuns(body)
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE'
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue)
+      }
+
+      const index = reference ? columnIndex(reference) : cells.length
+      while (cells.length < index) {
+        cells.push('')
+      }
+      cells[index] = value
+    }
+
+    if (cells.some(cell => cell.trim() !== '')) {
+      rows.push(cells)
+    }
+  }
+
+  return rows
+}
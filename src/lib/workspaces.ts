@@ -0,0 +1,638 @@
+/**
+ * Team Workspaces
+ * Shared document libraries. A document with a workspace_id is visible to
+ * every member of that workspace; owners and editors can change it, viewers
+ * can only read and search it. Documents without one stay in the uploader's
+ * personal library. Uploading a workspace document grants nothing by itself:
+ * an uploader who leaves the workspace (or becomes a viewer) loses access.
+ *
+ * Queries here run through the service client, so routes must check the
+ * caller's workspace role first (getWorkspaceRole). RLS enforces the same
+ * rules for user-client queries (see 20251109140000_workspaces.sql).
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { updateDocumentMetadataInPinecone } from '@/lib/pinecone'
+import { logger } from '@/lib/logger'
+
+export const WORKSPACE_ROLES = ['owner', 'editor', 'viewer'] as const
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number]
+
+// Roles that can add, change and remove documents in a workspace
+const EDITOR_ROLES: readonly WorkspaceRole[] = ['owner', 'editor']
+
+export const WORKSPACE_NAME_MAX_LENGTH = 120
+// Upper bound for a single move request
+export const MAX_MOVE_DOCUMENTS = 200
+
+// Documents still being written to Pinecone would be re-stamped with the old
+// workspace by the worker, so they cannot be moved until processing ends
+const IN_FLIGHT_STATUSES = ['uploading', 'queued', 'processing']
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return typeof value === 'string' && (WORKSPACE_ROLES as readonly string[]).includes(value)
+}
+
+export function canEditWorkspace(role: WorkspaceRole | null): boolean {
+  return role !== null && EDITOR_ROLES.includes(role)
+}
+
+export interface Workspace {
+  id: string
+  name: string
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface WorkspaceSummary extends Workspace {
+  role: WorkspaceRole
+  member_count: number
+  document_count: number
+}
+
+export interface WorkspaceMember {
+  user_id: string
+  email: string | null
+  full_name: string | null
+  role: WorkspaceRole
+  added_by: string | null
+  created_at: string
+}
+
+/**
+ * Libraries a user can reach: their own uploads plus the listed workspaces
+ */
+export interface DocumentScope {
+  userId: string
+  workspaceIds: string[]
+}
+
+export type DocumentAccess = 'read' | 'edit'
+
+/**
+ * Resolve the caller's document scope
+ * 'edit' only includes workspaces where the user is an owner or editor.
+ */
+export async function getDocumentScope(userId: string, access: DocumentAccess = 'read'): Promise<DocumentScope> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('workspace_id, role')
+      .eq('user_id', userId)
+      .returns<Array<{ workspace_id: string; role: WorkspaceRole }>>()
+
+    if (error) {
+      throw new Error(`Failed to load workspace memberships: ${error.message}`)
+    }
+
+    const workspaceIds = (data ?? [])
+      .filter(row => access === 'read' || EDITOR_ROLES.includes(row.role))
+      .map(row => row.workspace_id)
+
+    return { userId, workspaceIds }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * PostgREST `or` filter matching documents inside the scope
+ * Usage: query.or(documentScopeFilter(scope))
+ */
+export function documentScopeFilter(scope: DocumentScope): string {
+  const personal = `and(user_id.eq.${scope.userId},workspace_id.is.null)`
+  if (scope.workspaceIds.length === 0) {
+    return personal
+  }
+  return `${personal},workspace_id.in.(${scope.workspaceIds.join(',')})`
+}
+
+/**
+ * Pinecone metadata filter matching vectors inside the scope
+ * Vectors carry user_id and, for shared documents, workspace_id. Personal
+ * vectors have no workspace_id, or an empty one once moved out of a workspace.
+ */
+export function pineconeScopeFilter(scope: DocumentScope): Record<string, unknown> {
+  const personal = {
+    user_id: { $eq: scope.userId },
+    $or: [
+      { workspace_id: { $exists: false } },
+      { workspace_id: { $eq: '' } }
+    ]
+  }
+  if (scope.workspaceIds.length === 0) {
+    return personal
+  }
+  return {
+    $or: [
+      personal,
+      { workspace_id: { $in: scope.workspaceIds } }
+    ]
+  }
+}
+
+export async function getWorkspaceRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .maybeSingle<{ role: WorkspaceRole }>()
+
+    if (error) {
+      throw new Error(`Failed to load workspace role: ${error.message}`)
+    }
+
+    return data?.role ?? null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Workspaces the user belongs to, with their role and library size
+ */
+export async function listWorkspaces(userId: string): Promise<WorkspaceSummary[]> {
+  const supabase = await createServiceClient()
+  try {
+    const { data: memberships, error } = await supabase
+      .from('workspace_members')
+      .select('role, workspaces!inner(id, name, created_by, created_at, updated_at)')
+      .eq('user_id', userId)
+      .returns<Array<{ role: WorkspaceRole; workspaces: Workspace | Workspace[] }>>()
+
+    if (error) {
+      throw new Error(`Failed to load workspaces: ${error.message}`)
+    }
+
+    const rows = (memberships ?? []).flatMap(row => {
+      const workspace = Array.isArray(row.workspaces) ? row.workspaces[0] : row.workspaces
+      return workspace ? [{ workspace, role: row.role }] : []
+    })
+
+    if (rows.length === 0) {
+      return []
+    }
+
+    const workspaceIds = rows.map(row => row.workspace.id)
+    const { data: members, error: membersError } = await supabase
+      .from('workspace_members')
+      .select('workspace_id')
+      .in('workspace_id', workspaceIds)
+      .returns<Array<{ workspace_id: string }>>()
+
+    if (membersError) {
+      throw new Error(`Failed to count workspace members: ${membersError.message}`)
+    }
+
+    const memberCounts = new Map<string, number>()
+    for (const member of members ?? []) {
+      memberCounts.set(member.workspace_id, (memberCounts.get(member.workspace_id) ?? 0) + 1)
+    }
+
+    const documentCounts = await Promise.all(workspaceIds.map(async workspaceId => {
+      const { count, error: countError } = await supabase
+        .from('documents')
+        .select('id', { count: 'exact', head: true })
+        .eq('workspace_id', workspaceId)
+
+      if (countError) {
+        logger.warn('Failed to count workspace documents', { workspaceId, error: countError.message })
+      }
+      return count ?? 0
+    }))
+
+    return rows
+      .map(({ workspace, role }, index) => ({
+        ...workspace,
+        role,
+        member_count: memberCounts.get(workspace.id) ?? 0,
+        document_count: documentCounts[index] ?? 0
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Create a workspace with the creator as its first owner
+ */
+export async function createWorkspace(userId: string, name: string): Promise<WorkspaceSummary> {
+  const supabase = await createServiceClient()
+  try {
+    const { data: workspace, error } = await supabase
+      .from('workspaces')
+      .insert({ name, created_by: userId })
+      .select('id, name, created_by, created_at, updated_at')
+      .single<Workspace>()
+
+    if (error || !workspace) {
+      throw new Error(`Failed to create workspace: ${error?.message ?? 'no row returned'}`)
+    }
+
+    const { error: memberError } = await supabase
+      .from('workspace_members')
+      .insert({ workspace_id: workspace.id, user_id: userId, role: 'owner', added_by: userId })
+
+    if (memberError) {
+      await supabase.from('workspaces').delete().eq('id', workspace.id)
+      throw new Error(`Failed to add workspace owner: ${memberError.message}`)
+    }
+
+    logger.info('Workspace created', { workspaceId: workspace.id, userId })
+
+    return { ...workspace, role: 'owner', member_count: 1, document_count: 0 }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+export async function renameWorkspace(workspaceId: string, name: string): Promise<Workspace | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('workspaces')
+      .update({ name, updated_at: new Date().toISOString() })
+      .eq('id', workspaceId)
+      .select('id, name, created_by, created_at, updated_at')
+      .maybeSingle<Workspace>()
+
+    if (error) {
+      throw new Error(`Failed to rename workspace: ${error.message}`)
+    }
+
+    return data
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Delete a workspace
+ * Its documents go back to their uploaders' personal libraries (ON DELETE
+ * SET NULL), so their vectors lose the workspace_id as well.
+ *
+ * @returns Number of documents returned to personal libraries
+ */
+export async function deleteWorkspace(workspaceId: string): Promise<number> {
+  const supabase = await createServiceClient()
+  let documentIds: string[]
+  try {
+    const { data: documents, error: documentsError } = await supabase
+      .from('documents')
+      .select('id')
+      .eq('workspace_id', workspaceId)
+      .returns<Array<{ id: string }>>()
+
+    if (documentsError) {
+      throw new Error(`Failed to load workspace documents: ${documentsError.message}`)
+    }
+    documentIds = (documents ?? []).map(document => document.id)
+
+    const { error } = await supabase
+      .from('workspaces')
+      .delete()
+      .eq('id', workspaceId)
+
+    if (error) {
+      throw new Error(`Failed to delete workspace: ${error.message}`)
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  await syncVectorWorkspace(documentIds, null)
+
+  logger.info('Workspace deleted', { workspaceId, releasedDocuments: documentIds.length })
+
+  return documentIds.length
+}
+
+export async function listWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  const supabase = await createServiceClient()
+  try {
+    // Two foreign keys point at users (user_id, added_by); embed through user_id
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('user_id, role, added_by, created_at, users!workspace_members_user_id_fkey(email, full_name)')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true })
+      .returns<Array<{
+        user_id: string
+        role: WorkspaceRole
+        added_by: string | null
+        created_at: string
+        users: { email: string; full_name: string | null } | Array<{ email: string; full_name: string | null }> | null
+      }>>()
+
+    if (error) {
+      throw new Error(`Failed to load workspace members: ${error.message}`)
+    }
+
+    return (data ?? []).map(row => {
+      const profile = Array.isArray(row.users) ? row.users[0] ?? null : row.users
+      return {
+        user_id: row.user_id,
+        email: profile?.email ?? null,
+        full_name: profile?.full_name ?? null,
+        role: row.role,
+        added_by: row.added_by,
+        created_at: row.created_at
+      }
+    })
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+export type AddMemberResult =
+  | { outcome: 'user_not_found' }
+  | { outcome: 'already_member' }
+  | { outcome: 'added'; userId: string }
+
+/**
+ * Add a registered user to a workspace by email
+ */
+export async function addWorkspaceMember(
+  workspaceId: string,
+  email: string,
+  role: WorkspaceRole,
+  addedBy: string
+): Promise<AddMemberResult> {
+  const supabase = await createServiceClient()
+  try {
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('id')
+      .ilike('email', email)
+      .maybeSingle<{ id: string }>()
+
+    if (userError) {
+      throw new Error(`Failed to look up user: ${userError.message}`)
+    }
+    if (!user) {
+      return { outcome: 'user_not_found' }
+    }
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .insert({ workspace_id: workspaceId, user_id: user.id, role, added_by: addedBy })
+
+    if (error) {
+      // Primary key (workspace_id, user_id) violation
+      if (error.code === '23505') {
+        return { outcome: 'already_member' }
+      }
+      throw new Error(`Failed to add workspace member: ${error.message}`)
+    }
+
+    logger.info('Workspace member added', { workspaceId, userId: user.id, role, addedBy })
+
+    return { outcome: 'added', userId: user.id }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+export type MemberChangeResult =
+  | { outcome: 'not_found' }
+  | { outcome: 'last_owner' }
+  | { outcome: 'updated' }
+  | { outcome: 'removed' }
+
+/**
+ * Change a member's role
+ * A workspace always keeps at least one owner.
+ */
+export async function updateWorkspaceMemberRole(
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceRole
+): Promise<MemberChangeResult> {
+  const supabase = await createServiceClient()
+  try {
+    const current = await loadMemberRole(supabase, workspaceId, userId)
+    if (!current) {
+      return { outcome: 'not_found' }
+    }
+    if (current === 'owner' && role !== 'owner' && await isLastOwner(supabase, workspaceId)) {
+      return { outcome: 'last_owner' }
+    }
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .update({ role })
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+
+    if (error) {
+      throw new Error(`Failed to update workspace member: ${error.message}`)
+    }
+
+    return { outcome: 'updated' }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Remove a member
+ * Documents they uploaded into the workspace stay in the workspace.
+ */
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<MemberChangeResult> {
+  const supabase = await createServiceClient()
+  try {
+    const current = await loadMemberRole(supabase, workspaceId, userId)
+    if (!current) {
+      return { outcome: 'not_found' }
+    }
+    if (current === 'owner' && await isLastOwner(supabase, workspaceId)) {
+      return { outcome: 'last_owner' }
+    }
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+
+    if (error) {
+      throw new Error(`Failed to remove workspace member: ${error.message}`)
+    }
+
+    logger.info('Workspace member removed', { workspaceId, userId })
+
+    return { outcome: 'removed' }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>
+
+async function loadMemberRole(
+  supabase: ServiceClient,
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle<{ role: WorkspaceRole }>()
+
+  if (error) {
+    throw new Error(`Failed to load workspace member: ${error.message}`)
+  }
+
+  return data?.role ?? null
+}
+
+async function listOwnedWorkspaceIds(supabase: ServiceClient, userId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('workspace_id')
+    .eq('user_id', userId)
+    .eq('role', 'owner')
+    .returns<Array<{ workspace_id: string }>>()
+
+  if (error) {
+    throw new Error(`Failed to load owned workspaces: ${error.message}`)
+  }
+
+  return new Set((data ?? []).map(row => row.workspace_id))
+}
+
+async function isLastOwner(supabase: ServiceClient, workspaceId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('workspace_members')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('workspace_id', workspaceId)
+    .eq('role', 'owner')
+
+  if (error) {
+    throw new Error(`Failed to count workspace owners: ${error.message}`)
+  }
+
+  return (count ?? 0) <= 1
+}
+
+export interface MoveDocumentsResult {
+  moved: string[]
+  skipped: Array<{ documentId: string; reason: 'not_found' | 'processing' | 'forbidden' }>
+  /** Moved in the database, but the Pinecone metadata update failed */
+  vectorSyncFailed: string[]
+}
+
+/**
+ * Move documents into a workspace, or back to the personal library (null)
+ *
+ * The caller must be able to edit the target workspace. Each document must
+ * be editable by the caller where it is now; editors can only move their own
+ * uploads out of a workspace, owners can move any. Only the uploader can take
+ * a document back to their personal library.
+ */
+export async function moveDocumentsToWorkspace(
+  userId: string,
+  documentIds: string[],
+  workspaceId: string | null
+): Promise<MoveDocumentsResult> {
+  const uniqueIds = Array.from(new Set(documentIds))
+  const editScope = await getDocumentScope(userId, 'edit')
+  const result: MoveDocumentsResult = { moved: [], skipped: [], vectorSyncFailed: [] }
+  const movable: string[] = []
+
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id, user_id, status, workspace_id')
+      .in('id', uniqueIds)
+      .or(documentScopeFilter(editScope))
+      .returns<Array<{ id: string; user_id: string; status: string; workspace_id: string | null }>>()
+
+    if (error) {
+      throw new Error(`Failed to load documents to move: ${error.message}`)
+    }
+
+    const found = new Map((data ?? []).map(document => [document.id, document]))
+    const ownedWorkspaceIds = await listOwnedWorkspaceIds(supabase, userId)
+
+    for (const documentId of uniqueIds) {
+      const document = found.get(documentId)
+      if (!document) {
+        result.skipped.push({ documentId, reason: 'not_found' })
+      } else if (
+        document.user_id !== userId &&
+        (workspaceId === null || !document.workspace_id || !ownedWorkspaceIds.has(document.workspace_id))
+      ) {
+        result.skipped.push({ documentId, reason: 'forbidden' })
+      } else if (IN_FLIGHT_STATUSES.includes(document.status)) {
+        result.skipped.push({ documentId, reason: 'processing' })
+      } else if (document.workspace_id !== workspaceId) {
+        movable.push(documentId)
+      } else {
+        // Already there
+        result.moved.push(documentId)
+      }
+    }
+
+    if (movable.length > 0) {
+      const { error: updateError } = await supabase
+        .from('documents')
+        .update({ workspace_id: workspaceId, updated_at: new Date().toISOString() })
+        .in('id', movable)
+
+      if (updateError) {
+        throw new Error(`Failed to move documents: ${updateError.message}`)
+      }
+    }
+
+    result.moved.push(...movable)
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  result.vectorSyncFailed = await syncVectorWorkspace(movable, workspaceId)
+
+  logger.info('Documents moved between libraries', {
+    userId,
+    workspaceId,
+    moved: result.moved.length,
+    skipped: result.skipped.length,
+    vectorSyncFailed: result.vectorSyncFailed.length
+  })
+
+  return result
+}
+
+/**
+ * Re-stamp workspace_id on the documents' vectors
+ * Pinecone keeps existing keys on upsert, so leaving a workspace writes an
+ * empty string rather than dropping the key.
+ *
+ * @returns Document ids whose vectors could not be updated
+ */
+async function syncVectorWorkspace(documentIds: string[], workspaceId: string | null): Promise<string[]> {
+  const failed: string[] = []
+
+  for (const documentId of documentIds) {
+    try {
+      await updateDocumentMetadataInPinecone(documentId, { workspace_id: workspaceId ?? '' })
+    } catch (error) {
+      logger.error('Failed to update workspace on document vectors', error instanceof Error ? error : new Error(String(error)), {
+        documentId,
+        workspaceId
+      })
+      failed.push(documentId)
+    }
+  }
+
+  return failed
+}
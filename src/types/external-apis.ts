@@ -971,10 +971,51 @@ export interface BusinessMetadata {
     end_page?: number
     excluded_pages_count?: number
     supplied_via?: string
+    source?: 'auto' | 'manual'
+    confidence?: number
   }
   subscription_agreement_skipped?: boolean
+  subscription_agreement_auto_detect?: boolean
   subscription_agreement_start_page?: number
   subscription_agreement_end_page?: number
+  subscription_agreement_detection?: SubscriptionAgreementProposal
+  exclusion_ranges?: ExclusionRange[]
+}
+
+export type ExclusionRangeType =
+  | 'subscription_agreement'
+  | 'cover'
+  | 'exhibit'
+  | 'signature_pages'
+  | 'tax_forms'
+  | 'custom'
+
+/**
+ * User-entered page range removed from chunking and similarity matching
+ * Applied ranges are recorded in `excluded_sections` once the embeddings reflect them.
+ */
+export interface ExclusionRange {
+  type: ExclusionRangeType
+  start_page: number
+  end_page: number
+  label?: string
+}
+
+/**
+ * Subscription agreement span proposed by the detector during processing
+ * `applied` is true when the proposal is the exclusion used for the current embeddings.
+ */
+export interface SubscriptionAgreementProposal {
+  start_page: number
+  end_page: number
+  confidence: number
+  heading_pages: number[]
+  questionnaire_pages: number[]
+  signature_pages: number[]
+  applied: boolean
+  status: 'pending' | 'confirmed' | 'rejected'
+  detected_at: string
+  reviewed_at?: string
 }
 
 export interface ExtractedField {
@@ -995,8 +1036,15 @@ export interface SimplifiedEntity {
 
 export interface SimplifiedTable {
   pageNumber?: number | null
-  headerRows?: string[][]
+  headerRows?: string[][]  // Empty cells are kept as '' so columns line up
   bodyRows: string[][]
+  region?: {               // Table box on its page, normalized (0-1, top-left origin)
+    pageNumber: number
+    x0: number
+    y0: number
+    x1: number
+    y1: number
+  }
 }
 
 export interface ProcessingResult {
@@ -1023,6 +1071,14 @@ export interface DatabaseDocument {
   file_size: number
   content_type: string
   user_id: string
+  workspace_id?: string | null
+  content_hash?: string | null
+  previous_version_id?: string | null
+  near_duplicate_of?: string | null
+  version_chain_id?: string | null
+  version_number?: number
+  is_latest_version?: boolean
+  extraction_provider?: 'document-ai' | 'local' | null
   status: 'pending' | 'processing' | 'completed' | 'error' | 'cancelled'
   extracted_fields?: Record<string, unknown>
   page_count?: number
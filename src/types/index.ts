@@ -2,6 +2,8 @@
 export * from './external-apis'
 export * from './api-responses'
 
+import type { ExclusionRange, SubscriptionAgreementProposal } from './external-apis'
+
 // LEGACY TYPES - Maintained for backward compatibility
 // These will be gradually migrated to the new type system
 
@@ -18,6 +20,13 @@ export interface User {
 export interface Document {
   id: string
   user_id: string
+  workspace_id?: string | null
+  content_hash?: string | null
+  previous_version_id?: string | null
+  near_duplicate_of?: string | null
+  version_chain_id?: string | null
+  version_number?: number
+  is_latest_version?: boolean
   title: string
   filename: string
   file_path: string
@@ -50,6 +59,14 @@ export interface DocumentMetadata {
   custom_fields?: Record<string, unknown> // FIXED: Replaced 'any' with 'unknown'
   embeddings_skipped?: boolean
   embeddings_error?: string
+  subscription_agreement_detection?: SubscriptionAgreementProposal
+  subscription_agreement?: {
+    excluded?: boolean
+    start_page?: number
+    end_page?: number
+    source?: 'auto' | 'manual'
+  }
+  exclusion_ranges?: ExclusionRange[]
 }
 
 // ExtractedField interface removed - extracted_fields table no longer exists
@@ -0,0 +1,112 @@
+-- =====================================================
+-- BM25 LEXICAL INDEX FOR SPARSE / HYBRID STAGE 0 RETRIEVAL
+-- =====================================================
+-- Adds a stored tsvector over document_embeddings.chunk_text and a
+-- per-user BM25 scoring function. Stage 0 uses it to find documents that
+-- share defined terms and clause wording even when their centroids drift.
+-- =====================================================
+
+ALTER TABLE public.document_embeddings
+  ADD COLUMN IF NOT EXISTS chunk_text_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', COALESCE(chunk_text, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_chunk_text_tsv
+  ON public.document_embeddings USING gin(chunk_text_tsv);
+
+-- Score the user's chunks against the most frequent lexemes of the source
+-- document (optionally limited to a page range) and aggregate per document.
+CREATE OR REPLACE FUNCTION public.bm25_candidate_documents(
+  p_user_id UUID,
+  p_source_document_id UUID,
+  p_start_page INTEGER DEFAULT NULL,
+  p_end_page INTEGER DEFAULT NULL,
+  p_document_ids UUID[] DEFAULT NULL,
+  p_max_terms INTEGER DEFAULT 64,
+  p_match_count INTEGER DEFAULT 600,
+  p_k1 DOUBLE PRECISION DEFAULT 1.2,
+  p_b DOUBLE PRECISION DEFAULT 0.75
+)
+RETURNS TABLE (document_id UUID, score DOUBLE PRECISION, matched_chunks INTEGER)
+LANGUAGE sql STABLE
+AS $$
+  WITH corpus AS (
+    SELECT
+      e.id,
+      e.document_id,
+      e.chunk_text_tsv,
+      GREATEST(COALESCE(e.character_count, length(e.chunk_text)), 1)::DOUBLE PRECISION AS chunk_length
+    FROM public.document_embeddings e
+    JOIN public.documents d ON d.id = e.document_id
+    WHERE d.user_id = p_user_id
+      AND d.status = 'completed'
+  ),
+  corpus_stats AS (
+    SELECT
+      COUNT(*)::DOUBLE PRECISION AS chunk_total,
+      GREATEST(AVG(chunk_length), 1)::DOUBLE PRECISION AS avg_length
+    FROM corpus
+  ),
+  source_terms AS (
+    SELECT t.lexeme, SUM(COALESCE(array_length(t.positions, 1), 1)) AS source_tf
+    FROM public.document_embeddings e
+    CROSS JOIN LATERAL unnest(e.chunk_text_tsv) AS t
+    WHERE e.document_id = p_source_document_id
+      AND (p_start_page IS NULL OR COALESCE(e.end_page_number, e.page_number) >= p_start_page)
+      AND (p_end_page IS NULL OR COALESCE(e.start_page_number, e.page_number) <= p_end_page)
+      AND length(t.lexeme) >= 3
+      AND t.lexeme !~ '^[0-9.,]+$'
+    GROUP BY t.lexeme
+    ORDER BY source_tf DESC, t.lexeme
+    LIMIT p_max_terms
+  ),
+  source_query AS (
+    SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery AS q
+    FROM source_terms
+  ),
+  postings AS (
+    SELECT
+      c.id AS chunk_id,
+      c.document_id,
+      c.chunk_length,
+      t.lexeme,
+      COALESCE(array_length(t.positions, 1), 1)::DOUBLE PRECISION AS tf
+    FROM corpus c
+    CROSS JOIN source_query sq
+    CROSS JOIN LATERAL unnest(c.chunk_text_tsv) AS t
+    WHERE c.chunk_text_tsv @@ sq.q
+      AND t.lexeme IN (SELECT lexeme FROM source_terms)
+  ),
+  term_df AS (
+    SELECT lexeme, COUNT(DISTINCT chunk_id)::DOUBLE PRECISION AS df
+    FROM postings
+    GROUP BY lexeme
+  ),
+  chunk_scores AS (
+    SELECT
+      p.chunk_id,
+      p.document_id,
+      SUM(
+        ln(1 + (s.chunk_total - df.df + 0.5) / (df.df + 0.5))
+        * (p.tf * (p_k1 + 1))
+        / (p.tf + p_k1 * (1 - p_b + p_b * p.chunk_length / s.avg_length))
+      ) AS chunk_score
+    FROM postings p
+    JOIN term_df df ON df.lexeme = p.lexeme
+    CROSS JOIN corpus_stats s
+    WHERE p.document_id <> p_source_document_id
+      AND (p_document_ids IS NULL OR p.document_id = ANY(p_document_ids))
+    GROUP BY p.chunk_id, p.document_id
+  )
+  SELECT
+    cs.document_id,
+    SUM(cs.chunk_score)::DOUBLE PRECISION AS score,
+    COUNT(*)::INTEGER AS matched_chunks
+  FROM chunk_scores cs
+  GROUP BY cs.document_id
+  ORDER BY 2 DESC
+  LIMIT p_match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bm25_candidate_documents(
+  UUID, UUID, INTEGER, INTEGER, UUID[], INTEGER, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION
+) TO service_role;
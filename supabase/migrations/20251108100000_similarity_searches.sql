@@ -0,0 +1,77 @@
+-- =====================================================
+-- PERSISTED SIMILARITY SEARCH RUNS
+-- =====================================================
+-- Stores every similar-v2 / selected-search run (options, timings and the
+-- full result payload including sections) so users can reopen past results
+-- without paying for another 20-55 second pipeline run. A run is marked stale
+-- when its source document or any of its target documents is reprocessed.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.similarity_searches (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  search_type TEXT NOT NULL DEFAULT 'general' CHECK (search_type IN ('general', 'selected')),
+  target_document_ids UUID[] NOT NULL DEFAULT '{}',  -- Result + selected target ids (drives staleness)
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,         -- Filters, page range, thresholds, stage config
+  timing JSONB,
+  stages JSONB,
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,          -- Full SimilarityResult[] including sections
+  result_count INTEGER NOT NULL DEFAULT 0,
+  is_stale BOOLEAN NOT NULL DEFAULT false,
+  stale_reason TEXT,
+  stale_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_similarity_searches_source_created
+  ON public.similarity_searches (user_id, source_document_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_similarity_searches_targets
+  ON public.similarity_searches USING gin(target_document_ids);
+
+ALTER TABLE public.similarity_searches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own similarity searches" ON public.similarity_searches;
+CREATE POLICY "Users can view own similarity searches" ON public.similarity_searches
+  FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can insert own similarity searches" ON public.similarity_searches;
+CREATE POLICY "Users can insert own similarity searches" ON public.similarity_searches
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can delete own similarity searches" ON public.similarity_searches;
+CREATE POLICY "Users can delete own similarity searches" ON public.similarity_searches
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Mark stored runs stale when a document they reference goes back into the
+-- processing queue (retry / reprocess replaces its chunks and embeddings)
+CREATE OR REPLACE FUNCTION public.mark_similarity_searches_stale()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.similarity_searches
+  SET
+    is_stale = true,
+    stale_reason = CASE
+      WHEN source_document_id = NEW.id THEN 'source_reprocessed'
+      ELSE 'target_reprocessed'
+    END,
+    stale_at = NOW()
+  WHERE is_stale = false
+    AND (source_document_id = NEW.id OR NEW.id = ANY(target_document_ids));
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS mark_similarity_searches_stale_on_reprocess ON public.documents;
+CREATE TRIGGER mark_similarity_searches_stale_on_reprocess
+  AFTER UPDATE OF status ON public.documents
+  FOR EACH ROW
+  WHEN (
+    OLD.status IS DISTINCT FROM NEW.status
+    AND NEW.status IN ('queued', 'processing')
+    AND OLD.status IN ('completed', 'error', 'cancelled')
+  )
+  EXECUTE FUNCTION public.mark_similarity_searches_stale();
@@ -0,0 +1,45 @@
+-- =====================================================
+-- ASYNC SIMILARITY JOBS
+-- =====================================================
+-- Queue for similar-v2 / selected-search runs executed outside the request
+-- (same lifecycle as document_jobs). Workers write stage progress and the
+-- current top results so clients can follow along over SSE.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.similarity_jobs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  search_type TEXT NOT NULL DEFAULT 'general' CHECK (search_type IN ('general', 'selected')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'cancelled')),
+  request JSONB NOT NULL,                  -- Normalized pipeline options + shaping parameters
+  progress JSONB,                          -- Stage 0 / Stage 1 counts, Stage 2 scored/total
+  partial_results JSONB,                   -- Current top results while Stage 2 runs
+  result JSONB,                            -- Final response payload
+  search_id UUID REFERENCES public.similarity_searches(id) ON DELETE SET NULL,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 2,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_similarity_jobs_status_created
+  ON public.similarity_jobs (status, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_similarity_jobs_user_created
+  ON public.similarity_jobs (user_id, created_at DESC);
+
+ALTER TABLE public.similarity_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own similarity jobs" ON public.similarity_jobs;
+CREATE POLICY "Users can view own similarity jobs" ON public.similarity_jobs
+  FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can cancel own similarity jobs" ON public.similarity_jobs;
+CREATE POLICY "Users can cancel own similarity jobs" ON public.similarity_jobs
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id AND status = 'cancelled');
+DROP POLICY IF EXISTS "System can manage similarity jobs" ON public.similarity_jobs;
+CREATE POLICY "System can manage similarity jobs" ON public.similarity_jobs
+  FOR ALL TO service_role USING (true);
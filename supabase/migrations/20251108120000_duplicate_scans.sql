@@ -0,0 +1,99 @@
+-- =====================================================
+-- LIBRARY-WIDE NEAR-DUPLICATE SCANS
+-- =====================================================
+-- A scan runs Stage 0 + Stage 2 for every completed document in a user's
+-- library and stores each pair above the threshold as an edge. Edges are
+-- grouped into connected components ("families") once the scan completes.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.duplicate_scans (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'cancelled')),
+  threshold NUMERIC NOT NULL DEFAULT 0.8,           -- Edge kept when sourceScore OR targetScore >= threshold
+  candidates_per_document INTEGER NOT NULL DEFAULT 50,
+  document_ids UUID[] NOT NULL DEFAULT '{}',        -- Completed documents snapshotted at creation
+  next_index INTEGER NOT NULL DEFAULT 0,            -- Position in document_ids the next batch starts from
+  pair_count INTEGER NOT NULL DEFAULT 0,
+  cluster_count INTEGER NOT NULL DEFAULT 0,
+  failed_document_ids UUID[] NOT NULL DEFAULT '{}',
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_scans_user_created
+  ON public.duplicate_scans (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_scans_status_updated
+  ON public.duplicate_scans (status, updated_at);
+
+CREATE TABLE IF NOT EXISTS public.duplicate_clusters (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  scan_id UUID NOT NULL REFERENCES public.duplicate_scans(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_ids UUID[] NOT NULL,
+  size INTEGER NOT NULL,
+  edge_count INTEGER NOT NULL,
+  max_score NUMERIC NOT NULL,
+  avg_score NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_clusters_scan
+  ON public.duplicate_clusters (scan_id, size DESC);
+
+-- Pairwise edges (document_a_id < document_b_id so each pair is stored once)
+CREATE TABLE IF NOT EXISTS public.duplicate_pairs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  scan_id UUID NOT NULL REFERENCES public.duplicate_scans(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  cluster_id UUID REFERENCES public.duplicate_clusters(id) ON DELETE SET NULL,
+  document_a_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  document_b_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  document_a_score NUMERIC NOT NULL,                -- Portion of document A matched
+  document_b_score NUMERIC NOT NULL,                -- Portion of document B matched
+  max_score NUMERIC NOT NULL,
+  matched_a_characters INTEGER NOT NULL DEFAULT 0,
+  matched_b_characters INTEGER NOT NULL DEFAULT 0,
+  sections JSONB NOT NULL DEFAULT '[]'::jsonb,      -- Strongest shared sections (page ranges, avg score)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  CONSTRAINT duplicate_pairs_ordered CHECK (document_a_id < document_b_id),
+  CONSTRAINT duplicate_pairs_unique UNIQUE (scan_id, document_a_id, document_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_pairs_cluster
+  ON public.duplicate_pairs (cluster_id, max_score DESC);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_pairs_scan_score
+  ON public.duplicate_pairs (scan_id, max_score DESC);
+
+ALTER TABLE public.duplicate_scans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.duplicate_clusters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.duplicate_pairs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own duplicate scans" ON public.duplicate_scans;
+CREATE POLICY "Users can view own duplicate scans" ON public.duplicate_scans
+  FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can delete own duplicate scans" ON public.duplicate_scans;
+CREATE POLICY "Users can delete own duplicate scans" ON public.duplicate_scans
+  FOR DELETE USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "System can manage duplicate scans" ON public.duplicate_scans;
+CREATE POLICY "System can manage duplicate scans" ON public.duplicate_scans
+  FOR ALL TO service_role USING (true);
+
+DROP POLICY IF EXISTS "Users can view own duplicate clusters" ON public.duplicate_clusters;
+CREATE POLICY "Users can view own duplicate clusters" ON public.duplicate_clusters
+  FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "System can manage duplicate clusters" ON public.duplicate_clusters;
+CREATE POLICY "System can manage duplicate clusters" ON public.duplicate_clusters
+  FOR ALL TO service_role USING (true);
+
+DROP POLICY IF EXISTS "Users can view own duplicate pairs" ON public.duplicate_pairs;
+CREATE POLICY "Users can view own duplicate pairs" ON public.duplicate_pairs
+  FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "System can manage duplicate pairs" ON public.duplicate_pairs;
+CREATE POLICY "System can manage duplicate pairs" ON public.duplicate_pairs
+  FOR ALL TO service_role USING (true);
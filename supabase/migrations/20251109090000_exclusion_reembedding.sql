@@ -0,0 +1,16 @@
+-- =====================================================
+-- PER-PAGE CONTENT FOR EXCLUSION RANGE RE-EMBEDDING
+-- =====================================================
+-- Editing a document's exclusion ranges re-embeds only the affected pages.
+-- The page text and Document AI paragraphs captured at processing time are
+-- stored alongside extracted_text so those pages can be re-chunked without
+-- re-running Document AI.
+-- =====================================================
+
+ALTER TABLE public.document_content
+  ADD COLUMN IF NOT EXISTS page_texts JSONB,   -- [{ text, pageNumber }]
+  ADD COLUMN IF NOT EXISTS paragraphs JSONB;   -- [{ text, pageNumber, index, startPageNumber?, endPageNumber? }]
+
+-- Exclusion re-embedding runs through the document job queue
+CREATE INDEX IF NOT EXISTS idx_document_jobs_operation_type
+  ON public.document_jobs (operation_type, status);
@@ -0,0 +1,11 @@
+-- =====================================================
+-- CHUNK REGIONS FOR THE HIGHLIGHTED PDF VIEWER
+-- =====================================================
+-- Each chunk keeps the Document AI paragraph boxes it covers so the dual-pane
+-- viewer can highlight matched sections on the original PDF pages.
+-- Coordinates are normalized (0-1) with a top-left origin.
+-- Chunks embedded before this migration have no regions until reprocessed.
+-- =====================================================
+
+ALTER TABLE public.document_embeddings
+  ADD COLUMN IF NOT EXISTS regions JSONB;   -- [{ pageNumber, x0, y0, x1, y1 }]
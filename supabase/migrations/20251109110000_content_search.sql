@@ -0,0 +1,113 @@
+-- =====================================================
+-- FULL-TEXT CONTENT SEARCH
+-- =====================================================
+-- Keyword search across the text of a user's documents. Matches chunks
+-- through the stored chunk_text_tsv (see 20251107100000_bm25_lexical_index.sql),
+-- ranks documents by the summed ts_rank_cd of their matching chunks and
+-- returns the best chunks per document with highlighted snippets and pages.
+--
+-- p_query uses websearch syntax: "quoted phrases", OR, -excluded terms.
+-- Snippets mark matches with <mark></mark>; clients render them as text.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.search_document_content(
+  p_user_id UUID,
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_snippets_per_document INTEGER DEFAULT 3,
+  p_law_firms TEXT[] DEFAULT NULL,
+  p_fund_managers TEXT[] DEFAULT NULL,
+  p_fund_admins TEXT[] DEFAULT NULL,
+  p_jurisdictions TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  document_id UUID,
+  document_rank REAL,
+  match_count INTEGER,
+  total_documents INTEGER,
+  chunk_index INTEGER,
+  page_number INTEGER,
+  start_page_number INTEGER,
+  end_page_number INTEGER,
+  chunk_rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH search_query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q
+  ),
+  hits AS (
+    SELECT
+      e.document_id,
+      e.chunk_index,
+      e.page_number,
+      e.start_page_number,
+      e.end_page_number,
+      e.chunk_text,
+      ts_rank_cd(e.chunk_text_tsv, sq.q) AS chunk_rank
+    FROM public.document_embeddings e
+    JOIN public.documents d ON d.id = e.document_id
+    CROSS JOIN search_query sq
+    WHERE d.user_id = p_user_id
+      AND d.status = 'completed'
+      AND e.chunk_text_tsv @@ sq.q
+      AND (p_law_firms IS NULL OR d.metadata->>'law_firm' = ANY(p_law_firms))
+      AND (p_fund_managers IS NULL OR d.metadata->>'fund_manager' = ANY(p_fund_managers))
+      AND (p_fund_admins IS NULL OR d.metadata->>'fund_admin' = ANY(p_fund_admins))
+      AND (p_jurisdictions IS NULL OR d.metadata->>'jurisdiction' = ANY(p_jurisdictions))
+  ),
+  ranked_documents AS (
+    SELECT
+      h.document_id,
+      SUM(h.chunk_rank)::REAL AS document_rank,
+      COUNT(*)::INTEGER AS match_count
+    FROM hits h
+    GROUP BY h.document_id
+  ),
+  page_of_documents AS (
+    SELECT
+      rd.document_id,
+      rd.document_rank,
+      rd.match_count,
+      (COUNT(*) OVER ())::INTEGER AS total_documents
+    FROM ranked_documents rd
+    ORDER BY rd.document_rank DESC, rd.document_id
+    LIMIT p_limit
+    OFFSET p_offset
+  ),
+  best_chunks AS (
+    SELECT
+      h.*,
+      row_number() OVER (PARTITION BY h.document_id ORDER BY h.chunk_rank DESC, h.chunk_index) AS chunk_position
+    FROM hits h
+    WHERE h.document_id IN (SELECT document_id FROM page_of_documents)
+  )
+  SELECT
+    p.document_id,
+    p.document_rank,
+    p.match_count,
+    p.total_documents,
+    b.chunk_index,
+    b.page_number,
+    b.start_page_number,
+    b.end_page_number,
+    b.chunk_rank::REAL,
+    ts_headline(
+      'english',
+      b.chunk_text,
+      sq.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=40, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM page_of_documents p
+  JOIN best_chunks b
+    ON b.document_id = p.document_id
+   AND b.chunk_position <= p_snippets_per_document
+  CROSS JOIN search_query sq
+  ORDER BY p.document_rank DESC, p.document_id, b.chunk_rank DESC, b.chunk_index;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_document_content(
+  UUID, TEXT, INTEGER, INTEGER, INTEGER, TEXT[], TEXT[], TEXT[], TEXT[]
+) TO service_role;
@@ -0,0 +1,91 @@
+-- =====================================================
+-- ACTIVITY AUDIT
+-- =====================================================
+-- Supports the admin audit page (/admin/audit):
+-- - Per-document and per-user lookups ("who opened which fund documents")
+-- - Per-day rollups for the activity charts
+-- - Audit rows are only readable through the service role; the previous
+--   USING (true) policy let any signed-in user read every user's activity
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_user_activity_logs_resource_uuid
+  ON public.user_activity_logs (resource_uuid, logged_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_user_activity_logs_user_logged_at
+  ON public.user_activity_logs (user_uuid, logged_at DESC);
+
+DROP POLICY IF EXISTS "System can manage activity logs" ON public.user_activity_logs;
+
+REVOKE ALL ON TABLE public.user_activity_recent FROM anon, authenticated;
+
+CREATE OR REPLACE VIEW public.user_activity_recent AS
+SELECT
+  id,
+  user_uuid,
+  email,
+  ip_address,
+  action_type,
+  resource_type,
+  resource_uuid,
+  resource_name,
+  metadata,
+  api_endpoint,
+  http_method,
+  response_status,
+  logged_at,
+  duration_ms,
+  -- Friendly descriptions
+  CASE
+    WHEN action_type = 'upload' THEN 'Uploaded document'
+    WHEN action_type = 'delete' THEN 'Deleted document'
+    WHEN action_type = 'search' THEN 'Searched documents'
+    WHEN action_type = 'similarity' THEN 'Found similar documents'
+    WHEN action_type = 'download' THEN 'Downloaded document'
+    WHEN action_type = 'view' THEN 'Viewed document'
+    WHEN action_type = 'update' THEN 'Updated document'
+    WHEN action_type = 'compare' THEN 'Compared documents'
+    WHEN action_type = 'export' THEN 'Exported search results'
+    WHEN action_type = 'retry' THEN 'Retried processing'
+    WHEN action_type = 'cancel' THEN 'Cancelled processing'
+    ELSE action_type
+  END AS description
+FROM public.user_activity_logs
+WHERE logged_at >= NOW() - INTERVAL '7 days'
+ORDER BY logged_at DESC;
+
+-- Actions per UTC day and action type, with the same filters as the audit list
+CREATE OR REPLACE FUNCTION public.activity_daily_counts(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_user_id UUID DEFAULT NULL,
+  p_email TEXT DEFAULT NULL,
+  p_action TEXT DEFAULT NULL,
+  p_resource_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  action_type TEXT,
+  action_count INTEGER,
+  unique_users INTEGER
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    (l.logged_at AT TIME ZONE 'UTC')::DATE AS day,
+    l.action_type,
+    COUNT(*)::INTEGER AS action_count,
+    COUNT(DISTINCT l.user_uuid)::INTEGER AS unique_users
+  FROM public.user_activity_logs l
+  WHERE l.logged_at >= p_start
+    AND l.logged_at < p_end
+    AND (p_user_id IS NULL OR l.user_uuid = p_user_id)
+    AND (p_email IS NULL OR l.email ILIKE '%' || p_email || '%')
+    AND (p_action IS NULL OR l.action_type = p_action)
+    AND (p_resource_id IS NULL OR l.resource_uuid = p_resource_id)
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.activity_daily_counts(
+  TIMESTAMPTZ, TIMESTAMPTZ, UUID, TEXT, TEXT, UUID
+) TO service_role;
@@ -0,0 +1,66 @@
+-- =====================================================
+-- ADMIN CONSOLE
+-- =====================================================
+-- Supports the admin console (/admin):
+-- - Per-user document counts, failed jobs and storage usage
+-- - users.role is the admin gate, so users may no longer change it on their
+--   own profile (the UPDATE policy covered every column)
+-- =====================================================
+
+REVOKE UPDATE ON TABLE public.users FROM anon, authenticated;
+GRANT UPDATE (full_name, updated_at) ON TABLE public.users TO authenticated;
+
+-- One row per user with their library and queue footprint
+CREATE OR REPLACE FUNCTION public.admin_user_summaries()
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  full_name TEXT,
+  role TEXT,
+  document_count INTEGER,
+  completed_count INTEGER,
+  in_progress_count INTEGER,
+  error_count INTEGER,
+  failed_job_count INTEGER,
+  storage_bytes BIGINT,
+  last_upload_at TIMESTAMPTZ
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH document_totals AS (
+    SELECT
+      d.user_id,
+      COUNT(*)::INTEGER AS document_count,
+      COUNT(*) FILTER (WHERE d.status = 'completed')::INTEGER AS completed_count,
+      COUNT(*) FILTER (WHERE d.status IN ('uploading', 'queued', 'processing'))::INTEGER AS in_progress_count,
+      COUNT(*) FILTER (WHERE d.status = 'error')::INTEGER AS error_count,
+      COALESCE(SUM(d.file_size), 0)::BIGINT AS storage_bytes,
+      MAX(d.created_at) AS last_upload_at
+    FROM public.documents d
+    GROUP BY d.user_id
+  ),
+  failed_jobs AS (
+    SELECT j.user_id, COUNT(*)::INTEGER AS failed_job_count
+    FROM public.document_jobs j
+    WHERE j.status = 'failed'
+    GROUP BY j.user_id
+  )
+  SELECT
+    u.id AS user_id,
+    u.email,
+    u.full_name,
+    u.role,
+    COALESCE(dt.document_count, 0) AS document_count,
+    COALESCE(dt.completed_count, 0) AS completed_count,
+    COALESCE(dt.in_progress_count, 0) AS in_progress_count,
+    COALESCE(dt.error_count, 0) AS error_count,
+    COALESCE(fj.failed_job_count, 0) AS failed_job_count,
+    COALESCE(dt.storage_bytes, 0) AS storage_bytes,
+    dt.last_upload_at
+  FROM public.users u
+  LEFT JOIN document_totals dt ON dt.user_id = u.id
+  LEFT JOIN failed_jobs fj ON fj.user_id = u.id
+  ORDER BY COALESCE(dt.storage_bytes, 0) DESC, u.email;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_user_summaries() TO service_role;
@@ -0,0 +1,368 @@
+-- =====================================================
+-- TEAM WORKSPACES
+-- =====================================================
+-- Shared document libraries:
+-- - workspaces with owner / editor / viewer members
+-- - documents.workspace_id: NULL keeps a document in the uploader's personal
+--   library, otherwise every member of the workspace can see it
+-- - RLS grants members read access and owners / editors write access
+-- - BM25 and content search accept the caller's workspace ids
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 120),
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'editor', 'viewer')),
+  added_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user
+  ON public.workspace_members(user_id);
+
+-- Deleting a workspace hands its documents back to their uploaders
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_workspace_created
+  ON public.documents(workspace_id, created_at DESC)
+  WHERE workspace_id IS NOT NULL;
+
+-- Storage policies resolve shared objects by path
+CREATE INDEX IF NOT EXISTS idx_documents_workspace_file_path
+  ON public.documents(file_path)
+  WHERE workspace_id IS NOT NULL;
+
+-- Membership check used by the RLS policies below. SECURITY DEFINER so the
+-- workspace_members policies do not recurse into themselves.
+CREATE OR REPLACE FUNCTION public.is_workspace_member(
+  p_workspace_id UUID,
+  p_roles TEXT[] DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_workspace_id IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM public.workspace_members m
+    WHERE m.workspace_id = p_workspace_id
+      AND m.user_id = auth.uid()
+      AND (p_roles IS NULL OR m.role = ANY(p_roles))
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_workspace_member(UUID, TEXT[]) TO authenticated, service_role;
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view workspaces" ON public.workspaces;
+CREATE POLICY "Members can view workspaces" ON public.workspaces FOR SELECT
+  USING (public.is_workspace_member(id));
+DROP POLICY IF EXISTS "Owners can update workspaces" ON public.workspaces;
+CREATE POLICY "Owners can update workspaces" ON public.workspaces FOR UPDATE
+  USING (public.is_workspace_member(id, ARRAY['owner']));
+DROP POLICY IF EXISTS "Owners can delete workspaces" ON public.workspaces;
+CREATE POLICY "Owners can delete workspaces" ON public.workspaces FOR DELETE
+  USING (public.is_workspace_member(id, ARRAY['owner']));
+
+DROP POLICY IF EXISTS "Members can view workspace members" ON public.workspace_members;
+CREATE POLICY "Members can view workspace members" ON public.workspace_members FOR SELECT
+  USING (public.is_workspace_member(workspace_id));
+DROP POLICY IF EXISTS "Owners can manage workspace members" ON public.workspace_members;
+CREATE POLICY "Owners can manage workspace members" ON public.workspace_members FOR ALL
+  USING (public.is_workspace_member(workspace_id, ARRAY['owner']))
+  WITH CHECK (public.is_workspace_member(workspace_id, ARRAY['owner']));
+
+-- Documents: uploader or workspace member reads; uploader or workspace
+-- owner / editor writes. Only editors can file a document into a workspace.
+DROP POLICY IF EXISTS "Users can view own documents" ON public.documents;
+CREATE POLICY "Users can view own documents" ON public.documents FOR SELECT
+  USING (auth.uid() = user_id OR public.is_workspace_member(workspace_id));
+DROP POLICY IF EXISTS "Users can insert own documents" ON public.documents;
+CREATE POLICY "Users can insert own documents" ON public.documents FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (workspace_id IS NULL OR public.is_workspace_member(workspace_id, ARRAY['owner', 'editor']))
+  );
+DROP POLICY IF EXISTS "Users can update own documents" ON public.documents;
+CREATE POLICY "Users can update own documents" ON public.documents FOR UPDATE
+  USING (auth.uid() = user_id OR public.is_workspace_member(workspace_id, ARRAY['owner', 'editor']))
+  WITH CHECK (
+    (workspace_id IS NULL AND auth.uid() = user_id)
+    OR public.is_workspace_member(workspace_id, ARRAY['owner', 'editor'])
+  );
+DROP POLICY IF EXISTS "Users can delete own documents" ON public.documents;
+CREATE POLICY "Users can delete own documents" ON public.documents FOR DELETE
+  USING (auth.uid() = user_id OR public.is_workspace_member(workspace_id, ARRAY['owner', 'editor']));
+
+DROP POLICY IF EXISTS "Users can view own document content" ON public.document_content;
+CREATE POLICY "Users can view own document content" ON public.document_content FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.documents d
+  WHERE d.id = document_id AND (d.user_id = auth.uid() OR public.is_workspace_member(d.workspace_id))
+));
+
+DROP POLICY IF EXISTS "Users can view own embeddings" ON public.document_embeddings;
+CREATE POLICY "Users can view own embeddings" ON public.document_embeddings FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.documents d
+  WHERE d.id = document_id AND (d.user_id = auth.uid() OR public.is_workspace_member(d.workspace_id))
+));
+
+DROP POLICY IF EXISTS "Users can view own processing status" ON public.processing_status;
+CREATE POLICY "Users can view own processing status" ON public.processing_status FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.documents d
+  WHERE d.id = document_id AND (d.user_id = auth.uid() OR public.is_workspace_member(d.workspace_id))
+));
+
+-- Stored files stay under the uploader's folder; members reach them through
+-- the document row that points at the path
+DROP POLICY IF EXISTS "Workspace members can read shared documents" ON storage.objects;
+CREATE POLICY "Workspace members can read shared documents" ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'documents' AND
+  EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.file_path = name
+      AND d.workspace_id IS NOT NULL
+      AND public.is_workspace_member(d.workspace_id)
+  )
+);
+
+DROP POLICY IF EXISTS "Workspace editors can delete shared documents" ON storage.objects;
+CREATE POLICY "Workspace editors can delete shared documents" ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'documents' AND
+  EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.file_path = name
+      AND d.workspace_id IS NOT NULL
+      AND public.is_workspace_member(d.workspace_id, ARRAY['owner', 'editor'])
+  )
+);
+
+-- Search scopes: the caller's own documents plus the workspaces they belong to.
+-- The signatures change, so drop the per-user versions first.
+DROP FUNCTION IF EXISTS public.bm25_candidate_documents(
+  UUID, UUID, INTEGER, INTEGER, UUID[], INTEGER, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION
+);
+
+CREATE OR REPLACE FUNCTION public.bm25_candidate_documents(
+  p_user_id UUID,
+  p_source_document_id UUID,
+  p_start_page INTEGER DEFAULT NULL,
+  p_end_page INTEGER DEFAULT NULL,
+  p_document_ids UUID[] DEFAULT NULL,
+  p_max_terms INTEGER DEFAULT 64,
+  p_match_count INTEGER DEFAULT 600,
+  p_k1 DOUBLE PRECISION DEFAULT 1.2,
+  p_b DOUBLE PRECISION DEFAULT 0.75,
+  p_workspace_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (document_id UUID, score DOUBLE PRECISION, matched_chunks INTEGER)
+LANGUAGE sql STABLE
+AS $$
+  WITH corpus AS (
+    SELECT
+      e.id,
+      e.document_id,
+      e.chunk_text_tsv,
+      GREATEST(COALESCE(e.character_count, length(e.chunk_text)), 1)::DOUBLE PRECISION AS chunk_length
+    FROM public.document_embeddings e
+    JOIN public.documents d ON d.id = e.document_id
+    WHERE (d.user_id = p_user_id OR d.workspace_id = ANY(p_workspace_ids))
+      AND d.status = 'completed'
+  ),
+  corpus_stats AS (
+    SELECT
+      COUNT(*)::DOUBLE PRECISION AS chunk_total,
+      GREATEST(AVG(chunk_length), 1)::DOUBLE PRECISION AS avg_length
+    FROM corpus
+  ),
+  source_terms AS (
+    SELECT t.lexeme, SUM(COALESCE(array_length(t.positions, 1), 1)) AS source_tf
+    FROM public.document_embeddings e
+    CROSS JOIN LATERAL unnest(e.chunk_text_tsv) AS t
+    WHERE e.document_id = p_source_document_id
+      AND (p_start_page IS NULL OR COALESCE(e.end_page_number, e.page_number) >= p_start_page)
+      AND (p_end_page IS NULL OR COALESCE(e.start_page_number, e.page_number) <= p_end_page)
+      AND length(t.lexeme) >= 3
+      AND t.lexeme !~ '^[0-9.,]+$'
+    GROUP BY t.lexeme
+    ORDER BY source_tf DESC, t.lexeme
+    LIMIT p_max_terms
+  ),
+  source_query AS (
+    SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery AS q
+    FROM source_terms
+  ),
+  postings AS (
+    SELECT
+      c.id AS chunk_id,
+      c.document_id,
+      c.chunk_length,
+      t.lexeme,
+      COALESCE(array_length(t.positions, 1), 1)::DOUBLE PRECISION AS tf
+    FROM corpus c
+    CROSS JOIN source_query sq
+    CROSS JOIN LATERAL unnest(c.chunk_text_tsv) AS t
+    WHERE c.chunk_text_tsv @@ sq.q
+      AND t.lexeme IN (SELECT lexeme FROM source_terms)
+  ),
+  term_df AS (
+    SELECT lexeme, COUNT(DISTINCT chunk_id)::DOUBLE PRECISION AS df
+    FROM postings
+    GROUP BY lexeme
+  ),
+  chunk_scores AS (
+    SELECT
+      p.chunk_id,
+      p.document_id,
+      SUM(
+        ln(1 + (s.chunk_total - df.df + 0.5) / (df.df + 0.5))
+        * (p.tf * (p_k1 + 1))
+        / (p.tf + p_k1 * (1 - p_b + p_b * p.chunk_length / s.avg_length))
+      ) AS chunk_score
+    FROM postings p
+    JOIN term_df df ON df.lexeme = p.lexeme
+    CROSS JOIN corpus_stats s
+    WHERE p.document_id <> p_source_document_id
+      AND (p_document_ids IS NULL OR p.document_id = ANY(p_document_ids))
+    GROUP BY p.chunk_id, p.document_id
+  )
+  SELECT
+    cs.document_id,
+    SUM(cs.chunk_score)::DOUBLE PRECISION AS score,
+    COUNT(*)::INTEGER AS matched_chunks
+  FROM chunk_scores cs
+  GROUP BY cs.document_id
+  ORDER BY 2 DESC
+  LIMIT p_match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bm25_candidate_documents(
+  UUID, UUID, INTEGER, INTEGER, UUID[], INTEGER, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, UUID[]
+) TO service_role;
+
+DROP FUNCTION IF EXISTS public.search_document_content(
+  UUID, TEXT, INTEGER, INTEGER, INTEGER, TEXT[], TEXT[], TEXT[], TEXT[]
+);
+
+CREATE OR REPLACE FUNCTION public.search_document_content(
+  p_user_id UUID,
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_snippets_per_document INTEGER DEFAULT 3,
+  p_law_firms TEXT[] DEFAULT NULL,
+  p_fund_managers TEXT[] DEFAULT NULL,
+  p_fund_admins TEXT[] DEFAULT NULL,
+  p_jurisdictions TEXT[] DEFAULT NULL,
+  p_workspace_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  document_id UUID,
+  document_rank REAL,
+  match_count INTEGER,
+  total_documents INTEGER,
+  chunk_index INTEGER,
+  page_number INTEGER,
+  start_page_number INTEGER,
+  end_page_number INTEGER,
+  chunk_rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH search_query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q
+  ),
+  hits AS (
+    SELECT
+      e.document_id,
+      e.chunk_index,
+      e.page_number,
+      e.start_page_number,
+      e.end_page_number,
+      e.chunk_text,
+      ts_rank_cd(e.chunk_text_tsv, sq.q) AS chunk_rank
+    FROM public.document_embeddings e
+    JOIN public.documents d ON d.id = e.document_id
+    CROSS JOIN search_query sq
+    WHERE (d.user_id = p_user_id OR d.workspace_id = ANY(p_workspace_ids))
+      AND d.status = 'completed'
+      AND e.chunk_text_tsv @@ sq.q
+      AND (p_law_firms IS NULL OR d.metadata->>'law_firm' = ANY(p_law_firms))
+      AND (p_fund_managers IS NULL OR d.metadata->>'fund_manager' = ANY(p_fund_managers))
+      AND (p_fund_admins IS NULL OR d.metadata->>'fund_admin' = ANY(p_fund_admins))
+      AND (p_jurisdictions IS NULL OR d.metadata->>'jurisdiction' = ANY(p_jurisdictions))
+  ),
+  ranked_documents AS (
+    SELECT
+      h.document_id,
+      SUM(h.chunk_rank)::REAL AS document_rank,
+      COUNT(*)::INTEGER AS match_count
+    FROM hits h
+    GROUP BY h.document_id
+  ),
+  page_of_documents AS (
+    SELECT
+      rd.document_id,
+      rd.document_rank,
+      rd.match_count,
+      (COUNT(*) OVER ())::INTEGER AS total_documents
+    FROM ranked_documents rd
+    ORDER BY rd.document_rank DESC, rd.document_id
+    LIMIT p_limit
+    OFFSET p_offset
+  ),
+  best_chunks AS (
+    SELECT
+      h.*,
+      row_number() OVER (PARTITION BY h.document_id ORDER BY h.chunk_rank DESC, h.chunk_index) AS chunk_position
+    FROM hits h
+    WHERE h.document_id IN (SELECT document_id FROM page_of_documents)
+  )
+  SELECT
+    p.document_id,
+    p.document_rank,
+    p.match_count,
+    p.total_documents,
+    b.chunk_index,
+    b.page_number,
+    b.start_page_number,
+    b.end_page_number,
+    b.chunk_rank::REAL,
+    ts_headline(
+      'english',
+      b.chunk_text,
+      sq.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=40, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM page_of_documents p
+  JOIN best_chunks b
+    ON b.document_id = p.document_id
+   AND b.chunk_position <= p_snippets_per_document
+  CROSS JOIN search_query sq
+  ORDER BY p.document_rank DESC, p.document_id, b.chunk_rank DESC, b.chunk_index;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_document_content(
+  UUID, TEXT, INTEGER, INTEGER, INTEGER, TEXT[], TEXT[], TEXT[], TEXT[], UUID[]
+) TO service_role;
@@ -0,0 +1,44 @@
+-- =====================================================
+-- ZIP ARCHIVE UPLOAD BATCHES
+-- =====================================================
+-- An archive upload is expanded server-side into one document per PDF entry.
+-- The batch keeps the per-entry report (queued / skipped / failed) and links
+-- its documents through documents.upload_batch_id for aggregate progress.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.upload_batches (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL,
+  archive_name TEXT NOT NULL,
+  archive_size BIGINT NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'expanding' CHECK (status IN ('expanding', 'processing', 'completed', 'failed')),
+  total_entries INTEGER NOT NULL DEFAULT 0,          -- Files in the archive (directories excluded)
+  queued_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  entries JSONB NOT NULL DEFAULT '[]'::jsonb,        -- Per-entry report: path, outcome, reason, document_id
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_batches_user_created
+  ON public.upload_batches (user_id, created_at DESC);
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS upload_batch_id UUID REFERENCES public.upload_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_upload_batch
+  ON public.documents (upload_batch_id, status)
+  WHERE upload_batch_id IS NOT NULL;
+
+ALTER TABLE public.upload_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own upload batches" ON public.upload_batches;
+CREATE POLICY "Users can view own upload batches" ON public.upload_batches
+  FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "System can manage upload batches" ON public.upload_batches;
+CREATE POLICY "System can manage upload batches" ON public.upload_batches
+  FOR ALL TO service_role USING (true);
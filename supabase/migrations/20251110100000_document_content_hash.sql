@@ -0,0 +1,31 @@
+-- =====================================================
+-- DOCUMENT CONTENT HASHES
+-- =====================================================
+-- SHA-256 of the uploaded bytes, so byte-identical uploads can be flagged
+-- before they are processed (and paid for) again. An upload the user chose
+-- to keep as a new version points at the document it replaces. Documents
+-- whose processed text and centroid match an earlier one are linked through
+-- near_duplicate_of.
+-- =====================================================
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS previous_version_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS near_duplicate_of UUID REFERENCES public.documents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_user_content_hash
+  ON public.documents (user_id, content_hash)
+  WHERE content_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_workspace_content_hash
+  ON public.documents (workspace_id, content_hash)
+  WHERE workspace_id IS NOT NULL AND content_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_previous_version
+  ON public.documents (previous_version_id)
+  WHERE previous_version_id IS NOT NULL;
+
+-- Near-duplicate candidates share the exact character count
+CREATE INDEX IF NOT EXISTS idx_documents_total_characters
+  ON public.documents (total_characters)
+  WHERE total_characters IS NOT NULL;
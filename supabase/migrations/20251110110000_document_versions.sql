@@ -0,0 +1,40 @@
+-- =====================================================
+-- DOCUMENT VERSION CHAINS
+-- =====================================================
+-- A document uploaded as a new version points at the one it replaces
+-- (previous_version_id). Every member of a chain shares version_chain_id,
+-- the id of its first version (no foreign key: the chain keeps its identity
+-- when the first version is deleted). Only the newest version has
+-- is_latest_version, so searches can collapse a chain to one document.
+-- =====================================================
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS version_chain_id UUID,
+  ADD COLUMN IF NOT EXISTS version_number INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS is_latest_version BOOLEAN NOT NULL DEFAULT true;
+
+-- Chains started from duplicate warnings before version chains existed
+WITH RECURSIVE chain AS (
+  SELECT root.id, root.id AS chain_id, 1 AS version_number
+  FROM public.documents root
+  WHERE root.previous_version_id IS NULL
+    AND EXISTS (SELECT 1 FROM public.documents child WHERE child.previous_version_id = root.id)
+  UNION ALL
+  SELECT next_version.id, chain.chain_id, chain.version_number + 1
+  FROM public.documents next_version
+  JOIN chain ON next_version.previous_version_id = chain.id
+)
+UPDATE public.documents
+SET version_chain_id = chain.chain_id,
+    version_number = chain.version_number
+FROM chain
+WHERE documents.id = chain.id
+  AND documents.version_chain_id IS NULL;
+
+UPDATE public.documents
+SET is_latest_version = false
+WHERE EXISTS (SELECT 1 FROM public.documents newer WHERE newer.previous_version_id = documents.id);
+
+CREATE INDEX IF NOT EXISTS idx_documents_version_chain
+  ON public.documents (version_chain_id, version_number)
+  WHERE version_chain_id IS NOT NULL;
@@ -0,0 +1,152 @@
+-- =====================================================
+-- RE-EMBEDDING MIGRATIONS
+-- =====================================================
+-- Moving the library to a new embedding model re-embeds every completed
+-- document from its stored chunk_text. New vectors are staged next to the
+-- live ones (pending_* columns, a separate Pinecone namespace) so searches
+-- keep working on the old model until switch_embedding_migration() swaps
+-- everything in one transaction and records the new model in
+-- embedding_settings, which then takes precedence over EMBEDDING_* env vars.
+-- =====================================================
+
+-- Active embedding configuration; a single row written by the last switch
+CREATE TABLE IF NOT EXISTS public.embedding_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  provider TEXT NOT NULL CHECK (provider IN ('vertex', 'local')),
+  model TEXT NOT NULL,
+  dimension INTEGER NOT NULL,
+  pinecone_namespace TEXT NOT NULL DEFAULT '',      -- '' is the index's default namespace
+  migration_id UUID,                                -- Migration that switched to this model
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.embedding_migrations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'cancelled')),
+  source_model TEXT NOT NULL,                       -- Model id active when the migration started
+  source_namespace TEXT NOT NULL DEFAULT '',
+  target_provider TEXT NOT NULL CHECK (target_provider IN ('vertex', 'local')),
+  target_model TEXT NOT NULL,
+  target_model_id TEXT NOT NULL,                    -- Recorded in documents.embedding_model after the switch
+  target_dimension INTEGER NOT NULL,
+  target_namespace TEXT NOT NULL,
+  document_ids UUID[] NOT NULL DEFAULT '{}',        -- Documents to re-embed; documents completed later are appended
+  next_index INTEGER NOT NULL DEFAULT 0,            -- Position in document_ids the next batch starts from
+  embedded_chunks INTEGER NOT NULL DEFAULT 0,
+  embedded_characters BIGINT NOT NULL DEFAULT 0,
+  failed_document_ids UUID[] NOT NULL DEFAULT '{}',
+  estimate JSONB,                                   -- Dry-run estimate taken when the migration was queued
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  switched_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_migrations_status_updated
+  ON public.embedding_migrations (status, updated_at);
+
+-- Only one migration may stage vectors at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embedding_migrations_single_active
+  ON public.embedding_migrations ((true))
+  WHERE status IN ('queued', 'processing');
+
+-- Staged vectors, swapped into the live columns by the switch
+ALTER TABLE public.document_embeddings
+  ADD COLUMN IF NOT EXISTS pending_embedding vector(768);
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS pending_centroid_embedding vector(768),
+  ADD COLUMN IF NOT EXISTS pending_embedding_model TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_pending_embedding_model
+  ON public.documents (pending_embedding_model)
+  WHERE pending_embedding_model IS NOT NULL;
+
+ALTER TABLE public.embedding_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.embedding_migrations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "System can manage embedding settings" ON public.embedding_settings;
+CREATE POLICY "System can manage embedding settings" ON public.embedding_settings
+  FOR ALL TO service_role USING (true);
+DROP POLICY IF EXISTS "System can manage embedding migrations" ON public.embedding_migrations;
+CREATE POLICY "System can manage embedding migrations" ON public.embedding_migrations
+  FOR ALL TO service_role USING (true);
+
+-- Swap staged vectors into place and make the target model active.
+-- Runs in one transaction: searches see either the old model everywhere or
+-- the new one everywhere. Documents not staged for the target keep their
+-- vectors and old embedding_model (they are excluded from comparisons).
+CREATE OR REPLACE FUNCTION public.switch_embedding_migration(p_migration_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+SET statement_timeout = 0
+AS $$
+DECLARE
+  migration public.embedding_migrations%ROWTYPE;
+  switched_documents INTEGER;
+BEGIN
+  SELECT * INTO migration
+  FROM public.embedding_migrations
+  WHERE id = p_migration_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Embedding migration % not found', p_migration_id;
+  END IF;
+  IF migration.status <> 'processing' THEN
+    RAISE EXCEPTION 'Embedding migration % is %, not processing', p_migration_id, migration.status;
+  END IF;
+
+  UPDATE public.document_embeddings e
+  SET embedding = e.pending_embedding,
+      pending_embedding = NULL
+  FROM public.documents d
+  WHERE d.id = e.document_id
+    AND d.pending_embedding_model = migration.target_model_id
+    AND e.pending_embedding IS NOT NULL;
+
+  UPDATE public.documents
+  SET centroid_embedding = pending_centroid_embedding,
+      embedding_model = pending_embedding_model,
+      pending_centroid_embedding = NULL,
+      pending_embedding_model = NULL
+  WHERE pending_embedding_model = migration.target_model_id;
+
+  GET DIAGNOSTICS switched_documents = ROW_COUNT;
+
+  INSERT INTO public.embedding_settings (id, provider, model, dimension, pinecone_namespace, migration_id, updated_at)
+  VALUES (
+    true,
+    migration.target_provider,
+    migration.target_model,
+    migration.target_dimension,
+    migration.target_namespace,
+    migration.id,
+    timezone('utc'::text, now())
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET provider = EXCLUDED.provider,
+      model = EXCLUDED.model,
+      dimension = EXCLUDED.dimension,
+      pinecone_namespace = EXCLUDED.pinecone_namespace,
+      migration_id = EXCLUDED.migration_id,
+      updated_at = EXCLUDED.updated_at;
+
+  UPDATE public.embedding_migrations
+  SET status = 'completed',
+      completed_at = timezone('utc'::text, now()),
+      switched_at = timezone('utc'::text, now()),
+      updated_at = timezone('utc'::text, now())
+  WHERE id = p_migration_id;
+
+  RETURN switched_documents;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.switch_embedding_migration(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.switch_embedding_migration(UUID) TO service_role;
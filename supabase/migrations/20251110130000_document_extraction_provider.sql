@@ -0,0 +1,11 @@
+-- =====================================================
+-- DOCUMENT EXTRACTION PROVIDER
+-- =====================================================
+-- Text extraction backend chosen at upload: Google Document AI or the local
+-- text layer + OCR engine. NULL leaves the choice to EXTRACTION_PROVIDER
+-- when the document is processed.
+-- =====================================================
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS extraction_provider TEXT
+    CHECK (extraction_provider IN ('document-ai', 'local'));
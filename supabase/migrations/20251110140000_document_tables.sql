@@ -0,0 +1,119 @@
+-- =====================================================
+-- DOCUMENT TABLES
+-- =====================================================
+-- Tables found during extraction, stored as rows of cells with their page
+-- and position. Table cells are kept out of the paragraph chunks; each table
+-- is embedded on its own (linearized as "cell | cell" rows) so fee schedules
+-- and capital-call tables can be matched and compared cell by cell.
+-- Table vectors follow re-embedding migrations like chunk vectors: staged in
+-- pending_embedding and swapped by switch_embedding_migration().
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.document_tables (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  document_id UUID REFERENCES public.documents(id) ON DELETE CASCADE NOT NULL,
+  table_index INTEGER NOT NULL,                     -- Order of the table in the document
+  page_number INTEGER NOT NULL,
+  header_rows JSONB NOT NULL DEFAULT '[]',          -- string[][]; empty cells kept as '' so columns line up
+  body_rows JSONB NOT NULL DEFAULT '[]',            -- string[][]
+  row_count INTEGER NOT NULL DEFAULT 0,             -- Header and body rows
+  column_count INTEGER NOT NULL DEFAULT 0,
+  region JSONB,                                     -- { pageNumber, x0, y0, x1, y1 } normalized to the page
+  table_text TEXT NOT NULL,                         -- Linearized text that was embedded
+  embedding vector(768),                            -- NULL when embedding failed; the table is still shown
+  pending_embedding vector(768),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_tables_document_index
+  ON public.document_tables (document_id, table_index);
+
+ALTER TABLE public.document_tables ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own document tables" ON public.document_tables;
+CREATE POLICY "Users can view own document tables" ON public.document_tables FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.documents d WHERE d.id = document_id AND (d.user_id = auth.uid() OR public.is_workspace_member(d.workspace_id))));
+DROP POLICY IF EXISTS "System can manage document tables" ON public.document_tables;
+CREATE POLICY "System can manage document tables" ON public.document_tables
+  FOR ALL TO service_role USING (true);
+
+-- Same switch as before, now also swapping staged table vectors
+CREATE OR REPLACE FUNCTION public.switch_embedding_migration(p_migration_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+SET statement_timeout = 0
+AS $$
+DECLARE
+  migration public.embedding_migrations%ROWTYPE;
+  switched_documents INTEGER;
+BEGIN
+  SELECT * INTO migration
+  FROM public.embedding_migrations
+  WHERE id = p_migration_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Embedding migration % not found', p_migration_id;
+  END IF;
+  IF migration.status <> 'processing' THEN
+    RAISE EXCEPTION 'Embedding migration % is %, not processing', p_migration_id, migration.status;
+  END IF;
+
+  UPDATE public.document_embeddings e
+  SET embedding = e.pending_embedding,
+      pending_embedding = NULL
+  FROM public.documents d
+  WHERE d.id = e.document_id
+    AND d.pending_embedding_model = migration.target_model_id
+    AND e.pending_embedding IS NOT NULL;
+
+  UPDATE public.document_tables t
+  SET embedding = t.pending_embedding,
+      pending_embedding = NULL
+  FROM public.documents d
+  WHERE d.id = t.document_id
+    AND d.pending_embedding_model = migration.target_model_id
+    AND t.pending_embedding IS NOT NULL;
+
+  UPDATE public.documents
+  SET centroid_embedding = pending_centroid_embedding,
+      embedding_model = pending_embedding_model,
+      pending_centroid_embedding = NULL,
+      pending_embedding_model = NULL
+  WHERE pending_embedding_model = migration.target_model_id;
+
+  GET DIAGNOSTICS switched_documents = ROW_COUNT;
+
+  INSERT INTO public.embedding_settings (id, provider, model, dimension, pinecone_namespace, migration_id, updated_at)
+  VALUES (
+    true,
+    migration.target_provider,
+    migration.target_model,
+    migration.target_dimension,
+    migration.target_namespace,
+    migration.id,
+    timezone('utc'::text, now())
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET provider = EXCLUDED.provider,
+      model = EXCLUDED.model,
+      dimension = EXCLUDED.dimension,
+      pinecone_namespace = EXCLUDED.pinecone_namespace,
+      migration_id = EXCLUDED.migration_id,
+      updated_at = EXCLUDED.updated_at;
+
+  UPDATE public.embedding_migrations
+  SET status = 'completed',
+      completed_at = timezone('utc'::text, now()),
+      switched_at = timezone('utc'::text, now()),
+      updated_at = timezone('utc'::text, now())
+  WHERE id = p_migration_id;
+
+  RETURN switched_documents;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.switch_embedding_migration(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.switch_embedding_migration(UUID) TO service_role;
@@ -0,0 +1,34 @@
+-- =====================================================
+-- PINECONE CLEANUP TASKS
+-- =====================================================
+-- Vector deletions for removed or reprocessed documents. A task is written
+-- before the document row is deleted, so a cold start or deploy can no longer
+-- drop it: the process-jobs cron retries due tasks with exponential backoff.
+-- Completed tasks are deleted; tasks out of retries stay as 'dead' until an
+-- admin retries them.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.pinecone_cleanup_tasks (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  document_id UUID NOT NULL,                        -- No foreign key: the document is usually gone
+  vector_ids TEXT[],                                -- Prefetched before the chunks were deleted; NULL looks them up
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_run_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- One open task per document; a new request replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pinecone_cleanup_tasks_document
+  ON public.pinecone_cleanup_tasks (document_id);
+
+CREATE INDEX IF NOT EXISTS idx_pinecone_cleanup_tasks_due
+  ON public.pinecone_cleanup_tasks (status, next_run_at);
+
+ALTER TABLE public.pinecone_cleanup_tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "System can manage pinecone cleanup tasks" ON public.pinecone_cleanup_tasks;
+CREATE POLICY "System can manage pinecone cleanup tasks" ON public.pinecone_cleanup_tasks
+  FOR ALL TO service_role USING (true);
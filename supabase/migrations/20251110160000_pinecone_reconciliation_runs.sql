@@ -0,0 +1,48 @@
+-- =====================================================
+-- PINECONE RECONCILIATION RUNS
+-- =====================================================
+-- Consistency checks between Supabase and the active Pinecone namespace.
+-- A run first walks completed documents (missing or stale chunk vectors,
+-- metadata drift, missing centroids), then sweeps the namespace for vectors
+-- whose document no longer exists. Dry runs only report; repair runs also
+-- re-upsert, delete and recompute. Runs advance in batches from their cursors.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.pinecone_reconciliation_runs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,  -- NULL for scheduled runs
+  mode TEXT NOT NULL DEFAULT 'dry_run' CHECK (mode IN ('dry_run', 'repair')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed')),
+  namespace TEXT NOT NULL DEFAULT '',               -- Namespace active when the run started
+  phase TEXT NOT NULL DEFAULT 'documents' CHECK (phase IN ('documents', 'vectors')),
+  document_cursor UUID,                             -- Last document checked (documents are walked in id order)
+  vector_cursor TEXT,                               -- Pinecone list pagination token of the vector sweep
+  documents_checked INTEGER NOT NULL DEFAULT 0,
+  vectors_scanned INTEGER NOT NULL DEFAULT 0,
+  missing_vectors INTEGER NOT NULL DEFAULT 0,
+  orphan_vectors INTEGER NOT NULL DEFAULT 0,
+  drifted_documents INTEGER NOT NULL DEFAULT 0,
+  missing_centroids INTEGER NOT NULL DEFAULT 0,
+  repaired_issues INTEGER NOT NULL DEFAULT 0,
+  failed_repairs INTEGER NOT NULL DEFAULT 0,
+  issues JSONB NOT NULL DEFAULT '[]'::jsonb,        -- First findings, capped; the counters cover all of them
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_pinecone_reconciliation_runs_status_updated
+  ON public.pinecone_reconciliation_runs (status, updated_at);
+
+-- One run at a time: repairs of two runs would race on the same vectors
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pinecone_reconciliation_runs_single_active
+  ON public.pinecone_reconciliation_runs ((true))
+  WHERE status IN ('queued', 'processing');
+
+ALTER TABLE public.pinecone_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "System can manage pinecone reconciliation runs" ON public.pinecone_reconciliation_runs;
+CREATE POLICY "System can manage pinecone reconciliation runs" ON public.pinecone_reconciliation_runs
+  FOR ALL TO service_role USING (true);
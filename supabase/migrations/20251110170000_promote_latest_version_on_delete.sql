@@ -0,0 +1,56 @@
+-- =====================================================
+-- PROMOTE LATEST VERSION ON DELETE
+-- =====================================================
+-- Deleting the latest version of a chain would leave no row with
+-- is_latest_version, and searches restricted to latest versions would drop
+-- the whole chain. The highest remaining version_number takes over instead.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.promote_latest_document_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.documents
+  SET is_latest_version = true
+  WHERE id = (
+      SELECT id
+      FROM public.documents
+      WHERE version_chain_id = OLD.version_chain_id
+      ORDER BY version_number DESC, created_at DESC
+      LIMIT 1
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.documents
+      WHERE version_chain_id = OLD.version_chain_id
+        AND is_latest_version = true
+    );
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS promote_latest_document_version_on_delete ON public.documents;
+CREATE TRIGGER promote_latest_document_version_on_delete
+  AFTER DELETE ON public.documents
+  FOR EACH ROW
+  WHEN (OLD.is_latest_version AND OLD.version_chain_id IS NOT NULL)
+  EXECUTE FUNCTION public.promote_latest_document_version();
+
+-- Chains whose latest version was deleted before this trigger existed
+UPDATE public.documents
+SET is_latest_version = true
+WHERE id IN (
+  SELECT DISTINCT ON (version_chain_id) id
+  FROM public.documents
+  WHERE version_chain_id IS NOT NULL
+  ORDER BY version_chain_id, version_number DESC, created_at DESC
+)
+AND NOT EXISTS (
+  SELECT 1
+  FROM public.documents latest
+  WHERE latest.version_chain_id = documents.version_chain_id
+    AND latest.is_latest_version = true
+);
@@ -0,0 +1,264 @@
+-- =====================================================
+-- WORKSPACE DOCUMENT ACCESS BY CURRENT MEMBERSHIP
+-- =====================================================
+-- The uploader of a workspace document has no standing of their own: once
+-- removed from the workspace (or demoted to viewer) they lose access like
+-- any other former member. Owner-by-user_id only covers personal documents.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.can_access_document(
+  p_user_id UUID,
+  p_workspace_id UUID,
+  p_roles TEXT[] DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_workspace_id IS NULL THEN p_user_id = auth.uid()
+    ELSE public.is_workspace_member(p_workspace_id, p_roles)
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_access_document(UUID, UUID, TEXT[]) TO authenticated, service_role;
+
+DROP POLICY IF EXISTS "Users can view own documents" ON public.documents;
+CREATE POLICY "Users can view own documents" ON public.documents FOR SELECT
+  USING (public.can_access_document(user_id, workspace_id));
+DROP POLICY IF EXISTS "Users can update own documents" ON public.documents;
+CREATE POLICY "Users can update own documents" ON public.documents FOR UPDATE
+  USING (public.can_access_document(user_id, workspace_id, ARRAY['owner', 'editor']))
+  WITH CHECK (public.can_access_document(user_id, workspace_id, ARRAY['owner', 'editor']));
+DROP POLICY IF EXISTS "Users can delete own documents" ON public.documents;
+CREATE POLICY "Users can delete own documents" ON public.documents FOR DELETE
+  USING (public.can_access_document(user_id, workspace_id, ARRAY['owner', 'editor']));
+
+DROP POLICY IF EXISTS "Users can view own document content" ON public.document_content;
+CREATE POLICY "Users can view own document content" ON public.document_content FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.documents d
+  WHERE d.id = document_id AND public.can_access_document(d.user_id, d.workspace_id)
+));
+
+DROP POLICY IF EXISTS "Users can view own embeddings" ON public.document_embeddings;
+CREATE POLICY "Users can view own embeddings" ON public.document_embeddings FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.documents d
+  WHERE d.id = document_id AND public.can_access_document(d.user_id, d.workspace_id)
+));
+
+DROP POLICY IF EXISTS "Users can view own processing status" ON public.processing_status;
+CREATE POLICY "Users can view own processing status" ON public.processing_status FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.documents d
+  WHERE d.id = document_id AND public.can_access_document(d.user_id, d.workspace_id)
+));
+
+DROP POLICY IF EXISTS "Users can view own document tables" ON public.document_tables;
+CREATE POLICY "Users can view own document tables" ON public.document_tables FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.documents d
+  WHERE d.id = document_id AND public.can_access_document(d.user_id, d.workspace_id)
+));
+
+-- Search scopes: the caller's personal documents plus the workspaces they belong to
+CREATE OR REPLACE FUNCTION public.bm25_candidate_documents(
+  p_user_id UUID,
+  p_source_document_id UUID,
+  p_start_page INTEGER DEFAULT NULL,
+  p_end_page INTEGER DEFAULT NULL,
+  p_document_ids UUID[] DEFAULT NULL,
+  p_max_terms INTEGER DEFAULT 64,
+  p_match_count INTEGER DEFAULT 600,
+  p_k1 DOUBLE PRECISION DEFAULT 1.2,
+  p_b DOUBLE PRECISION DEFAULT 0.75,
+  p_workspace_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (document_id UUID, score DOUBLE PRECISION, matched_chunks INTEGER)
+LANGUAGE sql STABLE
+AS $$
+  WITH corpus AS (
+    SELECT
+      e.id,
+      e.document_id,
+      e.chunk_text_tsv,
+      GREATEST(COALESCE(e.character_count, length(e.chunk_text)), 1)::DOUBLE PRECISION AS chunk_length
+    FROM public.document_embeddings e
+    JOIN public.documents d ON d.id = e.document_id
+    WHERE ((d.workspace_id IS NULL AND d.user_id = p_user_id) OR d.workspace_id = ANY(p_workspace_ids))
+      AND d.status = 'completed'
+  ),
+  corpus_stats AS (
+    SELECT
+      COUNT(*)::DOUBLE PRECISION AS chunk_total,
+      GREATEST(AVG(chunk_length), 1)::DOUBLE PRECISION AS avg_length
+    FROM corpus
+  ),
+  source_terms AS (
+    SELECT t.lexeme, SUM(COALESCE(array_length(t.positions, 1), 1)) AS source_tf
+    FROM public.document_embeddings e
+    CROSS JOIN LATERAL unnest(e.chunk_text_tsv) AS t
+    WHERE e.document_id = p_source_document_id
+      AND (p_start_page IS NULL OR COALESCE(e.end_page_number, e.page_number) >= p_start_page)
+      AND (p_end_page IS NULL OR COALESCE(e.start_page_number, e.page_number) <= p_end_page)
+      AND length(t.lexeme) >= 3
+      AND t.lexeme !~ '^[0-9.,]+$'
+    GROUP BY t.lexeme
+    ORDER BY source_tf DESC, t.lexeme
+    LIMIT p_max_terms
+  ),
+  source_query AS (
+    SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery AS q
+    FROM source_terms
+  ),
+  postings AS (
+    SELECT
+      c.id AS chunk_id,
+      c.document_id,
+      c.chunk_length,
+      t.lexeme,
+      COALESCE(array_length(t.positions, 1), 1)::DOUBLE PRECISION AS tf
+    FROM corpus c
+    CROSS JOIN source_query sq
+    CROSS JOIN LATERAL unnest(c.chunk_text_tsv) AS t
+    WHERE c.chunk_text_tsv @@ sq.q
+      AND t.lexeme IN (SELECT lexeme FROM source_terms)
+  ),
+  term_df AS (
+    SELECT lexeme, COUNT(DISTINCT chunk_id)::DOUBLE PRECISION AS df
+    FROM postings
+    GROUP BY lexeme
+  ),
+  chunk_scores AS (
+    SELECT
+      p.chunk_id,
+      p.document_id,
+      SUM(
+        ln(1 + (s.chunk_total - df.df + 0.5) / (df.df + 0.5))
+        * (p.tf * (p_k1 + 1))
+        / (p.tf + p_k1 * (1 - p_b + p_b * p.chunk_length / s.avg_length))
+      ) AS chunk_score
+    FROM postings p
+    JOIN term_df df ON df.lexeme = p.lexeme
+    CROSS JOIN corpus_stats s
+    WHERE p.document_id <> p_source_document_id
+      AND (p_document_ids IS NULL OR p.document_id = ANY(p_document_ids))
+    GROUP BY p.chunk_id, p.document_id
+  )
+  SELECT
+    cs.document_id,
+    SUM(cs.chunk_score)::DOUBLE PRECISION AS score,
+    COUNT(*)::INTEGER AS matched_chunks
+  FROM chunk_scores cs
+  GROUP BY cs.document_id
+  ORDER BY 2 DESC
+  LIMIT p_match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bm25_candidate_documents(
+  UUID, UUID, INTEGER, INTEGER, UUID[], INTEGER, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, UUID[]
+) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.search_document_content(
+  p_user_id UUID,
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_snippets_per_document INTEGER DEFAULT 3,
+  p_law_firms TEXT[] DEFAULT NULL,
+  p_fund_managers TEXT[] DEFAULT NULL,
+  p_fund_admins TEXT[] DEFAULT NULL,
+  p_jurisdictions TEXT[] DEFAULT NULL,
+  p_workspace_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  document_id UUID,
+  document_rank REAL,
+  match_count INTEGER,
+  total_documents INTEGER,
+  chunk_index INTEGER,
+  page_number INTEGER,
+  start_page_number INTEGER,
+  end_page_number INTEGER,
+  chunk_rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH search_query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q
+  ),
+  hits AS (
+    SELECT
+      e.document_id,
+      e.chunk_index,
+      e.page_number,
+      e.start_page_number,
+      e.end_page_number,
+      e.chunk_text,
+      ts_rank_cd(e.chunk_text_tsv, sq.q) AS chunk_rank
+    FROM public.document_embeddings e
+    JOIN public.documents d ON d.id = e.document_id
+    CROSS JOIN search_query sq
+    WHERE ((d.workspace_id IS NULL AND d.user_id = p_user_id) OR d.workspace_id = ANY(p_workspace_ids))
+      AND d.status = 'completed'
+      AND e.chunk_text_tsv @@ sq.q
+      AND (p_law_firms IS NULL OR d.metadata->>'law_firm' = ANY(p_law_firms))
+      AND (p_fund_managers IS NULL OR d.metadata->>'fund_manager' = ANY(p_fund_managers))
+      AND (p_fund_admins IS NULL OR d.metadata->>'fund_admin' = ANY(p_fund_admins))
+      AND (p_jurisdictions IS NULL OR d.metadata->>'jurisdiction' = ANY(p_jurisdictions))
+  ),
+  ranked_documents AS (
+    SELECT
+      h.document_id,
+      SUM(h.chunk_rank)::REAL AS document_rank,
+      COUNT(*)::INTEGER AS match_count
+    FROM hits h
+    GROUP BY h.document_id
+  ),
+  page_of_documents AS (
+    SELECT
+      rd.document_id,
+      rd.document_rank,
+      rd.match_count,
+      (COUNT(*) OVER ())::INTEGER AS total_documents
+    FROM ranked_documents rd
+    ORDER BY rd.document_rank DESC, rd.document_id
+    LIMIT p_limit
+    OFFSET p_offset
+  ),
+  best_chunks AS (
+    SELECT
+      h.*,
+      row_number() OVER (PARTITION BY h.document_id ORDER BY h.chunk_rank DESC, h.chunk_index) AS chunk_position
+    FROM hits h
+    WHERE h.document_id IN (SELECT document_id FROM page_of_documents)
+  )
+  SELECT
+    p.document_id,
+    p.document_rank,
+    p.match_count,
+    p.total_documents,
+    b.chunk_index,
+    b.page_number,
+    b.start_page_number,
+    b.end_page_number,
+    b.chunk_rank::REAL,
+    ts_headline(
+      'english',
+      b.chunk_text,
+      sq.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=40, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM page_of_documents p
+  JOIN best_chunks b
+    ON b.document_id = p.document_id
+   AND b.chunk_position <= p_snippets_per_document
+  CROSS JOIN search_query sq
+  ORDER BY p.document_rank DESC, p.document_id, b.chunk_rank DESC, b.chunk_index;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_document_content(
+  UUID, TEXT, INTEGER, INTEGER, INTEGER, TEXT[], TEXT[], TEXT[], TEXT[], UUID[]
+) TO service_role;
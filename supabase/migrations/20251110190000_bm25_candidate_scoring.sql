@@ -0,0 +1,109 @@
+-- =====================================================
+-- BM25 CANDIDATES FROM INDEX MATCHES, SCORED BY BEST CHUNK
+-- =====================================================
+-- Only chunks matched through the GIN index on chunk_text_tsv are unnested;
+-- corpus statistics come from the per-document chunk and character totals.
+-- A document scores as its best chunk rather than the sum of its chunks, so
+-- long documents no longer outrank shorter, more relevant ones.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.bm25_candidate_documents(
+  p_user_id UUID,
+  p_source_document_id UUID,
+  p_start_page INTEGER DEFAULT NULL,
+  p_end_page INTEGER DEFAULT NULL,
+  p_document_ids UUID[] DEFAULT NULL,
+  p_max_terms INTEGER DEFAULT 64,
+  p_match_count INTEGER DEFAULT 600,
+  p_k1 DOUBLE PRECISION DEFAULT 1.2,
+  p_b DOUBLE PRECISION DEFAULT 0.75,
+  p_workspace_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (document_id UUID, score DOUBLE PRECISION, matched_chunks INTEGER)
+LANGUAGE sql STABLE
+AS $$
+  WITH corpus_stats AS (
+    SELECT
+      GREATEST(SUM(d.effective_chunk_count), 1)::DOUBLE PRECISION AS chunk_total,
+      GREATEST(
+        SUM(d.total_characters)::DOUBLE PRECISION / NULLIF(SUM(d.effective_chunk_count), 0),
+        1
+      )::DOUBLE PRECISION AS avg_length
+    FROM public.documents d
+    WHERE ((d.workspace_id IS NULL AND d.user_id = p_user_id) OR d.workspace_id = ANY(p_workspace_ids))
+      AND d.status = 'completed'
+  ),
+  source_terms AS (
+    SELECT t.lexeme, SUM(COALESCE(array_length(t.positions, 1), 1)) AS source_tf
+    FROM public.document_embeddings e
+    CROSS JOIN LATERAL unnest(e.chunk_text_tsv) AS t
+    WHERE e.document_id = p_source_document_id
+      AND (p_start_page IS NULL OR COALESCE(e.end_page_number, e.page_number) >= p_start_page)
+      AND (p_end_page IS NULL OR COALESCE(e.start_page_number, e.page_number) <= p_end_page)
+      AND length(t.lexeme) >= 3
+      AND t.lexeme !~ '^[0-9.,]+$'
+    GROUP BY t.lexeme
+    ORDER BY source_tf DESC, t.lexeme
+    LIMIT p_max_terms
+  ),
+  source_query AS (
+    SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery AS q
+    FROM source_terms
+  ),
+  matched AS (
+    SELECT
+      e.id,
+      e.document_id,
+      e.chunk_text_tsv,
+      GREATEST(COALESCE(e.character_count, length(e.chunk_text)), 1)::DOUBLE PRECISION AS chunk_length
+    FROM source_query sq
+    JOIN public.document_embeddings e ON e.chunk_text_tsv @@ sq.q
+    JOIN public.documents d ON d.id = e.document_id
+    WHERE ((d.workspace_id IS NULL AND d.user_id = p_user_id) OR d.workspace_id = ANY(p_workspace_ids))
+      AND d.status = 'completed'
+  ),
+  postings AS (
+    SELECT
+      m.id AS chunk_id,
+      m.document_id,
+      m.chunk_length,
+      t.lexeme,
+      COALESCE(array_length(t.positions, 1), 1)::DOUBLE PRECISION AS tf
+    FROM matched m
+    CROSS JOIN LATERAL unnest(m.chunk_text_tsv) AS t
+    WHERE t.lexeme IN (SELECT lexeme FROM source_terms)
+  ),
+  term_df AS (
+    SELECT lexeme, COUNT(DISTINCT chunk_id)::DOUBLE PRECISION AS df
+    FROM postings
+    GROUP BY lexeme
+  ),
+  chunk_scores AS (
+    SELECT
+      p.chunk_id,
+      p.document_id,
+      SUM(
+        ln(1 + GREATEST(s.chunk_total - df.df + 0.5, 0) / (df.df + 0.5))
+        * (p.tf * (p_k1 + 1))
+        / (p.tf + p_k1 * (1 - p_b + p_b * p.chunk_length / s.avg_length))
+      ) AS chunk_score
+    FROM postings p
+    JOIN term_df df ON df.lexeme = p.lexeme
+    CROSS JOIN corpus_stats s
+    WHERE p.document_id <> p_source_document_id
+      AND (p_document_ids IS NULL OR p.document_id = ANY(p_document_ids))
+    GROUP BY p.chunk_id, p.document_id
+  )
+  SELECT
+    cs.document_id,
+    MAX(cs.chunk_score)::DOUBLE PRECISION AS score,
+    COUNT(*)::INTEGER AS matched_chunks
+  FROM chunk_scores cs
+  GROUP BY cs.document_id
+  ORDER BY 2 DESC
+  LIMIT p_match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bm25_candidate_documents(
+  UUID, UUID, INTEGER, INTEGER, UUID[], INTEGER, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, UUID[]
+) TO service_role;